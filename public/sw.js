@@ -0,0 +1,91 @@
+// Service Worker do SmartClass
+// Descrição: Mantém o aplicativo abrindo sem internet (HTML e arquivos do
+//            build em cache) e avisa a página quando a conexão volta, para
+//            enviar as chamadas e conteúdos guardados no aparelho.
+//            As requisições ao Supabase nunca passam pelo cache.
+
+const CACHE_VERSION = 'smartclass-v1';
+const SYNC_TAG = 'smartclass-sync';
+const SHELL = ['/', '/index.html', '/site.webmanifest', '/favicon.ico', '/android-chrome-192x192.png'];
+
+// Arquivos gerados pelo build (nomes com hash) referenciados no index.html
+const assetsDoIndex = async () => {
+  const response = await fetch('/index.html', { cache: 'no-store' });
+  const html = await response.text();
+  const refs = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1]);
+  return [...new Set(refs)];
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE_VERSION);
+      await cache.addAll(SHELL);
+      await cache.addAll(await assetsDoIndex());
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const nomes = await caches.keys();
+      await Promise.all(nomes.filter((nome) => nome !== CACHE_VERSION).map((nome) => caches.delete(nome)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Navegação: rede primeiro; sem conexão, o app em cache (as rotas são do React Router)
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copia = response.clone();
+          caches.open(CACHE_VERSION).then((cache) => cache.put('/index.html', copia));
+          return response;
+        })
+        .catch(async () => (await caches.match('/index.html')) || Response.error())
+    );
+    return;
+  }
+
+  // Arquivos do build nunca mudam de conteúdo (o nome tem hash): cache primeiro
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(
+      (async () => {
+        const cache = await caches.open(CACHE_VERSION);
+        const salvo = await cache.match(request);
+        if (salvo) return salvo;
+
+        const response = await fetch(request);
+        if (response.ok) cache.put(request, response.clone());
+        return response;
+      })()
+    );
+    return;
+  }
+
+  if (SHELL.includes(url.pathname)) {
+    event.respondWith(caches.match(request).then((salvo) => salvo || fetch(request)));
+  }
+});
+
+// Conexão restabelecida (Background Sync): a página envia a fila offline
+self.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_TAG) return;
+
+  event.waitUntil(
+    (async () => {
+      const janelas = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      janelas.forEach((janela) => janela.postMessage({ type: 'BACKGROUND_SYNC' }));
+    })()
+  );
+});
@@ -16,6 +16,12 @@ import {
   LazyCursos,
   LazyRelatorios,
   LazyProfile,
+  LazyFolhaPagamento,
+  LazyDemonstrativoProfessor,
+  LazyPortalResponsavel,
+  LazyPortalAluno,
+  LazyAreaProfessor,
+  LazyCalendario,
 } from "./components/LazyRoute";
 import { monitoring } from "./services/monitoring";
 import { useRouteMonitoring } from "./hooks/useRouteMonitoring";
@@ -24,6 +30,7 @@ import Login from "./pages/Login";
 import Register from "./pages/Register";
 import EmailConfirmation from "./pages/EmailConfirmation";
 import Auth from "./pages/Auth";
+import AceitarConvite from "./pages/AceitarConvite";
 import SchoolSettings from "./pages/SchoolSettings";
 import NotFound from "./pages/NotFound";
 import { AccessibilityProvider } from "./components/AccessibilityProvider";
@@ -58,6 +65,7 @@ function App() {
                       <Route path="/register" element={<Navigate to="/auth" replace />} />
                       <Route path="/auth" element={<Auth />} />
                       <Route path="/email-confirmation" element={<EmailConfirmation />} />
+                      <Route path="/convite/:token" element={<AceitarConvite />} />
                       <Route
                         path="/dashboard"
                         element={
@@ -69,7 +77,7 @@ function App() {
                       <Route
                         path="/alunos"
                         element={
-                          <ProtectedRoute>
+                          <ProtectedRoute capacidade="alunos.ver">
                             <LazyAlunos />
                           </ProtectedRoute>
                         }
@@ -77,7 +85,7 @@ function App() {
                       <Route
                         path="/professores"
                         element={
-                          <ProtectedRoute>
+                          <ProtectedRoute capacidade="professores.ver">
                             <LazyProfessores />
                           </ProtectedRoute>
                         }
@@ -85,15 +93,23 @@ function App() {
                       <Route
                         path="/turmas"
                         element={
-                          <ProtectedRoute>
+                          <ProtectedRoute capacidade="turmas.ver">
                             <LazyTurmas />
                           </ProtectedRoute>
                         }
                       />
+                      <Route
+                        path="/calendario"
+                        element={
+                          <ProtectedRoute capacidade="calendario.ver">
+                            <LazyCalendario />
+                          </ProtectedRoute>
+                        }
+                      />
                       <Route
                         path="/cursos"
                         element={
-                          <ProtectedRoute>
+                          <ProtectedRoute capacidade="cursos.gerenciar">
                             <LazyCursos />
                           </ProtectedRoute>
                         }
@@ -101,15 +117,55 @@ function App() {
                       <Route
                         path="/financeiro"
                         element={
-                          <ProtectedRoute>
+                          <ProtectedRoute capacidade="financeiro.ver">
                             <LazyFinanceiro />
                           </ProtectedRoute>
                         }
                       />
+                      <Route
+                        path="/folha-pagamento"
+                        element={
+                          <ProtectedRoute capacidade="folha.gerenciar">
+                            <LazyFolhaPagamento />
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/folha-pagamento/:folhaId/professor/:professorId"
+                        element={
+                          <ProtectedRoute capacidade="folha.demonstrativo">
+                            <LazyDemonstrativoProfessor />
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/portal-responsavel"
+                        element={
+                          <ProtectedRoute capacidade="portal_responsavel.ver">
+                            <LazyPortalResponsavel />
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/minhas-turmas"
+                        element={
+                          <ProtectedRoute capacidade="area_professor.ver">
+                            <LazyAreaProfessor />
+                          </ProtectedRoute>
+                        }
+                      />
+                      <Route
+                        path="/portal-aluno"
+                        element={
+                          <ProtectedRoute capacidade="portal_aluno.ver">
+                            <LazyPortalAluno />
+                          </ProtectedRoute>
+                        }
+                      />
                       <Route
                         path="/comunicacao"
                         element={
-                          <ProtectedRoute>
+                          <ProtectedRoute capacidade="comunicacao.usar">
                             <LazyComunicacao />
                           </ProtectedRoute>
                         }
@@ -117,7 +173,7 @@ function App() {
                       <Route
                         path="/relatorios"
                         element={
-                          <ProtectedRoute>
+                          <ProtectedRoute capacidade="relatorios.ver">
                             <LazyRelatorios />
                           </ProtectedRoute>
                         }
@@ -125,7 +181,7 @@ function App() {
                       <Route
                         path="/profile"
                         element={
-                          <ProtectedRoute>
+                          <ProtectedRoute capacidade="perfil.editar">
                             <LazyProfile />
                           </ProtectedRoute>
                         }
@@ -133,7 +189,7 @@ function App() {
                       <Route
                         path="/school-settings"
                         element={
-                          <ProtectedRoute>
+                          <ProtectedRoute capacidade="escola.configurar">
                             <SchoolSettings />
                           </ProtectedRoute>
                         }
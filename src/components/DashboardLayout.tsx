@@ -6,8 +6,12 @@ import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
 import { Logo } from "@/components/Logo"
 import { ThemeToggle } from "@/components/ThemeToggle"
 import { MobileNavbar } from "@/components/MobileNavbar"
+import { SeletorEscola } from "@/components/escola/SeletorEscola"
+import { IndicadorSincronizacao } from "@/components/offline/IndicadorSincronizacao"
+import { CentralNotificacoes } from "@/components/notificacoes/CentralNotificacoes"
 import { useAuth } from "@/contexts/AuthContext"
 import { useUserProfile } from "@/contexts/UserProfileContext"
+import type { Capacidade } from "@/utils/permissoes"
 import {
   Menu,
   Home,
@@ -20,7 +24,11 @@ import {
   LogOut,
   ChevronLeft,
   ChevronRight,
-  BookOpen
+  BookOpen,
+  CalendarDays,
+  Heart,
+  ClipboardCheck,
+  type LucideIcon
 } from "lucide-react"
 
 interface DashboardLayoutProps {
@@ -28,54 +36,85 @@ interface DashboardLayoutProps {
   title?: string
 }
 
-const navigation = [
+interface ItemNavegacao {
+  name: string
+  href: string
+  icon: LucideIcon
+  capacidade: Capacidade
+}
+
+const navigation: ItemNavegacao[] = [
   { 
     name: "Dashboard", 
     href: "/dashboard", 
     icon: Home, 
-    roles: ['diretor', 'admin', 'professor', 'aluno', 'secretario'] 
+    capacidade: 'dashboard.ver' 
+  },
+  { 
+    name: "Minhas Turmas", 
+    href: "/minhas-turmas", 
+    icon: ClipboardCheck, 
+    capacidade: 'area_professor.ver' 
+  },
+  { 
+    name: "Minha Área", 
+    href: "/portal-aluno", 
+    icon: Home, 
+    capacidade: 'portal_aluno.ver' 
+  },
+  { 
+    name: "Portal da Família", 
+    href: "/portal-responsavel", 
+    icon: Heart, 
+    capacidade: 'portal_responsavel.ver' 
   },
   { 
     name: "Turmas", 
     href: "/turmas", 
     icon: Users, 
-    roles: ['diretor', 'admin', 'secretario', 'professor'] 
+    capacidade: 'turmas.ver' 
+  },
+  { 
+    name: "Calendário", 
+    href: "/calendario", 
+    icon: CalendarDays, 
+    capacidade: 'calendario.ver' 
   },
   { 
     name: "Cursos", 
     href: "/cursos", 
     icon: BookOpen, 
-    roles: ['diretor', 'admin'] 
+    capacidade: 'cursos.gerenciar' 
   },
   { 
     name: "Alunos", 
     href: "/alunos", 
     icon: GraduationCap, 
-    roles: ['diretor', 'admin', 'secretario', 'professor'] 
+    capacidade: 'alunos.ver' 
   },
   { 
     name: "Professores", 
     href: "/professores", 
     icon: UserCheck, 
-    roles: ['diretor', 'admin', 'secretario'] 
+    capacidade: 'professores.ver' 
   },
   { 
     name: "Comunicação", 
     href: "/comunicacao", 
     icon: MessageCircle, 
-    roles: ['diretor', 'admin', 'professor', 'aluno', 'secretario'] 
+    capacidade: 'comunicacao.usar' 
   },
   { 
     name: "Relatórios", 
     href: "/relatorios", 
     icon: BarChart3, 
-    roles: ['diretor', 'admin'] 
+    capacidade: 'relatorios.ver' 
   },
   { 
     name: "Financeiro", 
     href: "/financeiro", 
     icon: DollarSign, 
-    roles: ['diretor', 'admin', 'secretario'] 
+    capacidade: 'financeiro.ver' 
   },
 ]
 
@@ -84,12 +123,10 @@ export function DashboardLayout({ children, title }: DashboardLayoutProps) {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
   const location = useLocation()
   const { user, signOut } = useAuth()
-  const { profile } = useUserProfile()
+  const { profile, pode } = useUserProfile()
 
   // Filtrar navegação baseada no papel do usuário
-  const filteredNavigation = navigation.filter(item => 
-    profile?.tipo_usuario && item.roles.includes(profile.tipo_usuario)
-  )
+  const filteredNavigation = navigation.filter(item => pode(item.capacidade))
 
   const isActive = (href: string) => location.pathname === href
 
@@ -175,7 +212,7 @@ export function DashboardLayout({ children, title }: DashboardLayoutProps) {
               </div>
               {profile && (
                 <div className="text-xs text-muted-foreground/80 capitalize">
-                  {profile.tipo_usuario} • {profile.nome_completo}
+                  {profile.papel?.nome ?? profile.tipo_usuario} • {profile.nome_completo}
                 </div>
               )}
             </Link>
@@ -240,6 +277,9 @@ export function DashboardLayout({ children, title }: DashboardLayoutProps) {
               )}
             </div>
             <div className="flex items-center gap-x-4 lg:gap-x-6">
+              <IndicadorSincronizacao />
+              <SeletorEscola />
+              <CentralNotificacoes />
               <ThemeToggle />
             </div>
           </div>
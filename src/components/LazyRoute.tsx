@@ -37,4 +37,10 @@ export const LazyComunicacao = withLazyLoading(() => import('@/pages/Comunicacao
 export const LazyFinanceiro = withLazyLoading(() => import('@/pages/Financeiro'));
 export const LazyCursos = withLazyLoading(() => import('@/pages/Cursos'));
 export const LazyRelatorios = withLazyLoading(() => import('@/pages/Relatorios'));
-export const LazyProfile = withLazyLoading(() => import('@/pages/Profile'));
\ No newline at end of file
+export const LazyProfile = withLazyLoading(() => import('@/pages/Profile'));
+export const LazyFolhaPagamento = withLazyLoading(() => import('@/pages/FolhaPagamento'));
+export const LazyDemonstrativoProfessor = withLazyLoading(() => import('@/pages/DemonstrativoProfessor'));
+export const LazyPortalResponsavel = withLazyLoading(() => import('@/pages/PortalResponsavel'));
+export const LazyPortalAluno = withLazyLoading(() => import('@/pages/PortalAluno'));
+export const LazyAreaProfessor = withLazyLoading(() => import('@/pages/AreaProfessor'));
+export const LazyCalendario = withLazyLoading(() => import('@/pages/Calendario'));
\ No newline at end of file
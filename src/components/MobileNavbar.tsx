@@ -1,6 +1,7 @@
 import { Link, useLocation } from "react-router-dom"
 import { cn } from "@/lib/utils"
 import { useUserProfile } from "@/contexts/UserProfileContext"
+import type { Capacidade } from "@/utils/permissoes"
 import {
   Home,
   Users,
@@ -9,68 +10,101 @@ import {
   BarChart3,
   DollarSign,
   MessageCircle,
-  BookOpen
+  BookOpen,
+  CalendarDays,
+  Heart,
+  ClipboardCheck,
+  type LucideIcon
 } from "lucide-react"
 
-const navigation = [
+interface ItemNavegacao {
+  name: string
+  href: string
+  icon: LucideIcon
+  capacidade: Capacidade
+}
+
+const navigation: ItemNavegacao[] = [
   { 
     name: "Dashboard", 
     href: "/dashboard", 
     icon: Home, 
-    roles: ['diretor', 'admin', 'professor', 'aluno', 'secretario'] 
+    capacidade: 'dashboard.ver' 
+  },
+  { 
+    name: "Minhas Turmas", 
+    href: "/minhas-turmas", 
+    icon: ClipboardCheck, 
+    capacidade: 'area_professor.ver' 
+  },
+  { 
+    name: "Minha Área", 
+    href: "/portal-aluno", 
+    icon: Home, 
+    capacidade: 'portal_aluno.ver' 
+  },
+  { 
+    name: "Portal da Família", 
+    href: "/portal-responsavel", 
+    icon: Heart, 
+    capacidade: 'portal_responsavel.ver' 
   },
   { 
     name: "Turmas", 
     href: "/turmas", 
     icon: Users, 
-    roles: ['diretor', 'admin', 'secretario', 'professor'] 
+    capacidade: 'turmas.ver' 
+  },
+  { 
+    name: "Calendário", 
+    href: "/calendario", 
+    icon: CalendarDays, 
+    capacidade: 'calendario.ver' 
   },
   { 
     name: "Cursos", 
     href: "/cursos", 
     icon: BookOpen, 
-    roles: ['diretor', 'admin'] 
+    capacidade: 'cursos.gerenciar' 
   },
   { 
     name: "Alunos", 
     href: "/alunos", 
     icon: GraduationCap, 
-    roles: ['diretor', 'admin', 'secretario', 'professor'] 
+    capacidade: 'alunos.ver' 
   },
   { 
     name: "Professores", 
     href: "/professores", 
     icon: UserCheck, 
-    roles: ['diretor', 'admin', 'secretario'] 
+    capacidade: 'professores.ver' 
   },
   { 
     name: "Chat", 
     href: "/comunicacao", 
     icon: MessageCircle, 
-    roles: ['diretor', 'admin', 'professor', 'aluno', 'secretario'] 
+    capacidade: 'comunicacao.usar' 
   },
   { 
     name: "Relatórios", 
     href: "/relatorios", 
     icon: BarChart3, 
-    roles: ['diretor', 'admin'] 
+    capacidade: 'relatorios.ver' 
   },
   { 
     name: "Financeiro", 
     href: "/financeiro", 
     icon: DollarSign, 
-    roles: ['diretor', 'admin', 'secretario'] 
+    capacidade: 'financeiro.ver' 
   },
 ]
 
 export function MobileNavbar() {
   const location = useLocation()
-  const { profile } = useUserProfile()
+  const { pode } = useUserProfile()
 
   // Filtrar navegação baseada no papel do usuário
-  const filteredNavigation = navigation.filter(item => 
-    profile?.tipo_usuario && item.roles.includes(profile.tipo_usuario)
-  )
+  const filteredNavigation = navigation.filter(item => pode(item.capacidade))
 
   const isActive = (href: string) => location.pathname === href
 
@@ -3,15 +3,16 @@ import React from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { useUserProfile } from '@/contexts/UserProfileContext'
 import { Navigate } from 'react-router-dom'
+import type { Capacidade } from '@/utils/permissoes'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
-  requiredRoles?: ('diretor' | 'admin' | 'professor' | 'aluno' | 'secretario')[]
+  capacidade?: Capacidade // ver ROTAS em utils/permissoes
 }
 
-export function ProtectedRoute({ children, requiredRoles }: ProtectedRouteProps) {
+export function ProtectedRoute({ children, capacidade }: ProtectedRouteProps) {
   const { user, loading: authLoading } = useAuth()
-  const { profile, loading: profileLoading } = useUserProfile()
+  const { profile, pode, loading: profileLoading } = useUserProfile()
 
   const loading = authLoading || profileLoading
 
@@ -47,8 +48,8 @@ export function ProtectedRoute({ children, requiredRoles }: ProtectedRouteProps)
     )
   }
 
-  // Verificar se o usuário tem o papel necessário
-  if (requiredRoles && !requiredRoles.includes(profile.tipo_usuario)) {
+  // Verificar se o papel do usuário tem a capacidade exigida pela rota
+  if (capacidade && !pode(capacidade)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="flex flex-col items-center text-center p-4">
@@ -26,9 +26,10 @@ interface TurmaCardProps {
   }
   onDelete: (id: string) => void
   onViewDetails: (turma: any) => void
+  podeGerenciar?: boolean
 }
 
-export function TurmaCard({ turma, onDelete, onViewDetails }: TurmaCardProps) {
+export function TurmaCard({ turma, onDelete, onViewDetails, podeGerenciar = true }: TurmaCardProps) {
   const getPresencaColor = (presenca: number) => {
     if (presenca >= 90) return "text-green-600"
     if (presenca >= 75) return "text-yellow-600"
@@ -68,54 +69,56 @@ export function TurmaCard({ turma, onDelete, onViewDetails }: TurmaCardProps) {
             </div>
           </div>
 
-          <TooltipProvider>
-            <div className="flex items-center gap-1 flex-shrink-0" onClick={(e) => e.stopPropagation()}>
-              <Tooltip>
-                <TooltipTrigger asChild>
-                  <Button 
-                    variant="ghost" 
-                    size="sm" 
-                    className="h-8 w-8 p-0 hover:bg-orange-100 hover:text-orange-600"
-                  >
-                    <Edit className="h-4 w-4" />
-                  </Button>
-                </TooltipTrigger>
-                <TooltipContent>Editar turma</TooltipContent>
-              </Tooltip>
-
-              <AlertDialog>
+          {podeGerenciar && (
+            <TooltipProvider>
+              <div className="flex items-center gap-1 flex-shrink-0" onClick={(e) => e.stopPropagation()}>
                 <Tooltip>
                   <TooltipTrigger asChild>
-                    <AlertDialogTrigger asChild>
-                      <Button 
-                        variant="ghost" 
-                        size="sm" 
-                        className="h-8 w-8 p-0 hover:bg-red-100 hover:text-red-600"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </AlertDialogTrigger>
+                    <Button 
+                      variant="ghost" 
+                      size="sm" 
+                      className="h-8 w-8 p-0 hover:bg-orange-100 hover:text-orange-600"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
                   </TooltipTrigger>
-                  <TooltipContent>Excluir turma</TooltipContent>
+                  <TooltipContent>Editar turma</TooltipContent>
                 </Tooltip>
-                
-                <AlertDialogContent>
-                  <AlertDialogHeader>
-                    <AlertDialogTitle>Excluir Turma</AlertDialogTitle>
-                    <AlertDialogDescription>
-                      Tem certeza que deseja excluir a turma "{turma.nome}"? Esta ação não pode ser desfeita.
-                    </AlertDialogDescription>
-                  </AlertDialogHeader>
-                  <AlertDialogFooter>
-                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                    <AlertDialogAction onClick={() => onDelete(turma.id)}>
-                      Excluir
-                    </AlertDialogAction>
-                  </AlertDialogFooter>
-                </AlertDialogContent>
-              </AlertDialog>
-            </div>
-          </TooltipProvider>
+
+                <AlertDialog>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <AlertDialogTrigger asChild>
+                        <Button 
+                          variant="ghost" 
+                          size="sm" 
+                          className="h-8 w-8 p-0 hover:bg-red-100 hover:text-red-600"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                    </TooltipTrigger>
+                    <TooltipContent>Excluir turma</TooltipContent>
+                  </Tooltip>
+                  
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Excluir Turma</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Tem certeza que deseja excluir a turma "{turma.nome}"? Esta ação não pode ser desfeita.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => onDelete(turma.id)}>
+                        Excluir
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </TooltipProvider>
+          )}
         </div>
 
         {/* Informações do instrumento */}
@@ -0,0 +1,95 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Loader2, MailPlus, RotateCw, XCircle } from "lucide-react";
+import { TIPOS_CONVITE, type Convite } from "@/types/convite";
+import { descreverPrazoConvite, getStatusConvite } from "@/utils/convitesUtils";
+import { formatDate } from "@/utils/dateUtils";
+
+interface ConvitesPendentesCardProps {
+  convites: Convite[];
+  loading: boolean;
+  onReenviar: (conviteId: string) => Promise<{ success: boolean }>;
+  onRevogar: (conviteId: string) => Promise<{ success: boolean }>;
+  acao?: React.ReactNode; // botão de novo convite no cabeçalho
+}
+
+const labelTipo = (tipo: string) => TIPOS_CONVITE.find((t) => t.value === tipo)?.label ?? tipo;
+
+export function ConvitesPendentesCard({ convites, loading, onReenviar, onRevogar, acao }: ConvitesPendentesCardProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <MailPlus className="h-5 w-5" />
+            Convites pendentes ({convites.length})
+          </CardTitle>
+          <CardDescription>
+            Convites ainda não aceitos. Reenviar gera um novo link e renova o prazo.
+          </CardDescription>
+        </div>
+        {acao}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : convites.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum convite pendente</p>
+        ) : (
+          <div className="space-y-2">
+            {convites.map((convite) => {
+              const expirado = getStatusConvite(convite) === "expirado";
+              return (
+                <div key={convite.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border rounded-lg">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate">{convite.nome_completo}</p>
+                      <Badge variant="outline">{labelTipo(convite.tipo_usuario)}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">{convite.email}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Enviado em {formatDate(convite.enviado_em)}
+                      {convite.envios > 1 && ` (${convite.envios} envios)`}
+                      {" · "}
+                      <span className={expirado ? "text-red-600" : undefined}>{descreverPrazoConvite(convite)}</span>
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="outline" size="sm" className="gap-2" onClick={() => onReenviar(convite.id)}>
+                      <RotateCw className="h-4 w-4" />
+                      Reenviar
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" className="gap-2 hover:text-red-600">
+                          <XCircle className="h-4 w-4" />
+                          Revogar
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Revogar Convite</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            O link enviado para {convite.email} deixa de funcionar.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => onRevogar(convite.id)}>Revogar</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -37,7 +37,7 @@ export function DashboardCursos() {
   const alunosPorCurso = useMemo(() => {
     return cursosFiltrados.map((curso) => {
       const turmasCurso = turmas.filter(t => t.curso_id === curso.id).map(t => t.id);
-      const alunosCurso = alunos.filter(a => turmasCurso.includes(a.turma_id));
+      const alunosCurso = alunos.filter(a => a.turmas?.some(t => turmasCurso.includes(t.id)));
       return { nome: curso.nome, alunos: alunosCurso.length };
     });
   }, [cursosFiltrados, turmas, alunos]);
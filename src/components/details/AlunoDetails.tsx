@@ -5,15 +5,33 @@ import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Progress } from "@/components/ui/progress"
 import { Card, CardContent } from "@/components/ui/card"
-import { Mail, Phone, GraduationCap, Calendar, TrendingUp, MessageCircle, MapPin, User, Music } from "lucide-react"
-import { Aluno } from "@/types/aluno"
+import { Mail, Phone, GraduationCap, Calendar, TrendingUp, MessageCircle, MapPin, User, Music, Percent, Wallet, Users, KeyRound, Receipt } from "lucide-react"
+import { useState } from "react"
+import { Aluno, DadosPagador, STATUS_MATRICULA } from "@/types/aluno"
+import { DescontosAlunoModal } from "@/components/modals/DescontosAlunoModal"
+import { ResponsaveisAlunoModal } from "@/components/modals/ResponsaveisAlunoModal"
+import { DadosPagadorModal } from "@/components/modals/DadosPagadorModal"
+import { useFinanceiroAluno } from "@/hooks/useFinanceiroAluno"
+import { getValorDevido } from "@/utils/financeiroUtils"
+import { formatCurrency } from "@/utils/formatUtils"
+import { useUserProfile } from "@/contexts/UserProfileContext"
 
 interface AlunoDetailsProps {
   trigger: React.ReactNode
   aluno: Aluno
+  onConvidarPortal?: (aluno: Aluno) => Promise<{ success: boolean }>
+  onSalvarPagador?: (alunoId: string, dados: DadosPagador) => Promise<{ success: boolean }>
 }
 
-export function AlunoDetails({ trigger, aluno }: AlunoDetailsProps) {
+export function AlunoDetails({ trigger, aluno, onConvidarPortal, onSalvarPagador }: AlunoDetailsProps) {
+  const [open, setOpen] = useState(false)
+  const [convidando, setConvidando] = useState(false)
+  const { pode } = useUserProfile()
+  const podeGerenciar = pode("alunos.gerenciar")
+  // Cobranças carregadas apenas com o modal aberto
+  const { cobrancas, loading: loadingCobrancas } = useFinanceiroAluno(open ? aluno.id : undefined)
+  const totalEmAberto = cobrancas.reduce((acc, cobranca) => acc + getValorDevido(cobranca), 0)
+
   const getInitials = (nome: string) => {
     return nome
       .split(' ')
@@ -48,7 +66,7 @@ export function AlunoDetails({ trigger, aluno }: AlunoDetailsProps) {
   ]
 
   return (
-    <Dialog>
+    <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
         {trigger}
       </DialogTrigger>
@@ -96,8 +114,8 @@ export function AlunoDetails({ trigger, aluno }: AlunoDetailsProps) {
                     <GraduationCap className="h-5 w-5 text-purple-600" />
                   </div>
                   <div>
-                    <p className="text-sm text-gray-500">Turma</p>
-                    <p className="font-semibold">{aluno.turma?.nome || 'Sem turma'}</p>
+                    <p className="text-sm text-gray-500">Turmas</p>
+                    <p className="font-semibold">{aluno.turmas?.map(turma => turma.nome).join(', ') || 'Sem turma'}</p>
                   </div>
                 </div>
                 
@@ -108,7 +126,9 @@ export function AlunoDetails({ trigger, aluno }: AlunoDetailsProps) {
                   <div>
                     <p className="text-sm text-gray-500">Matrícula</p>
                     <p className="font-semibold">
-                      {aluno.created_at ? new Date(aluno.created_at).toLocaleDateString('pt-BR') : 'N/A'}
+                      {aluno.data_matricula
+                        ? aluno.data_matricula.split('-').reverse().join('/')
+                        : aluno.created_at ? new Date(aluno.created_at).toLocaleDateString('pt-BR') : 'N/A'}
                     </p>
                   </div>
                 </div>
@@ -280,14 +300,139 @@ export function AlunoDetails({ trigger, aluno }: AlunoDetailsProps) {
             </CardContent>
           </Card>
 
+          {/* Matrículas */}
+          {aluno.matriculas && aluno.matriculas.length > 0 && (
+            <Card>
+              <CardContent className="p-4">
+                <h4 className="font-semibold flex items-center gap-2 mb-3">
+                  <GraduationCap className="h-4 w-4" />
+                  Matrículas
+                </h4>
+                <div className="space-y-2">
+                  {[...aluno.matriculas]
+                    .sort((a, b) => b.data_inicio.localeCompare(a.data_inicio))
+                    .map((matricula) => (
+                      <div key={matricula.id} className="flex items-center justify-between text-sm">
+                        <div>
+                          <p className="font-medium">{matricula.turma?.nome}</p>
+                          <p className="text-xs text-gray-500">
+                            Desde {matricula.data_inicio.split('-').reverse().join('/')}
+                            {matricula.data_fim && ` até ${matricula.data_fim.split('-').reverse().join('/')}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge variant={matricula.status === 'ativa' ? 'default' : 'secondary'}>
+                            {STATUS_MATRICULA.find((s) => s.value === matricula.status)?.label}
+                          </Badge>
+                          <span className="font-semibold">
+                            {formatCurrency(Number(matricula.valor_mensal ?? matricula.turma?.valor_mensal ?? 0))}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Situação financeira */}
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex justify-between items-center mb-3">
+                <h4 className="font-semibold flex items-center gap-2">
+                  <Wallet className="h-4 w-4" />
+                  Situação Financeira
+                </h4>
+                {!loadingCobrancas && (
+                  <span className={`font-bold ${totalEmAberto > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {totalEmAberto > 0 ? `${formatCurrency(totalEmAberto)} em aberto` : 'Em dia'}
+                  </span>
+                )}
+              </div>
+              {loadingCobrancas ? (
+                <p className="text-sm text-gray-500">Carregando cobranças...</p>
+              ) : (
+                <div className="space-y-2">
+                  {cobrancas.map((cobranca) => (
+                    <div key={cobranca.id} className="flex items-center justify-between text-sm">
+                      <div>
+                        <p className="font-medium">{cobranca.descricao}</p>
+                        <p className="text-xs text-gray-500">
+                          Vencimento {cobranca.data_vencimento.split('-').reverse().join('/')}
+                          {getValorDevido(cobranca) > Number(cobranca.valor) &&
+                            ` • original ${formatCurrency(Number(cobranca.valor))} + multa e juros`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {cobranca.status === 'atrasado' && <Badge variant="destructive">Atrasado</Badge>}
+                        <span className="font-semibold">{formatCurrency(getValorDevido(cobranca))}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Ações */}
           <div className="flex flex-wrap gap-3">
-            <Button variant="outline" className="flex-1">
-              Editar Dados
-            </Button>
+            {podeGerenciar && (
+              <Button variant="outline" className="flex-1">
+                Editar Dados
+              </Button>
+            )}
             <Button className="flex-1">
               Enviar Mensagem
             </Button>
+            {podeGerenciar && (
+              <>
+                <DescontosAlunoModal
+                  aluno={{ id: aluno.id, nome: aluno.nome }}
+                  trigger={
+                    <Button variant="outline">
+                      <Percent className="h-4 w-4 mr-2" />
+                      Descontos
+                    </Button>
+                  }
+                />
+                <ResponsaveisAlunoModal
+                  aluno={{ id: aluno.id, nome: aluno.nome }}
+                  trigger={
+                    <Button variant="outline">
+                      <Users className="h-4 w-4 mr-2" />
+                      Responsáveis
+                    </Button>
+                  }
+                />
+                {onSalvarPagador && (
+                  <DadosPagadorModal
+                    aluno={aluno}
+                    onSalvar={onSalvarPagador}
+                    trigger={
+                      <Button variant="outline">
+                        <Receipt className="h-4 w-4 mr-2" />
+                        Dados de cobrança
+                      </Button>
+                    }
+                  />
+                )}
+              </>
+            )}
+            {podeGerenciar && onConvidarPortal && !aluno.user_id && (
+              <Button
+                variant="outline"
+                disabled={convidando || !aluno.email}
+                title={aluno.email ? undefined : "Cadastre o e-mail do aluno"}
+                onClick={async () => {
+                  setConvidando(true)
+                  await onConvidarPortal(aluno)
+                  setConvidando(false)
+                }}
+              >
+                <KeyRound className="h-4 w-4 mr-2" />
+                {convidando ? "Enviando..." : "Liberar portal"}
+              </Button>
+            )}
             {aluno.telefone && (
               <Button variant="outline" asChild>
                 <a 
@@ -0,0 +1,131 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Loader2, Pencil, Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { PapelModal } from "@/components/modals/PapelModal";
+import { usePapeis } from "@/hooks/usePapeis";
+
+// Valor do Select para "sem papel da escola" (Radix não aceita value vazio)
+const PAPEL_PADRAO = "padrao";
+
+export function PapeisCard() {
+  const { papeis, equipe, loading, salvarPapel, excluirPapel, atribuirPapel } = usePapeis();
+  const papeisDaEscola = papeis.filter((p) => p.school_id !== null);
+  const nomePadrao = (tipoUsuario: string) =>
+    papeis.find((p) => p.school_id === null && p.codigo === tipoUsuario)?.nome ?? tipoUsuario;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Papéis e Permissões
+          </CardTitle>
+          <CardDescription>
+            Crie papéis com as permissões que sua escola precisa e atribua-os à equipe
+          </CardDescription>
+        </div>
+        <PapelModal
+          trigger={
+            <Button size="sm" className="gap-2">
+              <Plus className="h-4 w-4" />
+              Novo Papel
+            </Button>
+          }
+          onSalvar={salvarPapel}
+        />
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {papeisDaEscola.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Nenhum papel criado. Sem um papel da escola, cada usuário tem as permissões padrão do seu tipo de conta.
+                </p>
+              ) : (
+                papeisDaEscola.map((papel) => (
+                  <div key={papel.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                    <div>
+                      <p className="font-medium">{papel.nome}</p>
+                      {papel.descricao && <p className="text-sm text-muted-foreground">{papel.descricao}</p>}
+                      <Badge variant="outline" className="mt-1 text-xs">
+                        {papel.capacidades.length} permissões
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <PapelModal
+                        papel={papel}
+                        trigger={
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        }
+                        onSalvar={salvarPapel}
+                      />
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0 hover:text-red-600">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Excluir Papel</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Quem tem o papel "{papel.nome}" volta às permissões padrão do seu tipo de conta.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => excluirPapel(papel.id)}>Excluir</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-semibold">Equipe</p>
+              {equipe.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhum membro da equipe cadastrado</p>
+              ) : (
+                equipe.map((membro) => (
+                  <div key={membro.id} className="flex items-center justify-between gap-4">
+                    <span className="text-sm truncate">{membro.nome_completo || "Sem nome"}</span>
+                    <Select
+                      value={membro.papel_id ?? PAPEL_PADRAO}
+                      onValueChange={(value) => atribuirPapel(membro.id, value === PAPEL_PADRAO ? null : value)}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={PAPEL_PADRAO}>{nomePadrao(membro.tipo_usuario)} (padrão)</SelectItem>
+                        {papeisDaEscola.map((papel) => (
+                          <SelectItem key={papel.id} value={papel.id}>
+                            {papel.nome}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,39 @@
+import { useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Building2 } from "lucide-react"
+import { useSchool } from "@/contexts/SchoolContext"
+
+// Seletor da escola ativa para quem é membro de mais de uma escola
+export function SeletorEscola() {
+  const { escolas, schoolId, trocarEscola } = useSchool()
+  const [trocando, setTrocando] = useState(false)
+  const navigate = useNavigate()
+
+  if (escolas.length < 2) return null
+
+  const handleChange = async (novaEscolaId: string) => {
+    setTrocando(true)
+    const trocou = await trocarEscola(novaEscolaId)
+    setTrocando(false)
+    // O papel pode ser outro na nova escola: o dashboard leva à página inicial dele
+    if (trocou) navigate("/dashboard", { replace: true })
+  }
+
+  return (
+    <Select value={schoolId ?? undefined} onValueChange={handleChange} disabled={trocando}>
+      <SelectTrigger className="w-48 sm:w-64" aria-label="Escola">
+        <Building2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <SelectValue placeholder="Escola" />
+      </SelectTrigger>
+      <SelectContent>
+        {escolas.map((escola) => (
+          <SelectItem key={escola.school_id} value={escola.school_id}>
+            <span className="truncate">{escola.nome}</span>
+            {escola.papel && <span className="ml-2 text-xs text-muted-foreground">{escola.papel}</span>}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
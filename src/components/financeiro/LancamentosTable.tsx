@@ -0,0 +1,152 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { BellRing, CheckCircle, MoreHorizontal, QrCode, XCircle } from "lucide-react";
+import { formatCurrency } from "@/utils/formatUtils";
+import { getValorDevido, isLancamentoVencido } from "@/utils/financeiroUtils";
+import { CATEGORIAS_DESPESA, CATEGORIAS_RECEITA, FinanceiroItem, METODOS_PAGAMENTO } from "@/types/financeiro";
+
+interface LancamentosTableProps {
+  lancamentos: FinanceiroItem[];
+  onMarcarPago: (lancamento: FinanceiroItem) => void;
+  onCancelar: (lancamento: FinanceiroItem) => void;
+  onCobrarPix: (lancamento: FinanceiroItem) => void;
+  onVerLembretes: (lancamento: FinanceiroItem) => void;
+}
+
+const formatarData = (data: string | null) => {
+  if (!data) return "—";
+  const [ano, mes, dia] = data.slice(0, 10).split("-");
+  return `${dia}/${mes}/${ano}`;
+};
+
+const labelCategoria = (lancamento: FinanceiroItem) => {
+  const categorias = lancamento.tipo === "receita" ? CATEGORIAS_RECEITA : CATEGORIAS_DESPESA;
+  return categorias.find((c) => c.value === lancamento.categoria)?.label ?? lancamento.categoria;
+};
+
+const labelMetodo = (metodo: string | null) =>
+  METODOS_PAGAMENTO.find((m) => m.value === metodo)?.label ?? "—";
+
+function StatusBadge({ lancamento }: { lancamento: FinanceiroItem }) {
+  if (lancamento.status === "pago") {
+    return <Badge className="bg-green-600 hover:bg-green-600">Pago</Badge>;
+  }
+  if (lancamento.status === "cancelado") {
+    return <Badge variant="secondary">Cancelado</Badge>;
+  }
+  if (lancamento.status === "atrasado" || isLancamentoVencido(lancamento)) {
+    return <Badge variant="destructive">Atrasado</Badge>;
+  }
+  return <Badge variant="outline">Pendente</Badge>;
+}
+
+export function LancamentosTable({ lancamentos, onMarcarPago, onCancelar, onCobrarPix, onVerLembretes }: LancamentosTableProps) {
+  if (lancamentos.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        Nenhum lançamento encontrado para os filtros selecionados
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Vencimento</TableHead>
+            <TableHead>Descrição</TableHead>
+            <TableHead>Categoria</TableHead>
+            <TableHead className="text-right">Valor</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Pagamento</TableHead>
+            <TableHead className="w-[50px]" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lancamentos.map((lancamento) => {
+            const emAberto = lancamento.status !== "pago" && lancamento.status !== "cancelado";
+            const vinculo = lancamento.aluno?.nome ?? lancamento.professor?.nome;
+            // Cobranças de alunos mantêm o histórico de lembretes mesmo depois de pagas
+            const temLembretes = lancamento.tipo === "receita" && !!lancamento.aluno_id;
+
+            return (
+              <TableRow key={lancamento.id} className={lancamento.status === "cancelado" ? "opacity-60" : undefined}>
+                <TableCell className="whitespace-nowrap">{formatarData(lancamento.data_vencimento)}</TableCell>
+                <TableCell>
+                  <p className="font-medium">{lancamento.descricao}</p>
+                  {vinculo && <p className="text-xs text-muted-foreground">{vinculo}</p>}
+                </TableCell>
+                <TableCell>{labelCategoria(lancamento)}</TableCell>
+                <TableCell
+                  className={`text-right font-semibold whitespace-nowrap ${
+                    lancamento.tipo === "receita" ? "text-green-600" : "text-red-600"
+                  }`}
+                >
+                  {lancamento.tipo === "receita" ? "+" : "-"} {formatCurrency(getValorDevido(lancamento))}
+                  {getValorDevido(lancamento) > Number(lancamento.valor) && (
+                    <p className="text-xs font-normal text-muted-foreground">
+                      Original {formatCurrency(Number(lancamento.valor))} + encargos
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <StatusBadge lancamento={lancamento} />
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                  {lancamento.status === "pago"
+                    ? `${formatarData(lancamento.data_pagamento)} • ${labelMetodo(lancamento.metodo_pagamento)}`
+                    : "—"}
+                </TableCell>
+                <TableCell>
+                  {(emAberto || temLembretes) && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Ações do lançamento">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {emAberto && (
+                          <DropdownMenuItem onClick={() => onMarcarPago(lancamento)}>
+                            <CheckCircle className="h-4 w-4 mr-2" />
+                            Marcar como pago
+                          </DropdownMenuItem>
+                        )}
+                        {emAberto && lancamento.tipo === "receita" && (
+                          <DropdownMenuItem onClick={() => onCobrarPix(lancamento)}>
+                            <QrCode className="h-4 w-4 mr-2" />
+                            Cobrar via PIX
+                          </DropdownMenuItem>
+                        )}
+                        {temLembretes && (
+                          <DropdownMenuItem onClick={() => onVerLembretes(lancamento)}>
+                            <BellRing className="h-4 w-4 mr-2" />
+                            Lembretes enviados
+                          </DropdownMenuItem>
+                        )}
+                        {emAberto && (
+                          <DropdownMenuItem onClick={() => onCancelar(lancamento)} className="text-red-600">
+                            <XCircle className="h-4 w-4 mr-2" />
+                            Cancelar lançamento
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Loader2, Wallet } from "lucide-react";
+import { useConfiguracoesFinanceiras, RegrasFinanceiras } from "@/hooks/useConfiguracoesFinanceiras";
+
+export function RegrasFinanceirasCard() {
+  const { configuracoes, loading, saveConfiguracoes } = useConfiguracoesFinanceiras();
+  const [formData, setFormData] = useState<RegrasFinanceiras>(configuracoes);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setFormData(configuracoes);
+  }, [configuracoes]);
+
+  const handleChange = (field: Exclude<keyof RegrasFinanceiras, "lembrete_no_vencimento">, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: Number(value.replace(",", ".")) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    await saveConfiguracoes(formData);
+    setIsSaving(false);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Regras Financeiras
+        </CardTitle>
+        <CardDescription>
+          Vencimento das mensalidades, encargos aplicados a cobranças em atraso e lembretes aos responsáveis
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="dia_vencimento">Dia de vencimento</Label>
+              <Input
+                id="dia_vencimento"
+                type="number"
+                min={1}
+                max={28}
+                value={formData.dia_vencimento}
+                onChange={(e) => handleChange("dia_vencimento", e.target.value)}
+                disabled={loading}
+              />
+            </div>
+            <div>
+              <Label htmlFor="multa_percentual">Multa por atraso (%)</Label>
+              <Input
+                id="multa_percentual"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={formData.multa_percentual}
+                onChange={(e) => handleChange("multa_percentual", e.target.value)}
+                disabled={loading}
+              />
+            </div>
+            <div>
+              <Label htmlFor="juros_mensal_percentual">Juros ao mês (%)</Label>
+              <Input
+                id="juros_mensal_percentual"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={formData.juros_mensal_percentual}
+                onChange={(e) => handleChange("juros_mensal_percentual", e.target.value)}
+                disabled={loading}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            A multa é cobrada uma única vez após o vencimento; os juros são proporcionais aos dias de atraso.
+          </p>
+
+          <Separator />
+
+          <div className="space-y-4">
+            <div>
+              <p className="text-sm font-medium">Lembretes de pagamento</p>
+              <p className="text-sm text-muted-foreground">
+                Enviados aos responsáveis com o valor devido e o link da cobrança no portal, até o pagamento. Use 0 para não enviar.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label htmlFor="lembrete_dias_antes">Dias antes do vencimento</Label>
+                <Input
+                  id="lembrete_dias_antes"
+                  type="number"
+                  min={0}
+                  max={15}
+                  value={formData.lembrete_dias_antes}
+                  onChange={(e) => handleChange("lembrete_dias_antes", e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4 rounded-md border p-2.5">
+                <Label htmlFor="lembrete_no_vencimento" className="font-normal">No dia do vencimento</Label>
+                <Switch
+                  id="lembrete_no_vencimento"
+                  checked={formData.lembrete_no_vencimento}
+                  onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, lembrete_no_vencimento: checked }))}
+                  disabled={loading}
+                />
+              </div>
+              <div>
+                <Label htmlFor="lembrete_dias_depois">Dias após o vencimento</Label>
+                <Input
+                  id="lembrete_dias_depois"
+                  type="number"
+                  min={0}
+                  max={30}
+                  value={formData.lembrete_dias_depois}
+                  onChange={(e) => handleChange("lembrete_dias_depois", e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSaving || loading}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar Regras
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
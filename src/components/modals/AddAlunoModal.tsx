@@ -67,10 +67,9 @@ export function AddAlunoModal({ trigger, onSuccess }: AddAlunoModalProps) {
       nome,
       email,
       telefone,
-      turma_id: turma, // turma já contém o ID da turma selecionada
       instrumento,
       foto_url,
-    });
+    }, turma || undefined); // turma já contém o ID da turma selecionada
 
     setLoading(false);
     if (result?.success) {
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { NovaEntradaListaEspera } from "@/types/listaEspera";
+
+interface AdicionarListaEsperaModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdicionar: (dados: NovaEntradaListaEspera) => Promise<{ success: boolean }>;
+}
+
+const FORM_VAZIO = { nome: "", telefone: "", email: "", observacoes: "" };
+
+// Interessados ainda sem cadastro de aluno; alunos existentes entram pela tela de matrícula
+export function AdicionarListaEsperaModal({ open, onOpenChange, onAdicionar }: AdicionarListaEsperaModalProps) {
+  const [formData, setFormData] = useState(FORM_VAZIO);
+  const [loading, setLoading] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { id, value } = e.target;
+    setFormData(prev => ({ ...prev, [id]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    const result = await onAdicionar(formData);
+    setLoading(false);
+
+    if (result.success) {
+      setFormData(FORM_VAZIO);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Adicionar à Lista de Espera</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="nome">Nome *</Label>
+            <Input id="nome" value={formData.nome} onChange={handleChange} required />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="telefone">Telefone</Label>
+              <Input id="telefone" value={formData.telefone} onChange={handleChange} placeholder="(11) 99999-9999" />
+            </div>
+            <div>
+              <Label htmlFor="email">E-mail</Label>
+              <Input id="email" type="email" value={formData.email} onChange={handleChange} />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="observacoes">Observações</Label>
+            <Textarea id="observacoes" value={formData.observacoes} onChange={handleChange} rows={2} placeholder="Ex.: prefere horário da tarde" />
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={loading || !formData.nome.trim()}>
+              {loading ? "Adicionando..." : "Adicionar"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,326 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Upload } from "lucide-react";
+import { useSchool } from "@/contexts/SchoolContext";
+import { useBoletosCnab, RelatorioRetorno } from "@/hooks/useBoletosCnab";
+import { formatCurrency } from "@/utils/formatUtils";
+import { ConfiguracaoCnab } from "@/utils/cnab240";
+import { FinanceiroItem } from "@/types/financeiro";
+
+interface BoletosCnabModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lancamentos: FinanceiroItem[];
+  onConcluido: () => void;
+}
+
+const configuracaoVazia: ConfiguracaoCnab = {
+  banco: "",
+  nomeBanco: "",
+  agencia: "",
+  agenciaDv: "",
+  conta: "",
+  contaDv: "",
+  convenio: "",
+  carteira: "",
+  cnpj: "",
+  nomeEmpresa: "",
+};
+
+const camposConfiguracao: { campo: keyof ConfiguracaoCnab; label: string; placeholder?: string }[] = [
+  { campo: "banco", label: "Código do banco", placeholder: "001" },
+  { campo: "nomeBanco", label: "Nome do banco", placeholder: "Banco do Brasil" },
+  { campo: "agencia", label: "Agência" },
+  { campo: "agenciaDv", label: "Dígito da agência" },
+  { campo: "conta", label: "Conta" },
+  { campo: "contaDv", label: "Dígito da conta" },
+  { campo: "convenio", label: "Convênio / código do beneficiário" },
+  { campo: "carteira", label: "Carteira", placeholder: "1" },
+  { campo: "cnpj", label: "CNPJ do beneficiário" },
+  { campo: "nomeEmpresa", label: "Nome do beneficiário" },
+];
+
+const formatarData = (data: string | null) => (data ? data.slice(0, 10).split("-").reverse().join("/") : "—");
+
+export function BoletosCnabModal({ open, onOpenChange, lancamentos, onConcluido }: BoletosCnabModalProps) {
+  const { school } = useSchool();
+  const { configuracao, historico, loading, salvarConfiguracao, gerarRemessa, importarRetorno } = useBoletosCnab();
+  const [selecionados, setSelecionados] = useState<Set<string>>(new Set());
+  const [formConfig, setFormConfig] = useState<ConfiguracaoCnab>(configuracaoVazia);
+  const [arquivoRetorno, setArquivoRetorno] = useState<File | null>(null);
+  const [relatorio, setRelatorio] = useState<RelatorioRetorno | null>(null);
+  const [processando, setProcessando] = useState(false);
+
+  // Por padrão seleciona as cobranças que ainda não foram enviadas ao banco
+  useEffect(() => {
+    if (open) {
+      setSelecionados(new Set(lancamentos.filter((l) => !l.boleto_identificador).map((l) => l.id)));
+      setRelatorio(null);
+      setArquivoRetorno(null);
+    }
+  }, [open, lancamentos]);
+
+  useEffect(() => {
+    setFormConfig(
+      configuracao ?? {
+        ...configuracaoVazia,
+        cnpj: school?.cnpj ?? "",
+        nomeEmpresa: school?.name ?? "",
+      }
+    );
+  }, [configuracao, school]);
+
+  const toggleSelecionado = (id: string, marcado: boolean) => {
+    setSelecionados((prev) => {
+      const proximo = new Set(prev);
+      if (marcado) proximo.add(id);
+      else proximo.delete(id);
+      return proximo;
+    });
+  };
+
+  const handleGerarRemessa = async () => {
+    setProcessando(true);
+    const result = await gerarRemessa(lancamentos.filter((l) => selecionados.has(l.id)));
+    setProcessando(false);
+    if (result.success) onConcluido();
+  };
+
+  const handleImportarRetorno = async () => {
+    if (!arquivoRetorno) return;
+    setProcessando(true);
+    const result = await importarRetorno(arquivoRetorno);
+    setProcessando(false);
+    if (result.success) {
+      setRelatorio(result.relatorio);
+      onConcluido();
+    }
+  };
+
+  const handleSalvarConfiguracao = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setProcessando(true);
+    await salvarConfiguracao(formConfig);
+    setProcessando(false);
+  };
+
+  const totalSelecionado = lancamentos
+    .filter((l) => selecionados.has(l.id))
+    .reduce((acc, l) => acc + Number(l.valor), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Boletos (CNAB 240)</DialogTitle>
+        </DialogHeader>
+
+        <Tabs defaultValue={configuracao ? "remessa" : "configuracao"}>
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="remessa">Remessa</TabsTrigger>
+            <TabsTrigger value="retorno">Retorno</TabsTrigger>
+            <TabsTrigger value="historico">Histórico</TabsTrigger>
+            <TabsTrigger value="configuracao">Banco</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="remessa" className="space-y-4">
+            {!configuracao && !loading && (
+              <p className="text-sm text-amber-600">Preencha os dados bancários na aba Banco antes de gerar a remessa.</p>
+            )}
+            {lancamentos.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Nenhuma receita em aberto no mês selecionado</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[40px]" />
+                      <TableHead>Vencimento</TableHead>
+                      <TableHead>Descrição</TableHead>
+                      <TableHead className="text-right">Valor</TableHead>
+                      <TableHead>Boleto</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lancamentos.map((lancamento) => (
+                      <TableRow key={lancamento.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selecionados.has(lancamento.id)}
+                            onCheckedChange={(checked) => toggleSelecionado(lancamento.id, checked === true)}
+                            aria-label={`Selecionar ${lancamento.descricao}`}
+                          />
+                        </TableCell>
+                        <TableCell>{formatarData(lancamento.data_vencimento)}</TableCell>
+                        <TableCell>
+                          <p className="font-medium">{lancamento.descricao}</p>
+                          {lancamento.aluno?.nome && (
+                            <p className="text-xs text-muted-foreground">{lancamento.aluno.nome}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(lancamento.valor))}</TableCell>
+                        <TableCell>
+                          {lancamento.boleto_identificador ? (
+                            <Badge variant="secondary">Já enviado</Badge>
+                          ) : (
+                            <Badge variant="outline">Novo</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <p className="text-sm">
+                <span className="font-semibold">{selecionados.size}</span> boleto(s) •{" "}
+                <span className="font-semibold">{formatCurrency(totalSelecionado)}</span>
+              </p>
+              <Button onClick={handleGerarRemessa} disabled={processando || !configuracao || selecionados.size === 0} className="gap-2">
+                <Download className="h-4 w-4" />
+                {processando ? "Gerando..." : "Gerar Remessa"}
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="retorno" className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+              <div className="flex-1">
+                <Label htmlFor="arquivo_retorno">Arquivo de retorno do banco</Label>
+                <Input
+                  id="arquivo_retorno"
+                  type="file"
+                  accept=".ret,.txt,.RET,.TXT"
+                  onChange={(e) => setArquivoRetorno(e.target.files?.[0] ?? null)}
+                />
+              </div>
+              <Button onClick={handleImportarRetorno} disabled={processando || !arquivoRetorno || !configuracao} className="gap-2">
+                <Upload className="h-4 w-4" />
+                {processando ? "Processando..." : "Importar Retorno"}
+              </Button>
+            </div>
+
+            {relatorio && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+                  <div className="rounded-lg border p-3">
+                    <p className="text-muted-foreground">Baixados</p>
+                    <p className="text-lg font-semibold text-green-600">{relatorio.baixas.length}</p>
+                  </div>
+                  <div className="rounded-lg border p-3">
+                    <p className="text-muted-foreground">Já pagos</p>
+                    <p className="text-lg font-semibold">{relatorio.jaBaixados}</p>
+                  </div>
+                  <div className="rounded-lg border p-3">
+                    <p className="text-muted-foreground">Informativos</p>
+                    <p className="text-lg font-semibold">{relatorio.ignorados}</p>
+                  </div>
+                  <div className="rounded-lg border p-3">
+                    <p className="text-muted-foreground">Não conciliados</p>
+                    <p className="text-lg font-semibold text-red-600">{relatorio.naoConciliados.length}</p>
+                  </div>
+                </div>
+
+                {relatorio.naoConciliados.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Linha</TableHead>
+                        <TableHead>Identificador</TableHead>
+                        <TableHead className="text-right">Valor pago</TableHead>
+                        <TableHead>Motivo</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {relatorio.naoConciliados.map((linha) => (
+                        <TableRow key={linha.linha}>
+                          <TableCell>{linha.linha}</TableCell>
+                          <TableCell className="font-mono text-xs">{linha.identificador || "—"}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(linha.valorPago)}</TableCell>
+                          <TableCell>{linha.motivo}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                {relatorio.erros.length > 0 && (
+                  <ul className="text-sm text-red-600 list-disc pl-5">
+                    {relatorio.erros.map((erro) => (
+                      <li key={erro}>{erro}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="historico">
+            {historico.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">Nenhum arquivo processado ainda</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Operação</TableHead>
+                    <TableHead>Arquivo</TableHead>
+                    <TableHead className="text-right">Títulos</TableHead>
+                    <TableHead className="text-right">Baixas</TableHead>
+                    <TableHead className="text-right">Não conciliados</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {historico.map((execucao) => (
+                    <TableRow key={execucao.id}>
+                      <TableCell>{formatarData(execucao.created_at)}</TableCell>
+                      <TableCell>{execucao.operacao === "remessa" ? "Remessa" : "Retorno"}</TableCell>
+                      <TableCell className="font-mono text-xs">{execucao.arquivo_nome}</TableCell>
+                      <TableCell className="text-right">{execucao.records_processed}</TableCell>
+                      <TableCell className="text-right">{execucao.records_updated}</TableCell>
+                      <TableCell className="text-right">
+                        {Array.isArray(execucao.errors) ? execucao.errors.length : 0}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="configuracao">
+            <form onSubmit={handleSalvarConfiguracao} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {camposConfiguracao.map(({ campo, label, placeholder }) => (
+                  <div key={campo}>
+                    <Label htmlFor={`cnab_${campo}`}>{label}</Label>
+                    <Input
+                      id={`cnab_${campo}`}
+                      value={formConfig[campo]}
+                      onChange={(e) => setFormConfig((prev) => ({ ...prev, [campo]: e.target.value }))}
+                      placeholder={placeholder}
+                      required={["banco", "agencia", "conta", "convenio", "cnpj"].includes(campo)}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" disabled={processando}>
+                  Salvar Dados Bancários
+                </Button>
+              </div>
+            </form>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,58 +1,95 @@
-
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
-import { Checkbox } from "@/components/ui/checkbox"
 import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Calendar, Clock, Users } from "lucide-react"
+import { format } from "date-fns"
+import { ptBR } from "date-fns/locale"
+import { useAulas } from "@/hooks/useAulas"
+import { useChamada, StatusPresenca } from "@/hooks/useChamada"
 
 interface ChamadaModalProps {
   trigger: React.ReactNode
   turma: {
+    id: string
     nome: string
     horario: string
     dia: string
     professores: string[]
   }
+  aulaId?: string
+  onSuccess?: () => void
 }
 
-export function ChamadaModal({ trigger, turma }: ChamadaModalProps) {
+const statusOptions: { value: StatusPresenca; label: string }[] = [
+  { value: "presente", label: "Presente" },
+  { value: "ausente", label: "Ausente" },
+  { value: "justificado", label: "Justificado" },
+]
+
+export function ChamadaModal({ trigger, turma, aulaId, onSuccess }: ChamadaModalProps) {
   const [open, setOpen] = useState(false)
-  
-  const alunosDaTurma = [
-    { id: 1, nome: "Ana Silva", presente: false },
-    { id: 2, nome: "Carlos Santos", presente: false },
-    { id: 3, nome: "Maria Oliveira", presente: false },
-    { id: 4, nome: "João Costa", presente: false },
-    { id: 5, nome: "Paula Lima", presente: false },
-  ]
-
-  const [presencas, setPresencas] = useState(
-    alunosDaTurma.reduce((acc, aluno) => ({ ...acc, [aluno.id]: false }), {})
-  )
+  const [selectedAulaId, setSelectedAulaId] = useState<string>(aulaId ?? "")
 
-  const handlePresencaChange = (alunoId: number, presente: boolean) => {
-    setPresencas({ ...presencas, [alunoId]: presente })
-  }
+  // Só carrega dados quando o modal está aberto, evitando consultas para cada card da lista
+  const { aulas, loading: aulasLoading } = useAulas(open ? turma.id : undefined)
+  const {
+    alunos,
+    registros,
+    chamadaId,
+    loading: chamadaLoading,
+    saving,
+    updateRegistro,
+    salvarChamada,
+  } = useChamada(open ? turma.id : undefined, selectedAulaId || undefined)
+
+  useEffect(() => {
+    if (!open || selectedAulaId || aulas.length === 0) return
+
+    // Sem aula informada, sugere a aula de hoje ou a próxima aula agendada
+    const hoje = format(new Date(), "yyyy-MM-dd")
+    const sugerida =
+      aulas.find((aula) => aula.data_aula === hoje) ??
+      aulas.find((aula) => aula.data_aula >= hoje && aula.status !== "cancelada") ??
+      aulas[aulas.length - 1]
+    setSelectedAulaId(sugerida.id)
+  }, [open, aulas, selectedAulaId])
+
+  const aulaSelecionada = aulas.find((aula) => aula.id === selectedAulaId)
+
+  const handleSalvarChamada = async () => {
+    if (!aulaSelecionada) return
 
-  const handleSalvarChamada = () => {
-    console.log("Chamada salva:", presencas)
-    setOpen(false)
+    const result = await salvarChamada({
+      id: aulaSelecionada.id,
+      turma_id: aulaSelecionada.turma_id ?? turma.id,
+      professor_id: aulaSelecionada.professor_id,
+      data_aula: aulaSelecionada.data_aula,
+    })
+
+    if (result.success) {
+      onSuccess?.()
+      setOpen(false)
+    }
   }
 
-  const totalPresentes = Object.values(presencas).filter(Boolean).length
-  const percentualPresenca = Math.round((totalPresentes / alunosDaTurma.length) * 100)
+  const totalPresentes = Object.values(registros).filter((r) => r.status === "presente").length
+  const percentualPresenca = alunos.length > 0 ? Math.round((totalPresentes / alunos.length) * 100) : 0
+  const loading = aulasLoading || chamadaLoading
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
         {trigger}
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[600px]">
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Fazer Chamada - {turma.nome}</DialogTitle>
         </DialogHeader>
-        
+
         <div className="space-y-4">
           <div className="flex items-center gap-4 text-sm text-muted-foreground">
             <div className="flex items-center gap-2">
@@ -65,7 +102,7 @@ export function ChamadaModal({ trigger, turma }: ChamadaModalProps) {
             </div>
             <div className="flex items-center gap-2">
               <Users className="h-4 w-4" />
-              <span>{alunosDaTurma.length} alunos</span>
+              <span>{alunos.length} alunos</span>
             </div>
           </div>
 
@@ -77,42 +114,88 @@ export function ChamadaModal({ trigger, turma }: ChamadaModalProps) {
             ))}
           </div>
 
+          <div>
+            <Label htmlFor="aula">Aula *</Label>
+            <Select value={selectedAulaId} onValueChange={setSelectedAulaId} disabled={!!aulaId}>
+              <SelectTrigger id="aula">
+                <SelectValue placeholder={aulasLoading ? "Carregando aulas..." : "Selecione a aula"} />
+              </SelectTrigger>
+              <SelectContent>
+                {aulas.map((aula) => (
+                  <SelectItem key={aula.id} value={aula.id}>
+                    {format(new Date(`${aula.data_aula}T00:00:00`), "dd/MM/yyyy (EEEE)", { locale: ptBR })} • {aula.horario_inicio.slice(0, 5)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!aulasLoading && aulas.length === 0 && (
+              <p className="text-sm text-muted-foreground mt-2">
+                Nenhuma aula cadastrada para esta turma. Crie uma aula antes de fazer a chamada.
+              </p>
+            )}
+          </div>
+
           <div className="border rounded-lg p-4">
             <div className="flex justify-between items-center mb-4">
-              <h3 className="font-semibold">Lista de Presença</h3>
+              <h3 className="font-semibold">
+                Lista de Presença
+                {chamadaId && <span className="ml-2 text-xs font-normal text-muted-foreground">(editando chamada existente)</span>}
+              </h3>
               <Badge variant={percentualPresenca >= 80 ? "default" : "destructive"}>
                 {percentualPresenca}% presente
               </Badge>
             </div>
-            
-            <div className="space-y-3">
-              {alunosDaTurma.map((aluno) => (
-                <div key={aluno.id} className="flex items-center space-x-3 p-3 border rounded-lg">
-                  <Checkbox
-                    id={`aluno-${aluno.id}`}
-                    checked={presencas[aluno.id]}
-                    onCheckedChange={(checked) => handlePresencaChange(aluno.id, !!checked)}
-                  />
-                  <label 
-                    htmlFor={`aluno-${aluno.id}`}
-                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70 cursor-pointer flex-1"
-                  >
-                    {aluno.nome}
-                  </label>
-                  <Badge variant={presencas[aluno.id] ? "default" : "secondary"}>
-                    {presencas[aluno.id] ? "Presente" : "Ausente"}
-                  </Badge>
-                </div>
-              ))}
-            </div>
+
+            {loading ? (
+              <div className="text-center py-6 text-muted-foreground">
+                Carregando alunos...
+              </div>
+            ) : alunos.length === 0 ? (
+              <div className="text-center py-6 text-muted-foreground">
+                Nenhum aluno ativo matriculado nesta turma
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {alunos.map((aluno) => {
+                  const registro = registros[aluno.id]
+                  if (!registro) return null
+
+                  return (
+                    <div key={aluno.id} className="p-3 border rounded-lg space-y-2">
+                      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                        <span className="text-sm font-medium flex-1">{aluno.nome}</span>
+                        <div className="flex gap-1">
+                          {statusOptions.map((option) => (
+                            <Button
+                              key={option.value}
+                              type="button"
+                              size="sm"
+                              variant={registro.status === option.value ? (option.value === "ausente" ? "destructive" : "default") : "outline"}
+                              onClick={() => updateRegistro(aluno.id, { status: option.value })}
+                            >
+                              {option.label}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                      <Input
+                        placeholder="Observações (opcional)"
+                        value={registro.observacoes}
+                        onChange={(e) => updateRegistro(aluno.id, { observacoes: e.target.value })}
+                      />
+                    </div>
+                  )
+                })}
+              </div>
+            )}
           </div>
 
           <div className="flex justify-end gap-2">
             <Button type="button" variant="outline" onClick={() => setOpen(false)}>
               Cancelar
             </Button>
-            <Button onClick={handleSalvarChamada}>
-              Salvar Chamada
+            <Button onClick={handleSalvarChamada} disabled={!aulaSelecionada || alunos.length === 0 || saving}>
+              {saving ? "Salvando..." : chamadaId ? "Atualizar Chamada" : "Salvar Chamada"}
             </Button>
           </div>
         </div>
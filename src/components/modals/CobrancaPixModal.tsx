@@ -0,0 +1,102 @@
+import { useState, useEffect } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Copy } from "lucide-react";
+import { toast } from "sonner";
+import { useSchool } from "@/contexts/SchoolContext";
+import { formatCurrency } from "@/utils/formatUtils";
+import { getValorDevido } from "@/utils/financeiroUtils";
+import { gerarPayloadPix } from "@/utils/pixUtils";
+import { FinanceiroItem } from "@/types/financeiro";
+
+interface CobrancaPixModalProps {
+  lancamento: FinanceiroItem | null;
+  onOpenChange: (open: boolean) => void;
+  onVincularTxid: (lancamento: FinanceiroItem) => Promise<{ success: boolean; txid: string | null }>;
+}
+
+export function CobrancaPixModal({ lancamento, onOpenChange, onVincularTxid }: CobrancaPixModalProps) {
+  const { school } = useSchool();
+  const [txid, setTxid] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTxid(null);
+    if (lancamento && school?.chave_pix) {
+      onVincularTxid(lancamento).then((result) => setTxid(result.txid));
+    }
+  }, [lancamento?.id, school?.chave_pix]);
+
+  const payload =
+    lancamento && school?.chave_pix && txid
+      ? gerarPayloadPix({
+          chave: school.chave_pix,
+          nomeRecebedor: school.name,
+          cidade: school.cidade || "BRASIL",
+          txid,
+          valor: getValorDevido(lancamento),
+          descricao: lancamento.descricao,
+        })
+      : null;
+
+  const handleCopiar = async () => {
+    if (!payload) return;
+    await navigator.clipboard.writeText(payload);
+    toast.success("Código PIX copiado!");
+  };
+
+  return (
+    <Dialog open={!!lancamento} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cobrança PIX</DialogTitle>
+        </DialogHeader>
+
+        {lancamento && (
+          <div className="space-y-4">
+            <div className="rounded-lg bg-muted/50 p-3 text-sm">
+              <p className="font-medium">{lancamento.descricao}</p>
+              <p className="text-muted-foreground">
+                {formatCurrency(getValorDevido(lancamento))}
+                {lancamento.aluno?.nome && ` • ${lancamento.aluno.nome}`}
+              </p>
+            </div>
+
+            {!school?.chave_pix ? (
+              <div className="text-center py-6 text-muted-foreground">
+                Cadastre a chave PIX da escola em Configurações da Escola para gerar cobranças.
+              </div>
+            ) : !payload ? (
+              <div className="text-center py-6 text-muted-foreground">Gerando cobrança...</div>
+            ) : (
+              <>
+                <div className="flex justify-center rounded-lg bg-white p-4">
+                  <QRCodeSVG value={payload} size={220} />
+                </div>
+                <div>
+                  <p className="text-sm font-medium mb-2">PIX copia e cola</p>
+                  <Textarea value={payload} readOnly rows={4} className="font-mono text-xs" />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Identificador (txid): <span className="font-mono">{txid}</span>. O pagamento é baixado automaticamente
+                  quando o banco notificar o recebimento deste txid.
+                </p>
+              </>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Fechar
+              </Button>
+              <Button onClick={handleCopiar} disabled={!payload} className="gap-2">
+                <Copy className="h-4 w-4" />
+                Copiar código
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
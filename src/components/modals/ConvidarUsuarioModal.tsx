@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserProfile } from "@/contexts/UserProfileContext";
+import { TIPOS_CONVITE, type NovoConvite, type TipoConvite } from "@/types/convite";
+
+interface ConvidarUsuarioModalProps {
+  trigger: React.ReactNode;
+  onConvidar: (dados: NovoConvite) => Promise<{ success: boolean }>;
+  // Professor já cadastrado: nome, e-mail e tipo vêm do cadastro
+  professor?: { id: string; nome: string; email: string };
+}
+
+// Valor do Select para "papel padrão do tipo de conta" (Radix não aceita value vazio)
+const PAPEL_PADRAO = "padrao";
+
+const TIPOS_EQUIPE = TIPOS_CONVITE.filter((t) => t.value === "professor" || t.value === "secretario");
+
+export function ConvidarUsuarioModal({ trigger, onConvidar, professor }: ConvidarUsuarioModalProps) {
+  const { pode } = useUserProfile();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [nome, setNome] = useState("");
+  const [email, setEmail] = useState("");
+  const [tipo, setTipo] = useState<TipoConvite>("professor");
+  const [papelId, setPapelId] = useState(PAPEL_PADRAO);
+  const [papeis, setPapeis] = useState<{ id: string; nome: string }[]>([]);
+  const podeAtribuirPapel = pode("papeis.gerenciar");
+
+  const handleOpenChange = async (value: boolean) => {
+    setOpen(value);
+    if (!value) return;
+
+    setNome(professor?.nome ?? "");
+    setEmail(professor?.email ?? "");
+    setTipo("professor");
+    setPapelId(PAPEL_PADRAO);
+
+    if (podeAtribuirPapel) {
+      const { data, error } = await supabase
+        .from("papeis")
+        .select("id, nome")
+        .not("school_id", "is", null)
+        .order("nome", { ascending: true });
+
+      if (error) {
+        console.error("Erro ao carregar papéis:", error);
+      }
+      setPapeis(data || []);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const result = await onConvidar({
+      nome_completo: nome,
+      email,
+      tipo_usuario: tipo,
+      papel_id: papelId === PAPEL_PADRAO ? null : papelId,
+      professor_id: professor?.id ?? null
+    });
+    setSaving(false);
+    if (result.success) setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{professor ? `Dar acesso - ${professor.nome}` : "Convidar para a equipe"}</DialogTitle>
+          <DialogDescription>
+            A pessoa recebe um link por e-mail, válido por 7 dias, para criar a própria senha.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="convite-nome">Nome completo</Label>
+            <Input
+              id="convite-nome"
+              value={nome}
+              onChange={(e) => setNome(e.target.value)}
+              disabled={!!professor}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="convite-email">E-mail</Label>
+            <Input
+              id="convite-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={!!professor}
+              required
+            />
+          </div>
+          {!professor && (
+            <div>
+              <Label>Tipo de conta</Label>
+              <Select value={tipo} onValueChange={(value) => setTipo(value as TipoConvite)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIPOS_EQUIPE.map((t) => (
+                    <SelectItem key={t.value} value={t.value}>
+                      {t.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {podeAtribuirPapel && papeis.length > 0 && (
+            <div>
+              <Label>Papel</Label>
+              <Select value={papelId} onValueChange={setPapelId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PAPEL_PADRAO}>Padrão do tipo de conta</SelectItem>
+                  {papeis.map((papel) => (
+                    <SelectItem key={papel.id} value={papel.id}>
+                      {papel.nome}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving || !nome.trim() || !email.trim()}>
+              {saving ? "Enviando..." : "Enviar convite"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Aluno, DadosPagador } from "@/types/aluno";
+import { isValidCEP, isValidCPF } from "@/utils/validationUtils";
+
+interface DadosPagadorModalProps {
+  trigger: React.ReactNode;
+  aluno: Aluno;
+  onSalvar: (alunoId: string, dados: DadosPagador) => Promise<{ success: boolean }>;
+}
+
+// Pagador dos boletos (segmento Q da remessa CNAB): o responsável ou, sem ele, o próprio aluno
+export function DadosPagadorModal({ trigger, aluno, onSalvar }: DadosPagadorModalProps) {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    responsavel: "",
+    cpf_pagador: "",
+    endereco: "",
+    bairro: "",
+    cidade: "",
+    uf: "",
+    cep: "",
+  });
+
+  const handleOpenChange = (aberto: boolean) => {
+    if (aberto) {
+      setFormData({
+        responsavel: aluno.responsavel ?? "",
+        cpf_pagador: aluno.cpf_pagador ?? "",
+        endereco: aluno.endereco ?? "",
+        bairro: aluno.bairro ?? "",
+        cidade: aluno.cidade ?? "",
+        uf: aluno.uf ?? "",
+        cep: aluno.cep ?? "",
+      });
+    }
+    setOpen(aberto);
+  };
+
+  const handleChange = (campo: keyof typeof formData) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setFormData((prev) => ({ ...prev, [campo]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.cpf_pagador && !isValidCPF(formData.cpf_pagador)) {
+      toast.error("CPF do pagador inválido.");
+      return;
+    }
+    if (formData.cep && !isValidCEP(formData.cep)) {
+      toast.error("CEP inválido. Use o formato 12345-678.");
+      return;
+    }
+    if (formData.uf && !/^[A-Za-z]{2}$/.test(formData.uf.trim())) {
+      toast.error("Informe a UF com duas letras (ex.: SP).");
+      return;
+    }
+
+    setSaving(true);
+    const result = await onSalvar(aluno.id, {
+      responsavel: formData.responsavel.trim() || null,
+      cpf_pagador: formData.cpf_pagador,
+      endereco: formData.endereco.trim() || null,
+      bairro: formData.bairro.trim() || null,
+      cidade: formData.cidade.trim() || null,
+      uf: formData.uf,
+      cep: formData.cep,
+    });
+    setSaving(false);
+
+    if (result.success) {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Dados de cobrança - {aluno.nome}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Usados como pagador nos boletos. Sem responsável, o pagador é o próprio aluno.
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="responsavel">Responsável</Label>
+              <Input id="responsavel" value={formData.responsavel} onChange={handleChange("responsavel")} placeholder="Nome do responsável" />
+            </div>
+            <div>
+              <Label htmlFor="cpf_pagador">CPF do pagador</Label>
+              <Input id="cpf_pagador" value={formData.cpf_pagador} onChange={handleChange("cpf_pagador")} placeholder="000.000.000-00" />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="endereco">Endereço</Label>
+            <Input id="endereco" value={formData.endereco} onChange={handleChange("endereco")} placeholder="Rua, número e complemento" />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="bairro">Bairro</Label>
+              <Input id="bairro" value={formData.bairro} onChange={handleChange("bairro")} />
+            </div>
+            <div>
+              <Label htmlFor="cep">CEP</Label>
+              <Input id="cep" value={formData.cep} onChange={handleChange("cep")} placeholder="12345-678" />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="cidade">Cidade</Label>
+              <Input id="cidade" value={formData.cidade} onChange={handleChange("cidade")} />
+            </div>
+            <div>
+              <Label htmlFor="uf">UF</Label>
+              <Input id="uf" value={formData.uf} onChange={handleChange("uf")} maxLength={2} placeholder="SP" />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
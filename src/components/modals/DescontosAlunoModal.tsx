@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+import { useDescontosAluno } from "@/hooks/useDescontosAluno";
+import { formatCurrency } from "@/utils/formatUtils";
+import { toISODate } from "@/utils/financeiroUtils";
+import { TIPOS_DESCONTO, TipoDesconto } from "@/types/financeiro";
+
+interface DescontosAlunoModalProps {
+  trigger: React.ReactNode;
+  aluno: { id: string; nome: string };
+}
+
+const formatarData = (data: string) => data.split("-").reverse().join("/");
+
+export function DescontosAlunoModal({ trigger, aluno }: DescontosAlunoModalProps) {
+  const [open, setOpen] = useState(false);
+  const { descontos, loading, addDesconto, removeDesconto } = useDescontosAluno(open ? aluno.id : undefined);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    tipo: "irmaos" as TipoDesconto,
+    percentual: "",
+    valor_fixo: "",
+    descricao: "",
+    vigencia_inicio: toISODate(),
+    vigencia_fim: "",
+  });
+
+  const parseNumero = (valor: string) => (valor ? Number(valor.replace(",", ".")) : null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const result = await addDesconto({
+      tipo: formData.tipo,
+      percentual: parseNumero(formData.percentual),
+      valor_fixo: parseNumero(formData.valor_fixo),
+      descricao: formData.descricao.trim() || null,
+      vigencia_inicio: formData.vigencia_inicio,
+      vigencia_fim: formData.vigencia_fim || null,
+    });
+
+    setSaving(false);
+    if (result.success) {
+      setFormData((prev) => ({ ...prev, percentual: "", valor_fixo: "", descricao: "", vigencia_fim: "" }));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Descontos - {aluno.nome}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {loading ? (
+            <div className="text-center py-4 text-muted-foreground">Carregando descontos...</div>
+          ) : descontos.length === 0 ? (
+            <div className="text-center py-4 text-muted-foreground">Nenhum desconto cadastrado</div>
+          ) : (
+            <div className="space-y-2">
+              {descontos.map((desconto) => (
+                <div key={desconto.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">
+                        {TIPOS_DESCONTO.find((t) => t.value === desconto.tipo)?.label ?? desconto.tipo}
+                      </Badge>
+                      <span className="font-medium">
+                        {[
+                          desconto.percentual ? `${desconto.percentual}%` : null,
+                          desconto.valor_fixo ? formatCurrency(Number(desconto.valor_fixo)) : null,
+                        ].filter(Boolean).join(" + ")}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatarData(desconto.vigencia_inicio)}
+                      {desconto.vigencia_fim ? ` até ${formatarData(desconto.vigencia_fim)}` : " sem data de término"}
+                      {desconto.descricao && ` • ${desconto.descricao}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeDesconto(desconto.id)}
+                    className="text-red-600 hover:text-red-700"
+                    aria-label="Remover desconto"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold">Novo desconto</h4>
+            <div>
+              <Label htmlFor="tipo_desconto">Tipo</Label>
+              <Select value={formData.tipo} onValueChange={(value) => setFormData((prev) => ({ ...prev, tipo: value as TipoDesconto }))}>
+                <SelectTrigger id="tipo_desconto">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIPOS_DESCONTO.map((tipo) => (
+                    <SelectItem key={tipo.value} value={tipo.value}>
+                      {tipo.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="percentual">Percentual (%)</Label>
+                <Input
+                  id="percentual"
+                  inputMode="decimal"
+                  value={formData.percentual}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, percentual: e.target.value }))}
+                  placeholder="10"
+                />
+              </div>
+              <div>
+                <Label htmlFor="valor_fixo">Valor fixo (R$)</Label>
+                <Input
+                  id="valor_fixo"
+                  inputMode="decimal"
+                  value={formData.valor_fixo}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, valor_fixo: e.target.value }))}
+                  placeholder="0,00"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="vigencia_inicio">Início *</Label>
+                <Input
+                  id="vigencia_inicio"
+                  type="date"
+                  value={formData.vigencia_inicio}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, vigencia_inicio: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="vigencia_fim">Término</Label>
+                <Input
+                  id="vigencia_fim"
+                  type="date"
+                  value={formData.vigencia_fim}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, vigencia_fim: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="descricao_desconto">Descrição</Label>
+              <Input
+                id="descricao_desconto"
+                value={formData.descricao}
+                onChange={(e) => setFormData((prev) => ({ ...prev, descricao: e.target.value }))}
+                placeholder="Irmã da Ana Silva"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saving}>
+                {saving ? "Salvando..." : "Adicionar Desconto"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
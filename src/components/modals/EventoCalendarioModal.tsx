@@ -0,0 +1,179 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TIPOS_EVENTO_CALENDARIO, type EventoCalendario, type EventoCalendarioForm, type TipoEventoCalendario } from "@/types/calendario";
+
+interface EventoCalendarioModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Evento em edição; sem evento, cria um novo começando em dataInicial
+  evento: EventoCalendario | null;
+  dataInicial: string;
+  onSalvar: (dados: EventoCalendarioForm, eventoId?: string) => Promise<{ success: boolean }>;
+  onExcluir: (eventoId: string) => Promise<{ success: boolean }>;
+}
+
+export function EventoCalendarioModal({ open, onOpenChange, evento, dataInicial, onSalvar, onExcluir }: EventoCalendarioModalProps) {
+  const [form, setForm] = useState<EventoCalendarioForm>({
+    titulo: "",
+    descricao: "",
+    tipo: "evento",
+    data_inicio: dataInicial,
+    data_fim: dataInicial,
+    sem_aula: false,
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      evento
+        ? {
+            titulo: evento.titulo,
+            descricao: evento.descricao ?? "",
+            tipo: evento.tipo,
+            data_inicio: evento.data_inicio,
+            data_fim: evento.data_fim,
+            sem_aula: evento.sem_aula,
+          }
+        : { titulo: "", descricao: "", tipo: "evento", data_inicio: dataInicial, data_fim: dataInicial, sem_aula: false }
+    );
+  }, [open, evento, dataInicial]);
+
+  // Feriados e recessos suspendem as aulas por padrão; eventos (recitais) normalmente não
+  const handleTipo = (tipo: TipoEventoCalendario) => {
+    setForm((prev) => ({ ...prev, tipo, sem_aula: tipo !== "evento" }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const result = await onSalvar(form, evento?.id);
+    setSaving(false);
+    if (result.success) onOpenChange(false);
+  };
+
+  const handleExcluir = async () => {
+    if (!evento) return;
+    setSaving(true);
+    const result = await onExcluir(evento.id);
+    setSaving(false);
+    if (result.success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{evento ? "Editar Evento" : "Novo Evento no Calendário"}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="evento_titulo">Título</Label>
+            <Input
+              id="evento_titulo"
+              value={form.titulo}
+              onChange={(e) => setForm((prev) => ({ ...prev, titulo: e.target.value }))}
+              placeholder="Ex.: Recital de fim de semestre"
+              required
+            />
+          </div>
+
+          <div>
+            <Label>Tipo</Label>
+            <Select value={form.tipo} onValueChange={(value) => handleTipo(value as TipoEventoCalendario)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIPOS_EVENTO_CALENDARIO.map((tipo) => (
+                  <SelectItem key={tipo.value} value={tipo.value}>
+                    {tipo.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="evento_inicio">De</Label>
+              <Input
+                id="evento_inicio"
+                type="date"
+                value={form.data_inicio}
+                onChange={(e) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    data_inicio: e.target.value,
+                    data_fim: prev.data_fim < e.target.value ? e.target.value : prev.data_fim,
+                  }))
+                }
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="evento_fim">Até</Label>
+              <Input
+                id="evento_fim"
+                type="date"
+                min={form.data_inicio}
+                value={form.data_fim}
+                onChange={(e) => setForm((prev) => ({ ...prev, data_fim: e.target.value }))}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="evento_sem_aula"
+              checked={form.sem_aula}
+              onCheckedChange={(checked) => setForm((prev) => ({ ...prev, sem_aula: checked === true }))}
+            />
+            <div>
+              <Label htmlFor="evento_sem_aula">Não há aula nestes dias</Label>
+              <p className="text-sm text-muted-foreground">
+                A geração de aulas pula estas datas e as chamadas delas não contam na frequência.
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="evento_descricao">Descrição</Label>
+            <Textarea
+              id="evento_descricao"
+              value={form.descricao ?? ""}
+              onChange={(e) => setForm((prev) => ({ ...prev, descricao: e.target.value }))}
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-between gap-2 pt-2">
+            {evento ? (
+              <Button type="button" variant="destructive" onClick={handleExcluir} disabled={saving}>
+                Excluir
+              </Button>
+            ) : (
+              <span />
+            )}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Salvando..." : "Salvar"}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { HorarioAula, HorarioAulaForm } from "@/components/forms/HorarioAulaForm";
+import { useHorariosTurma } from "@/hooks/useHorariosTurma";
+import { useDiasSemAula } from "@/hooks/useCalendario";
+import { ResultadoGeracaoAula, SituacaoGeracaoAula } from "@/types/aula";
+import { DIAS_SEMANA, getPeriodoSemestre, resumirGeracao } from "@/utils/aulasRecorrentesUtils";
+
+interface GerarAulasModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  turma: { id: string; dia_semana: string; horario_inicio: string; horario_fim: string } | null;
+  onSuccess: () => void;
+}
+
+const situacaoLabels: Record<SituacaoGeracaoAula, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  criada: { label: "Nova", variant: "default" },
+  existente: { label: "Já existe", variant: "secondary" },
+  removida: { label: "Removida", variant: "destructive" },
+  mantida: { label: "Mantida (com chamada)", variant: "outline" },
+  feriado: { label: "Sem aula", variant: "outline" },
+};
+
+const formatarData = (data: string) => {
+  const [ano, mes, dia] = data.split("-").map(Number);
+  const diaSemana = DIAS_SEMANA[new Date(ano, mes - 1, dia).getDay()];
+  return `${String(dia).padStart(2, "0")}/${String(mes).padStart(2, "0")}/${ano} (${diaSemana})`;
+};
+
+export function GerarAulasModal({ open, onOpenChange, turma, onSuccess }: GerarAulasModalProps) {
+  const { horarios, loading: loadingHorarios, salvarHorarios, gerarAulas } = useHorariosTurma(turma?.id);
+  const [grade, setGrade] = useState<HorarioAula[]>([]);
+  const [periodo, setPeriodo] = useState(getPeriodoSemestre());
+  const [pularFeriados, setPularFeriados] = useState(true);
+  const [previa, setPrevia] = useState<ResultadoGeracaoAula[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [inicializado, setInicializado] = useState(false);
+
+  // Turmas sem grade cadastrada começam pelo horário único da própria turma.
+  // Só na abertura: salvar os horários recarrega a grade e não deve apagar a prévia.
+  useEffect(() => {
+    if (!open) {
+      setInicializado(false);
+      return;
+    }
+    if (!turma || loadingHorarios || inicializado) return;
+
+    const inicial = horarios.length > 0
+      ? horarios.map((h) => ({ id: h.id, dia: h.dia_semana, horario_inicio: h.horario_inicio.slice(0, 5), horario_fim: h.horario_fim.slice(0, 5) }))
+      : [{ id: "inicial", dia: turma.dia_semana, horario_inicio: turma.horario_inicio.slice(0, 5), horario_fim: turma.horario_fim.slice(0, 5) }];
+
+    setGrade(inicial);
+    setPrevia(null);
+    setInicializado(true);
+  }, [open, turma, horarios, loadingHorarios, inicializado]);
+
+  // Feriados, recessos e eventos sem aula do calendário letivo da escola
+  const { dias: diasSemAula } = useDiasSemAula(periodo.inicio, periodo.fim);
+  const feriados = pularFeriados ? diasSemAula : [];
+
+  const atualizarGrade = (novaGrade: HorarioAula[]) => {
+    setGrade(novaGrade);
+    setPrevia(null);
+  };
+
+  const atualizarPeriodo = (campo: "inicio" | "fim", valor: string) => {
+    setPeriodo((prev) => ({ ...prev, [campo]: valor }));
+    setPrevia(null);
+  };
+
+  // A geração lê a grade do banco, por isso os horários são salvos antes da prévia
+  const handlePrevia = async () => {
+    setLoading(true);
+    const salvo = await salvarHorarios(grade);
+    if (salvo.success) {
+      const result = await gerarAulas(periodo.inicio, periodo.fim, feriados.map((f) => f.data), true);
+      setPrevia(result.success ? result.data : null);
+    }
+    setLoading(false);
+  };
+
+  const handleGerar = async () => {
+    setLoading(true);
+    const result = await gerarAulas(periodo.inicio, periodo.fim, feriados.map((f) => f.data));
+    setLoading(false);
+
+    if (result.success) {
+      onSuccess();
+      onOpenChange(false);
+    }
+  };
+
+  const resumo = previa ? resumirGeracao(previa) : null;
+  const alteracoes = previa?.filter((linha) => linha.situacao !== "existente") ?? [];
+  const nomeFeriado = (data: string) => feriados.find((f) => f.data === data)?.titulo;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Gerar Aulas do Período</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <HorarioAulaForm horarios={grade} onChange={atualizarGrade} />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="periodo_inicio">De</Label>
+              <Input
+                id="periodo_inicio"
+                type="date"
+                value={periodo.inicio}
+                onChange={(e) => atualizarPeriodo("inicio", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="periodo_fim">Até</Label>
+              <Input
+                id="periodo_fim"
+                type="date"
+                value={periodo.fim}
+                onChange={(e) => atualizarPeriodo("fim", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="pular_feriados"
+              checked={pularFeriados}
+              onCheckedChange={(checked) => {
+                setPularFeriados(checked === true);
+                setPrevia(null);
+              }}
+            />
+            <div>
+              <Label htmlFor="pular_feriados">Não gerar aulas nos dias sem aula do calendário letivo</Label>
+              <p className="text-sm text-muted-foreground">
+                {feriados.length > 0 ? `${feriados.length} dia(s) sem aula no período (feriados e recessos).` : "Nenhum dia sem aula no período."}{" "}
+                Aulas que já têm chamada nunca são removidas; aulas avulsas não são alteradas.
+              </p>
+            </div>
+          </div>
+
+          {resumo && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge>{resumo.criada} nova(s)</Badge>
+                <Badge variant="secondary">{resumo.existente} já existente(s)</Badge>
+                <Badge variant="destructive">{resumo.removida} a remover</Badge>
+                <Badge variant="outline">{resumo.mantida} mantida(s)</Badge>
+                <Badge variant="outline">{resumo.feriado} em dia sem aula</Badge>
+              </div>
+
+              {alteracoes.length > 0 && (
+                <div className="overflow-x-auto max-h-72">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Horário</TableHead>
+                        <TableHead>Situação</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {alteracoes.map((linha) => (
+                        <TableRow key={`${linha.situacao}-${linha.aula_id ?? ""}-${linha.data_aula}-${linha.horario_inicio}`}>
+                          <TableCell>{formatarData(linha.data_aula)}</TableCell>
+                          <TableCell>{linha.horario_inicio.slice(0, 5)} - {linha.horario_fim.slice(0, 5)}</TableCell>
+                          <TableCell>
+                            <Badge variant={situacaoLabels[linha.situacao].variant}>
+                              {linha.situacao === "feriado"
+                                ? nomeFeriado(linha.data_aula) ?? situacaoLabels.feriado.label
+                                : situacaoLabels[linha.situacao].label}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="button" variant="secondary" onClick={handlePrevia} disabled={loading || !periodo.inicio || !periodo.fim}>
+              {loading && !previa ? "Calculando..." : "Salvar horários e pré-visualizar"}
+            </Button>
+            <Button
+              onClick={handleGerar}
+              disabled={loading || !resumo || (resumo.criada === 0 && resumo.removida === 0)}
+            >
+              {loading && previa ? "Gerando..." : "Gerar Aulas"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
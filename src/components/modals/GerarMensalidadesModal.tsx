@@ -0,0 +1,139 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatCurrency } from "@/utils/formatUtils";
+import { getMesReferencia } from "@/utils/financeiroUtils";
+import { ResultadoMensalidade, SituacaoMensalidade } from "@/types/financeiro";
+
+interface GerarMensalidadesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onGerar: (competencia: string, simular?: boolean) => Promise<{ success: boolean; data: ResultadoMensalidade[] }>;
+}
+
+const situacaoLabels: Record<SituacaoMensalidade, { label: string; variant: "default" | "secondary" | "outline" }> = {
+  pendente: { label: "A gerar", variant: "default" },
+  criada: { label: "Gerada", variant: "default" },
+  existente: { label: "Já gerada", variant: "secondary" },
+  isento: { label: "Isento", variant: "outline" },
+};
+
+export function GerarMensalidadesModal({ open, onOpenChange, onGerar }: GerarMensalidadesModalProps) {
+  const [competencia, setCompetencia] = useState(getMesReferencia());
+  const [previa, setPrevia] = useState<ResultadoMensalidade[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const carregarPrevia = async (mes: string) => {
+    if (!mes) return;
+    setLoading(true);
+    const result = await onGerar(mes, true);
+    setPrevia(result.data);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (open) carregarPrevia(competencia);
+  }, [open, competencia]);
+
+  const handleGerar = async () => {
+    setLoading(true);
+    const result = await onGerar(competencia);
+    setLoading(false);
+
+    if (result.success) {
+      onOpenChange(false);
+    }
+  };
+
+  const aGerar = previa.filter((linha) => linha.situacao === "pendente");
+  const totalAGerar = aGerar.reduce((acc, linha) => acc + Number(linha.valor), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Gerar Mensalidades</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div>
+              <Label htmlFor="competencia">Competência</Label>
+              <Input
+                id="competencia"
+                type="month"
+                value={competencia}
+                onChange={(e) => setCompetencia(e.target.value)}
+                className="w-48"
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Uma cobrança por aluno ativo e turma. Entradas e saídas no meio do mês são cobradas
+              proporcionalmente e os descontos cadastrados são aplicados. Mensalidades já geradas não são duplicadas.
+            </p>
+          </div>
+
+          {loading && previa.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">Calculando mensalidades...</div>
+          ) : previa.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Nenhum aluno ativo em turmas com valor mensal para esta competência
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Aluno</TableHead>
+                    <TableHead>Turma</TableHead>
+                    <TableHead className="text-right">Dias</TableHead>
+                    <TableHead className="text-right">Bruto</TableHead>
+                    <TableHead className="text-right">Desconto</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead>Situação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previa.map((linha) => (
+                    <TableRow key={`${linha.aluno_id}-${linha.turma_id}`}>
+                      <TableCell>{linha.aluno_nome}</TableCell>
+                      <TableCell>{linha.turma_nome}</TableCell>
+                      <TableCell className="text-right">{linha.dias_cobrados}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(linha.valor_bruto))}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(linha.valor_desconto))}</TableCell>
+                      <TableCell className="text-right font-semibold">{formatCurrency(Number(linha.valor))}</TableCell>
+                      <TableCell>
+                        <Badge variant={situacaoLabels[linha.situacao].variant}>
+                          {situacaoLabels[linha.situacao].label}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 pt-2">
+            <p className="text-sm">
+              <span className="font-semibold">{aGerar.length}</span> mensalidade(s) a gerar •{" "}
+              <span className="font-semibold">{formatCurrency(totalAGerar)}</span>
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button onClick={handleGerar} disabled={loading || aGerar.length === 0}>
+                {loading ? "Processando..." : "Gerar Mensalidades"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAlunos } from "@/hooks/useAlunos";
+import { useProfessores } from "@/hooks/useProfessores";
+import { toISODate } from "@/utils/financeiroUtils";
+import {
+  CATEGORIAS_DESPESA,
+  CATEGORIAS_RECEITA,
+  METODOS_PAGAMENTO,
+  MetodoPagamento,
+  NovoLancamento,
+  TipoLancamento,
+} from "@/types/financeiro";
+
+interface LancamentoFinanceiroModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tipo: TipoLancamento;
+  titulo?: string;
+  permitirPago?: boolean;
+  onSubmit: (lancamento: NovoLancamento) => Promise<{ success: boolean }>;
+}
+
+const NENHUM = "nenhum";
+
+const initialForm = () => ({
+  descricao: "",
+  categoria: "",
+  valor: "",
+  data_vencimento: toISODate(),
+  vinculo_id: NENHUM,
+  observacoes: "",
+  pago: false,
+  data_pagamento: toISODate(),
+  metodo_pagamento: "pix" as MetodoPagamento,
+});
+
+export function LancamentoFinanceiroModal({
+  open,
+  onOpenChange,
+  tipo,
+  titulo,
+  permitirPago = true,
+  onSubmit,
+}: LancamentoFinanceiroModalProps) {
+  const { alunos } = useAlunos();
+  const { professores } = useProfessores();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState(initialForm);
+
+  useEffect(() => {
+    if (open) setFormData(initialForm());
+  }, [open, tipo]);
+
+  const categorias = tipo === "receita" ? CATEGORIAS_RECEITA : CATEGORIAS_DESPESA;
+  const vinculos = tipo === "receita"
+    ? alunos.map((aluno) => ({ id: aluno.id, nome: aluno.nome }))
+    : professores.map((professor) => ({ id: professor.id, nome: professor.nome }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const valor = Number(formData.valor.replace(",", "."));
+    if (!formData.descricao || !formData.categoria || !(valor > 0) || !formData.data_vencimento) {
+      return;
+    }
+
+    const vinculoId = formData.vinculo_id === NENHUM ? null : formData.vinculo_id;
+    const pago = permitirPago && formData.pago;
+
+    setLoading(true);
+    const result = await onSubmit({
+      tipo,
+      categoria: formData.categoria,
+      descricao: formData.descricao.trim(),
+      valor,
+      data_vencimento: formData.data_vencimento,
+      status: pago ? "pago" : "pendente",
+      data_pagamento: pago ? formData.data_pagamento : null,
+      metodo_pagamento: pago ? formData.metodo_pagamento : null,
+      observacoes: formData.observacoes.trim() || null,
+      aluno_id: tipo === "receita" ? vinculoId : null,
+      professor_id: tipo === "despesa" ? vinculoId : null,
+    });
+    setLoading(false);
+
+    if (result.success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{titulo ?? (tipo === "receita" ? "Registrar Receita" : "Registrar Despesa")}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="descricao">Descrição *</Label>
+            <Input
+              id="descricao"
+              value={formData.descricao}
+              onChange={(e) => setFormData((prev) => ({ ...prev, descricao: e.target.value }))}
+              placeholder={tipo === "receita" ? "Mensalidade de março" : "Conta de energia"}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="categoria">Categoria *</Label>
+              <Select value={formData.categoria} onValueChange={(value) => setFormData((prev) => ({ ...prev, categoria: value }))}>
+                <SelectTrigger id="categoria">
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categorias.map((categoria) => (
+                    <SelectItem key={categoria.value} value={categoria.value}>
+                      {categoria.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="valor">Valor (R$) *</Label>
+              <Input
+                id="valor"
+                inputMode="decimal"
+                value={formData.valor}
+                onChange={(e) => setFormData((prev) => ({ ...prev, valor: e.target.value }))}
+                placeholder="0,00"
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="data_vencimento">Vencimento *</Label>
+            <Input
+              id="data_vencimento"
+              type="date"
+              value={formData.data_vencimento}
+              onChange={(e) => setFormData((prev) => ({ ...prev, data_vencimento: e.target.value }))}
+              required
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="vinculo">{tipo === "receita" ? "Aluno" : "Professor"}</Label>
+            <Select value={formData.vinculo_id} onValueChange={(value) => setFormData((prev) => ({ ...prev, vinculo_id: value }))}>
+              <SelectTrigger id="vinculo">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NENHUM}>Nenhum</SelectItem>
+                {vinculos.map((vinculo) => (
+                  <SelectItem key={vinculo.id} value={vinculo.id}>
+                    {vinculo.nome}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {permitirPago && (
+            <div className="space-y-4 rounded-lg border p-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="pago">{tipo === "receita" ? "Já recebido" : "Já pago"}</Label>
+                <Switch
+                  id="pago"
+                  checked={formData.pago}
+                  onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, pago: checked }))}
+                />
+              </div>
+
+              {formData.pago && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="data_pagamento">Data do pagamento</Label>
+                    <Input
+                      id="data_pagamento"
+                      type="date"
+                      value={formData.data_pagamento}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, data_pagamento: e.target.value }))}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="metodo_pagamento">Método</Label>
+                    <Select
+                      value={formData.metodo_pagamento}
+                      onValueChange={(value) => setFormData((prev) => ({ ...prev, metodo_pagamento: value as MetodoPagamento }))}
+                    >
+                      <SelectTrigger id="metodo_pagamento">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {METODOS_PAGAMENTO.map((metodo) => (
+                          <SelectItem key={metodo.value} value={metodo.value}>
+                            {metodo.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="observacoes">Observações</Label>
+            <Textarea
+              id="observacoes"
+              value={formData.observacoes}
+              onChange={(e) => setFormData((prev) => ({ ...prev, observacoes: e.target.value }))}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
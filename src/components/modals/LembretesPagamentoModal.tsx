@@ -0,0 +1,102 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BellRing, Clock } from "lucide-react";
+import { formatCurrency } from "@/utils/formatUtils";
+import { calcularAgendaLembretes, getValorDevido } from "@/utils/financeiroUtils";
+import { useLembretesPagamento } from "@/hooks/useLembretesPagamento";
+import { useConfiguracoesFinanceiras } from "@/hooks/useConfiguracoesFinanceiras";
+import { ETAPAS_LEMBRETE, FinanceiroItem } from "@/types/financeiro";
+
+interface LembretesPagamentoModalProps {
+  lancamento: FinanceiroItem | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatarData = (data: string) => data.slice(0, 10).split("-").reverse().join("/");
+
+const formatarDataHora = (data: string) =>
+  new Date(data).toLocaleString("pt-BR", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit" });
+
+const labelEtapa = (etapa: string) => ETAPAS_LEMBRETE.find((e) => e.value === etapa)?.label ?? etapa;
+
+export function LembretesPagamentoModal({ lancamento, onOpenChange }: LembretesPagamentoModalProps) {
+  const { lembretes, loading } = useLembretesPagamento(lancamento?.id);
+  const { configuracoes } = useConfiguracoesFinanceiras();
+
+  const emAberto = lancamento?.status === "pendente" || lancamento?.status === "atrasado";
+  const enviadas = new Set(lembretes.map((l) => l.etapa));
+  const pendentes = lancamento && emAberto
+    ? calcularAgendaLembretes(lancamento, configuracoes).filter((item) => !enviadas.has(item.etapa))
+    : [];
+
+  return (
+    <Dialog open={!!lancamento} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Lembretes de Pagamento</DialogTitle>
+        </DialogHeader>
+
+        {lancamento && (
+          <div className="space-y-4">
+            <div className="rounded-lg bg-muted/50 p-3 text-sm">
+              <p className="font-medium">{lancamento.descricao}</p>
+              <p className="text-muted-foreground">
+                {formatCurrency(getValorDevido(lancamento))} • vence em {formatarData(lancamento.data_vencimento)}
+                {lancamento.aluno?.nome && ` • ${lancamento.aluno.nome}`}
+              </p>
+            </div>
+
+            {loading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : lembretes.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-2">Nenhum lembrete enviado ainda</p>
+            ) : (
+              <div className="space-y-2">
+                {lembretes.map((lembrete) => (
+                  <div key={lembrete.id} className="p-3 border rounded-lg space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="flex items-center gap-2 font-medium text-sm">
+                        <BellRing className="h-4 w-4" />
+                        {labelEtapa(lembrete.etapa)}
+                      </span>
+                      <span className="text-xs text-muted-foreground">{formatarDataHora(lembrete.enviado_em)}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">Valor informado: {formatCurrency(Number(lembrete.valor))}</p>
+                    {lembrete.destinatarios.length === 0 ? (
+                      <p className="text-xs text-red-600">Ninguém recebeu: o aluno não tem responsável, conta própria no portal nem email no cadastro</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {lembrete.destinatarios.map((destinatario) => (
+                          <Badge key={destinatario.user_id ?? destinatario.email} variant="outline">
+                            {destinatario.user_id ? destinatario.nome || "Responsável" : `${destinatario.email} (só email)`}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {pendentes.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Próximos lembretes</p>
+                {pendentes.map((item) => (
+                  <p key={item.etapa} className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Clock className="h-4 w-4" />
+                    {labelEtapa(item.etapa)} • {formatarData(item.data)}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {!emAberto && (
+              <p className="text-xs text-muted-foreground">Lançamentos pagos ou cancelados não recebem novos lembretes.</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
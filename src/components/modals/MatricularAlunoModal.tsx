@@ -6,48 +6,72 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { Search, UserCheck } from "lucide-react";
+import { Search, UserCheck, ListPlus } from "lucide-react";
 import { useAlunos } from "@/hooks/useAlunos";
-import { supabase } from "@/integrations/supabase/client";
-import { toast } from "sonner";
+import { useMatriculas } from "@/hooks/useMatriculas";
+import { useListaEspera } from "@/hooks/useListaEspera";
+import { Aluno } from "@/types/aluno";
+import { formatCurrency } from "@/utils/formatUtils";
 
 interface MatricularAlunoModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   turmaId: string;
+  valorTurma?: number | null;
+  vagasLivres?: number; // sem vagas, os alunos entram na lista de espera
   onSuccess: () => void;
 }
 
-export function MatricularAlunoModal({ open, onOpenChange, turmaId, onSuccess }: MatricularAlunoModalProps) {
-  const { alunos } = useAlunos();
+export function MatricularAlunoModal({ open, onOpenChange, turmaId, valorTurma, vagasLivres, onSuccess }: MatricularAlunoModalProps) {
+  const { alunos, refetch: refetchAlunos } = useAlunos();
+  const { matricular } = useMatriculas(turmaId);
+  const { entradas, adicionar: adicionarListaEspera } = useListaEspera(open ? turmaId : undefined);
   const [searchTerm, setSearchTerm] = useState("");
+  const [dataInicio, setDataInicio] = useState(new Date().toISOString().slice(0, 10));
+  const [valorMensal, setValorMensal] = useState("");
   const [loading, setLoading] = useState(false);
+  const lotada = vagasLivres !== undefined && vagasLivres <= 0;
 
-  // Filtrar alunos que não estão matriculados em nenhuma turma
-  const alunosDisponiveis = alunos.filter(aluno => 
-    !aluno.turma_id && 
+  const naFila = new Set(
+    entradas.filter((e) => e.aluno_id && (e.status === "aguardando" || e.status === "ofertada")).map((e) => e.aluno_id)
+  );
+
+  // Alunos ativos sem matrícula em andamento nesta turma (podem estar em outras)
+  const alunosDisponiveis = alunos.filter(aluno =>
+    aluno.ativo !== false &&
+    !aluno.matriculas?.some((m) => m.turma_id === turmaId && (m.status === "ativa" || m.status === "trancada")) &&
+    !(lotada && naFila.has(aluno.id)) &&
     aluno.nome.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   const handleMatricularAluno = async (alunoId: string) => {
-    try {
-      setLoading(true);
-      
-      const { error } = await supabase
-        .from("alunos")
-        .update({ turma_id: turmaId })
-        .eq("id", alunoId);
-      
-      if (error) throw error;
-      
-      toast.success("Aluno matriculado com sucesso!");
+    setLoading(true);
+    const result = await matricular(alunoId, {
+      data_inicio: dataInicio,
+      valor_mensal: valorMensal ? Number(valorMensal.replace(",", ".")) : null,
+    });
+    setLoading(false);
+
+    if (result.success) {
+      refetchAlunos();
+      onSuccess();
+      onOpenChange(false);
+    }
+  };
+
+  const handleAdicionarListaEspera = async (aluno: Aluno) => {
+    setLoading(true);
+    const result = await adicionarListaEspera({
+      aluno_id: aluno.id,
+      nome: aluno.nome,
+      telefone: aluno.telefone || aluno.telefone_responsavel || undefined,
+      email: aluno.email || undefined,
+    });
+    setLoading(false);
+
+    if (result.success) {
       onSuccess();
       onOpenChange(false);
-    } catch (error) {
-      console.error('Erro ao matricular aluno:', error);
-      toast.error("Erro ao matricular aluno");
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -59,6 +83,14 @@ export function MatricularAlunoModal({ open, onOpenChange, turmaId, onSuccess }:
         </DialogHeader>
         
         <div className="space-y-4">
+          {lotada ? (
+            <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+              Turma lotada. O aluno escolhido entra na lista de espera e recebe uma oferta quando uma vaga for liberada.
+            </div>
+          ) : vagasLivres !== undefined && (
+            <p className="text-sm text-muted-foreground">{vagasLivres} vaga(s) disponível(is).</p>
+          )}
+
           <div>
             <Label htmlFor="search">Buscar aluno</Label>
             <div className="relative">
@@ -73,6 +105,35 @@ export function MatricularAlunoModal({ open, onOpenChange, turmaId, onSuccess }:
             </div>
           </div>
           
+          {!lotada && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="data_inicio">Início</Label>
+                  <Input
+                    id="data_inicio"
+                    type="date"
+                    value={dataInicio}
+                    onChange={(e) => setDataInicio(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="valor_mensal">Valor mensal</Label>
+                  <Input
+                    id="valor_mensal"
+                    inputMode="decimal"
+                    value={valorMensal}
+                    onChange={(e) => setValorMensal(e.target.value)}
+                    placeholder={valorTurma ? formatCurrency(valorTurma) : "Valor da turma"}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground -mt-2">
+                Deixe o valor em branco para cobrar o valor mensal da turma.
+              </p>
+            </>
+          )}
+
           <div className="max-h-60 overflow-y-auto space-y-2">
             {alunosDisponiveis.length === 0 ? (
               <div className="text-center py-4 text-gray-500">
@@ -89,6 +150,11 @@ export function MatricularAlunoModal({ open, onOpenChange, turmaId, onSuccess }:
                     <div>
                       <p className="font-medium">{aluno.nome}</p>
                       <p className="text-sm text-gray-500">{aluno.email}</p>
+                      {aluno.turmas && aluno.turmas.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Já cursa: {aluno.turmas.map((t) => t.nome).join(", ")}
+                        </p>
+                      )}
                       {aluno.instrumento && (
                         <Badge variant="outline" className="text-xs">
                           {aluno.instrumento}
@@ -96,14 +162,26 @@ export function MatricularAlunoModal({ open, onOpenChange, turmaId, onSuccess }:
                       )}
                     </div>
                   </div>
-                  <Button
-                    size="sm"
-                    onClick={() => handleMatricularAluno(aluno.id)}
-                    disabled={loading}
-                  >
-                    <UserCheck className="h-4 w-4 mr-1" />
-                    Matricular
-                  </Button>
+                  {lotada ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleAdicionarListaEspera(aluno)}
+                      disabled={loading}
+                    >
+                      <ListPlus className="h-4 w-4 mr-1" />
+                      Lista de espera
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={() => handleMatricularAluno(aluno.id)}
+                      disabled={loading || !dataInicio}
+                    >
+                      <UserCheck className="h-4 w-4 mr-1" />
+                      Matricular
+                    </Button>
+                  )}
                 </div>
               ))
             )}
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CAPACIDADES, type Capacidade } from "@/utils/permissoes";
+import type { DadosPapel } from "@/hooks/usePapeis";
+import type { Papel } from "@/types/papel";
+
+interface PapelModalProps {
+  trigger: React.ReactNode;
+  papel?: Papel; // sem papel: criação
+  onSalvar: (dados: DadosPapel, papelId?: string) => Promise<{ success: boolean }>;
+}
+
+const GRUPOS = [...new Set(CAPACIDADES.map((c) => c.grupo))];
+
+export function PapelModal({ trigger, papel, onSalvar }: PapelModalProps) {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [nome, setNome] = useState("");
+  const [descricao, setDescricao] = useState("");
+  const [capacidades, setCapacidades] = useState<Capacidade[]>([]);
+
+  const handleOpenChange = (value: boolean) => {
+    if (value) {
+      setNome(papel?.nome ?? "");
+      setDescricao(papel?.descricao ?? "");
+      setCapacidades(papel?.capacidades ?? ["perfil.editar", "comunicacao.usar"]);
+    }
+    setOpen(value);
+  };
+
+  const alternar = (capacidade: Capacidade, marcada: boolean) => {
+    setCapacidades((prev) => (marcada ? [...prev, capacidade] : prev.filter((c) => c !== capacidade)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const result = await onSalvar(
+      { nome: nome.trim(), descricao: descricao.trim() || null, capacidades },
+      papel?.id
+    );
+    setSaving(false);
+    if (result.success) setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{papel ? `Editar papel - ${papel.nome}` : "Novo papel"}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="papel-nome">Nome</Label>
+            <Input
+              id="papel-nome"
+              value={nome}
+              onChange={(e) => setNome(e.target.value)}
+              placeholder="Coordenador pedagógico"
+              disabled={!!papel}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="papel-descricao">Descrição</Label>
+            <Textarea
+              id="papel-descricao"
+              value={descricao}
+              onChange={(e) => setDescricao(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          {GRUPOS.map((grupo) => (
+            <div key={grupo} className="space-y-2">
+              <p className="text-sm font-semibold">{grupo}</p>
+              {CAPACIDADES.filter((c) => c.grupo === grupo).map((c) => (
+                <div key={c.value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`cap-${c.value}`}
+                    checked={capacidades.includes(c.value)}
+                    onCheckedChange={(marcada) => alternar(c.value, marcada === true)}
+                  />
+                  <Label htmlFor={`cap-${c.value}`} className="font-normal">
+                    {c.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          ))}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving || !nome.trim()}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatCurrency } from "@/utils/formatUtils";
+import { getValorDevido, toISODate } from "@/utils/financeiroUtils";
+import { FinanceiroItem, METODOS_PAGAMENTO, MetodoPagamento, RegistroPagamento } from "@/types/financeiro";
+
+interface RegistrarPagamentoModalProps {
+  lancamento: FinanceiroItem | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (id: string, pagamento: RegistroPagamento) => Promise<{ success: boolean }>;
+}
+
+export function RegistrarPagamentoModal({ lancamento, onOpenChange, onConfirm }: RegistrarPagamentoModalProps) {
+  const [loading, setLoading] = useState(false);
+  const [dataPagamento, setDataPagamento] = useState(toISODate());
+  const [metodo, setMetodo] = useState<MetodoPagamento>("pix");
+
+  useEffect(() => {
+    if (lancamento) {
+      setDataPagamento(toISODate());
+      setMetodo(lancamento.metodo_pagamento ?? "pix");
+    }
+  }, [lancamento]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lancamento || !dataPagamento) return;
+
+    setLoading(true);
+    const result = await onConfirm(lancamento.id, {
+      data_pagamento: dataPagamento,
+      metodo_pagamento: metodo,
+    });
+    setLoading(false);
+
+    if (result.success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!lancamento} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Registrar Pagamento</DialogTitle>
+        </DialogHeader>
+
+        {lancamento && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="rounded-lg bg-muted/50 p-3 text-sm">
+              <p className="font-medium">{lancamento.descricao}</p>
+              <p className="text-muted-foreground">
+                {formatCurrency(getValorDevido(lancamento))}
+                {lancamento.aluno?.nome && ` • ${lancamento.aluno.nome}`}
+                {lancamento.professor?.nome && ` • ${lancamento.professor.nome}`}
+              </p>
+              {getValorDevido(lancamento) > Number(lancamento.valor) && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Original {formatCurrency(Number(lancamento.valor))} + multa {formatCurrency(Number(lancamento.valor_multa))} + juros{" "}
+                  {formatCurrency(Number(lancamento.valor_juros))}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="data_pagamento">Data do pagamento *</Label>
+              <Input
+                id="data_pagamento"
+                type="date"
+                value={dataPagamento}
+                onChange={(e) => setDataPagamento(e.target.value)}
+                required
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="metodo_pagamento">Método de pagamento *</Label>
+              <Select value={metodo} onValueChange={(value) => setMetodo(value as MetodoPagamento)}>
+                <SelectTrigger id="metodo_pagamento">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METODOS_PAGAMENTO.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Salvando..." : "Confirmar Pagamento"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Trash2 } from "lucide-react";
+import { useResponsaveisAluno } from "@/hooks/useResponsaveisAluno";
+import { PARENTESCOS } from "@/types/responsavel";
+
+interface ResponsaveisAlunoModalProps {
+  trigger: React.ReactNode;
+  aluno: { id: string; nome: string };
+}
+
+export function ResponsaveisAlunoModal({ trigger, aluno }: ResponsaveisAlunoModalProps) {
+  const [open, setOpen] = useState(false);
+  const {
+    responsaveis,
+    contas,
+    loading,
+    vincularResponsavel,
+    convidarResponsavel,
+    desvincularResponsavel,
+    alterarAlertasFalta,
+  } = useResponsaveisAluno(open ? aluno.id : undefined);
+  const [saving, setSaving] = useState(false);
+  const [parentesco, setParentesco] = useState(PARENTESCOS[0]);
+  const [contaId, setContaId] = useState("");
+  const [convite, setConvite] = useState({ nome: "", email: "" });
+
+  const vinculados = new Set(responsaveis.map((r) => r.responsavel_id));
+  const contasDisponiveis = contas.filter((c) => !vinculados.has(c.id));
+
+  const handleConvidar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const result = await convidarResponsavel({ ...convite, parentesco });
+    setSaving(false);
+    if (result.success) {
+      setConvite({ nome: "", email: "" });
+    }
+  };
+
+  const handleVincular = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!contaId) return;
+    setSaving(true);
+    const result = await vincularResponsavel(contaId, parentesco);
+    setSaving(false);
+    if (result.success) {
+      setContaId("");
+    }
+  };
+
+  const parentescoSelect = (id: string) => (
+    <div>
+      <Label htmlFor={id}>Parentesco</Label>
+      <Select value={parentesco} onValueChange={setParentesco}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PARENTESCOS.map((p) => (
+            <SelectItem key={p} value={p}>
+              {p}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Responsáveis - {aluno.nome}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {loading ? (
+            <div className="text-center py-4 text-muted-foreground">Carregando responsáveis...</div>
+          ) : responsaveis.length === 0 ? (
+            <div className="text-center py-4 text-muted-foreground">Nenhum responsável com acesso ao portal</div>
+          ) : (
+            <div className="space-y-2">
+              {responsaveis.map((vinculo) => (
+                <div key={vinculo.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{vinculo.responsavel?.nome_completo || "Responsável"}</span>
+                      {vinculo.parentesco && <Badge variant="outline">{vinculo.parentesco}</Badge>}
+                    </div>
+                    {vinculo.responsavel?.telefone && (
+                      <p className="text-xs text-muted-foreground mt-1">{vinculo.responsavel.telefone}</p>
+                    )}
+                    <div className="flex items-center gap-2 mt-2">
+                      <Switch
+                        id={`alertas_falta_${vinculo.id}`}
+                        checked={vinculo.receber_alertas_falta}
+                        onCheckedChange={(checked) => alterarAlertasFalta(vinculo.id, checked)}
+                      />
+                      <Label htmlFor={`alertas_falta_${vinculo.id}`} className="text-xs font-normal">
+                        Recebe alertas de falta
+                      </Label>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => desvincularResponsavel(vinculo.id)}
+                    className="text-red-600 hover:text-red-700"
+                    aria-label="Desvincular responsável"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Tabs defaultValue="convidar" className="border-t pt-4">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="convidar">Convidar por e-mail</TabsTrigger>
+              <TabsTrigger value="vincular">Conta existente</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="convidar">
+              <form onSubmit={handleConvidar} className="space-y-4">
+                <div>
+                  <Label htmlFor="nome_responsavel">Nome *</Label>
+                  <Input
+                    id="nome_responsavel"
+                    value={convite.nome}
+                    onChange={(e) => setConvite((prev) => ({ ...prev, nome: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="email_responsavel">E-mail *</Label>
+                  <Input
+                    id="email_responsavel"
+                    type="email"
+                    value={convite.email}
+                    onChange={(e) => setConvite((prev) => ({ ...prev, email: e.target.value }))}
+                    required
+                  />
+                </div>
+                {parentescoSelect("parentesco_convite")}
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={saving}>
+                    {saving ? "Enviando..." : "Enviar Convite"}
+                  </Button>
+                </div>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="vincular">
+              {/* Um mesmo responsável pode acompanhar vários filhos com uma única conta */}
+              <form onSubmit={handleVincular} className="space-y-4">
+                <div>
+                  <Label htmlFor="conta_responsavel">Responsável *</Label>
+                  <Select value={contaId} onValueChange={setContaId}>
+                    <SelectTrigger id="conta_responsavel">
+                      <SelectValue placeholder={contasDisponiveis.length ? "Selecione" : "Nenhuma conta disponível"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {contasDisponiveis.map((conta) => (
+                        <SelectItem key={conta.id} value={conta.id}>
+                          {conta.nome_completo || conta.telefone || conta.id}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {parentescoSelect("parentesco_vinculo")}
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={saving || !contaId}>
+                    {saving ? "Salvando..." : "Vincular"}
+                  </Button>
+                </div>
+              </form>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { 
   Calendar, 
+  CalendarRange,
   Clock, 
   Users, 
   UserPlus, 
@@ -17,18 +18,46 @@ import {
   Phone,
   Mail,
   BookOpen,
-  UserCheck
+  UserCheck,
+  MoreHorizontal,
+  ListOrdered,
+  MessageCircle
 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { MatricularAlunoModal } from "./MatricularAlunoModal";
 import { AdicionarProfessorTurmaModal } from "./AdicionarProfessorTurmaModal";
 import { CriarAulaModal } from "./CriarAulaModal";
-import { useAlunos } from "@/hooks/useAlunos";
+import { GerarAulasModal } from "./GerarAulasModal";
+import { AdicionarListaEsperaModal } from "./AdicionarListaEsperaModal";
+import { ChamadaModal } from "./ChamadaModal";
+import { MateriaisTurmaPanel } from "@/components/turmas/MateriaisTurmaPanel";
+import { useMatriculas } from "@/hooks/useMatriculas";
+import { useListaEspera } from "@/hooks/useListaEspera";
+import { useSchool } from "@/contexts/SchoolContext";
 import { useAulas } from "@/hooks/useAulas";
 import { useProfessores } from "@/hooks/useProfessores";
 import { supabase } from "@/integrations/supabase/client";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { toast } from "sonner";
+import { StatusMatricula, STATUS_MATRICULA } from "@/types/aluno";
+import { formatCurrency } from "@/utils/formatUtils";
+import { STATUS_LISTA_ESPERA } from "@/types/listaEspera";
+import {
+  calcularPosicoes,
+  calcularVagasLivres,
+  formatarPrazoOferta,
+  montarMensagemOferta,
+  ofertaVigente
+} from "@/utils/listaEsperaUtils";
+
+const labelStatusMatricula = (status: StatusMatricula) =>
+  STATUS_MATRICULA.find((s) => s.value === status)?.label ?? status;
 
 interface TurmaDetailsModalProps {
   turma: any;
@@ -40,16 +69,57 @@ export function TurmaDetailsModal({ turma, open, onOpenChange }: TurmaDetailsMod
   const [matricularModalOpen, setMatricularModalOpen] = useState(false);
   const [professorModalOpen, setProfessorModalOpen] = useState(false);
   const [aulaModalOpen, setAulaModalOpen] = useState(false);
+  const [gerarAulasOpen, setGerarAulasOpen] = useState(false);
+  const [listaEsperaModalOpen, setListaEsperaModalOpen] = useState(false);
   const [professoresDaTurma, setProfessoresDaTurma] = useState<any[]>([]);
   const [loadingProfessores, setLoadingProfessores] = useState(false);
   
   // Sempre chamar os hooks na mesma ordem, independentemente de turma existir
-  const { alunos, loading: alunosLoading } = useAlunos();
+  const { matriculas, loading: matriculasLoading, alterarStatus, refetch: refetchMatriculas } = useMatriculas(turma?.id);
   const { aulas, loading: aulasLoading, refetch: refetchAulas } = useAulas(turma?.id || '');
   const { professores } = useProfessores();
+  const {
+    entradas: listaEspera,
+    loading: listaEsperaLoading,
+    adicionar: adicionarListaEspera,
+    alterarStatus: alterarListaEspera,
+    matricular: matricularDaListaEspera,
+    refetch: refetchListaEspera
+  } = useListaEspera(turma?.id);
+  const { school } = useSchool();
+
+  const matriculasEmAndamento = matriculas.filter((m) => m.status === 'ativa' || m.status === 'trancada');
+  const matriculasEncerradas = matriculas.filter((m) => m.status === 'cancelada' || m.status === 'concluida');
+
+  const matriculasAtivas = matriculas.filter((m) => m.status === 'ativa').length;
+  const vagasLivres = calcularVagasLivres(turma?.vagas_total ?? 0, matriculasAtivas, listaEspera);
+  const posicoesFila = calcularPosicoes(listaEspera);
+  const ofertasPendentes = listaEspera.filter((entrada) => ofertaVigente(entrada));
+  const aguardando = listaEspera
+    .filter((entrada) => posicoesFila.has(entrada.id))
+    .sort((a, b) => posicoesFila.get(a.id)! - posicoesFila.get(b.id)!);
+  const listaEsperaEncerrada = listaEspera
+    .filter((entrada) => entrada.status !== 'aguardando' && entrada.status !== 'ofertada')
+    .slice(-10)
+    .reverse();
+
+  // Mudanças de matrícula liberam ou ocupam vagas e mexem na fila
+  const handleAlterarMatricula = async (matriculaId: string, status: StatusMatricula) => {
+    const result = await alterarStatus(matriculaId, status);
+    if (result.success) refetchListaEspera();
+  };
+
+  const handleMatricularDaListaEspera = async (entradaId: string) => {
+    const result = await matricularDaListaEspera(entradaId, new Date().toISOString().slice(0, 10));
+    if (result.success) refetchMatriculas();
+  };
 
-  // Calcular dados apenas se turma existir
-  const alunosDaTurma = turma ? alunos.filter(aluno => aluno.turma_id === turma.id) : [];
+  const enviarOfertaWhatsApp = (entradaId: string) => {
+    const entrada = listaEspera.find((e) => e.id === entradaId);
+    if (!entrada?.telefone) return;
+    const mensagem = montarMensagemOferta(entrada, turma.nome, school?.name);
+    window.open(`https://wa.me/55${entrada.telefone.replace(/\D/g, '')}?text=${encodeURIComponent(mensagem)}`, '_blank');
+  };
 
   const fetchProfessoresDaTurma = async () => {
     if (!turma?.id) return;
@@ -102,6 +172,8 @@ export function TurmaDetailsModal({ turma, open, onOpenChange }: TurmaDetailsMod
 
   const handleRefreshData = () => {
     refetchAulas();
+    refetchMatriculas();
+    refetchListaEspera();
     fetchProfessoresDaTurma();
   };
 
@@ -154,26 +226,37 @@ export function TurmaDetailsModal({ turma, open, onOpenChange }: TurmaDetailsMod
                 <div className="flex items-center gap-2 text-sm">
                   <Users className="h-4 w-4 text-muted-foreground" />
                   <span className="font-medium">Alunos:</span>
-                  <span>{alunosDaTurma.length}/{turma.vagas_total || 15}</span>
+                  <span>{matriculasAtivas}/{turma.vagas_total || 15}</span>
+                  {aguardando.length > 0 && (
+                    <span className="text-muted-foreground">• {aguardando.length} na espera</span>
+                  )}
                 </div>
               </CardContent>
             </Card>
           </div>
 
           <Tabs defaultValue="aulas" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="aulas">Aulas</TabsTrigger>
               <TabsTrigger value="alunos">Alunos</TabsTrigger>
+              <TabsTrigger value="espera">Lista de Espera</TabsTrigger>
               <TabsTrigger value="professores">Professores</TabsTrigger>
+              <TabsTrigger value="materiais">Materiais</TabsTrigger>
             </TabsList>
 
             <TabsContent value="aulas" className="space-y-4">
               <div className="flex justify-between items-center">
                 <h3 className="text-lg font-medium">Cronograma de Aulas</h3>
-                <Button onClick={() => setAulaModalOpen(true)} size="sm">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Nova Aula
-                </Button>
+                <div className="flex gap-2">
+                  <Button onClick={() => setGerarAulasOpen(true)} size="sm" variant="outline">
+                    <CalendarRange className="h-4 w-4 mr-2" />
+                    Gerar Aulas
+                  </Button>
+                  <Button onClick={() => setAulaModalOpen(true)} size="sm">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Nova Aula
+                  </Button>
+                </div>
               </div>
               
               {aulasLoading ? (
@@ -222,6 +305,25 @@ export function TurmaDetailsModal({ turma, open, onOpenChange }: TurmaDetailsMod
                               <p className="text-sm text-muted-foreground mt-2">{aula.observacoes}</p>
                             )}
                           </div>
+                          {aula.status !== 'cancelada' && (
+                            <ChamadaModal
+                              trigger={
+                                <Button size="sm" variant="outline">
+                                  <UserCheck className="h-4 w-4 mr-2" />
+                                  Chamada
+                                </Button>
+                              }
+                              turma={{
+                                id: turma.id,
+                                nome: turma.nome,
+                                horario: `${aula.horario_inicio} - ${aula.horario_fim}`,
+                                dia: format(new Date(aula.data_aula), "dd/MM/yyyy"),
+                                professores: professoresDaTurma.map((p) => p.nome)
+                              }}
+                              aulaId={aula.id}
+                              onSuccess={refetchAulas}
+                            />
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -239,11 +341,11 @@ export function TurmaDetailsModal({ turma, open, onOpenChange }: TurmaDetailsMod
                 </Button>
               </div>
               
-              {alunosLoading ? (
+              {matriculasLoading ? (
                 <div className="text-center py-8 text-muted-foreground">
                   Carregando alunos...
                 </div>
-              ) : alunosDaTurma.length === 0 ? (
+              ) : matriculasEmAndamento.length === 0 ? (
                 <div className="text-center py-8 text-muted-foreground">
                   <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
                   <p>Nenhum aluno matriculado</p>
@@ -254,42 +356,208 @@ export function TurmaDetailsModal({ turma, open, onOpenChange }: TurmaDetailsMod
                 </div>
               ) : (
                 <div className="grid gap-4">
-                  {alunosDaTurma.map((aluno) => (
-                    <Card key={aluno.id}>
+                  {matriculasEmAndamento.map((matricula) => (
+                    <Card key={matricula.id}>
                       <CardContent className="p-4">
                         <div className="flex items-center space-x-4">
                           <Avatar className="h-12 w-12">
-                            <AvatarImage src={aluno.foto_url} />
-                            <AvatarFallback>{aluno.nome.charAt(0)}</AvatarFallback>
+                            <AvatarImage src={matricula.aluno?.foto_url} />
+                            <AvatarFallback>{matricula.aluno?.nome.charAt(0)}</AvatarFallback>
                           </Avatar>
                           <div className="flex-1">
-                            <h4 className="font-medium">{aluno.nome}</h4>
+                            <div className="flex items-center gap-2">
+                              <h4 className="font-medium">{matricula.aluno?.nome}</h4>
+                              <Badge variant={matricula.status === 'ativa' ? 'default' : 'secondary'}>
+                                {labelStatusMatricula(matricula.status)}
+                              </Badge>
+                            </div>
                             <div className="space-y-1 text-sm text-muted-foreground">
-                              {aluno.email && (
+                              <div className="flex items-center gap-2">
+                                <Calendar className="h-3 w-3" />
+                                <span>
+                                  Desde {format(parseISO(matricula.data_inicio), "dd/MM/yyyy")} •{' '}
+                                  {formatCurrency(Number(matricula.valor_mensal ?? turma.valor_mensal ?? 0))}/mês
+                                </span>
+                              </div>
+                              {matricula.aluno?.email && (
                                 <div className="flex items-center gap-2">
                                   <Mail className="h-3 w-3" />
-                                  <span>{aluno.email}</span>
+                                  <span>{matricula.aluno.email}</span>
                                 </div>
                               )}
-                              {aluno.telefone && (
+                              {matricula.aluno?.telefone && (
                                 <div className="flex items-center gap-2">
                                   <Phone className="h-3 w-3" />
-                                  <span>{aluno.telefone}</span>
+                                  <span>{matricula.aluno.telefone}</span>
                                 </div>
                               )}
                             </div>
                           </div>
-                          {aluno.instrumento && (
-                            <Badge variant="outline">{aluno.instrumento}</Badge>
+                          {matricula.aluno?.instrumento && (
+                            <Badge variant="outline">{matricula.aluno.instrumento}</Badge>
                           )}
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Ações da matrícula">
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {matricula.status === 'ativa' ? (
+                                <DropdownMenuItem onClick={() => handleAlterarMatricula(matricula.id, 'trancada')}>
+                                  Trancar matrícula
+                                </DropdownMenuItem>
+                              ) : (
+                                <DropdownMenuItem onClick={() => handleAlterarMatricula(matricula.id, 'ativa')}>
+                                  Reativar matrícula
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem onClick={() => handleAlterarMatricula(matricula.id, 'concluida')}>
+                                Concluir
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleAlterarMatricula(matricula.id, 'cancelada')} className="text-red-600">
+                                Cancelar matrícula
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
+
+              {matriculasEncerradas.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-muted-foreground">Histórico</h4>
+                  {matriculasEncerradas.map((matricula) => (
+                    <div key={matricula.id} className="flex items-center justify-between text-sm border rounded-md px-3 py-2">
+                      <span>{matricula.aluno?.nome}</span>
+                      <span className="text-muted-foreground">
+                        {format(parseISO(matricula.data_inicio), "dd/MM/yyyy")}
+                        {matricula.data_fim && ` a ${format(parseISO(matricula.data_fim), "dd/MM/yyyy")}`}
+                        {' • '}
+                        {labelStatusMatricula(matricula.status)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="espera" className="space-y-4">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h3 className="text-lg font-medium">Lista de Espera</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {vagasLivres} vaga(s) livre(s) • {aguardando.length} aguardando • ofertas valem 48h e são avisadas por notificação e email
+                  </p>
+                </div>
+                <Button onClick={() => setListaEsperaModalOpen(true)} size="sm">
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Adicionar Interessado
+                </Button>
+              </div>
+
+              {listaEsperaLoading ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  Carregando lista de espera...
+                </div>
+              ) : ofertasPendentes.length === 0 && aguardando.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <ListOrdered className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                  <p>Ninguém na lista de espera</p>
+                  <p className="text-sm mt-1">Com a turma lotada, alunos podem entrar na fila pela tela de matrícula.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {ofertasPendentes.map((entrada) => (
+                    <Card key={entrada.id} className="border-green-200 bg-green-50/50">
+                      <CardContent className="p-4">
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <h4 className="font-medium">{entrada.nome}</h4>
+                              <Badge>Vaga ofertada</Badge>
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                              Expira em {formatarPrazoOferta(entrada.oferta_expira_em!)}
+                              {entrada.telefone && ` • ${entrada.telefone}`}
+                              {!entrada.aluno_id && ' • sem cadastro'}
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            {entrada.telefone && (
+                              <Button size="sm" variant="outline" onClick={() => enviarOfertaWhatsApp(entrada.id)}>
+                                <MessageCircle className="h-4 w-4 mr-1" />
+                                Avisar
+                              </Button>
+                            )}
+                            <Button size="sm" onClick={() => handleMatricularDaListaEspera(entrada.id)}>
+                              <UserCheck className="h-4 w-4 mr-1" />
+                              Matricular
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => alterarListaEspera(entrada.id, 'recusada')}>
+                              Recusou
+                            </Button>
+                          </div>
                         </div>
                       </CardContent>
                     </Card>
                   ))}
+
+                  {aguardando.map((entrada) => (
+                    <div key={entrada.id} className="flex items-center gap-4 border rounded-md px-4 py-3">
+                      <span className="text-lg font-semibold text-muted-foreground w-8">{posicoesFila.get(entrada.id)}º</span>
+                      <div className="flex-1">
+                        <p className="font-medium">{entrada.nome}</p>
+                        <p className="text-sm text-muted-foreground">
+                          Desde {entrada.created_at ? format(new Date(entrada.created_at), "dd/MM/yyyy") : '-'}
+                          {entrada.telefone && ` • ${entrada.telefone}`}
+                          {entrada.observacoes && ` • ${entrada.observacoes}`}
+                        </p>
+                      </div>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Ações da lista de espera">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem disabled={vagasLivres <= 0} onClick={() => handleMatricularDaListaEspera(entrada.id)}>
+                            Matricular agora
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => alterarListaEspera(entrada.id, 'cancelada')} className="text-red-600">
+                            Remover da lista
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {listaEsperaEncerrada.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-muted-foreground">Histórico</h4>
+                  {listaEsperaEncerrada.map((entrada) => (
+                    <div key={entrada.id} className="flex items-center justify-between text-sm border rounded-md px-3 py-2">
+                      <span>{entrada.nome}</span>
+                      <span className="text-muted-foreground">
+                        {STATUS_LISTA_ESPERA.find((s) => s.value === entrada.status)?.label}
+                        {entrada.updated_at && ` em ${format(new Date(entrada.updated_at), "dd/MM/yyyy")}`}
+                      </span>
+                    </div>
+                  ))}
                 </div>
               )}
             </TabsContent>
 
+            <TabsContent value="materiais" className="space-y-4">
+              <h3 className="text-lg font-medium">Materiais da Turma</h3>
+              <MateriaisTurmaPanel turmaId={turma?.id} />
+            </TabsContent>
+
             <TabsContent value="professores" className="space-y-4">
               <div className="flex justify-between items-center">
                 <h3 className="text-lg font-medium">Professores da Turma</h3>
@@ -377,9 +645,17 @@ export function TurmaDetailsModal({ turma, open, onOpenChange }: TurmaDetailsMod
         open={matricularModalOpen}
         onOpenChange={setMatricularModalOpen}
         turmaId={turma?.id}
+        valorTurma={turma?.valor_mensal}
+        vagasLivres={vagasLivres}
         onSuccess={handleRefreshData}
       />
 
+      <AdicionarListaEsperaModal
+        open={listaEsperaModalOpen}
+        onOpenChange={setListaEsperaModalOpen}
+        onAdicionar={adicionarListaEspera}
+      />
+
       <AdicionarProfessorTurmaModal
         open={professorModalOpen}
         onOpenChange={setProfessorModalOpen}
@@ -393,6 +669,13 @@ export function TurmaDetailsModal({ turma, open, onOpenChange }: TurmaDetailsMod
         turmaId={turma?.id}
         onSuccess={handleRefreshData}
       />
+
+      <GerarAulasModal
+        open={gerarAulasOpen}
+        onOpenChange={setGerarAulasOpen}
+        turma={turma}
+        onSuccess={handleRefreshData}
+      />
     </>
   );
 }
@@ -0,0 +1,138 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Loader2, UserX } from "lucide-react";
+import { useConfiguracoesAlertaFalta } from "@/hooks/useConfiguracoesAlertaFalta";
+import type { RegrasAlertaFalta } from "@/types/alertasFalta";
+
+type CampoBooleano = "alertar_cada_falta" | "notificar_coordenacao" | "canal_email";
+type CampoNumerico = "faltas_consecutivas" | "frequencia_minima" | "aulas_minimas_mes";
+
+const opcoes: { campo: CampoBooleano; label: string; descricao: string }[] = [
+  { campo: "alertar_cada_falta", label: "Avisar a cada falta", descricao: "Os responsáveis recebem um aviso no dia de cada falta" },
+  { campo: "notificar_coordenacao", label: "Avisar a coordenação", descricao: "Quem gerencia alunos também recebe os alertas" },
+  { campo: "canal_email", label: "Enviar por email", descricao: "Além da central de notificações, para quem aceita emails" },
+];
+
+export function AlertasFaltaCard() {
+  const { configuracoes, loading, saveConfiguracoes } = useConfiguracoesAlertaFalta();
+  const [formData, setFormData] = useState<RegrasAlertaFalta>(configuracoes);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setFormData(configuracoes);
+  }, [configuracoes]);
+
+  const handleChange = (field: CampoNumerico, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: Number(value) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    await saveConfiguracoes(formData);
+    setIsSaving(false);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserX className="h-5 w-5" />
+          Alertas de Falta
+        </CardTitle>
+        <CardDescription>
+          Avisos enviados aos responsáveis quando o professor registra a chamada
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="alertas_ativo">Alertas ativos</Label>
+              <p className="text-sm text-muted-foreground">Desligado, nenhuma regra abaixo é aplicada</p>
+            </div>
+            <Switch
+              id="alertas_ativo"
+              checked={formData.ativo}
+              onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, ativo: checked }))}
+              disabled={loading}
+            />
+          </div>
+
+          <Separator />
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="faltas_consecutivas">Faltas seguidas</Label>
+              <Input
+                id="faltas_consecutivas"
+                type="number"
+                min={2}
+                max={20}
+                value={formData.faltas_consecutivas}
+                onChange={(e) => handleChange("faltas_consecutivas", e.target.value)}
+                disabled={loading || !formData.ativo}
+              />
+            </div>
+            <div>
+              <Label htmlFor="frequencia_minima">Frequência mínima no mês (%)</Label>
+              <Input
+                id="frequencia_minima"
+                type="number"
+                min={1}
+                max={100}
+                value={formData.frequencia_minima}
+                onChange={(e) => handleChange("frequencia_minima", e.target.value)}
+                disabled={loading || !formData.ativo}
+              />
+            </div>
+            <div>
+              <Label htmlFor="aulas_minimas_mes">A partir de quantas aulas</Label>
+              <Input
+                id="aulas_minimas_mes"
+                type="number"
+                min={1}
+                value={formData.aulas_minimas_mes}
+                onChange={(e) => handleChange("aulas_minimas_mes", e.target.value)}
+                disabled={loading || !formData.ativo}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Cada alerta é enviado uma única vez: por falta, por sequência de faltas e por mês com frequência baixa.
+            Dias sem aula do calendário não entram na contagem.
+          </p>
+
+          <div className="space-y-4">
+            {opcoes.map((opcao) => (
+              <div key={opcao.campo} className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor={opcao.campo}>{opcao.label}</Label>
+                  <p className="text-sm text-muted-foreground">{opcao.descricao}</p>
+                </div>
+                <Switch
+                  id={opcao.campo}
+                  checked={formData[opcao.campo]}
+                  onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, [opcao.campo]: checked }))}
+                  disabled={loading || !formData.ativo}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSaving || loading}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Salvar Alertas
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from "react"
+import { Link, useNavigate } from "react-router-dom"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Bell, CheckCheck, X } from "lucide-react"
+import { formatDistanceToNow, parseISO } from "date-fns"
+import { ptBR } from "date-fns/locale"
+import { cn } from "@/lib/utils"
+import { useNotificacoes } from "@/hooks/useNotificacoes"
+import { NotificationPriority, type Notification } from "@/services/notificationService"
+
+// Sino da barra superior com a caixa de entrada de notificações
+export function CentralNotificacoes() {
+  const [open, setOpen] = useState(false)
+  const { notificacoes, naoLidas, loading, marcarComoLida, marcarTodasComoLidas, excluirNotificacao } = useNotificacoes()
+  const navigate = useNavigate()
+
+  const abrir = async (notificacao: Notification) => {
+    await marcarComoLida(notificacao.id)
+    const link = notificacao.data?.link
+    if (typeof link === "string") {
+      setOpen(false)
+      navigate(link)
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label={`Notificações (${naoLidas} não lidas)`}>
+          <Bell className="h-5 w-5" />
+          {naoLidas > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-medium flex items-center justify-center">
+              {naoLidas > 99 ? "99+" : naoLidas}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 sm:w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="font-medium text-sm">Notificações</p>
+          {naoLidas > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={marcarTodasComoLidas}>
+              <CheckCheck className="h-3.5 w-3.5 mr-1" />
+              Marcar todas como lidas
+            </Button>
+          )}
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Carregando...</p>
+        ) : notificacoes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Nenhuma notificação</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            <div className="divide-y">
+              {notificacoes.map((notificacao) => (
+                <div
+                  key={notificacao.id}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => abrir(notificacao)}
+                  onKeyDown={(e) => e.key === "Enter" && abrir(notificacao)}
+                  className={cn(
+                    "group flex gap-3 px-4 py-3 cursor-pointer hover:bg-accent/50",
+                    !notificacao.read && "bg-primary/5"
+                  )}
+                >
+                  <span
+                    className={cn(
+                      "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                      notificacao.read
+                        ? "bg-transparent"
+                        : notificacao.priority === NotificationPriority.URGENT || notificacao.priority === NotificationPriority.HIGH
+                          ? "bg-destructive"
+                          : "bg-primary"
+                    )}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={cn("text-sm", !notificacao.read && "font-medium")}>{notificacao.title}</p>
+                    <p className="text-xs text-muted-foreground line-clamp-2">{notificacao.message}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatDistanceToNow(parseISO(notificacao.createdAt), { addSuffix: true, locale: ptBR })}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    aria-label="Excluir notificação"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      excluirNotificacao(notificacao.id)
+                    }}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="border-t px-4 py-2 text-center">
+          <Link to="/profile" className="text-xs text-muted-foreground hover:text-foreground" onClick={() => setOpen(false)}>
+            Preferências de notificação
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Separator } from "@/components/ui/separator"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Bell, Save } from "lucide-react"
+import { usePreferenciasNotificacao } from "@/hooks/useNotificacoes"
+import { NotificationType, type NotificationPreferences } from "@/services/notificationService"
+
+const canais: { campo: "inApp" | "push" | "email" | "sms"; label: string; descricao: string }[] = [
+  { campo: "inApp", label: "Avisos na tela", descricao: "Mostra um aviso quando chega uma notificação com o sistema aberto" },
+  { campo: "push", label: "Notificações do navegador", descricao: "Avisa mesmo com a aba em segundo plano" },
+  { campo: "email", label: "E-mail", descricao: "Recebe uma cópia por e-mail" },
+  { campo: "sms", label: "SMS", descricao: "Recebe os avisos importantes por mensagem de texto" },
+]
+
+const tipos: { tipo: NotificationType; label: string }[] = [
+  { tipo: NotificationType.ATTENDANCE, label: "Frequência e faltas" },
+  { tipo: NotificationType.PAYMENT, label: "Mensalidades e pagamentos" },
+  { tipo: NotificationType.SCHEDULE, label: "Aulas e horários" },
+  { tipo: NotificationType.REMINDER, label: "Lembretes" },
+  { tipo: NotificationType.GRADE, label: "Avaliações" },
+  { tipo: NotificationType.ANNOUNCEMENT, label: "Comunicados da escola" },
+]
+
+// Canais, tipos e horário de silêncio das notificações do usuário
+export function PreferenciasNotificacoes() {
+  const { preferencias, loading, salvarPreferencias } = usePreferenciasNotificacao()
+  const [form, setForm] = useState<NotificationPreferences | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setForm(preferencias)
+  }, [preferencias])
+
+  const handleSalvar = async () => {
+    if (!form) return
+    setSaving(true)
+    await salvarPreferencias(form)
+    setSaving(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Notificações
+        </CardTitle>
+        <CardDescription>
+          Escolha como e sobre o que você quer ser avisado
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading || !form ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <>
+            <div className="space-y-4">
+              {canais.map((canal) => (
+                <div key={canal.campo} className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor={`canal_${canal.campo}`}>{canal.label}</Label>
+                    <p className="text-sm text-muted-foreground">{canal.descricao}</p>
+                  </div>
+                  <Switch
+                    id={`canal_${canal.campo}`}
+                    checked={form[canal.campo]}
+                    onCheckedChange={(checked) => setForm((prev) => prev && { ...prev, [canal.campo]: checked })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <p className="text-sm font-medium">Assuntos</p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {tipos.map(({ tipo, label }) => (
+                  <div key={tipo} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                    <Label htmlFor={`tipo_${tipo}`} className="font-normal">{label}</Label>
+                    <Switch
+                      id={`tipo_${tipo}`}
+                      checked={form.types[tipo] !== false}
+                      onCheckedChange={(checked) =>
+                        setForm((prev) => prev && { ...prev, types: { ...prev.types, [tipo]: checked } })
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Avisos urgentes da escola chegam mesmo em assuntos desativados.</p>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="horario_silencio">Horário de silêncio</Label>
+                  <p className="text-sm text-muted-foreground">
+                    As notificações continuam chegando na caixa de entrada, mas sem avisos
+                  </p>
+                </div>
+                <Switch
+                  id="horario_silencio"
+                  checked={form.quietHours.enabled}
+                  onCheckedChange={(checked) =>
+                    setForm((prev) => prev && { ...prev, quietHours: { ...prev.quietHours, enabled: checked } })
+                  }
+                />
+              </div>
+              {form.quietHours.enabled && (
+                <div className="grid grid-cols-2 gap-4 max-w-xs">
+                  <div>
+                    <Label htmlFor="silencio_inicio">De</Label>
+                    <Input
+                      id="silencio_inicio"
+                      type="time"
+                      value={form.quietHours.start}
+                      onChange={(e) =>
+                        setForm((prev) => prev && { ...prev, quietHours: { ...prev.quietHours, start: e.target.value } })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="silencio_fim">Até</Label>
+                    <Input
+                      id="silencio_fim"
+                      type="time"
+                      value={form.quietHours.end}
+                      onChange={(e) =>
+                        setForm((prev) => prev && { ...prev, quietHours: { ...prev.quietHours, end: e.target.value } })
+                      }
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSalvar} disabled={saving}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? "Salvando..." : "Salvar preferências"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
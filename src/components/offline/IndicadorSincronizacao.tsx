@@ -0,0 +1,93 @@
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { AlertTriangle, CloudOff, RefreshCw } from "lucide-react"
+import { format } from "date-fns"
+import { cn } from "@/lib/utils"
+import { useOfflineStatus } from "@/hooks/useOfflineStatus"
+
+// Aparece na barra superior quando há gravações esperando conexão (ou sem internet)
+export function IndicadorSincronizacao() {
+  const { isOnline, syncing, pendingOperations, conflictedOperations, pendentes, sincronizar, resolverConflito } = useOfflineStatus()
+
+  if (isOnline && pendingOperations === 0) return null
+
+  const rotulo = !isOnline
+    ? "Sem internet"
+    : syncing
+      ? "Sincronizando..."
+      : `${pendingOperations} pendente(s)`
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn("gap-2", (!isOnline || conflictedOperations > 0) && "border-amber-500 text-amber-700 dark:text-amber-300")}
+        >
+          {!isOnline ? (
+            <CloudOff className="h-4 w-4" />
+          ) : conflictedOperations > 0 ? (
+            <AlertTriangle className="h-4 w-4" />
+          ) : (
+            <RefreshCw className={cn("h-4 w-4", syncing && "animate-spin")} />
+          )}
+          <span className="hidden sm:inline">{rotulo}</span>
+          {pendingOperations > 0 && (
+            <Badge variant="secondary" className="sm:hidden">
+              {pendingOperations}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <p className="font-medium text-sm">{isOnline ? "Gravações pendentes" : "Você está sem internet"}</p>
+          <p className="text-xs text-muted-foreground">
+            {isOnline
+              ? "Registros feitos sem conexão que ainda não chegaram ao servidor."
+              : "Chamadas e conteúdos das aulas ficam guardados neste aparelho e são enviados quando a conexão voltar."}
+          </p>
+        </div>
+
+        {pendentes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nada pendente</p>
+        ) : (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {pendentes.map((operacao) => (
+              <div key={operacao.id} className="rounded-lg border p-2 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm truncate">{operacao.metadata.descricao ?? operacao.table}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">{format(operacao.timestamp, "dd/MM HH:mm")}</span>
+                </div>
+                {operacao.metadata.conflict && (
+                  <>
+                    <p className="text-xs text-amber-700 dark:text-amber-300">
+                      Alterado no servidor enquanto você estava sem internet.
+                    </p>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => resolverConflito(operacao.id, "server")}>
+                        Descartar a minha
+                      </Button>
+                      <Button size="sm" onClick={() => resolverConflito(operacao.id, "local")}>
+                        Manter a minha
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isOnline && pendingOperations > 0 && (
+          <Button size="sm" className="w-full" onClick={sincronizar} disabled={syncing}>
+            <RefreshCw className={cn("h-4 w-4 mr-2", syncing && "animate-spin")} />
+            Sincronizar agora
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
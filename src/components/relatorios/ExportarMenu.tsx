@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Button, ButtonProps } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, FileSpreadsheet, FileText, Loader2, Sheet } from "lucide-react";
+import { toast } from "sonner";
+import { useSchool } from "@/contexts/SchoolContext";
+import { exportService } from "@/services/exportService";
+import { DatasetExportacao, FORMATOS_EXPORTACAO, FormatoExportacao } from "@/utils/exportUtils";
+
+const ICONES_FORMATO: Record<FormatoExportacao, typeof FileText> = {
+  csv: Sheet,
+  xlsx: FileSpreadsheet,
+  pdf: FileText,
+};
+
+interface ExportarMenuProps<T> {
+  // Montado só no clique, para refletir os filtros ativos naquele momento
+  dataset: () => DatasetExportacao<T>;
+  label?: string;
+  variant?: ButtonProps["variant"];
+  className?: string;
+  disabled?: boolean;
+  children?: React.ReactNode; // conteúdo do botão, no lugar do ícone + label
+}
+
+export function ExportarMenu<T>({ dataset, label = "Exportar", variant = "outline", className, disabled, children }: ExportarMenuProps<T>) {
+  const { school } = useSchool();
+  const [exportando, setExportando] = useState(false);
+
+  const handleExportar = async (formato: FormatoExportacao) => {
+    const dados = dataset();
+    if (dados.linhas.length === 0) {
+      toast.error("Não há dados para exportar com os filtros atuais");
+      return;
+    }
+
+    setExportando(true);
+    try {
+      await exportService.exportar(dados, formato, {
+        escola: school?.name ?? "",
+        cnpj: school?.cnpj,
+        logoUrl: school?.logo_url,
+      });
+      toast.success(`${dados.titulo} exportado`);
+    } catch (error) {
+      toast.error(`Erro ao exportar: ${error.message}`);
+    } finally {
+      setExportando(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant={variant} className={children ? className : `gap-2 ${className ?? ""}`} disabled={disabled || exportando}>
+          {children ?? (
+            <>
+              {exportando ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              {label}
+            </>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Formato</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMATOS_EXPORTACAO.map(({ value, label: rotulo }) => {
+          const Icone = ICONES_FORMATO[value];
+          return (
+            <DropdownMenuItem key={value} onClick={() => handleExportar(value)}>
+              <Icone className="h-4 w-4 mr-2" />
+              {rotulo}
+            </DropdownMenuItem>
+          );
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ExternalLink, FileText, Plus, Trash2 } from "lucide-react";
+import { useMateriaisTurma } from "@/hooks/useMateriaisTurma";
+
+interface MateriaisTurmaPanelProps {
+  turmaId?: string;
+}
+
+const formatarData = (data?: string | null) => (data ? data.slice(0, 10).split("-").reverse().join("/") : "");
+
+// Materiais compartilhados com os alunos da turma (exibidos no portal do aluno)
+export function MateriaisTurmaPanel({ turmaId }: MateriaisTurmaPanelProps) {
+  const { materiais, loading, adicionarMaterial, removerMaterial } = useMateriaisTurma(turmaId);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({ titulo: "", url: "", descricao: "" });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const result = await adicionarMaterial(formData);
+    setSaving(false);
+    if (result.success) {
+      setFormData({ titulo: "", url: "", descricao: "" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] items-end">
+        <div>
+          <Label htmlFor="material_titulo">Título *</Label>
+          <Input
+            id="material_titulo"
+            value={formData.titulo}
+            onChange={(e) => setFormData((prev) => ({ ...prev, titulo: e.target.value }))}
+            placeholder="Partitura - Asa Branca"
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="material_url">Link *</Label>
+          <Input
+            id="material_url"
+            type="url"
+            value={formData.url}
+            onChange={(e) => setFormData((prev) => ({ ...prev, url: e.target.value }))}
+            placeholder="https://"
+            required
+          />
+        </div>
+        <Button type="submit" size="sm" disabled={saving}>
+          <Plus className="h-4 w-4 mr-2" />
+          {saving ? "Salvando..." : "Compartilhar"}
+        </Button>
+        <div className="sm:col-span-3">
+          <Input
+            aria-label="Descrição do material"
+            value={formData.descricao}
+            onChange={(e) => setFormData((prev) => ({ ...prev, descricao: e.target.value }))}
+            placeholder="Descrição (opcional)"
+          />
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="text-center py-8 text-muted-foreground">Carregando materiais...</div>
+      ) : materiais.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>Nenhum material compartilhado</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {materiais.map((material) => (
+            <div key={material.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="min-w-0">
+                <a
+                  href={material.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium flex items-center gap-2 hover:underline"
+                >
+                  {material.titulo}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+                <p className="text-xs text-muted-foreground truncate">
+                  {[formatarData(material.created_at), material.descricao].filter(Boolean).join(" • ")}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removerMaterial(material.id)}
+                className="text-red-600 hover:text-red-700"
+                aria-label="Remover material"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -17,6 +17,8 @@ interface School {
   bairro?: string
   cidade?: string
   estado?: string
+  chave_pix?: string
+  logo_url?: string
 }
 
 interface SchoolUpdateData {
@@ -28,14 +30,28 @@ interface SchoolUpdateData {
   bairro?: string
   cidade?: string
   estado?: string
+  chave_pix?: string
+  logo_url?: string | null
+}
+
+// Escola em que o usuário tem vínculo (membros_escola), com o papel que tem nela
+export interface EscolaDoUsuario {
+  school_id: string
+  nome: string
+  logo_url: string | null
+  tipo_usuario: string
+  papel: string | null
+  atual: boolean
 }
 
 interface SchoolContextType {
   school: School | null
   schoolId: string | null
+  escolas: EscolaDoUsuario[]
   loading: boolean
   refreshSchool: () => Promise<void>
   updateSchool: (schoolId: string, data: SchoolUpdateData) => Promise<boolean>
+  trocarEscola: (schoolId: string) => Promise<boolean>
 }
 
 const SchoolContext = createContext<SchoolContextType | undefined>(undefined)
@@ -43,9 +59,21 @@ const SchoolContext = createContext<SchoolContextType | undefined>(undefined)
 export function SchoolProvider({ children }: { children: React.ReactNode }) {
   const [school, setSchool] = useState<School | null>(null)
   const [schoolId, setSchoolId] = useState<string | null>(null)
+  const [escolas, setEscolas] = useState<EscolaDoUsuario[]>([])
   const [loading, setLoading] = useState(true)
   const { user, session } = useAuth()
 
+  const loadEscolas = async () => {
+    const { data, error } = await supabase.rpc('minhas_escolas')
+
+    if (error) {
+      console.error('❌ SchoolContext: Erro ao buscar escolas do usuário:', error)
+      return
+    }
+
+    setEscolas(data || [])
+  }
+
   const loadSchool = async () => {
     if (!user || !session) {
       console.log('❌ SchoolContext: Usuário ou sessão não disponível')
@@ -73,6 +101,12 @@ export function SchoolProvider({ children }: { children: React.ReactNode }) {
 
       console.log('📋 SchoolContext: Perfil encontrado:', profile)
 
+      if (!profile && user.invited_at) {
+        // Convite ainda não aceito: a escola é carregada depois do aceite
+        setLoading(false)
+        return
+      }
+
       if (!profile?.school_id) {
         console.error('❌ SchoolContext: School ID não encontrado no perfil do usuário')
         toast.error('Escola não encontrada para este usuário')
@@ -158,12 +192,40 @@ export function SchoolProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  // Troca a escola ativa: o novo token traz escola e capacidades, e a mudança
+  // de sessão recarrega perfil, escola e os hooks que dependem do schoolId
+  const trocarEscola = async (novaEscolaId: string): Promise<boolean> => {
+    if (novaEscolaId === schoolId) return true
+
+    console.log('🔀 SchoolContext: Trocando para a escola:', novaEscolaId)
+    const { error } = await supabase.rpc('trocar_escola', { p_school_id: novaEscolaId })
+
+    if (error) {
+      console.error('❌ SchoolContext: Erro ao trocar de escola:', error)
+      toast.error(`Erro ao trocar de escola: ${error.message}`)
+      return false
+    }
+
+    const { error: sessionError } = await supabase.auth.refreshSession()
+    if (sessionError) {
+      console.error('❌ SchoolContext: Erro ao renovar a sessão:', sessionError)
+      toast.error('Escola alterada. Entre novamente para continuar.')
+      return false
+    }
+
+    const nome = escolas.find(e => e.school_id === novaEscolaId)?.nome
+    toast.success(nome ? `Você está em ${nome}` : 'Escola alterada')
+    return true
+  }
+
   useEffect(() => {
     if (user && session) {
       loadSchool()
+      loadEscolas()
     } else {
       setSchool(null)
       setSchoolId(null)
+      setEscolas([])
       setLoading(false)
     }
   }, [user, session])
@@ -171,9 +233,11 @@ export function SchoolProvider({ children }: { children: React.ReactNode }) {
   const value = {
     school,
     schoolId,
+    escolas,
     loading,
     refreshSchool,
-    updateSchool
+    updateSchool,
+    trocarEscola
   }
 
   return <SchoolContext.Provider value={value}>{children}</SchoolContext.Provider>
@@ -2,6 +2,7 @@ import React, { createContext, useContext, useEffect, useState } from 'react'
 import { useAuth } from './AuthContext'
 import { UserService, UserProfileData } from '@/services/userService'
 import { toast } from '@/hooks/use-toast'
+import { temCapacidade, type Capacidade, type Permissoes } from '@/utils/permissoes'
 
 // Usar o tipo do serviço
 type UserProfile = UserProfileData
@@ -14,9 +15,12 @@ interface UserProfileContextType {
   isProfessor: boolean
   isAluno: boolean
   isSecretario: boolean
+  isResponsavel: boolean
   canManageUsers: boolean
   canManageFinanceiro: boolean
   canManageTurmas: boolean
+  permissoes: Permissoes
+  pode: (capacidade: Capacidade) => boolean
   refreshProfile: () => Promise<void>
   updateProfile: (updates: Partial<Pick<UserProfile, 'nome_completo' | 'telefone'>>) => Promise<boolean>
 }
@@ -50,6 +54,10 @@ export function UserProfileProvider({ children }: { children: React.ReactNode })
         })
         
         setProfile(profileData)
+      } else if (user.invited_at) {
+        // Convidado que ainda não aceitou o convite: o perfil nasce em aceitar_convite
+        console.log('✉️ UserProfile: Convite ainda não aceito')
+        setProfile(null)
       } else {
         console.error('❌ UserProfile: Perfil não encontrado para o usuário')
         toast({
@@ -91,11 +99,14 @@ export function UserProfileProvider({ children }: { children: React.ReactNode })
   const isProfessor = profile?.tipo_usuario === 'professor'
   const isAluno = profile?.tipo_usuario === 'aluno'
   const isSecretario = profile?.tipo_usuario === 'secretario'
+  const isResponsavel = profile?.tipo_usuario === 'responsavel'
   
-  // Permissões derivadas
-  const canManageUsers = isAdmin || isDirector
-  const canManageFinanceiro = isAdmin || isDirector || isSecretario
-  const canManageTurmas = isAdmin || isDirector || isSecretario
+  // Permissões derivadas da matriz em utils/permissoes (ou do papel definido pela escola)
+  const permissoes = profile?.papel?.capacidades ?? profile?.tipo_usuario
+  const pode = (capacidade: Capacidade) => temCapacidade(permissoes, capacidade)
+  const canManageUsers = pode('usuarios.convidar')
+  const canManageFinanceiro = pode('financeiro.gerenciar')
+  const canManageTurmas = pode('turmas.gerenciar')
 
   const updateProfile = async (updates: Partial<Pick<UserProfile, 'nome_completo' | 'telefone'>>) => {
     if (!user || !profile) return false
@@ -144,9 +155,12 @@ export function UserProfileProvider({ children }: { children: React.ReactNode })
     isProfessor,
     isAluno,
     isSecretario,
+    isResponsavel,
     canManageUsers,
     canManageFinanceiro,
     canManageTurmas,
+    permissoes,
+    pode,
     refreshProfile,
     updateProfile
   }
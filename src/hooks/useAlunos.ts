@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react"
 import { supabase } from "@/integrations/supabase/client"
 import { toast } from "sonner"
-import { Aluno } from "@/types/aluno"
+import { Aluno, DadosPagador, MatriculaAluno } from "@/types/aluno"
 import { useSchool } from "@/contexts/SchoolContext"
 
 export function useAlunos() {
@@ -25,8 +25,9 @@ export function useAlunos() {
         .select(
           `
             *,
-            turmas (
-              nome
+            matriculas (
+              *,
+              turma:turmas (nome, valor_mensal)
             )
           `
         )
@@ -42,6 +43,8 @@ export function useAlunos() {
 
       const alunosCompletos: Aluno[] = (data || []).map((aluno: any) => ({
         id: aluno.id,
+        school_id: aluno.school_id,
+        user_id: aluno.user_id,
         nome: aluno.nome,
         email: aluno.email,
         telefone: aluno.telefone,
@@ -49,11 +52,20 @@ export function useAlunos() {
         data_nascimento: aluno.data_nascimento,
         responsavel: aluno.responsavel,
         telefone_responsavel: aluno.telefone_responsavel,
+        cpf_pagador: aluno.cpf_pagador,
+        bairro: aluno.bairro,
+        cidade: aluno.cidade,
+        uf: aluno.uf,
+        cep: aluno.cep,
         ativo: aluno.ativo,
-        turma_id: aluno.turma_id,
+        data_matricula: aluno.data_matricula,
+        data_saida: aluno.data_saida,
         created_at: aluno.created_at,
         updated_at: aluno.updated_at,
-        turma: aluno.turmas ? { nome: aluno.turmas.nome } : undefined,
+        matriculas: aluno.matriculas ?? [],
+        turmas: (aluno.matriculas ?? [])
+          .filter((matricula: MatriculaAluno) => matricula.status === "ativa" && matricula.turma)
+          .map((matricula: MatriculaAluno) => ({ id: matricula.turma_id, nome: matricula.turma!.nome })),
         foto_url: aluno.foto_url ?? "",
         instrumento: aluno.instrumento ?? "",
       }))
@@ -68,7 +80,8 @@ export function useAlunos() {
     }
   }
 
-  const createAluno = async (alunoData: Omit<Aluno, 'id' | 'created_at' | 'updated_at' | 'turma'>) => {
+  // Com turmaId, o aluno já sai matriculado nessa turma
+  const createAluno = async (alunoData: Omit<Aluno, 'id' | 'school_id' | 'created_at' | 'updated_at' | 'matriculas' | 'turmas'>, turmaId?: string) => {
     if (!schoolId) {
       toast.error("É necessário estar autenticado e ter uma escola associada para registrar um aluno.");
       return { success: false };
@@ -81,7 +94,6 @@ export function useAlunos() {
         .insert([{ 
           ...alunoData, 
           school_id: schoolId,
-          turma_id: alunoData.turma_id, // turma_id já vem como ID correto
         }])
         .select();
 
@@ -91,6 +103,17 @@ export function useAlunos() {
         return { success: false };
       }
 
+      if (turmaId && data?.[0]) {
+        const { error: matriculaError } = await supabase
+          .from('matriculas')
+          .insert({ school_id: schoolId, aluno_id: data[0].id, turma_id: turmaId });
+
+        if (matriculaError) {
+          console.error("Erro ao matricular aluno:", matriculaError);
+          toast.error(`Aluno criado, mas não foi possível matriculá-lo na turma: ${matriculaError.message}`);
+        }
+      }
+
       toast.success("Aluno criado com sucesso!");
       fetchAlunos(); // Re-fetch para atualizar a lista
       return { success: true, data };
@@ -102,7 +125,61 @@ export function useAlunos() {
     }
   };
 
+  // Convida o aluno por e-mail; a conta é ligada ao cadastro (alunos.user_id) quando ele aceita o convite
+  const convidarAluno = async (aluno: Aluno) => {
+    if (!schoolId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.");
+      return { success: false };
+    }
+
+    if (!aluno.email) {
+      toast.error("Cadastre o e-mail do aluno antes de liberar o acesso ao portal.");
+      return { success: false };
+    }
+
+    const { data, error } = await supabase.functions.invoke('invite-user', {
+      body: {
+        email: aluno.email,
+        nome_completo: aluno.nome,
+        tipo_usuario: 'aluno',
+        school_id: schoolId,
+        aluno_id: aluno.id
+      }
+    });
+
+    if (error || data?.error) {
+      console.error("Erro ao convidar aluno:", error || data?.error);
+      toast.error(`Erro ao enviar convite: ${data?.error || error?.message}`);
+      return { success: false };
+    }
+
+    toast.success(data?.message ?? "Convite enviado! O aluno receberá um e-mail para criar a senha.");
+    fetchAlunos();
+    return { success: true };
+  };
+
+  // CPF e endereço do pagador, exigidos na remessa de boletos
+  const updateDadosPagador = async (alunoId: string, dados: DadosPagador) => {
+    const { error } = await supabase
+      .from("alunos")
+      .update({
+        ...dados,
+        cpf_pagador: dados.cpf_pagador?.replace(/\D/g, "") || null,
+        cep: dados.cep?.replace(/\D/g, "") || null,
+        uf: dados.uf?.trim().toUpperCase() || null,
+      })
+      .eq("id", alunoId)
+
+    if (error) {
+      console.error("Erro ao salvar dados de cobrança:", error)
+      toast.error(`Erro ao salvar dados de cobrança: ${error.message}`)
+      return { success: false }
+    }
 
+    toast.success("Dados de cobrança salvos!")
+    fetchAlunos()
+    return { success: true }
+  }
 
   useEffect(() => {
     console.log('🔄 useEffect do useAlunos executado')
@@ -121,5 +198,5 @@ export function useAlunos() {
     }
   }, [schoolId, schoolLoading])
 
-  return { alunos, loading, createAluno, refetch: fetchAlunos }
+  return { alunos, loading, createAluno, convidarAluno, updateDadosPagador, refetch: fetchAlunos }
 }
@@ -0,0 +1,213 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { useSchool } from "@/contexts/SchoolContext"
+import { offlineService } from "@/services/offlineService"
+import { getSemana } from "@/utils/areaProfessorUtils"
+import { CHAVES_OFFLINE, isErroDeRede } from "@/utils/offlineUtils"
+import type { AulaProfessor, TurmaProfessor } from "@/types/aula"
+import type { PresencaPortal } from "@/types/responsavel"
+
+// Agenda da semana, turmas e frequência dos alunos do professor logado.
+// As turmas vêm de turma_professores; as aulas, também de aulas.professor_id
+// (substituições em turmas de outros professores).
+interface AreaProfessorSalva {
+  professor: { id: string; nome: string } | null
+  turmas: TurmaProfessor[]
+  aulas: AulaProfessor[]
+  presencas: PresencaPortal[]
+}
+
+// Guarda alunos e aulas da semana de cada turma para a chamada abrir sem internet
+const guardarTurmasOffline = async (turmas: TurmaProfessor[], aulas: AulaProfessor[]) => {
+  for (const turma of turmas) {
+    offlineService.saveSnapshot(CHAVES_OFFLINE.alunosTurma(turma.id), turma.alunos)
+
+    const chave = CHAVES_OFFLINE.aulasTurma(turma.id)
+    const salvas = (await offlineService.getSnapshot<{ id: string; data_aula: string }[]>(chave)) ?? []
+    const novas = aulas.filter(aula => aula.turma_id === turma.id && !salvas.some(s => s.id === aula.id))
+    if (novas.length > 0) {
+      offlineService.saveSnapshot(chave, [...salvas, ...novas].sort((a, b) => a.data_aula.localeCompare(b.data_aula)))
+    }
+  }
+}
+
+export function useAreaProfessor() {
+  const [professor, setProfessor] = useState<{ id: string; nome: string } | null>(null)
+  const [turmas, setTurmas] = useState<TurmaProfessor[]>([])
+  const [aulas, setAulas] = useState<AulaProfessor[]>([])
+  const [presencas, setPresencas] = useState<PresencaPortal[]>([])
+  const [loading, setLoading] = useState(true)
+  const { user } = useAuth()
+  const { schoolId } = useSchool()
+
+  const fetchArea = async () => {
+    if (!user) {
+      setLoading(false)
+      return
+    }
+    // Um cadastro de professor por escola: vale o da escola ativa
+    if (!schoolId) return
+
+    setLoading(true)
+    try {
+      const { data: cadastro, error: cadastroError } = await supabase
+        .from("professores")
+        .select("id, nome")
+        .eq("user_id", user.id)
+        .eq("school_id", schoolId)
+        .maybeSingle()
+
+      if (cadastroError) throw cadastroError
+
+      if (!cadastro) {
+        setProfessor(null)
+        return
+      }
+      setProfessor(cadastro)
+
+      const { data: vinculos, error: vinculosError } = await supabase
+        .from("turma_professores")
+        .select("turma:turmas(id, nome, dia_semana, horario_inicio, horario_fim)")
+        .eq("professor_id", cadastro.id)
+
+      if (vinculosError) throw vinculosError
+
+      const turmasBase = (vinculos || [])
+        .map(v => v.turma)
+        .filter((turma): turma is NonNullable<typeof turma> => !!turma)
+        .sort((a, b) => a.nome.localeCompare(b.nome))
+      const turmaIds = turmasBase.map(t => t.id)
+      const { inicio, fim } = getSemana()
+
+      const filtroAulas = turmaIds.length > 0
+        ? `professor_id.eq.${cadastro.id},turma_id.in.(${turmaIds.join(",")})`
+        : `professor_id.eq.${cadastro.id}`
+
+      const [aulasRes, matriculasRes, presencasRes] = await Promise.all([
+        supabase
+          .from("aulas")
+          .select(`
+            id, turma_id, professor_id, data_aula, horario_inicio, horario_fim, status, conteudo, observacoes,
+            turma:turmas(nome),
+            chamada:chamadas(id)
+          `)
+          .or(filtroAulas)
+          .gte("data_aula", inicio)
+          .lte("data_aula", fim)
+          .order("data_aula", { ascending: true }),
+        supabase
+          .from("matriculas")
+          .select("turma_id, aluno:alunos(id, nome, foto_url)")
+          .in("turma_id", turmaIds)
+          .eq("status", "ativa"),
+        supabase
+          .from("chamadas")
+          .select("data_aula, turma_id, presencas(aluno_id, status)")
+          .in("turma_id", turmaIds)
+      ])
+
+      if (aulasRes.error) throw aulasRes.error
+      if (matriculasRes.error) throw matriculasRes.error
+      if (presencasRes.error) throw presencasRes.error
+
+      const turmasCompletas = turmasBase.map(turma => ({
+        ...turma,
+        alunos: (matriculasRes.data || [])
+          .filter(m => m.turma_id === turma.id && m.aluno)
+          .map(m => m.aluno!)
+          .sort((a, b) => a.nome.localeCompare(b.nome))
+      }))
+
+      const aulasSemana = (aulasRes.data || [])
+        .filter(aula => aula.turma_id)
+        .map(aula => ({
+          id: aula.id,
+          turma_id: aula.turma_id!,
+          turma_nome: aula.turma?.nome ?? "",
+          professor_id: aula.professor_id,
+          data_aula: aula.data_aula,
+          horario_inicio: aula.horario_inicio,
+          horario_fim: aula.horario_fim,
+          status: aula.status,
+          conteudo: aula.conteudo,
+          observacoes: aula.observacoes,
+          // aula_id é único em chamadas: a relação vem como objeto (ou nula)
+          chamada_feita: Array.isArray(aula.chamada) ? aula.chamada.length > 0 : !!aula.chamada
+        }))
+
+      const presencasAlunos = (presencasRes.data || []).flatMap(chamada =>
+        (chamada.presencas || []).map(p => ({
+          aluno_id: p.aluno_id,
+          status: p.status as PresencaPortal["status"],
+          data_aula: chamada.data_aula,
+          turma_id: chamada.turma_id
+        }))
+      )
+
+      setTurmas(turmasCompletas)
+      setAulas(aulasSemana)
+      setPresencas(presencasAlunos)
+
+      const area: AreaProfessorSalva = { professor: cadastro, turmas: turmasCompletas, aulas: aulasSemana, presencas: presencasAlunos }
+      offlineService.saveSnapshot(CHAVES_OFFLINE.areaProfessor(user.id, schoolId), area)
+      guardarTurmasOffline(turmasCompletas, aulasSemana)
+    } catch (error) {
+      console.error("Erro ao carregar área do professor:", error)
+
+      // Sem internet, mostra a agenda da última vez que a área foi aberta
+      const salva = isErroDeRede(error)
+        ? await offlineService.getSnapshot<AreaProfessorSalva>(CHAVES_OFFLINE.areaProfessor(user.id, schoolId))
+        : null
+
+      if (salva) {
+        setProfessor(salva.professor)
+        setTurmas(salva.turmas)
+        setAulas(salva.aulas)
+        setPresencas(salva.presencas)
+      } else {
+        toast.error("Erro ao carregar suas turmas e aulas")
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchArea()
+  }, [user?.id, schoolId])
+
+  const registrarConteudo = async (aulaId: string, conteudo: string, observacoes: string) => {
+    const aula = aulas.find(a => a.id === aulaId)
+
+    try {
+      const { queued } = await offlineService.executeOperation(
+        "conteudo_aula",
+        "UPDATE",
+        { aula_id: aulaId, conteudo, observacoes },
+        {
+          originalData: { conteudo: aula?.conteudo ?? "", observacoes: aula?.observacoes ?? "" },
+          metadata: { descricao: `Conteúdo da aula de ${aula?.turma_nome ?? "turma"}` }
+        }
+      )
+
+      toast.success(queued
+        ? "Sem internet: o conteúdo foi guardado e será enviado quando a conexão voltar"
+        : "Conteúdo da aula registrado!")
+    } catch (error) {
+      console.error("Erro ao registrar conteúdo da aula:", error)
+      toast.error(`Erro ao registrar conteúdo: ${error.message}`)
+      return { success: false }
+    }
+
+    setAulas(prev => prev.map(aula =>
+      aula.id === aulaId
+        ? { ...aula, conteudo: conteudo.trim() || null, observacoes: observacoes.trim() || null }
+        : aula
+    ))
+    return { success: true }
+  }
+
+  return { professor, turmas, aulas, presencas, loading, registrarConteudo, refetch: fetchArea }
+}
@@ -3,6 +3,8 @@ import { useEffect, useState } from "react"
 import { supabase } from "@/integrations/supabase/client"
 import { toast } from "sonner"
 import { useSchool } from "@/contexts/SchoolContext"
+import { offlineService } from "@/services/offlineService"
+import { CHAVES_OFFLINE, isErroDeRede } from "@/utils/offlineUtils"
 
 interface Aula {
   id: string
@@ -44,7 +46,15 @@ export function useAulas(turmaId?: string) {
 
     if (error) {
       console.error("Erro ao carregar aulas:", error)
-      toast.error("Erro ao carregar aulas")
+      // Sem internet, usa as aulas da última vez que a turma foi aberta
+      const salvas = isErroDeRede(error)
+        ? await offlineService.getSnapshot<Aula[]>(CHAVES_OFFLINE.aulasTurma(turmaId))
+        : null
+      if (salvas) {
+        setAulas(salvas)
+      } else {
+        toast.error("Erro ao carregar aulas")
+      }
       setLoading(false)
       return
     }
@@ -64,6 +74,7 @@ export function useAulas(turmaId?: string) {
     }))
 
     setAulas(aulasFormatadas)
+    offlineService.saveSnapshot(CHAVES_OFFLINE.aulasTurma(turmaId), aulasFormatadas)
     setLoading(false)
   }
 
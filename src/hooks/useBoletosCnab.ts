@@ -0,0 +1,333 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import { REGRAS_FINANCEIRAS_PADRAO } from "@/hooks/useConfiguracoesFinanceiras"
+import { toISODate } from "@/utils/financeiroUtils"
+import { gerarTxidPix } from "@/utils/pixUtils"
+import {
+  conciliarRetorno,
+  gerarRemessaCnab240,
+  lerRetornoCnab240,
+  pendenciasPagador,
+  ConciliacaoRetorno,
+  ConfiguracaoCnab,
+  TituloRemessa,
+} from "@/utils/cnab240"
+import type { Json } from "@/integrations/supabase/types"
+import type { FinanceiroItem } from "@/types/financeiro"
+
+const PROVIDER_CNAB = "cnab240"
+
+export interface ExecucaoCnab {
+  id: string
+  operacao: string
+  arquivo_nome: string | null
+  success: boolean
+  records_processed: number
+  records_updated: number
+  errors: Json
+  created_at: string | null
+}
+
+export interface RelatorioRetorno extends ConciliacaoRetorno {
+  arquivo: string
+  erros: string[]
+}
+
+const baixarArquivo = (conteudo: string, nome: string) => {
+  const blob = new Blob([conteudo], { type: "text/plain;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = nome
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Remessa e retorno de boletos CNAB 240. A configuração bancária fica na
+// integração "cnab240" e cada arquivo gerado ou importado, em
+// integration_sync_logs (aba Histórico do BoletosCnabModal)
+export function useBoletosCnab() {
+  const [integracaoId, setIntegracaoId] = useState<string | null>(null)
+  const [configuracao, setConfiguracao] = useState<ConfiguracaoCnab | null>(null)
+  const [historico, setHistorico] = useState<ExecucaoCnab[]>([])
+  const [loading, setLoading] = useState(true)
+  const { schoolId } = useSchool()
+
+  const fetchIntegracao = async () => {
+    if (!schoolId) return
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from("integrations")
+      .select("id, config")
+      .eq("school_id", schoolId)
+      .eq("provider", PROVIDER_CNAB)
+      .maybeSingle()
+
+    if (error) {
+      console.error("Erro ao carregar integração CNAB:", error)
+      toast.error("Erro ao carregar configuração de boletos")
+      setLoading(false)
+      return
+    }
+
+    setIntegracaoId(data?.id ?? null)
+    setConfiguracao((data?.config as unknown as ConfiguracaoCnab) ?? null)
+
+    if (data) {
+      const { data: logs } = await supabase
+        .from("integration_sync_logs")
+        .select("id, operacao, arquivo_nome, success, records_processed, records_updated, errors, created_at")
+        .eq("integration_id", data.id)
+        .order("created_at", { ascending: false })
+        .limit(20)
+
+      setHistorico((logs || []) as ExecucaoCnab[])
+    }
+
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchIntegracao()
+  }, [schoolId])
+
+  const salvarConfiguracao = async (config: ConfiguracaoCnab) => {
+    if (!schoolId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    const configJson = config as unknown as Json
+    const { data, error } = integracaoId
+      ? await supabase.from("integrations").update({ config: configJson }).eq("id", integracaoId).select("id").single()
+      : await supabase
+          .from("integrations")
+          .insert({
+            school_id: schoolId,
+            name: "Boletos CNAB 240",
+            type: "ACCOUNTING",
+            provider: PROVIDER_CNAB,
+            description: "Remessa e retorno de cobrança bancária",
+            config: configJson,
+          })
+          .select("id")
+          .single()
+
+    if (error) {
+      console.error("Erro ao salvar configuração CNAB:", error)
+      toast.error(`Erro ao salvar configuração: ${error.message}`)
+      return { success: false }
+    }
+
+    setIntegracaoId(data.id)
+    setConfiguracao(config)
+    toast.success("Configuração bancária salva!")
+    return { success: true }
+  }
+
+  const registrarExecucao = async (log: {
+    operacao: "remessa" | "retorno"
+    arquivo_nome: string
+    success: boolean
+    records_processed: number
+    records_created?: number
+    records_updated?: number
+    records_skipped?: number
+    errors?: Json
+    warnings?: Json
+    started_at: string
+  }) => {
+    const { error } = await supabase.from("integration_sync_logs").insert({
+      ...log,
+      integration_id: integracaoId,
+      duration: Date.now() - new Date(log.started_at).getTime(),
+      completed_at: new Date().toISOString(),
+    })
+
+    if (error) {
+      console.error("Erro ao registrar histórico CNAB:", error)
+    }
+
+    await supabase
+      .from("integrations")
+      .update({ last_sync: new Date().toISOString(), sync_status: log.success ? "SUCCESS" : "ERROR" })
+      .eq("id", integracaoId)
+  }
+
+  const gerarRemessa = async (lancamentos: FinanceiroItem[]) => {
+    if (!integracaoId || !configuracao) {
+      toast.error("Configure os dados bancários antes de gerar a remessa.")
+      return { success: false }
+    }
+    if (lancamentos.length === 0) {
+      toast.error("Selecione ao menos uma cobrança.")
+      return { success: false }
+    }
+
+    const iniciadoEm = new Date().toISOString()
+
+    try {
+      const [{ data: regras }, { data: alunos, error: alunosError }] = await Promise.all([
+        supabase.from("configuracoes_financeiras").select("*").eq("school_id", schoolId).maybeSingle(),
+        supabase
+          .from("alunos")
+          .select("id, nome, responsavel, cpf_pagador, endereco, bairro, cidade, uf, cep")
+          .in("id", lancamentos.map((l) => l.aluno_id).filter(Boolean)),
+      ])
+
+      if (alunosError) throw alunosError
+
+      // O banco recusa títulos sem CPF e endereço do pagador: nada é gravado antes da conferência
+      const pendentes = new Map<string, string[]>()
+      const pagadores = lancamentos.map((lancamento) => {
+        const aluno = alunos?.find((a) => a.id === lancamento.aluno_id)
+        const pagador: TituloRemessa["pagador"] = {
+          nome: aluno?.responsavel || aluno?.nome || lancamento.descricao,
+          documento: aluno?.cpf_pagador,
+          endereco: aluno?.endereco,
+          bairro: aluno?.bairro,
+          cep: aluno?.cep,
+          cidade: aluno?.cidade,
+          uf: aluno?.uf,
+        }
+
+        const pendencias = pendenciasPagador(pagador)
+        if (pendencias.length > 0) {
+          pendentes.set(aluno?.nome ?? lancamento.descricao, pendencias)
+        }
+        return pagador
+      })
+
+      if (pendentes.size > 0) {
+        const detalhes = [...pendentes].map(([nome, pendencias]) => `${nome} (${pendencias.join(", ")})`)
+        toast.error(`Complete os dados de cobrança antes de gerar a remessa: ${detalhes.join("; ")}`)
+        return { success: false }
+      }
+
+      // O identificador volta no retorno do banco e liga o título ao lançamento
+      const identificadores = new Map<string, string>()
+      for (const lancamento of lancamentos) {
+        const identificador = lancamento.boleto_identificador ?? gerarTxidPix(lancamento.id)
+        identificadores.set(lancamento.id, identificador)
+
+        if (!lancamento.boleto_identificador) {
+          const { error } = await supabase
+            .from("financeiro")
+            .update({ boleto_identificador: identificador })
+            .eq("id", lancamento.id)
+
+          if (error) throw error
+        }
+      }
+
+      const titulos: TituloRemessa[] = lancamentos.map((lancamento, i) => ({
+        identificador: identificadores.get(lancamento.id)!,
+        vencimento: lancamento.data_vencimento,
+        emissao: toISODate(),
+        valor: Number(lancamento.valor),
+        multaPercentual: Number(regras?.multa_percentual ?? REGRAS_FINANCEIRAS_PADRAO.multa_percentual),
+        jurosMensalPercentual: Number(regras?.juros_mensal_percentual ?? REGRAS_FINANCEIRAS_PADRAO.juros_mensal_percentual),
+        pagador: pagadores[i],
+      }))
+
+      // Reservado no banco: remessas geradas ao mesmo tempo não repetem o número
+      const { data: sequencial, error: sequencialError } = await supabase.rpc("proximo_sequencial_remessa", {
+        p_integration_id: integracaoId,
+      })
+
+      if (sequencialError) throw sequencialError
+
+      const arquivoNome = `REM${String(sequencial).padStart(6, "0")}.rem`
+      baixarArquivo(gerarRemessaCnab240(configuracao, titulos, sequencial), arquivoNome)
+
+      await registrarExecucao({
+        operacao: "remessa",
+        arquivo_nome: arquivoNome,
+        success: true,
+        records_processed: titulos.length,
+        records_created: titulos.length,
+        started_at: iniciadoEm,
+      })
+
+      toast.success(`Remessa com ${titulos.length} boleto(s) gerada`)
+      await fetchIntegracao()
+      return { success: true }
+    } catch (error) {
+      console.error("Erro ao gerar remessa CNAB:", error)
+      toast.error(`Erro ao gerar remessa: ${error.message}`)
+      return { success: false }
+    }
+  }
+
+  const importarRetorno = async (arquivo: File) => {
+    if (!integracaoId || !schoolId) {
+      toast.error("Configure os dados bancários antes de importar o retorno.")
+      return { success: false, relatorio: null }
+    }
+
+    const iniciadoEm = new Date().toISOString()
+
+    try {
+      const retorno = lerRetornoCnab240(await arquivo.text())
+      const identificadores = retorno.titulos.map((titulo) => titulo.identificador).filter(Boolean)
+
+      const { data: lancamentos, error } = await supabase
+        .from("financeiro")
+        .select("id, status, boleto_identificador")
+        .eq("school_id", schoolId)
+        .in("boleto_identificador", identificadores)
+
+      if (error) throw error
+
+      const conciliacao = conciliarRetorno(retorno.titulos, lancamentos || [])
+
+      for (const baixa of conciliacao.baixas) {
+        const { error: baixaError } = await supabase
+          .from("financeiro")
+          .update({
+            status: "pago",
+            data_pagamento: baixa.dataPagamento ?? toISODate(),
+            metodo_pagamento: "boleto",
+          })
+          .eq("id", baixa.lancamentoId)
+
+        if (baixaError) throw baixaError
+      }
+
+      const relatorio: RelatorioRetorno = { ...conciliacao, arquivo: arquivo.name, erros: retorno.erros }
+
+      await registrarExecucao({
+        operacao: "retorno",
+        arquivo_nome: arquivo.name,
+        success: retorno.erros.length === 0,
+        records_processed: retorno.titulos.length,
+        records_updated: conciliacao.baixas.length,
+        records_skipped: conciliacao.jaBaixados + conciliacao.ignorados,
+        errors: conciliacao.naoConciliados.map((linha) => ({ record: { ...linha }, error: linha.motivo })),
+        warnings: retorno.erros,
+        started_at: iniciadoEm,
+      })
+
+      toast.success(`${conciliacao.baixas.length} boleto(s) baixado(s) pelo retorno`)
+      await fetchIntegracao()
+      return { success: true, relatorio }
+    } catch (error) {
+      console.error("Erro ao importar retorno CNAB:", error)
+      toast.error(`Erro ao importar retorno: ${error.message}`)
+      return { success: false, relatorio: null }
+    }
+  }
+
+  return {
+    configuracao,
+    historico,
+    loading,
+    salvarConfiguracao,
+    gerarRemessa,
+    importarRetorno,
+    refetch: fetchIntegracao,
+  }
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect, useMemo } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import { useAuth } from "@/contexts/AuthContext"
+import type { DiaSemAula, EventoCalendario, EventoCalendarioForm } from "@/types/calendario"
+
+// Eventos do calendário letivo que tocam o período (yyyy-MM-dd, inclusive)
+export function useCalendario(inicio: string, fim: string) {
+  const [eventos, setEventos] = useState<EventoCalendario[]>([])
+  const [loading, setLoading] = useState(true)
+  const { schoolId } = useSchool()
+  const { user } = useAuth()
+
+  const fetchEventos = async () => {
+    if (!schoolId) return
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from("calendario_eventos")
+      .select("*")
+      .eq("school_id", schoolId)
+      .lte("data_inicio", fim)
+      .gte("data_fim", inicio)
+      .order("data_inicio")
+
+    if (error) {
+      console.error("Erro ao carregar calendário:", error)
+      toast.error("Erro ao carregar o calendário")
+      setLoading(false)
+      return
+    }
+
+    setEventos((data || []) as EventoCalendario[])
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchEventos()
+  }, [schoolId, inicio, fim])
+
+  const salvarEvento = async (evento: EventoCalendarioForm, eventoId?: string) => {
+    if (!schoolId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    if (evento.data_fim < evento.data_inicio) {
+      toast.error("A data final deve ser igual ou posterior à data inicial")
+      return { success: false }
+    }
+
+    const dados = {
+      titulo: evento.titulo.trim(),
+      descricao: evento.descricao?.trim() || null,
+      tipo: evento.tipo,
+      data_inicio: evento.data_inicio,
+      data_fim: evento.data_fim,
+      sem_aula: evento.sem_aula,
+    }
+
+    const { error } = eventoId
+      ? await supabase.from("calendario_eventos").update(dados).eq("id", eventoId)
+      : await supabase.from("calendario_eventos").insert({ ...dados, school_id: schoolId, created_by: user?.id ?? null })
+
+    if (error) {
+      console.error("Erro ao salvar evento:", error)
+      toast.error(`Erro ao salvar evento: ${error.message}`)
+      return { success: false }
+    }
+
+    toast.success(eventoId ? "Evento atualizado!" : "Evento adicionado ao calendário!")
+    await fetchEventos()
+    return { success: true }
+  }
+
+  const excluirEvento = async (eventoId: string) => {
+    const { error } = await supabase
+      .from("calendario_eventos")
+      .delete()
+      .eq("id", eventoId)
+
+    if (error) {
+      console.error("Erro ao excluir evento:", error)
+      toast.error("Erro ao excluir evento")
+      return { success: false }
+    }
+
+    setEventos(prev => prev.filter(e => e.id !== eventoId))
+    toast.success("Evento removido do calendário")
+    return { success: true }
+  }
+
+  // Feriados já carregados (mesmo se a escola mudou a data) não são duplicados
+  const carregarFeriadosNacionais = async (ano: number) => {
+    const { data, error } = await supabase.rpc("carregar_feriados_nacionais", { p_ano: ano })
+
+    if (error) {
+      console.error("Erro ao carregar feriados nacionais:", error)
+      toast.error(`Erro ao carregar feriados: ${error.message}`)
+      return { success: false }
+    }
+
+    toast.success(data ? `${data} feriado(s) de ${ano} adicionado(s)` : `Os feriados de ${ano} já estão no calendário`)
+    await fetchEventos()
+    return { success: true }
+  }
+
+  return { eventos, loading, salvarEvento, excluirEvento, carregarFeriadosNacionais, refetch: fetchEventos }
+}
+
+// Datas sem aula da escola ativa no período, para a geração de aulas e a frequência
+export function useDiasSemAula(inicio?: string, fim?: string) {
+  const [dias, setDias] = useState<DiaSemAula[]>([])
+  const [loading, setLoading] = useState(false)
+  const { schoolId } = useSchool()
+
+  useEffect(() => {
+    const fetchDias = async () => {
+      if (!schoolId || !inicio || !fim || fim < inicio) {
+        setDias([])
+        return
+      }
+
+      setLoading(true)
+      const { data, error } = await supabase.rpc("dias_sem_aula", { p_data_inicio: inicio, p_data_fim: fim })
+
+      if (error) {
+        console.error("Erro ao carregar dias sem aula:", error)
+      }
+      setDias((data || []) as DiaSemAula[])
+      setLoading(false)
+    }
+
+    fetchDias()
+  }, [schoolId, inicio, fim])
+
+  const datas = useMemo(() => new Set(dias.map((d) => d.data)), [dias])
+
+  return { dias, datas, loading }
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { format, parseISO } from "date-fns"
+import { useSchool } from "@/contexts/SchoolContext"
+import { offlineService, OperationPriority, ConflictStrategy } from "@/services/offlineService"
+import { CHAVES_OFFLINE, achatarPresencas, isErroDeRede, type PresencaOffline } from "@/utils/offlineUtils"
+
+export type StatusPresenca = "presente" | "ausente" | "justificado"
+
+export interface RegistroPresenca {
+  aluno_id: string
+  status: StatusPresenca
+  observacoes: string
+}
+
+export interface AlunoChamada {
+  id: string
+  nome: string
+  foto_url: string | null
+}
+
+interface ChamadaSalva {
+  id: string
+  presencas: PresencaOffline[]
+}
+
+interface AulaChamada {
+  id: string
+  turma_id: string
+  professor_id: string | null
+  data_aula: string
+}
+
+export function useChamada(turmaId?: string, aulaId?: string) {
+  const [alunos, setAlunos] = useState<AlunoChamada[]>([])
+  const [registros, setRegistros] = useState<Record<string, RegistroPresenca>>({})
+  const [chamadaId, setChamadaId] = useState<string | null>(null)
+  // Presenças como foram carregadas, para detectar o que mudou no servidor enquanto estava offline
+  const [originais, setOriginais] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const { schoolId } = useSchool()
+
+  const fetchChamada = async () => {
+    if (!turmaId) {
+      setAlunos([])
+      setRegistros({})
+      setChamadaId(null)
+      return
+    }
+
+    setLoading(true)
+    let alunosData: AlunoChamada[] = []
+    let chamadaExistente: ChamadaSalva | null = null
+
+    try {
+      // Alunos com matrícula ativa na turma
+      const { data: matriculasData, error: alunosError } = await supabase
+        .from("matriculas")
+        .select("aluno:alunos(id, nome, foto_url)")
+        .eq("turma_id", turmaId)
+        .eq("status", "ativa")
+
+      if (alunosError) throw alunosError
+
+      alunosData = (matriculasData || [])
+        .map((matricula) => matricula.aluno)
+        .filter(Boolean)
+        .sort((a, b) => a.nome.localeCompare(b.nome))
+
+      offlineService.saveSnapshot(CHAVES_OFFLINE.alunosTurma(turmaId), alunosData)
+
+      if (aulaId) {
+        const { data: chamada, error: chamadaError } = await supabase
+          .from("chamadas")
+          .select("id, presencas(aluno_id, status, observacoes)")
+          .eq("aula_id", aulaId)
+          .maybeSingle()
+
+        if (chamadaError) throw chamadaError
+
+        chamadaExistente = chamada
+        offlineService.saveSnapshot(CHAVES_OFFLINE.chamadaAula(aulaId), chamada)
+      }
+    } catch (error) {
+      console.error("Erro ao carregar chamada:", error)
+
+      // Sem internet, abre a lista de presença guardada na última visita à turma
+      const alunosSalvos = isErroDeRede(error)
+        ? await offlineService.getSnapshot<AlunoChamada[]>(CHAVES_OFFLINE.alunosTurma(turmaId))
+        : null
+
+      if (!alunosSalvos) {
+        toast.error("Erro ao carregar lista de presença")
+        setLoading(false)
+        return
+      }
+
+      alunosData = alunosSalvos
+      chamadaExistente = aulaId ? await offlineService.getSnapshot<ChamadaSalva>(CHAVES_OFFLINE.chamadaAula(aulaId)) : null
+    }
+
+    const registrosIniciais = alunosData.reduce((acc, aluno) => {
+      const existente = chamadaExistente?.presencas.find((p) => p.aluno_id === aluno.id)
+      acc[aluno.id] = {
+        aluno_id: aluno.id,
+        status: (existente?.status as StatusPresenca) ?? "ausente",
+        observacoes: existente?.observacoes ?? "",
+      }
+      return acc
+    }, {} as Record<string, RegistroPresenca>)
+
+    // Uma chamada desta aula ainda na fila offline é a versão mais recente
+    const pendente = offlineService
+      .getPendingOperations()
+      .find((operacao) => operacao.table === "chamada" && operacao.data.aula_id === aulaId)
+    const registrosPendentes = pendente
+      ? Object.fromEntries(
+          Object.values(registrosIniciais).map((registro) => [
+            registro.aluno_id,
+            {
+              ...registro,
+              status: pendente.data[`${registro.aluno_id}.status`] ?? registro.status,
+              observacoes: pendente.data[`${registro.aluno_id}.observacoes`] ?? registro.observacoes,
+            },
+          ])
+        )
+      : registrosIniciais
+
+    setAlunos(alunosData)
+    setRegistros(registrosPendentes)
+    setOriginais(pendente?.originalData ?? achatarPresencas(Object.values(registrosIniciais)))
+    setChamadaId(chamadaExistente?.id ?? null)
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchChamada()
+  }, [turmaId, aulaId])
+
+  const updateRegistro = (alunoId: string, changes: Partial<Omit<RegistroPresenca, "aluno_id">>) => {
+    setRegistros((prev) => ({
+      ...prev,
+      [alunoId]: { ...prev[alunoId], ...changes },
+    }))
+  }
+
+  const salvarChamada = async (aula: AulaChamada) => {
+    if (!schoolId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    setSaving(true)
+    const presencas = achatarPresencas(Object.values(registros))
+
+    try {
+      // salvar_chamada grava chamada e presenças de uma vez e pode ser repetida:
+      // sem internet, a mesma gravação fica na fila até a conexão voltar
+      const { queued, result } = await offlineService.executeOperation(
+        "chamada",
+        "UPDATE",
+        { aula_id: aula.id, ...presencas },
+        {
+          originalData: originais,
+          priority: OperationPriority.HIGH,
+          metadata: {
+            descricao: `Chamada de ${format(parseISO(aula.data_aula), "dd/MM")}`,
+            conflictStrategy: ConflictStrategy.MERGE,
+          },
+        }
+      )
+
+      if (queued) {
+        toast.info("Sem internet: a chamada foi guardada neste aparelho e será enviada quando a conexão voltar")
+        return { success: true }
+      }
+
+      setChamadaId(result)
+      setOriginais(presencas)
+      toast.success(chamadaId ? "Chamada atualizada com sucesso!" : "Chamada salva com sucesso!")
+      return { success: true, data: { id: result as string } }
+    } catch (error) {
+      console.error("Erro ao salvar chamada:", error)
+      toast.error(`Erro ao salvar chamada: ${error.message}`)
+      return { success: false }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return {
+    alunos,
+    registros,
+    chamadaId,
+    loading,
+    saving,
+    updateRegistro,
+    salvarChamada,
+    refetch: fetchChamada,
+  }
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import { REGRAS_ALERTA_FALTA_PADRAO, RegrasAlertaFalta } from "@/types/alertasFalta"
+
+export function useConfiguracoesAlertaFalta() {
+  const [configuracoes, setConfiguracoes] = useState<RegrasAlertaFalta>(REGRAS_ALERTA_FALTA_PADRAO)
+  const [loading, setLoading] = useState(true)
+  const { schoolId, loading: schoolLoading } = useSchool()
+
+  const fetchConfiguracoes = async () => {
+    if (!schoolId) return
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from("configuracoes_alerta_falta")
+      .select("*")
+      .eq("school_id", schoolId)
+      .maybeSingle()
+
+    if (error) {
+      console.error("Erro ao carregar alertas de falta:", error)
+      toast.error("Erro ao carregar alertas de falta")
+    } else if (data) {
+      setConfiguracoes({ ...REGRAS_ALERTA_FALTA_PADRAO, ...data })
+    }
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    if (!schoolLoading && schoolId) {
+      fetchConfiguracoes()
+    }
+  }, [schoolId, schoolLoading])
+
+  const saveConfiguracoes = async (regras: RegrasAlertaFalta) => {
+    if (!schoolId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    const { error } = await supabase
+      .from("configuracoes_alerta_falta")
+      .upsert({ ...regras, school_id: schoolId }, { onConflict: "school_id" })
+
+    if (error) {
+      console.error("Erro ao salvar alertas de falta:", error)
+      toast.error(`Erro ao salvar alertas de falta: ${error.message}`)
+      return { success: false }
+    }
+
+    setConfiguracoes(regras)
+    toast.success("Alertas de falta atualizados!")
+    return { success: true }
+  }
+
+  return { configuracoes, loading: loading || schoolLoading, saveConfiguracoes, refetch: fetchConfiguracoes }
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import type { ConfiguracoesFinanceiras } from "@/types/financeiro"
+
+export type RegrasFinanceiras = Omit<ConfiguracoesFinanceiras, "school_id">
+
+// Valores usados pelo banco quando a escola ainda não salvou suas regras
+export const REGRAS_FINANCEIRAS_PADRAO: RegrasFinanceiras = {
+  dia_vencimento: 10,
+  multa_percentual: 2,
+  juros_mensal_percentual: 1,
+  lembrete_dias_antes: 3,
+  lembrete_no_vencimento: true,
+  lembrete_dias_depois: 5,
+}
+
+export function useConfiguracoesFinanceiras() {
+  const [configuracoes, setConfiguracoes] = useState<RegrasFinanceiras>(REGRAS_FINANCEIRAS_PADRAO)
+  const [loading, setLoading] = useState(true)
+  const { schoolId, loading: schoolLoading } = useSchool()
+
+  const fetchConfiguracoes = async () => {
+    if (!schoolId) return
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from("configuracoes_financeiras")
+      .select("*")
+      .eq("school_id", schoolId)
+      .maybeSingle()
+
+    if (error) {
+      console.error("Erro ao carregar configurações financeiras:", error)
+      toast.error("Erro ao carregar configurações financeiras")
+    } else if (data) {
+      setConfiguracoes({ ...REGRAS_FINANCEIRAS_PADRAO, ...data })
+    }
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    if (!schoolLoading && schoolId) {
+      fetchConfiguracoes()
+    }
+  }, [schoolId, schoolLoading])
+
+  const saveConfiguracoes = async (regras: RegrasFinanceiras) => {
+    if (!schoolId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    const { error } = await supabase
+      .from("configuracoes_financeiras")
+      .upsert({ ...regras, school_id: schoolId }, { onConflict: "school_id" })
+
+    if (error) {
+      console.error("Erro ao salvar configurações financeiras:", error)
+      toast.error(`Erro ao salvar configurações financeiras: ${error.message}`)
+      return { success: false }
+    }
+
+    setConfiguracoes(regras)
+    toast.success("Regras financeiras atualizadas!")
+    return { success: true }
+  }
+
+  return { configuracoes, loading: loading || schoolLoading, saveConfiguracoes, refetch: fetchConfiguracoes }
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import type { Convite, NovoConvite, TipoConvite } from "@/types/convite"
+
+// Convites pendentes da escola (inclui os vencidos, que podem ser reenviados).
+// Envio e reenvio passam pelo invite-user; revogar é um update direto (RLS).
+export function useConvites(tipos: TipoConvite[] = ["professor", "secretario"]) {
+  const [convites, setConvites] = useState<Convite[]>([])
+  const [loading, setLoading] = useState(true)
+  const { schoolId, loading: schoolLoading } = useSchool()
+  const chaveTipos = tipos.join(",")
+
+  const fetchConvites = async () => {
+    if (!schoolId) return
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from("convites")
+      .select("id, school_id, email, nome_completo, tipo_usuario, papel_id, professor_id, aluno_id, parentesco, status, expira_em, enviado_em, envios, aceito_em, created_at")
+      .eq("school_id", schoolId)
+      .eq("status", "pendente")
+      .in("tipo_usuario", tipos)
+      .order("enviado_em", { ascending: false })
+
+    if (error) {
+      console.error("Erro ao carregar convites:", error)
+      toast.error("Erro ao carregar convites pendentes")
+      setLoading(false)
+      return
+    }
+
+    setConvites((data || []) as Convite[])
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    if (!schoolLoading && schoolId) {
+      fetchConvites()
+    }
+  }, [schoolId, schoolLoading, chaveTipos])
+
+  const enviar = async (body: Record<string, unknown>, mensagemErro: string) => {
+    const { data, error } = await supabase.functions.invoke("invite-user", { body })
+
+    if (error || data?.error) {
+      console.error(mensagemErro, error || data?.error)
+      toast.error(`${mensagemErro}: ${data?.error || error?.message}`)
+      return { success: false }
+    }
+
+    toast.success(data?.message ?? "Convite enviado!")
+    await fetchConvites()
+    return { success: true }
+  }
+
+  const convidar = async (dados: NovoConvite) => {
+    if (!schoolId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    return enviar(
+      {
+        ...dados,
+        email: dados.email.trim().toLowerCase(),
+        nome_completo: dados.nome_completo.trim(),
+        school_id: schoolId
+      },
+      "Erro ao enviar convite"
+    )
+  }
+
+  // Novo token e nova validade; o link anterior deixa de valer
+  const reenviar = (conviteId: string) => enviar({ convite_id: conviteId }, "Erro ao reenviar convite")
+
+  const revogar = async (conviteId: string) => {
+    const { error } = await supabase
+      .from("convites")
+      .update({ status: "revogado" })
+      .eq("id", conviteId)
+
+    if (error) {
+      console.error("Erro ao revogar convite:", error)
+      toast.error(`Erro ao revogar convite: ${error.message}`)
+      return { success: false }
+    }
+
+    setConvites(prev => prev.filter(c => c.id !== conviteId))
+    toast.success("Convite revogado!")
+    return { success: true }
+  }
+
+  return {
+    convites,
+    loading: loading || schoolLoading,
+    convidar,
+    reenviar,
+    revogar,
+    refetch: fetchConvites
+  }
+}
@@ -0,0 +1,78 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import type { FolhaPagamento, ItemFolhaPagamento } from "@/types/financeiro"
+
+export interface AulaDemonstrativo {
+  id: string
+  data_aula: string
+  horario_inicio: string
+  horario_fim: string
+  turma: { nome: string } | null
+}
+
+// Demonstrativo de um professor numa folha aprovada, com as aulas que a compõem
+export function useDemonstrativoProfessor(folhaId?: string, professorId?: string) {
+  const [folha, setFolha] = useState<FolhaPagamento | null>(null)
+  const [item, setItem] = useState<ItemFolhaPagamento | null>(null)
+  const [aulas, setAulas] = useState<AulaDemonstrativo[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchDemonstrativo = async () => {
+    if (!folhaId || !professorId) return
+
+    try {
+      setLoading(true)
+
+      const [{ data: folhaData, error: folhaError }, { data: itemData, error: itemError }] = await Promise.all([
+        supabase
+          .from("folhas_pagamento")
+          .select("id, competencia, data_vencimento, valor_total, aprovada_em")
+          .eq("id", folhaId)
+          .maybeSingle(),
+        supabase
+          .from("folha_pagamento_itens")
+          .select("*")
+          .eq("folha_id", folhaId)
+          .eq("professor_id", professorId)
+          .maybeSingle(),
+      ])
+
+      if (folhaError) throw folhaError
+      if (itemError) throw itemError
+
+      setFolha(folhaData)
+      setItem(itemData as ItemFolhaPagamento | null)
+
+      if (folhaData) {
+        const [ano, mes] = folhaData.competencia.split("-").map(Number)
+        const ultimoDia = new Date(ano, mes, 0).getDate()
+
+        const { data: aulasData, error: aulasError } = await supabase
+          .from("aulas")
+          .select("id, data_aula, horario_inicio, horario_fim, turma:turmas(nome)")
+          .eq("professor_id", professorId)
+          .eq("status", "realizada")
+          .gte("data_aula", folhaData.competencia)
+          .lte("data_aula", `${folhaData.competencia.slice(0, 7)}-${ultimoDia}`)
+          .order("data_aula")
+          .order("horario_inicio")
+
+        if (aulasError) throw aulasError
+
+        setAulas((aulasData || []) as AulaDemonstrativo[])
+      }
+    } catch (error) {
+      console.error("Erro ao carregar demonstrativo:", error)
+      toast.error(`Erro ao carregar demonstrativo: ${error.message}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchDemonstrativo()
+  }, [folhaId, professorId])
+
+  return { folha, item, aulas, loading, refetch: fetchDemonstrativo }
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import type { DescontoAluno } from "@/types/financeiro"
+
+export function useDescontosAluno(alunoId?: string) {
+  const [descontos, setDescontos] = useState<DescontoAluno[]>([])
+  const [loading, setLoading] = useState(false)
+  const { schoolId } = useSchool()
+
+  const fetchDescontos = async () => {
+    if (!alunoId) {
+      setDescontos([])
+      return
+    }
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from("aluno_descontos")
+      .select("*")
+      .eq("aluno_id", alunoId)
+      .order("vigencia_inicio", { ascending: false })
+
+    if (error) {
+      console.error("Erro ao carregar descontos:", error)
+      toast.error("Erro ao carregar descontos do aluno")
+      setLoading(false)
+      return
+    }
+
+    setDescontos((data || []) as DescontoAluno[])
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchDescontos()
+  }, [alunoId])
+
+  const addDesconto = async (desconto: Omit<DescontoAluno, "id" | "aluno_id">) => {
+    if (!schoolId || !alunoId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    if (!desconto.percentual && !desconto.valor_fixo) {
+      toast.error("Informe um percentual ou um valor fixo de desconto.")
+      return { success: false }
+    }
+
+    const { error } = await supabase
+      .from("aluno_descontos")
+      .insert({ ...desconto, aluno_id: alunoId, school_id: schoolId })
+
+    if (error) {
+      console.error("Erro ao adicionar desconto:", error)
+      toast.error(`Erro ao adicionar desconto: ${error.message}`)
+      return { success: false }
+    }
+
+    toast.success("Desconto cadastrado com sucesso!")
+    await fetchDescontos()
+    return { success: true }
+  }
+
+  const removeDesconto = async (descontoId: string) => {
+    const { error } = await supabase
+      .from("aluno_descontos")
+      .delete()
+      .eq("id", descontoId)
+
+    if (error) {
+      console.error("Erro ao remover desconto:", error)
+      toast.error("Erro ao remover desconto")
+      return { success: false }
+    }
+
+    setDescontos(prev => prev.filter(d => d.id !== descontoId))
+    toast.success("Desconto removido")
+    return { success: true }
+  }
+
+  return { descontos, loading, addDesconto, removeDesconto, refetch: fetchDescontos }
+}
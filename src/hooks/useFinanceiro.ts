@@ -1,30 +1,11 @@
-
 import { useState, useEffect } from 'react'
 import { supabase } from '@/integrations/supabase/client'
 import { toast } from 'sonner'
 import { useSchool } from '@/contexts/SchoolContext'
+import { gerarTxidPix } from '@/utils/pixUtils'
+import type { FinanceiroItem, NovoLancamento, RegistroPagamento, ResultadoMensalidade } from '@/types/financeiro'
 
-export interface FinanceiroItem {
-  id: string
-  school_id: string
-  tipo: string
-  categoria: string
-  descricao: string
-  valor: number
-  data_vencimento: string
-  data_pagamento: string | null
-  status: string | null
-  metodo_pagamento: string | null
-  observacoes: string | null
-  aluno_id: string | null
-  professor_id: string | null
-  aluno?: {
-    nome: string
-  }
-  professor?: {
-    nome: string
-  }
-}
+export type { FinanceiroItem } from '@/types/financeiro'
 
 export function useFinanceiro() {
   const [financeiro, setFinanceiro] = useState<FinanceiroItem[]>([])
@@ -40,20 +21,20 @@ export function useFinanceiro() {
     try {
       setLoading(true)
       console.log('🔍 Buscando dados financeiros para a escola:', schoolId)
-      
+
       const { data, error } = await supabase
         .from('financeiro')
         .select(`
           *,
-          alunos (nome),
-          professores (nome)
+          aluno:alunos (nome),
+          professor:professores (nome)
         `)
         .eq('school_id', schoolId)
-        .order('created_at', { ascending: false })
+        .order('data_vencimento', { ascending: false })
 
       if (error) throw error
 
-      setFinanceiro(data || [])
+      setFinanceiro((data || []) as FinanceiroItem[])
     } catch (error) {
       console.error('Erro ao buscar dados financeiros:', error)
       toast.error('Erro ao carregar dados financeiros')
@@ -62,6 +43,141 @@ export function useFinanceiro() {
     }
   }
 
+  const createLancamento = async (lancamento: NovoLancamento) => {
+    if (!schoolId) {
+      toast.error('Escola não identificada. Tente fazer login novamente.')
+      return { success: false }
+    }
+
+    if (!lancamento.descricao || !(lancamento.valor > 0)) {
+      toast.error('Descrição e valor maior que zero são obrigatórios.')
+      return { success: false }
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('financeiro')
+        .insert({
+          ...lancamento,
+          status: lancamento.status ?? 'pendente',
+          school_id: schoolId,
+        })
+        .select()
+        .single()
+
+      if (error) throw error
+
+      toast.success(lancamento.tipo === 'receita' ? 'Receita registrada com sucesso!' : 'Despesa registrada com sucesso!')
+      fetchFinanceiro()
+      return { success: true, data }
+    } catch (error) {
+      console.error('Erro ao registrar lançamento:', error)
+      toast.error(`Erro ao registrar lançamento: ${error.message}`)
+      return { success: false, error }
+    }
+  }
+
+  const marcarComoPago = async (id: string, pagamento: RegistroPagamento) => {
+    try {
+      const { error } = await supabase
+        .from('financeiro')
+        .update({
+          status: 'pago',
+          data_pagamento: pagamento.data_pagamento,
+          metodo_pagamento: pagamento.metodo_pagamento,
+        })
+        .eq('id', id)
+
+      if (error) throw error
+
+      setFinanceiro(prev =>
+        prev.map(item => (item.id === id ? { ...item, status: 'pago', ...pagamento } : item))
+      )
+      toast.success('Pagamento registrado com sucesso!')
+      return { success: true }
+    } catch (error) {
+      console.error('Erro ao registrar pagamento:', error)
+      toast.error('Erro ao registrar pagamento')
+      return { success: false, error }
+    }
+  }
+
+  const cancelarLancamento = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('financeiro')
+        .update({ status: 'cancelado' })
+        .eq('id', id)
+
+      if (error) throw error
+
+      setFinanceiro(prev => prev.map(item => (item.id === id ? { ...item, status: 'cancelado' } : item)))
+      toast.success('Lançamento cancelado')
+      return { success: true }
+    } catch (error) {
+      console.error('Erro ao cancelar lançamento:', error)
+      toast.error('Erro ao cancelar lançamento')
+      return { success: false, error }
+    }
+  }
+
+  // Garante o txid PIX do lançamento, usado no BR Code e na conciliação do recebimento
+  const vincularTxidPix = async (lancamento: FinanceiroItem) => {
+    if (lancamento.pix_txid) {
+      return { success: true, txid: lancamento.pix_txid }
+    }
+
+    const txid = gerarTxidPix(lancamento.id)
+
+    try {
+      const { error } = await supabase
+        .from('financeiro')
+        .update({ pix_txid: txid })
+        .eq('id', lancamento.id)
+
+      if (error) throw error
+
+      setFinanceiro(prev => prev.map(item => (item.id === lancamento.id ? { ...item, pix_txid: txid } : item)))
+      return { success: true, txid }
+    } catch (error) {
+      console.error('Erro ao gerar txid PIX:', error)
+      toast.error('Erro ao gerar cobrança PIX')
+      return { success: false, txid: null }
+    }
+  }
+
+  // Gera as mensalidades do mês via função SQL idempotente; com simular = true apenas calcula
+  const gerarMensalidades = async (competencia: string, simular = false) => {
+    if (!schoolId) {
+      toast.error('Escola não identificada. Tente fazer login novamente.')
+      return { success: false, data: [] as ResultadoMensalidade[] }
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('gerar_mensalidades', {
+        p_school_id: schoolId,
+        p_competencia: `${competencia}-01`,
+        p_simular: simular,
+      })
+
+      if (error) throw error
+
+      const resultado = (data || []) as ResultadoMensalidade[]
+
+      if (!simular) {
+        const criadas = resultado.filter(linha => linha.situacao === 'criada').length
+        toast.success(criadas > 0 ? `${criadas} mensalidade(s) gerada(s)` : 'Nenhuma mensalidade nova para gerar')
+        fetchFinanceiro()
+      }
+
+      return { success: true, data: resultado }
+    } catch (error) {
+      console.error('Erro ao gerar mensalidades:', error)
+      toast.error(`Erro ao gerar mensalidades: ${error.message}`)
+      return { success: false, data: [] as ResultadoMensalidade[] }
+    }
+  }
+
   useEffect(() => {
     if (!schoolLoading && schoolId) {
       fetchFinanceiro()
@@ -71,6 +187,11 @@ export function useFinanceiro() {
   return {
     financeiro,
     loading: loading || schoolLoading,
+    createLancamento,
+    marcarComoPago,
+    cancelarLancamento,
+    gerarMensalidades,
+    vincularTxidPix,
     refetch: fetchFinanceiro
   }
 }
@@ -0,0 +1,42 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import type { FinanceiroItem } from "@/types/financeiro"
+
+// Cobranças em aberto (pendentes ou em atraso) de um aluno
+export function useFinanceiroAluno(alunoId?: string) {
+  const [cobrancas, setCobrancas] = useState<FinanceiroItem[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const fetchCobrancas = async () => {
+    if (!alunoId) {
+      setCobrancas([])
+      return
+    }
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from("financeiro")
+      .select("*")
+      .eq("aluno_id", alunoId)
+      .eq("tipo", "receita")
+      .in("status", ["pendente", "atrasado"])
+      .order("data_vencimento", { ascending: true })
+
+    if (error) {
+      console.error("Erro ao carregar cobranças do aluno:", error)
+      toast.error("Erro ao carregar situação financeira do aluno")
+      setLoading(false)
+      return
+    }
+
+    setCobrancas((data || []) as FinanceiroItem[])
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchCobrancas()
+  }, [alunoId])
+
+  return { cobrancas, loading, refetch: fetchCobrancas }
+}
@@ -0,0 +1,107 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import type { AjusteFolha, CalculoFolhaProfessor, FolhaPagamento, ItemFolhaPagamento } from "@/types/financeiro"
+
+// Folha de pagamento do mês (yyyy-MM): itens congelados se já aprovada,
+// senão o cálculo atual das aulas realizadas
+export function useFolhaPagamento(mes: string) {
+  const [folha, setFolha] = useState<FolhaPagamento | null>(null)
+  const [itens, setItens] = useState<ItemFolhaPagamento[]>([])
+  const [calculos, setCalculos] = useState<CalculoFolhaProfessor[]>([])
+  const [loading, setLoading] = useState(true)
+  const { schoolId, loading: schoolLoading } = useSchool()
+
+  const competencia = `${mes}-01`
+
+  const fetchFolha = async () => {
+    if (!schoolId) return
+
+    try {
+      setLoading(true)
+
+      const { data: folhaAprovada, error } = await supabase
+        .from("folhas_pagamento")
+        .select("id, competencia, data_vencimento, valor_total, aprovada_em")
+        .eq("school_id", schoolId)
+        .eq("competencia", competencia)
+        .maybeSingle()
+
+      if (error) throw error
+
+      setFolha(folhaAprovada)
+
+      if (folhaAprovada) {
+        const { data, error: itensError } = await supabase
+          .from("folha_pagamento_itens")
+          .select("*")
+          .eq("folha_id", folhaAprovada.id)
+          .order("professor_nome")
+
+        if (itensError) throw itensError
+
+        setItens((data || []) as ItemFolhaPagamento[])
+        setCalculos([])
+      } else {
+        const { data, error: calculoError } = await supabase.rpc("calcular_folha_pagamento", {
+          p_school_id: schoolId,
+          p_competencia: competencia,
+        })
+
+        if (calculoError) throw calculoError
+
+        setCalculos((data || []) as CalculoFolhaProfessor[])
+        setItens([])
+      }
+    } catch (error) {
+      console.error("Erro ao carregar folha de pagamento:", error)
+      toast.error(`Erro ao carregar folha de pagamento: ${error.message}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const aprovarFolha = async (ajustes: AjusteFolha[], dataVencimento: string) => {
+    if (!schoolId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    try {
+      const { error } = await supabase.rpc("aprovar_folha_pagamento", {
+        p_school_id: schoolId,
+        p_competencia: competencia,
+        p_data_vencimento: dataVencimento,
+        p_ajustes: ajustes
+          .filter((ajuste) => ajuste.valor !== 0)
+          .map((ajuste) => ({ ...ajuste })),
+      })
+
+      if (error) throw error
+
+      toast.success("Folha aprovada e lançada no financeiro!")
+      await fetchFolha()
+      return { success: true }
+    } catch (error) {
+      console.error("Erro ao aprovar folha de pagamento:", error)
+      toast.error(`Erro ao aprovar folha: ${error.message}`)
+      return { success: false }
+    }
+  }
+
+  useEffect(() => {
+    if (!schoolLoading && schoolId) {
+      fetchFolha()
+    }
+  }, [schoolId, schoolLoading, mes])
+
+  return {
+    folha,
+    itens,
+    calculos,
+    loading: loading || schoolLoading,
+    aprovarFolha,
+    refetch: fetchFolha,
+  }
+}
@@ -0,0 +1,131 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import type { HorarioAula } from "@/components/forms/HorarioAulaForm"
+import type { HorarioTurma, ResultadoGeracaoAula } from "@/types/aula"
+import { DIAS_SEMANA } from "@/utils/aulasRecorrentesUtils"
+
+// Grade semanal da turma (turma_horarios) e geração das aulas a partir dela
+export function useHorariosTurma(turmaId?: string) {
+  const [horarios, setHorarios] = useState<HorarioTurma[]>([])
+  const [loading, setLoading] = useState(false)
+  const { schoolId } = useSchool()
+
+  const fetchHorarios = async () => {
+    if (!turmaId) {
+      setHorarios([])
+      return
+    }
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from("turma_horarios")
+      .select("*")
+      .eq("turma_id", turmaId)
+
+    if (error) {
+      console.error("Erro ao carregar horários:", error)
+      toast.error("Erro ao carregar horários da turma")
+      setLoading(false)
+      return
+    }
+
+    const ordenados = (data || []).sort((a, b) =>
+      DIAS_SEMANA.indexOf(a.dia_semana) - DIAS_SEMANA.indexOf(b.dia_semana) || a.horario_inicio.localeCompare(b.horario_inicio)
+    )
+    setHorarios(ordenados)
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchHorarios()
+  }, [turmaId])
+
+  // Substitui a grade inteira; o primeiro horário também fica em turmas (exibição nas listagens)
+  const salvarHorarios = async (novosHorarios: HorarioAula[]) => {
+    if (!schoolId || !turmaId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    const incompleto = novosHorarios.some((h) => !h.dia || !h.horario_inicio || !h.horario_fim)
+    if (novosHorarios.length === 0 || incompleto) {
+      toast.error("Preencha dia, início e fim de cada horário.")
+      return { success: false }
+    }
+
+    if (novosHorarios.some((h) => h.horario_fim <= h.horario_inicio)) {
+      toast.error("O horário de fim deve ser posterior ao de início.")
+      return { success: false }
+    }
+
+    try {
+      const { error: deleteError } = await supabase.from("turma_horarios").delete().eq("turma_id", turmaId)
+      if (deleteError) throw deleteError
+
+      const { error: insertError } = await supabase.from("turma_horarios").insert(
+        novosHorarios.map((h) => ({
+          school_id: schoolId,
+          turma_id: turmaId,
+          dia_semana: h.dia,
+          horario_inicio: h.horario_inicio,
+          horario_fim: h.horario_fim,
+        }))
+      )
+      if (insertError) throw insertError
+
+      const [principal] = novosHorarios
+      const { error: turmaError } = await supabase
+        .from("turmas")
+        .update({ dia_semana: principal.dia, horario_inicio: principal.horario_inicio, horario_fim: principal.horario_fim })
+        .eq("id", turmaId)
+      if (turmaError) throw turmaError
+
+      await fetchHorarios()
+      return { success: true }
+    } catch (error) {
+      console.error("Erro ao salvar horários:", error)
+      toast.error(`Erro ao salvar horários: ${error.message}`)
+      return { success: false }
+    }
+  }
+
+  const gerarAulas = async (dataInicio: string, dataFim: string, datasExcluidas: string[], simular = false) => {
+    if (!turmaId) return { success: false, data: [] as ResultadoGeracaoAula[] }
+
+    try {
+      const { data, error } = await supabase.rpc("gerar_aulas_turma", {
+        p_turma_id: turmaId,
+        p_data_inicio: dataInicio,
+        p_data_fim: dataFim,
+        p_datas_excluidas: datasExcluidas,
+        p_simular: simular,
+      })
+
+      if (error) throw error
+
+      const resultado = ((data || []) as ResultadoGeracaoAula[]).sort((a, b) =>
+        a.data_aula.localeCompare(b.data_aula) || a.horario_inicio.localeCompare(b.horario_inicio)
+      )
+
+      if (!simular) {
+        const criadas = resultado.filter((linha) => linha.situacao === "criada").length
+        const removidas = resultado.filter((linha) => linha.situacao === "removida").length
+        toast.success(
+          criadas || removidas
+            ? `${criadas} aula(s) criada(s), ${removidas} removida(s)`
+            : "As aulas do período já estão de acordo com os horários"
+        )
+      }
+
+      return { success: true, data: resultado }
+    } catch (error) {
+      console.error("Erro ao gerar aulas:", error)
+      toast.error(`Erro ao gerar aulas: ${error.message}`)
+      return { success: false, data: [] as ResultadoGeracaoAula[] }
+    }
+  }
+
+  return { horarios, loading, salvarHorarios, gerarAulas, refetch: fetchHorarios }
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import type { LembretePagamento } from "@/types/financeiro"
+
+// Lembretes já enviados de um lançamento, para a secretaria ver quem foi avisado
+export function useLembretesPagamento(financeiroId?: string) {
+  const [lembretes, setLembretes] = useState<LembretePagamento[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const fetchLembretes = async () => {
+    if (!financeiroId) {
+      setLembretes([])
+      return
+    }
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from("lembretes_pagamento")
+      .select("*")
+      .eq("financeiro_id", financeiroId)
+      .order("enviado_em", { ascending: true })
+
+    if (error) {
+      console.error("Erro ao carregar lembretes de pagamento:", error)
+      toast.error("Erro ao carregar lembretes de pagamento")
+    } else {
+      setLembretes((data || []) as unknown as LembretePagamento[])
+    }
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchLembretes()
+  }, [financeiroId])
+
+  return { lembretes, loading, refetch: fetchLembretes }
+}
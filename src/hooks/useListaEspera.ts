@@ -0,0 +1,116 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import { EntradaListaEspera, NovaEntradaListaEspera, StatusListaEspera } from "@/types/listaEspera"
+
+// Lista de espera de uma turma; as ofertas de vaga e seus prazos são controlados pelo banco
+export function useListaEspera(turmaId?: string) {
+  const [entradas, setEntradas] = useState<EntradaListaEspera[]>([])
+  const [loading, setLoading] = useState(false)
+  const { schoolId } = useSchool()
+
+  const fetchEntradas = async () => {
+    if (!turmaId) {
+      setEntradas([])
+      return
+    }
+
+    setLoading(true)
+
+    // Expira ofertas vencidas antes de listar, sem esperar a execução agendada
+    const { error: processarError } = await supabase.rpc("processar_lista_espera", { p_turma_id: turmaId })
+    if (processarError) console.error("Erro ao processar lista de espera:", processarError)
+
+    const { data, error } = await supabase
+      .from("lista_espera")
+      .select("*")
+      .eq("turma_id", turmaId)
+      .order("created_at", { ascending: true })
+
+    if (error) {
+      console.error("Erro ao carregar lista de espera:", error)
+      toast.error("Erro ao carregar lista de espera da turma")
+      setLoading(false)
+      return
+    }
+
+    setEntradas((data || []) as EntradaListaEspera[])
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchEntradas()
+  }, [turmaId])
+
+  const adicionar = async (dados: NovaEntradaListaEspera) => {
+    if (!schoolId || !turmaId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    if (!dados.nome.trim()) {
+      toast.error("Informe o nome do interessado.")
+      return { success: false }
+    }
+
+    const { error } = await supabase.from("lista_espera").insert({
+      school_id: schoolId,
+      turma_id: turmaId,
+      aluno_id: dados.aluno_id || null,
+      nome: dados.nome.trim(),
+      telefone: dados.telefone || null,
+      email: dados.email || null,
+      observacoes: dados.observacoes || null,
+    })
+
+    if (error) {
+      console.error("Erro ao adicionar à lista de espera:", error)
+      toast.error(
+        error.code === "23505" ? "O aluno já está na lista de espera desta turma" : `Erro ao adicionar à lista de espera: ${error.message}`
+      )
+      return { success: false }
+    }
+
+    toast.success("Adicionado à lista de espera")
+    await fetchEntradas()
+    return { success: true }
+  }
+
+  // Recusar ou remover uma oferta passa a vaga ao próximo da fila (trigger no banco)
+  const alterarStatus = async (entradaId: string, status: Extract<StatusListaEspera, "recusada" | "cancelada">) => {
+    const { error } = await supabase.from("lista_espera").update({ status }).eq("id", entradaId)
+
+    if (error) {
+      console.error("Erro ao atualizar lista de espera:", error)
+      toast.error(`Erro ao atualizar lista de espera: ${error.message}`)
+      return { success: false }
+    }
+
+    toast.success(status === "recusada" ? "Oferta recusada" : "Removido da lista de espera")
+    await fetchEntradas()
+    return { success: true }
+  }
+
+  // Interessados sem cadastro viram alunos na matrícula
+  const matricular = async (entradaId: string, dataInicio: string) => {
+    const { error } = await supabase.rpc("matricular_da_lista_espera", {
+      p_entrada_id: entradaId,
+      p_data_inicio: dataInicio,
+    })
+
+    if (error) {
+      console.error("Erro ao matricular da lista de espera:", error)
+      toast.error(
+        error.code === "23514" ? "Não há vaga livre: aguarde a oferta para este interessado" : `Erro ao matricular: ${error.message}`
+      )
+      return { success: false }
+    }
+
+    toast.success("Aluno matriculado com sucesso!")
+    await fetchEntradas()
+    return { success: true }
+  }
+
+  return { entradas, loading, adicionar, alterarStatus, matricular, refetch: fetchEntradas }
+}
@@ -0,0 +1,94 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import { useAuth } from "@/contexts/AuthContext"
+import type { MaterialTurma } from "@/types/aula"
+
+export function useMateriaisTurma(turmaId?: string) {
+  const [materiais, setMateriais] = useState<MaterialTurma[]>([])
+  const [loading, setLoading] = useState(false)
+  const { schoolId } = useSchool()
+  const { user } = useAuth()
+
+  const fetchMateriais = async () => {
+    if (!turmaId) {
+      setMateriais([])
+      return
+    }
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from("materiais_turma")
+      .select("*")
+      .eq("turma_id", turmaId)
+      .order("created_at", { ascending: false })
+
+    if (error) {
+      console.error("Erro ao carregar materiais:", error)
+      toast.error("Erro ao carregar materiais da turma")
+      setLoading(false)
+      return
+    }
+
+    setMateriais(data || [])
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchMateriais()
+  }, [turmaId])
+
+  const adicionarMaterial = async (material: Pick<MaterialTurma, "titulo" | "url" | "descricao">) => {
+    if (!schoolId || !turmaId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    const url = material.url.trim()
+    if (!/^https?:\/\//i.test(url)) {
+      toast.error("Informe um link começando com http:// ou https://")
+      return { success: false }
+    }
+
+    const { error } = await supabase
+      .from("materiais_turma")
+      .insert({
+        school_id: schoolId,
+        turma_id: turmaId,
+        titulo: material.titulo.trim(),
+        descricao: material.descricao?.trim() || null,
+        url,
+        created_by: user?.id ?? null
+      })
+
+    if (error) {
+      console.error("Erro ao adicionar material:", error)
+      toast.error(`Erro ao adicionar material: ${error.message}`)
+      return { success: false }
+    }
+
+    toast.success("Material compartilhado com a turma!")
+    await fetchMateriais()
+    return { success: true }
+  }
+
+  const removerMaterial = async (materialId: string) => {
+    const { error } = await supabase
+      .from("materiais_turma")
+      .delete()
+      .eq("id", materialId)
+
+    if (error) {
+      console.error("Erro ao remover material:", error)
+      toast.error("Erro ao remover material")
+      return { success: false }
+    }
+
+    setMateriais(prev => prev.filter(m => m.id !== materialId))
+    toast.success("Material removido")
+    return { success: true }
+  }
+
+  return { materiais, loading, adicionarMaterial, removerMaterial, refetch: fetchMateriais }
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import { MatriculaTurma, StatusMatricula, STATUS_MATRICULA } from "@/types/aluno"
+
+// Erros de unicidade e de lotação (trigger matriculas_vagas_disponiveis) viram mensagens amigáveis
+const mensagemErroMatricula = (error: { code?: string; message: string }, acao: string) => {
+  if (error.code === "23505") return "O aluno já tem uma matrícula em andamento nesta turma"
+  if (error.code === "23514") return "Turma sem vagas disponíveis. Adicione o aluno à lista de espera."
+  return `Erro ao ${acao}: ${error.message}`
+}
+
+export interface NovaMatricula {
+  data_inicio: string
+  valor_mensal: number | null
+  observacoes?: string
+}
+
+// Matrículas de uma turma (em andamento e histórico); vagas_ocupadas é recalculado pelo banco
+export function useMatriculas(turmaId?: string) {
+  const [matriculas, setMatriculas] = useState<MatriculaTurma[]>([])
+  const [loading, setLoading] = useState(false)
+  const { schoolId } = useSchool()
+
+  const fetchMatriculas = async () => {
+    if (!turmaId) {
+      setMatriculas([])
+      return
+    }
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from("matriculas")
+      .select("*, aluno:alunos(id, nome, email, telefone, foto_url, instrumento)")
+      .eq("turma_id", turmaId)
+      .order("data_inicio", { ascending: false })
+
+    if (error) {
+      console.error("Erro ao carregar matrículas:", error)
+      toast.error("Erro ao carregar matrículas da turma")
+      setLoading(false)
+      return
+    }
+
+    setMatriculas((data || []) as MatriculaTurma[])
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchMatriculas()
+  }, [turmaId])
+
+  const matricular = async (alunoId: string, dados: NovaMatricula) => {
+    if (!schoolId || !turmaId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    const { error } = await supabase.from("matriculas").insert({
+      school_id: schoolId,
+      aluno_id: alunoId,
+      turma_id: turmaId,
+      data_inicio: dados.data_inicio,
+      valor_mensal: dados.valor_mensal,
+      observacoes: dados.observacoes || null,
+    })
+
+    if (error) {
+      console.error("Erro ao matricular aluno:", error)
+      toast.error(mensagemErroMatricula(error, "matricular aluno"))
+      return { success: false }
+    }
+
+    toast.success("Aluno matriculado com sucesso!")
+    await fetchMatriculas()
+    return { success: true }
+  }
+
+  // Encerrar (cancelada/concluída) grava data_fim no banco; reativar a limpa
+  const alterarStatus = async (matriculaId: string, status: StatusMatricula) => {
+    const { error } = await supabase.from("matriculas").update({ status }).eq("id", matriculaId)
+
+    if (error) {
+      console.error("Erro ao alterar matrícula:", error)
+      toast.error(mensagemErroMatricula(error, "alterar matrícula"))
+      return { success: false }
+    }
+
+    const label = STATUS_MATRICULA.find((s) => s.value === status)?.label.toLowerCase()
+    toast.success(`Matrícula ${label}`)
+    await fetchMatriculas()
+    return { success: true }
+  }
+
+  return { matriculas, loading, matricular, alterarStatus, refetch: fetchMatriculas }
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect } from "react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import {
+  notificationService,
+  type Notification,
+  type NotificationPreferences,
+} from "@/services/notificationService"
+
+const LIMITE_CAIXA_ENTRADA = 30
+
+// Caixa de entrada do usuário logado, atualizada em tempo real
+export function useNotificacoes() {
+  const [notificacoes, setNotificacoes] = useState<Notification[]>([])
+  const [naoLidas, setNaoLidas] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const { user } = useAuth()
+
+  const fetchNotificacoes = async () => {
+    if (!user) {
+      setNotificacoes([])
+      setNaoLidas(0)
+      setLoading(false)
+      return
+    }
+
+    const [lista, contagem] = await Promise.all([
+      notificationService.getUserNotifications(user.id, { limit: LIMITE_CAIXA_ENTRADA }),
+      notificationService.getUnreadCount(user.id),
+    ])
+    setNotificacoes(lista)
+    setNaoLidas(contagem)
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchNotificacoes()
+    if (!user) return
+
+    const onNova = (notificacao: Notification) => {
+      setNotificacoes((prev) => [notificacao, ...prev.filter((n) => n.id !== notificacao.id)].slice(0, LIMITE_CAIXA_ENTRADA))
+      setNaoLidas((prev) => prev + 1)
+    }
+    const onAlerta = (notificacao: Notification) => {
+      toast(notificacao.title, { description: notificacao.message })
+    }
+    // Lida em outra aba ou aparelho: a contagem vem do banco
+    const onAlterada = () => {
+      fetchNotificacoes()
+    }
+
+    notificationService.addListener("in-app", onNova)
+    notificationService.addListener("alert", onAlerta)
+    notificationService.addListener("changed", onAlterada)
+    const pararDeEscutar = notificationService.subscribe(user.id)
+
+    return () => {
+      notificationService.removeListener("in-app", onNova)
+      notificationService.removeListener("alert", onAlerta)
+      notificationService.removeListener("changed", onAlterada)
+      pararDeEscutar()
+    }
+  }, [user?.id])
+
+  const marcarComoLida = async (notificacaoId: string) => {
+    const notificacao = notificacoes.find((n) => n.id === notificacaoId)
+    if (!notificacao || notificacao.read) return { success: true }
+
+    try {
+      await notificationService.markAsRead(notificacaoId)
+    } catch (error) {
+      console.error("Erro ao marcar notificação como lida:", error)
+      return { success: false }
+    }
+
+    setNotificacoes((prev) => prev.map((n) => (n.id === notificacaoId ? { ...n, read: true } : n)))
+    setNaoLidas((prev) => Math.max(0, prev - 1))
+    return { success: true }
+  }
+
+  const marcarTodasComoLidas = async () => {
+    if (!user) return { success: false }
+
+    try {
+      await notificationService.markAllAsRead(user.id)
+    } catch (error) {
+      console.error("Erro ao marcar notificações como lidas:", error)
+      toast.error("Erro ao marcar notificações como lidas")
+      return { success: false }
+    }
+
+    setNotificacoes((prev) => prev.map((n) => ({ ...n, read: true })))
+    setNaoLidas(0)
+    return { success: true }
+  }
+
+  const excluirNotificacao = async (notificacaoId: string) => {
+    try {
+      await notificationService.deleteNotification(notificacaoId)
+    } catch (error) {
+      console.error("Erro ao excluir notificação:", error)
+      toast.error("Erro ao excluir notificação")
+      return { success: false }
+    }
+
+    const excluida = notificacoes.find((n) => n.id === notificacaoId)
+    setNotificacoes((prev) => prev.filter((n) => n.id !== notificacaoId))
+    if (excluida && !excluida.read) setNaoLidas((prev) => Math.max(0, prev - 1))
+    return { success: true }
+  }
+
+  return {
+    notificacoes,
+    naoLidas,
+    loading,
+    marcarComoLida,
+    marcarTodasComoLidas,
+    excluirNotificacao,
+    refetch: fetchNotificacoes,
+  }
+}
+
+// Preferências de notificação do usuário logado (tela de perfil)
+export function usePreferenciasNotificacao() {
+  const [preferencias, setPreferencias] = useState<NotificationPreferences | null>(null)
+  const [loading, setLoading] = useState(true)
+  const { user } = useAuth()
+
+  useEffect(() => {
+    if (!user) {
+      setLoading(false)
+      return
+    }
+
+    notificationService.getUserPreferences(user.id).then((dados) => {
+      setPreferencias(dados)
+      setLoading(false)
+    })
+  }, [user?.id])
+
+  const salvarPreferencias = async (alteracoes: Partial<NotificationPreferences>) => {
+    if (!user) return { success: false }
+
+    // Notificações do navegador dependem da permissão do próprio navegador
+    if (alteracoes.push && !preferencias?.push) {
+      const permitido = await notificationService.requestPushPermission()
+      if (!permitido) {
+        toast.warning("O navegador bloqueou as notificações. Libere-as nas configurações do site.")
+      }
+    }
+
+    try {
+      await notificationService.updateUserPreferences(user.id, alteracoes)
+    } catch (error) {
+      console.error("Erro ao salvar preferências de notificação:", error)
+      toast.error("Erro ao salvar preferências de notificação")
+      return { success: false }
+    }
+
+    setPreferencias((prev) => (prev ? { ...prev, ...alteracoes } : prev))
+    toast.success("Preferências de notificação salvas!")
+    return { success: true }
+  }
+
+  return { preferencias, loading, salvarPreferencias }
+}
@@ -0,0 +1,39 @@
+import { useState, useEffect } from "react"
+import { toast } from "sonner"
+import { offlineService, type OfflineOperation, type OfflineStats } from "@/services/offlineService"
+
+// Conexão e fila de gravações feitas sem internet, atualizadas pelo offlineService
+export function useOfflineStatus() {
+  const [stats, setStats] = useState<OfflineStats>(() => offlineService.getStats())
+  const [pendentes, setPendentes] = useState<OfflineOperation[]>(() => offlineService.getPendingOperations())
+
+  useEffect(() => {
+    const atualizar = (novas: OfflineStats) => {
+      setStats(novas)
+      setPendentes(offlineService.getPendingOperations())
+    }
+
+    offlineService.addListener(atualizar)
+    return () => offlineService.removeListener(atualizar)
+  }, [])
+
+  const sincronizar = async () => {
+    try {
+      await offlineService.forceSync()
+      return { success: true }
+    } catch (error) {
+      console.error("Erro ao sincronizar:", error)
+      toast.error("Sem conexão com a internet")
+      return { success: false }
+    }
+  }
+
+  // Conflito de uma gravação offline: manter a versão do aparelho ou a do servidor
+  const resolverConflito = async (operacaoId: string, manter: "local" | "server") => {
+    await offlineService.resolveManualConflict(operacaoId, manter)
+    toast.success(manter === "local" ? "Sua versão será enviada" : "Versão do servidor mantida")
+    return { success: true }
+  }
+
+  return { ...stats, pendentes, sincronizar, resolverConflito }
+}
@@ -0,0 +1,132 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import { generateSlug } from "@/utils/formatUtils"
+import type { Capacidade } from "@/utils/permissoes"
+import type { MembroEquipe, Papel } from "@/types/papel"
+
+export interface DadosPapel {
+  nome: string
+  descricao: string | null
+  capacidades: Capacidade[]
+}
+
+// Papéis padrão e da escola, e a equipe (membros da escola) a quem podem ser atribuídos.
+// A atribuição só vale para o usuário depois que o token dele for renovado.
+export function usePapeis() {
+  const [papeis, setPapeis] = useState<Papel[]>([])
+  const [equipe, setEquipe] = useState<MembroEquipe[]>([])
+  const [loading, setLoading] = useState(true)
+  const { schoolId, loading: schoolLoading } = useSchool()
+
+  const fetchPapeis = async () => {
+    if (!schoolId) return
+
+    setLoading(true)
+    const [papeisRes, equipeRes] = await Promise.all([
+      supabase
+        .from("papeis")
+        .select("id, school_id, codigo, nome, descricao, capacidades")
+        .order("nome", { ascending: true }),
+      supabase
+        .from("membros_escola")
+        .select("user_id, tipo_usuario, papel_id, perfil:profiles(nome_completo)")
+        .eq("school_id", schoolId)
+        .eq("ativo", true)
+        .in("tipo_usuario", ["diretor", "secretario", "professor"])
+    ])
+
+    if (papeisRes.error || equipeRes.error) {
+      console.error("Erro ao carregar papéis:", papeisRes.error || equipeRes.error)
+      toast.error("Erro ao carregar papéis e equipe")
+      setLoading(false)
+      return
+    }
+
+    setPapeis((papeisRes.data || []) as Papel[])
+    setEquipe(
+      (equipeRes.data || [])
+        .map(m => ({
+          id: m.user_id,
+          nome_completo: m.perfil?.nome_completo ?? null,
+          tipo_usuario: m.tipo_usuario,
+          papel_id: m.papel_id
+        }))
+        .sort((a, b) => (a.nome_completo ?? "").localeCompare(b.nome_completo ?? ""))
+    )
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    if (!schoolLoading && schoolId) {
+      fetchPapeis()
+    }
+  }, [schoolId, schoolLoading])
+
+  const salvarPapel = async (dados: DadosPapel, papelId?: string) => {
+    if (!schoolId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    const { error } = papelId
+      ? await supabase.from("papeis").update(dados).eq("id", papelId)
+      : await supabase.from("papeis").insert({ ...dados, school_id: schoolId, codigo: generateSlug(dados.nome) })
+
+    if (error) {
+      console.error("Erro ao salvar papel:", error)
+      toast.error(error.code === "23505" ? "Já existe um papel com esse nome" : `Erro ao salvar papel: ${error.message}`)
+      return { success: false }
+    }
+
+    toast.success(papelId ? "Papel atualizado!" : "Papel criado!")
+    await fetchPapeis()
+    return { success: true }
+  }
+
+  const excluirPapel = async (papelId: string) => {
+    const { error } = await supabase.from("papeis").delete().eq("id", papelId)
+
+    if (error) {
+      console.error("Erro ao excluir papel:", error)
+      toast.error(`Erro ao excluir papel: ${error.message}`)
+      return { success: false }
+    }
+
+    // Quem tinha o papel volta ao papel padrão (ON DELETE SET NULL)
+    setPapeis(prev => prev.filter(p => p.id !== papelId))
+    setEquipe(prev => prev.map(m => (m.papel_id === papelId ? { ...m, papel_id: null } : m)))
+    toast.success("Papel excluído!")
+    return { success: true }
+  }
+
+  const atribuirPapel = async (profileId: string, papelId: string | null) => {
+    // O papel é do vínculo com esta escola; o perfil acompanha se ela for a escola ativa do usuário
+    const { error } = await supabase
+      .from("membros_escola")
+      .update({ papel_id: papelId })
+      .eq("user_id", profileId)
+      .eq("school_id", schoolId ?? "")
+
+    if (error) {
+      console.error("Erro ao atribuir papel:", error)
+      toast.error(`Erro ao atribuir papel: ${error.message}`)
+      return { success: false }
+    }
+
+    setEquipe(prev => prev.map(m => (m.id === profileId ? { ...m, papel_id: papelId } : m)))
+    toast.success("Papel atribuído! Vale a partir do próximo login do usuário.")
+    return { success: true }
+  }
+
+  return {
+    papeis,
+    equipe,
+    loading: loading || schoolLoading,
+    salvarPapel,
+    excluirPapel,
+    atribuirPapel,
+    refetch: fetchPapeis
+  }
+}
@@ -0,0 +1,120 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { useSchool } from "@/contexts/SchoolContext"
+import { toISODate } from "@/utils/financeiroUtils"
+import type { AulaPortal, FilhoPortal, PresencaPortal } from "@/types/responsavel"
+import type { FinanceiroItem } from "@/types/financeiro"
+import type { MaterialTurma } from "@/types/aula"
+
+// Dados do portal do aluno, sempre a partir do cadastro ligado à conta (alunos.user_id).
+// As políticas de RLS garantem que o aluno só recebe os próprios registros.
+export function usePortalAluno() {
+  const [aluno, setAluno] = useState<FilhoPortal | null>(null)
+  const [aulas, setAulas] = useState<AulaPortal[]>([])
+  const [presencas, setPresencas] = useState<PresencaPortal[]>([])
+  const [cobrancas, setCobrancas] = useState<FinanceiroItem[]>([])
+  const [materiais, setMateriais] = useState<(MaterialTurma & { turma_nome: string })[]>([])
+  const [loading, setLoading] = useState(true)
+  const { user } = useAuth()
+  const { schoolId } = useSchool()
+
+  const fetchPortal = async () => {
+    if (!user) {
+      setLoading(false)
+      return
+    }
+    if (!schoolId) return
+
+    setLoading(true)
+    try {
+      const { data: cadastro, error: cadastroError } = await supabase
+        .from("alunos")
+        .select(`
+          id, nome, foto_url, instrumento,
+          matriculas(status, turma:turmas(id, nome, dia_semana, horario_inicio, horario_fim))
+        `)
+        .eq("user_id", user.id)
+        .eq("school_id", schoolId)
+        .maybeSingle()
+
+      if (cadastroError) throw cadastroError
+
+      if (!cadastro) {
+        setAluno(null)
+        return
+      }
+
+      const alunoData: FilhoPortal = {
+        id: cadastro.id,
+        nome: cadastro.nome,
+        foto_url: cadastro.foto_url,
+        instrumento: cadastro.instrumento,
+        turmas: (cadastro.matriculas || [])
+          .filter(m => m.status === "ativa" && m.turma)
+          .map(m => m.turma!)
+      }
+      setAluno(alunoData)
+
+      const turmaIds = alunoData.turmas.map(t => t.id)
+      const turmaNomes = new Map(alunoData.turmas.map(t => [t.id, t.nome] as const))
+
+      const [aulasRes, presencasRes, cobrancasRes, materiaisRes] = await Promise.all([
+        supabase
+          .from("aulas")
+          .select("id, turma_id, data_aula, horario_inicio, horario_fim, status")
+          .in("turma_id", turmaIds)
+          .gte("data_aula", toISODate())
+          .order("data_aula", { ascending: true })
+          .limit(20),
+        supabase
+          .from("presencas")
+          .select("aluno_id, status, chamada:chamadas(data_aula, turma_id)")
+          .eq("aluno_id", alunoData.id),
+        supabase
+          .from("financeiro")
+          .select("*")
+          .eq("tipo", "receita")
+          .eq("aluno_id", alunoData.id)
+          .in("status", ["pendente", "atrasado"])
+          .order("data_vencimento", { ascending: true }),
+        supabase
+          .from("materiais_turma")
+          .select("*")
+          .in("turma_id", turmaIds)
+          .order("created_at", { ascending: false })
+      ])
+
+      if (aulasRes.error) throw aulasRes.error
+      if (presencasRes.error) throw presencasRes.error
+      if (cobrancasRes.error) throw cobrancasRes.error
+      if (materiaisRes.error) throw materiaisRes.error
+
+      setAulas((aulasRes.data || []).filter((a): a is AulaPortal => !!a.turma_id))
+      setPresencas(
+        (presencasRes.data || [])
+          .filter(p => p.chamada)
+          .map(p => ({
+            aluno_id: p.aluno_id,
+            status: p.status as PresencaPortal["status"],
+            data_aula: p.chamada!.data_aula,
+            turma_id: p.chamada!.turma_id
+          }))
+      )
+      setCobrancas((cobrancasRes.data || []) as FinanceiroItem[])
+      setMateriais((materiaisRes.data || []).map(m => ({ ...m, turma_nome: turmaNomes.get(m.turma_id) ?? "" })))
+    } catch (error) {
+      console.error("Erro ao carregar portal do aluno:", error)
+      toast.error("Erro ao carregar seus dados")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPortal()
+  }, [user?.id, schoolId])
+
+  return { aluno, aulas, presencas, cobrancas, materiais, loading, refetch: fetchPortal }
+}
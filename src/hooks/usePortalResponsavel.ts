@@ -0,0 +1,158 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { useSchool } from "@/contexts/SchoolContext"
+import { toISODate } from "@/utils/financeiroUtils"
+import type { AulaPortal, FilhoPortal, PresencaPortal, ProfessorPortal } from "@/types/responsavel"
+import type { FinanceiroItem } from "@/types/financeiro"
+
+// Dados do portal do responsável. As políticas de RLS limitam cada consulta
+// aos alunos vinculados à conta e às turmas em que estão matriculados.
+export function usePortalResponsavel() {
+  const [filhos, setFilhos] = useState<FilhoPortal[]>([])
+  const [aulas, setAulas] = useState<AulaPortal[]>([])
+  const [presencas, setPresencas] = useState<PresencaPortal[]>([])
+  const [cobrancas, setCobrancas] = useState<FinanceiroItem[]>([])
+  const [professores, setProfessores] = useState<ProfessorPortal[]>([])
+  const [loading, setLoading] = useState(true)
+  const { user } = useAuth()
+  const { schoolId } = useSchool()
+
+  const fetchPortal = async () => {
+    if (!user) {
+      setLoading(false)
+      return
+    }
+    if (!schoolId) return
+
+    setLoading(true)
+    try {
+      const { data: vinculos, error: vinculosError } = await supabase
+        .from("aluno_responsaveis")
+        .select(`
+          aluno:alunos(
+            id, nome, foto_url, instrumento,
+            matriculas(status, turma:turmas(id, nome, dia_semana, horario_inicio, horario_fim))
+          )
+        `)
+        .eq("responsavel_id", user.id)
+        .eq("school_id", schoolId)
+
+      if (vinculosError) throw vinculosError
+
+      const filhosData: FilhoPortal[] = (vinculos || [])
+        .map(v => v.aluno)
+        .filter((aluno): aluno is NonNullable<typeof aluno> => !!aluno)
+        .map(aluno => ({
+          id: aluno.id,
+          nome: aluno.nome,
+          foto_url: aluno.foto_url,
+          instrumento: aluno.instrumento,
+          turmas: (aluno.matriculas || [])
+            .filter(m => m.status === "ativa" && m.turma)
+            .map(m => m.turma!)
+        }))
+
+      const alunoIds = filhosData.map(f => f.id)
+      const turmaIds = [...new Set(filhosData.flatMap(f => f.turmas.map(t => t.id)))]
+      setFilhos(filhosData)
+
+      if (alunoIds.length === 0) {
+        setAulas([])
+        setPresencas([])
+        setCobrancas([])
+        setProfessores([])
+        return
+      }
+
+      const [aulasRes, presencasRes, cobrancasRes, professoresRes] = await Promise.all([
+        supabase
+          .from("aulas")
+          .select("id, turma_id, data_aula, horario_inicio, horario_fim, status")
+          .in("turma_id", turmaIds)
+          .gte("data_aula", toISODate())
+          .order("data_aula", { ascending: true })
+          .limit(50),
+        supabase
+          .from("presencas")
+          .select("aluno_id, status, chamada:chamadas(data_aula, turma_id)")
+          .in("aluno_id", alunoIds),
+        supabase
+          .from("financeiro")
+          .select("*, aluno:alunos(nome)")
+          .eq("tipo", "receita")
+          .in("aluno_id", alunoIds)
+          .in("status", ["pendente", "atrasado"])
+          .order("data_vencimento", { ascending: true }),
+        supabase
+          .from("turma_professores")
+          .select("turma_id, professor:professores(id, nome, email, user_id)")
+          .in("turma_id", turmaIds)
+      ])
+
+      if (aulasRes.error) throw aulasRes.error
+      if (presencasRes.error) throw presencasRes.error
+      if (cobrancasRes.error) throw cobrancasRes.error
+      if (professoresRes.error) throw professoresRes.error
+
+      setAulas((aulasRes.data || []).filter((a): a is AulaPortal => !!a.turma_id))
+
+      setPresencas(
+        (presencasRes.data || [])
+          .filter(p => p.chamada)
+          .map(p => ({
+            aluno_id: p.aluno_id,
+            status: p.status as PresencaPortal["status"],
+            data_aula: p.chamada!.data_aula,
+            turma_id: p.chamada!.turma_id
+          }))
+      )
+
+      setCobrancas((cobrancasRes.data || []) as FinanceiroItem[])
+
+      // Um professor pode lecionar em mais de uma turma dos filhos
+      const turmaNomes = new Map(filhosData.flatMap(f => f.turmas.map(t => [t.id, t.nome] as const)))
+      const porProfessor = new Map<string, ProfessorPortal>()
+      for (const tp of professoresRes.data || []) {
+        if (!tp.professor) continue
+        const atual = porProfessor.get(tp.professor.id) ?? { ...tp.professor, turmas: [] }
+        const turmaNome = turmaNomes.get(tp.turma_id)
+        if (turmaNome && !atual.turmas.includes(turmaNome)) atual.turmas.push(turmaNome)
+        porProfessor.set(tp.professor.id, atual)
+      }
+      setProfessores([...porProfessor.values()].sort((a, b) => a.nome.localeCompare(b.nome)))
+    } catch (error) {
+      console.error("Erro ao carregar portal do responsável:", error)
+      toast.error("Erro ao carregar os dados dos seus filhos")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPortal()
+  }, [user?.id, schoolId])
+
+  // Abre (ou reaproveita) a conversa com o professor; retorna o id da conversa
+  const iniciarConversa = async (professor: ProfessorPortal) => {
+    if (!professor.user_id) {
+      toast.error("Este professor ainda não tem acesso ao sistema.")
+      return { success: false }
+    }
+
+    const { data, error } = await supabase.rpc("iniciar_conversa_responsavel", {
+      p_professor_profile_id: professor.user_id
+    })
+
+    if (error) {
+      console.error("Erro ao iniciar conversa:", error)
+      toast.error(`Erro ao iniciar conversa: ${error.message}`)
+      return { success: false }
+    }
+
+    return { success: true, conversationId: data as string }
+  }
+
+  return { filhos, aulas, presencas, cobrancas, professores, loading, iniciarConversa, refetch: fetchPortal }
+}
@@ -0,0 +1,124 @@
+import { useState, useEffect, useMemo } from "react"
+import type { PostgrestError } from "@supabase/supabase-js"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import {
+  getIntervaloPeriodo,
+  AlunoRelatorio,
+  montarRelatorio,
+  DadosRelatorio,
+  PeriodoRelatorio,
+  PresencaRelatorio,
+} from "@/utils/relatoriosUtils"
+
+const DADOS_VAZIOS: DadosRelatorio = { alunos: [], turmas: [], presencas: [], lancamentos: [] }
+
+// O PostgREST devolve no máximo max_rows (1000) linhas por consulta: busca
+// página a página, em ordem estável, até a última
+const TAMANHO_PAGINA = 1000
+
+async function buscarTodas<T>(
+  consulta: (de: number, ate: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> {
+  const linhas: T[] = []
+  for (let de = 0; ; de += TAMANHO_PAGINA) {
+    const { data, error } = await consulta(de, de + TAMANHO_PAGINA - 1)
+    if (error) throw error
+    linhas.push(...(data || []))
+    if (!data || data.length < TAMANHO_PAGINA) return linhas
+  }
+}
+
+// Carrega o período selecionado e o anterior de mesmo tamanho para calcular as variações
+export function useRelatorios(periodo: PeriodoRelatorio) {
+  const [dados, setDados] = useState<DadosRelatorio>(DADOS_VAZIOS)
+  const [loading, setLoading] = useState(true)
+  const { schoolId, loading: schoolLoading } = useSchool()
+
+  const intervalo = useMemo(() => getIntervaloPeriodo(periodo), [periodo])
+
+  const fetchDados = async () => {
+    if (!schoolId) return
+
+    try {
+      setLoading(true)
+
+      const [alunosData, turmasResult, chamadas, lancamentos] = await Promise.all([
+        buscarTodas((de, ate) =>
+          supabase
+            .from("alunos")
+            .select("id, instrumento, ativo, data_matricula, data_saida, created_at, updated_at, matriculas(turma_id, status)")
+            .eq("school_id", schoolId)
+            .order("id")
+            .range(de, ate)
+        ),
+        supabase.from("turmas").select("id, nome, instrumento").eq("school_id", schoolId).order("nome"),
+        buscarTodas((de, ate) =>
+          supabase
+            .from("chamadas")
+            .select("data_aula, turma_id, presencas(status)")
+            .eq("school_id", schoolId)
+            .gte("data_aula", intervalo.inicioAnterior)
+            .lte("data_aula", intervalo.fim)
+            .order("id")
+            .range(de, ate)
+        ),
+        buscarTodas((de, ate) =>
+          supabase
+            .from("financeiro")
+            .select("tipo, valor, status, data_pagamento")
+            .eq("school_id", schoolId)
+            .eq("status", "pago")
+            .gte("data_pagamento", intervalo.inicio)
+            .lte("data_pagamento", intervalo.fim)
+            .order("id")
+            .range(de, ate)
+        ),
+      ])
+
+      if (turmasResult.error) throw turmasResult.error
+
+      const presencas: PresencaRelatorio[] = chamadas.flatMap((chamada) =>
+        chamada.presencas.map((presenca) => ({
+          status: presenca.status,
+          data_aula: chamada.data_aula,
+          turma_id: chamada.turma_id,
+        }))
+      )
+
+      // Instrumento sem cadastro no aluno cai no da turma da primeira matrícula ativa
+      const alunos: AlunoRelatorio[] = alunosData.map(({ matriculas, ...aluno }) => ({
+        ...aluno,
+        turma_id: matriculas.find((matricula) => matricula.status === "ativa")?.turma_id ?? matriculas[0]?.turma_id ?? null,
+      }))
+
+      setDados({
+        alunos,
+        turmas: turmasResult.data || [],
+        presencas,
+        lancamentos,
+      })
+    } catch (error) {
+      console.error("Erro ao carregar relatórios:", error)
+      toast.error(`Erro ao carregar relatórios: ${error.message}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!schoolLoading && schoolId) {
+      fetchDados()
+    }
+  }, [schoolId, schoolLoading, intervalo])
+
+  const relatorio = useMemo(() => montarRelatorio(dados, intervalo), [dados, intervalo])
+
+  return {
+    relatorio,
+    intervalo,
+    loading: loading || schoolLoading,
+    refetch: fetchDados,
+  }
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useSchool } from "@/contexts/SchoolContext"
+import type { AlunoResponsavel } from "@/types/responsavel"
+
+export interface ContaResponsavel {
+  id: string
+  nome_completo: string | null
+  telefone: string | null
+}
+
+export function useResponsaveisAluno(alunoId?: string) {
+  const [responsaveis, setResponsaveis] = useState<AlunoResponsavel[]>([])
+  const [contas, setContas] = useState<ContaResponsavel[]>([])
+  const [loading, setLoading] = useState(false)
+  const { schoolId } = useSchool()
+
+  const fetchResponsaveis = async () => {
+    if (!alunoId) {
+      setResponsaveis([])
+      return
+    }
+
+    setLoading(true)
+    const [vinculosRes, contasRes] = await Promise.all([
+      supabase
+        .from("aluno_responsaveis")
+        .select("*, responsavel:profiles(nome_completo, telefone)")
+        .eq("aluno_id", alunoId)
+        .order("created_at", { ascending: true }),
+      // Contas de responsável da escola, para vincular irmãos à mesma conta
+      supabase
+        .from("profiles")
+        .select("id, nome_completo, telefone")
+        .eq("tipo_usuario", "responsavel")
+        .order("nome_completo", { ascending: true })
+    ])
+
+    if (vinculosRes.error || contasRes.error) {
+      console.error("Erro ao carregar responsáveis:", vinculosRes.error || contasRes.error)
+      toast.error("Erro ao carregar responsáveis do aluno")
+      setLoading(false)
+      return
+    }
+
+    setResponsaveis((vinculosRes.data || []) as AlunoResponsavel[])
+    setContas(contasRes.data || [])
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchResponsaveis()
+  }, [alunoId])
+
+  const vincularResponsavel = async (responsavelId: string, parentesco: string | null) => {
+    if (!schoolId || !alunoId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    const { error } = await supabase
+      .from("aluno_responsaveis")
+      .insert({ school_id: schoolId, aluno_id: alunoId, responsavel_id: responsavelId, parentesco })
+
+    if (error) {
+      console.error("Erro ao vincular responsável:", error)
+      toast.error(error.code === "23505" ? "Este responsável já está vinculado ao aluno." : `Erro ao vincular responsável: ${error.message}`)
+      return { success: false }
+    }
+
+    toast.success("Responsável vinculado com sucesso!")
+    await fetchResponsaveis()
+    return { success: true }
+  }
+
+  // Cria a conta do responsável por convite; a edge function já faz o vínculo
+  const convidarResponsavel = async (dados: { email: string; nome: string; parentesco: string | null }) => {
+    if (!schoolId || !alunoId) {
+      toast.error("Escola não identificada. Tente fazer login novamente.")
+      return { success: false }
+    }
+
+    const { data, error } = await supabase.functions.invoke("invite-user", {
+      body: {
+        email: dados.email.trim(),
+        nome_completo: dados.nome.trim(),
+        tipo_usuario: "responsavel",
+        school_id: schoolId,
+        aluno_id: alunoId,
+        parentesco: dados.parentesco
+      }
+    })
+
+    if (error || data?.error) {
+      console.error("Erro ao convidar responsável:", error || data?.error)
+      toast.error(`Erro ao enviar convite: ${data?.error || error?.message}`)
+      return { success: false }
+    }
+
+    toast.success("Convite enviado! O responsável aparece aqui quando aceitar o convite e criar a senha.")
+    await fetchResponsaveis()
+    return { success: true }
+  }
+
+  const desvincularResponsavel = async (vinculoId: string) => {
+    const { error } = await supabase
+      .from("aluno_responsaveis")
+      .delete()
+      .eq("id", vinculoId)
+
+    if (error) {
+      console.error("Erro ao desvincular responsável:", error)
+      toast.error("Erro ao desvincular responsável")
+      return { success: false }
+    }
+
+    setResponsaveis(prev => prev.filter(r => r.id !== vinculoId))
+    toast.success("Responsável desvinculado")
+    return { success: true }
+  }
+
+  const alterarAlertasFalta = async (vinculoId: string, receber: boolean) => {
+    const { error } = await supabase
+      .from("aluno_responsaveis")
+      .update({ receber_alertas_falta: receber })
+      .eq("id", vinculoId)
+
+    if (error) {
+      console.error("Erro ao atualizar alertas de falta:", error)
+      toast.error("Erro ao atualizar alertas de falta")
+      return { success: false }
+    }
+
+    setResponsaveis(prev => prev.map(r => (r.id === vinculoId ? { ...r, receber_alertas_falta: receber } : r)))
+    toast.success(receber ? "O responsável voltará a receber alertas de falta" : "O responsável não receberá mais alertas de falta")
+    return { success: true }
+  }
+
+  return {
+    responsaveis,
+    contas,
+    loading,
+    vincularResponsavel,
+    convidarResponsavel,
+    desvincularResponsavel,
+    alterarAlertasFalta,
+    refetch: fetchResponsaveis
+  }
+}
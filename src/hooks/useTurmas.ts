@@ -51,7 +51,8 @@ export function useTurmas() {
       }
       
       console.log('🎯 Turmas carregadas para a escola:', schoolId, data)
-      setTurmas(data || [])
+      // vagas_ocupadas é mantido pelo banco a partir das matrículas ativas
+      setTurmas((data || []).map((turma) => ({ ...turma, alunos: turma.vagas_ocupadas })))
     } catch (error) {
       console.error('❌ Erro no fetchTurmas:', error)
       toast.error(`Erro ao carregar turmas: ${error.message}`)
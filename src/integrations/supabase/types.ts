@@ -9,11 +9,194 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      alertas_falta: {
+        Row: {
+          aluno_id: string
+          chamada_id: string | null
+          created_at: string | null
+          created_by: string | null
+          destinatarios: string[]
+          detalhes: Json | null
+          id: string
+          referencia: string
+          regra: string
+          school_id: string
+        }
+        Insert: {
+          aluno_id: string
+          chamada_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          destinatarios?: string[]
+          detalhes?: Json | null
+          id?: string
+          referencia: string
+          regra: string
+          school_id: string
+        }
+        Update: {
+          aluno_id?: string
+          chamada_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          destinatarios?: string[]
+          detalhes?: Json | null
+          id?: string
+          referencia?: string
+          regra?: string
+          school_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alertas_falta_aluno_id_fkey"
+            columns: ["aluno_id"]
+            isOneToOne: false
+            referencedRelation: "alunos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alertas_falta_chamada_id_fkey"
+            columns: ["chamada_id"]
+            isOneToOne: false
+            referencedRelation: "chamadas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alertas_falta_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alertas_falta_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      aluno_descontos: {
+        Row: {
+          aluno_id: string
+          created_at: string | null
+          descricao: string | null
+          id: string
+          percentual: number | null
+          school_id: string
+          tipo: string
+          updated_at: string | null
+          valor_fixo: number | null
+          vigencia_fim: string | null
+          vigencia_inicio: string
+        }
+        Insert: {
+          aluno_id: string
+          created_at?: string | null
+          descricao?: string | null
+          id?: string
+          percentual?: number | null
+          school_id: string
+          tipo: string
+          updated_at?: string | null
+          valor_fixo?: number | null
+          vigencia_fim?: string | null
+          vigencia_inicio?: string
+        }
+        Update: {
+          aluno_id?: string
+          created_at?: string | null
+          descricao?: string | null
+          id?: string
+          percentual?: number | null
+          school_id?: string
+          tipo?: string
+          updated_at?: string | null
+          valor_fixo?: number | null
+          vigencia_fim?: string | null
+          vigencia_inicio?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "aluno_descontos_aluno_id_fkey"
+            columns: ["aluno_id"]
+            isOneToOne: false
+            referencedRelation: "alunos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "aluno_descontos_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      aluno_responsaveis: {
+        Row: {
+          aluno_id: string
+          created_at: string | null
+          id: string
+          parentesco: string | null
+          receber_alertas_falta: boolean
+          responsavel_id: string
+          school_id: string
+        }
+        Insert: {
+          aluno_id: string
+          created_at?: string | null
+          id?: string
+          parentesco?: string | null
+          receber_alertas_falta?: boolean
+          responsavel_id: string
+          school_id: string
+        }
+        Update: {
+          aluno_id?: string
+          created_at?: string | null
+          id?: string
+          parentesco?: string | null
+          receber_alertas_falta?: boolean
+          responsavel_id?: string
+          school_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "aluno_responsaveis_aluno_id_fkey"
+            columns: ["aluno_id"]
+            isOneToOne: false
+            referencedRelation: "alunos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "aluno_responsaveis_responsavel_id_fkey"
+            columns: ["responsavel_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "aluno_responsaveis_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       alunos: {
         Row: {
           ativo: boolean | null
+          bairro: string | null
+          cep: string | null
+          cidade: string | null
+          cpf_pagador: string | null
           created_at: string | null
+          data_matricula: string | null
           data_nascimento: string | null
+          data_saida: string | null
           email: string | null
           endereco: string | null
           foto_url: string | null
@@ -24,13 +207,20 @@ export type Database = {
           school_id: string
           telefone: string | null
           telefone_responsavel: string | null
-          turma_id: string | null
+          uf: string | null
           updated_at: string | null
+          user_id: string | null
         }
         Insert: {
           ativo?: boolean | null
+          bairro?: string | null
+          cep?: string | null
+          cidade?: string | null
+          cpf_pagador?: string | null
           created_at?: string | null
+          data_matricula?: string | null
           data_nascimento?: string | null
+          data_saida?: string | null
           email?: string | null
           endereco?: string | null
           foto_url?: string | null
@@ -41,13 +231,20 @@ export type Database = {
           school_id: string
           telefone?: string | null
           telefone_responsavel?: string | null
-          turma_id?: string | null
+          uf?: string | null
           updated_at?: string | null
+          user_id?: string | null
         }
         Update: {
           ativo?: boolean | null
+          bairro?: string | null
+          cep?: string | null
+          cidade?: string | null
+          cpf_pagador?: string | null
           created_at?: string | null
+          data_matricula?: string | null
           data_nascimento?: string | null
+          data_saida?: string | null
           email?: string | null
           endereco?: string | null
           foto_url?: string | null
@@ -58,8 +255,9 @@ export type Database = {
           school_id?: string
           telefone?: string | null
           telefone_responsavel?: string | null
-          turma_id?: string | null
+          uf?: string | null
           updated_at?: string | null
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -70,16 +268,17 @@ export type Database = {
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "alunos_turma_id_fkey"
-            columns: ["turma_id"]
-            isOneToOne: false
-            referencedRelation: "turmas"
+            foreignKeyName: "alunos_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
       aulas: {
         Row: {
+          conteudo: string | null
           created_at: string | null
           data_aula: string
           horario_fim: string
@@ -87,12 +286,14 @@ export type Database = {
           id: string
           observacoes: string | null
           professor_id: string | null
+          recorrente: boolean
           school_id: string
           status: string | null
           turma_id: string | null
           updated_at: string | null
         }
         Insert: {
+          conteudo?: string | null
           created_at?: string | null
           data_aula: string
           horario_fim: string
@@ -100,12 +301,14 @@ export type Database = {
           id?: string
           observacoes?: string | null
           professor_id?: string | null
+          recorrente?: boolean
           school_id: string
           status?: string | null
           turma_id?: string | null
           updated_at?: string | null
         }
         Update: {
+          conteudo?: string | null
           created_at?: string | null
           data_aula?: string
           horario_fim?: string
@@ -113,6 +316,7 @@ export type Database = {
           id?: string
           observacoes?: string | null
           professor_id?: string | null
+          recorrente?: boolean
           school_id?: string
           status?: string | null
           turma_id?: string | null
@@ -142,8 +346,69 @@ export type Database = {
           },
         ]
       }
+      calendario_eventos: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          data_fim: string
+          data_inicio: string
+          descricao: string | null
+          id: string
+          nacional: boolean
+          school_id: string
+          sem_aula: boolean
+          tipo: string
+          titulo: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          data_fim: string
+          data_inicio: string
+          descricao?: string | null
+          id?: string
+          nacional?: boolean
+          school_id: string
+          sem_aula?: boolean
+          tipo: string
+          titulo: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          data_fim?: string
+          data_inicio?: string
+          descricao?: string | null
+          id?: string
+          nacional?: boolean
+          school_id?: string
+          sem_aula?: boolean
+          tipo?: string
+          titulo?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendario_eventos_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendario_eventos_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chamadas: {
         Row: {
+          aula_id: string | null
           created_at: string | null
           data_aula: string
           id: string
@@ -151,8 +416,10 @@ export type Database = {
           professor_id: string
           school_id: string
           turma_id: string
+          updated_at: string | null
         }
         Insert: {
+          aula_id?: string | null
           created_at?: string | null
           data_aula: string
           id?: string
@@ -160,8 +427,10 @@ export type Database = {
           professor_id: string
           school_id: string
           turma_id: string
+          updated_at?: string | null
         }
         Update: {
+          aula_id?: string | null
           created_at?: string | null
           data_aula?: string
           id?: string
@@ -169,8 +438,16 @@ export type Database = {
           professor_id?: string
           school_id?: string
           turma_id?: string
+          updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "chamadas_aula_id_fkey"
+            columns: ["aula_id"]
+            isOneToOne: true
+            referencedRelation: "aulas"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "chamadas_professor_id_fkey"
             columns: ["professor_id"]
@@ -194,6 +471,97 @@ export type Database = {
           },
         ]
       }
+      configuracoes_alerta_falta: {
+        Row: {
+          alertar_cada_falta: boolean
+          ativo: boolean
+          aulas_minimas_mes: number
+          canal_email: boolean
+          created_at: string | null
+          faltas_consecutivas: number
+          frequencia_minima: number
+          notificar_coordenacao: boolean
+          school_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          alertar_cada_falta?: boolean
+          ativo?: boolean
+          aulas_minimas_mes?: number
+          canal_email?: boolean
+          created_at?: string | null
+          faltas_consecutivas?: number
+          frequencia_minima?: number
+          notificar_coordenacao?: boolean
+          school_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          alertar_cada_falta?: boolean
+          ativo?: boolean
+          aulas_minimas_mes?: number
+          canal_email?: boolean
+          created_at?: string | null
+          faltas_consecutivas?: number
+          frequencia_minima?: number
+          notificar_coordenacao?: boolean
+          school_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "configuracoes_alerta_falta_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      configuracoes_financeiras: {
+        Row: {
+          created_at: string | null
+          dia_vencimento: number
+          juros_mensal_percentual: number
+          lembrete_dias_antes: number
+          lembrete_dias_depois: number
+          lembrete_no_vencimento: boolean
+          multa_percentual: number
+          school_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          dia_vencimento?: number
+          juros_mensal_percentual?: number
+          lembrete_dias_antes?: number
+          lembrete_dias_depois?: number
+          lembrete_no_vencimento?: boolean
+          multa_percentual?: number
+          school_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          dia_vencimento?: number
+          juros_mensal_percentual?: number
+          lembrete_dias_antes?: number
+          lembrete_dias_depois?: number
+          lembrete_no_vencimento?: boolean
+          multa_percentual?: number
+          school_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "configuracoes_financeiras_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: true
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversation_participants: {
         Row: {
           conversation_id: string | null
@@ -256,45 +624,1140 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "conversations_group_chat_class_id_fkey"
-            columns: ["group_chat_class_id"]
+            foreignKeyName: "conversations_group_chat_class_id_fkey"
+            columns: ["group_chat_class_id"]
+            isOneToOne: false
+            referencedRelation: "turmas"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      convites: {
+        Row: {
+          aceito_em: string | null
+          aluno_id: string | null
+          convidado_por: string | null
+          created_at: string | null
+          email: string
+          enviado_em: string
+          envios: number
+          expira_em: string
+          id: string
+          nome_completo: string
+          papel_id: string | null
+          parentesco: string | null
+          professor_id: string | null
+          school_id: string
+          status: string
+          tipo_usuario: string
+          token: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          aceito_em?: string | null
+          aluno_id?: string | null
+          convidado_por?: string | null
+          created_at?: string | null
+          email: string
+          enviado_em?: string
+          envios?: number
+          expira_em?: string
+          id?: string
+          nome_completo: string
+          papel_id?: string | null
+          parentesco?: string | null
+          professor_id?: string | null
+          school_id: string
+          status?: string
+          tipo_usuario: string
+          token?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          aceito_em?: string | null
+          aluno_id?: string | null
+          convidado_por?: string | null
+          created_at?: string | null
+          email?: string
+          enviado_em?: string
+          envios?: number
+          expira_em?: string
+          id?: string
+          nome_completo?: string
+          papel_id?: string | null
+          parentesco?: string | null
+          professor_id?: string | null
+          school_id?: string
+          status?: string
+          tipo_usuario?: string
+          token?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "convites_aluno_id_fkey"
+            columns: ["aluno_id"]
+            isOneToOne: false
+            referencedRelation: "alunos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "convites_convidado_por_fkey"
+            columns: ["convidado_por"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "convites_papel_id_fkey"
+            columns: ["papel_id"]
+            isOneToOne: false
+            referencedRelation: "papeis"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "convites_professor_id_fkey"
+            columns: ["professor_id"]
+            isOneToOne: false
+            referencedRelation: "professores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "convites_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cursos: {
+        Row: {
+          ativo: boolean | null
+          created_at: string | null
+          descricao: string | null
+          id: string
+          nome: string
+          school_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          ativo?: boolean | null
+          created_at?: string | null
+          descricao?: string | null
+          id?: string
+          nome: string
+          school_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          ativo?: boolean | null
+          created_at?: string | null
+          descricao?: string | null
+          id?: string
+          nome?: string
+          school_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cursos_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_outbox: {
+        Row: {
+          assunto: string
+          created_at: string | null
+          created_by: string | null
+          destinatario: string
+          devolvido_em: string | null
+          enviado_em: string | null
+          html: string | null
+          id: string
+          link: string | null
+          max_tentativas: number
+          mensagem: string | null
+          message_id: string | null
+          motivo_devolucao: string | null
+          origem: string
+          prioridade: string
+          proxima_tentativa: string
+          referencia_id: string | null
+          school_id: string
+          status: string
+          tentativas: number
+          texto: string | null
+          transporte: string | null
+          ultimo_erro: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          assunto: string
+          created_at?: string | null
+          created_by?: string | null
+          destinatario: string
+          devolvido_em?: string | null
+          enviado_em?: string | null
+          html?: string | null
+          id?: string
+          link?: string | null
+          max_tentativas?: number
+          mensagem?: string | null
+          message_id?: string | null
+          motivo_devolucao?: string | null
+          origem?: string
+          prioridade?: string
+          proxima_tentativa?: string
+          referencia_id?: string | null
+          school_id?: string
+          status?: string
+          tentativas?: number
+          texto?: string | null
+          transporte?: string | null
+          ultimo_erro?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          assunto?: string
+          created_at?: string | null
+          created_by?: string | null
+          destinatario?: string
+          devolvido_em?: string | null
+          enviado_em?: string | null
+          html?: string | null
+          id?: string
+          link?: string | null
+          max_tentativas?: number
+          mensagem?: string | null
+          message_id?: string | null
+          motivo_devolucao?: string | null
+          origem?: string
+          prioridade?: string
+          proxima_tentativa?: string
+          referencia_id?: string | null
+          school_id?: string
+          status?: string
+          tentativas?: number
+          texto?: string | null
+          transporte?: string | null
+          ultimo_erro?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_outbox_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_outbox_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      financeiro: {
+        Row: {
+          aluno_id: string | null
+          boleto_identificador: string | null
+          categoria: string
+          competencia: string | null
+          created_at: string | null
+          data_pagamento: string | null
+          data_vencimento: string
+          descricao: string
+          id: string
+          metodo_pagamento: string | null
+          observacoes: string | null
+          pix_txid: string | null
+          professor_id: string | null
+          school_id: string
+          status: string | null
+          tipo: string
+          turma_id: string | null
+          updated_at: string | null
+          valor: number
+          valor_juros: number
+          valor_multa: number
+        }
+        Insert: {
+          aluno_id?: string | null
+          boleto_identificador?: string | null
+          categoria: string
+          competencia?: string | null
+          created_at?: string | null
+          data_pagamento?: string | null
+          data_vencimento: string
+          descricao: string
+          id?: string
+          metodo_pagamento?: string | null
+          observacoes?: string | null
+          pix_txid?: string | null
+          professor_id?: string | null
+          school_id: string
+          status?: string | null
+          tipo: string
+          turma_id?: string | null
+          updated_at?: string | null
+          valor: number
+          valor_juros?: number
+          valor_multa?: number
+        }
+        Update: {
+          aluno_id?: string | null
+          boleto_identificador?: string | null
+          categoria?: string
+          competencia?: string | null
+          created_at?: string | null
+          data_pagamento?: string | null
+          data_vencimento?: string
+          descricao?: string
+          id?: string
+          metodo_pagamento?: string | null
+          observacoes?: string | null
+          pix_txid?: string | null
+          professor_id?: string | null
+          school_id?: string
+          status?: string | null
+          tipo?: string
+          turma_id?: string | null
+          updated_at?: string | null
+          valor?: number
+          valor_juros?: number
+          valor_multa?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "financeiro_aluno_id_fkey"
+            columns: ["aluno_id"]
+            isOneToOne: false
+            referencedRelation: "alunos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "financeiro_professor_id_fkey"
+            columns: ["professor_id"]
+            isOneToOne: false
+            referencedRelation: "professores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "financeiro_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "financeiro_turma_id_fkey"
+            columns: ["turma_id"]
+            isOneToOne: false
+            referencedRelation: "turmas"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      folha_pagamento_itens: {
+        Row: {
+          ajuste: number
+          ajuste_descricao: string | null
+          aulas_realizadas: number
+          created_at: string | null
+          financeiro_id: string | null
+          folha_id: string
+          horas: number
+          id: string
+          professor_id: string
+          professor_nome: string
+          school_id: string
+          valor_aulas: number
+          valor_hora: number
+          valor_total: number
+        }
+        Insert: {
+          ajuste?: number
+          ajuste_descricao?: string | null
+          aulas_realizadas?: number
+          created_at?: string | null
+          financeiro_id?: string | null
+          folha_id: string
+          horas?: number
+          id?: string
+          professor_id: string
+          professor_nome: string
+          school_id: string
+          valor_aulas?: number
+          valor_hora?: number
+          valor_total?: number
+        }
+        Update: {
+          ajuste?: number
+          ajuste_descricao?: string | null
+          aulas_realizadas?: number
+          created_at?: string | null
+          financeiro_id?: string | null
+          folha_id?: string
+          horas?: number
+          id?: string
+          professor_id?: string
+          professor_nome?: string
+          school_id?: string
+          valor_aulas?: number
+          valor_hora?: number
+          valor_total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "folha_pagamento_itens_financeiro_id_fkey"
+            columns: ["financeiro_id"]
+            isOneToOne: false
+            referencedRelation: "financeiro"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "folha_pagamento_itens_folha_id_fkey"
+            columns: ["folha_id"]
+            isOneToOne: false
+            referencedRelation: "folhas_pagamento"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "folha_pagamento_itens_professor_id_fkey"
+            columns: ["professor_id"]
+            isOneToOne: false
+            referencedRelation: "professores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "folha_pagamento_itens_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      folhas_pagamento: {
+        Row: {
+          aprovada_em: string | null
+          aprovada_por: string | null
+          competencia: string
+          created_at: string | null
+          data_vencimento: string
+          id: string
+          school_id: string
+          updated_at: string | null
+          valor_total: number
+        }
+        Insert: {
+          aprovada_em?: string | null
+          aprovada_por?: string | null
+          competencia: string
+          created_at?: string | null
+          data_vencimento: string
+          id?: string
+          school_id: string
+          updated_at?: string | null
+          valor_total?: number
+        }
+        Update: {
+          aprovada_em?: string | null
+          aprovada_por?: string | null
+          competencia?: string
+          created_at?: string | null
+          data_vencimento?: string
+          id?: string
+          school_id?: string
+          updated_at?: string | null
+          valor_total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "folhas_pagamento_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      integration_sync_logs: {
+        Row: {
+          arquivo_nome: string | null
+          completed_at: string | null
+          created_at: string | null
+          duration: number
+          errors: Json
+          id: string
+          integration_id: string
+          operacao: string
+          records_created: number
+          records_deleted: number
+          records_processed: number
+          records_skipped: number
+          records_updated: number
+          started_at: string | null
+          success: boolean
+          warnings: Json
+        }
+        Insert: {
+          arquivo_nome?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          duration?: number
+          errors?: Json
+          id?: string
+          integration_id: string
+          operacao?: string
+          records_created?: number
+          records_deleted?: number
+          records_processed?: number
+          records_skipped?: number
+          records_updated?: number
+          started_at?: string | null
+          success?: boolean
+          warnings?: Json
+        }
+        Update: {
+          arquivo_nome?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          duration?: number
+          errors?: Json
+          id?: string
+          integration_id?: string
+          operacao?: string
+          records_created?: number
+          records_deleted?: number
+          records_processed?: number
+          records_skipped?: number
+          records_updated?: number
+          started_at?: string | null
+          success?: boolean
+          warnings?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "integration_sync_logs_integration_id_fkey"
+            columns: ["integration_id"]
+            isOneToOne: false
+            referencedRelation: "integrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      integration_webhook_logs: {
+        Row: {
+          created_at: string | null
+          error: string | null
+          id: string
+          integration_id: string
+          payload: Json | null
+          processed_at: string | null
+          success: boolean
+        }
+        Insert: {
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          integration_id: string
+          payload?: Json | null
+          processed_at?: string | null
+          success?: boolean
+        }
+        Update: {
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          integration_id?: string
+          payload?: Json | null
+          processed_at?: string | null
+          success?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "integration_webhook_logs_integration_id_fkey"
+            columns: ["integration_id"]
+            isOneToOne: false
+            referencedRelation: "integrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      integrations: {
+        Row: {
+          config: Json
+          created_at: string | null
+          created_by: string | null
+          credentials: Json
+          description: string | null
+          id: string
+          is_active: boolean
+          last_error: string | null
+          last_sync: string | null
+          name: string
+          provider: string
+          remessa_sequencial: number
+          school_id: string
+          sync_status: string
+          type: string
+          updated_at: string | null
+          webhook_url: string | null
+        }
+        Insert: {
+          config?: Json
+          created_at?: string | null
+          created_by?: string | null
+          credentials?: Json
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_sync?: string | null
+          name: string
+          provider: string
+          remessa_sequencial?: number
+          school_id: string
+          sync_status?: string
+          type: string
+          updated_at?: string | null
+          webhook_url?: string | null
+        }
+        Update: {
+          config?: Json
+          created_at?: string | null
+          created_by?: string | null
+          credentials?: Json
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_sync?: string | null
+          name?: string
+          provider?: string
+          remessa_sequencial?: number
+          school_id?: string
+          sync_status?: string
+          type?: string
+          updated_at?: string | null
+          webhook_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "integrations_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lembretes_pagamento: {
+        Row: {
+          destinatarios: Json
+          enviado_em: string
+          etapa: string
+          financeiro_id: string
+          id: string
+          school_id: string
+          valor: number
+        }
+        Insert: {
+          destinatarios?: Json
+          enviado_em?: string
+          etapa: string
+          financeiro_id: string
+          id?: string
+          school_id: string
+          valor: number
+        }
+        Update: {
+          destinatarios?: Json
+          enviado_em?: string
+          etapa?: string
+          financeiro_id?: string
+          id?: string
+          school_id?: string
+          valor?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lembretes_pagamento_financeiro_id_fkey"
+            columns: ["financeiro_id"]
+            isOneToOne: false
+            referencedRelation: "financeiro"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lembretes_pagamento_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lista_espera: {
+        Row: {
+          aluno_id: string | null
+          created_at: string | null
+          email: string | null
+          id: string
+          nome: string
+          observacoes: string | null
+          oferta_em: string | null
+          oferta_expira_em: string | null
+          school_id: string
+          status: string
+          telefone: string | null
+          turma_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          aluno_id?: string | null
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          nome: string
+          observacoes?: string | null
+          oferta_em?: string | null
+          oferta_expira_em?: string | null
+          school_id: string
+          status?: string
+          telefone?: string | null
+          turma_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          aluno_id?: string | null
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          nome?: string
+          observacoes?: string | null
+          oferta_em?: string | null
+          oferta_expira_em?: string | null
+          school_id?: string
+          status?: string
+          telefone?: string | null
+          turma_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lista_espera_aluno_id_fkey"
+            columns: ["aluno_id"]
+            isOneToOne: false
+            referencedRelation: "alunos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lista_espera_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lista_espera_turma_id_fkey"
+            columns: ["turma_id"]
+            isOneToOne: false
+            referencedRelation: "turmas"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      materiais_turma: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          descricao: string | null
+          id: string
+          school_id: string
+          titulo: string
+          turma_id: string
+          url: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          descricao?: string | null
+          id?: string
+          school_id: string
+          titulo: string
+          turma_id: string
+          url: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          descricao?: string | null
+          id?: string
+          school_id?: string
+          titulo?: string
+          turma_id?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "materiais_turma_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "materiais_turma_turma_id_fkey"
+            columns: ["turma_id"]
+            isOneToOne: false
+            referencedRelation: "turmas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "materiais_turma_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      matriculas: {
+        Row: {
+          aluno_id: string
+          created_at: string | null
+          data_fim: string | null
+          data_inicio: string
+          id: string
+          observacoes: string | null
+          school_id: string
+          status: string
+          turma_id: string
+          updated_at: string | null
+          valor_mensal: number | null
+        }
+        Insert: {
+          aluno_id: string
+          created_at?: string | null
+          data_fim?: string | null
+          data_inicio?: string
+          id?: string
+          observacoes?: string | null
+          school_id: string
+          status?: string
+          turma_id: string
+          updated_at?: string | null
+          valor_mensal?: number | null
+        }
+        Update: {
+          aluno_id?: string
+          created_at?: string | null
+          data_fim?: string | null
+          data_inicio?: string
+          id?: string
+          observacoes?: string | null
+          school_id?: string
+          status?: string
+          turma_id?: string
+          updated_at?: string | null
+          valor_mensal?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "matriculas_aluno_id_fkey"
+            columns: ["aluno_id"]
+            isOneToOne: false
+            referencedRelation: "alunos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matriculas_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matriculas_turma_id_fkey"
+            columns: ["turma_id"]
+            isOneToOne: false
+            referencedRelation: "turmas"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      membros_escola: {
+        Row: {
+          ativo: boolean
+          created_at: string | null
+          id: string
+          papel_id: string | null
+          school_id: string
+          tipo_usuario: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          ativo?: boolean
+          created_at?: string | null
+          id?: string
+          papel_id?: string | null
+          school_id: string
+          tipo_usuario: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          ativo?: boolean
+          created_at?: string | null
+          id?: string
+          papel_id?: string | null
+          school_id?: string
+          tipo_usuario?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "membros_escola_papel_id_fkey"
+            columns: ["papel_id"]
+            isOneToOne: false
+            referencedRelation: "papeis"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "membros_escola_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "membros_escola_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          attachment_file_name: string | null
+          attachment_file_url: string | null
+          attachment_type: string | null
+          conversation_id: string | null
+          created_at: string | null
+          id: string
+          poll_id: string | null
+          sender_profile_id: string
+          text_content: string | null
+        }
+        Insert: {
+          attachment_file_name?: string | null
+          attachment_file_url?: string | null
+          attachment_type?: string | null
+          conversation_id?: string | null
+          created_at?: string | null
+          id?: string
+          poll_id?: string | null
+          sender_profile_id: string
+          text_content?: string | null
+        }
+        Update: {
+          attachment_file_name?: string | null
+          attachment_file_url?: string | null
+          attachment_type?: string | null
+          conversation_id?: string | null
+          created_at?: string | null
+          id?: string
+          poll_id?: string | null
+          sender_profile_id?: string
+          text_content?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string | null
+          email: boolean
+          frequency: string
+          in_app: boolean
+          push: boolean
+          quiet_hours: Json
+          sms: boolean
+          types: Json
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          email?: boolean
+          frequency?: string
+          in_app?: boolean
+          push?: boolean
+          quiet_hours?: Json
+          sms?: boolean
+          types?: Json
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: boolean
+          frequency?: string
+          in_app?: boolean
+          push?: boolean
+          quiet_hours?: Json
+          sms?: boolean
+          types?: Json
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          actions: Json | null
+          created_at: string | null
+          created_by: string | null
+          data: Json | null
+          expires_at: string | null
+          id: string
+          message: string
+          priority: string
+          read: boolean
+          school_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actions?: Json | null
+          created_at?: string | null
+          created_by?: string | null
+          data?: Json | null
+          expires_at?: string | null
+          id?: string
+          message: string
+          priority?: string
+          read?: boolean
+          school_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          actions?: Json | null
+          created_at?: string | null
+          created_by?: string | null
+          data?: Json | null
+          expires_at?: string | null
+          id?: string
+          message?: string
+          priority?: string
+          read?: boolean
+          school_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
             isOneToOne: false
-            referencedRelation: "turmas"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      cursos: {
+      papeis: {
         Row: {
-          ativo: boolean | null
+          capacidades: string[]
+          codigo: string
           created_at: string | null
           descricao: string | null
           id: string
           nome: string
-          school_id: string
+          school_id: string | null
           updated_at: string | null
         }
         Insert: {
-          ativo?: boolean | null
+          capacidades?: string[]
+          codigo: string
           created_at?: string | null
           descricao?: string | null
           id?: string
           nome: string
-          school_id: string
+          school_id?: string | null
           updated_at?: string | null
         }
         Update: {
-          ativo?: boolean | null
+          capacidades?: string[]
+          codigo?: string
           created_at?: string | null
           descricao?: string | null
           id?: string
           nome?: string
-          school_id?: string
+          school_id?: string | null
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "cursos_school_id_fkey"
+            foreignKeyName: "papeis_school_id_fkey"
             columns: ["school_id"]
             isOneToOne: false
             referencedRelation: "schools"
@@ -302,126 +1765,35 @@ export type Database = {
           },
         ]
       }
-      financeiro: {
+      pix_webhook_tokens: {
         Row: {
-          aluno_id: string | null
-          categoria: string
           created_at: string | null
-          data_pagamento: string | null
-          data_vencimento: string
-          descricao: string
-          id: string
-          metodo_pagamento: string | null
-          observacoes: string | null
-          professor_id: string | null
           school_id: string
-          status: string | null
-          tipo: string
+          token: string
           updated_at: string | null
-          valor: number
         }
         Insert: {
-          aluno_id?: string | null
-          categoria: string
           created_at?: string | null
-          data_pagamento?: string | null
-          data_vencimento: string
-          descricao: string
-          id?: string
-          metodo_pagamento?: string | null
-          observacoes?: string | null
-          professor_id?: string | null
           school_id: string
-          status?: string | null
-          tipo: string
+          token: string
           updated_at?: string | null
-          valor: number
         }
         Update: {
-          aluno_id?: string | null
-          categoria?: string
           created_at?: string | null
-          data_pagamento?: string | null
-          data_vencimento?: string
-          descricao?: string
-          id?: string
-          metodo_pagamento?: string | null
-          observacoes?: string | null
-          professor_id?: string | null
           school_id?: string
-          status?: string | null
-          tipo?: string
+          token?: string
           updated_at?: string | null
-          valor?: number
         }
         Relationships: [
           {
-            foreignKeyName: "financeiro_aluno_id_fkey"
-            columns: ["aluno_id"]
-            isOneToOne: false
-            referencedRelation: "alunos"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "financeiro_professor_id_fkey"
-            columns: ["professor_id"]
-            isOneToOne: false
-            referencedRelation: "professores"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "financeiro_school_id_fkey"
+            foreignKeyName: "pix_webhook_tokens_school_id_fkey"
             columns: ["school_id"]
-            isOneToOne: false
+            isOneToOne: true
             referencedRelation: "schools"
             referencedColumns: ["id"]
           },
         ]
       }
-      messages: {
-        Row: {
-          attachment_file_name: string | null
-          attachment_file_url: string | null
-          attachment_type: string | null
-          conversation_id: string | null
-          created_at: string | null
-          id: string
-          poll_id: string | null
-          sender_profile_id: string
-          text_content: string | null
-        }
-        Insert: {
-          attachment_file_name?: string | null
-          attachment_file_url?: string | null
-          attachment_type?: string | null
-          conversation_id?: string | null
-          created_at?: string | null
-          id?: string
-          poll_id?: string | null
-          sender_profile_id: string
-          text_content?: string | null
-        }
-        Update: {
-          attachment_file_name?: string | null
-          attachment_file_url?: string | null
-          attachment_type?: string | null
-          conversation_id?: string | null
-          created_at?: string | null
-          id?: string
-          poll_id?: string | null
-          sender_profile_id?: string
-          text_content?: string | null
-        }
-        Relationships: [
-          {
-            foreignKeyName: "messages_conversation_id_fkey"
-            columns: ["conversation_id"]
-            isOneToOne: false
-            referencedRelation: "conversations"
-            referencedColumns: ["id"]
-          },
-        ]
-      }
       poll_options: {
         Row: {
           created_at: string | null
@@ -508,7 +1880,8 @@ export type Database = {
           created_at: string | null
           id: string
           observacoes: string | null
-          presente: boolean
+          status: string
+          updated_at: string | null
         }
         Insert: {
           aluno_id: string
@@ -516,7 +1889,8 @@ export type Database = {
           created_at?: string | null
           id?: string
           observacoes?: string | null
-          presente: boolean
+          status: string
+          updated_at?: string | null
         }
         Update: {
           aluno_id?: string
@@ -524,7 +1898,8 @@ export type Database = {
           created_at?: string | null
           id?: string
           observacoes?: string | null
-          presente?: boolean
+          status?: string
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -598,6 +1973,7 @@ export type Database = {
           created_at: string | null
           id: string
           nome_completo: string | null
+          papel_id: string | null
           school_id: string | null
           telefone: string | null
           tipo_usuario: string | null
@@ -607,6 +1983,7 @@ export type Database = {
           created_at?: string | null
           id: string
           nome_completo?: string | null
+          papel_id?: string | null
           school_id?: string | null
           telefone?: string | null
           tipo_usuario?: string | null
@@ -616,6 +1993,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           nome_completo?: string | null
+          papel_id?: string | null
           school_id?: string | null
           telefone?: string | null
           tipo_usuario?: string | null
@@ -629,29 +2007,100 @@ export type Database = {
             referencedRelation: "schools"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "profiles_papel_id_fkey"
+            columns: ["papel_id"]
+            isOneToOne: false
+            referencedRelation: "papeis"
+            referencedColumns: ["id"]
+          },
         ]
       }
       schools: {
         Row: {
+          chave_pix: string | null
           created_at: string | null
           id: string
+          logo_url: string | null
           name: string
           owner_id: string
         }
         Insert: {
+          chave_pix?: string | null
           created_at?: string | null
           id?: string
+          logo_url?: string | null
           name: string
           owner_id: string
         }
         Update: {
+          chave_pix?: string | null
           created_at?: string | null
           id?: string
+          logo_url?: string | null
           name?: string
           owner_id?: string
         }
         Relationships: []
       }
+      turma_horarios: {
+        Row: {
+          created_at: string | null
+          dia_semana: string
+          horario_fim: string
+          horario_inicio: string
+          id: string
+          professor_id: string | null
+          school_id: string
+          turma_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          dia_semana: string
+          horario_fim: string
+          horario_inicio: string
+          id?: string
+          professor_id?: string | null
+          school_id: string
+          turma_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          dia_semana?: string
+          horario_fim?: string
+          horario_inicio?: string
+          id?: string
+          professor_id?: string | null
+          school_id?: string
+          turma_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "turma_horarios_professor_id_fkey"
+            columns: ["professor_id"]
+            isOneToOne: false
+            referencedRelation: "professores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "turma_horarios_school_id_fkey"
+            columns: ["school_id"]
+            isOneToOne: false
+            referencedRelation: "schools"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "turma_horarios_turma_id_fkey"
+            columns: ["turma_id"]
+            isOneToOne: false
+            referencedRelation: "turmas"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       turma_professores: {
         Row: {
           created_at: string | null
@@ -762,14 +2211,285 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      aceitar_convite: {
+        Args: { p_token: string }
+        Returns: undefined
+      }
+      acesso_do_meu_perfil: {
+        Args: {
+          p_papel_id: string
+          p_school_id: string
+          p_tipo_usuario: string
+        }
+        Returns: boolean
+      }
+      aprovar_folha_pagamento: {
+        Args: {
+          p_school_id: string
+          p_competencia: string
+          p_data_vencimento: string
+          p_ajustes?: Json
+        }
+        Returns: string
+      }
+      atualizar_inadimplencia: {
+        Args: { p_school_id?: string; p_data_referencia?: string }
+        Returns: number
+      }
+      atualizar_vagas_ocupadas: {
+        Args: { p_turma_id: string }
+        Returns: undefined
+      }
+      calcular_folha_pagamento: {
+        Args: { p_school_id: string; p_competencia: string }
+        Returns: {
+          professor_id: string
+          professor_nome: string
+          aulas_realizadas: number
+          horas: number
+          valor_hora: number
+          valor_aulas: number
+        }[]
+      }
+      calcular_pascoa: {
+        Args: { p_ano: number }
+        Returns: string
+      }
+      campo_emv: {
+        Args: { p_id: string; p_valor: string }
+        Returns: string
+      }
+      capacidades_do_usuario: {
+        Args: { p_user_id: string }
+        Returns: string[]
+      }
+      carregar_feriados_nacionais: {
+        Args: { p_ano: number; p_school_id?: string }
+        Returns: number
+      }
+      consultar_convite: {
+        Args: { p_token: string }
+        Returns: {
+          email: string
+          nome_completo: string
+          escola: string
+          tipo_usuario: string
+          status: string
+          expira_em: string
+        }[]
+      }
+      conta_por_email: {
+        Args: { p_email: string; p_school_id: string }
+        Returns: {
+          id: string
+          confirmada: boolean
+          tem_perfil: boolean
+          membro_da_escola: boolean
+        }[]
+      }
+      crc16_pix: {
+        Args: { p_payload: string }
+        Returns: string
+      }
+      dias_sem_aula: {
+        Args: { p_data_inicio: string; p_data_fim: string }
+        Returns: { data: string; titulo: string; tipo: string }[]
+      }
+      enfileirar_email_notificacao: {
+        Args: { p_notification_id: string }
+        Returns: string
+      }
+      enfileirar_email_usuario: {
+        Args: {
+          p_assunto: string
+          p_link?: string
+          p_mensagem: string
+          p_origem?: string
+          p_prioridade?: string
+          p_referencia_id?: string
+          p_school_id: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      enviar_lembretes_pagamento: {
+        Args: { p_school_id?: string; p_data_referencia?: string }
+        Returns: number
+      }
+      feriados_nacionais: {
+        Args: { p_ano: number }
+        Returns: { data: string; nome: string }[]
+      }
+      gerar_aulas_turma: {
+        Args: {
+          p_turma_id: string
+          p_data_inicio: string
+          p_data_fim: string
+          p_datas_excluidas?: string[]
+          p_simular?: boolean
+        }
+        Returns: {
+          aula_id: string
+          data_aula: string
+          horario_inicio: string
+          horario_fim: string
+          situacao: string
+        }[]
+      }
+      gerar_mensalidades: {
+        Args: { p_school_id: string; p_competencia: string; p_simular?: boolean }
+        Returns: {
+          aluno_id: string
+          aluno_nome: string
+          turma_id: string
+          turma_nome: string
+          dias_cobrados: number
+          valor_bruto: number
+          valor_desconto: number
+          valor: number
+          situacao: string
+        }[]
+      }
+      get_my_capacidades: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
       get_my_claim: {
         Args: { claim: string }
         Returns: string
       }
+      iniciar_conversa_responsavel: {
+        Args: { p_professor_profile_id: string }
+        Returns: string
+      }
+      is_aluno: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_responsavel: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      matricular_da_lista_espera: {
+        Args: { p_entrada_id: string; p_data_inicio?: string }
+        Returns: string
+      }
+      membros_da_minha_escola: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      meu_aluno_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      meu_professor_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      minhas_escolas: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          school_id: string
+          nome: string
+          logo_url: string
+          tipo_usuario: string
+          papel: string
+          atual: boolean
+        }[]
+      }
+      notificar_oferta_lista_espera: {
+        Args: { p_entrada_id: string }
+        Returns: undefined
+      }
+      payload_pix: {
+        Args: {
+          p_chave: string
+          p_cidade: string
+          p_descricao?: string
+          p_nome_recebedor: string
+          p_txid: string
+          p_valor?: number
+        }
+        Returns: string
+      }
+      processar_alertas_falta: {
+        Args: { p_chamada_id: string }
+        Returns: number
+      }
+      processar_lista_espera: {
+        Args: { p_turma_id?: string; p_prazo_horas?: number }
+        Returns: number
+      }
+      proximo_sequencial_remessa: {
+        Args: { p_integration_id: string }
+        Returns: number
+      }
+      registrar_conteudo_aula: {
+        Args: {
+          p_aula_id: string
+          p_conteudo: string
+          p_observacoes?: string
+        }
+        Returns: undefined
+      }
+      reservar_emails: {
+        Args: { p_limite?: number; p_school_id?: string }
+        Returns: {
+          assunto: string
+          created_at: string | null
+          created_by: string | null
+          destinatario: string
+          devolvido_em: string | null
+          enviado_em: string | null
+          html: string | null
+          id: string
+          link: string | null
+          max_tentativas: number
+          mensagem: string | null
+          message_id: string | null
+          motivo_devolucao: string | null
+          origem: string
+          prioridade: string
+          proxima_tentativa: string
+          referencia_id: string | null
+          school_id: string
+          status: string
+          tentativas: number
+          texto: string | null
+          transporte: string | null
+          ultimo_erro: string | null
+          updated_at: string | null
+          user_id: string | null
+        }[]
+      }
+      salvar_chamada: {
+        Args: { p_aula_id: string; p_presencas: Json }
+        Returns: string
+      }
+      tem_capacidade: {
+        Args: { p_capacidade: string }
+        Returns: boolean
+      }
+      texto_pix: {
+        Args: { p_tamanho: number; p_texto: string }
+        Returns: string
+      }
+      token_webhook_pix: {
+        Args: { p_renovar?: boolean }
+        Returns: string
+      }
+      trocar_escola: {
+        Args: { p_school_id: string }
+        Returns: undefined
+      }
       user_can_access_conversation: {
         Args: { conversation_id: string }
         Returns: boolean
       }
+      vagas_livres_turma: {
+        Args: { p_turma_id: string; p_aluno_id?: string }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
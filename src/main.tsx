@@ -6,6 +6,8 @@ import './index.css'
 import { setupGlobalErrorHandling } from '@/services/logger'
 import { monitoring } from '@/services/monitoring'
 import { config } from '@/config/environment'
+// Fila de chamadas e conteúdos registrados sem internet (registra o Service Worker no build de produção)
+import '@/services/offlineHandlers'
 
 // Configurar tratamento global de erros
 setupGlobalErrorHandling()
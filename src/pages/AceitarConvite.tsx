@@ -0,0 +1,224 @@
+import { useState, useEffect } from "react"
+import { useNavigate, useParams } from "react-router-dom"
+import { Logo } from "@/components/Logo"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Mail, RefreshCw } from "lucide-react"
+import { supabase } from "@/integrations/supabase/client"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import { useUserProfile } from "@/contexts/UserProfileContext"
+import { useSchool } from "@/contexts/SchoolContext"
+import { definirSenhaSchema, validateForm } from "@/utils/validation"
+import { TIPOS_CONVITE, type ConvitePublico } from "@/types/convite"
+
+// Destino do link do convite: o Supabase já autenticou o convidado pelo e-mail;
+// aqui ele define a própria senha e aceitar_convite cria o perfil na escola.
+// Quem já é membro de outra escola só confirma: ganha mais um vínculo.
+export default function AceitarConvite() {
+  const { token } = useParams<{ token: string }>()
+  const navigate = useNavigate()
+  const { session, loading: authLoading, signOut } = useAuth()
+  const { profile, refreshProfile } = useUserProfile()
+  const { refreshSchool } = useSchool()
+  const [convite, setConvite] = useState<ConvitePublico | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+
+  useEffect(() => {
+    const carregarConvite = async () => {
+      const { data, error } = await supabase.rpc("consultar_convite", { p_token: token ?? "" })
+
+      if (error) {
+        console.error("Erro ao consultar convite:", error)
+      }
+      setConvite((data?.[0] as ConvitePublico | undefined) ?? null)
+      setLoading(false)
+    }
+
+    carregarConvite()
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const jaTemConta = !!profile
+    if (!jaTemConta && !validateForm(definirSenhaSchema, { password, confirmPassword }).success) return
+
+    setSaving(true)
+    if (!jaTemConta) {
+      const { error: senhaError } = await supabase.auth.updateUser({ password })
+      if (senhaError) {
+        console.error("Erro ao definir senha:", senhaError)
+        toast.error(`Erro ao definir senha: ${senhaError.message}`)
+        setSaving(false)
+        return
+      }
+    }
+
+    const { error } = await supabase.rpc("aceitar_convite", { p_token: token ?? "" })
+    if (error) {
+      console.error("Erro ao aceitar convite:", error)
+      toast.error(`Erro ao aceitar convite: ${error.message}`)
+      setSaving(false)
+      return
+    }
+
+    // Novo token com escola e papel (custom_access_token_hook) antes de carregar o perfil
+    await supabase.auth.refreshSession()
+    await Promise.all([refreshProfile(), refreshSchool()])
+    toast.success(`Bem-vindo(a) à ${convite?.escola}!`)
+    navigate("/dashboard", { replace: true })
+  }
+
+  const renderContent = () => {
+    if (loading || authLoading) {
+      return (
+        <div className="text-center space-y-4">
+          <RefreshCw className="h-12 w-12 mx-auto animate-spin text-primary" />
+          <p className="text-muted-foreground">Carregando convite...</p>
+        </div>
+      )
+    }
+
+    if (!convite || convite.status === "revogado" || convite.status === "expirado") {
+      return (
+        <div className="text-center space-y-4">
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-700">
+              {convite?.status === "expirado"
+                ? "Este convite expirou. Peça à escola para reenviá-lo."
+                : "Convite inválido ou cancelado pela escola."}
+            </AlertDescription>
+          </Alert>
+          <Button variant="outline" onClick={() => navigate("/auth")} className="w-full">
+            Ir para o Login
+          </Button>
+        </div>
+      )
+    }
+
+    if (convite.status === "aceito") {
+      return (
+        <div className="text-center space-y-4">
+          <p className="text-muted-foreground">Este convite já foi aceito. Entre com seu e-mail e senha.</p>
+          <Button onClick={() => navigate("/auth")} className="w-full">
+            Ir para o Login
+          </Button>
+        </div>
+      )
+    }
+
+    if (!session) {
+      return (
+        <div className="text-center space-y-4">
+          <Mail className="h-12 w-12 mx-auto text-primary" />
+          <p className="text-muted-foreground">
+            Abra este convite pelo link enviado para <strong>{convite.email}</strong>.
+            Se o link não funcionar mais, peça à escola para reenviar o convite.
+          </p>
+        </div>
+      )
+    }
+
+    if (session.user.email?.toLowerCase() !== convite.email.toLowerCase()) {
+      return (
+        <div className="text-center space-y-4">
+          <p className="text-muted-foreground">
+            Você está conectado como <strong>{session.user.email}</strong>, mas o convite foi enviado
+            para <strong>{convite.email}</strong>.
+          </p>
+          <Button variant="outline" onClick={() => signOut()} className="w-full">
+            Sair desta conta
+          </Button>
+        </div>
+      )
+    }
+
+    const tipo = TIPOS_CONVITE.find((t) => t.value === convite.tipo_usuario)?.label ?? convite.tipo_usuario
+
+    if (profile) {
+      return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Olá, {profile.nome_completo || convite.nome_completo}! Você foi convidado(a) para a{" "}
+            <strong>{convite.escola}</strong> como <strong>{tipo}</strong>. Ao aceitar, ela aparece no seletor de
+            escolas junto com as que você já acessa.
+          </p>
+          <Button type="submit" disabled={saving} className="w-full">
+            {saving ? "Aceitando..." : "Aceitar convite"}
+          </Button>
+        </form>
+      )
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Olá, {convite.nome_completo}! Você foi convidado(a) para a <strong>{convite.escola}</strong> como{" "}
+          <strong>{tipo}</strong>. Defina sua senha para acessar o sistema.
+        </p>
+        <div>
+          <Label htmlFor="email">E-mail</Label>
+          <Input id="email" value={convite.email} disabled />
+        </div>
+        <div>
+          <Label htmlFor="password">Senha</Label>
+          <Input
+            id="password"
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor="confirmPassword">Confirmar senha</Label>
+          <Input
+            id="confirmPassword"
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+          />
+        </div>
+        <Button type="submit" disabled={saving} className="w-full">
+          {saving ? "Salvando..." : "Definir senha e entrar"}
+        </Button>
+      </form>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="flex justify-center mb-6">
+            <Logo size="lg" />
+          </div>
+          <h2 className="text-3xl font-extrabold text-foreground">
+            SmartClass
+          </h2>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Sistema de gestão para escolas de música
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-center">Aceitar Convite</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            {renderContent()}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -7,12 +7,16 @@ import { Input } from "@/components/ui/input"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Search, Mail, Phone, Users, GraduationCap, CalendarDays, Plus, MessageCircle, Music, MapPin, User } from "lucide-react"
 import { useAlunos } from "@/hooks/useAlunos"
+import { ExportarMenu } from "@/components/relatorios/ExportarMenu"
+import { datasetAlunos } from "@/utils/datasetsExportacao"
 import { AddAlunoModal } from "@/components/modals/AddAlunoModal"
+import { useUserProfile } from "@/contexts/UserProfileContext"
 import { AlunoDetails } from "@/components/details/AlunoDetails"
 import { useState } from "react"
 
 export default function Alunos() {
-  const { alunos, loading, refetch } = useAlunos()
+  const { alunos, loading, convidarAluno, updateDadosPagador, refetch } = useAlunos()
+  const { pode } = useUserProfile()
   const [searchTerm, setSearchTerm] = useState("")
 
   const getInitials = (nome: string) => {
@@ -27,7 +31,7 @@ export default function Alunos() {
   const filteredAlunos = alunos.filter(aluno =>
     aluno.nome.toLowerCase().includes(searchTerm.toLowerCase()) ||
     aluno.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (aluno.turma?.nome || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (aluno.turmas || []).some(turma => turma.nome.toLowerCase().includes(searchTerm.toLowerCase())) ||
     (aluno.instrumento || '').toLowerCase().includes(searchTerm.toLowerCase())
   )
 
@@ -137,15 +141,22 @@ export default function Alunos() {
               </div>
             </CardContent>
           </Card>
-          <AddAlunoModal
-            trigger={
-              <Button className="h-16 px-8 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 shadow-xl hover:shadow-2xl border-0 rounded-xl font-semibold text-white transition-all duration-300 hover:-translate-y-0.5 backdrop-blur-sm">
-                <Plus className="h-5 w-5 mr-2" />
-                Novo Aluno
-              </Button>
-            }
-            onSuccess={refetch}
+          <ExportarMenu
+            dataset={() => datasetAlunos(filteredAlunos, searchTerm)}
+            disabled={loading}
+            className="h-16 px-6 rounded-xl font-semibold"
           />
+          {pode("alunos.gerenciar") && (
+            <AddAlunoModal
+              trigger={
+                <Button className="h-16 px-8 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 shadow-xl hover:shadow-2xl border-0 rounded-xl font-semibold text-white transition-all duration-300 hover:-translate-y-0.5 backdrop-blur-sm">
+                  <Plus className="h-5 w-5 mr-2" />
+                  Novo Aluno
+                </Button>
+              }
+              onSuccess={refetch}
+            />
+          )}
         </div>
 
         {/* Lista de Alunos */}
@@ -207,7 +218,7 @@ export default function Alunos() {
                               <GraduationCap className="h-4 w-4 text-purple-600" />
                             </div>
                             <span className="font-semibold text-purple-700 dark:text-purple-400">
-                              {aluno.turma?.nome || 'Sem turma'}
+                              {aluno.turmas?.map(turma => turma.nome).join(', ') || 'Sem turma'}
                             </span>
                           </div>
 
@@ -299,6 +310,8 @@ export default function Alunos() {
                           )}
                           <AlunoDetails
                             aluno={aluno}
+                            onConvidarPortal={convidarAluno}
+                            onSalvarPagador={updateDadosPagador}
                             trigger={
                               <Button 
                                 variant="outline" 
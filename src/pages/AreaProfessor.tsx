@@ -0,0 +1,271 @@
+import { DashboardLayout } from "@/components/DashboardLayout"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { CalendarDays, CheckCircle, ClipboardCheck, Clock, NotebookPen, Users } from "lucide-react"
+import { useState } from "react"
+import { format, parseISO } from "date-fns"
+import { ptBR } from "date-fns/locale"
+import { ChamadaModal } from "@/components/modals/ChamadaModal"
+import { useAreaProfessor } from "@/hooks/useAreaProfessor"
+import { useDiasSemAula } from "@/hooks/useCalendario"
+import { toISODate } from "@/utils/financeiroUtils"
+import { agruparAulasPorDia, calcularProgressoAlunos } from "@/utils/areaProfessorUtils"
+import { getPeriodoDasDatas } from "@/utils/calendarioUtils"
+import type { AulaProfessor, TurmaProfessor } from "@/types/aula"
+
+const formatarHora = (hora: string) => hora.slice(0, 5)
+
+interface AulaCardProps {
+  aula: AulaProfessor
+  turma?: TurmaProfessor
+  onRegistrar: (aulaId: string, conteudo: string, observacoes: string) => Promise<{ success: boolean }>
+  onChamadaSalva: () => void
+}
+
+function AulaCard({ aula, turma, onRegistrar, onChamadaSalva }: AulaCardProps) {
+  const [editando, setEditando] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [conteudo, setConteudo] = useState(aula.conteudo ?? "")
+  const [observacoes, setObservacoes] = useState(aula.observacoes ?? "")
+  const cancelada = aula.status === "cancelada"
+
+  const handleSalvar = async () => {
+    setSaving(true)
+    const result = await onRegistrar(aula.id, conteudo, observacoes)
+    setSaving(false)
+    if (result.success) setEditando(false)
+  }
+
+  return (
+    <div className="p-3 border rounded-lg space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-medium">{aula.turma_nome}</p>
+          <p className="text-sm text-muted-foreground flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {formatarHora(aula.horario_inicio)} - {formatarHora(aula.horario_fim)}
+          </p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-1">
+          {cancelada && <Badge variant="destructive">Cancelada</Badge>}
+          {aula.chamada_feita && (
+            <Badge variant="outline" className="gap-1">
+              <CheckCircle className="h-3 w-3" />
+              Chamada
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {!editando && aula.conteudo && <p className="text-sm">{aula.conteudo}</p>}
+
+      {editando ? (
+        <div className="space-y-2">
+          <div>
+            <Label htmlFor={`conteudo-${aula.id}`}>Conteúdo da aula</Label>
+            <Textarea
+              id={`conteudo-${aula.id}`}
+              value={conteudo}
+              onChange={(e) => setConteudo(e.target.value)}
+              placeholder="Escalas maiores, leitura rítmica..."
+              rows={2}
+            />
+          </div>
+          <div>
+            <Label htmlFor={`observacoes-${aula.id}`}>Observações</Label>
+            <Textarea
+              id={`observacoes-${aula.id}`}
+              value={observacoes}
+              onChange={(e) => setObservacoes(e.target.value)}
+              rows={2}
+            />
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button variant="ghost" size="sm" onClick={() => setEditando(false)}>
+              Cancelar
+            </Button>
+            <Button size="sm" onClick={handleSalvar} disabled={saving}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        !cancelada && (
+          <div className="grid grid-cols-2 gap-2">
+            <ChamadaModal
+              trigger={
+                <Button size="sm" variant={aula.chamada_feita ? "outline" : "default"} className="w-full">
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  Chamada
+                </Button>
+              }
+              turma={{
+                id: aula.turma_id,
+                nome: aula.turma_nome,
+                horario: `${formatarHora(aula.horario_inicio)} - ${formatarHora(aula.horario_fim)}`,
+                dia: turma?.dia_semana ?? "",
+                professores: [],
+              }}
+              aulaId={aula.id}
+              onSuccess={onChamadaSalva}
+            />
+            <Button size="sm" variant="outline" className="w-full" onClick={() => setEditando(true)}>
+              <NotebookPen className="h-4 w-4 mr-2" />
+              Conteúdo
+            </Button>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
+
+export default function AreaProfessor() {
+  const { professor, turmas, aulas, presencas, loading, registrarConteudo, refetch } = useAreaProfessor()
+  const periodoPresencas = getPeriodoDasDatas(presencas.map((p) => p.data_aula))
+  const { datas: diasSemAula } = useDiasSemAula(periodoPresencas?.inicio, periodoPresencas?.fim)
+
+  if (loading) {
+    return (
+      <DashboardLayout title="Minhas Turmas">
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!professor) {
+    return (
+      <DashboardLayout title="Minhas Turmas">
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Sua conta ainda não está ligada a um cadastro de professor. Procure a secretaria da escola.
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    )
+  }
+
+  const hoje = toISODate()
+  const turmasPorId = new Map(turmas.map((t) => [t.id, t]))
+  const aulasHoje = aulas.filter((a) => a.data_aula === hoje)
+  const diasSemana = agruparAulasPorDia(aulas.filter((a) => a.data_aula !== hoje))
+
+  const renderAula = (aula: AulaProfessor) => (
+    <AulaCard
+      key={aula.id}
+      aula={aula}
+      turma={turmasPorId.get(aula.turma_id)}
+      onRegistrar={registrarConteudo}
+      onChamadaSalva={refetch}
+    />
+  )
+
+  return (
+    <DashboardLayout title="Minhas Turmas">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Clock className="h-5 w-5" />
+              Hoje, {format(parseISO(hoje), "EEEE, dd 'de' MMMM", { locale: ptBR })}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {aulasHoje.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhuma aula hoje</p>
+            ) : (
+              <div className="space-y-3">{aulasHoje.map(renderAula)}</div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue="semana">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="semana">Semana</TabsTrigger>
+            <TabsTrigger value="alunos">Alunos</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="semana" className="space-y-4">
+            {diasSemana.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Nenhuma outra aula nesta semana</p>
+            ) : (
+              diasSemana.map((dia) => (
+                <div key={dia.data} className="space-y-2">
+                  <h3 className="text-sm font-semibold flex items-center gap-2 capitalize">
+                    <CalendarDays className="h-4 w-4" />
+                    {format(parseISO(dia.data), "EEEE, dd/MM", { locale: ptBR })}
+                    {dia.data < hoje && <span className="text-muted-foreground font-normal normal-case">(passada)</span>}
+                  </h3>
+                  <div className="space-y-2">{dia.aulas.map(renderAula)}</div>
+                </div>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="alunos" className="space-y-4">
+            {turmas.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Você ainda não foi adicionado a nenhuma turma</p>
+            ) : (
+              turmas.map((turma) => {
+                const progresso = calcularProgressoAlunos(
+                  turma.alunos,
+                  presencas.filter((p) => p.turma_id === turma.id),
+                  diasSemAula
+                )
+                return (
+                  <Card key={turma.id}>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-base flex items-center justify-between">
+                        <span>{turma.nome}</span>
+                        <span className="text-sm font-normal text-muted-foreground flex items-center gap-1">
+                          <Users className="h-4 w-4" />
+                          {turma.alunos.length}
+                        </span>
+                      </CardTitle>
+                      <p className="text-xs text-muted-foreground">
+                        {turma.dia_semana} • {formatarHora(turma.horario_inicio)} - {formatarHora(turma.horario_fim)}
+                      </p>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {progresso.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Nenhum aluno matriculado</p>
+                      ) : (
+                        progresso.map((aluno) => (
+                          <div key={aluno.aluno_id}>
+                            <div className="flex items-center justify-between text-sm mb-1">
+                              <span className="flex items-center gap-2">
+                                {aluno.nome}
+                                {aluno.faltasSeguidas >= 2 && (
+                                  <Badge variant="destructive" className="text-xs">
+                                    {aluno.faltasSeguidas} faltas seguidas
+                                  </Badge>
+                                )}
+                              </span>
+                              <span className="text-muted-foreground">
+                                {aluno.total > 0 ? `${aluno.percentual}%` : "—"}
+                              </span>
+                            </div>
+                            <Progress value={aluno.percentual} className="h-2" />
+                          </div>
+                        ))
+                      )}
+                    </CardContent>
+                  </Card>
+                )
+              })
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+    </DashboardLayout>
+  )
+}
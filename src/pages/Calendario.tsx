@@ -0,0 +1,230 @@
+import { useState } from "react"
+import { DashboardLayout } from "@/components/DashboardLayout"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { ChevronLeft, ChevronRight, Download, Plus } from "lucide-react"
+import { format, parseISO } from "date-fns"
+import { ptBR } from "date-fns/locale"
+import { cn } from "@/lib/utils"
+import { EventoCalendarioModal } from "@/components/modals/EventoCalendarioModal"
+import { useCalendario } from "@/hooks/useCalendario"
+import { useUserProfile } from "@/contexts/UserProfileContext"
+import { addDays, addMonths } from "@/utils/dateUtils"
+import { toISODate } from "@/utils/financeiroUtils"
+import { DIAS_SEMANA_CURTOS, getDiasDaSemana, getDiasSemAula, getEventosDoDia, getGradeDoMes } from "@/utils/calendarioUtils"
+import { TIPOS_EVENTO_CALENDARIO, type EventoCalendario, type TipoEventoCalendario } from "@/types/calendario"
+
+type Visao = "mes" | "semana"
+
+const coresTipo: Record<TipoEventoCalendario, string> = {
+  feriado: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200",
+  recesso: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200",
+  evento: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200",
+}
+
+const formatarPeriodo = (evento: EventoCalendario) =>
+  evento.data_inicio === evento.data_fim
+    ? format(parseISO(evento.data_inicio), "dd/MM")
+    : `${format(parseISO(evento.data_inicio), "dd/MM")} a ${format(parseISO(evento.data_fim), "dd/MM")}`
+
+export default function Calendario() {
+  const { pode } = useUserProfile()
+  const podeGerenciar = pode("calendario.gerenciar")
+  const [visao, setVisao] = useState<Visao>("mes")
+  const [referencia, setReferencia] = useState(new Date())
+  const [modalOpen, setModalOpen] = useState(false)
+  const [eventoSelecionado, setEventoSelecionado] = useState<EventoCalendario | null>(null)
+  const [dataSelecionada, setDataSelecionada] = useState(toISODate())
+
+  const semanas = visao === "mes"
+    ? getGradeDoMes(referencia.getFullYear(), referencia.getMonth())
+    : [getDiasDaSemana(referencia)]
+  const inicio = semanas[0][0]
+  const fim = semanas[semanas.length - 1][6]
+  const mesReferencia = toISODate(referencia).slice(0, 7)
+  const hoje = toISODate()
+
+  const { eventos, loading, salvarEvento, excluirEvento, carregarFeriadosNacionais } = useCalendario(inicio, fim)
+  const diasSemAula = getDiasSemAula(eventos, inicio, fim)
+
+  const navegar = (direcao: 1 | -1) => {
+    setReferencia((atual) =>
+      visao === "mes"
+        ? addMonths(new Date(atual.getFullYear(), atual.getMonth(), 1), direcao)
+        : addDays(atual, 7 * direcao)
+    )
+  }
+
+  const abrirNovo = (data: string) => {
+    if (!podeGerenciar) return
+    setEventoSelecionado(null)
+    setDataSelecionada(data)
+    setModalOpen(true)
+  }
+
+  const abrirEvento = (evento: EventoCalendario) => {
+    if (!podeGerenciar) return
+    setEventoSelecionado(evento)
+    setModalOpen(true)
+  }
+
+  const titulo = visao === "mes"
+    ? format(referencia, "MMMM 'de' yyyy", { locale: ptBR })
+    : `${format(parseISO(inicio), "dd/MM")} a ${format(parseISO(fim), "dd/MM/yyyy")}`
+
+  const renderEvento = (evento: EventoCalendario, completo: boolean) => (
+    <button
+      key={evento.id}
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation()
+        abrirEvento(evento)
+      }}
+      className={cn("w-full text-left rounded px-1.5 py-0.5 text-xs truncate", coresTipo[evento.tipo], !podeGerenciar && "cursor-default")}
+      title={evento.descricao ?? evento.titulo}
+    >
+      {evento.titulo}
+      {completo && evento.descricao && <span className="block whitespace-normal opacity-80">{evento.descricao}</span>}
+    </button>
+  )
+
+  return (
+    <DashboardLayout title="Calendário Letivo">
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => navegar(-1)} aria-label="Anterior">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => navegar(1)} aria-label="Próximo">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setReferencia(new Date())}>
+              Hoje
+            </Button>
+            <h2 className="text-lg font-semibold capitalize ml-2">{titulo}</h2>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Tabs value={visao} onValueChange={(value) => setVisao(value as Visao)}>
+              <TabsList>
+                <TabsTrigger value="mes">Mês</TabsTrigger>
+                <TabsTrigger value="semana">Semana</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            {podeGerenciar && (
+              <>
+                <Button variant="outline" onClick={() => carregarFeriadosNacionais(referencia.getFullYear())}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Feriados de {referencia.getFullYear()}
+                </Button>
+                <Button onClick={() => abrirNovo(hoje)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Novo Evento
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {TIPOS_EVENTO_CALENDARIO.map((tipo) => (
+            <span key={tipo.value} className={cn("rounded px-2 py-0.5", coresTipo[tipo.value])}>
+              {tipo.label}
+            </span>
+          ))}
+          <span className="rounded px-2 py-0.5 bg-muted">Dia sem aula</span>
+        </div>
+
+        <Card>
+          <CardContent className="p-2 sm:p-4">
+            {loading ? (
+              <Skeleton className="h-96 w-full" />
+            ) : (
+              <div className="grid grid-cols-7 gap-px bg-border rounded-lg overflow-hidden">
+                {DIAS_SEMANA_CURTOS.map((dia) => (
+                  <div key={dia} className="bg-background py-2 text-center text-xs font-medium text-muted-foreground">
+                    {dia}
+                  </div>
+                ))}
+                {semanas.flat().map((data) => {
+                  const doDia = getEventosDoDia(eventos, data)
+                  return (
+                    <div
+                      key={data}
+                      onClick={() => abrirNovo(data)}
+                      className={cn(
+                        "bg-background p-1 sm:p-2 space-y-1",
+                        visao === "mes" ? "min-h-20 sm:min-h-24" : "min-h-48",
+                        diasSemAula.has(data) && "bg-muted",
+                        podeGerenciar && "cursor-pointer hover:bg-accent/50"
+                      )}
+                    >
+                      <div
+                        className={cn(
+                          "text-xs sm:text-sm w-6 h-6 flex items-center justify-center rounded-full",
+                          visao === "mes" && !data.startsWith(mesReferencia) && "text-muted-foreground/50",
+                          data === hoje && "bg-primary text-primary-foreground"
+                        )}
+                      >
+                        {Number(data.slice(8))}
+                      </div>
+                      {doDia.map((evento) => renderEvento(evento, visao === "semana"))}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Eventos do período</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {eventos.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Nenhum feriado, recesso ou evento no período</p>
+            ) : (
+              <div className="space-y-2">
+                {eventos.map((evento) => (
+                  <div key={evento.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg">
+                    <div>
+                      <p className="font-medium text-sm">{evento.titulo}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatarPeriodo(evento)}
+                        {evento.sem_aula && " • sem aula"}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className={coresTipo[evento.tipo]}>
+                        {TIPOS_EVENTO_CALENDARIO.find((t) => t.value === evento.tipo)?.label}
+                      </Badge>
+                      {podeGerenciar && (
+                        <Button variant="ghost" size="sm" onClick={() => abrirEvento(evento)}>
+                          Editar
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <EventoCalendarioModal
+        open={modalOpen}
+        onOpenChange={setModalOpen}
+        evento={eventoSelecionado}
+        dataInicial={dataSelecionada}
+        onSalvar={salvarEvento}
+        onExcluir={excluirEvento}
+      />
+    </DashboardLayout>
+  )
+}
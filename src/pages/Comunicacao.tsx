@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useLocation } from "react-router-dom";
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { ConversationList } from "@/components/chat/ConversationList";
 import { ChatInterface } from "@/components/chat/ChatInterface";
@@ -33,7 +34,11 @@ interface MessageItem {
 }
 
 export default function Comunicacao() {
-  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
+  const location = useLocation();
+  // Outras telas (ex.: portal do responsável) podem abrir uma conversa específica
+  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(
+    (location.state as { conversationId?: string } | null)?.conversationId ?? null
+  );
   const [searchTerm, setSearchTerm] = useState("");
   const { conversations, messages, loading, sendMessage, createConversation } = useChat();
 
@@ -10,8 +10,23 @@ import { useTurmas } from "@/hooks/useTurmas"
 import { useAlunos } from "@/hooks/useAlunos"
 import { useProfessores } from "@/hooks/useProfessores"
 import { Skeleton } from "@/components/ui/skeleton"
+import { Navigate } from "react-router-dom"
+import { useUserProfile } from "@/contexts/UserProfileContext"
+import { getPaginaInicial } from "@/utils/permissoes"
 
+// Só a gestão vê o resumo da escola: professores, alunos e responsáveis têm a própria página inicial
 export default function Dashboard() {
+  const { permissoes } = useUserProfile()
+  const paginaInicial = getPaginaInicial(permissoes)
+
+  if (paginaInicial !== "/dashboard") {
+    return <Navigate to={paginaInicial} replace />
+  }
+
+  return <ResumoEscola />
+}
+
+function ResumoEscola() {
   const { turmas, loading: turmasLoading } = useTurmas()
   const { alunos, loading: alunosLoading } = useAlunos()
   const { professores, loading: professoresLoading } = useProfessores()
@@ -68,6 +83,7 @@ export default function Dashboard() {
   ]
 
   const recentClasses = turmas.slice(0, 4).map(turma => ({
+    id: turma.id,
     name: turma.nome,
     time: `${turma.horario_inicio} - ${turma.horario_fim}`,
     students: turma.alunos || 0,
@@ -127,8 +143,8 @@ export default function Dashboard() {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {recentClasses.map((classItem, index) => (
-                    <div key={index} className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
+                  {recentClasses.map((classItem) => (
+                    <div key={classItem.id} className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
                       <div>
                         <p className="font-semibold text-foreground">{classItem.name}</p>
                         <p className="text-sm text-muted-foreground">
@@ -147,6 +163,7 @@ export default function Dashboard() {
                             </Button>
                           }
                           turma={{
+                            id: classItem.id,
                             nome: classItem.name,
                             horario: classItem.time,
                             dia: "Hoje",
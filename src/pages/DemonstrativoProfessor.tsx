@@ -0,0 +1,133 @@
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowLeft, Printer } from "lucide-react"
+import { useNavigate, useParams } from "react-router-dom"
+import { useSchool } from "@/contexts/SchoolContext"
+import { useDemonstrativoProfessor } from "@/hooks/useDemonstrativoProfessor"
+import { formatCurrency } from "@/utils/formatUtils"
+import { calcularHorasAula, formatarHoras } from "@/utils/folhaPagamentoUtils"
+
+const formatarData = (data: string) => data.slice(0, 10).split("-").reverse().join("/")
+
+// Página de impressão: "Imprimir" do navegador também permite salvar em PDF
+export default function DemonstrativoProfessor() {
+  const navigate = useNavigate()
+  const { folhaId, professorId } = useParams<{ folhaId: string; professorId: string }>()
+  const { school } = useSchool()
+  const { folha, item, aulas, loading } = useDemonstrativoProfessor(folhaId, professorId)
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl mx-auto p-8 space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    )
+  }
+
+  if (!folha || !item) {
+    return (
+      <div className="max-w-3xl mx-auto p-8 space-y-4 text-center">
+        <p className="text-muted-foreground">Demonstrativo não encontrado.</p>
+        <Button variant="outline" onClick={() => navigate("/folha-pagamento")}>
+          Voltar para a folha
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto p-8 space-y-6 bg-background text-foreground print:p-0 print:max-w-none">
+      <div className="flex justify-between print:hidden">
+        <Button variant="ghost" className="gap-2" onClick={() => navigate("/folha-pagamento")}>
+          <ArrowLeft className="h-4 w-4" />
+          Voltar
+        </Button>
+        <Button className="gap-2" onClick={() => window.print()}>
+          <Printer className="h-4 w-4" />
+          Imprimir / Salvar PDF
+        </Button>
+      </div>
+
+      <header className="border-b pb-4">
+        <h1 className="text-2xl font-bold">Demonstrativo de Pagamento</h1>
+        <p className="text-sm text-muted-foreground">
+          {school?.name}
+          {school?.cnpj ? ` • CNPJ ${school.cnpj}` : ""}
+        </p>
+      </header>
+
+      <section className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Professor</p>
+          <p className="font-semibold">{item.professor_nome}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Competência</p>
+          <p className="font-semibold">{formatarData(folha.competencia).slice(3)}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Valor/hora</p>
+          <p className="font-semibold">{formatCurrency(Number(item.valor_hora))}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Data de pagamento</p>
+          <p className="font-semibold">{formatarData(folha.data_vencimento)}</p>
+        </div>
+      </section>
+
+      <section>
+        <h2 className="font-semibold mb-2">Aulas realizadas</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Data</TableHead>
+              <TableHead>Turma</TableHead>
+              <TableHead>Horário</TableHead>
+              <TableHead className="text-right">Horas</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {aulas.map((aula) => (
+              <TableRow key={aula.id}>
+                <TableCell>{formatarData(aula.data_aula)}</TableCell>
+                <TableCell>{aula.turma?.nome ?? "-"}</TableCell>
+                <TableCell>
+                  {aula.horario_inicio.slice(0, 5)} - {aula.horario_fim.slice(0, 5)}
+                </TableCell>
+                <TableCell className="text-right">{formatarHoras(calcularHorasAula(aula.horario_inicio, aula.horario_fim))}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={3}>{item.aulas_realizadas} aula(s)</TableCell>
+              <TableCell className="text-right">{formatarHoras(Number(item.horas))}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </section>
+
+      <section className="ml-auto w-full max-w-xs space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span>Valor das aulas</span>
+          <span>{formatCurrency(Number(item.valor_aulas))}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Ajuste{item.ajuste_descricao ? ` (${item.ajuste_descricao})` : ""}</span>
+          <span>{formatCurrency(Number(item.ajuste))}</span>
+        </div>
+        <div className="flex justify-between border-t pt-2 text-base font-bold">
+          <span>Total a receber</span>
+          <span>{formatCurrency(Number(item.valor_total))}</span>
+        </div>
+      </section>
+
+      <footer className="pt-16 grid grid-cols-2 gap-8 text-center text-sm">
+        <div className="border-t pt-2">{school?.name}</div>
+        <div className="border-t pt-2">{item.professor_nome}</div>
+      </footer>
+    </div>
+  )
+}
@@ -1,107 +1,309 @@
 import { DashboardLayout } from "@/components/DashboardLayout"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Calendar, Wallet, BarChart, FileText } from "lucide-react"
-import { useState, useEffect } from 'react'
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Calendar, Wallet, BarChart, FileText, AlertTriangle, Search, Receipt, Landmark, Users } from "lucide-react"
+import { useMemo, useState } from 'react'
+import { useNavigate } from "react-router-dom"
+import { useFinanceiro } from "@/hooks/useFinanceiro"
+import { useUserProfile } from "@/contexts/UserProfileContext"
+import { ExportarMenu } from "@/components/relatorios/ExportarMenu"
+import { datasetLancamentos } from "@/utils/datasetsExportacao"
+import { LancamentosTable } from "@/components/financeiro/LancamentosTable"
+import { LancamentoFinanceiroModal } from "@/components/modals/LancamentoFinanceiroModal"
+import { RegistrarPagamentoModal } from "@/components/modals/RegistrarPagamentoModal"
+import { GerarMensalidadesModal } from "@/components/modals/GerarMensalidadesModal"
+import { CobrancaPixModal } from "@/components/modals/CobrancaPixModal"
+import { BoletosCnabModal } from "@/components/modals/BoletosCnabModal"
+import { LembretesPagamentoModal } from "@/components/modals/LembretesPagamentoModal"
+import { calcularResumoFinanceiro, filtrarLancamentos, getMesReferencia } from "@/utils/financeiroUtils"
+import { formatCurrency } from "@/utils/formatUtils"
+import {
+  CATEGORIAS_DESPESA,
+  CATEGORIAS_RECEITA,
+  FinanceiroItem,
+  FiltrosFinanceiro,
+  STATUS_LANCAMENTO,
+  TipoLancamento,
+} from "@/types/financeiro"
+
+type ModalLancamento = { tipo: TipoLancamento; titulo?: string; permitirPago: boolean } | null
 
 export default function Financeiro() {
-  const [totalReceitas, setTotalReceitas] = useState(0)
-  const [totalDespesas, setTotalDespesas] = useState(0)
-  const [saldoAtual, setSaldoAtual] = useState(0)
-
-  useEffect(() => {
-    // Simulação de dados financeiros (substitua por dados reais)
-    const receitas = 15000
-    const despesas = 8000
-
-    setTotalReceitas(receitas)
-    setTotalDespesas(despesas)
-    setSaldoAtual(receitas - despesas)
+  const navigate = useNavigate()
+  const { pode } = useUserProfile()
+  const { financeiro, loading, createLancamento, marcarComoPago, cancelarLancamento, gerarMensalidades, vincularTxidPix, refetch } = useFinanceiro()
+  const [filtros, setFiltros] = useState<FiltrosFinanceiro>({
+    mes: getMesReferencia(),
+    tipo: 'todos',
+    status: 'todos',
+    categoria: 'todas',
+    busca: '',
+  })
+  const [modalLancamento, setModalLancamento] = useState<ModalLancamento>(null)
+  const [lancamentoPagamento, setLancamentoPagamento] = useState<FinanceiroItem | null>(null)
+  const [gerarMensalidadesOpen, setGerarMensalidadesOpen] = useState(false)
+  const [lancamentoPix, setLancamentoPix] = useState<FinanceiroItem | null>(null)
+  const [boletosOpen, setBoletosOpen] = useState(false)
+  const [lancamentoLembretes, setLancamentoLembretes] = useState<FinanceiroItem | null>(null)
+
+  // Os cards resumem o mês inteiro; os demais filtros afetam apenas a tabela
+  const lancamentosDoMes = useMemo(
+    () => filtrarLancamentos(financeiro, { mes: filtros.mes, tipo: 'todos', status: 'todos', categoria: 'todas', busca: '' }),
+    [financeiro, filtros.mes]
+  )
+  const lancamentosFiltrados = useMemo(() => filtrarLancamentos(financeiro, filtros), [financeiro, filtros])
+  const resumo = useMemo(() => calcularResumoFinanceiro(lancamentosDoMes), [lancamentosDoMes])
+  const receitasEmAberto = useMemo(
+    () => lancamentosDoMes.filter((l) => l.tipo === 'receita' && (l.status === 'pendente' || l.status === 'atrasado')),
+    [lancamentosDoMes]
+  )
+
+  const categorias = useMemo(() => {
+    const todas = [...CATEGORIAS_RECEITA, ...CATEGORIAS_DESPESA]
+    return todas.filter((categoria, index) => todas.findIndex((c) => c.value === categoria.value) === index)
   }, [])
 
+  const handleCancelar = async (lancamento: FinanceiroItem) => {
+    if (!window.confirm(`Cancelar o lançamento "${lancamento.descricao}"?`)) return
+    await cancelarLancamento(lancamento.id)
+  }
+
+  const cards = [
+    {
+      titulo: "Receitas do Mês",
+      valor: formatCurrency(resumo.receitasRecebidas),
+      detalhe: `Previsto: ${formatCurrency(resumo.receitasPrevistas)}`,
+      icon: Wallet,
+      cor: "bg-green-100 text-green-600",
+    },
+    {
+      titulo: "Despesas do Mês",
+      valor: formatCurrency(resumo.despesasPagas),
+      detalhe: `Previsto: ${formatCurrency(resumo.despesasPrevistas)}`,
+      icon: BarChart,
+      cor: "bg-red-100 text-red-600",
+    },
+    {
+      titulo: "Saldo do Mês",
+      valor: formatCurrency(resumo.saldo),
+      detalhe: "Recebido menos pago",
+      icon: FileText,
+      cor: "bg-blue-100 text-blue-600",
+    },
+    {
+      titulo: "Em Atraso",
+      valor: formatCurrency(resumo.inadimplencia),
+      detalhe: `${resumo.lancamentosAtrasados} lançamento(s) vencido(s)`,
+      icon: AlertTriangle,
+      cor: "bg-amber-100 text-amber-600",
+    },
+  ]
+
   return (
     <DashboardLayout title="Financeiro">
       <div className="p-6 lg:p-8 space-y-6">
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-          {/** Exemplo de card de resumo financeiro */}
-          <Card className="hover:shadow-xl hover:scale-105 transition-transform duration-300">
-            <CardHeader>
-              <CardTitle>Receitas Totais</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center space-x-4">
-                <div className="rounded-full p-3 bg-green-100 text-green-600">
-                  <Wallet className="h-6 w-6" />
-                </div>
-                <div>
-                  <p className="text-2xl font-bold">R$ {totalReceitas.toFixed(2)}</p>
-                  <p className="text-sm text-muted-foreground">Total de entradas</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card className="hover:shadow-xl hover:scale-105 transition-transform duration-300">
-            <CardHeader>
-              <CardTitle>Despesas Totais</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center space-x-4">
-                <div className="rounded-full p-3 bg-red-100 text-red-600">
-                  <BarChart className="h-6 w-6" />
-                </div>
-                <div>
-                  <p className="text-2xl font-bold">R$ {totalDespesas.toFixed(2)}</p>
-                  <p className="text-sm text-muted-foreground">Total de saídas</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card className="hover:shadow-xl hover:scale-105 transition-transform duration-300">
-            <CardHeader>
-              <CardTitle>Saldo Atual</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center space-x-4">
-                <div className="rounded-full p-3 bg-blue-100 text-blue-600">
-                  <FileText className="h-6 w-6" />
-                </div>
-                <div>
-                  <p className="text-2xl font-bold">R$ {saldoAtual.toFixed(2)}</p>
-                  <p className="text-sm text-muted-foreground">Saldo disponível</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">Livro-caixa</h2>
+            <p className="text-sm text-muted-foreground">Receitas e despesas com vencimento no mês selecionado</p>
+          </div>
+          <Input
+            type="month"
+            value={filtros.mes}
+            onChange={(e) => setFiltros((prev) => ({ ...prev, mes: e.target.value }))}
+            className="w-full sm:w-48"
+            aria-label="Mês de referência"
+          />
         </div>
 
-        <Card className="hover:shadow-xl hover:scale-105 transition-transform duration-300">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+          {cards.map((card) => (
+            <Card key={card.titulo} className="hover:shadow-xl transition-shadow duration-300">
+              <CardHeader>
+                <CardTitle>{card.titulo}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <Skeleton className="h-12 w-full" />
+                ) : (
+                  <div className="flex items-center space-x-4">
+                    <div className={`rounded-full p-3 ${card.cor}`}>
+                      <card.icon className="h-6 w-6" />
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold">{card.valor}</p>
+                      <p className="text-sm text-muted-foreground">{card.detalhe}</p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card className="hover:shadow-xl transition-shadow duration-300">
           <CardHeader>
             <CardTitle>Ações Rápidas</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-              <Button className="gap-2 w-full">
-                <Wallet className="h-4 w-4" />
-                Registrar Receita
-              </Button>
-              <Button className="gap-2 w-full">
-                <BarChart className="h-4 w-4" />
-                Registrar Despesa
-              </Button>
-              <Button className="gap-2 w-full">
-                <Calendar className="h-4 w-4" />
-                Agendar Pagamento
-              </Button>
-              <Button className="gap-2 w-full">
-                <FileText className="h-4 w-4" />
-                Gerar Relatório
-              </Button>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {pode("financeiro.gerenciar") && (
+                <>
+                  <Button className="gap-2 w-full" onClick={() => setGerarMensalidadesOpen(true)}>
+                    <Receipt className="h-4 w-4" />
+                    Gerar Mensalidades
+                  </Button>
+                  <Button className="gap-2 w-full" onClick={() => setBoletosOpen(true)}>
+                    <Landmark className="h-4 w-4" />
+                    Boletos (CNAB)
+                  </Button>
+                  <Button className="gap-2 w-full" onClick={() => setModalLancamento({ tipo: 'receita', permitirPago: true })}>
+                    <Wallet className="h-4 w-4" />
+                    Registrar Receita
+                  </Button>
+                  <Button className="gap-2 w-full" onClick={() => setModalLancamento({ tipo: 'despesa', permitirPago: true })}>
+                    <BarChart className="h-4 w-4" />
+                    Registrar Despesa
+                  </Button>
+                  <Button
+                    className="gap-2 w-full"
+                    onClick={() => setModalLancamento({ tipo: 'despesa', titulo: 'Agendar Pagamento', permitirPago: false })}
+                  >
+                    <Calendar className="h-4 w-4" />
+                    Agendar Pagamento
+                  </Button>
+                </>
+              )}
+              {pode("folha.gerenciar") && (
+                <Button className="gap-2 w-full" onClick={() => navigate('/folha-pagamento')}>
+                  <Users className="h-4 w-4" />
+                  Folha de Pagamento
+                </Button>
+              )}
+              {pode("relatorios.ver") && (
+                <Button className="gap-2 w-full" onClick={() => navigate('/relatorios')}>
+                  <FileText className="h-4 w-4" />
+                  Gerar Relatório
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Lançamentos</CardTitle>
+            <ExportarMenu dataset={() => datasetLancamentos(lancamentosFiltrados, filtros)} disabled={loading} />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="relative md:col-span-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Buscar descrição, aluno..."
+                  value={filtros.busca}
+                  onChange={(e) => setFiltros((prev) => ({ ...prev, busca: e.target.value }))}
+                  className="pl-10"
+                />
+              </div>
+              <Select value={filtros.tipo} onValueChange={(value) => setFiltros((prev) => ({ ...prev, tipo: value as FiltrosFinanceiro['tipo'] }))}>
+                <SelectTrigger aria-label="Tipo">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todos">Receitas e despesas</SelectItem>
+                  <SelectItem value="receita">Somente receitas</SelectItem>
+                  <SelectItem value="despesa">Somente despesas</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={filtros.status} onValueChange={(value) => setFiltros((prev) => ({ ...prev, status: value as FiltrosFinanceiro['status'] }))}>
+                <SelectTrigger aria-label="Status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todos">Todos os status</SelectItem>
+                  {STATUS_LANCAMENTO.map((status) => (
+                    <SelectItem key={status.value} value={status.value}>
+                      {status.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={filtros.categoria} onValueChange={(value) => setFiltros((prev) => ({ ...prev, categoria: value }))}>
+                <SelectTrigger aria-label="Categoria">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todas">Todas as categorias</SelectItem>
+                  {categorias.map((categoria) => (
+                    <SelectItem key={categoria.value} value={categoria.value}>
+                      {categoria.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
+
+            {loading ? (
+              <div className="space-y-2">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : (
+              <LancamentosTable
+                lancamentos={lancamentosFiltrados}
+                onMarcarPago={setLancamentoPagamento}
+                onCancelar={handleCancelar}
+                onCobrarPix={setLancamentoPix}
+                onVerLembretes={setLancamentoLembretes}
+              />
+            )}
           </CardContent>
         </Card>
       </div>
+
+      <LancamentoFinanceiroModal
+        open={!!modalLancamento}
+        onOpenChange={(open) => !open && setModalLancamento(null)}
+        tipo={modalLancamento?.tipo ?? 'receita'}
+        titulo={modalLancamento?.titulo}
+        permitirPago={modalLancamento?.permitirPago ?? true}
+        onSubmit={createLancamento}
+      />
+
+      <RegistrarPagamentoModal
+        lancamento={lancamentoPagamento}
+        onOpenChange={(open) => !open && setLancamentoPagamento(null)}
+        onConfirm={marcarComoPago}
+      />
+
+      <GerarMensalidadesModal
+        open={gerarMensalidadesOpen}
+        onOpenChange={setGerarMensalidadesOpen}
+        onGerar={gerarMensalidades}
+      />
+
+      <CobrancaPixModal
+        lancamento={lancamentoPix}
+        onOpenChange={(open) => !open && setLancamentoPix(null)}
+        onVincularTxid={vincularTxidPix}
+      />
+
+      <BoletosCnabModal
+        open={boletosOpen}
+        onOpenChange={setBoletosOpen}
+        lancamentos={receitasEmAberto}
+        onConcluido={refetch}
+      />
+
+      <LembretesPagamentoModal
+        lancamento={lancamentoLembretes}
+        onOpenChange={(open) => !open && setLancamentoLembretes(null)}
+      />
     </DashboardLayout>
   )
 }
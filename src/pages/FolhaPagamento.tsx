@@ -0,0 +1,263 @@
+import { DashboardLayout } from "@/components/DashboardLayout"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ArrowLeft, CheckCircle, Clock, FileText, Users, Wallet } from "lucide-react"
+import { useEffect, useMemo, useState } from "react"
+import { Link, useNavigate } from "react-router-dom"
+import { useFolhaPagamento } from "@/hooks/useFolhaPagamento"
+import { getMesReferencia } from "@/utils/financeiroUtils"
+import { formatCurrency } from "@/utils/formatUtils"
+import { calcularTotalFolha, calcularTotalProfessor, formatarHoras, getVencimentoFolha } from "@/utils/folhaPagamentoUtils"
+import type { AjusteFolha } from "@/types/financeiro"
+
+const formatarData = (data: string) => data.slice(0, 10).split("-").reverse().join("/")
+
+export default function FolhaPagamento() {
+  const navigate = useNavigate()
+  const [mes, setMes] = useState(getMesReferencia())
+  const { folha, itens, calculos, loading, aprovarFolha } = useFolhaPagamento(mes)
+  const [ajustes, setAjustes] = useState<Record<string, AjusteFolha>>({})
+  const [dataVencimento, setDataVencimento] = useState(getVencimentoFolha(mes))
+  const [aprovando, setAprovando] = useState(false)
+
+  useEffect(() => {
+    setAjustes({})
+    setDataVencimento(getVencimentoFolha(mes))
+  }, [mes])
+
+  // Depois de aprovada a folha exibe os itens gravados; antes, o cálculo atual com os ajustes digitados
+  const linhas = useMemo(() => {
+    if (folha) return itens
+    return calculos.map((calculo) => ({
+      ...calculo,
+      ajuste: ajustes[calculo.professor_id]?.valor ?? 0,
+      ajuste_descricao: ajustes[calculo.professor_id]?.descricao ?? "",
+      valor_total: calcularTotalProfessor(calculo.valor_aulas, ajustes[calculo.professor_id]?.valor ?? 0),
+    }))
+  }, [folha, itens, calculos, ajustes])
+
+  const totalHoras = linhas.reduce((total, linha) => total + Number(linha.horas), 0)
+  const totalFolha = folha ? Number(folha.valor_total) : calcularTotalFolha(calculos, ajustes)
+
+  const atualizarAjuste = (professorId: string, campo: "valor" | "descricao", valor: string) => {
+    setAjustes((prev) => {
+      const atual = prev[professorId] ?? { professor_id: professorId, valor: 0, descricao: "" }
+      return {
+        ...prev,
+        [professorId]: { ...atual, [campo]: campo === "valor" ? Number(valor) || 0 : valor },
+      }
+    })
+  }
+
+  const handleAprovar = async () => {
+    if (!dataVencimento) return
+    if (!window.confirm(`Aprovar a folha de ${formatarData(mes)} no total de ${formatCurrency(totalFolha)}?`)) return
+
+    setAprovando(true)
+    await aprovarFolha(Object.values(ajustes), dataVencimento)
+    setAprovando(false)
+  }
+
+  const cards = [
+    {
+      titulo: "Professores",
+      valor: linhas.length.toString(),
+      icon: Users,
+      cor: "bg-blue-100 text-blue-600",
+    },
+    {
+      titulo: "Horas Realizadas",
+      valor: formatarHoras(totalHoras),
+      icon: Clock,
+      cor: "bg-amber-100 text-amber-600",
+    },
+    {
+      titulo: "Total da Folha",
+      valor: formatCurrency(totalFolha),
+      icon: Wallet,
+      cor: "bg-green-100 text-green-600",
+    },
+  ]
+
+  return (
+    <DashboardLayout title="Folha de Pagamento">
+      <div className="p-6 lg:p-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/financeiro")} aria-label="Voltar ao financeiro">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h2 className="text-lg font-semibold flex items-center gap-2">
+                Folha dos professores
+                {folha ? <Badge>Aprovada</Badge> : <Badge variant="secondary">Em aberto</Badge>}
+              </h2>
+              <p className="text-sm text-muted-foreground">Horas das aulas realizadas no mês multiplicadas pelo valor/hora de cada professor</p>
+            </div>
+          </div>
+          <Input
+            type="month"
+            value={mes}
+            onChange={(e) => e.target.value && setMes(e.target.value)}
+            className="w-full sm:w-48"
+            aria-label="Competência"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+          {cards.map((card) => (
+            <Card key={card.titulo}>
+              <CardContent className="p-4">
+                {loading ? (
+                  <Skeleton className="h-12 w-full" />
+                ) : (
+                  <div className="flex items-center gap-4">
+                    <div className={`rounded-full p-3 ${card.cor}`}>
+                      <card.icon className="h-5 w-5" />
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">{card.titulo}</p>
+                      <p className="text-2xl font-bold">{card.valor}</p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Professores</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="space-y-2">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-10 w-full" />
+                ))}
+              </div>
+            ) : linhas.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                Nenhuma aula realizada neste mês. Marque as aulas como realizadas ao registrar a chamada.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Professor</TableHead>
+                      <TableHead className="text-right">Aulas</TableHead>
+                      <TableHead className="text-right">Horas</TableHead>
+                      <TableHead className="text-right">Valor/hora</TableHead>
+                      <TableHead className="text-right">Valor das aulas</TableHead>
+                      <TableHead className="w-32">Ajuste (R$)</TableHead>
+                      <TableHead>Motivo do ajuste</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      {folha && <TableHead className="w-12" />}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {linhas.map((linha) => (
+                      <TableRow key={linha.professor_id}>
+                        <TableCell className="font-medium">
+                          {linha.professor_nome}
+                          {!folha && !linha.valor_hora && (
+                            <p className="text-xs text-amber-600">Sem valor/hora cadastrado</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{linha.aulas_realizadas}</TableCell>
+                        <TableCell className="text-right">{formatarHoras(Number(linha.horas))}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(linha.valor_hora))}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(linha.valor_aulas))}</TableCell>
+                        <TableCell>
+                          {folha ? (
+                            formatCurrency(Number(linha.ajuste))
+                          ) : (
+                            <Input
+                              type="number"
+                              step="0.01"
+                              value={ajustes[linha.professor_id]?.valor || ""}
+                              onChange={(e) => atualizarAjuste(linha.professor_id, "valor", e.target.value)}
+                              placeholder="0,00"
+                              aria-label={`Ajuste de ${linha.professor_nome}`}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {folha ? (
+                            linha.ajuste_descricao || "-"
+                          ) : (
+                            <Input
+                              value={ajustes[linha.professor_id]?.descricao ?? ""}
+                              onChange={(e) => atualizarAjuste(linha.professor_id, "descricao", e.target.value)}
+                              placeholder="Ex: ensaio extra, desconto"
+                              aria-label={`Motivo do ajuste de ${linha.professor_nome}`}
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">{formatCurrency(Number(linha.valor_total))}</TableCell>
+                        {folha && (
+                          <TableCell>
+                            <Button variant="ghost" size="icon" asChild>
+                              <Link
+                                to={`/folha-pagamento/${folha.id}/professor/${linha.professor_id}`}
+                                aria-label={`Demonstrativo de ${linha.professor_nome}`}
+                              >
+                                <FileText className="h-4 w-4" />
+                              </Link>
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={7}>Total</TableCell>
+                      <TableCell className="text-right font-bold">{formatCurrency(totalFolha)}</TableCell>
+                      {folha && <TableCell />}
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              </div>
+            )}
+
+            {folha ? (
+              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                Aprovada {folha.aprovada_em ? `em ${formatarData(folha.aprovada_em)}` : ""}. Despesas lançadas no financeiro com vencimento em{" "}
+                {formatarData(folha.data_vencimento)}.
+              </p>
+            ) : (
+              !loading &&
+              linhas.length > 0 && (
+                <div className="flex flex-col sm:flex-row sm:items-end justify-end gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="vencimento-folha">Data de pagamento</Label>
+                    <Input
+                      id="vencimento-folha"
+                      type="date"
+                      value={dataVencimento}
+                      onChange={(e) => setDataVencimento(e.target.value)}
+                      className="w-full sm:w-48"
+                    />
+                  </div>
+                  <Button className="gap-2" onClick={handleAprovar} disabled={aprovando || !dataVencimento}>
+                    <CheckCircle className="h-4 w-4" />
+                    {aprovando ? "Aprovando..." : "Aprovar e lançar despesas"}
+                  </Button>
+                </div>
+              )
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  )
+}
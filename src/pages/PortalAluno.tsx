@@ -0,0 +1,222 @@
+import { DashboardLayout } from "@/components/DashboardLayout"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Calendar, Clock, ExternalLink, FileText, QrCode, TrendingUp, Wallet } from "lucide-react"
+import { useEffect, useState } from "react"
+import { useSearchParams } from "react-router-dom"
+import { usePortalAluno } from "@/hooks/usePortalAluno"
+import { useDiasSemAula } from "@/hooks/useCalendario"
+import { useSchool } from "@/contexts/SchoolContext"
+import { CobrancaPixModal } from "@/components/modals/CobrancaPixModal"
+import { getValorDevido, toISODate } from "@/utils/financeiroUtils"
+import { formatCurrency } from "@/utils/formatUtils"
+import { getPeriodoDasDatas } from "@/utils/calendarioUtils"
+import { listarProximasAulas, resumirCobrancas, resumirFrequencia } from "@/utils/portalResponsavelUtils"
+import type { FinanceiroItem } from "@/types/financeiro"
+
+const formatarData = (data: string) => data.slice(0, 10).split("-").reverse().join("/")
+const formatarHora = (hora: string) => hora.slice(0, 5)
+
+export default function PortalAluno() {
+  const { school } = useSchool()
+  const { aluno, aulas, presencas, cobrancas, materiais, loading } = usePortalAluno()
+  const [cobrancaPix, setCobrancaPix] = useState<FinanceiroItem | null>(null)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const periodoPresencas = getPeriodoDasDatas(presencas.map((p) => p.data_aula))
+  const { datas: diasSemAula } = useDiasSemAula(periodoPresencas?.inicio, periodoPresencas?.fim)
+
+  // Link dos lembretes de pagamento (?cobranca=<id>) abre o PIX da cobrança
+  useEffect(() => {
+    const cobrancaId = searchParams.get("cobranca")
+    if (!cobrancaId || loading) return
+
+    const cobranca = cobrancas.find((c) => c.id === cobrancaId)
+    if (cobranca && school?.chave_pix && cobranca.pix_txid) {
+      setCobrancaPix(cobranca)
+    }
+    setSearchParams({}, { replace: true })
+  }, [searchParams, setSearchParams, loading, cobrancas, school?.chave_pix])
+
+  if (loading) {
+    return (
+      <DashboardLayout title="Minha Área">
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (!aluno) {
+    return (
+      <DashboardLayout title="Minha Área">
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Sua conta ainda não está ligada a um cadastro de aluno. Procure a secretaria da escola.
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    )
+  }
+
+  const hoje = toISODate()
+  const proximasAulas = listarProximasAulas([aluno], aulas, hoje, 5)
+  const frequencia = resumirFrequencia(presencas, diasSemAula)
+  const resumoCobrancas = resumirCobrancas(cobrancas, hoje)
+
+  return (
+    <DashboardLayout title="Minha Área">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+            <Avatar className="h-14 w-14">
+              <AvatarImage src={aluno.foto_url || undefined} alt={aluno.nome} />
+              <AvatarFallback>{aluno.nome.charAt(0)}</AvatarFallback>
+            </Avatar>
+            <div>
+              <CardTitle className="text-xl">Olá, {aluno.nome.split(" ")[0]}!</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {aluno.turmas.length > 0
+                  ? aluno.turmas.map((t) => `${t.nome} (${t.dia_semana}, ${formatarHora(t.horario_inicio)})`).join(" • ")
+                  : "Sem matrícula ativa"}
+              </p>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="flex items-center gap-2">
+                <TrendingUp className="h-4 w-4" />
+                Frequência
+              </span>
+              <span className="font-semibold">{frequencia.percentual}%</span>
+            </div>
+            <Progress value={frequencia.percentual} />
+            <p className="text-xs text-muted-foreground mt-1">
+              {frequencia.presentes} presenças, {frequencia.ausentes} faltas e {frequencia.justificados} justificadas
+            </p>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          {/* Próximas aulas */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Calendar className="h-5 w-5" />
+                Próximas aulas
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {proximasAulas.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma aula agendada</p>
+              ) : (
+                <div className="space-y-2">
+                  {proximasAulas.map((aula) => (
+                    <div key={aula.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <span className="font-medium">{aula.turma_nome}</span>
+                      <div className="text-right text-sm">
+                        <p>{formatarData(aula.data_aula)}</p>
+                        <p className="text-muted-foreground flex items-center gap-1 justify-end">
+                          <Clock className="h-3 w-3" />
+                          {formatarHora(aula.horario_inicio)} - {formatarHora(aula.horario_fim)}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Mensalidades pendentes */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-lg">
+                <span className="flex items-center gap-2">
+                  <Wallet className="h-5 w-5" />
+                  Mensalidades pendentes
+                </span>
+                {cobrancas.length > 0 && (
+                  <span className="text-base font-semibold">{formatCurrency(resumoCobrancas.total)}</span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {cobrancas.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma mensalidade pendente</p>
+              ) : (
+                <div className="space-y-2">
+                  {cobrancas.map((cobranca) => (
+                    <div key={cobranca.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium">{cobranca.descricao}</p>
+                        <p className="text-xs text-muted-foreground">vence em {formatarData(cobranca.data_vencimento)}</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {(cobranca.status === "atrasado" || cobranca.data_vencimento < hoje) && (
+                          <Badge variant="destructive">Vencida</Badge>
+                        )}
+                        <span className="font-semibold">{formatCurrency(getValorDevido(cobranca))}</span>
+                        {school?.chave_pix && cobranca.pix_txid && (
+                          <Button variant="outline" size="sm" onClick={() => setCobrancaPix(cobranca)} aria-label="Pagar com PIX">
+                            <QrCode className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Materiais das turmas */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <FileText className="h-5 w-5" />
+              Materiais de aula
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {materiais.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum material compartilhado pelos professores</p>
+            ) : (
+              <div className="space-y-2">
+                {materiais.map((material) => (
+                  <a
+                    key={material.id}
+                    href={material.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center justify-between p-3 border rounded-lg hover:bg-accent"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium">{material.titulo}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {[material.turma_nome, material.descricao].filter(Boolean).join(" • ")}
+                      </p>
+                    </div>
+                    <ExternalLink className="h-4 w-4 text-muted-foreground shrink-0" />
+                  </a>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <CobrancaPixModal
+        lancamento={cobrancaPix}
+        onOpenChange={(open) => !open && setCobrancaPix(null)}
+        onVincularTxid={async (lancamento) => ({ success: !!lancamento.pix_txid, txid: lancamento.pix_txid ?? null })}
+      />
+    </DashboardLayout>
+  )
+}
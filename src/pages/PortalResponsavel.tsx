@@ -0,0 +1,260 @@
+import { DashboardLayout } from "@/components/DashboardLayout"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Calendar, Clock, MessageCircle, QrCode, TrendingUp, Wallet } from "lucide-react"
+import { useEffect, useState } from "react"
+import { useNavigate, useSearchParams } from "react-router-dom"
+import { usePortalResponsavel } from "@/hooks/usePortalResponsavel"
+import { useDiasSemAula } from "@/hooks/useCalendario"
+import { useSchool } from "@/contexts/SchoolContext"
+import { CobrancaPixModal } from "@/components/modals/CobrancaPixModal"
+import { getValorDevido, toISODate } from "@/utils/financeiroUtils"
+import { formatCurrency } from "@/utils/formatUtils"
+import { getPeriodoDasDatas } from "@/utils/calendarioUtils"
+import { listarProximasAulas, resumirCobrancas, resumirFrequencia } from "@/utils/portalResponsavelUtils"
+import type { FinanceiroItem } from "@/types/financeiro"
+import type { ProfessorPortal } from "@/types/responsavel"
+
+const formatarData = (data: string) => data.slice(0, 10).split("-").reverse().join("/")
+const formatarHora = (hora: string) => hora.slice(0, 5)
+
+export default function PortalResponsavel() {
+  const navigate = useNavigate()
+  const { school } = useSchool()
+  const { filhos, aulas, presencas, cobrancas, professores, loading, iniciarConversa } = usePortalResponsavel()
+  const [cobrancaPix, setCobrancaPix] = useState<FinanceiroItem | null>(null)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [abrindoConversa, setAbrindoConversa] = useState<string | null>(null)
+  const periodoPresencas = getPeriodoDasDatas(presencas.map((p) => p.data_aula))
+  const { datas: diasSemAula } = useDiasSemAula(periodoPresencas?.inicio, periodoPresencas?.fim)
+
+  // Link dos lembretes de pagamento (?cobranca=<id>) abre o PIX da cobrança
+  useEffect(() => {
+    const cobrancaId = searchParams.get("cobranca")
+    if (!cobrancaId || loading) return
+
+    const cobranca = cobrancas.find((c) => c.id === cobrancaId)
+    if (cobranca && school?.chave_pix && cobranca.pix_txid) {
+      setCobrancaPix(cobranca)
+    }
+    setSearchParams({}, { replace: true })
+  }, [searchParams, setSearchParams, loading, cobrancas, school?.chave_pix])
+
+  const hoje = toISODate()
+  const proximasAulas = listarProximasAulas(filhos, aulas, hoje)
+  const resumoCobrancas = resumirCobrancas(cobrancas, hoje)
+
+  const handleMensagem = async (professor: ProfessorPortal) => {
+    setAbrindoConversa(professor.id)
+    const result = await iniciarConversa(professor)
+    setAbrindoConversa(null)
+    if (result.success) {
+      navigate("/comunicacao", { state: { conversationId: result.conversationId } })
+    }
+  }
+
+  if (loading) {
+    return (
+      <DashboardLayout title="Portal da Família">
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (filhos.length === 0) {
+    return (
+      <DashboardLayout title="Portal da Família">
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Nenhum aluno vinculado à sua conta. Procure a secretaria da escola.
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    )
+  }
+
+  return (
+    <DashboardLayout title="Portal da Família">
+      <div className="space-y-6">
+        {/* Filhos: turmas e frequência */}
+        <div className="grid gap-4 md:grid-cols-2">
+          {filhos.map((filho) => {
+            const frequencia = resumirFrequencia(presencas.filter((p) => p.aluno_id === filho.id), diasSemAula)
+            return (
+              <Card key={filho.id}>
+                <CardHeader className="flex flex-row items-center gap-4 space-y-0">
+                  <Avatar className="h-12 w-12">
+                    <AvatarImage src={filho.foto_url || undefined} alt={filho.nome} />
+                    <AvatarFallback>{filho.nome.charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <CardTitle className="text-lg">{filho.nome}</CardTitle>
+                    {filho.instrumento && <p className="text-sm text-muted-foreground">{filho.instrumento}</p>}
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    {filho.turmas.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Sem matrícula ativa</p>
+                    ) : (
+                      filho.turmas.map((turma) => (
+                        <div key={turma.id} className="flex items-center justify-between text-sm">
+                          <span className="font-medium">{turma.nome}</span>
+                          <span className="text-muted-foreground">
+                            {turma.dia_semana} • {formatarHora(turma.horario_inicio)} - {formatarHora(turma.horario_fim)}
+                          </span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                  <div>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="flex items-center gap-2">
+                        <TrendingUp className="h-4 w-4" />
+                        Frequência
+                      </span>
+                      <span className="font-semibold">{frequencia.percentual}%</span>
+                    </div>
+                    <Progress value={frequencia.percentual} />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {frequencia.presentes} presenças, {frequencia.ausentes} faltas e {frequencia.justificados} justificadas
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          {/* Próximas aulas */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Calendar className="h-5 w-5" />
+                Próximas aulas
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {proximasAulas.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma aula agendada</p>
+              ) : (
+                <div className="space-y-2">
+                  {proximasAulas.map((aula) => (
+                    <div key={`${aula.id}-${aula.aluno_id}`} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium">{aula.turma_nome}</p>
+                        <p className="text-xs text-muted-foreground">{aula.aluno_nome}</p>
+                      </div>
+                      <div className="text-right text-sm">
+                        <p>{formatarData(aula.data_aula)}</p>
+                        <p className="text-muted-foreground flex items-center gap-1 justify-end">
+                          <Clock className="h-3 w-3" />
+                          {formatarHora(aula.horario_inicio)}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Mensalidades em aberto */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-lg">
+                <span className="flex items-center gap-2">
+                  <Wallet className="h-5 w-5" />
+                  Mensalidades em aberto
+                </span>
+                {cobrancas.length > 0 && (
+                  <span className="text-base font-semibold">{formatCurrency(resumoCobrancas.total)}</span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {cobrancas.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma cobrança em aberto</p>
+              ) : (
+                <div className="space-y-2">
+                  {cobrancas.map((cobranca) => {
+                    const vencida = cobranca.status === "atrasado" || cobranca.data_vencimento < hoje
+                    return (
+                      <div key={cobranca.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div>
+                          <p className="font-medium">{cobranca.descricao}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {cobranca.aluno?.nome} • vence em {formatarData(cobranca.data_vencimento)}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {vencida && <Badge variant="destructive">Vencida</Badge>}
+                          <span className="font-semibold">{formatCurrency(getValorDevido(cobranca))}</span>
+                          {/* O txid é gerado pela secretaria; o responsável apenas consulta o QR Code */}
+                          {school?.chave_pix && cobranca.pix_txid && (
+                            <Button variant="outline" size="sm" onClick={() => setCobrancaPix(cobranca)} aria-label="Pagar com PIX">
+                              <QrCode className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Professores */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <MessageCircle className="h-5 w-5" />
+              Professores
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {professores.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum professor nas turmas dos seus filhos</p>
+            ) : (
+              <div className="space-y-2">
+                {professores.map((professor) => (
+                  <div key={professor.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <p className="font-medium">{professor.nome}</p>
+                      <p className="text-xs text-muted-foreground">{professor.turmas.join(", ")}</p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!professor.user_id || abrindoConversa === professor.id}
+                      onClick={() => handleMensagem(professor)}
+                    >
+                      <MessageCircle className="h-4 w-4 mr-2" />
+                      Enviar mensagem
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <CobrancaPixModal
+        lancamento={cobrancaPix}
+        onOpenChange={(open) => !open && setCobrancaPix(null)}
+        onVincularTxid={async (lancamento) => ({ success: !!lancamento.pix_txid, txid: lancamento.pix_txid ?? null })}
+      />
+    </DashboardLayout>
+  )
+}
@@ -6,13 +6,21 @@ import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Input } from "@/components/ui/input"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Search, Mail, Phone, Users, Calendar, Star, Plus } from "lucide-react"
+import { Search, Mail, Phone, Users, Calendar, Star, Plus, MailPlus } from "lucide-react"
 import { useProfessores } from "@/hooks/useProfessores"
 import { AddProfessorModal } from "@/components/modals/AddProfessorModal"
+import { ConvidarUsuarioModal } from "@/components/modals/ConvidarUsuarioModal"
+import { ConvitesPendentesCard } from "@/components/convites/ConvitesPendentesCard"
+import { useConvites } from "@/hooks/useConvites"
+import { useUserProfile } from "@/contexts/UserProfileContext"
 import { useState } from "react"
 
 export default function Professores() {
   const { professores, loading, refetch } = useProfessores()
+  const { pode } = useUserProfile()
+  const podeGerenciar = pode("professores.gerenciar")
+  const podeConvidar = pode("usuarios.convidar")
+  const { convites, loading: loadingConvites, convidar, reenviar, revogar } = useConvites()
   const [searchTerm, setSearchTerm] = useState("")
 
   const filteredProfessores = professores.filter(professor =>
@@ -119,17 +127,42 @@ export default function Professores() {
             />
           </div>
           
-          <AddProfessorModal
-            trigger={
-              <Button className="flex items-center gap-2">
-                <Plus className="h-4 w-4" />
-                Novo Professor
-              </Button>
-            }
-            onProfessorAdded={refetch}
-          />
+          <div className="flex flex-wrap gap-2">
+            {podeConvidar && (
+              <ConvidarUsuarioModal
+                trigger={
+                  <Button variant="outline" className="flex items-center gap-2">
+                    <MailPlus className="h-4 w-4" />
+                    Convidar
+                  </Button>
+                }
+                onConvidar={convidar}
+              />
+            )}
+            {podeGerenciar && (
+              <AddProfessorModal
+                trigger={
+                  <Button className="flex items-center gap-2">
+                    <Plus className="h-4 w-4" />
+                    Novo Professor
+                  </Button>
+                }
+                onProfessorAdded={refetch}
+              />
+            )}
+          </div>
         </div>
 
+        {/* Convites pendentes da equipe */}
+        {podeConvidar && (
+          <ConvitesPendentesCard
+            convites={convites}
+            loading={loadingConvites}
+            onReenviar={reenviar}
+            onRevogar={revogar}
+          />
+        )}
+
         {/* Lista de Professores */}
         <Card>
           <CardHeader>
@@ -230,12 +263,26 @@ export default function Professores() {
                       </div>
 
                       <div className="flex items-center gap-2">
+                        {podeConvidar && !professor.user_id && !convites.some(c => c.professor_id === professor.id) && (
+                          <ConvidarUsuarioModal
+                            professor={professor}
+                            trigger={
+                              <Button variant="outline" size="sm" className="gap-2">
+                                <MailPlus className="h-4 w-4" />
+                                Dar acesso
+                              </Button>
+                            }
+                            onConvidar={convidar}
+                          />
+                        )}
                         <Button variant="outline" size="sm">
                           Ver Horários
                         </Button>
-                        <Button variant="outline" size="sm">
-                          Editar
-                        </Button>
+                        {podeGerenciar && (
+                          <Button variant="outline" size="sm">
+                            Editar
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </div>
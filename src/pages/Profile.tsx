@@ -9,6 +9,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { UserService } from '@/services/userService'
+import { PreferenciasNotificacoes } from '@/components/notificacoes/PreferenciasNotificacoes'
 import { toast } from '@/hooks/use-toast'
 import {
   User,
@@ -251,6 +252,9 @@ export function Profile() {
             </CardContent>
           </Card>
 
+          {/* Notificações */}
+          <PreferenciasNotificacoes />
+
           {/* Permissões */}
           <Card>
             <CardHeader>
@@ -1,34 +1,85 @@
 import { DashboardLayout } from "@/components/DashboardLayout"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts'
-import { Download, FileBarChart, Users, TrendingUp, Calendar } from "lucide-react"
+import { FileBarChart, Users, TrendingUp, Calendar } from "lucide-react"
+import { Skeleton } from "@/components/ui/skeleton"
 import { useState } from "react"
+import { useRelatorios } from "@/hooks/useRelatorios"
+import { useAlunos } from "@/hooks/useAlunos"
+import { useFinanceiro } from "@/hooks/useFinanceiro"
+import { ExportarMenu } from "@/components/relatorios/ExportarMenu"
+import {
+  datasetAlunos,
+  datasetLancamentos,
+  datasetPresencaPorTurma,
+  datasetResumoMensal,
+} from "@/utils/datasetsExportacao"
+import { formatCurrency } from "@/utils/formatUtils"
+import type { Indicador, PeriodoRelatorio } from "@/utils/relatoriosUtils"
 
-// Dados de exemplo para os gráficos
-const attendanceData = [
-  { name: 'Jan', presenca: 85 },
-  { name: 'Fev', presenca: 88 },
-  { name: 'Mar', presenca: 92 },
-  { name: 'Abr', presenca: 90 },
-  { name: 'Mai', presenca: 85 },
-  { name: 'Jun', presenca: 89 },
-]
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8']
 
-const instrumentData = [
-  { name: 'Violão', value: 35 },
-  { name: 'Piano', value: 25 },
-  { name: 'Bateria', value: 20 },
-  { name: 'Canto', value: 15 },
-  { name: 'Outros', value: 5 },
-]
+const formatarVariacao = (indicador: Indicador, unidade: '%' | 'p.p.') => {
+  if (indicador.variacao === null) return { texto: 'Sem dados do período anterior', cor: 'text-muted-foreground' }
+  const sinal = indicador.variacao > 0 ? '+' : ''
+  return {
+    texto: `${sinal}${indicador.variacao.toLocaleString('pt-BR')}${unidade === '%' ? '%' : ' p.p.'} vs período anterior`,
+    cor: indicador.variacao > 0 ? 'text-green-600' : indicador.variacao < 0 ? 'text-red-600' : 'text-muted-foreground',
+  }
+}
 
-const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8']
+function SemDados({ mensagem }: { mensagem: string }) {
+  return (
+    <div className="flex items-center justify-center h-60">
+      <p className="text-muted-foreground">{mensagem}</p>
+    </div>
+  )
+}
 
 export default function Relatorios() {
-  const [periodoSelecionado, setPeriodoSelecionado] = useState('6m')
+  const [periodoSelecionado, setPeriodoSelecionado] = useState<PeriodoRelatorio>('6m')
+  const { relatorio, intervalo, loading } = useRelatorios(periodoSelecionado)
+  const { alunos, loading: loadingAlunos } = useAlunos()
+  const { financeiro, loading: loadingFinanceiro } = useFinanceiro()
+
+  const lancamentosDoPeriodo = () =>
+    financeiro.filter((l) => l.data_vencimento >= intervalo.inicio && l.data_vencimento <= intervalo.fim)
+
+  const cards = [
+    {
+      titulo: 'Total de Alunos',
+      valor: relatorio.totalAlunos.valor.toString(),
+      variacao: formatarVariacao(relatorio.totalAlunos, '%'),
+      icon: Users,
+      cor: 'bg-blue-100 dark:bg-blue-900/50 text-blue-600',
+    },
+    {
+      titulo: 'Taxa de Retenção',
+      valor: `${relatorio.retencao.valor.toLocaleString('pt-BR')}%`,
+      variacao: formatarVariacao(relatorio.retencao, 'p.p.'),
+      icon: TrendingUp,
+      cor: 'bg-green-100 dark:bg-green-900/50 text-green-600',
+    },
+    {
+      titulo: 'Média de Presença',
+      valor: `${relatorio.presenca.valor.toLocaleString('pt-BR')}%`,
+      variacao: formatarVariacao(relatorio.presenca, 'p.p.'),
+      icon: Calendar,
+      cor: 'bg-yellow-100 dark:bg-yellow-900/50 text-yellow-600',
+    },
+    {
+      titulo: 'Novas Matrículas',
+      valor: relatorio.novasMatriculas.valor.toString(),
+      variacao: formatarVariacao(relatorio.novasMatriculas, '%'),
+      icon: FileBarChart,
+      cor: 'bg-purple-100 dark:bg-purple-900/50 text-purple-600',
+    },
+  ]
+
+  const temPresencas = relatorio.presencaPorMes.some((mes) => mes.presenca !== null)
+  const temFinanceiro = relatorio.financeiroPorMes.some((mes) => mes.receitas > 0 || mes.despesas > 0)
   
   return (
     <DashboardLayout title="Relatórios">
@@ -41,7 +92,7 @@ export default function Relatorios() {
           </div>
           
           <div className="flex gap-2">
-            <Select defaultValue="6m" onValueChange={setPeriodoSelecionado}>
+            <Select value={periodoSelecionado} onValueChange={(value) => setPeriodoSelecionado(value as PeriodoRelatorio)}>
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="Selecione o período" />
               </SelectTrigger>
@@ -53,74 +104,32 @@ export default function Relatorios() {
               </SelectContent>
             </Select>
             
-            <Button variant="outline" className="gap-2">
-              <Download className="h-4 w-4" />
-              Exportar
-            </Button>
+            <ExportarMenu dataset={() => datasetResumoMensal(relatorio, intervalo)} disabled={loading} />
           </div>
         </div>
         
         {/* Cards de Resumo */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-          <Card className="hover:shadow-xl hover:scale-105 transition-transform duration-300">
-            <CardContent className="p-6">
-              <div className="flex items-center gap-4">
-                <div className="h-12 w-12 rounded-full bg-blue-100 dark:bg-blue-900/50 flex items-center justify-center">
-                  <Users className="h-6 w-6 text-blue-600" />
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Total de Alunos</p>
-                  <p className="text-2xl font-bold">248</p>
-                  <p className="text-xs text-green-600">+12% vs período anterior</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-          
-          <Card className="hover:shadow-xl hover:scale-105 transition-transform duration-300">
-            <CardContent className="p-6">
-              <div className="flex items-center gap-4">
-                <div className="h-12 w-12 rounded-full bg-green-100 dark:bg-green-900/50 flex items-center justify-center">
-                  <TrendingUp className="h-6 w-6 text-green-600" />
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Taxa de Retenção</p>
-                  <p className="text-2xl font-bold">92%</p>
-                  <p className="text-xs text-green-600">+3% vs período anterior</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-          
-          <Card className="hover:shadow-xl hover:scale-105 transition-transform duration-300">
-            <CardContent className="p-6">
-              <div className="flex items-center gap-4">
-                <div className="h-12 w-12 rounded-full bg-yellow-100 dark:bg-yellow-900/50 flex items-center justify-center">
-                  <Calendar className="h-6 w-6 text-yellow-600" />
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Média de Presença</p>
-                  <p className="text-2xl font-bold">88%</p>
-                  <p className="text-xs text-red-600">-2% vs período anterior</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-          
-          <Card className="hover:shadow-xl hover:scale-105 transition-transform duration-300">
-            <CardContent className="p-6">
-              <div className="flex items-center gap-4">
-                <div className="h-12 w-12 rounded-full bg-purple-100 dark:bg-purple-900/50 flex items-center justify-center">
-                  <FileBarChart className="h-6 w-6 text-purple-600" />
-                </div>
-                <div>
-                  <p className="text-sm text-muted-foreground">Novas Matrículas</p>
-                  <p className="text-2xl font-bold">32</p>
-                  <p className="text-xs text-green-600">+8% vs período anterior</p>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          {cards.map((card) => (
+            <Card key={card.titulo} className="hover:shadow-xl hover:scale-105 transition-transform duration-300">
+              <CardContent className="p-6">
+                {loading ? (
+                  <Skeleton className="h-16 w-full" />
+                ) : (
+                  <div className="flex items-center gap-4">
+                    <div className={`h-12 w-12 rounded-full flex items-center justify-center ${card.cor}`}>
+                      <card.icon className="h-6 w-6" />
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">{card.titulo}</p>
+                      <p className="text-2xl font-bold">{card.valor}</p>
+                      <p className={`text-xs ${card.variacao.cor}`}>{card.variacao.texto}</p>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
         </div>
         
         {/* Gráficos */}
@@ -138,20 +147,24 @@ export default function Relatorios() {
                 <CardTitle>Taxa de Presença por Mês</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="h-80">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <BarChart
-                      data={attendanceData}
-                      margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
-                    >
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="name" />
-                      <YAxis domain={[0, 100]} />
-                      <Tooltip formatter={(value) => [`${value}%`, 'Presença']} />
-                      <Bar dataKey="presenca" fill="#3b82f6" radius={[4, 4, 0, 0]} />
-                    </BarChart>
-                  </ResponsiveContainer>
-                </div>
+                {!loading && !temPresencas ? (
+                  <SemDados mensagem="Nenhuma chamada registrada no período" />
+                ) : (
+                  <div className="h-80">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart
+                        data={relatorio.presencaPorMes}
+                        margin={{ top: 20, right: 30, left: 20, bottom: 5 }}
+                      >
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="name" />
+                        <YAxis domain={[0, 100]} />
+                        <Tooltip formatter={(value) => [`${value}%`, 'Presença']} />
+                        <Bar dataKey="presenca" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -162,28 +175,32 @@ export default function Relatorios() {
                 <CardTitle>Distribuição de Alunos por Instrumento</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="h-80">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <PieChart>
-                      <Pie
-                        data={instrumentData}
-                        cx="50%"
-                        cy="50%"
-                        labelLine={false}
-                        outerRadius={100}
-                        fill="#8884d8"
-                        dataKey="value"
-                        label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
-                      >
-                        {instrumentData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                        ))}
-                      </Pie>
-                      <Tooltip formatter={(value) => [`${value}%`, 'Alunos']} />
-                      <Legend />
-                    </PieChart>
-                  </ResponsiveContainer>
-                </div>
+                {!loading && relatorio.instrumentos.length === 0 ? (
+                  <SemDados mensagem="Nenhum aluno ativo no período" />
+                ) : (
+                  <div className="h-80">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <PieChart>
+                        <Pie
+                          data={relatorio.instrumentos}
+                          cx="50%"
+                          cy="50%"
+                          labelLine={false}
+                          outerRadius={100}
+                          fill="#8884d8"
+                          dataKey="value"
+                          label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                        >
+                          {relatorio.instrumentos.map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                          ))}
+                        </Pie>
+                        <Tooltip formatter={(value) => [value, 'Alunos']} />
+                        <Legend />
+                      </PieChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -191,12 +208,26 @@ export default function Relatorios() {
           <TabsContent value="financeiro">
             <Card className="hover:shadow-xl hover:scale-105 transition-transform duration-300">
               <CardHeader>
-                <CardTitle>Relatório Financeiro</CardTitle>
+                <CardTitle>Receitas e Despesas Pagas por Mês</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="flex items-center justify-center h-60">
-                  <p className="text-muted-foreground">Dados financeiros serão exibidos aqui</p>
-                </div>
+                {!loading && !temFinanceiro ? (
+                  <SemDados mensagem="Nenhum pagamento registrado no período" />
+                ) : (
+                  <div className="h-80">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={relatorio.financeiroPorMes} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="name" />
+                        <YAxis tickFormatter={(value) => formatCurrency(Number(value))} width={100} />
+                        <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                        <Legend />
+                        <Bar dataKey="receitas" name="Receitas" fill="#16a34a" radius={[4, 4, 0, 0]} />
+                        <Bar dataKey="despesas" name="Despesas" fill="#dc2626" radius={[4, 4, 0, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -204,12 +235,24 @@ export default function Relatorios() {
           <TabsContent value="desempenho">
             <Card className="hover:shadow-xl hover:scale-105 transition-transform duration-300">
               <CardHeader>
-                <CardTitle>Desempenho dos Alunos</CardTitle>
+                <CardTitle>Presença por Turma</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="flex items-center justify-center h-60">
-                  <p className="text-muted-foreground">Dados de desempenho serão exibidos aqui</p>
-                </div>
+                {!loading && relatorio.presencaPorTurma.length === 0 ? (
+                  <SemDados mensagem="Nenhuma chamada registrada no período" />
+                ) : (
+                  <div className="h-80">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={relatorio.presencaPorTurma} layout="vertical" margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis type="number" domain={[0, 100]} />
+                        <YAxis type="category" dataKey="name" width={140} />
+                        <Tooltip formatter={(value) => [`${value}%`, 'Presença']} />
+                        <Bar dataKey="presenca" fill="#8b5cf6" radius={[0, 4, 4, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -222,29 +265,41 @@ export default function Relatorios() {
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-              <Button variant="outline" className="h-auto py-4 px-4 justify-start gap-3">
+              <ExportarMenu
+                dataset={() => datasetAlunos(alunos)}
+                disabled={loadingAlunos}
+                className="h-auto py-4 px-4 justify-start gap-3"
+              >
                 <Users className="h-5 w-5" />
                 <div className="text-left">
                   <p className="font-medium">Relatório de Alunos</p>
                   <p className="text-xs text-muted-foreground">Dados completos de todos os alunos</p>
                 </div>
-              </Button>
+              </ExportarMenu>
               
-              <Button variant="outline" className="h-auto py-4 px-4 justify-start gap-3">
+              <ExportarMenu
+                dataset={() => datasetPresencaPorTurma(relatorio, intervalo)}
+                disabled={loading}
+                className="h-auto py-4 px-4 justify-start gap-3"
+              >
                 <Calendar className="h-5 w-5" />
                 <div className="text-left">
                   <p className="font-medium">Relatório de Presença</p>
                   <p className="text-xs text-muted-foreground">Histórico de presença por turma</p>
                 </div>
-              </Button>
+              </ExportarMenu>
               
-              <Button variant="outline" className="h-auto py-4 px-4 justify-start gap-3">
+              <ExportarMenu
+                dataset={() => datasetLancamentos(lancamentosDoPeriodo(), {}, intervalo)}
+                disabled={loadingFinanceiro}
+                className="h-auto py-4 px-4 justify-start gap-3"
+              >
                 <TrendingUp className="h-5 w-5" />
                 <div className="text-left">
                   <p className="font-medium">Relatório Financeiro</p>
                   <p className="text-xs text-muted-foreground">Receitas e despesas detalhadas</p>
                 </div>
-              </Button>
+              </ExportarMenu>
             </div>
           </CardContent>
         </Card>
@@ -8,8 +8,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Separator } from '@/components/ui/separator';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSchool } from '@/contexts/SchoolContext';
+import { supabase } from '@/integrations/supabase/client';
 import { fetchAddressFromCEP, formatCep, isValidCep, AddressData } from '@/utils/cep';
-import { Loader2, MapPin, Building2 } from 'lucide-react';
+import { Loader2, MapPin, Building2, QrCode, ImageIcon, Trash2 } from 'lucide-react';
+import { RegrasFinanceirasCard } from '@/components/financeiro/RegrasFinanceirasCard';
+import { PapeisCard } from '@/components/escola/PapeisCard';
+import { AlertasFaltaCard } from '@/components/notificacoes/AlertasFaltaCard';
+import { useUserProfile } from '@/contexts/UserProfileContext';
 
 interface SchoolData {
   cnpj: string;
@@ -20,11 +25,13 @@ interface SchoolData {
   bairro: string;
   cidade: string;
   estado: string;
+  chave_pix: string;
 }
 
 const SchoolSettings: React.FC = () => {
   const { user } = useAuth();
   const { school, updateSchool } = useSchool();
+  const { pode } = useUserProfile();
   const navigate = useNavigate();
   
   const [formData, setFormData] = useState<SchoolData>({
@@ -35,12 +42,16 @@ const SchoolSettings: React.FC = () => {
     numero: '',
     bairro: '',
     cidade: '',
-    estado: ''
+    estado: '',
+    chave_pix: ''
   });
   
   const [isLoadingCep, setIsLoadingCep] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isFirstSetup, setIsFirstSetup] = useState(false);
+  const [isUploadingLogo, setIsUploadingLogo] = useState(false);
+  const [webhookPixUrl, setWebhookPixUrl] = useState<string | null>(null);
+  const [isLoadingWebhookPix, setIsLoadingWebhookPix] = useState(false);
 
   useEffect(() => {
     if (school) {
@@ -56,7 +67,8 @@ const SchoolSettings: React.FC = () => {
         numero: school.numero || '',
         bairro: school.bairro || '',
         cidade: school.cidade || '',
-        estado: school.estado || ''
+        estado: school.estado || '',
+        chave_pix: school.chave_pix || ''
       });
     }
   }, [school]);
@@ -123,6 +135,66 @@ const SchoolSettings: React.FC = () => {
     }
   };
 
+  // O logo é salvo na hora (não depende do botão "Salvar Alterações")
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !school) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Selecione um arquivo de imagem (PNG ou JPG)');
+      return;
+    }
+    if (file.size > 1024 * 1024) {
+      toast.error('O logo deve ter no máximo 1 MB');
+      return;
+    }
+
+    setIsUploadingLogo(true);
+    try {
+      const ext = file.name.split('.').pop();
+      const fileName = `${school.id}/logo_${Date.now()}.${ext}`;
+      const { error } = await supabase.storage.from('escolas-logos').upload(fileName, file);
+
+      if (error) {
+        console.error('Erro ao enviar logo:', error);
+        toast.error('Erro ao fazer upload do logo');
+        return;
+      }
+
+      const { data: urlData } = supabase.storage.from('escolas-logos').getPublicUrl(fileName);
+      const success = await updateSchool(school.id, { logo_url: urlData.publicUrl });
+      if (success) toast.success('Logo atualizado!');
+    } finally {
+      setIsUploadingLogo(false);
+    }
+  };
+
+  const handleRemoveLogo = async () => {
+    if (!school) return;
+    setIsUploadingLogo(true);
+    const success = await updateSchool(school.id, { logo_url: null });
+    if (success) toast.success('Logo removido');
+    setIsUploadingLogo(false);
+  };
+
+  // Endereço do webhook PIX com o token da escola; renovar invalida o anterior
+  const handleWebhookPix = async (renovar = false) => {
+    if (!school) return;
+    setIsLoadingWebhookPix(true);
+    const { data: token, error } = await supabase.rpc('token_webhook_pix', { p_renovar: renovar });
+    setIsLoadingWebhookPix(false);
+
+    if (error || !token) {
+      console.error('Erro ao carregar o webhook PIX:', error);
+      toast.error('Erro ao carregar o endereço do webhook PIX');
+      return;
+    }
+
+    setWebhookPixUrl(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/pix-webhook?escola=${school.id}&token=${token}`);
+    if (renovar) toast.success('Token renovado. Atualize o endereço cadastrado no banco.');
+  };
+
   const formatCnpj = (value: string) => {
     const cleanValue = value.replace(/\D/g, '');
     return cleanValue.replace(/(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})/, '$1.$2.$3/$4-$5');
@@ -304,6 +376,86 @@ const SchoolSettings: React.FC = () => {
               </div>
             </div>
 
+            <Separator />
+
+            {/* Recebimento via PIX */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <QrCode className="h-5 w-5" />
+                <h3 className="text-lg font-semibold">Recebimento via PIX</h3>
+              </div>
+              <div>
+                <Label htmlFor="chave_pix">Chave PIX</Label>
+                <Input
+                  id="chave_pix"
+                  value={formData.chave_pix}
+                  onChange={(e) => handleInputChange('chave_pix', e.target.value.trim())}
+                  placeholder="CNPJ, e-mail, telefone (+55...) ou chave aleatória"
+                  maxLength={77}
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Usada nos QR Codes "copia e cola" das cobranças. O nome da escola e a cidade também aparecem para o pagador.
+                </p>
+                {pode('financeiro.gerenciar') && (
+                  <div className="mt-3 space-y-2">
+                    <p className="text-sm text-muted-foreground">
+                      Para a baixa automática dos pagamentos, cadastre no banco o endereço de webhook da escola.
+                    </p>
+                    {webhookPixUrl && <code className="block text-xs break-all">{webhookPixUrl}</code>}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleWebhookPix(!!webhookPixUrl)}
+                      disabled={isLoadingWebhookPix || !school}
+                    >
+                      {isLoadingWebhookPix && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      {webhookPixUrl ? 'Renovar token' : 'Mostrar endereço do webhook'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <Separator />
+
+            {/* Logo */}
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <ImageIcon className="h-5 w-5" />
+                <h3 className="text-lg font-semibold">Logo</h3>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="h-20 w-20 rounded-md border flex items-center justify-center overflow-hidden bg-muted">
+                  {school?.logo_url ? (
+                    <img src={school.logo_url} alt="Logo da escola" className="h-full w-full object-contain" />
+                  ) : (
+                    <ImageIcon className="h-8 w-8 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <div className="flex gap-2">
+                    <Input
+                      id="logo"
+                      type="file"
+                      accept="image/png,image/jpeg"
+                      onChange={handleLogoChange}
+                      disabled={isUploadingLogo || !school}
+                      className="max-w-xs"
+                    />
+                    {school?.logo_url && (
+                      <Button type="button" variant="outline" size="icon" onClick={handleRemoveLogo} disabled={isUploadingLogo}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {isUploadingLogo ? 'Enviando...' : 'PNG ou JPG de até 1 MB. Aparece no cabeçalho dos relatórios exportados em PDF.'}
+                  </p>
+                </div>
+              </div>
+            </div>
+
             {/* Botões */}
             <div className="flex justify-end gap-4 pt-6">
               {!isFirstSetup && (
@@ -323,6 +475,15 @@ const SchoolSettings: React.FC = () => {
           </form>
         </CardContent>
       </Card>
+
+      {/* Regras de cobrança */}
+      {!isFirstSetup && <RegrasFinanceirasCard />}
+
+      {/* Avisos de falta aos responsáveis */}
+      {!isFirstSetup && pode('escola.configurar') && <AlertasFaltaCard />}
+
+      {/* Papéis personalizados */}
+      {!isFirstSetup && pode('papeis.gerenciar') && <PapeisCard />}
     </div>
   );
 };
@@ -10,9 +10,12 @@ import { Skeleton } from "@/components/ui/skeleton"
 import { Calendar, Clock, Users, TrendingUp, Search, Plus } from "lucide-react"
 import { useTurmas } from "@/hooks/useTurmas"
 import { AddTurmaModal } from "@/components/modals/AddTurmaModal"
+import { useUserProfile } from "@/contexts/UserProfileContext"
 
 export default function Turmas() {
   const { turmas, loading, deleteTurma, refetch } = useTurmas()
+  const { pode } = useUserProfile()
+  const podeGerenciar = pode("turmas.gerenciar")
   const [searchTerm, setSearchTerm] = useState("")
   const [selectedTurma, setSelectedTurma] = useState(null)
   const [detailsModalOpen, setDetailsModalOpen] = useState(false)
@@ -79,15 +82,17 @@ export default function Turmas() {
             />
           </div>
           
-          <AddTurmaModal
-            trigger={
-              <Button className="flex items-center gap-2">
-                <Plus className="h-4 w-4" />
-                Adicionar Turma
-              </Button>
-            }
-            onSuccess={refetch}
-          />
+          {podeGerenciar && (
+            <AddTurmaModal
+              trigger={
+                <Button className="flex items-center gap-2">
+                  <Plus className="h-4 w-4" />
+                  Adicionar Turma
+                </Button>
+              }
+              onSuccess={refetch}
+            />
+          )}
         </div>
 
         {/* Cards de estatísticas */}
@@ -157,6 +162,7 @@ export default function Turmas() {
               turma={turma}
               onDelete={deleteTurma}
               onViewDetails={handleViewDetails}
+              podeGerenciar={podeGerenciar}
             />
           ))}
         </div>
@@ -174,7 +180,7 @@ export default function Turmas() {
                   : 'Comece criando sua primeira turma'
                 }
               </p>
-              {!searchTerm && (
+              {!searchTerm && podeGerenciar && (
                 <AddTurmaModal
                   trigger={
                     <Button>
@@ -1,5 +1,7 @@
 import { logger } from './logger';
 import { supabase } from '../integrations/supabase/client';
+import { gerarCsv } from '../utils/exportUtils';
+import type { DatasetExportacao, FiltroExportacao, FormatoExportacao, MarcaExportacao } from '../utils/exportUtils';
 
 // Tipos para o sistema de auditoria
 export enum AuditAction {
@@ -636,31 +638,49 @@ class AuditService {
     const logs = await this.getAuditLogs(filter);
     
     if (format === 'csv') {
-      const headers = [
-        'timestamp', 'action', 'result', 'severity', 'user_id', 'school_id',
-        'target_id', 'target_type', 'description', 'ip_address', 'user_agent'
-      ];
-      
-      const rows = logs.map(log => [
-        log.timestamp,
-        log.action,
-        log.result,
-        log.severity,
-        log.user_id || '',
-        log.school_id || '',
-        log.target_id || '',
-        log.target_type || '',
-        log.description,
-        log.ip_address || '',
-        log.user_agent || ''
-      ]);
-      
-      return [headers, ...rows].map(row => row.join(',')).join('\n');
+      return gerarCsv(this.toExportDataset(logs, filter), undefined, new Date(), ',');
     }
     
     return JSON.stringify(logs, null, 2);
   }
 
+  // Exporta os logs filtrados em CSV, XLSX ou PDF com a identificação da escola
+  async downloadAuditLogs(filter: AuditFilter, formato: FormatoExportacao, marca: MarcaExportacao): Promise<void> {
+    const logs = await this.getAuditLogs(filter);
+    const { exportService } = await import('./exportService');
+    await exportService.exportar(this.toExportDataset(logs, filter), formato, marca);
+  }
+
+  toExportDataset(logs: AuditEntry[], filter: AuditFilter = {}): DatasetExportacao<AuditEntry> {
+    const filtros: FiltroExportacao[] = [];
+    if (filter.start_date) filtros.push({ rotulo: 'De', valor: filter.start_date.toLocaleDateString('pt-BR') });
+    if (filter.end_date) filtros.push({ rotulo: 'Até', valor: filter.end_date.toLocaleDateString('pt-BR') });
+    if (filter.action) filtros.push({ rotulo: 'Ação', valor: filter.action });
+    if (filter.result) filtros.push({ rotulo: 'Resultado', valor: filter.result });
+    if (filter.severity) filtros.push({ rotulo: 'Severidade', valor: filter.severity });
+    if (filter.search) filtros.push({ rotulo: 'Busca', valor: filter.search });
+
+    return {
+      titulo: 'Logs de Auditoria',
+      nomeArquivo: 'auditoria',
+      filtros,
+      linhas: logs,
+      colunas: [
+        { titulo: 'timestamp', valor: (log) => log.timestamp },
+        { titulo: 'action', valor: (log) => log.action },
+        { titulo: 'result', valor: (log) => log.result },
+        { titulo: 'severity', valor: (log) => log.severity },
+        { titulo: 'user_id', valor: (log) => log.user_id || '' },
+        { titulo: 'school_id', valor: (log) => log.school_id || '' },
+        { titulo: 'target_id', valor: (log) => log.target_id || '' },
+        { titulo: 'target_type', valor: (log) => log.target_type || '' },
+        { titulo: 'description', valor: (log) => log.description, largura: 40 },
+        { titulo: 'ip_address', valor: (log) => log.ip_address || '' },
+        { titulo: 'user_agent', valor: (log) => log.user_agent || '', largura: 30 }
+      ]
+    };
+  }
+
   // Método para sincronizar logs locais com o servidor
   async syncLocalLogs(): Promise<void> {
     try {
@@ -0,0 +1,104 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { EmailOutboxItem, PrioridadeEmail, StatusEmail } from '@/types/email';
+
+// Caixa de saída de emails (email_outbox). O envio acontece no servidor: a
+// edge function enviar-emails, agendada no cron, reserva os emails devidos e
+// os entrega pelo transporte da integração de email da escola, com novas
+// tentativas espaçadas. O navegador só enfileira e consulta.
+
+export interface NovoEmail {
+  destinatario: string;
+  assunto: string;
+  // HTML pronto ou mensagem em texto, renderizada com o layout padrão no envio
+  html?: string;
+  texto?: string | null;
+  mensagem?: string;
+  link?: string | null;
+  prioridade?: PrioridadeEmail;
+  origem?: string;
+  referenciaId?: string | null;
+}
+
+export interface ResultadoFilaEmails {
+  enviados: number;
+  reenfileirados: number;
+  falhas: { id: string; destinatario: string; erro: string }[];
+}
+
+const paraItem = (row: { status: string; prioridade: string }) =>
+  ({ ...row, status: row.status as StatusEmail, prioridade: row.prioridade as PrioridadeEmail }) as EmailOutboxItem;
+
+/**
+ * Enfileira um email avulso para a escola ativa.
+ * Requer a capacidade financeiro.gerenciar (a mesma das integrações).
+ */
+export const enfileirarEmail = async (email: NovoEmail): Promise<void> => {
+  if (!email.html && !email.mensagem) {
+    throw new Error('Informe o HTML ou a mensagem do email');
+  }
+
+  const { error } = await supabase.from('email_outbox').insert({
+    destinatario: email.destinatario.trim(),
+    assunto: email.assunto,
+    html: email.html ?? null,
+    texto: email.texto ?? null,
+    mensagem: email.mensagem ?? null,
+    link: email.link ?? null,
+    prioridade: email.prioridade ?? 'NORMAL',
+    origem: email.origem ?? 'integracao',
+    referencia_id: email.referenciaId ?? null
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Envia por email uma notificação que o usuário atual criou para si mesmo.
+ * O servidor monta o email a partir da notificação e usa o email da conta.
+ * @returns Id do email enfileirado, ou null se o destinatário desligou os emails
+ */
+export const enfileirarEmailNotificacao = async (notificationId: string): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('enfileirar_email_notificacao', {
+    p_notification_id: notificationId
+  });
+
+  if (error) throw error;
+  return data ?? null;
+};
+
+// Envia agora os emails devidos da escola ativa, sem esperar o cron
+export const enviarFilaEmails = async (): Promise<ResultadoFilaEmails> => {
+  const { data, error } = await supabase.functions.invoke('enviar-emails');
+
+  if (error || data?.error) {
+    throw new Error(data?.error || error?.message);
+  }
+
+  return {
+    enviados: data.enviados ?? 0,
+    reenfileirados: data.reenfileirados ?? 0,
+    falhas: data.falhas ?? []
+  };
+};
+
+export const buscarEmailPorMessageId = async (messageId: string): Promise<EmailOutboxItem | null> => {
+  const { data, error } = await supabase
+    .from('email_outbox')
+    .select('*')
+    .eq('message_id', messageId.split('.')[0])
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? paraItem(data) : null;
+};
+
+export const listarDevolucoes = async (): Promise<EmailOutboxItem[]> => {
+  const { data, error } = await supabase
+    .from('email_outbox')
+    .select('*')
+    .eq('status', 'devolvido')
+    .order('devolvido_em', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(paraItem);
+};
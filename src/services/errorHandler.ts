@@ -1,5 +1,6 @@
 import { toast } from '@/hooks/use-toast';
 import { authLogger } from './logger';
+import { retryWithBackoff as retryComBackoff, type RetryConfig } from '../../supabase/functions/_shared/retry';
 
 /**
  * Tipos de erro personalizados
@@ -26,101 +27,17 @@ export class AuthenticationError extends Error {
 }
 
 /**
- * Configurações de retry
+ * Retry com backoff exponencial, compartilhado com as Edge Functions
  */
-export interface RetryConfig {
-  maxAttempts: number;
-  baseDelay: number;
-  maxDelay: number;
-  backoffMultiplier: number;
-  retryableErrors: string[];
-}
-
-const DEFAULT_RETRY_CONFIG: RetryConfig = {
-  maxAttempts: 3,
-  baseDelay: 1000,
-  maxDelay: 10000,
-  backoffMultiplier: 2,
-  retryableErrors: [
-    'NetworkError',
-    'TimeoutError',
-    'DatabaseError',
-    'PGRST301', // Supabase timeout
-    'PGRST116', // Supabase connection error
-  ]
-};
+export type { RetryConfig } from '../../supabase/functions/_shared/retry';
 
-/**
- * Função de retry com backoff exponencial
- */
-export async function retryWithBackoff<T>(
+export function retryWithBackoff<T>(
   operation: () => Promise<T>,
   operationName: string,
   config: Partial<RetryConfig> = {},
   context: Record<string, any> = {}
 ): Promise<T> {
-  const finalConfig = { ...DEFAULT_RETRY_CONFIG, ...config };
-  let lastError: any;
-  
-  for (let attempt = 1; attempt <= finalConfig.maxAttempts; attempt++) {
-    try {
-      authLogger.info(`Tentativa ${attempt} de ${operationName}`, {
-        operation: operationName,
-        attempt,
-        maxAttempts: finalConfig.maxAttempts,
-        ...context
-      });
-      
-      const result = await operation();
-      
-      if (attempt > 1) {
-        authLogger.info(`${operationName} bem-sucedido após ${attempt} tentativas`, {
-          operation: operationName,
-          attempt,
-          ...context
-        });
-      }
-      
-      return result;
-    } catch (error: any) {
-      lastError = error;
-      
-      const isRetryable = finalConfig.retryableErrors.some(errorType => 
-        error.name === errorType || 
-        error.code === errorType ||
-        error.message?.includes(errorType)
-      );
-      
-      if (!isRetryable || attempt === finalConfig.maxAttempts) {
-        authLogger.error(`${operationName} falhou definitivamente`, {
-          operation: operationName,
-          attempt,
-          maxAttempts: finalConfig.maxAttempts,
-          error: error.message,
-          isRetryable,
-          ...context
-        }, error);
-        break;
-      }
-      
-      const delay = Math.min(
-        finalConfig.baseDelay * Math.pow(finalConfig.backoffMultiplier, attempt - 1),
-        finalConfig.maxDelay
-      );
-      
-      authLogger.warn(`${operationName} falhou, tentando novamente em ${delay}ms`, {
-        operation: operationName,
-        attempt,
-        nextDelay: delay,
-        error: error.message,
-        ...context
-      });
-      
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-  }
-  
-  throw lastError;
+  return retryComBackoff(operation, operationName, config, context, authLogger);
 }
 
 /**
@@ -0,0 +1,201 @@
+import { logger } from './logger';
+import { auditService, AuditAction, AuditResult } from './auditService';
+import {
+  DatasetExportacao,
+  FormatoExportacao,
+  MarcaExportacao,
+  formatarCelula,
+  gerarCsv,
+  gerarNomeArquivo,
+  montarCabecalho,
+  montarTabela
+} from '../utils/exportUtils';
+import type { Cell, Row, SheetData } from 'write-excel-file/browser';
+
+// Cores da marca usadas no cabeçalho do PDF (primária do tema)
+const COR_CABECALHO: [number, number, number] = [37, 99, 235];
+
+const FORMATO_MOEDA_XLSX = '"R$" #,##0.00';
+const FORMATO_PERCENTUAL_XLSX = '0.0"%"';
+
+class ExportService {
+  private static instance: ExportService;
+  private logoCache = new Map<string, string | null>();
+
+  private constructor() {}
+
+  static getInstance(): ExportService {
+    if (!ExportService.instance) {
+      ExportService.instance = new ExportService();
+    }
+    return ExportService.instance;
+  }
+
+  // Gera o arquivo no formato pedido e inicia o download no navegador
+  async exportar<T>(dataset: DatasetExportacao<T>, formato: FormatoExportacao, marca: MarcaExportacao): Promise<void> {
+    const geradoEm = new Date();
+    const nomeArquivo = gerarNomeArquivo(dataset.nomeArquivo, formato, geradoEm);
+
+    try {
+      const blob = await this.gerarArquivo(dataset, formato, marca, geradoEm);
+      this.baixar(blob, nomeArquivo);
+
+      await auditService.log(AuditAction.REPORT_EXPORT, AuditResult.SUCCESS, `Exportação: ${dataset.titulo}`, {
+        target_type: 'report',
+        details: { formato, arquivo: nomeArquivo, linhas: dataset.linhas.length, filtros: dataset.filtros ?? [] }
+      });
+    } catch (error) {
+      logger.error('Falha ao exportar relatório', { component: 'ExportService', formato, titulo: dataset.titulo }, error as Error);
+      throw error;
+    }
+  }
+
+  async gerarArquivo<T>(
+    dataset: DatasetExportacao<T>,
+    formato: FormatoExportacao,
+    marca: MarcaExportacao,
+    geradoEm: Date = new Date()
+  ): Promise<Blob> {
+    switch (formato) {
+      case 'csv':
+        // BOM para o Excel reconhecer UTF-8 (acentos)
+        return new Blob(['\uFEFF' + gerarCsv(dataset, marca, geradoEm)], { type: 'text/csv;charset=utf-8' });
+      case 'xlsx':
+        return this.gerarXlsx(dataset, marca, geradoEm);
+      case 'pdf':
+        return this.gerarPdf(dataset, marca, geradoEm);
+    }
+  }
+
+  private async gerarXlsx<T>(dataset: DatasetExportacao<T>, marca: MarcaExportacao, geradoEm: Date): Promise<Blob> {
+    const { default: writeXlsxFile } = await import('write-excel-file/browser');
+    const tabela = montarTabela(dataset);
+    const cabecalho = montarCabecalho(dataset as DatasetExportacao<unknown>, marca, geradoEm);
+
+    // Datas viram texto dd/MM/yyyy; números e valores monetários continuam numéricos.
+    // Texto vai sempre como String: nunca é interpretado como fórmula.
+    const linhas: Row[] = tabela.linhas.map((linha) =>
+      linha.map((valor, i): Cell => {
+        const tipo = tabela.tipos[i];
+        if (valor === null || valor === undefined || valor === '') return null;
+        if (tipo === 'data' || typeof valor === 'boolean') return { value: formatarCelula(valor, tipo), type: String };
+        if (tipo !== 'texto') {
+          const formato = tipo === 'moeda' ? FORMATO_MOEDA_XLSX : tipo === 'percentual' ? FORMATO_PERCENTUAL_XLSX : undefined;
+          return { value: Number(valor), type: Number, format: formato };
+        }
+        return { value: String(valor), type: String };
+      })
+    );
+
+    const dados: SheetData = [
+      ...cabecalho.map((linha, i): Row => [{ value: linha, type: String, fontWeight: i === 0 ? 'bold' : undefined }]),
+      [],
+      tabela.titulos.map((titulo): Cell => ({ value: titulo, type: String, fontWeight: 'bold' })),
+      ...linhas
+    ];
+
+    return writeXlsxFile(dados, {
+      sheet: dataset.titulo.slice(0, 31).replace(/[\\/?*[\]:]/g, ' '),
+      columns: dataset.colunas.map((coluna) => ({ width: coluna.largura ?? Math.max(coluna.titulo.length + 2, 14) })),
+      // Títulos das colunas fixos ao rolar
+      stickyRowsCount: cabecalho.length + 2
+    }).toBlob();
+  }
+
+  private async gerarPdf<T>(dataset: DatasetExportacao<T>, marca: MarcaExportacao, geradoEm: Date): Promise<Blob> {
+    const [{ jsPDF }, { default: autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+    const tabela = montarTabela(dataset);
+    const [linhaEscola, titulo, ...detalhes] = montarCabecalho(dataset as DatasetExportacao<unknown>, marca, geradoEm);
+
+    const paisagem = tabela.titulos.length > 6;
+    const doc = new jsPDF({ orientation: paisagem ? 'landscape' : 'portrait', unit: 'mm', format: 'a4' });
+    const largura = doc.internal.pageSize.getWidth();
+    const margem = 14;
+
+    const logo = marca.logoUrl ? await this.carregarLogo(marca.logoUrl) : null;
+    let x = margem;
+    if (logo) {
+      doc.addImage(logo, margem, 10, 18, 18);
+      x = margem + 22;
+    }
+
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text(linhaEscola, x, 16);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(titulo, x, 22);
+
+    doc.setFontSize(8);
+    doc.setTextColor(100);
+    detalhes.forEach((linha, i) => doc.text(linha, x, 27 + i * 4));
+    doc.setTextColor(0);
+
+    const inicioTabela = Math.max(logo ? 32 : 0, 27 + detalhes.length * 4) + 2;
+    const alinhamentoDireita = new Set(['moeda', 'numero', 'percentual']);
+
+    autoTable(doc, {
+      startY: inicioTabela,
+      head: [tabela.titulos],
+      body: tabela.linhas.map((linha) => linha.map((valor, i) => formatarCelula(valor, tabela.tipos[i]))),
+      margin: { left: margem, right: margem },
+      styles: { fontSize: 8, cellPadding: 1.5 },
+      headStyles: { fillColor: COR_CABECALHO },
+      columnStyles: Object.fromEntries(
+        tabela.tipos.map((tipo, i) => [i, { halign: alinhamentoDireita.has(tipo) ? 'right' : 'left' }])
+      ),
+      didDrawPage: () => {
+        const pagina = doc.getNumberOfPages();
+        doc.setFontSize(8);
+        doc.setTextColor(120);
+        doc.text(`${marca.escola} • ${titulo}`, margem, doc.internal.pageSize.getHeight() - 8);
+        doc.text(`Página ${pagina}`, largura - margem, doc.internal.pageSize.getHeight() - 8, { align: 'right' });
+        doc.setTextColor(0);
+      }
+    });
+
+    return doc.output('blob');
+  }
+
+  // Converte o logo em data URL; falhas (CORS, 404) apenas omitem o logo
+  private async carregarLogo(url: string): Promise<string | null> {
+    if (this.logoCache.has(url)) return this.logoCache.get(url)!;
+
+    try {
+      const resposta = await fetch(url);
+      if (!resposta.ok) throw new Error(`HTTP ${resposta.status}`);
+      const blob = await resposta.blob();
+      const dataUrl = await new Promise<string>((resolve, reject) => {
+        const leitor = new FileReader();
+        leitor.onload = () => resolve(leitor.result as string);
+        leitor.onerror = () => reject(leitor.error);
+        leitor.readAsDataURL(blob);
+      });
+      this.logoCache.set(url, dataUrl);
+      return dataUrl;
+    } catch (error) {
+      logger.warn('Logo da escola indisponível para o PDF', { component: 'ExportService', url, error: (error as Error).message });
+      this.logoCache.set(url, null);
+      return null;
+    }
+  }
+
+  private baixar(blob: Blob, nomeArquivo: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = nomeArquivo;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Instância singleton
+export const exportService = ExportService.getInstance();
+
+// Hook para usar o serviço de exportação em componentes React
+export function useExportService() {
+  return exportService;
+}
+
+export default exportService;
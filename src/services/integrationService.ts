@@ -3,7 +3,17 @@ import { auditService, AuditAction } from './auditService';
 import { cacheService } from './cacheService';
 import { rateLimiter } from './rateLimiter';
 import { notificationService } from './notificationService';
-import { supabase } from '../lib/supabase';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { gerarPayloadPix, DadosCobrancaPix } from '../utils/pixUtils';
+import {
+  enfileirarEmail,
+  enviarFilaEmails,
+  buscarEmailPorMessageId,
+  listarDevolucoes,
+  ResultadoFilaEmails
+} from './emailService';
+import type { ConfiguracaoTransporteEmail, TipoTransporteEmail } from '../types/email';
 
 // Tipos para integrações
 export interface Integration {
@@ -183,6 +193,32 @@ export interface VideoConferenceProvider {
   generateJoinUrl(meetingId: string, participantName: string): Promise<APIResponse>;
 }
 
+// Colunas legíveis pelo navegador: as credenciais ficam só no servidor
+// (edge functions com service_role) e não voltam nas consultas
+const COLUNAS_INTEGRACAO =
+  'id, school_id, name, type, provider, description, is_active, config, webhook_url, last_sync, last_error, sync_status, created_by, created_at, updated_at';
+
+type IntegracaoRow = Omit<Tables<'integrations'>, 'credentials' | 'remessa_sequencial'>;
+
+const paraIntegracao = (row: IntegracaoRow): Integration => ({
+  id: row.id,
+  name: row.name,
+  type: row.type as IntegrationType,
+  provider: row.provider,
+  description: row.description ?? '',
+  isActive: row.is_active,
+  config: (row.config ?? {}) as unknown as IntegrationConfig,
+  credentials: {},
+  webhookUrl: row.webhook_url ?? undefined,
+  lastSync: row.last_sync ? new Date(row.last_sync) : undefined,
+  lastError: row.last_error ?? undefined,
+  syncStatus: (row.sync_status as SyncStatus) || SyncStatus.IDLE,
+  schoolId: row.school_id,
+  createdBy: row.created_by ?? '',
+  createdAt: new Date(row.created_at ?? Date.now()),
+  updatedAt: new Date(row.updated_at ?? Date.now())
+});
+
 class IntegrationService {
   private static instance: IntegrationService;
   private integrations: Map<string, Integration> = new Map();
@@ -207,30 +243,13 @@ class IntegrationService {
     try {
       const { data: integrations, error } = await supabase
         .from('integrations')
-        .select('*')
+        .select(COLUNAS_INTEGRACAO)
         .eq('is_active', true);
 
       if (error) throw error;
 
       for (const integration of integrations || []) {
-        const integrationObj: Integration = {
-          id: integration.id,
-          name: integration.name,
-          type: integration.type,
-          provider: integration.provider,
-          description: integration.description,
-          isActive: integration.is_active,
-          config: integration.config || {},
-          credentials: integration.credentials || {},
-          webhookUrl: integration.webhook_url,
-          lastSync: integration.last_sync ? new Date(integration.last_sync) : undefined,
-          lastError: integration.last_error,
-          syncStatus: integration.sync_status || SyncStatus.IDLE,
-          schoolId: integration.school_id,
-          createdBy: integration.created_by,
-          createdAt: new Date(integration.created_at),
-          updatedAt: new Date(integration.updated_at)
-        };
+        const integrationObj = paraIntegracao(integration);
 
         this.integrations.set(integration.id, integrationObj);
         
@@ -254,7 +273,9 @@ class IntegrationService {
     // Registrar providers padrão
     this.registerProvider('stripe', new StripeProvider());
     this.registerProvider('mercadopago', new MercadoPagoProvider());
-    this.registerProvider('sendgrid', new SendGridProvider());
+    this.registerProvider('pix', new PixProvider());
+    this.registerProvider('sendgrid', new EmailOutboxProvider('api'));
+    this.registerProvider('smtp', new EmailOutboxProvider('smtp'));
     this.registerProvider('twilio', new TwilioProvider());
     this.registerProvider('google_calendar', new GoogleCalendarProvider());
     this.registerProvider('zoom', new ZoomProvider());
@@ -296,36 +317,21 @@ class IntegrationService {
         provider,
         description: description || '',
         is_active: true,
-        config,
-        credentials: this.encryptCredentials(credentials),
+        config: config as unknown as Json,
+        credentials: this.encryptCredentials(credentials) as unknown as Json,
         sync_status: SyncStatus.IDLE,
-        school_id: schoolId,
-        created_by: 'current_user_id' // Simplificado
+        school_id: schoolId
       };
 
       const { data, error } = await supabase
         .from('integrations')
         .insert(integrationData)
-        .select()
+        .select(COLUNAS_INTEGRACAO)
         .single();
 
       if (error) throw error;
 
-      const integration: Integration = {
-        id: data.id,
-        name: data.name,
-        type: data.type,
-        provider: data.provider,
-        description: data.description,
-        isActive: data.is_active,
-        config: data.config,
-        credentials: this.decryptCredentials(data.credentials),
-        syncStatus: data.sync_status,
-        schoolId: data.school_id,
-        createdBy: data.created_by,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+      const integration: Integration = { ...paraIntegracao(data), credentials };
 
       this.integrations.set(integration.id, integration);
 
@@ -390,18 +396,18 @@ class IntegrationService {
         }
       }
 
-      const updateData: any = {};
+      const updateData: TablesUpdate<'integrations'> = {};
       if (updates.name) updateData.name = updates.name;
       if (updates.description !== undefined) updateData.description = updates.description;
-      if (updates.config) updateData.config = updates.config;
-      if (updates.credentials) updateData.credentials = this.encryptCredentials(updates.credentials);
+      if (updates.config) updateData.config = updates.config as unknown as Json;
+      if (updates.credentials) updateData.credentials = this.encryptCredentials(updates.credentials) as unknown as Json;
       if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
 
       const { data, error } = await supabase
         .from('integrations')
         .update(updateData)
         .eq('id', integrationId)
-        .select()
+        .select(COLUNAS_INTEGRACAO)
         .single();
 
       if (error) throw error;
@@ -409,8 +415,8 @@ class IntegrationService {
       const updatedIntegration: Integration = {
         ...integration,
         name: data.name,
-        description: data.description,
-        config: data.config,
+        description: data.description ?? '',
+        config: (data.config ?? {}) as unknown as IntegrationConfig,
         credentials: updates.credentials || integration.credentials,
         isActive: data.is_active,
         updatedAt: new Date(data.updated_at)
@@ -663,52 +669,11 @@ class IntegrationService {
       const payments = Array.isArray(response.data) ? response.data : [response.data];
       result.recordsProcessed = payments.length;
 
-      for (const payment of payments) {
-        try {
-          // Mapear campos do provider para formato interno
-          const mappedPayment = this.mapFields(payment, integration.config.fieldMappings || {});
-          
-          // Verificar se pagamento já existe
-          const { data: existingPayment } = await supabase
-            .from('payments')
-            .select('id')
-            .eq('external_id', payment.id)
-            .eq('school_id', integration.schoolId)
-            .single();
-
-          if (existingPayment) {
-            // Atualizar pagamento existente
-            const { error } = await supabase
-              .from('payments')
-              .update({
-                ...mappedPayment,
-                updated_at: new Date().toISOString()
-              })
-              .eq('id', existingPayment.id);
-
-            if (error) throw error;
-            result.recordsUpdated++;
-          } else {
-            // Criar novo pagamento
-            const { error } = await supabase
-              .from('payments')
-              .insert({
-                ...mappedPayment,
-                external_id: payment.id,
-                school_id: integration.schoolId,
-                integration_id: integration.id
-              });
-
-            if (error) throw error;
-            result.recordsCreated++;
-          }
-
-        } catch (error) {
-          result.errors.push({
-            record: payment,
-            error: error instanceof Error ? error.message : String(error)
-          });
-        }
+      // Não há tabela de pagamentos externos: os recebimentos baixam os
+      // lançamentos de 'financeiro' pelos webhooks do provedor (ex.: pix-webhook)
+      result.recordsSkipped = payments.length;
+      if (payments.length > 0) {
+        result.warnings.push(`${payments.length} pagamento(s) do provider são conciliados pelo webhook`);
       }
 
     } catch (error) {
@@ -721,10 +686,9 @@ class IntegrationService {
     return result;
   }
 
-  // Sincronizar emails
+  // Sincronizar emails: envia agora a caixa de saída da escola (edge function enviar-emails)
   private async syncEmails(provider: EmailProvider, integration: Integration): Promise<SyncResult> {
-    // Implementação similar ao syncPayments
-    return {
+    const result: SyncResult = {
       success: true,
       recordsProcessed: 0,
       recordsCreated: 0,
@@ -737,6 +701,35 @@ class IntegrationService {
       startTime: new Date(),
       endTime: new Date()
     };
+
+    if (!(provider instanceof EmailOutboxProvider)) {
+      result.warnings.push(`Provider '${integration.provider}' não envia a caixa de saída`);
+      return result;
+    }
+
+    try {
+      const fila = await provider.processarFila();
+
+      // Reenfileirados ainda têm tentativas; só os esgotados contam como erro
+      result.recordsProcessed = fila.enviados + fila.reenfileirados + fila.falhas.length;
+      result.recordsUpdated = fila.enviados;
+      result.recordsSkipped = fila.reenfileirados;
+      result.errors = fila.falhas.map((falha) => ({
+        record: { id: falha.id, destinatario: falha.destinatario },
+        error: falha.erro
+      }));
+
+      if (fila.reenfileirados > 0) {
+        result.warnings.push(`${fila.reenfileirados} email(s) voltaram para a fila`);
+      }
+    } catch (error) {
+      result.errors.push({
+        record: null,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    return result;
   }
 
   // Sincronizar calendário
@@ -757,19 +750,6 @@ class IntegrationService {
     };
   }
 
-  // Mapear campos usando field mappings
-  private mapFields(data: any, mappings: Record<string, string>): any {
-    const mapped: any = {};
-    
-    for (const [internalField, externalField] of Object.entries(mappings)) {
-      if (data[externalField] !== undefined) {
-        mapped[internalField] = data[externalField];
-      }
-    }
-    
-    return mapped;
-  }
-
   // Agendar job de sincronização
   private scheduleSyncJob(integration: Integration): void {
     if (!integration.config.syncInterval) return;
@@ -815,7 +795,7 @@ class IntegrationService {
     error?: string
   ): Promise<void> {
     try {
-      const updateData: any = {
+      const updateData: TablesUpdate<'integrations'> = {
         sync_status: status,
         updated_at: new Date().toISOString()
       };
@@ -869,7 +849,7 @@ class IntegrationService {
           records_updated: result.recordsUpdated,
           records_deleted: result.recordsDeleted,
           records_skipped: result.recordsSkipped,
-          errors: result.errors,
+          errors: result.errors as unknown as Json,
           warnings: result.warnings,
           duration: result.duration,
           started_at: result.startTime.toISOString(),
@@ -963,7 +943,7 @@ class IntegrationService {
         .from('integration_webhook_logs')
         .insert({
           integration_id: integrationId,
-          payload,
+          payload: payload as Json,
           success,
           error: error ? (error instanceof Error ? error.message : String(error)) : null,
           processed_at: new Date().toISOString()
@@ -1140,14 +1120,178 @@ class MercadoPagoProvider implements PaymentProvider {
   async cancelSubscription(subscriptionId: string): Promise<APIResponse> { return { success: true }; }
 }
 
-class SendGridProvider implements EmailProvider {
+// PIX estático: a cobrança é o BR Code "copia e cola". Os recebimentos são
+// conciliados pelo txid de cada lançamento na edge function pix-webhook,
+// chamada pelo PSP da escola
+class PixProvider implements PaymentProvider {
   configure(config: IntegrationConfig, credentials: IntegrationCredentials): void {}
+
   async testConnection(): Promise<APIResponse> { return { success: true }; }
-  async sendEmail(to: string[], subject: string, content: string, options?: any): Promise<APIResponse> { return { success: true, data: {} }; }
-  async sendTemplate(templateId: string, to: string[], variables?: any): Promise<APIResponse> { return { success: true, data: {} }; }
-  async createTemplate(name: string, subject: string, content: string): Promise<APIResponse> { return { success: true, data: {} }; }
-  async getDeliveryStatus(messageId: string): Promise<APIResponse> { return { success: true, data: {} }; }
-  async manageBounces(): Promise<APIResponse> { return { success: true, data: {} }; }
+
+  async createPayment(amount: number, currency: string, metadata?: Record<string, unknown>): Promise<APIResponse> {
+    if (currency !== 'BRL') {
+      return { success: false, error: 'PIX aceita apenas cobranças em BRL' };
+    }
+
+    const dados = metadata as unknown as Omit<DadosCobrancaPix, 'valor'>;
+    if (!dados?.chave || !dados?.txid) {
+      return { success: false, error: 'Chave PIX e txid são obrigatórios' };
+    }
+
+    return {
+      success: true,
+      data: { id: dados.txid, payload: gerarPayloadPix({ ...dados, valor: amount }) }
+    };
+  }
+
+  async getPayment(paymentId: string): Promise<APIResponse> {
+    const { data, error } = await supabase
+      .from('financeiro')
+      .select('*')
+      .eq('pix_txid', paymentId)
+      .maybeSingle();
+
+    if (error) return { success: false, error: error.message };
+    return { success: true, data };
+  }
+
+  async refundPayment(paymentId: string, amount?: number): Promise<APIResponse> {
+    return { success: false, error: 'Devoluções de PIX devem ser feitas pelo banco recebedor' };
+  }
+
+  async listPayments(filters?: Record<string, unknown>): Promise<APIResponse> { return { success: true, data: [] }; }
+
+  async createSubscription(planId: string, customerId: string): Promise<APIResponse> {
+    return { success: false, error: 'PIX estático não suporta assinaturas' };
+  }
+
+  async cancelSubscription(subscriptionId: string): Promise<APIResponse> {
+    return { success: false, error: 'PIX estático não suporta assinaturas' };
+  }
+}
+
+interface OpcoesEmail {
+  texto?: string;
+  origem?: string;
+  referenciaId?: string;
+}
+
+// Email pela caixa de saída (email_outbox): os envios são enfileirados e a
+// edge function enviar-emails entrega pelo transporte SMTP ou API da
+// integração. As credenciais ficam no servidor; devoluções chegam pela
+// edge function email-webhook.
+class EmailOutboxProvider implements EmailProvider {
+  private config: ConfiguracaoTransporteEmail = { remetente: '' };
+  private credentials: IntegrationCredentials = {};
+  private templates: Map<string, { subject: string; content: string }> = new Map();
+
+  constructor(private tipo: TipoTransporteEmail) {}
+
+  configure(config: IntegrationConfig, credentials: IntegrationCredentials): void {
+    this.config = config as unknown as ConfiguracaoTransporteEmail;
+    this.credentials = credentials;
+  }
+
+  // Confere a configuração; as credenciais salvas não voltam ao navegador,
+  // então só são conferidas quando informadas
+  async testConnection(): Promise<APIResponse> {
+    if (!this.config.remetente) {
+      return { success: false, error: 'Informe o remetente (config.remetente)' };
+    }
+    if (this.tipo === 'smtp' && !this.config.host) {
+      return { success: false, error: 'Informe o servidor SMTP (config.host)' };
+    }
+    if (this.tipo === 'api' && Object.keys(this.credentials).length > 0 && !this.credentials.apiKey) {
+      return { success: false, error: 'Informe a chave da API (credentials.apiKey)' };
+    }
+
+    return { success: true };
+  }
+
+  // content é HTML pronto
+  async sendEmail(to: string[], subject: string, content: string, options?: OpcoesEmail): Promise<APIResponse> {
+    try {
+      for (const destinatario of to) {
+        await enfileirarEmail({
+          destinatario,
+          assunto: subject,
+          html: content,
+          texto: options?.texto,
+          origem: options?.origem ?? 'integracao',
+          referenciaId: options?.referenciaId
+        });
+      }
+
+      return { success: true, data: { enfileirados: to.length } };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async sendTemplate(templateId: string, to: string[], variables?: Record<string, unknown>): Promise<APIResponse> {
+    const template = this.templates.get(templateId);
+    if (!template) {
+      return { success: false, error: `Template '${templateId}' não encontrado` };
+    }
+
+    const substituir = (texto: string) =>
+      texto.replace(/\{\{(\w+)\}\}/g, (trecho, chave) => (variables?.[chave] !== undefined ? String(variables[chave]) : trecho));
+
+    try {
+      // A mensagem recebe o layout padrão no envio
+      for (const destinatario of to) {
+        await enfileirarEmail({
+          destinatario,
+          assunto: substituir(template.subject),
+          mensagem: substituir(template.content),
+          origem: 'integracao'
+        });
+      }
+
+      return { success: true, data: { enfileirados: to.length } };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Templates em texto com variáveis {{nome}}
+  async createTemplate(name: string, subject: string, content: string): Promise<APIResponse> {
+    this.templates.set(name, { subject, content });
+    return { success: true, data: { id: name } };
+  }
+
+  async getDeliveryStatus(messageId: string): Promise<APIResponse> {
+    try {
+      const email = await buscarEmailPorMessageId(messageId);
+      if (!email) return { success: false, error: 'Email não encontrado' };
+
+      return {
+        success: true,
+        data: {
+          status: email.status,
+          enviadoEm: email.enviado_em,
+          devolvidoEm: email.devolvido_em,
+          motivo: email.motivo_devolucao ?? email.ultimo_erro
+        }
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Devoluções registradas (WebhookEvent.EMAIL_BOUNCED) pela edge function email-webhook
+  async manageBounces(): Promise<APIResponse> {
+    try {
+      return { success: true, data: await listarDevolucoes() };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // Envia agora a fila da escola, sem esperar o cron
+  async processarFila(): Promise<ResultadoFilaEmails> {
+    return enviarFilaEmails();
+  }
 }
 
 class TwilioProvider implements SMSProvider {
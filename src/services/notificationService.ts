@@ -1,7 +1,9 @@
 import { logger } from './logger';
-import { auditService, AuditAction } from './auditService';
-import { supabase } from '../lib/supabase';
-import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { estaEmHorarioSilencioso } from '@/utils/notificacoesUtils';
+import { enfileirarEmailNotificacao } from './emailService';
 
 // Tipos para notificações
 export interface Notification {
@@ -17,6 +19,13 @@ export interface Notification {
   createdAt: string;
   expiresAt?: string;
   actions?: NotificationAction[];
+  // Canais extras além da caixa de entrada (não são gravados na notificação)
+  delivery?: NotificationDelivery;
+}
+
+export interface NotificationDelivery {
+  // Também por email, no endereço da conta do destinatário
+  email?: boolean;
 }
 
 export interface NotificationAction {
@@ -86,13 +95,30 @@ export interface NotificationConfig {
   retryDelay: number;
 }
 
+// Canais de listeners: 'in-app' (nova notificação na caixa de entrada),
+// 'alert' (nova e permitida pelas preferências: toast na tela) e
+// 'changed' (lida em outra aba ou aparelho)
+export type NotificationListenerChannel = 'in-app' | 'alert' | 'changed';
+
+type NotificationRow = Tables<'notifications'>;
+
+const DEFAULT_PREFERENCES: Omit<NotificationPreferences, 'userId'> = {
+  email: true,
+  push: true,
+  inApp: true,
+  sms: false,
+  types: {},
+  quietHours: { enabled: false, start: '22:00', end: '08:00' },
+  frequency: 'IMMEDIATE'
+};
+
 class NotificationService {
   private static instance: NotificationService;
   private config: NotificationConfig;
   private notifications: Map<string, Notification> = new Map();
   private templates: Map<string, NotificationTemplate> = new Map();
   private preferences: Map<string, NotificationPreferences> = new Map();
-  private channels: Map<string, RealtimeChannel> = new Map();
+  private channels: Map<string, { channel: RealtimeChannel; subscribers: number }> = new Map();
   private listeners: Map<string, ((notification: Notification) => void)[]> = new Map();
   private queue: Notification[] = [];
   private processing = false;
@@ -101,6 +127,7 @@ class NotificationService {
     this.config = {
       enableRealtime: true,
       enablePush: true,
+      // E-mails vão para a caixa de saída (email_outbox); ainda não há transporte de SMS
       enableEmail: true,
       enableSms: false,
       maxNotifications: 100,
@@ -111,7 +138,6 @@ class NotificationService {
     };
 
     this.initializeTemplates();
-    this.startProcessing();
   }
 
   static getInstance(): NotificationService {
@@ -194,7 +220,7 @@ class NotificationService {
     });
   }
 
-  // Criar notificação
+  // Criar notificação (gravada na caixa de entrada do destinatário)
   async createNotification(notification: Omit<Notification, 'id' | 'createdAt' | 'read'>): Promise<Notification> {
     const newNotification: Notification = {
       ...notification,
@@ -205,22 +231,15 @@ class NotificationService {
 
     // Adicionar à fila
     this.queue.push(newNotification);
-    
-    // Armazenar localmente
-    this.notifications.set(newNotification.id, newNotification);
+    this.processQueue();
 
-    logger.info('Notification created', 'NotificationService', { 
-      id: newNotification.id, 
+    logger.info('Notification created', {
+      component: 'NotificationService',
+      id: newNotification.id,
       type: newNotification.type,
       priority: newNotification.priority
     });
 
-    // Auditoria
-    auditService.logSystemEvent(
-      `Notification created: ${newNotification.title}`,
-      { notificationId: newNotification.id, type: newNotification.type }
-    );
-
     return newNotification;
   }
 
@@ -234,11 +253,13 @@ class NotificationService {
       priority?: NotificationPriority;
       expiresAt?: string;
       actions?: NotificationAction[];
+      data?: Record<string, unknown>;
+      delivery?: NotificationDelivery;
     } = {}
   ): Promise<Notification | null> {
     const template = this.templates.get(templateId);
     if (!template || !template.enabled) {
-      logger.warn(`Template not found or disabled: ${templateId}`, 'NotificationService');
+      logger.warn(`Template not found or disabled: ${templateId}`, { component: 'NotificationService' });
       return null;
     }
 
@@ -248,8 +269,8 @@ class NotificationService {
 
     for (const [key, value] of Object.entries(variables)) {
       const placeholder = `{{${key}}}`;
-      title = title.replace(new RegExp(placeholder, 'g'), value);
-      message = message.replace(new RegExp(placeholder, 'g'), value);
+      title = title.split(placeholder).join(value);
+      message = message.split(placeholder).join(value);
     }
 
     return this.createNotification({
@@ -260,23 +281,24 @@ class NotificationService {
       userId: options.userId,
       schoolId: options.schoolId,
       expiresAt: options.expiresAt,
-      actions: options.actions
+      actions: options.actions,
+      data: options.data,
+      delivery: options.delivery
     });
   }
 
   // Processar fila de notificações
-  private async startProcessing(): void {
+  private async processQueue(): Promise<void> {
     if (this.processing) return;
     this.processing = true;
 
-    while (this.processing) {
-      if (this.queue.length > 0) {
+    try {
+      while (this.queue.length > 0) {
         const batch = this.queue.splice(0, this.config.batchSize);
         await this.processBatch(batch);
       }
-      
-      // Aguardar antes da próxima verificação
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    } finally {
+      this.processing = false;
     }
   }
 
@@ -285,38 +307,21 @@ class NotificationService {
       try {
         await this.processNotification(notification);
       } catch (error) {
-        logger.error('Failed to process notification', 'NotificationService', {
-          notificationId: notification.id,
-          error
-        });
+        logger.error('Failed to process notification', {
+          component: 'NotificationService',
+          notificationId: notification.id
+        }, error as Error);
       }
     }
   }
 
   private async processNotification(notification: Notification): Promise<void> {
-    // Verificar preferências do usuário
-    if (notification.userId) {
-      const preferences = await this.getUserPreferences(notification.userId);
-      if (!this.shouldSendNotification(notification, preferences)) {
-        logger.debug('Notification skipped due to user preferences', 'NotificationService', {
-          notificationId: notification.id,
-          userId: notification.userId
-        });
-        return;
-      }
-    }
+    // A caixa de entrada é a própria linha gravada; o banco descarta os tipos
+    // que o destinatário desativou e o realtime entrega no aparelho dele
+    await this.saveNotificationToDatabase(notification);
 
-    // Enviar através dos canais habilitados
     const promises: Promise<void>[] = [];
 
-    // In-app notification (sempre enviar)
-    promises.push(this.sendInAppNotification(notification));
-
-    // Push notification
-    if (this.config.enablePush) {
-      promises.push(this.sendPushNotification(notification));
-    }
-
     // Email notification
     if (this.config.enableEmail) {
       promises.push(this.sendEmailNotification(notification));
@@ -327,15 +332,7 @@ class NotificationService {
       promises.push(this.sendSmsNotification(notification));
     }
 
-    // Realtime notification
-    if (this.config.enableRealtime) {
-      promises.push(this.sendRealtimeNotification(notification));
-    }
-
     await Promise.allSettled(promises);
-
-    // Salvar no banco de dados
-    await this.saveNotificationToDatabase(notification);
   }
 
   private shouldSendNotification(notification: Notification, preferences: NotificationPreferences): boolean {
@@ -344,101 +341,165 @@ class NotificationService {
       return false;
     }
 
-    // Verificar horário de silêncio
-    if (preferences.quietHours.enabled) {
-      const now = new Date();
-      const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
-      
-      if (currentTime >= preferences.quietHours.start && currentTime <= preferences.quietHours.end) {
-        // Permitir apenas notificações urgentes durante horário de silêncio
-        return notification.priority === NotificationPriority.URGENT;
-      }
+    // Verificar horário de silêncio (atravessa a meia-noite, ex.: 22:00 às 08:00)
+    if (
+      preferences.quietHours.enabled &&
+      estaEmHorarioSilencioso(new Date(), preferences.quietHours.start, preferences.quietHours.end)
+    ) {
+      // Permitir apenas notificações urgentes durante horário de silêncio
+      return notification.priority === NotificationPriority.URGENT;
     }
 
     return true;
   }
 
-  // Enviar notificação in-app
-  private async sendInAppNotification(notification: Notification): Promise<void> {
-    // Notificar listeners
-    const listeners = this.listeners.get('in-app') || [];
+  // Escutar em tempo real as notificações do usuário; retorna a função para parar
+  subscribe(userId: string): () => void {
+    const channelName = `notifications:${userId}`;
+    const existing = this.channels.get(channelName);
+
+    if (existing) {
+      existing.subscribers++;
+    } else if (this.config.enableRealtime) {
+      const channel = supabase
+        .channel(channelName)
+        .on(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+          (payload) => this.deliverNotification(this.fromRow(payload.new as NotificationRow))
+        )
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+          (payload) => this.emit('changed', this.fromRow(payload.new as NotificationRow))
+        )
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+            logger.debug(`Subscribed to channel: ${channelName}`, { component: 'NotificationService' });
+          }
+        });
+
+      this.channels.set(channelName, { channel, subscribers: 1 });
+    }
+
+    return () => {
+      const entry = this.channels.get(channelName);
+      if (!entry) return;
+
+      entry.subscribers--;
+      if (entry.subscribers <= 0) {
+        supabase.removeChannel(entry.channel);
+        this.channels.delete(channelName);
+      }
+    };
+  }
+
+  // Nova notificação recebida: entra na caixa de entrada e, se as
+  // preferências permitirem, aparece na tela ou como notificação do navegador
+  private async deliverNotification(notification: Notification): Promise<void> {
+    this.notifications.set(notification.id, notification);
+    this.emit('in-app', notification);
+
+    if (!notification.userId) return;
+
+    const preferences = await this.getUserPreferences(notification.userId);
+    if (!this.shouldSendNotification(notification, preferences)) {
+      logger.debug('Notification alert skipped due to user preferences', {
+        component: 'NotificationService',
+        notificationId: notification.id
+      });
+      return;
+    }
+
+    if (preferences.inApp) {
+      this.emit('alert', notification);
+    }
+
+    // Com a aba em segundo plano, o aviso vai para o sistema operacional
+    if (preferences.push && this.config.enablePush && typeof document !== 'undefined' && document.hidden) {
+      await this.sendPushNotification(notification);
+    }
+  }
+
+  private emit(channel: NotificationListenerChannel, notification: Notification): void {
+    const listeners = this.listeners.get(channel) || [];
     listeners.forEach(listener => {
       try {
         listener(notification);
       } catch (error) {
-        logger.error('Error in notification listener', 'NotificationService', { error });
+        logger.error('Error in notification listener', { component: 'NotificationService' }, error as Error);
       }
     });
   }
 
+  // Pedir permissão para notificações do navegador (ao ativar "push" nas preferências)
+  async requestPushPermission(): Promise<boolean> {
+    if (typeof window === 'undefined' || !('Notification' in window)) {
+      return false;
+    }
+
+    if (window.Notification.permission === 'granted') {
+      return true;
+    }
+
+    return (await window.Notification.requestPermission()) === 'granted';
+  }
+
   // Enviar push notification
   private async sendPushNotification(notification: Notification): Promise<void> {
-    if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
+    if (!('Notification' in window) || window.Notification.permission !== 'granted') {
       return;
     }
 
     try {
-      const registration = await navigator.serviceWorker.ready;
-      
-      // Verificar se há subscription
-      const subscription = await registration.pushManager.getSubscription();
-      if (!subscription) {
-        return;
-      }
-
-      // Enviar através do service worker
-      await registration.showNotification(notification.title, {
+      const options: NotificationOptions = {
         body: notification.message,
-        icon: '/icon-192x192.png',
-        badge: '/badge-72x72.png',
+        icon: '/android-chrome-192x192.png',
+        badge: '/favicon-32x32.png',
         tag: notification.id,
         data: notification.data,
-        actions: notification.actions?.map(action => ({
-          action: action.id,
-          title: action.label
-        })) || [],
         requireInteraction: notification.priority === NotificationPriority.URGENT
-      });
+      };
+
+      // Pelo Service Worker quando registrado (build de produção); senão, direto pela página
+      const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+      if (registration) {
+        await registration.showNotification(notification.title, options);
+      } else {
+        new window.Notification(notification.title, options);
+      }
 
-      logger.debug('Push notification sent', 'NotificationService', {
+      logger.debug('Push notification sent', {
+        component: 'NotificationService',
         notificationId: notification.id
       });
     } catch (error) {
-      logger.error('Failed to send push notification', 'NotificationService', {
-        notificationId: notification.id,
-        error
-      });
+      logger.error('Failed to send push notification', {
+        component: 'NotificationService',
+        notificationId: notification.id
+      }, error as Error);
     }
   }
 
-  // Enviar email notification
+  // Enviar email notification: o servidor monta o email a partir da notificação
+  // gravada e o enfileira no email da conta do destinatário
   private async sendEmailNotification(notification: Notification): Promise<void> {
-    if (!notification.userId) return;
+    if (!notification.delivery?.email || !notification.userId) return;
 
     try {
-      // Implementar envio de email através do Supabase Edge Functions
-      const { error } = await supabase.functions.invoke('send-email', {
-        body: {
-          to: notification.userId,
-          subject: notification.title,
-          html: this.generateEmailTemplate(notification),
-          type: 'notification'
-        }
-      });
-
-      if (error) {
-        throw error;
-      }
+      const emailId = await enfileirarEmailNotificacao(notification.id);
 
-      logger.debug('Email notification sent', 'NotificationService', {
+      logger.debug('Email notification queued', {
+        component: 'NotificationService',
         notificationId: notification.id,
-        userId: notification.userId
+        userId: notification.userId,
+        queued: Boolean(emailId)
       });
     } catch (error) {
-      logger.error('Failed to send email notification', 'NotificationService', {
-        notificationId: notification.id,
-        error
-      });
+      logger.error('Failed to queue email notification', {
+        component: 'NotificationService',
+        notificationId: notification.id
+      }, error as Error);
     }
   }
 
@@ -460,61 +521,29 @@ class NotificationService {
         throw error;
       }
 
-      logger.debug('SMS notification sent', 'NotificationService', {
+      logger.debug('SMS notification sent', {
+        component: 'NotificationService',
         notificationId: notification.id,
         userId: notification.userId
       });
     } catch (error) {
-      logger.error('Failed to send SMS notification', 'NotificationService', {
-        notificationId: notification.id,
-        error
-      });
+      logger.error('Failed to send SMS notification', {
+        component: 'NotificationService',
+        notificationId: notification.id
+      }, error as Error);
     }
   }
 
-  // Enviar notificação em tempo real
-  private async sendRealtimeNotification(notification: Notification): Promise<void> {
-    try {
-      const channelName = notification.userId 
-        ? `user:${notification.userId}` 
-        : notification.schoolId 
-        ? `school:${notification.schoolId}` 
-        : 'global';
-
-      let channel = this.channels.get(channelName);
-      
-      if (!channel) {
-        channel = supabase.channel(channelName);
-        this.channels.set(channelName, channel);
-        
-        channel.subscribe((status) => {
-          if (status === 'SUBSCRIBED') {
-            logger.debug(`Subscribed to channel: ${channelName}`, 'NotificationService');
-          }
-        });
-      }
-
-      // Enviar notificação
-      await channel.send({
-        type: 'broadcast',
-        event: 'notification',
-        payload: notification
-      });
-
-      logger.debug('Realtime notification sent', 'NotificationService', {
-        notificationId: notification.id,
-        channel: channelName
-      });
-    } catch (error) {
-      logger.error('Failed to send realtime notification', 'NotificationService', {
-        notificationId: notification.id,
-        error
+  // Salvar notificação no banco de dados
+  private async saveNotificationToDatabase(notification: Notification): Promise<void> {
+    if (!notification.userId) {
+      logger.warn('Notification without recipient not saved', {
+        component: 'NotificationService',
+        notificationId: notification.id
       });
+      return;
     }
-  }
 
-  // Salvar notificação no banco de dados
-  private async saveNotificationToDatabase(notification: Notification): Promise<void> {
     try {
       const { error } = await supabase
         .from('notifications')
@@ -525,73 +554,44 @@ class NotificationService {
           type: notification.type,
           priority: notification.priority,
           user_id: notification.userId,
-          school_id: notification.schoolId,
-          data: notification.data,
+          school_id: notification.schoolId ?? null,
+          data: (notification.data ?? null) as Json,
           read: notification.read,
-          expires_at: notification.expiresAt,
-          actions: notification.actions
+          expires_at: notification.expiresAt ?? null,
+          actions: (notification.actions ?? null) as unknown as Json
         });
 
       if (error) {
         throw error;
       }
 
-      logger.debug('Notification saved to database', 'NotificationService', {
+      logger.debug('Notification saved to database', {
+        component: 'NotificationService',
         notificationId: notification.id
       });
     } catch (error) {
-      logger.error('Failed to save notification to database', 'NotificationService', {
-        notificationId: notification.id,
-        error
-      });
+      logger.error('Failed to save notification to database', {
+        component: 'NotificationService',
+        notificationId: notification.id
+      }, error as Error);
     }
   }
 
-  // Gerar template de email
-  private generateEmailTemplate(notification: Notification): string {
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <title>${notification.title}</title>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: #007bff; color: white; padding: 20px; text-align: center; }
-          .content { padding: 20px; background: #f9f9f9; }
-          .footer { padding: 20px; text-align: center; font-size: 12px; color: #666; }
-          .priority-urgent { border-left: 5px solid #dc3545; }
-          .priority-high { border-left: 5px solid #fd7e14; }
-          .priority-normal { border-left: 5px solid #007bff; }
-          .priority-low { border-left: 5px solid #6c757d; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>${notification.title}</h1>
-          </div>
-          <div class="content priority-${notification.priority.toLowerCase()}">
-            <p>${notification.message}</p>
-            ${notification.actions ? `
-              <div style="margin-top: 20px;">
-                ${notification.actions.map(action => `
-                  <a href="#" style="display: inline-block; padding: 10px 20px; margin: 5px; background: #007bff; color: white; text-decoration: none; border-radius: 5px;">
-                    ${action.label}
-                  </a>
-                `).join('')}
-              </div>
-            ` : ''}
-          </div>
-          <div class="footer">
-            <p>SmartClass Dashboard - Sistema de Gestão Escolar</p>
-            <p>Esta é uma notificação automática. Não responda este email.</p>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
+  private fromRow(item: NotificationRow): Notification {
+    return {
+      id: item.id,
+      title: item.title,
+      message: item.message,
+      type: item.type as NotificationType,
+      priority: item.priority as NotificationPriority,
+      userId: item.user_id,
+      schoolId: item.school_id ?? undefined,
+      data: (item.data as Record<string, unknown> | null) ?? undefined,
+      read: item.read,
+      createdAt: item.created_at ?? new Date().toISOString(),
+      expiresAt: item.expires_at ?? undefined,
+      actions: (item.actions as unknown as NotificationAction[] | null) ?? undefined
+    };
   }
 
   // Marcar como lida
@@ -602,60 +602,68 @@ class NotificationService {
       this.notifications.set(notificationId, notification);
     }
 
-    try {
-      const { error } = await supabase
-        .from('notifications')
-        .update({ read: true })
-        .eq('id', notificationId);
-
-      if (error) {
-        throw error;
-      }
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('id', notificationId);
 
-      logger.debug('Notification marked as read', 'NotificationService', {
+    if (error) {
+      logger.error('Failed to mark notification as read', {
+        component: 'NotificationService',
         notificationId
-      });
-    } catch (error) {
-      logger.error('Failed to mark notification as read', 'NotificationService', {
-        notificationId,
-        error
-      });
+      }, new Error(error.message));
+      throw error;
     }
+
+    logger.debug('Notification marked as read', { component: 'NotificationService', notificationId });
   }
 
   // Marcar todas como lidas
   async markAllAsRead(userId: string): Promise<void> {
-    try {
-      const { error } = await supabase
-        .from('notifications')
-        .update({ read: true })
-        .eq('user_id', userId)
-        .eq('read', false);
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) {
+      logger.error('Failed to mark all notifications as read', {
+        component: 'NotificationService',
+        userId
+      }, new Error(error.message));
+      throw error;
+    }
 
-      if (error) {
-        throw error;
+    // Atualizar cache local
+    for (const [id, notification] of this.notifications.entries()) {
+      if (notification.userId === userId && !notification.read) {
+        notification.read = true;
+        this.notifications.set(id, notification);
       }
+    }
 
-      // Atualizar cache local
-      for (const [id, notification] of this.notifications.entries()) {
-        if (notification.userId === userId && !notification.read) {
-          notification.read = true;
-          this.notifications.set(id, notification);
-        }
-      }
+    logger.debug('All notifications marked as read', { component: 'NotificationService', userId });
+  }
 
-      logger.debug('All notifications marked as read', 'NotificationService', {
-        userId
-      });
-    } catch (error) {
-      logger.error('Failed to mark all notifications as read', 'NotificationService', {
-        userId,
-        error
-      });
+  // Excluir notificação da caixa de entrada
+  async deleteNotification(notificationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .delete()
+      .eq('id', notificationId);
+
+    if (error) {
+      logger.error('Failed to delete notification', {
+        component: 'NotificationService',
+        notificationId
+      }, new Error(error.message));
+      throw error;
     }
+
+    this.notifications.delete(notificationId);
   }
 
-  // Obter notificações do usuário
+  // Obter notificações do usuário (as expiradas não aparecem)
   async getUserNotifications(
     userId: string, 
     options: {
@@ -670,6 +678,7 @@ class NotificationService {
         .from('notifications')
         .select('*')
         .eq('user_id', userId)
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
         .order('created_at', { ascending: false });
 
       if (options.unreadOnly) {
@@ -680,12 +689,10 @@ class NotificationService {
         query = query.eq('type', options.type);
       }
 
-      if (options.limit) {
-        query = query.limit(options.limit);
-      }
-
       if (options.offset) {
         query = query.range(options.offset, options.offset + (options.limit || 10) - 1);
+      } else if (options.limit) {
+        query = query.limit(options.limit);
       }
 
       const { data, error } = await query;
@@ -694,25 +701,12 @@ class NotificationService {
         throw error;
       }
 
-      return data?.map(item => ({
-        id: item.id,
-        title: item.title,
-        message: item.message,
-        type: item.type,
-        priority: item.priority,
-        userId: item.user_id,
-        schoolId: item.school_id,
-        data: item.data,
-        read: item.read,
-        createdAt: item.created_at,
-        expiresAt: item.expires_at,
-        actions: item.actions
-      })) || [];
+      return (data || []).map(item => this.fromRow(item));
     } catch (error) {
-      logger.error('Failed to get user notifications', 'NotificationService', {
-        userId,
-        error
-      });
+      logger.error('Failed to get user notifications', {
+        component: 'NotificationService',
+        userId
+      }, error as Error);
       return [];
     }
   }
@@ -724,7 +718,8 @@ class NotificationService {
         .from('notifications')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', userId)
-        .eq('read', false);
+        .eq('read', false)
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
 
       if (error) {
         throw error;
@@ -732,10 +727,10 @@ class NotificationService {
 
       return count || 0;
     } catch (error) {
-      logger.error('Failed to get unread count', 'NotificationService', {
-        userId,
-        error
-      });
+      logger.error('Failed to get unread count', {
+        component: 'NotificationService',
+        userId
+      }, error as Error);
       return 0;
     }
   }
@@ -750,9 +745,9 @@ class NotificationService {
           .from('notification_preferences')
           .select('*')
           .eq('user_id', userId)
-          .single();
+          .maybeSingle();
 
-        if (error && error.code !== 'PGRST116') { // Not found
+        if (error) {
           throw error;
         }
 
@@ -762,38 +757,20 @@ class NotificationService {
           push: data.push,
           inApp: data.in_app,
           sms: data.sms,
-          types: data.types || {},
-          quietHours: data.quiet_hours || { enabled: false, start: '22:00', end: '08:00' },
-          frequency: data.frequency || 'IMMEDIATE'
-        } : {
-          userId,
-          email: true,
-          push: true,
-          inApp: true,
-          sms: false,
-          types: {},
-          quietHours: { enabled: false, start: '22:00', end: '08:00' },
-          frequency: 'IMMEDIATE'
-        };
+          types: (data.types as NotificationPreferences['types']) || {},
+          quietHours: (data.quiet_hours as NotificationPreferences['quietHours']) || DEFAULT_PREFERENCES.quietHours,
+          frequency: (data.frequency as NotificationPreferences['frequency']) || 'IMMEDIATE'
+        } : { userId, ...DEFAULT_PREFERENCES };
 
         this.preferences.set(userId, preferences);
       } catch (error) {
-        logger.error('Failed to get user preferences', 'NotificationService', {
-          userId,
-          error
-        });
+        logger.error('Failed to get user preferences', {
+          component: 'NotificationService',
+          userId
+        }, error as Error);
         
         // Retornar preferências padrão
-        preferences = {
-          userId,
-          email: true,
-          push: true,
-          inApp: true,
-          sms: false,
-          types: {},
-          quietHours: { enabled: false, start: '22:00', end: '08:00' },
-          frequency: 'IMMEDIATE'
-        };
+        preferences = { userId, ...DEFAULT_PREFERENCES };
       }
     }
 
@@ -803,7 +780,7 @@ class NotificationService {
   async updateUserPreferences(userId: string, preferences: Partial<NotificationPreferences>): Promise<void> {
     try {
       const currentPreferences = await this.getUserPreferences(userId);
-      const updatedPreferences = { ...currentPreferences, ...preferences };
+      const updatedPreferences = { ...currentPreferences, ...preferences, userId };
 
       const { error } = await supabase
         .from('notification_preferences')
@@ -816,7 +793,7 @@ class NotificationService {
           types: updatedPreferences.types,
           quiet_hours: updatedPreferences.quietHours,
           frequency: updatedPreferences.frequency
-        });
+        }, { onConflict: 'user_id' });
 
       if (error) {
         throw error;
@@ -824,27 +801,25 @@ class NotificationService {
 
       this.preferences.set(userId, updatedPreferences);
 
-      logger.info('User notification preferences updated', 'NotificationService', {
-        userId
-      });
+      logger.info('User notification preferences updated', { component: 'NotificationService', userId });
     } catch (error) {
-      logger.error('Failed to update user preferences', 'NotificationService', {
-        userId,
-        error
-      });
+      logger.error('Failed to update user preferences', {
+        component: 'NotificationService',
+        userId
+      }, error as Error);
       throw error;
     }
   }
 
   // Gerenciar listeners
-  addListener(channel: string, listener: (notification: Notification) => void): void {
+  addListener(channel: NotificationListenerChannel, listener: (notification: Notification) => void): void {
     if (!this.listeners.has(channel)) {
       this.listeners.set(channel, []);
     }
     this.listeners.get(channel)!.push(listener);
   }
 
-  removeListener(channel: string, listener: (notification: Notification) => void): void {
+  removeListener(channel: NotificationListenerChannel, listener: (notification: Notification) => void): void {
     const listeners = this.listeners.get(channel);
     if (listeners) {
       const index = listeners.indexOf(listener);
@@ -857,7 +832,7 @@ class NotificationService {
   // Configuração
   updateConfig(config: Partial<NotificationConfig>): void {
     this.config = { ...this.config, ...config };
-    logger.info('Notification service config updated', 'NotificationService', { config });
+    logger.info('Notification service config updated', { component: 'NotificationService', config });
   }
 
   getConfig(): NotificationConfig {
@@ -866,12 +841,9 @@ class NotificationService {
 
   // Cleanup
   async cleanup(): Promise<void> {
-    // Parar processamento
-    this.processing = false;
-
     // Desconectar canais
-    for (const channel of this.channels.values()) {
-      await channel.unsubscribe();
+    for (const { channel } of this.channels.values()) {
+      await supabase.removeChannel(channel);
     }
     this.channels.clear();
 
@@ -883,7 +855,7 @@ class NotificationService {
     this.preferences.clear();
     this.queue = [];
 
-    logger.info('Notification service cleaned up', 'NotificationService');
+    logger.info('Notification service cleaned up', { component: 'NotificationService' });
   }
 }
 
@@ -894,5 +866,3 @@ export const notificationService = NotificationService.getInstance();
 export function useNotificationService() {
   return notificationService;
 }
-
-export default notificationService;
\ No newline at end of file
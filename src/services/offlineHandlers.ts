@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { offlineService } from './offlineService';
+import { achatarPresencas, desachatarPresencas } from '@/utils/offlineUtils';
+
+// Fluxos que o professor pode registrar sem internet. Os dados da fila
+// ficam no formato comparado na detecção de conflitos (ver offlineUtils).
+
+// Chamada: { aula_id, "<aluno_id>.status", "<aluno_id>.observacoes" }
+offlineService.registerHandler('chamada', {
+  async execute({ aula_id, ...presencas }) {
+    const { data, error } = await supabase.rpc('salvar_chamada', {
+      p_aula_id: aula_id,
+      p_presencas: desachatarPresencas(presencas) as unknown as Json
+    });
+
+    // Os alertas de falta são avaliados e entregues pelo próprio salvar_chamada
+    if (error) throw error;
+    return data;
+  },
+
+  async fetchServerData({ aula_id }) {
+    const { data, error } = await supabase
+      .from('chamadas')
+      .select('updated_at, presencas(aluno_id, status, observacoes)')
+      .eq('aula_id', aula_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return { aula_id, ...achatarPresencas(data.presencas ?? []), updated_at: data.updated_at };
+  }
+});
+
+// Conteúdo da aula: { aula_id, conteudo, observacoes }
+offlineService.registerHandler('conteudo_aula', {
+  async execute({ aula_id, conteudo, observacoes }) {
+    const { error } = await supabase.rpc('registrar_conteudo_aula', {
+      p_aula_id: aula_id,
+      p_conteudo: conteudo,
+      p_observacoes: observacoes
+    });
+
+    if (error) throw error;
+    return null;
+  },
+
+  async fetchServerData({ aula_id }) {
+    const { data, error } = await supabase
+      .from('aulas')
+      .select('conteudo, observacoes, updated_at')
+      .eq('id', aula_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return { conteudo: data.conteudo ?? '', observacoes: data.observacoes ?? '', updated_at: data.updated_at };
+  }
+});
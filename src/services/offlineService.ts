@@ -1,29 +1,43 @@
+import { toast } from 'sonner';
 import { logger } from './logger';
-import { auditService, AuditAction } from './auditService';
-import { cacheService } from './cacheService';
-import { notificationService } from './notificationService';
-import { supabase } from '../lib/supabase';
+import { supabase } from '@/integrations/supabase/client';
+import { getCamposAlterados, isErroDeRede, mesclarAlteracoes } from '@/utils/offlineUtils';
 
 // Tipos para sincronização offline
 export interface OfflineOperation {
   id: string;
   type: OperationType;
-  table: string;
+  table: string; // tabela ou nome de um handler registrado (ex.: 'chamada')
   action: 'INSERT' | 'UPDATE' | 'DELETE';
   data: any;
-  originalData?: any; // Para operações de UPDATE
+  originalData?: any; // Estado carregado antes da edição, para detectar conflitos
   timestamp: number;
   retryCount: number;
   maxRetries: number;
   priority: OperationPriority;
   dependencies: string[]; // IDs de operações que devem ser executadas antes
-  metadata: Record<string, any>;
+  metadata: OperationMetadata;
+}
+
+export interface OperationMetadata {
+  descricao?: string; // exibida no indicador de sincronização
+  conflictStrategy?: ConflictStrategy; // sobrepõe a estratégia da configuração
+  conflict?: { serverData: any; conflictFields: string[] }; // aguardando resolução manual
+  [key: string]: any;
+}
+
+// Gravação de um fluxo que não é um CRUD simples de tabela (RPCs, várias tabelas)
+export interface OfflineHandler {
+  execute: (data: any) => Promise<any>;
+  // Estado atual no servidor, no mesmo formato de originalData
+  fetchServerData?: (data: any) => Promise<Record<string, any> | null>;
 }
 
 export interface SyncResult {
   success: boolean;
   operationId: string;
   error?: string;
+  networkError?: boolean;
   conflictResolution?: ConflictResolution;
   serverData?: any;
 }
@@ -53,12 +67,14 @@ export interface OfflineConfig {
 export interface OfflineStats {
   isOnline: boolean;
   pendingOperations: number;
+  conflictedOperations: number;
   failedOperations: number;
   lastSyncTime: number;
   totalSynced: number;
   totalConflicts: number;
   averageSyncTime: number;
   storageUsed: number;
+  syncing: boolean;
 }
 
 export enum OperationType {
@@ -83,16 +99,26 @@ export enum ConflictStrategy {
   TIMESTAMP = 'TIMESTAMP'
 }
 
+// IndexedDB: fila de operações e últimos dados lidos (para abrir telas sem conexão)
+const DB_NAME = 'smartclass-offline';
+const DB_VERSION = 1;
+const STORE_OPERATIONS = 'operations';
+const STORE_SNAPSHOTS = 'snapshots';
+const BACKGROUND_SYNC_TAG = 'smartclass-sync';
+const MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 dias
+
 class OfflineService {
   private static instance: OfflineService;
   private config: OfflineConfig;
   private operationQueue: Map<string, OfflineOperation> = new Map();
-  private isOnline: boolean = navigator.onLine;
-  private syncTimer?: NodeJS.Timeout;
-  private retryTimer?: NodeJS.Timeout;
+  private handlers: Map<string, OfflineHandler> = new Map();
+  private isOnline: boolean = typeof navigator === 'undefined' ? true : navigator.onLine;
+  private syncTimer?: ReturnType<typeof setInterval>;
+  private retryTimer?: ReturnType<typeof setInterval>;
   private stats: OfflineStats;
   private syncInProgress: boolean = false;
   private listeners: Set<(stats: OfflineStats) => void> = new Set();
+  private dbPromise?: Promise<IDBDatabase | null>;
 
   private constructor() {
     this.config = {
@@ -110,12 +136,14 @@ class OfflineService {
     this.stats = {
       isOnline: this.isOnline,
       pendingOperations: 0,
+      conflictedOperations: 0,
       failedOperations: 0,
       lastSyncTime: 0,
       totalSynced: 0,
       totalConflicts: 0,
       averageSyncTime: 0,
-      storageUsed: 0
+      storageUsed: 0,
+      syncing: false
     };
 
     this.setupEventListeners();
@@ -132,6 +160,8 @@ class OfflineService {
 
   // Configurar listeners de eventos
   private setupEventListeners(): void {
+    if (typeof window === 'undefined') return;
+
     // Listener para mudanças de conectividade
     window.addEventListener('online', () => {
       this.handleOnlineStatusChange(true);
@@ -148,8 +178,9 @@ class OfflineService {
       }
     });
 
-    // Service Worker para background sync
-    if ('serviceWorker' in navigator && this.config.enableBackgroundSync) {
+    // Service Worker: cache do app e background sync (só no build de produção,
+    // para não servir arquivos antigos durante o desenvolvimento)
+    if ('serviceWorker' in navigator && import.meta.env.PROD) {
       this.registerServiceWorker();
     }
   }
@@ -157,17 +188,30 @@ class OfflineService {
   // Registrar Service Worker
   private async registerServiceWorker(): Promise<void> {
     try {
-      const registration = await navigator.serviceWorker.register('/sw.js');
-      
-      registration.addEventListener('message', (event) => {
-        if (event.data.type === 'BACKGROUND_SYNC') {
+      await navigator.serviceWorker.register('/sw.js');
+
+      navigator.serviceWorker.addEventListener('message', (event: MessageEvent) => {
+        if (event.data?.type === 'BACKGROUND_SYNC') {
           this.handleBackgroundSync();
         }
       });
-      
-      logger.info('Service Worker registered for background sync', 'OfflineService');
+
+      logger.info('Service Worker registered', { component: 'OfflineService' });
+    } catch (error) {
+      logger.warn('Failed to register Service Worker', { component: 'OfflineService', error });
+    }
+  }
+
+  // Pedir ao Service Worker um aviso quando a conexão voltar (mesmo com a aba em segundo plano)
+  private async requestBackgroundSync(): Promise<void> {
+    if (!this.config.enableBackgroundSync || !('serviceWorker' in navigator)) return;
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration();
+      const sync = (registration as (ServiceWorkerRegistration & { sync?: { register: (tag: string) => Promise<void> } }) | undefined)?.sync;
+      await sync?.register(BACKGROUND_SYNC_TAG);
     } catch (error) {
-      logger.warn('Failed to register Service Worker', 'OfflineService', { error });
+      logger.debug('Background sync unavailable', { component: 'OfflineService', error });
     }
   }
 
@@ -177,31 +221,28 @@ class OfflineService {
     this.isOnline = isOnline;
     this.stats.isOnline = isOnline;
 
-    logger.info(`Network status changed: ${isOnline ? 'online' : 'offline'}`, 'OfflineService');
+    logger.info(`Network status changed: ${isOnline ? 'online' : 'offline'}`, { component: 'OfflineService' });
 
     if (isOnline && !wasOnline) {
       // Ficou online - iniciar sincronização
+      if (this.operationQueue.size > 0) {
+        toast.info('Conexão restaurada', { description: 'Enviando os registros feitos sem internet...' });
+      }
       this.triggerSync();
-      
-      notificationService.createNotification({
-        type: 'SYSTEM',
-        title: 'Conexão Restaurada',
-        message: 'Sincronizando dados pendentes...',
-        priority: 'MEDIUM'
-      });
     } else if (!isOnline && wasOnline) {
-      // Ficou offline
-      notificationService.createNotification({
-        type: 'SYSTEM',
-        title: 'Modo Offline',
-        message: 'Trabalhando offline. Dados serão sincronizados quando a conexão for restaurada.',
-        priority: 'MEDIUM'
+      toast.warning('Sem conexão', {
+        description: 'Chamadas e conteúdos das aulas ficam guardados neste aparelho até a internet voltar.'
       });
     }
 
     this.notifyListeners();
   }
 
+  // Registrar a forma de gravar um fluxo (ver src/services/offlineHandlers.ts)
+  registerHandler(name: string, handler: OfflineHandler): void {
+    this.handlers.set(name, handler);
+  }
+
   // Adicionar operação à fila
   async addOperation(
     table: string,
@@ -210,7 +251,7 @@ class OfflineService {
     options: {
       priority?: OperationPriority;
       dependencies?: string[];
-      metadata?: Record<string, any>;
+      metadata?: OperationMetadata;
       originalData?: any;
     } = {}
   ): Promise<string> {
@@ -219,7 +260,7 @@ class OfflineService {
     }
 
     const operationId = crypto.randomUUID();
-    
+
     const operation: OfflineOperation = {
       id: operationId,
       type: OperationType.USER_ACTION,
@@ -241,12 +282,13 @@ class OfflineService {
     }
 
     this.operationQueue.set(operationId, operation);
-    this.stats.pendingOperations = this.operationQueue.size;
-    
+    this.updateQueueStats();
+
     // Persistir operação
     await this.persistOperation(operation);
 
-    logger.debug('Operation added to queue', 'OfflineService', {
+    logger.debug('Operation added to queue', {
+      component: 'OfflineService',
       operationId,
       table,
       action,
@@ -256,13 +298,16 @@ class OfflineService {
     // Tentar sincronizar imediatamente se online
     if (this.isOnline) {
       this.triggerSync();
+    } else {
+      this.requestBackgroundSync();
     }
 
     this.notifyListeners();
     return operationId;
   }
 
-  // Executar operação imediatamente (se online) ou adicionar à fila
+  // Executar operação imediatamente (se online) ou adicionar à fila. Só falhas
+  // de rede vão para a fila: erros do servidor (permissão, validação) são lançados.
   async executeOperation(
     table: string,
     action: 'INSERT' | 'UPDATE' | 'DELETE',
@@ -270,76 +315,66 @@ class OfflineService {
     options: {
       priority?: OperationPriority;
       dependencies?: string[];
-      metadata?: Record<string, any>;
+      metadata?: OperationMetadata;
       originalData?: any;
       forceOffline?: boolean;
     } = {}
-  ): Promise<any> {
+  ): Promise<{ queued: boolean; result?: any }> {
     if (this.isOnline && !options.forceOffline) {
       try {
-        // Tentar executar diretamente
-        const result = await this.executeDirectOperation(table, action, data, options.originalData);
-        
-        logger.debug('Operation executed directly', 'OfflineService', {
-          table,
-          action,
-          success: true
-        });
-        
-        return result;
+        const result = await this.executeDirectOperation(table, action, data);
+
+        logger.debug('Operation executed directly', { component: 'OfflineService', table, action });
+
+        return { queued: false, result };
       } catch (error) {
-        logger.warn('Direct operation failed, adding to queue', 'OfflineService', {
-          table,
-          action,
-          error
-        });
-        
-        // Se falhar, adicionar à fila
-        await this.addOperation(table, action, data, options);
-        throw error;
-      }
-    } else {
-      // Adicionar à fila para sincronização posterior
-      await this.addOperation(table, action, data, options);
-      
-      // Retornar dados locais para operações de leitura
-      if (action === 'INSERT') {
-        return data;
+        if (!isErroDeRede(error)) {
+          throw error;
+        }
+
+        logger.warn('Direct operation failed, adding to queue', { component: 'OfflineService', table, action, error });
       }
-      
-      throw new Error('Operation queued for offline sync');
     }
+
+    await this.addOperation(table, action, data, options);
+    return { queued: true };
   }
 
   // Executar operação diretamente no servidor
   private async executeDirectOperation(
     table: string,
     action: 'INSERT' | 'UPDATE' | 'DELETE',
-    data: any,
-    originalData?: any
+    data: any
   ): Promise<any> {
+    const handler = this.handlers.get(table);
+    if (handler) {
+      return handler.execute(data);
+    }
+
+    // Tabelas fora dos tipos gerados: a fila aceita qualquer tabela
+    const from = supabase.from.bind(supabase) as unknown as (name: string) => any;
     let query;
-    
+
     switch (action) {
       case 'INSERT':
-        query = supabase.from(table).insert(data).select();
+        query = from(table).insert(data).select();
         break;
       case 'UPDATE':
-        query = supabase.from(table).update(data).eq('id', data.id).select();
+        query = from(table).update(data).eq('id', data.id).select();
         break;
       case 'DELETE':
-        query = supabase.from(table).delete().eq('id', data.id);
+        query = from(table).delete().eq('id', data.id);
         break;
       default:
         throw new Error(`Unsupported action: ${action}`);
     }
-    
+
     const { data: result, error } = await query;
-    
+
     if (error) {
       throw error;
     }
-    
+
     return result;
   }
 
@@ -363,151 +398,166 @@ class OfflineService {
     }
 
     this.syncInProgress = true;
+    this.stats.syncing = true;
+    this.notifyListeners();
     const startTime = Date.now();
 
     try {
-      await this.syncOperations();
-      
+      const synced = await this.syncOperations();
+
       const duration = Date.now() - startTime;
       this.stats.lastSyncTime = Date.now();
       this.stats.averageSyncTime = (this.stats.averageSyncTime + duration) / 2;
-      
-      logger.info('Sync completed successfully', 'OfflineService', {
+
+      if (synced > 0) {
+        toast.success(`${synced} registro(s) feito(s) sem internet foram enviados`);
+      }
+
+      logger.info('Sync completed successfully', {
+        component: 'OfflineService',
         duration,
-        operationsSynced: this.stats.totalSynced
+        operationsSynced: synced
       });
-      
     } catch (error) {
-      logger.error('Sync failed', 'OfflineService', { error });
+      logger.error('Sync failed', { component: 'OfflineService' }, error as Error);
     } finally {
       this.syncInProgress = false;
+      this.stats.syncing = false;
       this.notifyListeners();
     }
   }
 
-  // Sincronizar operações
-  private async syncOperations(): Promise<void> {
+  // Sincronizar operações; retorna quantas foram gravadas
+  private async syncOperations(): Promise<number> {
     const operations = this.getSortedOperations();
-    const results: SyncResult[] = [];
+    let synced = 0;
 
     for (const operation of operations) {
-      try {
-        // Verificar dependências
-        if (!this.areDependenciesSatisfied(operation)) {
-          continue;
-        }
+      // Verificar dependências e conflitos aguardando o usuário
+      if (!this.areDependenciesSatisfied(operation) || operation.metadata.conflict) {
+        continue;
+      }
 
-        const result = await this.syncOperation(operation);
-        results.push(result);
+      const result = await this.syncOperation(operation);
 
-        if (result.success) {
-          this.operationQueue.delete(operation.id);
-          await this.removePersistentOperation(operation.id);
-          this.stats.totalSynced++;
-        } else {
-          operation.retryCount++;
-          
-          if (operation.retryCount >= operation.maxRetries) {
-            this.operationQueue.delete(operation.id);
-            await this.removePersistentOperation(operation.id);
-            this.stats.failedOperations++;
-            
-            logger.error('Operation failed after max retries', 'OfflineService', {
-              operationId: operation.id,
-              error: result.error
-            });
-          }
-        }
-      } catch (error) {
-        logger.error('Error syncing operation', 'OfflineService', {
+      if (result.success) {
+        this.operationQueue.delete(operation.id);
+        await this.removePersistentOperation(operation.id);
+        this.stats.totalSynced++;
+        synced++;
+        continue;
+      }
+
+      // Sem conexão de novo: tenta na próxima vez, sem gastar tentativas
+      if (result.networkError) {
+        break;
+      }
+
+      if (operation.metadata.conflict) {
+        await this.persistOperation(operation);
+        continue;
+      }
+
+      operation.retryCount++;
+
+      if (operation.retryCount >= operation.maxRetries) {
+        this.operationQueue.delete(operation.id);
+        await this.removePersistentOperation(operation.id);
+        this.stats.failedOperations++;
+
+        toast.error(`Não foi possível enviar: ${operation.metadata.descricao ?? operation.table}`, {
+          description: result.error
+        });
+        logger.error('Operation failed after max retries', {
+          component: 'OfflineService',
           operationId: operation.id,
-          error
+          error: result.error
         });
+      } else {
+        await this.persistOperation(operation);
       }
     }
 
-    this.stats.pendingOperations = this.operationQueue.size;
+    this.updateQueueStats();
+    return synced;
   }
 
   // Sincronizar operação individual
   private async syncOperation(operation: OfflineOperation): Promise<SyncResult> {
     try {
+      let data = operation.data;
+      let conflictResolution: ConflictResolution | undefined;
+
       // Verificar se há conflitos
-      const conflict = await this.detectConflict(operation);
-      
-      if (conflict && this.config.enableConflictResolution) {
+      const conflict = this.config.enableConflictResolution ? await this.detectConflict(operation) : null;
+
+      if (conflict) {
         const resolution = await this.resolveConflict(operation, conflict);
-        
-        if (resolution) {
-          this.stats.totalConflicts++;
-          
-          // Executar operação com dados resolvidos
-          const result = await this.executeDirectOperation(
-            operation.table,
-            operation.action,
-            resolution.resolvedData,
-            operation.originalData
-          );
-          
-          return {
-            success: true,
-            operationId: operation.id,
-            conflictResolution: resolution,
-            serverData: result
-          };
+
+        // Resolução manual: a operação fica na fila até o usuário decidir
+        if (!resolution) {
+          return { success: false, operationId: operation.id, error: 'Conflito aguardando resolução' };
         }
+
+        this.stats.totalConflicts++;
+        conflictResolution = resolution;
+        data = resolution.resolvedData;
       }
-      
-      // Executar operação normalmente
-      const result = await this.executeDirectOperation(
-        operation.table,
-        operation.action,
-        operation.data,
-        operation.originalData
-      );
-      
+
+      const result = await this.executeDirectOperation(operation.table, operation.action, data);
+
       return {
         success: true,
         operationId: operation.id,
+        conflictResolution,
         serverData: result
       };
-      
     } catch (error) {
       return {
         success: false,
         operationId: operation.id,
-        error: error instanceof Error ? error.message : String(error)
+        error: error instanceof Error ? error.message : (error as { message?: string })?.message ?? String(error),
+        networkError: isErroDeRede(error)
       };
     }
   }
 
-  // Detectar conflitos
+  // Detectar conflitos: o servidor mudou desde que os dados foram carregados?
   private async detectConflict(operation: OfflineOperation): Promise<any> {
-    if (operation.action === 'INSERT') {
+    if (operation.action === 'INSERT' || !operation.originalData) {
       return null; // INSERTs geralmente não têm conflitos
     }
 
+    const handler = this.handlers.get(operation.table);
+
     try {
-      // Buscar dados atuais do servidor
-      const { data: serverData, error } = await supabase
-        .from(operation.table)
-        .select('*')
-        .eq('id', operation.data.id)
-        .single();
-      
-      if (error || !serverData) {
-        return null;
+      let serverData: Record<string, any> | null;
+
+      if (handler) {
+        if (!handler.fetchServerData) return null;
+        serverData = await handler.fetchServerData(operation.data);
+      } else {
+        const from = supabase.from.bind(supabase) as unknown as (name: string) => any;
+        const { data, error } = await from(operation.table)
+          .select('*')
+          .eq('id', operation.data.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        serverData = data;
       }
-      
-      // Comparar com dados originais
-      if (operation.originalData) {
-        const hasConflict = this.compareData(operation.originalData, serverData);
-        return hasConflict ? serverData : null;
+
+      if (!serverData) {
+        return null;
       }
-      
-      return null;
+
+      return getCamposAlterados(operation.originalData, serverData).length > 0 ? serverData : null;
     } catch (error) {
-      logger.warn('Failed to detect conflict', 'OfflineService', {
+      // Sem conexão a sincronização é interrompida; outros erros aparecem na gravação
+      if (isErroDeRede(error)) throw error;
+
+      logger.warn('Failed to detect conflict', {
+        component: 'OfflineService',
         operationId: operation.id,
         error
       });
@@ -515,60 +565,61 @@ class OfflineService {
     }
   }
 
-  // Comparar dados para detectar conflitos
-  private compareData(localData: any, serverData: any): boolean {
-    const excludeFields = ['updated_at', 'last_modified'];
-    
-    for (const key in localData) {
-      if (excludeFields.includes(key)) continue;
-      
-      if (localData[key] !== serverData[key]) {
-        return true;
-      }
-    }
-    
-    return false;
-  }
-
   // Resolver conflitos
   private async resolveConflict(
     operation: OfflineOperation,
     serverData: any
   ): Promise<ConflictResolution | null> {
-    const conflictFields = this.getConflictFields(operation.originalData, serverData);
-    
+    const conflictFields = getCamposAlterados(operation.originalData, serverData);
+    const strategy = operation.metadata.conflictStrategy ?? this.config.conflictStrategy;
+
+    // Versão do servidor nos campos editados, mantendo as chaves da operação
+    const serverVersion = {
+      ...operation.data,
+      ...Object.fromEntries(Object.keys(operation.originalData).map((campo) => [campo, serverData[campo]]))
+    };
+
     let resolvedData: any;
-    
-    switch (this.config.conflictStrategy) {
+
+    switch (strategy) {
       case ConflictStrategy.CLIENT_WINS:
         resolvedData = operation.data;
         break;
-        
+
       case ConflictStrategy.SERVER_WINS:
-        resolvedData = serverData;
+        resolvedData = serverVersion;
         break;
-        
-      case ConflictStrategy.TIMESTAMP:
-        const clientTime = operation.data.updated_at || operation.timestamp;
-        const serverTime = new Date(serverData.updated_at).getTime();
-        resolvedData = clientTime > serverTime ? operation.data : serverData;
+
+      case ConflictStrategy.TIMESTAMP: {
+        const serverTime = serverData.updated_at ? new Date(serverData.updated_at).getTime() : 0;
+        resolvedData = operation.timestamp > serverTime ? operation.data : serverVersion;
         break;
-        
+      }
+
       case ConflictStrategy.MERGE:
-        resolvedData = this.mergeData(operation.data, serverData);
+        resolvedData = mesclarAlteracoes(operation.originalData, operation.data, serverData);
         break;
-        
+
       case ConflictStrategy.MANUAL:
-        // Para resolução manual, notificar usuário
-        await this.notifyConflict(operation, serverData, conflictFields);
+        operation.metadata.conflict = { serverData, conflictFields };
+        toast.warning(`Conflito em ${operation.metadata.descricao ?? operation.table}`, {
+          description: 'Os dados mudaram no servidor enquanto você estava sem internet. Escolha qual versão manter.'
+        });
         return null;
-        
+
       default:
         resolvedData = operation.data;
     }
-    
+
+    logger.info('Conflict resolved', {
+      component: 'OfflineService',
+      operationId: operation.id,
+      strategy,
+      conflictFields
+    });
+
     return {
-      strategy: this.config.conflictStrategy,
+      strategy,
       resolvedData,
       conflictDetails: {
         localData: operation.data,
@@ -578,64 +629,31 @@ class OfflineService {
     };
   }
 
-  // Obter campos em conflito
-  private getConflictFields(localData: any, serverData: any): string[] {
-    const conflicts: string[] = [];
-    const excludeFields = ['updated_at', 'last_modified'];
-    
-    for (const key in localData) {
-      if (excludeFields.includes(key)) continue;
-      
-      if (localData[key] !== serverData[key]) {
-        conflicts.push(key);
-      }
-    }
-    
-    return conflicts;
-  }
+  // Resolver um conflito deixado para o usuário (estratégia MANUAL)
+  async resolveManualConflict(operationId: string, keep: 'local' | 'server'): Promise<void> {
+    const operation = this.operationQueue.get(operationId);
+    if (!operation?.metadata.conflict) return;
 
-  // Mesclar dados
-  private mergeData(localData: any, serverData: any): any {
-    const merged = { ...serverData };
-    
-    // Estratégia simples: manter campos não-nulos do cliente
-    for (const key in localData) {
-      if (localData[key] !== null && localData[key] !== undefined) {
-        merged[key] = localData[key];
-      }
+    if (keep === 'server') {
+      await this.cancelOperation(operationId);
+      return;
     }
-    
-    return merged;
-  }
 
-  // Notificar conflito para resolução manual
-  private async notifyConflict(
-    operation: OfflineOperation,
-    serverData: any,
-    conflictFields: string[]
-  ): Promise<void> {
-    await notificationService.createNotification({
-      type: 'SYSTEM',
-      title: 'Conflito de Dados Detectado',
-      message: `Conflito na tabela ${operation.table} nos campos: ${conflictFields.join(', ')}`,
-      priority: 'HIGH',
-      metadata: {
-        operationId: operation.id,
-        conflictFields,
-        localData: operation.data,
-        serverData
-      }
-    });
+    operation.metadata = { ...operation.metadata, conflict: undefined, conflictStrategy: ConflictStrategy.CLIENT_WINS };
+    await this.persistOperation(operation);
+    this.updateQueueStats();
+    this.notifyListeners();
+    this.triggerSync();
   }
 
   // Obter operações ordenadas por prioridade e dependências
   private getSortedOperations(): OfflineOperation[] {
     const operations = Array.from(this.operationQueue.values());
-    
+
     if (!this.config.prioritizeOperations) {
       return operations.sort((a, b) => a.timestamp - b.timestamp);
     }
-    
+
     // Ordenar por prioridade e depois por timestamp
     return operations.sort((a, b) => {
       if (a.priority !== b.priority) {
@@ -652,92 +670,147 @@ class OfflineService {
 
   // Lidar com sincronização em background
   private async handleBackgroundSync(): Promise<void> {
+    if (typeof navigator !== 'undefined' && navigator.onLine && !this.isOnline) {
+      this.handleOnlineStatusChange(true);
+      return;
+    }
+
     if (this.isOnline && this.operationQueue.size > 0) {
       await this.triggerSync();
     }
   }
 
-  // Persistir operação no localStorage
+  // Abrir (ou criar) o banco IndexedDB
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve(null);
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_OPERATIONS)) {
+            db.createObjectStore(STORE_OPERATIONS, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(STORE_SNAPSHOTS)) {
+            db.createObjectStore(STORE_SNAPSHOTS);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          logger.warn('IndexedDB unavailable, offline queue kept in memory', {
+            component: 'OfflineService',
+            error: request.error
+          });
+          resolve(null);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  // Executar uma requisição em um object store
+  private async runInStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | undefined> {
+    const db = await this.openDatabase();
+    if (!db) return undefined;
+
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Persistir operação no IndexedDB
   private async persistOperation(operation: OfflineOperation): Promise<void> {
     try {
-      const key = `offline_op_${operation.id}`;
-      localStorage.setItem(key, JSON.stringify(operation));
+      await this.runInStore(STORE_OPERATIONS, 'readwrite', (store) => store.put(operation));
     } catch (error) {
-      logger.error('Failed to persist operation', 'OfflineService', {
-        operationId: operation.id,
-        error
-      });
+      logger.error('Failed to persist operation', { component: 'OfflineService', operationId: operation.id }, error as Error);
     }
   }
 
   // Remover operação persistente
   private async removePersistentOperation(operationId: string): Promise<void> {
     try {
-      localStorage.removeItem(`offline_op_${operationId}`);
+      await this.runInStore(STORE_OPERATIONS, 'readwrite', (store) => store.delete(operationId));
     } catch (error) {
-      logger.warn('Failed to remove persistent operation', 'OfflineService', {
-        operationId,
-        error
-      });
+      logger.warn('Failed to remove persistent operation', { component: 'OfflineService', operationId, error });
     }
   }
 
-  // Carregar operações pendentes do localStorage
+  // Carregar operações pendentes do IndexedDB
   private async loadPendingOperations(): Promise<void> {
     try {
-      const keys = Object.keys(localStorage).filter(key => key.startsWith('offline_op_'));
+      const operations = (await this.runInStore<OfflineOperation[]>(STORE_OPERATIONS, 'readonly', (store) => store.getAll())) ?? [];
       let loadedCount = 0;
-      
-      for (const key of keys) {
-        try {
-          const data = localStorage.getItem(key);
-          if (!data) continue;
-          
-          const operation: OfflineOperation = JSON.parse(data);
-          
-          // Verificar se a operação não expirou (ex: 7 dias)
-          const maxAge = 7 * 24 * 60 * 60 * 1000; // 7 dias
-          if (Date.now() - operation.timestamp > maxAge) {
-            localStorage.removeItem(key);
-            continue;
-          }
-          
-          this.operationQueue.set(operation.id, operation);
-          loadedCount++;
-          
-        } catch (error) {
-          logger.warn('Failed to load operation from storage', 'OfflineService', { key, error });
-          localStorage.removeItem(key);
+
+      for (const operation of operations) {
+        // Operações muito antigas são descartadas
+        if (Date.now() - operation.timestamp > MAX_AGE) {
+          await this.removePersistentOperation(operation.id);
+          continue;
         }
+
+        this.operationQueue.set(operation.id, operation);
+        loadedCount++;
       }
-      
-      this.stats.pendingOperations = this.operationQueue.size;
-      
+
+      this.updateQueueStats();
+
       if (loadedCount > 0) {
-        logger.info('Loaded pending operations from storage', 'OfflineService', { loadedCount });
+        logger.info('Loaded pending operations from storage', { component: 'OfflineService', loadedCount });
+        this.notifyListeners();
+        this.triggerSync();
       }
-      
     } catch (error) {
-      logger.error('Failed to load pending operations', 'OfflineService', { error });
+      logger.error('Failed to load pending operations', { component: 'OfflineService' }, error as Error);
     }
   }
 
   // Limpar operações antigas
   private async cleanupOldOperations(): Promise<void> {
-    const maxAge = 7 * 24 * 60 * 60 * 1000; // 7 dias
     const now = Date.now();
     let cleanedCount = 0;
-    
+
     for (const [id, operation] of this.operationQueue.entries()) {
-      if (now - operation.timestamp > maxAge) {
+      if (now - operation.timestamp > MAX_AGE) {
         this.operationQueue.delete(id);
         await this.removePersistentOperation(id);
         cleanedCount++;
       }
     }
-    
+
     if (cleanedCount > 0) {
-      logger.info('Cleaned up old operations', 'OfflineService', { cleanedCount });
+      logger.info('Cleaned up old operations', { component: 'OfflineService', cleanedCount });
+    }
+  }
+
+  // Guardar dados lidos do servidor para abrir a tela sem conexão
+  async saveSnapshot(key: string, value: unknown): Promise<void> {
+    try {
+      await this.runInStore(STORE_SNAPSHOTS, 'readwrite', (store) => store.put({ value, savedAt: Date.now() }, key));
+    } catch (error) {
+      logger.warn('Failed to save snapshot', { component: 'OfflineService', key, error });
+    }
+  }
+
+  // Últimos dados guardados para a chave (null se não houver)
+  async getSnapshot<T>(key: string): Promise<T | null> {
+    try {
+      const entry = await this.runInStore<{ value: T } | undefined>(STORE_SNAPSHOTS, 'readonly', (store) => store.get(key));
+      return entry?.value ?? null;
+    } catch (error) {
+      logger.warn('Failed to read snapshot', { component: 'OfflineService', key, error });
+      return null;
     }
   }
 
@@ -757,31 +830,28 @@ class OfflineService {
       try {
         listener(this.getStats());
       } catch (error) {
-        logger.error('Error in offline service listener', 'OfflineService', { error });
+        logger.error('Error in offline service listener', { component: 'OfflineService' }, error as Error);
       }
     });
   }
 
+  private updateQueueStats(): void {
+    const operations = Array.from(this.operationQueue.values());
+    this.stats.pendingOperations = operations.length;
+    this.stats.conflictedOperations = operations.filter(op => op.metadata.conflict).length;
+  }
+
   // Obter estatísticas
   getStats(): OfflineStats {
     this.stats.storageUsed = this.calculateStorageUsed();
     return { ...this.stats };
   }
 
-  // Calcular uso de armazenamento
+  // Tamanho aproximado da fila (em bytes)
   private calculateStorageUsed(): number {
     try {
-      const keys = Object.keys(localStorage).filter(key => key.startsWith('offline_op_'));
-      let totalSize = 0;
-      
-      for (const key of keys) {
-        const data = localStorage.getItem(key);
-        if (data) {
-          totalSize += new Blob([data]).size;
-        }
-      }
-      
-      return totalSize;
+      return Array.from(this.operationQueue.values())
+        .reduce((total, operation) => total + JSON.stringify(operation).length, 0);
     } catch (error) {
       return 0;
     }
@@ -798,14 +868,14 @@ class OfflineService {
     if (!operation) {
       return false;
     }
-    
+
     this.operationQueue.delete(operationId);
     await this.removePersistentOperation(operationId);
-    
-    this.stats.pendingOperations = this.operationQueue.size;
+
+    this.updateQueueStats();
     this.notifyListeners();
-    
-    logger.info('Operation cancelled', 'OfflineService', { operationId });
+
+    logger.info('Operation cancelled', { component: 'OfflineService', operationId });
     return true;
   }
 
@@ -814,37 +884,36 @@ class OfflineService {
     if (!this.isOnline) {
       throw new Error('Cannot sync while offline');
     }
-    
+
     await this.triggerSync();
   }
 
   // Limpar todas as operações
   async clearAllOperations(): Promise<void> {
     const operationIds = Array.from(this.operationQueue.keys());
-    
+
     this.operationQueue.clear();
-    
-    // Remover do localStorage
+
     for (const id of operationIds) {
       await this.removePersistentOperation(id);
     }
-    
-    this.stats.pendingOperations = 0;
+
+    this.updateQueueStats();
     this.notifyListeners();
-    
-    logger.info('All operations cleared', 'OfflineService', { clearedCount: operationIds.length });
+
+    logger.info('All operations cleared', { component: 'OfflineService', clearedCount: operationIds.length });
   }
 
   // Atualizar configuração
   updateConfig(newConfig: Partial<OfflineConfig>): void {
     this.config = { ...this.config, ...newConfig };
-    
+
     // Reiniciar timer se necessário
     if (newConfig.syncInterval !== undefined) {
       this.startSyncTimer();
     }
-    
-    logger.info('Offline service config updated', 'OfflineService', { newConfig });
+
+    logger.info('Offline service config updated', { component: 'OfflineService', newConfig });
   }
 
   // Obter configuração
@@ -863,15 +932,15 @@ class OfflineService {
       clearInterval(this.syncTimer);
       this.syncTimer = undefined;
     }
-    
+
     if (this.retryTimer) {
       clearInterval(this.retryTimer);
       this.retryTimer = undefined;
     }
-    
+
     this.listeners.clear();
-    
-    logger.info('Offline service destroyed', 'OfflineService');
+
+    logger.info('Offline service destroyed', { component: 'OfflineService' });
   }
 }
 
@@ -893,14 +962,14 @@ export function withOfflineSupport(
 ) {
   return function (target: any, propertyName: string, descriptor: PropertyDescriptor) {
     const method = descriptor.value;
-    
+
     descriptor.value = async function (...args: any[]) {
       try {
         // Tentar executar normalmente
         return await method.apply(this, args);
       } catch (error) {
-        // Se falhar e estivermos offline, adicionar à fila
-        if (!offlineService.isOnlineStatus()) {
+        // Se falhar por falta de conexão, adicionar à fila
+        if (isErroDeRede(error)) {
           const [action, data] = args;
           await offlineService.addOperation(table, action, data, {
             priority: options.priority,
@@ -910,9 +979,9 @@ export function withOfflineSupport(
         throw error;
       }
     };
-    
+
     return descriptor;
   };
 }
 
-export default offlineService;
\ No newline at end of file
+export default offlineService;
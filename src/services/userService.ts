@@ -16,6 +16,12 @@ export interface UserProfileData {
     name: string
     owner_id: string
   }
+  // Papel definido pela escola; sem ele valem as capacidades padrão de tipo_usuario
+  papel?: {
+    id: string
+    nome: string
+    capacidades: string[]
+  }
   created_at: string | null
   updated_at: string | null
 }
@@ -44,6 +50,11 @@ export class UserService {
             id,
             name,
             owner_id
+          ),
+          papel:papeis (
+            id,
+            nome,
+            capacidades
           )
         `)
         .eq('id', user.id)
@@ -72,6 +83,7 @@ export class UserService {
           name: profile.schools.name,
           owner_id: profile.schools.owner_id
         } : undefined,
+        papel: profile.papel ?? undefined,
         created_at: profile.created_at,
         updated_at: profile.updated_at
       }
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  agruparAulasPorDia,
+  calcularProgressoAlunos,
+  contarFaltasSeguidas,
+  getSemana
+} from '../../utils/areaProfessorUtils';
+import type { PresencaPortal } from '../../types/responsavel';
+
+const presenca = (aluno_id: string, data_aula: string, status: PresencaPortal['status']): PresencaPortal => ({
+  aluno_id,
+  data_aula,
+  status,
+  turma_id: 't1'
+});
+
+describe('areaProfessorUtils', () => {
+  describe('getSemana', () => {
+    it('deve ir de segunda a domingo', () => {
+      expect(getSemana(new Date(2025, 6, 24))).toEqual({ inicio: '2025-07-21', fim: '2025-07-27' });
+    });
+
+    it('deve tratar o domingo como fim da semana', () => {
+      expect(getSemana(new Date(2025, 6, 27))).toEqual({ inicio: '2025-07-21', fim: '2025-07-27' });
+    });
+  });
+
+  describe('agruparAulasPorDia', () => {
+    it('deve agrupar por data em ordem de horário', () => {
+      const grupos = agruparAulasPorDia([
+        { id: 'a3', data_aula: '2025-07-22', horario_inicio: '09:00' },
+        { id: 'a2', data_aula: '2025-07-21', horario_inicio: '16:00' },
+        { id: 'a1', data_aula: '2025-07-21', horario_inicio: '14:00' }
+      ]);
+
+      expect(grupos.map((g) => [g.data, g.aulas.map((a) => a.id)])).toEqual([
+        ['2025-07-21', ['a1', 'a2']],
+        ['2025-07-22', ['a3']]
+      ]);
+    });
+  });
+
+  describe('contarFaltasSeguidas', () => {
+    it('deve contar as faltas mais recentes ignorando justificadas', () => {
+      expect(
+        contarFaltasSeguidas([
+          presenca('x', '2025-07-01', 'ausente'),
+          presenca('x', '2025-07-08', 'presente'),
+          presenca('x', '2025-07-15', 'ausente'),
+          presenca('x', '2025-07-22', 'justificado'),
+          presenca('x', '2025-07-29', 'ausente')
+        ])
+      ).toBe(2);
+    });
+  });
+
+  describe('calcularProgressoAlunos', () => {
+    it('deve listar primeiro quem acumula faltas seguidas', () => {
+      const progresso = calcularProgressoAlunos(
+        [
+          { id: 'a', nome: 'Ana' },
+          { id: 'b', nome: 'Bruno' },
+          { id: 'c', nome: 'Carla' }
+        ],
+        [
+          presenca('a', '2025-07-21', 'presente'),
+          presenca('b', '2025-07-14', 'ausente'),
+          presenca('b', '2025-07-21', 'ausente')
+        ]
+      );
+
+      expect(progresso.map((p) => [p.nome, p.percentual, p.faltasSeguidas])).toEqual([
+        ['Bruno', 0, 2],
+        ['Ana', 100, 0],
+        ['Carla', 0, 0]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calcularPascoa,
+  getFeriadosNacionais,
+  getFeriadosNoPeriodo,
+  getPeriodoSemestre,
+  resumirGeracao
+} from '../../utils/aulasRecorrentesUtils';
+import type { ResultadoGeracaoAula } from '../../types/aula';
+
+describe('aulasRecorrentesUtils', () => {
+  describe('calcularPascoa', () => {
+    it('deve calcular o domingo de Páscoa', () => {
+      expect(calcularPascoa(2024)).toEqual(new Date(2024, 2, 31));
+      expect(calcularPascoa(2025)).toEqual(new Date(2025, 3, 20));
+    });
+  });
+
+  describe('getFeriadosNacionais', () => {
+    it('deve incluir feriados fixos e móveis em ordem', () => {
+      const feriados = getFeriadosNacionais(2025);
+
+      expect(feriados).toHaveLength(13);
+      expect(feriados[0]).toEqual({ data: '2025-01-01', nome: 'Confraternização Universal' });
+      expect(feriados).toContainEqual({ data: '2025-03-03', nome: 'Carnaval' });
+      expect(feriados).toContainEqual({ data: '2025-04-18', nome: 'Sexta-feira Santa' });
+      expect(feriados).toContainEqual({ data: '2025-06-19', nome: 'Corpus Christi' });
+    });
+  });
+
+  describe('getFeriadosNoPeriodo', () => {
+    it('deve filtrar o período, atravessando a virada do ano', () => {
+      expect(getFeriadosNoPeriodo('2024-12-20', '2025-01-05').map((f) => f.data)).toEqual(['2024-12-25', '2025-01-01']);
+    });
+  });
+
+  describe('getPeriodoSemestre', () => {
+    it('deve ir da data de referência ao fim do semestre', () => {
+      expect(getPeriodoSemestre(new Date(2025, 2, 10))).toEqual({ inicio: '2025-03-10', fim: '2025-06-30' });
+      expect(getPeriodoSemestre(new Date(2025, 7, 1))).toEqual({ inicio: '2025-08-01', fim: '2025-12-31' });
+    });
+  });
+
+  describe('resumirGeracao', () => {
+    it('deve contar as linhas por situação', () => {
+      const linha = (situacao: ResultadoGeracaoAula['situacao']): ResultadoGeracaoAula => ({
+        aula_id: null,
+        data_aula: '2025-03-10',
+        horario_inicio: '14:00:00',
+        horario_fim: '15:00:00',
+        situacao
+      });
+
+      expect(resumirGeracao([linha('criada'), linha('criada'), linha('feriado'), linha('mantida')])).toEqual({
+        criada: 2,
+        existente: 0,
+        removida: 0,
+        mantida: 1,
+        feriado: 1
+      });
+    });
+  });
+});
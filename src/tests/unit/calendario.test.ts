@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filtrarDiasLetivos,
+  getDiasDaSemana,
+  getDiasSemAula,
+  getEventosDoDia,
+  getGradeDoMes,
+  getPeriodoDasDatas
+} from '../../utils/calendarioUtils';
+import { calcularProgressoAlunos } from '../../utils/areaProfessorUtils';
+import { resumirFrequencia } from '../../utils/portalResponsavelUtils';
+import type { EventoCalendario } from '../../types/calendario';
+import type { PresencaPortal } from '../../types/responsavel';
+
+const evento = (
+  id: string,
+  tipo: EventoCalendario['tipo'],
+  data_inicio: string,
+  data_fim = data_inicio,
+  sem_aula = tipo !== 'evento'
+): EventoCalendario => ({
+  id,
+  school_id: 's1',
+  titulo: id,
+  descricao: null,
+  tipo,
+  data_inicio,
+  data_fim,
+  sem_aula,
+  nacional: false,
+  created_by: null
+});
+
+const presenca = (data_aula: string, status: PresencaPortal['status']): PresencaPortal => ({
+  aluno_id: 'a1',
+  data_aula,
+  status,
+  turma_id: 't1'
+});
+
+describe('calendarioUtils', () => {
+  describe('getDiasDaSemana', () => {
+    it('deve ir de segunda a domingo', () => {
+      const dias = getDiasDaSemana(new Date(2025, 6, 30));
+      expect(dias[0]).toBe('2025-07-28');
+      expect(dias[6]).toBe('2025-08-03');
+    });
+  });
+
+  describe('getGradeDoMes', () => {
+    it('deve completar a primeira e a última semana com os meses vizinhos', () => {
+      const grade = getGradeDoMes(2025, 6);
+      expect(grade).toHaveLength(5);
+      expect(grade[0][0]).toBe('2025-06-30');
+      expect(grade[4][6]).toBe('2025-08-03');
+    });
+
+    it('deve terminar na semana do último dia quando ele é domingo', () => {
+      const grade = getGradeDoMes(2025, 7);
+      expect(grade[grade.length - 1][6]).toBe('2025-08-31');
+    });
+  });
+
+  describe('getEventosDoDia', () => {
+    it('deve incluir eventos de vários dias e listar feriados antes de eventos', () => {
+      const eventos = [evento('Recital', 'evento', '2025-07-10'), evento('Férias', 'recesso', '2025-07-07', '2025-07-18')];
+      expect(getEventosDoDia(eventos, '2025-07-10').map((e) => e.id)).toEqual(['Férias', 'Recital']);
+      expect(getEventosDoDia(eventos, '2025-07-19')).toEqual([]);
+    });
+  });
+
+  describe('getDiasSemAula', () => {
+    it('deve expandir os períodos sem aula dentro do intervalo', () => {
+      const dias = getDiasSemAula(
+        [evento('Férias', 'recesso', '2025-06-28', '2025-07-02'), evento('Recital', 'evento', '2025-07-01')],
+        '2025-07-01',
+        '2025-07-31'
+      );
+      expect([...dias]).toEqual(['2025-07-01', '2025-07-02']);
+    });
+
+    it('deve considerar eventos marcados sem aula', () => {
+      expect([...getDiasSemAula([evento('Festival', 'evento', '2025-09-20', '2025-09-20', true)], '2025-09-01', '2025-09-30')])
+        .toEqual(['2025-09-20']);
+    });
+  });
+
+  describe('filtrarDiasLetivos', () => {
+    it('deve remover os registros de dias sem aula', () => {
+      const registros = [presenca('2025-04-18', 'ausente'), presenca('2025-04-25', 'presente')];
+      expect(filtrarDiasLetivos(registros, new Set(['2025-04-18']))).toEqual([registros[1]]);
+      expect(filtrarDiasLetivos(registros)).toBe(registros);
+    });
+  });
+
+  describe('getPeriodoDasDatas', () => {
+    it('deve retornar a primeira e a última data', () => {
+      expect(getPeriodoDasDatas(['2025-05-10', '2025-03-01', '2025-04-15'])).toEqual({ inicio: '2025-03-01', fim: '2025-05-10' });
+      expect(getPeriodoDasDatas([])).toBeNull();
+    });
+  });
+
+  describe('frequência sem os dias sem aula', () => {
+    const presencas = [presenca('2025-04-11', 'presente'), presenca('2025-04-18', 'ausente')];
+    const sextaSanta = new Set(['2025-04-18']);
+
+    it('deve ignorar chamadas de feriado no resumo', () => {
+      expect(resumirFrequencia(presencas, sextaSanta)).toMatchObject({ total: 1, presentes: 1, percentual: 100 });
+    });
+
+    it('deve ignorar chamadas de feriado no progresso dos alunos', () => {
+      const [progresso] = calcularProgressoAlunos([{ id: 'a1', nome: 'Ana' }], presencas, sextaSanta);
+      expect(progresso).toMatchObject({ total: 1, faltasSeguidas: 0 });
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { alfa, conciliarRetorno, gerarRemessaCnab240, lerRetornoCnab240, num, pendenciasPagador, valorCnab } from '../../utils/cnab240';
+import type { ConfiguracaoCnab, TituloRemessa, TituloRetorno } from '../../utils/cnab240';
+
+const config: ConfiguracaoCnab = {
+  banco: '001',
+  nomeBanco: 'Banco do Brasil',
+  agencia: '1234',
+  agenciaDv: '5',
+  conta: '98765',
+  contaDv: '0',
+  convenio: '1234567',
+  carteira: '1',
+  cnpj: '12.345.678/0001-90',
+  nomeEmpresa: 'Escola de Música Harmonia'
+};
+
+const titulo: TituloRemessa = {
+  identificador: 'A1B2C3D4E5F6A7B8C9D0E1F2A',
+  vencimento: '2025-03-10',
+  emissao: '2025-03-01',
+  valor: 250.5,
+  multaPercentual: 2,
+  jurosMensalPercentual: 1,
+  pagador: {
+    nome: 'João da Silva',
+    documento: '123.456.789-09',
+    endereco: 'Rua das Flores, 10',
+    bairro: 'Centro',
+    cep: '01001-000',
+    cidade: 'São Paulo',
+    uf: 'SP'
+  }
+};
+
+// Monta uma linha de retorno posicionando os campos informados (posição inicial 1-based)
+const linhaRetorno = (campos: Record<number, string>): string => {
+  const linha = Array(240).fill(' ');
+  Object.entries(campos).forEach(([posicao, valor]) => {
+    valor.split('').forEach((caractere, i) => {
+      linha[Number(posicao) - 1 + i] = caractere;
+    });
+  });
+  return linha.join('');
+};
+
+describe('cnab240', () => {
+  describe('formatação de campos', () => {
+    it('deve alinhar campos alfanuméricos e numéricos', () => {
+      expect(alfa('Música', 8)).toBe('MUSICA  ');
+      expect(num('12.3', 5)).toBe('00123');
+      expect(valorCnab(250.5)).toBe('000000000025050');
+    });
+  });
+
+  describe('gerarRemessaCnab240', () => {
+    it('deve gerar registros de 240 posições com header, segmentos P/Q/R e trailers', () => {
+      const arquivo = gerarRemessaCnab240(config, [titulo], 7, new Date(2025, 2, 1, 8, 30, 0));
+      const linhas = arquivo.split('\r\n').slice(0, -1);
+
+      expect(linhas).toHaveLength(7);
+      linhas.forEach((linha) => expect(linha).toHaveLength(240));
+      expect(linhas.map((linha) => linha[7] + (linha[7] === '3' ? linha[13] : ''))).toEqual(['0', '1', '3P', '3Q', '3R', '5', '9']);
+
+      const [header, , segmentoP, segmentoQ, segmentoR, trailerLote, trailerArquivo] = linhas;
+      expect(header.slice(157, 163)).toBe('000007');
+      expect(segmentoP.slice(77, 85)).toBe('10032025');
+      expect(segmentoP.slice(85, 100)).toBe('000000000025050');
+      expect(segmentoP.slice(195, 220)).toBe(titulo.identificador);
+      expect(segmentoQ.slice(17, 33)).toBe('1000012345678909');
+      expect(segmentoQ.slice(33, 46)).toBe('JOAO DA SILVA');
+      expect(segmentoR.slice(65, 74)).toBe('211032025');
+      expect(trailerLote.slice(17, 23)).toBe('000005');
+      expect(trailerArquivo.slice(23, 29)).toBe('000007');
+    });
+  });
+
+  describe('pendenciasPagador', () => {
+    it('deve aceitar pagador com CPF e endereço completos', () => {
+      expect(pendenciasPagador(titulo.pagador)).toEqual([]);
+    });
+
+    it('deve apontar CPF inválido e endereço incompleto', () => {
+      expect(pendenciasPagador({ nome: 'João da Silva', documento: '111.111.111-11', endereco: 'Rua A, 1', uf: 'São Paulo', cep: '0100' }))
+        .toEqual(['CPF', 'cidade', 'UF', 'CEP']);
+    });
+  });
+
+  describe('lerRetornoCnab240', () => {
+    it('deve combinar os segmentos T e U de cada título', () => {
+      const conteudo = [
+        linhaRetorno({ 1: '001', 4: '0000', 8: '0', 143: '2' }),
+        linhaRetorno({ 1: '001', 8: '3', 14: 'T', 16: '06', 59: 'A1B2C3D4E5F6A7B', 82: '000000000025050', 106: titulo.identificador }),
+        linhaRetorno({ 1: '001', 8: '3', 14: 'U', 16: '06', 18: '000000000000510', 78: '000000000025560', 138: '12032025', 146: '13032025' })
+      ].join('\r\n');
+
+      const retorno = lerRetornoCnab240(conteudo);
+
+      expect(retorno.banco).toBe('001');
+      expect(retorno.erros).toEqual([]);
+      expect(retorno.titulos).toEqual([
+        expect.objectContaining({
+          linha: 2,
+          codigoMovimento: '06',
+          identificador: titulo.identificador,
+          valorTitulo: 250.5,
+          encargos: 5.1,
+          valorPago: 255.6,
+          dataOcorrencia: '2025-03-12',
+          dataCredito: '2025-03-13'
+        })
+      ]);
+    });
+
+    it('deve apontar registros inválidos e arquivos de remessa', () => {
+      const retorno = lerRetornoCnab240([linhaRetorno({ 1: '001', 8: '0', 143: '1' }), 'curta'].join('\n'));
+      expect(retorno.erros).toHaveLength(2);
+    });
+  });
+
+  describe('conciliarRetorno', () => {
+    const tituloRetorno = (overrides: Partial<TituloRetorno>): TituloRetorno => ({
+      linha: 2,
+      codigoMovimento: '06',
+      nossoNumero: '',
+      numeroDocumento: '',
+      identificador: 'ABC',
+      valorTitulo: 100,
+      valorPago: 100,
+      encargos: 0,
+      dataOcorrencia: '2025-03-12',
+      dataCredito: '2025-03-13',
+      ...overrides
+    });
+
+    it('deve baixar liquidações e relatar linhas não conciliadas', () => {
+      const resultado = conciliarRetorno(
+        [
+          tituloRetorno({ identificador: 'ABC' }),
+          tituloRetorno({ identificador: 'PAGO' }),
+          tituloRetorno({ identificador: 'XYZ', linha: 6 }),
+          tituloRetorno({ identificador: 'ABC', codigoMovimento: '02' }),
+          tituloRetorno({ identificador: 'REJ', codigoMovimento: '03', linha: 10 })
+        ],
+        [
+          { id: 'l1', status: 'atrasado', boleto_identificador: 'abc' },
+          { id: 'l2', status: 'pago', boleto_identificador: 'PAGO' }
+        ]
+      );
+
+      expect(resultado.baixas).toEqual([expect.objectContaining({ lancamentoId: 'l1', dataPagamento: '2025-03-12' })]);
+      expect(resultado.jaBaixados).toBe(1);
+      expect(resultado.ignorados).toBe(1);
+      expect(resultado.naoConciliados.map((linha) => [linha.linha, linha.motivo])).toEqual([
+        [6, 'Título não encontrado no financeiro'],
+        [10, 'Entrada rejeitada pelo banco']
+      ]);
+    });
+  });
+});
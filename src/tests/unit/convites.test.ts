@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { descreverPrazoConvite, diasParaExpirar, getStatusConvite } from '../../utils/convitesUtils';
+
+const agora = new Date('2025-07-26T12:00:00Z');
+
+describe('convitesUtils', () => {
+  describe('getStatusConvite', () => {
+    it('deve tratar pendentes vencidos como expirados', () => {
+      expect(getStatusConvite({ status: 'pendente', expira_em: '2025-07-26T11:59:00Z' }, agora)).toBe('expirado');
+      expect(getStatusConvite({ status: 'pendente', expira_em: '2025-07-27T12:00:00Z' }, agora)).toBe('pendente');
+    });
+
+    it('deve manter aceitos e revogados mesmo depois do prazo', () => {
+      expect(getStatusConvite({ status: 'aceito', expira_em: '2025-07-01T00:00:00Z' }, agora)).toBe('aceito');
+      expect(getStatusConvite({ status: 'revogado', expira_em: '2025-07-01T00:00:00Z' }, agora)).toBe('revogado');
+    });
+  });
+
+  describe('diasParaExpirar', () => {
+    it('deve arredondar para cima e nunca ficar negativo', () => {
+      expect(diasParaExpirar('2025-08-02T12:00:00Z', agora)).toBe(7);
+      expect(diasParaExpirar('2025-07-27T00:00:00Z', agora)).toBe(1);
+      expect(diasParaExpirar('2025-07-20T00:00:00Z', agora)).toBe(0);
+    });
+  });
+
+  describe('descreverPrazoConvite', () => {
+    it('deve descrever o prazo restante', () => {
+      expect(descreverPrazoConvite({ status: 'pendente', expira_em: '2025-07-29T12:00:00Z' }, agora)).toBe('Expira em 3 dias');
+      expect(descreverPrazoConvite({ status: 'pendente', expira_em: '2025-07-26T18:00:00Z' }, agora)).toBe('Expira em até 1 dia');
+      expect(descreverPrazoConvite({ status: 'pendente', expira_em: '2025-07-25T18:00:00Z' }, agora)).toBe('Expirado');
+    });
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { dataEmSaoPaulo } from '../../../supabase/functions/_shared/datas';
+
+describe('datas', () => {
+  describe('dataEmSaoPaulo', () => {
+    it('deve manter o dia de Brasília depois das 21h', () => {
+      expect(dataEmSaoPaulo(new Date('2025-08-01T02:30:00Z'))).toBe('2025-07-31');
+    });
+
+    it('deve virar o dia à meia-noite de Brasília', () => {
+      expect(dataEmSaoPaulo(new Date('2025-08-01T03:00:00Z'))).toBe('2025-08-01');
+    });
+  });
+});
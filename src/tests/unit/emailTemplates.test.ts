@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { escaparHtml, renderizarEmail, urlAbsoluta } from '../../../supabase/functions/_shared/emailTemplates';
+
+describe('emailTemplates', () => {
+  describe('escaparHtml', () => {
+    it('deve escapar caracteres especiais de HTML', () => {
+      expect(escaparHtml(`<b>"Ana" & 'Bia'</b>`)).toBe('&lt;b&gt;&quot;Ana&quot; &amp; &#39;Bia&#39;&lt;/b&gt;');
+    });
+  });
+
+  describe('urlAbsoluta', () => {
+    it('deve resolver caminhos do app na origem informada', () => {
+      expect(urlAbsoluta('/portal-responsavel?cobranca=1', 'https://escola.app')).toBe(
+        'https://escola.app/portal-responsavel?cobranca=1'
+      );
+    });
+
+    it('deve aceitar URLs completas do próprio app', () => {
+      expect(urlAbsoluta('https://escola.app/financeiro', 'https://escola.app')).toBe('https://escola.app/financeiro');
+    });
+
+    it('deve recusar outros domínios e outros protocolos', () => {
+      expect(urlAbsoluta('https://outro.app/x', 'https://escola.app')).toBeNull();
+      expect(urlAbsoluta('//outro.app/x', 'https://escola.app')).toBeNull();
+      expect(urlAbsoluta('/\\outro.app/x', 'https://escola.app')).toBeNull();
+      expect(urlAbsoluta('javascript:alert(1)', 'https://escola.app')).toBeNull();
+    });
+  });
+
+  describe('renderizarEmail', () => {
+    it('deve escapar título e mensagem no HTML', () => {
+      const { html } = renderizarEmail({ titulo: '<script>x</script>', mensagem: 'Nota < 5' });
+
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('&lt;script&gt;x&lt;/script&gt;');
+      expect(html).toContain('Nota &lt; 5');
+    });
+
+    it('deve separar parágrafos e usar a cor da prioridade', () => {
+      const { html } = renderizarEmail({
+        titulo: 'Falta',
+        mensagem: 'Primeiro\n\nSegundo\nlinha',
+        prioridade: 'URGENT'
+      });
+
+      expect(html.match(/<p /g)).toHaveLength(2);
+      expect(html).toContain('Segundo<br>linha');
+      expect(html).toContain('#dc2626');
+    });
+
+    it('deve incluir o botão de ação no HTML e o link no texto', () => {
+      const acao = { label: 'Abrir no SmartClass', url: 'https://escola.app/portal-aluno' };
+      const { html, texto } = renderizarEmail({ titulo: 'Cobrança', mensagem: 'Vence hoje', acao, escola: 'Escola Sol' });
+
+      expect(html).toContain('href="https://escola.app/portal-aluno"');
+      expect(texto).toContain('Abrir no SmartClass: https://escola.app/portal-aluno');
+      expect(texto.startsWith('Escola Sol')).toBe(true);
+    });
+  });
+});
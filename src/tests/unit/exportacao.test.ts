@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { formatarCelula, gerarCsv, gerarNomeArquivo, montarCabecalho } from '../../utils/exportUtils';
+import type { DatasetExportacao } from '../../utils/exportUtils';
+import { datasetLancamentos } from '../../utils/datasetsExportacao';
+import type { FinanceiroItem } from '../../types/financeiro';
+
+interface Linha {
+  nome: string;
+  valor: number;
+  data: string | null;
+}
+
+const dataset: DatasetExportacao<Linha> = {
+  titulo: 'Relatório de Teste',
+  nomeArquivo: 'Relatório de Teste',
+  filtros: [{ rotulo: 'Mês', valor: '03/2025' }],
+  linhas: [
+    { nome: 'Ana; Maria', valor: 150.5, data: '2025-03-10' },
+    { nome: 'Bruno "Bê"', valor: 0, data: null }
+  ],
+  colunas: [
+    { titulo: 'Nome', valor: (linha) => linha.nome },
+    { titulo: 'Valor', valor: (linha) => linha.valor, tipo: 'moeda' },
+    { titulo: 'Data', valor: (linha) => linha.data, tipo: 'data' }
+  ]
+};
+
+const geradoEm = new Date(2025, 3, 2, 9, 5);
+
+describe('exportUtils', () => {
+  describe('formatarCelula', () => {
+    it('deve formatar datas, percentuais e valores vazios', () => {
+      expect(formatarCelula('2025-03-10', 'data')).toBe('10/03/2025');
+      expect(formatarCelula('2025-03-10T14:30:00Z', 'data')).toBe('10/03/2025 14:30');
+      expect(formatarCelula(87.5, 'percentual')).toBe('87,5%');
+      expect(formatarCelula(true)).toBe('Sim');
+      expect(formatarCelula(null, 'moeda')).toBe('');
+    });
+  });
+
+  describe('montarCabecalho', () => {
+    it('deve identificar a escola, o relatório e os filtros ativos', () => {
+      const cabecalho = montarCabecalho(dataset as DatasetExportacao<unknown>, { escola: 'Escola Música', cnpj: '12.345.678/0001-90' }, geradoEm);
+
+      expect(cabecalho.slice(0, 3)).toEqual(['Escola Música - CNPJ 12.345.678/0001-90', 'Relatório de Teste', 'Mês: 03/2025']);
+      expect(cabecalho[3]).toMatch(/^Gerado em 02\/04\/2025 às 09:05$/);
+    });
+  });
+
+  describe('gerarCsv', () => {
+    it('deve escapar separador e aspas', () => {
+      const csv = gerarCsv(dataset).split('\r\n');
+
+      expect(csv[0]).toBe('Nome;Valor;Data');
+      expect(csv[1]).toMatch(/^"Ana; Maria";R\$\s150,50;10\/03\/2025$/);
+      expect(csv[2]).toMatch(/^"Bruno ""Bê""";R\$\s0,00;$/);
+    });
+
+    it('deve neutralizar fórmulas no texto livre sem alterar números negativos', () => {
+      const csv = gerarCsv({
+        ...dataset,
+        linhas: [
+          { nome: '=HYPERLINK("http://x.example")', valor: -10, data: null },
+          { nome: '+55 11 99999-0000', valor: 0, data: null },
+          { nome: '@SUM(A1)', valor: 0, data: null },
+          { nome: '-2+3', valor: 0, data: null }
+        ]
+      }).split('\r\n');
+
+      expect(csv[1]).toMatch(/^"'=HYPERLINK\(""http:\/\/x\.example""\)";-R\$\s10,00;$/);
+      expect(csv[2].startsWith("'+55 11 99999-0000;")).toBe(true);
+      expect(csv[3].startsWith("'@SUM(A1);")).toBe(true);
+      expect(csv[4].startsWith("'-2+3;")).toBe(true);
+    });
+
+    it('deve incluir o cabeçalho da escola quando a marca é informada', () => {
+      const csv = gerarCsv(dataset, { escola: 'Escola Música' }, geradoEm).split('\r\n');
+
+      expect(csv.slice(0, 3)).toEqual(['Escola Música', 'Relatório de Teste', 'Mês: 03/2025']);
+      expect(csv[4]).toBe('');
+      expect(csv[5]).toBe('Nome;Valor;Data');
+    });
+  });
+
+  describe('gerarNomeArquivo', () => {
+    it('deve remover acentos e incluir a data de geração', () => {
+      expect(gerarNomeArquivo('Relatório de Teste', 'xlsx', geradoEm)).toBe('relatorio-de-teste_2025-04-02.xlsx');
+    });
+  });
+
+  describe('datasetLancamentos', () => {
+    it('deve descrever apenas os filtros ativos', () => {
+      const lancamentos = [{ id: '1', tipo: 'receita', valor: 200 }] as FinanceiroItem[];
+      const dados = datasetLancamentos(lancamentos, {
+        mes: '2025-03',
+        tipo: 'receita',
+        status: 'todos',
+        categoria: 'todas',
+        busca: ' piano '
+      });
+
+      expect(dados.nomeArquivo).toBe('financeiro-2025-03');
+      expect(dados.filtros).toEqual([
+        { rotulo: 'Mês', valor: '03/2025' },
+        { rotulo: 'Tipo', valor: 'Receitas' },
+        { rotulo: 'Busca', valor: 'piano' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calcularAgendaLembretes,
+  calcularResumoFinanceiro,
+  filtrarLancamentos,
+  getMesReferencia,
+  getValorDevido,
+  isLancamentoVencido
+} from '../../utils/financeiroUtils';
+import type { FinanceiroItem, FiltrosFinanceiro } from '../../types/financeiro';
+
+const lancamento = (overrides: Partial<FinanceiroItem>): FinanceiroItem => ({
+  id: Math.random().toString(36).slice(2),
+  school_id: 'school-1',
+  tipo: 'receita',
+  categoria: 'mensalidade',
+  descricao: 'Mensalidade',
+  valor: 100,
+  data_vencimento: '2025-03-10',
+  data_pagamento: null,
+  status: 'pendente',
+  metodo_pagamento: null,
+  observacoes: null,
+  aluno_id: null,
+  professor_id: null,
+  ...overrides
+});
+
+const filtrosPadrao: FiltrosFinanceiro = {
+  mes: '2025-03',
+  tipo: 'todos',
+  status: 'todos',
+  categoria: 'todas',
+  busca: ''
+};
+
+describe('financeiroUtils', () => {
+  describe('getMesReferencia', () => {
+    it('deve formatar o mês com dois dígitos', () => {
+      expect(getMesReferencia(new Date(2025, 0, 15))).toBe('2025-01');
+    });
+  });
+
+  describe('isLancamentoVencido', () => {
+    it('deve considerar vencido apenas lançamento em aberto antes de hoje', () => {
+      expect(isLancamentoVencido(lancamento({ data_vencimento: '2025-03-09' }), '2025-03-10')).toBe(true);
+      expect(isLancamentoVencido(lancamento({ data_vencimento: '2025-03-10' }), '2025-03-10')).toBe(false);
+      expect(isLancamentoVencido(lancamento({ data_vencimento: '2025-03-01', status: 'pago' }), '2025-03-10')).toBe(false);
+      expect(isLancamentoVencido(lancamento({ data_vencimento: '2025-03-01', status: 'cancelado' }), '2025-03-10')).toBe(false);
+    });
+  });
+
+  describe('getValorDevido', () => {
+    it('deve somar multa e juros ao valor original', () => {
+      expect(getValorDevido(lancamento({ valor: 100 }))).toBe(100);
+      expect(getValorDevido(lancamento({ valor: 100, valor_multa: 2, valor_juros: 0.5 }))).toBe(102.5);
+    });
+  });
+
+  describe('filtrarLancamentos', () => {
+    const items = [
+      lancamento({ descricao: 'Mensalidade Ana', aluno: { nome: 'Ana Silva' } }),
+      lancamento({ tipo: 'despesa', categoria: 'aluguel', descricao: 'Aluguel' }),
+      lancamento({ data_vencimento: '2025-04-10', descricao: 'Mensalidade abril' })
+    ];
+
+    it('deve filtrar pelo mês de vencimento', () => {
+      expect(filtrarLancamentos(items, filtrosPadrao)).toHaveLength(2);
+    });
+
+    it('deve combinar tipo, categoria e busca', () => {
+      expect(filtrarLancamentos(items, { ...filtrosPadrao, tipo: 'despesa' })).toHaveLength(1);
+      expect(filtrarLancamentos(items, { ...filtrosPadrao, categoria: 'mensalidade' })).toHaveLength(1);
+      expect(filtrarLancamentos(items, { ...filtrosPadrao, busca: 'ana' })[0].descricao).toBe('Mensalidade Ana');
+    });
+  });
+
+  describe('calcularResumoFinanceiro', () => {
+    it('deve totalizar receitas, despesas, saldo e inadimplência ignorando cancelados', () => {
+      const resumo = calcularResumoFinanceiro(
+        [
+          lancamento({ valor: 200, status: 'pago', data_pagamento: '2025-03-05' }),
+          lancamento({ valor: 150, data_vencimento: '2025-03-01', status: 'atrasado', valor_multa: 3, valor_juros: 0.7 }),
+          lancamento({ valor: 999, status: 'cancelado' }),
+          lancamento({ tipo: 'despesa', valor: 80, status: 'pago' }),
+          lancamento({ tipo: 'despesa', valor: 50 })
+        ],
+        '2025-03-15'
+      );
+
+      expect(resumo).toEqual({
+        receitasPrevistas: 350,
+        receitasRecebidas: 200,
+        despesasPrevistas: 130,
+        despesasPagas: 80,
+        saldo: 120,
+        inadimplencia: 153.7,
+        lancamentosAtrasados: 1
+      });
+    });
+  });
+
+  describe('calcularAgendaLembretes', () => {
+    it('deve calcular D-3, D e D+5 atravessando a virada do mês', () => {
+      const regras = { lembrete_dias_antes: 3, lembrete_no_vencimento: true, lembrete_dias_depois: 5 };
+
+      expect(calcularAgendaLembretes({ data_vencimento: '2025-03-01' }, regras)).toEqual([
+        { etapa: 'antes', data: '2025-02-26' },
+        { etapa: 'vencimento', data: '2025-03-01' },
+        { etapa: 'atraso', data: '2025-03-06' }
+      ]);
+    });
+
+    it('deve omitir as etapas desativadas', () => {
+      const regras = { lembrete_dias_antes: 0, lembrete_no_vencimento: false, lembrete_dias_depois: 10 };
+
+      expect(calcularAgendaLembretes({ data_vencimento: '2025-03-25' }, regras)).toEqual([
+        { etapa: 'atraso', data: '2025-04-04' }
+      ]);
+    });
+  });
+});
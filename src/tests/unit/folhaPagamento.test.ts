@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calcularHorasAula,
+  calcularTotalFolha,
+  calcularTotalProfessor,
+  formatarHoras,
+  getVencimentoFolha
+} from '../../utils/folhaPagamentoUtils';
+import type { CalculoFolhaProfessor } from '../../types/financeiro';
+
+const calculo = (overrides: Partial<CalculoFolhaProfessor>): CalculoFolhaProfessor => ({
+  professor_id: 'p1',
+  professor_nome: 'Ana',
+  aulas_realizadas: 4,
+  horas: 6,
+  valor_hora: 50,
+  valor_aulas: 300,
+  ...overrides
+});
+
+describe('folhaPagamentoUtils', () => {
+  describe('calcularHorasAula', () => {
+    it('deve converter o intervalo da aula em horas', () => {
+      expect(calcularHorasAula('14:00', '15:30')).toBe(1.5);
+      expect(calcularHorasAula('08:00:00', '08:50:00')).toBe(0.83);
+      expect(calcularHorasAula('10:00', '09:00')).toBe(0);
+    });
+  });
+
+  describe('formatarHoras', () => {
+    it('deve exibir horas e minutos', () => {
+      expect(formatarHoras(1.5)).toBe('1h30');
+      expect(formatarHoras(6)).toBe('6h');
+    });
+  });
+
+  describe('calcularTotalFolha', () => {
+    it('deve aplicar ajustes sem gerar valores negativos', () => {
+      expect(calcularTotalProfessor(300, -50)).toBe(250);
+      expect(calcularTotalProfessor(100, -150)).toBe(0);
+
+      const total = calcularTotalFolha(
+        [calculo({}), calculo({ professor_id: 'p2', valor_aulas: 120.5 })],
+        { p1: { professor_id: 'p1', valor: 80, descricao: 'Ensaio extra' } }
+      );
+      expect(total).toBe(500.5);
+    });
+  });
+
+  describe('getVencimentoFolha', () => {
+    it('deve vencer no dia 5 do mês seguinte', () => {
+      expect(getVencimentoFolha('2025-03')).toBe('2025-04-05');
+      expect(getVencimentoFolha('2025-12')).toBe('2026-01-05');
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calcularPosicoes,
+  calcularVagasLivres,
+  formatarPrazoOferta,
+  montarMensagemOferta
+} from '../../utils/listaEsperaUtils';
+import type { EntradaListaEspera } from '../../types/listaEspera';
+
+const agora = new Date('2025-07-21T12:00:00Z');
+
+const entrada = (dados: Partial<EntradaListaEspera>): EntradaListaEspera => ({
+  id: 'e1',
+  school_id: 's1',
+  turma_id: 't1',
+  aluno_id: null,
+  nome: 'Maria Souza',
+  telefone: null,
+  email: null,
+  observacoes: null,
+  status: 'aguardando',
+  oferta_em: null,
+  oferta_expira_em: null,
+  ...dados
+});
+
+describe('listaEsperaUtils', () => {
+  describe('calcularPosicoes', () => {
+    it('deve numerar apenas quem aguarda, por ordem de chegada', () => {
+      const posicoes = calcularPosicoes([
+        entrada({ id: 'c', created_at: '2025-07-03T10:00:00Z' }),
+        entrada({ id: 'a', created_at: '2025-07-01T10:00:00Z' }),
+        entrada({ id: 'b', created_at: '2025-07-02T10:00:00Z', status: 'ofertada' })
+      ]);
+
+      expect(posicoes.get('a')).toBe(1);
+      expect(posicoes.get('c')).toBe(2);
+      expect(posicoes.has('b')).toBe(false);
+    });
+  });
+
+  describe('calcularVagasLivres', () => {
+    it('deve descontar matrículas ativas e ofertas no prazo', () => {
+      const entradas = [
+        entrada({ id: 'a', status: 'ofertada', oferta_expira_em: '2025-07-22T12:00:00Z' }),
+        entrada({ id: 'b', status: 'ofertada', oferta_expira_em: '2025-07-20T12:00:00Z' }),
+        entrada({ id: 'c' })
+      ];
+
+      expect(calcularVagasLivres(10, 8, entradas, agora)).toBe(1);
+      expect(calcularVagasLivres(10, 10, entradas, agora)).toBe(0);
+    });
+  });
+
+  describe('formatarPrazoOferta', () => {
+    it('deve mostrar dias, horas ou minutos restantes', () => {
+      expect(formatarPrazoOferta('2025-07-23T16:00:00Z', agora)).toBe('2d 4h');
+      expect(formatarPrazoOferta('2025-07-21T15:20:00Z', agora)).toBe('3h 20min');
+      expect(formatarPrazoOferta('2025-07-21T12:45:00Z', agora)).toBe('45min');
+      expect(formatarPrazoOferta('2025-07-21T11:00:00Z', agora)).toBe('expirada');
+    });
+  });
+
+  describe('montarMensagemOferta', () => {
+    it('deve citar o primeiro nome, a turma e a escola', () => {
+      const mensagem = montarMensagemOferta(entrada({ status: 'ofertada' }), 'Violão Iniciante', 'Escola Harmonia');
+
+      expect(mensagem).toContain('Olá, Maria!');
+      expect(mensagem).toContain('turma Violão Iniciante da Escola Harmonia');
+    });
+  });
+});
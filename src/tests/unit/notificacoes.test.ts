@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { estaEmHorarioSilencioso } from '../../utils/notificacoesUtils';
+
+const as = (horario: string) => new Date(`2025-07-30T${horario}:00`);
+
+describe('estaEmHorarioSilencioso', () => {
+  it('considera intervalos que atravessam a meia-noite', () => {
+    expect(estaEmHorarioSilencioso(as('23:30'), '22:00', '08:00')).toBe(true);
+    expect(estaEmHorarioSilencioso(as('03:00'), '22:00', '08:00')).toBe(true);
+    expect(estaEmHorarioSilencioso(as('08:00'), '22:00', '08:00')).toBe(false);
+    expect(estaEmHorarioSilencioso(as('12:00'), '22:00', '08:00')).toBe(false);
+  });
+
+  it('considera intervalos no mesmo dia', () => {
+    expect(estaEmHorarioSilencioso(as('13:15'), '12:00', '14:00')).toBe(true);
+    expect(estaEmHorarioSilencioso(as('11:59'), '12:00', '14:00')).toBe(false);
+  });
+
+  it('início igual ao fim não silencia', () => {
+    expect(estaEmHorarioSilencioso(as('22:00'), '22:00', '22:00')).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  achatarPresencas,
+  desachatarPresencas,
+  getCamposAlterados,
+  isErroDeRede,
+  mesclarAlteracoes
+} from '../../utils/offlineUtils';
+
+describe('isErroDeRede', () => {
+  it('reconhece falhas de fetch retornadas pelo Supabase', () => {
+    expect(isErroDeRede({ message: 'TypeError: Failed to fetch' })).toBe(true);
+    expect(isErroDeRede(new TypeError('NetworkError when attempting to fetch resource.'))).toBe(true);
+    expect(isErroDeRede(new TypeError('Load failed'))).toBe(true);
+  });
+
+  it('não guarda na fila erros do servidor', () => {
+    expect(isErroDeRede({ message: 'new row violates row-level security policy' })).toBe(false);
+    expect(isErroDeRede(null)).toBe(false);
+  });
+});
+
+describe('achatarPresencas / desachatarPresencas', () => {
+  const presencas = [
+    { aluno_id: 'a1', status: 'presente', observacoes: '  chegou atrasado ' },
+    { aluno_id: 'a2', status: 'ausente', observacoes: null }
+  ];
+
+  it('gera um campo por aluno e atributo', () => {
+    expect(achatarPresencas(presencas)).toEqual({
+      'a1.status': 'presente',
+      'a1.observacoes': 'chegou atrasado',
+      'a2.status': 'ausente',
+      'a2.observacoes': ''
+    });
+  });
+
+  it('volta ao formato de salvar_chamada ignorando campos sem aluno', () => {
+    const campos = { aula_id: 'aula-1', ...achatarPresencas(presencas) };
+    expect(desachatarPresencas(campos)).toEqual([
+      { aluno_id: 'a1', status: 'presente', observacoes: 'chegou atrasado' },
+      { aluno_id: 'a2', status: 'ausente', observacoes: null }
+    ]);
+  });
+});
+
+describe('getCamposAlterados', () => {
+  it('compara só os campos da versão original, sem updated_at', () => {
+    const original = { conteudo: 'Escalas', observacoes: '', updated_at: '2025-07-01' };
+    const servidor = { conteudo: 'Escalas maiores', observacoes: '', updated_at: '2025-07-02', extra: 1 };
+    expect(getCamposAlterados(original, servidor)).toEqual(['conteudo']);
+  });
+
+  it('ignora campos que não existem na outra versão', () => {
+    expect(getCamposAlterados({ 'a3.status': 'ausente' }, {})).toEqual([]);
+  });
+});
+
+describe('mesclarAlteracoes', () => {
+  const original = { 'a1.status': 'ausente', 'a2.status': 'ausente', 'a3.status': 'ausente' };
+
+  it('mantém o que foi alterado no aparelho e traz as outras alterações do servidor', () => {
+    const local = { aula_id: 'aula-1', 'a1.status': 'presente', 'a2.status': 'ausente', 'a3.status': 'ausente' };
+    const servidor = { 'a1.status': 'justificado', 'a2.status': 'presente', 'a3.status': 'ausente' };
+
+    expect(mesclarAlteracoes(original, local, servidor)).toEqual({
+      aula_id: 'aula-1',
+      'a1.status': 'presente',
+      'a2.status': 'presente',
+      'a3.status': 'ausente'
+    });
+  });
+
+  it('sem alterações no servidor devolve a versão local', () => {
+    const local = { ...original, 'a2.status': 'presente' };
+    expect(mesclarAlteracoes(original, local, original)).toEqual(local);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import {
+  CAPACIDADES,
+  PERMISSOES,
+  ROTAS,
+  getPaginaInicial,
+  podeAcessarRota,
+  temCapacidade,
+  type TipoUsuario
+} from '../../utils/permissoes';
+
+// Rotas protegidas declaradas em App.tsx, com a capacidade passada ao ProtectedRoute
+const rotasDoApp = (): Map<string, string | null> => {
+  const app = readFileSync(resolve(__dirname, '../../App.tsx'), 'utf8');
+  const padrao = /path="([^"]+)"\s*element=\{\s*<ProtectedRoute(?:\s+capacidade="([^"]+)")?\s*>/g;
+  const rotas = new Map<string, string | null>();
+  for (const [, path, capacidade] of app.matchAll(padrao)) {
+    rotas.set(path, capacidade ?? null);
+  }
+  return rotas;
+};
+
+// Papéis padrão semeados na tabela papeis (migrações posteriores atualizam as listas)
+const papeisDaMigracao = (): Map<string, string[]> => {
+  const pasta = resolve(__dirname, '../../../supabase/migrations');
+  const papeis = new Map<string, string[]>();
+  for (const arquivo of readdirSync(pasta).sort()) {
+    const sql = readFileSync(resolve(pasta, arquivo), 'utf8');
+    for (const [, codigo, lista] of sql.matchAll(/\(NULL, '(\w+)', '[^']+', ARRAY\[([^\]]*)\]\)/g)) {
+      papeis.set(codigo, lista.split(',').map((c) => c.trim().replace(/'/g, '')));
+    }
+  }
+  return papeis;
+};
+
+const TIPOS = Object.keys(PERMISSOES) as TipoUsuario[];
+
+describe('permissoes', () => {
+  describe('rotas do App', () => {
+    const rotas = rotasDoApp();
+
+    it('deve encontrar as rotas protegidas', () => {
+      expect(rotas.size).toBeGreaterThan(10);
+    });
+
+    it.each([...rotas.entries()])('%s deve usar a capacidade da matriz', (path, capacidade) => {
+      expect(path in ROTAS).toBe(true);
+      expect(capacidade).toBe(ROTAS[path]);
+    });
+
+    it('deve declarar no App todas as rotas da matriz', () => {
+      expect(Object.keys(ROTAS).filter((path) => !rotas.has(path))).toEqual([]);
+    });
+  });
+
+  describe('papéis padrão', () => {
+    it('deve espelhar PERMISSOES na migração', () => {
+      const papeis = papeisDaMigracao();
+      expect([...papeis.keys()].sort()).toEqual([...TIPOS].sort());
+      for (const tipo of TIPOS) {
+        expect([...papeis.get(tipo)!].sort()).toEqual([...PERMISSOES[tipo]].sort());
+      }
+    });
+
+    it('deve descrever todas as capacidades usadas', () => {
+      const descritas = CAPACIDADES.map((c) => c.value);
+      expect(TIPOS.flatMap((tipo) => PERMISSOES[tipo]).filter((c) => !descritas.includes(c))).toEqual([]);
+    });
+  });
+
+  describe('temCapacidade', () => {
+    it('deve negar tipos desconhecidos ou ausentes', () => {
+      expect(temCapacidade(undefined, 'perfil.editar')).toBe(false);
+      expect(temCapacidade('visitante', 'perfil.editar')).toBe(false);
+    });
+
+    it('deve usar as capacidades de um papel da escola', () => {
+      const coordenador = ['turmas.ver', 'turmas.gerenciar', 'alunos.ver'];
+      expect(temCapacidade(coordenador, 'turmas.gerenciar')).toBe(true);
+      expect(temCapacidade(coordenador, 'financeiro.ver')).toBe(false);
+      expect(podeAcessarRota(coordenador, '/turmas')).toBe(true);
+      expect(podeAcessarRota(coordenador, '/financeiro')).toBe(false);
+      expect(getPaginaInicial(coordenador)).toBe('/alunos');
+      expect(getPaginaInicial(['perfil.editar'])).toBe('/profile');
+      expect(getPaginaInicial([...coordenador, 'dashboard.ver'])).toBe('/dashboard');
+    });
+
+    it('deve reservar convites e configurações da escola à direção', () => {
+      expect(TIPOS.filter((tipo) => temCapacidade(tipo, 'escola.configurar'))).toEqual(['admin', 'diretor']);
+      expect(TIPOS.filter((tipo) => temCapacidade(tipo, 'usuarios.convidar'))).toEqual(['admin', 'diretor']);
+    });
+  });
+
+  describe('podeAcessarRota', () => {
+    it('deve bloquear páginas de gestão para o aluno', () => {
+      expect(podeAcessarRota('aluno', '/financeiro')).toBe(false);
+      expect(podeAcessarRota('aluno', '/school-settings')).toBe(false);
+      expect(podeAcessarRota('aluno', '/alunos')).toBe(false);
+      expect(podeAcessarRota('aluno', '/portal-aluno')).toBe(true);
+    });
+
+    it('deve bloquear relatórios para a secretaria', () => {
+      expect(podeAcessarRota('secretario', '/financeiro')).toBe(true);
+      expect(podeAcessarRota('secretario', '/relatorios')).toBe(false);
+    });
+
+    it('deve liberar o demonstrativo da folha ao professor, mas não a folha', () => {
+      expect(podeAcessarRota('professor', '/folha-pagamento/:folhaId/professor/:professorId')).toBe(true);
+      expect(podeAcessarRota('professor', '/folha-pagamento')).toBe(false);
+    });
+
+    it('deve negar rotas fora da matriz', () => {
+      expect(podeAcessarRota('admin', '/inexistente')).toBe(false);
+    });
+  });
+
+  describe('getPaginaInicial', () => {
+    it('deve levar cada papel à própria página inicial', () => {
+      expect(getPaginaInicial('admin')).toBe('/dashboard');
+      expect(getPaginaInicial('secretario')).toBe('/dashboard');
+      expect(getPaginaInicial('professor')).toBe('/minhas-turmas');
+      expect(getPaginaInicial('aluno')).toBe('/portal-aluno');
+      expect(getPaginaInicial('responsavel')).toBe('/portal-responsavel');
+    });
+
+    it.each(TIPOS)('%s deve poder abrir a própria página inicial', (tipo) => {
+      expect(podeAcessarRota(tipo, getPaginaInicial(tipo))).toBe(true);
+    });
+  });
+});
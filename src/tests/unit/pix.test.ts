@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { campoEMV, crc16, gerarPayloadPix, gerarTxidPix } from '../../utils/pixUtils';
+
+describe('pixUtils', () => {
+  describe('crc16', () => {
+    it('deve calcular o CRC16-CCITT do exemplo do manual do BR Code', () => {
+      const payload =
+        '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000' +
+        '5204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***6304';
+      expect(crc16(payload)).toBe('1D3D');
+      expect(crc16('123456789')).toBe('29B1');
+    });
+  });
+
+  describe('campoEMV', () => {
+    it('deve prefixar o id e o tamanho com dois dígitos', () => {
+      expect(campoEMV('58', 'BR')).toBe('5802BR');
+    });
+  });
+
+  describe('gerarTxidPix', () => {
+    it('deve gerar até 25 caracteres alfanuméricos a partir do id', () => {
+      expect(gerarTxidPix('3f2504e0-4f89-11d3-9a0c-0305e82c3301')).toBe('3F2504E04F8911D39A0C0305E');
+    });
+  });
+
+  describe('gerarPayloadPix', () => {
+    it('deve montar o payload com valor, txid e CRC válido', () => {
+      const payload = gerarPayloadPix({
+        chave: 'financeiro@escola.com.br',
+        nomeRecebedor: 'Escola de Música Harmonia',
+        cidade: 'São Paulo',
+        txid: 'ABC123',
+        valor: 150.5
+      });
+
+      expect(payload).toContain('0014br.gov.bcb.pix0124financeiro@escola.com.br');
+      expect(payload).toContain('5406150.50');
+      expect(payload).toContain('5925ESCOLA DE MUSICA HARMONI');
+      expect(payload).toContain('6009SAO PAULO');
+      expect(payload).toContain('62100506ABC123');
+      expect(payload.slice(-4)).toBe(crc16(payload.slice(0, -4)));
+    });
+
+    it('deve encurtar ou omitir a descrição para o campo 26 caber em 99 caracteres', () => {
+      const descricao = 'Mensalidade de violão e teoria musical - março';
+
+      const chaveAleatoria = gerarPayloadPix({
+        chave: '123e4567-e12b-12d1-a456-426655440000',
+        nomeRecebedor: 'Escola',
+        cidade: 'Recife',
+        txid: 'ABC123',
+        descricao
+      });
+      expect(chaveAleatoria.slice(6, 10)).toBe('2699');
+      expect(chaveAleatoria).toContain('0237MENSALIDADE DE VIOLAO E TEORIA MUSICA');
+
+      const chaveLonga = gerarPayloadPix({
+        chave: `${'a'.repeat(63)}@escola.com.br`,
+        nomeRecebedor: 'Escola',
+        cidade: 'Recife',
+        txid: 'ABC123',
+        descricao
+      });
+      expect(chaveLonga.slice(6, 10)).toBe('2699');
+      expect(chaveLonga).not.toContain('MENSALIDADE');
+      expect(chaveLonga.slice(-4)).toBe(crc16(chaveLonga.slice(0, -4)));
+    });
+
+    it('deve omitir o valor quando não informado', () => {
+      const payload = gerarPayloadPix({ chave: 'chave', nomeRecebedor: 'Escola', cidade: 'Recife', txid: '' });
+      expect(payload).not.toContain('5406');
+      expect(payload).toContain('62070503***');
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { listarProximasAulas, resumirCobrancas, resumirFrequencia } from '../../utils/portalResponsavelUtils';
+import type { AulaPortal, FilhoPortal, PresencaPortal } from '../../types/responsavel';
+import type { FinanceiroItem } from '../../types/financeiro';
+
+const presenca = (status: PresencaPortal['status']): PresencaPortal => ({
+  aluno_id: 'a1',
+  status,
+  data_aula: '2025-07-01',
+  turma_id: 't1'
+});
+
+const aula = (id: string, turma_id: string, data_aula: string, status: string | null = 'agendada'): AulaPortal => ({
+  id,
+  turma_id,
+  data_aula,
+  horario_inicio: '14:00:00',
+  horario_fim: '15:00:00',
+  status
+});
+
+const cobranca = (dados: Partial<FinanceiroItem>): FinanceiroItem => ({
+  id: 'f1',
+  school_id: 's1',
+  tipo: 'receita',
+  categoria: 'mensalidade',
+  descricao: 'Mensalidade',
+  valor: 200,
+  data_vencimento: '2025-07-10',
+  data_pagamento: null,
+  status: 'pendente',
+  metodo_pagamento: null,
+  observacoes: null,
+  aluno_id: 'a1',
+  professor_id: null,
+  ...dados
+});
+
+describe('portalResponsavelUtils', () => {
+  describe('resumirFrequencia', () => {
+    it('deve contar as situações e calcular o percentual de presença', () => {
+      expect(resumirFrequencia([presenca('presente'), presenca('presente'), presenca('ausente'), presenca('justificado')])).toEqual({
+        total: 4,
+        presentes: 2,
+        ausentes: 1,
+        justificados: 1,
+        percentual: 50
+      });
+    });
+
+    it('deve retornar zero sem chamadas', () => {
+      expect(resumirFrequencia([]).percentual).toBe(0);
+    });
+  });
+
+  describe('listarProximasAulas', () => {
+    it('deve listar as aulas futuras de cada filho em ordem, sem as canceladas', () => {
+      const filhos: FilhoPortal[] = [
+        { id: 'a1', nome: 'Ana', foto_url: null, instrumento: null, turmas: [{ id: 't1', nome: 'Piano', dia_semana: 'Segunda-feira', horario_inicio: '14:00', horario_fim: '15:00' }] },
+        { id: 'a2', nome: 'Bruno', foto_url: null, instrumento: null, turmas: [{ id: 't2', nome: 'Violão', dia_semana: 'Terça-feira', horario_inicio: '14:00', horario_fim: '15:00' }] }
+      ];
+      const aulas = [
+        aula('x1', 't1', '2025-07-21'),
+        aula('x2', 't2', '2025-07-15'),
+        aula('x3', 't1', '2025-07-10'),
+        aula('x4', 't2', '2025-07-22', 'cancelada')
+      ];
+
+      const proximas = listarProximasAulas(filhos, aulas, '2025-07-14');
+
+      expect(proximas.map((a) => [a.id, a.aluno_nome, a.turma_nome])).toEqual([
+        ['x2', 'Bruno', 'Violão'],
+        ['x1', 'Ana', 'Piano']
+      ]);
+    });
+  });
+
+  describe('resumirCobrancas', () => {
+    it('deve somar multa e juros e contar as vencidas', () => {
+      const resumo = resumirCobrancas(
+        [
+          cobranca({ id: 'f1', status: 'atrasado', valor_multa: 4, valor_juros: 2, data_vencimento: '2025-06-10' }),
+          cobranca({ id: 'f2', data_vencimento: '2025-08-10' })
+        ],
+        '2025-07-14'
+      );
+
+      expect(resumo).toEqual({ total: 406, vencidas: 1 });
+    });
+  });
+});
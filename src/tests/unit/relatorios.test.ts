@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { calcularVariacao, getIntervaloPeriodo, isAlunoAtivoEm, montarRelatorio } from '../../utils/relatoriosUtils';
+import type { AlunoRelatorio, DadosRelatorio } from '../../utils/relatoriosUtils';
+
+const aluno = (overrides: Partial<AlunoRelatorio>): AlunoRelatorio => ({
+  id: Math.random().toString(36).slice(2),
+  turma_id: 't1',
+  instrumento: null,
+  ativo: true,
+  data_matricula: '2024-01-10',
+  data_saida: null,
+  created_at: '2024-01-10T12:00:00Z',
+  updated_at: '2024-01-10T12:00:00Z',
+  ...overrides
+});
+
+describe('relatoriosUtils', () => {
+  describe('getIntervaloPeriodo', () => {
+    it('deve comparar com o período anterior até o mesmo dia do mês', () => {
+      const intervalo = getIntervaloPeriodo('3m', new Date(2025, 2, 15));
+
+      expect(intervalo).toEqual({
+        inicio: '2025-01-01',
+        fim: '2025-03-15',
+        inicioAnterior: '2024-10-01',
+        fimAnterior: '2024-12-15',
+        meses: ['2025-01', '2025-02', '2025-03']
+      });
+    });
+
+    it('deve parar no último dia quando o mês anterior é mais curto', () => {
+      const intervalo = getIntervaloPeriodo('1m', new Date(2025, 2, 31));
+
+      expect(intervalo.inicioAnterior).toBe('2025-02-01');
+      expect(intervalo.fimAnterior).toBe('2025-02-28');
+    });
+  });
+
+  describe('calcularVariacao', () => {
+    it('deve calcular a variação relativa e ignorar base zero', () => {
+      expect(calcularVariacao(110, 100)).toBe(10);
+      expect(calcularVariacao(45, 60)).toBe(-25);
+      expect(calcularVariacao(5, 0)).toBeNull();
+    });
+  });
+
+  describe('isAlunoAtivoEm', () => {
+    it('deve respeitar matrícula, saída e inativação sem data', () => {
+      expect(isAlunoAtivoEm(aluno({ data_matricula: '2025-02-01' }), '2025-01-31')).toBe(false);
+      expect(isAlunoAtivoEm(aluno({ data_saida: '2025-02-01' }), '2025-01-31')).toBe(true);
+      expect(isAlunoAtivoEm(aluno({ data_saida: '2025-02-01' }), '2025-02-01')).toBe(false);
+      expect(isAlunoAtivoEm(aluno({ ativo: false, updated_at: '2025-01-20T10:00:00Z' }), '2025-03-01')).toBe(false);
+    });
+  });
+
+  describe('montarRelatorio', () => {
+    const intervalo = getIntervaloPeriodo('1m', new Date(2025, 2, 20));
+    const dados: DadosRelatorio = {
+      alunos: [
+        aluno({ instrumento: 'Piano' }),
+        aluno({ instrumento: 'Piano' }),
+        aluno({ data_saida: '2025-03-05' }),
+        aluno({ data_matricula: '2025-03-02' }),
+        aluno({ data_matricula: '2025-02-10' })
+      ],
+      turmas: [{ id: 't1', nome: 'Violão Iniciante', instrumento: 'Violão' }],
+      presencas: [
+        { status: 'presente', data_aula: '2025-03-03', turma_id: 't1' },
+        { status: 'presente', data_aula: '2025-03-10', turma_id: 't1' },
+        { status: 'presente', data_aula: '2025-03-10', turma_id: 't1' },
+        { status: 'justificado', data_aula: '2025-03-10', turma_id: 't1' },
+        { status: 'presente', data_aula: '2025-02-10', turma_id: 't1' },
+        { status: 'ausente', data_aula: '2025-02-10', turma_id: 't1' }
+      ],
+      lancamentos: [
+        { tipo: 'receita', valor: 300, status: 'pago', data_pagamento: '2025-03-10' },
+        { tipo: 'despesa', valor: 120.5, status: 'pago', data_pagamento: '2025-03-11' },
+        { tipo: 'receita', valor: 999, status: 'pendente', data_pagamento: null }
+      ]
+    };
+
+    it('deve calcular indicadores e variações em relação ao período anterior', () => {
+      const relatorio = montarRelatorio(dados, intervalo);
+
+      expect(relatorio.totalAlunos).toEqual({ valor: 4, anterior: 4, variacao: 0 });
+      expect(relatorio.novasMatriculas).toEqual({ valor: 1, anterior: 1, variacao: 0 });
+      expect(relatorio.retencao).toEqual({ valor: 75, anterior: 100, variacao: -25 });
+      expect(relatorio.presenca).toEqual({ valor: 75, anterior: 50, variacao: 25 });
+    });
+
+    it('deve montar as séries dos gráficos', () => {
+      const relatorio = montarRelatorio(dados, intervalo);
+
+      expect(relatorio.presencaPorMes).toEqual([{ name: 'Mar', presenca: 75 }]);
+      expect(relatorio.instrumentos).toEqual([
+        { name: 'Piano', value: 2 },
+        { name: 'Violão', value: 2 }
+      ]);
+      expect(relatorio.financeiroPorMes).toEqual([{ name: 'Mar', receitas: 300, despesas: 120.5, saldo: 179.5 }]);
+      expect(relatorio.presencaPorTurma).toEqual([{ name: 'Violão Iniciante', presenca: 75, registros: 4 }]);
+    });
+  });
+});
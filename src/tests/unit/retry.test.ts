@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest';
+import { retryWithBackoff } from '../../../supabase/functions/_shared/retry';
+
+describe('retry', () => {
+  describe('retryWithBackoff', () => {
+    it('deve repetir erros temporários até dar certo', async () => {
+      const operacao = vi.fn()
+        .mockRejectedValueOnce(Object.assign(new Error('falhou'), { temporario: true }))
+        .mockResolvedValueOnce('ok');
+
+      const resultado = await retryWithBackoff(operacao, 'teste', {
+        baseDelay: 1,
+        isRetryable: (error) => (error as { temporario?: boolean }).temporario === true
+      });
+
+      expect(resultado).toBe('ok');
+      expect(operacao).toHaveBeenCalledTimes(2);
+    });
+
+    it('deve desistir na hora quando isRetryable recusa o erro', async () => {
+      const operacao = vi.fn().mockRejectedValue(Object.assign(new Error('definitivo'), { temporario: false }));
+
+      await expect(retryWithBackoff(operacao, 'teste', {
+        baseDelay: 1,
+        isRetryable: (error) => (error as { temporario?: boolean }).temporario === true
+      })).rejects.toThrow('definitivo');
+      expect(operacao).toHaveBeenCalledTimes(1);
+    });
+
+    it('deve parar em maxAttempts com os erros padrão', async () => {
+      const operacao = vi.fn().mockRejectedValue(Object.assign(new Error('timeout'), { code: 'PGRST301' }));
+
+      await expect(retryWithBackoff(operacao, 'teste', { baseDelay: 1, maxAttempts: 2 })).rejects.toThrow('timeout');
+      expect(operacao).toHaveBeenCalledTimes(2);
+    });
+  });
+});
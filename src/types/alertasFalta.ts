@@ -0,0 +1,25 @@
+export type RegraAlertaFalta = 'falta' | 'faltas_consecutivas' | 'frequencia_baixa'
+
+export interface ConfiguracoesAlertaFalta {
+  school_id: string
+  ativo: boolean
+  alertar_cada_falta: boolean
+  faltas_consecutivas: number
+  frequencia_minima: number // percentual de presença no mês
+  aulas_minimas_mes: number
+  notificar_coordenacao: boolean
+  canal_email: boolean
+}
+
+export type RegrasAlertaFalta = Omit<ConfiguracoesAlertaFalta, 'school_id'>
+
+// Valores usados pelo banco quando a escola ainda não salvou suas regras
+export const REGRAS_ALERTA_FALTA_PADRAO: RegrasAlertaFalta = {
+  ativo: true,
+  alertar_cada_falta: true,
+  faltas_consecutivas: 3,
+  frequencia_minima: 75,
+  aulas_minimas_mes: 4,
+  notificar_coordenacao: true,
+  canal_email: true
+}
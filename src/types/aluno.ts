@@ -10,11 +10,52 @@ export interface Aluno {
   data_nascimento?: string | null
   responsavel?: string | null
   telefone_responsavel?: string | null
+  // Pagador dos boletos: o responsável ou, sem ele, o próprio aluno
+  cpf_pagador?: string | null
+  bairro?: string | null
+  cidade?: string | null
+  uf?: string | null
+  cep?: string | null
   ativo?: boolean
-  turma_id?: string | null
+  data_matricula?: string | null
+  data_saida?: string | null
   created_at?: string | null
   updated_at?: string | null
-  turma?: { nome: string }
+  matriculas?: MatriculaAluno[]
+  turmas?: { id: string; nome: string }[] // turmas com matrícula ativa
   foto_url?: string
   instrumento?: string
 }
+
+export type DadosPagador = Pick<Aluno, 'responsavel' | 'cpf_pagador' | 'endereco' | 'bairro' | 'cidade' | 'uf' | 'cep'>
+
+export type StatusMatricula = 'ativa' | 'trancada' | 'cancelada' | 'concluida'
+
+export const STATUS_MATRICULA: { value: StatusMatricula; label: string }[] = [
+  { value: 'ativa', label: 'Ativa' },
+  { value: 'trancada', label: 'Trancada' },
+  { value: 'cancelada', label: 'Cancelada' },
+  { value: 'concluida', label: 'Concluída' },
+]
+
+export interface Matricula {
+  id: string
+  school_id: string
+  aluno_id: string
+  turma_id: string
+  status: StatusMatricula
+  data_inicio: string
+  data_fim: string | null
+  valor_mensal: number | null // null = valor da turma
+  observacoes: string | null
+  created_at?: string | null
+  updated_at?: string | null
+}
+
+export interface MatriculaAluno extends Matricula {
+  turma?: { nome: string; valor_mensal: number | null }
+}
+
+export interface MatriculaTurma extends Matricula {
+  aluno?: Pick<Aluno, 'id' | 'nome' | 'email' | 'telefone' | 'foto_url' | 'instrumento'>
+}
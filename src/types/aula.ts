@@ -0,0 +1,63 @@
+export interface HorarioTurma {
+  id: string
+  school_id: string
+  turma_id: string
+  dia_semana: string
+  horario_inicio: string
+  horario_fim: string
+  professor_id: string | null
+  created_at?: string | null
+  updated_at?: string | null
+}
+
+export type SituacaoGeracaoAula = 'criada' | 'existente' | 'removida' | 'mantida' | 'feriado'
+
+// Linha retornada por gerar_aulas_turma
+export interface ResultadoGeracaoAula {
+  aula_id: string | null
+  data_aula: string
+  horario_inicio: string
+  horario_fim: string
+  situacao: SituacaoGeracaoAula
+}
+
+export interface Feriado {
+  data: string // formato yyyy-MM-dd
+  nome: string
+}
+
+// Material de aula (link para partitura, vídeo, arquivo) compartilhado com a turma
+export interface MaterialTurma {
+  id: string
+  school_id: string
+  turma_id: string
+  titulo: string
+  descricao: string | null
+  url: string
+  created_by: string | null
+  created_at?: string | null
+}
+
+// Aula na agenda do professor, com o registro de conteúdo e a chamada (se já feita)
+export interface AulaProfessor {
+  id: string
+  turma_id: string
+  turma_nome: string
+  professor_id: string | null
+  data_aula: string
+  horario_inicio: string
+  horario_fim: string
+  status: string | null
+  conteudo: string | null
+  observacoes: string | null
+  chamada_feita: boolean
+}
+
+export interface TurmaProfessor {
+  id: string
+  nome: string
+  dia_semana: string
+  horario_inicio: string
+  horario_fim: string
+  alunos: { id: string; nome: string; foto_url: string | null }[]
+}
@@ -0,0 +1,34 @@
+export type TipoEventoCalendario = 'feriado' | 'recesso' | 'evento'
+
+export const TIPOS_EVENTO_CALENDARIO: { value: TipoEventoCalendario; label: string }[] = [
+  { value: 'feriado', label: 'Feriado' },
+  { value: 'recesso', label: 'Recesso' },
+  { value: 'evento', label: 'Evento' },
+]
+
+export interface EventoCalendario {
+  id: string
+  school_id: string
+  titulo: string
+  descricao: string | null
+  tipo: TipoEventoCalendario
+  data_inicio: string // formato yyyy-MM-dd
+  data_fim: string
+  sem_aula: boolean
+  nacional: boolean
+  created_by: string | null
+  created_at?: string | null
+  updated_at?: string | null
+}
+
+export type EventoCalendarioForm = Pick<
+  EventoCalendario,
+  'titulo' | 'descricao' | 'tipo' | 'data_inicio' | 'data_fim' | 'sem_aula'
+>
+
+// Linha retornada por dias_sem_aula (um registro por data)
+export interface DiaSemAula {
+  data: string
+  titulo: string
+  tipo: TipoEventoCalendario
+}
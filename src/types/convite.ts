@@ -0,0 +1,48 @@
+// Status gravado no banco; "expirado" é calculado a partir de expira_em
+export type StatusConvite = 'pendente' | 'aceito' | 'revogado' | 'expirado'
+
+export type TipoConvite = 'professor' | 'secretario' | 'aluno' | 'responsavel'
+
+export const TIPOS_CONVITE: { value: TipoConvite; label: string }[] = [
+  { value: 'professor', label: 'Professor' },
+  { value: 'secretario', label: 'Secretaria' },
+  { value: 'aluno', label: 'Aluno' },
+  { value: 'responsavel', label: 'Responsável' },
+]
+
+export interface Convite {
+  id: string
+  school_id: string
+  email: string
+  nome_completo: string
+  tipo_usuario: TipoConvite
+  papel_id: string | null
+  professor_id: string | null
+  aluno_id: string | null
+  parentesco: string | null
+  status: Exclude<StatusConvite, 'expirado'>
+  expira_em: string
+  enviado_em: string
+  envios: number
+  aceito_em: string | null
+  created_at?: string | null
+}
+
+// Dados que o invite-user recebe para um novo convite
+export interface NovoConvite {
+  email: string
+  nome_completo: string
+  tipo_usuario: TipoConvite
+  papel_id?: string | null
+  professor_id?: string | null
+}
+
+// Retorno de consultar_convite (página pública de aceite)
+export interface ConvitePublico {
+  email: string
+  nome_completo: string
+  escola: string
+  tipo_usuario: TipoConvite
+  status: StatusConvite
+  expira_em: string
+}
@@ -0,0 +1,45 @@
+export type StatusEmail = 'pendente' | 'enviando' | 'enviado' | 'falhou' | 'devolvido' | 'suprimido'
+
+export type TipoTransporteEmail = 'smtp' | 'api'
+
+export type PrioridadeEmail = 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT'
+
+// Linha de email_outbox
+export interface EmailOutboxItem {
+  id: string
+  school_id: string
+  destinatario: string
+  user_id: string | null
+  assunto: string
+  mensagem: string | null
+  link: string | null
+  prioridade: PrioridadeEmail
+  html: string | null
+  texto: string | null
+  status: StatusEmail
+  origem: string
+  referencia_id: string | null
+  tentativas: number
+  max_tentativas: number
+  proxima_tentativa: string
+  ultimo_erro: string | null
+  transporte: string | null
+  message_id: string | null
+  enviado_em: string | null
+  devolvido_em: string | null
+  motivo_devolucao: string | null
+  created_at?: string | null
+}
+
+// integrations.config da integração de email; as credenciais (usuário e
+// senha SMTP ou apiKey) ficam em integrations.credentials, lidas só no servidor
+export interface ConfiguracaoTransporteEmail {
+  remetente: string
+  responderPara?: string
+  // SMTP (ex.: Inbucket local na porta 54325, sem autenticação)
+  host?: string
+  porta?: number
+  seguro?: boolean
+  // API HTTP no formato da v3 do SendGrid
+  apiUrl?: string
+}
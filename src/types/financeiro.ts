@@ -0,0 +1,207 @@
+export type TipoLancamento = 'receita' | 'despesa'
+
+export type StatusLancamento = 'pendente' | 'pago' | 'atrasado' | 'cancelado'
+
+export type MetodoPagamento =
+  | 'pix'
+  | 'dinheiro'
+  | 'cartao_credito'
+  | 'cartao_debito'
+  | 'boleto'
+  | 'transferencia'
+
+export interface FinanceiroItem {
+  id: string
+  school_id: string
+  tipo: TipoLancamento
+  categoria: string
+  descricao: string
+  valor: number
+  data_vencimento: string
+  data_pagamento: string | null
+  status: StatusLancamento | null
+  metodo_pagamento: MetodoPagamento | null
+  observacoes: string | null
+  aluno_id: string | null
+  professor_id: string | null
+  turma_id?: string | null
+  competencia?: string | null
+  valor_multa?: number
+  valor_juros?: number
+  pix_txid?: string | null
+  boleto_identificador?: string | null
+  created_at?: string | null
+  updated_at?: string | null
+  aluno?: {
+    nome: string
+  }
+  professor?: {
+    nome: string
+  }
+}
+
+export interface NovoLancamento {
+  tipo: TipoLancamento
+  categoria: string
+  descricao: string
+  valor: number
+  data_vencimento: string
+  status?: StatusLancamento
+  data_pagamento?: string | null
+  metodo_pagamento?: MetodoPagamento | null
+  observacoes?: string | null
+  aluno_id?: string | null
+  professor_id?: string | null
+}
+
+export interface RegistroPagamento {
+  data_pagamento: string
+  metodo_pagamento: MetodoPagamento
+}
+
+export interface ConfiguracoesFinanceiras {
+  school_id: string
+  dia_vencimento: number
+  multa_percentual: number
+  juros_mensal_percentual: number
+  // Lembretes aos responsáveis; 0 dias desativa a etapa
+  lembrete_dias_antes: number
+  lembrete_no_vencimento: boolean
+  lembrete_dias_depois: number
+}
+
+export type EtapaLembrete = 'antes' | 'vencimento' | 'atraso'
+
+// Registro de enviar_lembretes_pagamento (um por lançamento e etapa)
+export interface LembretePagamento {
+  id: string
+  school_id: string
+  financeiro_id: string
+  etapa: EtapaLembrete
+  valor: number
+  // Sem conta no portal (user_id nulo), o lembrete vai só para o email do cadastro
+  destinatarios: { user_id: string | null; nome: string | null; email?: string | null }[]
+  enviado_em: string
+}
+
+export type SituacaoMensalidade = 'criada' | 'existente' | 'pendente' | 'isento'
+
+export interface ResultadoMensalidade {
+  aluno_id: string
+  aluno_nome: string
+  turma_id: string
+  turma_nome: string
+  dias_cobrados: number
+  valor_bruto: number
+  valor_desconto: number
+  valor: number
+  situacao: SituacaoMensalidade
+}
+
+export type TipoDesconto = 'irmaos' | 'bolsa' | 'outro'
+
+export interface DescontoAluno {
+  id: string
+  aluno_id: string
+  tipo: TipoDesconto
+  percentual: number | null
+  valor_fixo: number | null
+  descricao: string | null
+  vigencia_inicio: string
+  vigencia_fim: string | null
+}
+
+export interface CalculoFolhaProfessor {
+  professor_id: string
+  professor_nome: string
+  aulas_realizadas: number
+  horas: number
+  valor_hora: number
+  valor_aulas: number
+}
+
+export interface AjusteFolha {
+  professor_id: string
+  valor: number
+  descricao: string
+}
+
+export interface FolhaPagamento {
+  id: string
+  competencia: string
+  data_vencimento: string
+  valor_total: number
+  aprovada_em: string | null
+}
+
+export interface ItemFolhaPagamento extends CalculoFolhaProfessor {
+  id: string
+  folha_id: string
+  ajuste: number
+  ajuste_descricao: string | null
+  valor_total: number
+  financeiro_id: string | null
+}
+
+export interface FiltrosFinanceiro {
+  mes: string // formato yyyy-MM
+  tipo: TipoLancamento | 'todos'
+  status: StatusLancamento | 'todos'
+  categoria: string | 'todas'
+  busca: string
+}
+
+export interface ResumoFinanceiro {
+  receitasPrevistas: number
+  receitasRecebidas: number
+  despesasPrevistas: number
+  despesasPagas: number
+  saldo: number
+  inadimplencia: number
+  lancamentosAtrasados: number
+}
+
+export const CATEGORIAS_RECEITA = [
+  { value: 'mensalidade', label: 'Mensalidade' },
+  { value: 'matricula', label: 'Matrícula' },
+  { value: 'material', label: 'Material' },
+  { value: 'evento', label: 'Evento' },
+  { value: 'outros', label: 'Outros' },
+]
+
+export const CATEGORIAS_DESPESA = [
+  { value: 'salario', label: 'Salário' },
+  { value: 'aluguel', label: 'Aluguel' },
+  { value: 'manutencao', label: 'Manutenção' },
+  { value: 'material', label: 'Material' },
+  { value: 'impostos', label: 'Impostos' },
+  { value: 'outros', label: 'Outros' },
+]
+
+export const METODOS_PAGAMENTO: { value: MetodoPagamento; label: string }[] = [
+  { value: 'pix', label: 'PIX' },
+  { value: 'dinheiro', label: 'Dinheiro' },
+  { value: 'cartao_credito', label: 'Cartão de Crédito' },
+  { value: 'cartao_debito', label: 'Cartão de Débito' },
+  { value: 'boleto', label: 'Boleto' },
+  { value: 'transferencia', label: 'Transferência' },
+]
+
+export const STATUS_LANCAMENTO: { value: StatusLancamento; label: string }[] = [
+  { value: 'pendente', label: 'Pendente' },
+  { value: 'pago', label: 'Pago' },
+  { value: 'atrasado', label: 'Atrasado' },
+  { value: 'cancelado', label: 'Cancelado' },
+]
+
+export const ETAPAS_LEMBRETE: { value: EtapaLembrete; label: string }[] = [
+  { value: 'antes', label: 'Antes do vencimento' },
+  { value: 'vencimento', label: 'No vencimento' },
+  { value: 'atraso', label: 'Após o vencimento' },
+]
+
+export const TIPOS_DESCONTO: { value: TipoDesconto; label: string }[] = [
+  { value: 'irmaos', label: 'Desconto de irmãos' },
+  { value: 'bolsa', label: 'Bolsa de estudos' },
+  { value: 'outro', label: 'Outro' },
+]
@@ -0,0 +1,34 @@
+export type StatusListaEspera = 'aguardando' | 'ofertada' | 'matriculado' | 'recusada' | 'expirada' | 'cancelada'
+
+export const STATUS_LISTA_ESPERA: { value: StatusListaEspera; label: string }[] = [
+  { value: 'aguardando', label: 'Aguardando' },
+  { value: 'ofertada', label: 'Vaga ofertada' },
+  { value: 'matriculado', label: 'Matriculado' },
+  { value: 'recusada', label: 'Recusou' },
+  { value: 'expirada', label: 'Oferta expirada' },
+  { value: 'cancelada', label: 'Removido' },
+]
+
+export interface EntradaListaEspera {
+  id: string
+  school_id: string
+  turma_id: string
+  aluno_id: string | null // null = interessado sem cadastro
+  nome: string
+  telefone: string | null
+  email: string | null
+  observacoes: string | null
+  status: StatusListaEspera
+  oferta_em: string | null
+  oferta_expira_em: string | null
+  created_at?: string | null
+  updated_at?: string | null
+}
+
+export interface NovaEntradaListaEspera {
+  aluno_id?: string | null
+  nome: string
+  telefone?: string
+  email?: string
+  observacoes?: string
+}
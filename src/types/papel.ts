@@ -0,0 +1,19 @@
+import type { Capacidade } from '@/utils/permissoes'
+
+// Papel da tabela papeis: padrão (school_id nulo) ou criado pela escola
+export interface Papel {
+  id: string
+  school_id: string | null
+  codigo: string
+  nome: string
+  descricao: string | null
+  capacidades: Capacidade[]
+}
+
+// Membro da equipe com o papel que tem nesta escola (nulo = papel padrão do tipo_usuario)
+export interface MembroEquipe {
+  id: string
+  nome_completo: string | null
+  tipo_usuario: string
+  papel_id: string | null
+}
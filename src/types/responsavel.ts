@@ -0,0 +1,53 @@
+export const PARENTESCOS = ['Mãe', 'Pai', 'Avó/Avô', 'Tia/Tio', 'Responsável legal', 'Outro']
+
+// Vínculo entre a conta de um responsável (profiles) e um aluno
+export interface AlunoResponsavel {
+  id: string
+  school_id: string
+  aluno_id: string
+  responsavel_id: string
+  parentesco: string | null
+  receber_alertas_falta: boolean
+  created_at?: string | null
+  responsavel?: { nome_completo: string | null; telefone: string | null }
+}
+
+export interface TurmaPortal {
+  id: string
+  nome: string
+  dia_semana: string
+  horario_inicio: string
+  horario_fim: string
+}
+
+export interface FilhoPortal {
+  id: string
+  nome: string
+  foto_url: string | null
+  instrumento: string | null
+  turmas: TurmaPortal[] // matrículas ativas
+}
+
+export interface AulaPortal {
+  id: string
+  turma_id: string
+  data_aula: string
+  horario_inicio: string
+  horario_fim: string
+  status: string | null
+}
+
+export interface PresencaPortal {
+  aluno_id: string
+  status: 'presente' | 'ausente' | 'justificado'
+  data_aula: string
+  turma_id: string
+}
+
+export interface ProfessorPortal {
+  id: string
+  nome: string
+  email: string | null
+  user_id: string | null
+  turmas: string[] // nomes das turmas dos filhos
+}
@@ -0,0 +1,104 @@
+// Utilitários para a área do professor
+// Criado em: 2025-07-24
+// Descrição: Semana corrente, agenda de aulas agrupada por dia e
+//            acompanhamento de frequência dos alunos das turmas do professor
+
+import { startOfWeek, endOfWeek } from './dateUtils';
+import { toISODate } from './financeiroUtils';
+import { resumirFrequencia, type ResumoFrequencia } from './portalResponsavelUtils';
+import { filtrarDiasLetivos } from './calendarioUtils';
+import type { PresencaPortal } from '@/types/responsavel';
+
+export interface AulaAgenda {
+  id: string;
+  data_aula: string;
+  horario_inicio: string;
+}
+
+export interface ProgressoAluno extends ResumoFrequencia {
+  aluno_id: string;
+  nome: string;
+  faltasSeguidas: number;
+}
+
+/**
+ * Semana (segunda a domingo) que contém a data de referência
+ * @param referencia - Data de referência
+ * @returns Primeiro e último dia no formato yyyy-MM-dd
+ */
+export const getSemana = (referencia: Date = new Date()): { inicio: string; fim: string } => {
+  return { inicio: toISODate(startOfWeek(referencia)), fim: toISODate(endOfWeek(referencia)) };
+};
+
+/**
+ * Agrupar aulas por dia, em ordem de data e horário
+ * @param aulas - Aulas do período
+ * @returns Um grupo por data com as aulas do dia ordenadas
+ */
+export const agruparAulasPorDia = <T extends AulaAgenda>(aulas: T[]): { data: string; aulas: T[] }[] => {
+  const ordenadas = [...aulas].sort(
+    (a, b) => a.data_aula.localeCompare(b.data_aula) || a.horario_inicio.localeCompare(b.horario_inicio)
+  );
+
+  const grupos: { data: string; aulas: T[] }[] = [];
+  for (const aula of ordenadas) {
+    const ultimo = grupos[grupos.length - 1];
+    if (ultimo?.data === aula.data_aula) {
+      ultimo.aulas.push(aula);
+    } else {
+      grupos.push({ data: aula.data_aula, aulas: [aula] });
+    }
+  }
+  return grupos;
+};
+
+/**
+ * Faltas consecutivas mais recentes (justificadas não interrompem nem contam)
+ * @param presencas - Presenças de um aluno
+ * @returns Quantidade de ausências seguidas até a última chamada
+ */
+export const contarFaltasSeguidas = (presencas: PresencaPortal[]): number => {
+  const recentes = [...presencas]
+    .filter((p) => p.status !== 'justificado')
+    .sort((a, b) => b.data_aula.localeCompare(a.data_aula));
+
+  let faltas = 0;
+  for (const presenca of recentes) {
+    if (presenca.status !== 'ausente') break;
+    faltas += 1;
+  }
+  return faltas;
+};
+
+/**
+ * Frequência de cada aluno, com quem tem mais faltas seguidas primeiro
+ * @param alunos - Alunos das turmas do professor
+ * @param registros - Presenças desses alunos nas turmas do professor
+ * @param diasSemAula - Datas sem aula do calendário, ignoradas na frequência
+ * @returns Resumo por aluno
+ */
+export const calcularProgressoAlunos = (
+  alunos: { id: string; nome: string }[],
+  registros: PresencaPortal[],
+  diasSemAula?: ReadonlySet<string>
+): ProgressoAluno[] => {
+  const presencas = filtrarDiasLetivos(registros, diasSemAula);
+  return alunos
+    .map((aluno) => {
+      const doAluno = presencas.filter((p) => p.aluno_id === aluno.id);
+      return {
+        aluno_id: aluno.id,
+        nome: aluno.nome,
+        ...resumirFrequencia(doAluno),
+        faltasSeguidas: contarFaltasSeguidas(doAluno)
+      };
+    })
+    .sort((a, b) => b.faltasSeguidas - a.faltasSeguidas || a.nome.localeCompare(b.nome));
+};
+
+export default {
+  getSemana,
+  agruparAulasPorDia,
+  contarFaltasSeguidas,
+  calcularProgressoAlunos
+};
@@ -0,0 +1,119 @@
+// Utilitários para a geração recorrente de aulas
+// Criado em: 2025-07-19
+// Descrição: Feriados nacionais, período padrão de geração (semestre) e
+//            resumo do resultado de gerar_aulas_turma
+
+import type { Feriado, ResultadoGeracaoAula, SituacaoGeracaoAula } from '@/types/aula';
+
+// Mesma ordem de Date.getDay() e EXTRACT(DOW) no banco
+export const DIAS_SEMANA = [
+  'Domingo',
+  'Segunda-feira',
+  'Terça-feira',
+  'Quarta-feira',
+  'Quinta-feira',
+  'Sexta-feira',
+  'Sábado'
+];
+
+const FERIADOS_FIXOS: { mes: number; dia: number; nome: string }[] = [
+  { mes: 1, dia: 1, nome: 'Confraternização Universal' },
+  { mes: 4, dia: 21, nome: 'Tiradentes' },
+  { mes: 5, dia: 1, nome: 'Dia do Trabalho' },
+  { mes: 9, dia: 7, nome: 'Independência do Brasil' },
+  { mes: 10, dia: 12, nome: 'Nossa Senhora Aparecida' },
+  { mes: 11, dia: 2, nome: 'Finados' },
+  { mes: 11, dia: 15, nome: 'Proclamação da República' },
+  { mes: 11, dia: 20, nome: 'Dia Nacional de Zumbi e da Consciência Negra' },
+  { mes: 12, dia: 25, nome: 'Natal' }
+];
+
+const paraIso = (data: Date): string =>
+  `${data.getFullYear()}-${String(data.getMonth() + 1).padStart(2, '0')}-${String(data.getDate()).padStart(2, '0')}`;
+
+/**
+ * Calcular o domingo de Páscoa (algoritmo de Meeus/Jones/Butcher)
+ */
+export const calcularPascoa = (ano: number): Date => {
+  const a = ano % 19;
+  const b = Math.floor(ano / 100);
+  const c = ano % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const mes = Math.floor((h + l - 7 * m + 114) / 31);
+  const dia = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(ano, mes - 1, dia);
+};
+
+/**
+ * Feriados nacionais do ano, incluindo os móveis (Carnaval, Sexta-feira Santa
+ * e Corpus Christi), que em escolas costumam não ter aula
+ */
+export const getFeriadosNacionais = (ano: number): Feriado[] => {
+  const pascoa = calcularPascoa(ano);
+  const aPartirDaPascoa = (dias: number, nome: string): Feriado => {
+    const data = new Date(pascoa);
+    data.setDate(data.getDate() + dias);
+    return { data: paraIso(data), nome };
+  };
+
+  return [
+    ...FERIADOS_FIXOS.map(({ mes, dia, nome }) => ({ data: paraIso(new Date(ano, mes - 1, dia)), nome })),
+    aPartirDaPascoa(-48, 'Carnaval'),
+    aPartirDaPascoa(-47, 'Carnaval'),
+    aPartirDaPascoa(-2, 'Sexta-feira Santa'),
+    aPartirDaPascoa(60, 'Corpus Christi')
+  ].sort((x, y) => x.data.localeCompare(y.data));
+};
+
+/**
+ * Feriados nacionais entre duas datas (yyyy-MM-dd, inclusive)
+ */
+export const getFeriadosNoPeriodo = (inicio: string, fim: string): Feriado[] => {
+  const anoInicio = Number(inicio.slice(0, 4));
+  const anoFim = Number(fim.slice(0, 4));
+  const feriados: Feriado[] = [];
+
+  for (let ano = anoInicio; ano <= anoFim; ano++) {
+    feriados.push(...getFeriadosNacionais(ano).filter((f) => f.data >= inicio && f.data <= fim));
+  }
+
+  return feriados;
+};
+
+/**
+ * Período padrão de geração: de hoje até o fim do semestre corrente
+ */
+export const getPeriodoSemestre = (referencia: Date = new Date()): { inicio: string; fim: string } => {
+  const fimSemestre = referencia.getMonth() < 6
+    ? new Date(referencia.getFullYear(), 5, 30)
+    : new Date(referencia.getFullYear(), 11, 31);
+  return { inicio: paraIso(referencia), fim: paraIso(fimSemestre) };
+};
+
+/**
+ * Contar as linhas do resultado da geração por situação
+ */
+export const resumirGeracao = (resultado: ResultadoGeracaoAula[]): Record<SituacaoGeracaoAula, number> => {
+  const resumo: Record<SituacaoGeracaoAula, number> = { criada: 0, existente: 0, removida: 0, mantida: 0, feriado: 0 };
+  resultado.forEach((linha) => {
+    resumo[linha.situacao] += 1;
+  });
+  return resumo;
+};
+
+export default {
+  DIAS_SEMANA,
+  calcularPascoa,
+  getFeriadosNacionais,
+  getFeriadosNoPeriodo,
+  getPeriodoSemestre,
+  resumirGeracao
+};
@@ -0,0 +1,115 @@
+// Utilitários do calendário letivo
+// Criado em: 2025-07-28
+// Descrição: Grade do mês e da semana, eventos por dia e exclusão dos
+//            dias sem aula (feriados, recessos) das estatísticas de frequência
+
+import { addDays, startOfWeek } from './dateUtils';
+import { toISODate } from './financeiroUtils';
+import type { EventoCalendario } from '@/types/calendario';
+
+// A partir de segunda-feira, como startOfWeek
+export const DIAS_SEMANA_CURTOS = ['Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb', 'Dom'];
+
+const deIso = (data: string): Date => new Date(`${data}T00:00:00`);
+
+/**
+ * Dias da semana (segunda a domingo) que contém a data de referência
+ * @param referencia - Data de referência
+ * @returns Sete datas no formato yyyy-MM-dd
+ */
+export const getDiasDaSemana = (referencia: Date): string[] => {
+  const inicio = startOfWeek(referencia);
+  return Array.from({ length: 7 }, (_, i) => toISODate(addDays(inicio, i)));
+};
+
+/**
+ * Grade do mês em semanas completas (segunda a domingo), incluindo os dias
+ * dos meses vizinhos que completam a primeira e a última semana
+ * @param ano - Ano
+ * @param mes - Mês (0 a 11, como Date.getMonth())
+ * @returns Uma lista de sete datas (yyyy-MM-dd) por semana
+ */
+export const getGradeDoMes = (ano: number, mes: number): string[][] => {
+  const ultimoDia = toISODate(new Date(ano, mes + 1, 0));
+  const semanas: string[][] = [];
+  let referencia = new Date(ano, mes, 1);
+
+  do {
+    const semana = getDiasDaSemana(referencia);
+    semanas.push(semana);
+    referencia = addDays(deIso(semana[6]), 1);
+  } while (semanas[semanas.length - 1][6] < ultimoDia);
+
+  return semanas;
+};
+
+/**
+ * Eventos que incluem a data (eventos de vários dias aparecem em todos eles)
+ * @param eventos - Eventos do calendário
+ * @param data - Data no formato yyyy-MM-dd
+ * @returns Eventos do dia, feriados e recessos primeiro
+ */
+export const getEventosDoDia = (eventos: EventoCalendario[], data: string): EventoCalendario[] => {
+  const ordem = { feriado: 0, recesso: 1, evento: 2 };
+  return eventos
+    .filter((evento) => evento.data_inicio <= data && evento.data_fim >= data)
+    .sort((a, b) => ordem[a.tipo] - ordem[b.tipo] || a.titulo.localeCompare(b.titulo));
+};
+
+/**
+ * Datas sem aula dentro do período, expandindo eventos de vários dias
+ * @param eventos - Eventos do calendário
+ * @param inicio - Primeiro dia do período (yyyy-MM-dd)
+ * @param fim - Último dia do período (yyyy-MM-dd)
+ * @returns Conjunto de datas yyyy-MM-dd
+ */
+export const getDiasSemAula = (eventos: EventoCalendario[], inicio: string, fim: string): Set<string> => {
+  const dias = new Set<string>();
+  eventos
+    .filter((evento) => evento.sem_aula)
+    .forEach((evento) => {
+      let data = evento.data_inicio > inicio ? evento.data_inicio : inicio;
+      const ultimo = evento.data_fim < fim ? evento.data_fim : fim;
+      while (data <= ultimo) {
+        dias.add(data);
+        data = toISODate(addDays(deIso(data), 1));
+      }
+    });
+  return dias;
+};
+
+/**
+ * Remover registros de dias sem aula (chamadas feitas em feriado ou recesso
+ * não contam na frequência)
+ * @param registros - Registros com data_aula (yyyy-MM-dd)
+ * @param diasSemAula - Datas sem aula da escola
+ * @returns Registros dos dias letivos
+ */
+export const filtrarDiasLetivos = <T extends { data_aula: string }>(
+  registros: T[],
+  diasSemAula?: ReadonlySet<string>
+): T[] => {
+  if (!diasSemAula?.size) return registros;
+  return registros.filter((registro) => !diasSemAula.has(registro.data_aula));
+};
+
+/**
+ * Primeira e última data de uma lista (para buscar os dias sem aula do período)
+ * @param datas - Datas no formato yyyy-MM-dd
+ * @returns Período ou null se a lista estiver vazia
+ */
+export const getPeriodoDasDatas = (datas: string[]): { inicio: string; fim: string } | null => {
+  if (datas.length === 0) return null;
+  const ordenadas = [...datas].sort();
+  return { inicio: ordenadas[0], fim: ordenadas[ordenadas.length - 1] };
+};
+
+export default {
+  DIAS_SEMANA_CURTOS,
+  getDiasDaSemana,
+  getGradeDoMes,
+  getEventosDoDia,
+  getDiasSemAula,
+  filtrarDiasLetivos,
+  getPeriodoDasDatas
+};
@@ -0,0 +1,365 @@
+// Utilitários para boletos no padrão CNAB 240 (FEBRABAN)
+// Criado em: 2025-07-15
+// Descrição: Geração do arquivo de remessa de cobrança (segmentos P, Q e R)
+//            e leitura do arquivo de retorno (segmentos T e U)
+
+import { removeAccents } from './formatUtils';
+import { isValidCEP, isValidCPF } from './validationUtils';
+
+export interface ConfiguracaoCnab {
+  banco: string;
+  nomeBanco: string;
+  agencia: string;
+  agenciaDv: string;
+  conta: string;
+  contaDv: string;
+  convenio: string;
+  carteira: string;
+  cnpj: string;
+  nomeEmpresa: string;
+}
+
+export interface TituloRemessa {
+  identificador: string;
+  vencimento: string; // yyyy-MM-dd
+  emissao: string; // yyyy-MM-dd
+  valor: number;
+  multaPercentual: number;
+  jurosMensalPercentual: number;
+  pagador: {
+    nome: string;
+    documento?: string | null;
+    endereco?: string | null;
+    bairro?: string | null;
+    cep?: string | null;
+    cidade?: string | null;
+    uf?: string | null;
+  };
+}
+
+export interface TituloRetorno {
+  linha: number;
+  codigoMovimento: string;
+  nossoNumero: string;
+  numeroDocumento: string;
+  identificador: string;
+  valorTitulo: number;
+  valorPago: number;
+  encargos: number;
+  dataOcorrencia: string | null;
+  dataCredito: string | null;
+}
+
+export interface ArquivoRetorno {
+  banco: string;
+  titulos: TituloRetorno[];
+  erros: string[];
+}
+
+export interface LancamentoConciliavel {
+  id: string;
+  status: string | null;
+  boleto_identificador?: string | null;
+}
+
+export interface BaixaRetorno {
+  lancamentoId: string;
+  dataPagamento: string | null;
+  titulo: TituloRetorno;
+}
+
+export interface LinhaNaoConciliada {
+  linha: number;
+  identificador: string;
+  valorPago: number;
+  motivo: string;
+}
+
+export interface ConciliacaoRetorno {
+  baixas: BaixaRetorno[];
+  naoConciliados: LinhaNaoConciliada[];
+  jaBaixados: number;
+  ignorados: number;
+}
+
+const TAMANHO_REGISTRO = 240;
+
+// Códigos de movimento do retorno que indicam pagamento do título
+export const MOVIMENTOS_LIQUIDACAO = ['06', '17'];
+
+/**
+ * Campo alfanumérico: sem acentos, maiúsculo, alinhado à esquerda e completado com brancos
+ */
+export const alfa = (valor: string | null | undefined, tamanho: number): string => {
+  return removeAccents(valor ?? '')
+    .replace(/[^A-Za-z0-9 .,/@&-]/g, '')
+    .toUpperCase()
+    .slice(0, tamanho)
+    .padEnd(tamanho, ' ');
+};
+
+/**
+ * Campo numérico: apenas dígitos, alinhado à direita e completado com zeros
+ */
+export const num = (valor: string | number | null | undefined, tamanho: number): string => {
+  return String(valor ?? '').replace(/\D/g, '').slice(-tamanho).padStart(tamanho, '0');
+};
+
+/**
+ * Valor monetário com duas casas decimais implícitas
+ */
+export const valorCnab = (valor: number, tamanho: number = 15): string => {
+  return num(Math.round(valor * 100), tamanho);
+};
+
+/**
+ * Data yyyy-MM-dd para DDMMAAAA (zeros quando ausente)
+ */
+export const dataCnab = (data?: string | null): string => {
+  if (!data) return '00000000';
+  const [ano, mes, dia] = data.slice(0, 10).split('-');
+  return `${dia}${mes}${ano}`;
+};
+
+const diaSeguinte = (data: string): string => {
+  const [ano, mes, dia] = data.split('-').map(Number);
+  const proximo = new Date(Date.UTC(ano, mes - 1, dia + 1));
+  return proximo.toISOString().slice(0, 10);
+};
+
+const montarRegistro = (campos: string[]): string => {
+  const registro = campos.join('');
+  if (registro.length !== TAMANHO_REGISTRO) {
+    throw new Error(`Registro CNAB com ${registro.length} posições (esperado ${TAMANHO_REGISTRO})`);
+  }
+  return registro;
+};
+
+/**
+ * Dados do pagador que faltam para o banco registrar o boleto (segmento Q).
+ * O pagador é sempre pessoa física, identificada pelo CPF.
+ */
+export const pendenciasPagador = (pagador: TituloRemessa['pagador']): string[] => {
+  const pendencias: string[] = [];
+  if (!pagador.documento || !isValidCPF(pagador.documento)) pendencias.push('CPF');
+  if (!pagador.endereco?.trim()) pendencias.push('endereço');
+  if (!pagador.cidade?.trim()) pendencias.push('cidade');
+  if (!/^[A-Za-z]{2}$/.test(pagador.uf ?? '')) pendencias.push('UF');
+  if (!pagador.cep || !isValidCEP(pagador.cep)) pendencias.push('CEP');
+  return pendencias;
+};
+
+/**
+ * Gerar o conteúdo do arquivo de remessa CNAB 240 com um lote de cobrança
+ */
+export const gerarRemessaCnab240 = (
+  config: ConfiguracaoCnab,
+  titulos: TituloRemessa[],
+  sequencial: number,
+  geradoEm: Date = new Date()
+): string => {
+  const banco = num(config.banco, 3);
+  const hoje = `${geradoEm.getFullYear()}-${String(geradoEm.getMonth() + 1).padStart(2, '0')}-${String(geradoEm.getDate()).padStart(2, '0')}`;
+  const hora = [geradoEm.getHours(), geradoEm.getMinutes(), geradoEm.getSeconds()]
+    .map((parte) => String(parte).padStart(2, '0'))
+    .join('');
+  const contaEmpresa = [num(config.agencia, 5), alfa(config.agenciaDv, 1), num(config.conta, 12), alfa(config.contaDv, 1), ' '];
+
+  const registros: string[] = [];
+
+  // Header de arquivo
+  registros.push(montarRegistro([
+    banco, '0000', '0', alfa('', 9), '2', num(config.cnpj, 14), alfa(config.convenio, 20),
+    ...contaEmpresa, alfa(config.nomeEmpresa, 30), alfa(config.nomeBanco, 30), alfa('', 10),
+    '1', dataCnab(hoje), hora, num(sequencial, 6), '103', '00000', alfa('', 20), alfa('', 20), alfa('', 29)
+  ]));
+
+  // Header de lote
+  registros.push(montarRegistro([
+    banco, '0001', '1', 'R', '01', '  ', '060', ' ', '2', num(config.cnpj, 15), alfa(config.convenio, 20),
+    ...contaEmpresa, alfa(config.nomeEmpresa, 30), alfa('', 40), alfa('', 40),
+    num(sequencial, 8), dataCnab(hoje), '00000000', alfa('', 33)
+  ]));
+
+  let sequencialLote = 0;
+  let valorTotal = 0;
+
+  for (const titulo of titulos) {
+    const documento = (titulo.pagador.documento ?? '').replace(/\D/g, '');
+    const tipoInscricao = documento.length === 14 ? '2' : documento.length === 11 ? '1' : '0';
+    const cep = (titulo.pagador.cep ?? '').replace(/\D/g, '');
+    const dataEncargos = dataCnab(diaSeguinte(titulo.vencimento));
+    valorTotal += titulo.valor;
+
+    // Segmento P: dados do título
+    registros.push(montarRegistro([
+      banco, '0001', '3', num(++sequencialLote, 5), 'P', ' ', '01', ...contaEmpresa,
+      alfa('', 20), num(config.carteira, 1), '1', '1', '2', '2',
+      alfa(titulo.identificador, 15), dataCnab(titulo.vencimento), valorCnab(titulo.valor),
+      '00000', ' ', '04', 'N', dataCnab(titulo.emissao),
+      titulo.jurosMensalPercentual > 0 ? '2' : '3', titulo.jurosMensalPercentual > 0 ? dataEncargos : '00000000',
+      valorCnab(titulo.jurosMensalPercentual),
+      '0', '00000000', valorCnab(0), valorCnab(0), valorCnab(0),
+      alfa(titulo.identificador, 25), '3', '00', '1', '060', '09', num(0, 10), ' '
+    ]));
+
+    // Segmento Q: dados do pagador
+    registros.push(montarRegistro([
+      banco, '0001', '3', num(++sequencialLote, 5), 'Q', ' ', '01',
+      tipoInscricao, num(documento, 15), alfa(titulo.pagador.nome, 40), alfa(titulo.pagador.endereco, 40),
+      alfa(titulo.pagador.bairro, 15), num(cep.slice(0, 5), 5), num(cep.slice(5), 3),
+      alfa(titulo.pagador.cidade, 15), alfa(titulo.pagador.uf, 2),
+      '0', num(0, 15), alfa('', 40), '000', alfa('', 20), alfa('', 8)
+    ]));
+
+    // Segmento R: multa por atraso
+    registros.push(montarRegistro([
+      banco, '0001', '3', num(++sequencialLote, 5), 'R', ' ', '01',
+      '0', '00000000', valorCnab(0), '0', '00000000', valorCnab(0),
+      titulo.multaPercentual > 0 ? '2' : '0', titulo.multaPercentual > 0 ? dataEncargos : '00000000',
+      valorCnab(titulo.multaPercentual),
+      alfa('', 10), alfa('', 40), alfa('', 40), alfa('', 20), num(0, 8), '000', '00000', ' ',
+      num(0, 12), ' ', ' ', '0', alfa('', 9)
+    ]));
+  }
+
+  // Trailer de lote: header + detalhes + trailer
+  registros.push(montarRegistro([
+    banco, '0001', '5', alfa('', 9), num(sequencialLote + 2, 6), num(titulos.length, 6),
+    valorCnab(valorTotal, 17), num(0, 6), num(0, 17), num(0, 6), num(0, 17), num(0, 6), num(0, 17),
+    alfa('', 8), alfa('', 117)
+  ]));
+
+  // Trailer de arquivo
+  registros.push(montarRegistro([
+    banco, '9999', '9', alfa('', 9), num(1, 6), num(registros.length + 1, 6), num(0, 6), alfa('', 205)
+  ]));
+
+  return registros.join('\r\n') + '\r\n';
+};
+
+const lerValor = (linha: string, inicio: number, fim: number): number => {
+  return Number(linha.slice(inicio - 1, fim)) / 100;
+};
+
+const lerData = (linha: string, inicio: number): string | null => {
+  const data = linha.slice(inicio - 1, inicio + 7);
+  if (!/^\d{8}$/.test(data) || data === '00000000') return null;
+  return `${data.slice(4, 8)}-${data.slice(2, 4)}-${data.slice(0, 2)}`;
+};
+
+/**
+ * Ler o arquivo de retorno CNAB 240, combinando os segmentos T e U de cada título
+ */
+export const lerRetornoCnab240 = (conteudo: string): ArquivoRetorno => {
+  const linhas = conteudo.split(/\r?\n/).filter((linha) => linha.trim().length > 0);
+  const retorno: ArquivoRetorno = { banco: '', titulos: [], erros: [] };
+  let atual: TituloRetorno | null = null;
+
+  linhas.forEach((linha, index) => {
+    const numeroLinha = index + 1;
+
+    if (linha.length < TAMANHO_REGISTRO) {
+      retorno.erros.push(`Linha ${numeroLinha}: registro com ${linha.length} posições`);
+      return;
+    }
+
+    const tipoRegistro = linha[7];
+    if (tipoRegistro === '0') {
+      retorno.banco = linha.slice(0, 3);
+      if (linha[142] !== '2') {
+        retorno.erros.push(`Linha ${numeroLinha}: o arquivo não é um retorno (código ${linha[142]})`);
+      }
+      return;
+    }
+    if (tipoRegistro !== '3') return;
+
+    const segmento = linha[13];
+    if (segmento === 'T') {
+      atual = {
+        linha: numeroLinha,
+        codigoMovimento: linha.slice(15, 17),
+        nossoNumero: linha.slice(37, 57).trim(),
+        numeroDocumento: linha.slice(58, 73).trim(),
+        identificador: linha.slice(105, 130).trim(),
+        valorTitulo: lerValor(linha, 82, 96),
+        valorPago: 0,
+        encargos: 0,
+        dataOcorrencia: null,
+        dataCredito: null
+      };
+      retorno.titulos.push(atual);
+    } else if (segmento === 'U') {
+      if (!atual) {
+        retorno.erros.push(`Linha ${numeroLinha}: segmento U sem segmento T correspondente`);
+        return;
+      }
+      atual.encargos = lerValor(linha, 18, 32);
+      atual.valorPago = lerValor(linha, 78, 92);
+      atual.dataOcorrencia = lerData(linha, 138);
+      atual.dataCredito = lerData(linha, 146);
+      atual = null;
+    }
+  });
+
+  return retorno;
+};
+
+/**
+ * Conciliar os títulos do retorno com os lançamentos pelo identificador enviado na remessa.
+ * Apenas movimentos de liquidação geram baixa; rejeições entram no relatório de não conciliados.
+ */
+export const conciliarRetorno = (
+  titulos: TituloRetorno[],
+  lancamentos: LancamentoConciliavel[]
+): ConciliacaoRetorno => {
+  const porIdentificador = new Map(
+    lancamentos
+      .filter((lancamento) => lancamento.boleto_identificador)
+      .map((lancamento) => [lancamento.boleto_identificador!.toUpperCase(), lancamento])
+  );
+  const resultado: ConciliacaoRetorno = { baixas: [], naoConciliados: [], jaBaixados: 0, ignorados: 0 };
+
+  for (const titulo of titulos) {
+    const lancamento = porIdentificador.get(titulo.identificador.toUpperCase());
+    const naoConciliado = (motivo: string) =>
+      resultado.naoConciliados.push({
+        linha: titulo.linha,
+        identificador: titulo.identificador || titulo.numeroDocumento,
+        valorPago: titulo.valorPago,
+        motivo
+      });
+
+    if (titulo.codigoMovimento === '03') {
+      naoConciliado('Entrada rejeitada pelo banco');
+    } else if (!MOVIMENTOS_LIQUIDACAO.includes(titulo.codigoMovimento)) {
+      resultado.ignorados++;
+    } else if (!lancamento) {
+      naoConciliado('Título não encontrado no financeiro');
+    } else if (lancamento.status === 'pago') {
+      resultado.jaBaixados++;
+    } else if (lancamento.status === 'cancelado') {
+      naoConciliado('Lançamento cancelado');
+    } else {
+      resultado.baixas.push({
+        lancamentoId: lancamento.id,
+        dataPagamento: titulo.dataOcorrencia ?? titulo.dataCredito,
+        titulo
+      });
+    }
+  }
+
+  return resultado;
+};
+
+export default {
+  MOVIMENTOS_LIQUIDACAO,
+  alfa,
+  num,
+  valorCnab,
+  dataCnab,
+  pendenciasPagador,
+  gerarRemessaCnab240,
+  lerRetornoCnab240,
+  conciliarRetorno
+};
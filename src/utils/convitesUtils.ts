@@ -0,0 +1,56 @@
+// Utilitários para os convites de acesso
+// Criado em: 2025-07-26
+// Descrição: Situação e prazo dos convites enviados pelo invite-user,
+//            espelhando consultar_convite e aceitar_convite no banco
+
+import type { Convite, StatusConvite } from '@/types/convite';
+
+/**
+ * Situação do convite, tratando pendentes vencidos como expirados
+ * @param convite - Registro da tabela convites
+ * @param agora - Momento de referência
+ * @returns Status exibido na tela
+ */
+export const getStatusConvite = (
+  convite: Pick<Convite, 'status' | 'expira_em'>,
+  agora: Date = new Date()
+): StatusConvite => {
+  if (convite.status === 'pendente' && new Date(convite.expira_em) < agora) {
+    return 'expirado';
+  }
+  return convite.status;
+};
+
+/**
+ * Dias inteiros até o convite expirar
+ * @param expiraEm - convites.expira_em
+ * @param agora - Momento de referência
+ * @returns Dias restantes, arredondados para cima (0 se já venceu)
+ */
+export const diasParaExpirar = (expiraEm: string, agora: Date = new Date()): number => {
+  const restante = new Date(expiraEm).getTime() - agora.getTime();
+  return restante > 0 ? Math.ceil(restante / (24 * 60 * 60 * 1000)) : 0;
+};
+
+/**
+ * Texto curto do prazo para a lista de convites pendentes
+ * @param convite - Registro da tabela convites
+ * @param agora - Momento de referência
+ * @returns Ex.: "Expira hoje", "Expira em 3 dias", "Expirado"
+ */
+export const descreverPrazoConvite = (
+  convite: Pick<Convite, 'status' | 'expira_em'>,
+  agora: Date = new Date()
+): string => {
+  if (getStatusConvite(convite, agora) === 'expirado') return 'Expirado';
+
+  const dias = diasParaExpirar(convite.expira_em, agora);
+  if (dias <= 1) return 'Expira em até 1 dia';
+  return `Expira em ${dias} dias`;
+};
+
+export default {
+  getStatusConvite,
+  diasParaExpirar,
+  descreverPrazoConvite
+};
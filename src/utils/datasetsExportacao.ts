@@ -0,0 +1,146 @@
+// Datasets de exportação das telas do sistema
+// Criado em: 2025-07-18
+// Descrição: Colunas e filtros de cada listagem exportável (alunos, livro-caixa,
+//            presença por turma e resumo mensal dos relatórios)
+
+import type { Aluno } from '@/types/aluno';
+import {
+  CATEGORIAS_DESPESA,
+  CATEGORIAS_RECEITA,
+  FinanceiroItem,
+  FiltrosFinanceiro,
+  METODOS_PAGAMENTO,
+  STATUS_LANCAMENTO
+} from '@/types/financeiro';
+import type { DatasetExportacao, FiltroExportacao } from './exportUtils';
+import { getValorDevido } from './financeiroUtils';
+import type { IntervaloRelatorio, Relatorio } from './relatoriosUtils';
+
+const formatarMes = (mes: string) => mes.split('-').reverse().join('/');
+
+const formatarIntervalo = (intervalo: IntervaloRelatorio): FiltroExportacao => ({
+  rotulo: 'Período',
+  valor: `${intervalo.inicio.split('-').reverse().join('/')} a ${intervalo.fim.split('-').reverse().join('/')}`
+});
+
+/**
+ * Lista de alunos exibida na tela, com o termo de busca aplicado
+ */
+export const datasetAlunos = (alunos: Aluno[], busca: string = ''): DatasetExportacao<Aluno> => ({
+  titulo: 'Relatório de Alunos',
+  nomeArquivo: 'alunos',
+  filtros: busca.trim() ? [{ rotulo: 'Busca', valor: busca.trim() }] : [],
+  linhas: alunos,
+  colunas: [
+    { titulo: 'Nome', valor: (aluno) => aluno.nome, largura: 30 },
+    { titulo: 'Turmas', valor: (aluno) => (aluno.turmas ?? []).map((turma) => turma.nome).join(', '), largura: 30 },
+    { titulo: 'Instrumento', valor: (aluno) => aluno.instrumento ?? '' },
+    { titulo: 'E-mail', valor: (aluno) => aluno.email ?? '', largura: 28 },
+    { titulo: 'Telefone', valor: (aluno) => aluno.telefone ?? '' },
+    { titulo: 'Responsável', valor: (aluno) => aluno.responsavel ?? '', largura: 24 },
+    { titulo: 'Matrícula', valor: (aluno) => aluno.data_matricula ?? aluno.created_at ?? '', tipo: 'data' },
+    { titulo: 'Situação', valor: (aluno) => (aluno.ativo === false ? 'Inativo' : 'Ativo') }
+  ]
+});
+
+/**
+ * Lançamentos do livro-caixa com os filtros ativos na tela do Financeiro
+ * (ou com o período selecionado em Relatórios)
+ */
+export const datasetLancamentos = (
+  lancamentos: FinanceiroItem[],
+  filtros: Partial<FiltrosFinanceiro>,
+  intervalo?: IntervaloRelatorio
+): DatasetExportacao<FinanceiroItem> => {
+  const categorias = [...CATEGORIAS_RECEITA, ...CATEGORIAS_DESPESA];
+  const descricaoFiltros: FiltroExportacao[] = [];
+
+  if (filtros.mes) descricaoFiltros.push({ rotulo: 'Mês', valor: formatarMes(filtros.mes) });
+  if (intervalo) descricaoFiltros.push(formatarIntervalo(intervalo));
+  if (filtros.tipo && filtros.tipo !== 'todos') descricaoFiltros.push({ rotulo: 'Tipo', valor: filtros.tipo === 'receita' ? 'Receitas' : 'Despesas' });
+  if (filtros.status && filtros.status !== 'todos') {
+    descricaoFiltros.push({ rotulo: 'Status', valor: STATUS_LANCAMENTO.find((s) => s.value === filtros.status)?.label ?? filtros.status });
+  }
+  if (filtros.categoria && filtros.categoria !== 'todas') {
+    descricaoFiltros.push({ rotulo: 'Categoria', valor: categorias.find((c) => c.value === filtros.categoria)?.label ?? filtros.categoria });
+  }
+  if (filtros.busca?.trim()) descricaoFiltros.push({ rotulo: 'Busca', valor: filtros.busca.trim() });
+
+  return {
+    titulo: 'Relatório Financeiro',
+    nomeArquivo: filtros.mes ? `financeiro-${filtros.mes}` : 'financeiro',
+    filtros: descricaoFiltros,
+    linhas: lancamentos,
+    colunas: [
+      { titulo: 'Vencimento', valor: (l) => l.data_vencimento, tipo: 'data' },
+      { titulo: 'Tipo', valor: (l) => (l.tipo === 'receita' ? 'Receita' : 'Despesa') },
+      { titulo: 'Categoria', valor: (l) => categorias.find((c) => c.value === l.categoria)?.label ?? l.categoria },
+      { titulo: 'Descrição', valor: (l) => l.descricao, largura: 36 },
+      { titulo: 'Aluno/Professor', valor: (l) => l.aluno?.nome ?? l.professor?.nome ?? '', largura: 24 },
+      { titulo: 'Valor', valor: (l) => Number(l.valor), tipo: 'moeda' },
+      { titulo: 'Encargos', valor: (l) => Number(l.valor_multa ?? 0) + Number(l.valor_juros ?? 0), tipo: 'moeda' },
+      { titulo: 'Valor devido', valor: (l) => getValorDevido(l), tipo: 'moeda' },
+      { titulo: 'Status', valor: (l) => STATUS_LANCAMENTO.find((s) => s.value === l.status)?.label ?? '' },
+      { titulo: 'Pagamento', valor: (l) => l.data_pagamento, tipo: 'data' },
+      { titulo: 'Método', valor: (l) => METODOS_PAGAMENTO.find((m) => m.value === l.metodo_pagamento)?.label ?? '' }
+    ]
+  };
+};
+
+type PresencaTurma = Relatorio['presencaPorTurma'][number];
+
+/**
+ * Taxa de presença por turma no período selecionado em Relatórios
+ */
+export const datasetPresencaPorTurma = (
+  relatorio: Relatorio,
+  intervalo: IntervaloRelatorio
+): DatasetExportacao<PresencaTurma> => ({
+  titulo: 'Relatório de Presença por Turma',
+  nomeArquivo: 'presenca-por-turma',
+  filtros: [formatarIntervalo(intervalo)],
+  linhas: relatorio.presencaPorTurma,
+  colunas: [
+    { titulo: 'Turma', valor: (turma) => turma.name, largura: 30 },
+    { titulo: 'Registros de chamada', valor: (turma) => turma.registros, tipo: 'numero' },
+    { titulo: 'Presença', valor: (turma) => turma.presenca, tipo: 'percentual' }
+  ]
+});
+
+interface ResumoMensal {
+  mes: string;
+  presenca: number | null;
+  receitas: number;
+  despesas: number;
+  saldo: number;
+}
+
+/**
+ * Resumo mês a mês (presença e movimento financeiro) do período selecionado em Relatórios
+ */
+export const datasetResumoMensal = (relatorio: Relatorio, intervalo: IntervaloRelatorio): DatasetExportacao<ResumoMensal> => ({
+  titulo: 'Resumo Mensal da Escola',
+  nomeArquivo: 'resumo-mensal',
+  filtros: [formatarIntervalo(intervalo)],
+  linhas: intervalo.meses.map((mes, i) => ({
+    mes: formatarMes(mes),
+    presenca: relatorio.presencaPorMes[i]?.presenca ?? null,
+    receitas: relatorio.financeiroPorMes[i]?.receitas ?? 0,
+    despesas: relatorio.financeiroPorMes[i]?.despesas ?? 0,
+    saldo: relatorio.financeiroPorMes[i]?.saldo ?? 0
+  })),
+  colunas: [
+    { titulo: 'Mês', valor: (linha) => linha.mes },
+    { titulo: 'Presença', valor: (linha) => linha.presenca, tipo: 'percentual' },
+    { titulo: 'Receitas recebidas', valor: (linha) => linha.receitas, tipo: 'moeda' },
+    { titulo: 'Despesas pagas', valor: (linha) => linha.despesas, tipo: 'moeda' },
+    { titulo: 'Saldo', valor: (linha) => linha.saldo, tipo: 'moeda' }
+  ]
+});
+
+export default {
+  datasetAlunos,
+  datasetLancamentos,
+  datasetPresencaPorTurma,
+  datasetResumoMensal
+};
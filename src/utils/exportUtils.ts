@@ -0,0 +1,163 @@
+// Utilitários para exportação de relatórios
+// Criado em: 2025-07-18
+// Descrição: Modelo comum de dataset tabular (colunas, linhas e filtros ativos)
+//            e geração do CSV; XLSX e PDF ficam no exportService
+
+import { formatCurrency, generateSlug } from './formatUtils';
+
+export type FormatoExportacao = 'csv' | 'xlsx' | 'pdf';
+
+export type TipoColuna = 'texto' | 'numero' | 'moeda' | 'data' | 'percentual';
+
+export type ValorCelula = string | number | boolean | null | undefined;
+
+export interface ColunaExportacao<T> {
+  titulo: string;
+  valor: (linha: T) => ValorCelula;
+  tipo?: TipoColuna;
+  largura?: number; // em caracteres, usada no XLSX e como proporção no PDF
+}
+
+export interface FiltroExportacao {
+  rotulo: string;
+  valor: string;
+}
+
+export interface DatasetExportacao<T = unknown> {
+  titulo: string;
+  nomeArquivo: string;
+  colunas: ColunaExportacao<T>[];
+  linhas: T[];
+  filtros?: FiltroExportacao[];
+}
+
+// Identificação da escola impressa em todos os formatos
+export interface MarcaExportacao {
+  escola: string;
+  cnpj?: string | null;
+  logoUrl?: string | null;
+}
+
+export interface TabelaExportacao {
+  titulos: string[];
+  tipos: TipoColuna[];
+  linhas: ValorCelula[][];
+}
+
+export const FORMATOS_EXPORTACAO: { value: FormatoExportacao; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'pdf', label: 'PDF' }
+];
+
+/**
+ * Avaliar as colunas do dataset, mantendo os valores brutos (números continuam números)
+ */
+export const montarTabela = <T>(dataset: DatasetExportacao<T>): TabelaExportacao => ({
+  titulos: dataset.colunas.map((coluna) => coluna.titulo),
+  tipos: dataset.colunas.map((coluna) => coluna.tipo ?? 'texto'),
+  linhas: dataset.linhas.map((linha) => dataset.colunas.map((coluna) => coluna.valor(linha)))
+});
+
+/**
+ * Formatar um valor para exibição (CSV e PDF)
+ */
+export const formatarCelula = (valor: ValorCelula, tipo: TipoColuna = 'texto'): string => {
+  if (valor === null || valor === undefined || valor === '') return '';
+  if (typeof valor === 'boolean') return valor ? 'Sim' : 'Não';
+
+  switch (tipo) {
+    case 'moeda':
+      return formatCurrency(Number(valor));
+    case 'numero':
+      return Number(valor).toLocaleString('pt-BR');
+    case 'percentual':
+      return `${Number(valor).toLocaleString('pt-BR')}%`;
+    case 'data': {
+      const texto = String(valor);
+      const [data, hora] = texto.split('T');
+      const dataBr = data.split('-').reverse().join('/');
+      return hora ? `${dataBr} ${hora.slice(0, 5)}` : dataBr;
+    }
+    default:
+      return String(valor);
+  }
+};
+
+/**
+ * Montar as linhas de identificação (escola, relatório, filtros e data de geração)
+ */
+export const montarCabecalho = (
+  dataset: DatasetExportacao<unknown>,
+  marca: MarcaExportacao,
+  geradoEm: Date = new Date()
+): string[] => {
+  const linhas = [marca.cnpj ? `${marca.escola} - CNPJ ${marca.cnpj}` : marca.escola, dataset.titulo];
+  (dataset.filtros ?? []).forEach((filtro) => linhas.push(`${filtro.rotulo}: ${filtro.valor}`));
+  linhas.push(`Gerado em ${geradoEm.toLocaleDateString('pt-BR')} às ${geradoEm.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`);
+  return linhas;
+};
+
+// Texto começando com = + - @ (ou tabulação/CR) vira fórmula ao abrir o CSV no
+// Excel: o apóstrofo na frente faz a célula ser lida como texto
+const neutralizarFormula = (texto: string): string => (/^[=+\-@\t\r]/.test(texto) ? `'${texto}` : texto);
+
+const escaparCsv = (texto: string, separador: string): string => {
+  if (texto.includes(separador) || texto.includes('"') || texto.includes('\n') || texto.includes('\r')) {
+    return `"${texto.replace(/"/g, '""')}"`;
+  }
+  return texto;
+};
+
+/**
+ * Gerar CSV com ";" (padrão do Excel em pt-BR). Com a marca informada, o arquivo
+ * começa pelas linhas de identificação seguidas de uma linha em branco.
+ */
+export const gerarCsv = <T>(
+  dataset: DatasetExportacao<T>,
+  marca?: MarcaExportacao,
+  geradoEm: Date = new Date(),
+  separador: string = ';'
+): string => {
+  const tabela = montarTabela(dataset);
+  const linhas: string[] = [];
+
+  if (marca) {
+    montarCabecalho(dataset as DatasetExportacao<unknown>, marca, geradoEm).forEach((linha) =>
+      linhas.push(escaparCsv(neutralizarFormula(linha), separador))
+    );
+    linhas.push('');
+  }
+
+  linhas.push(tabela.titulos.map((titulo) => escaparCsv(neutralizarFormula(titulo), separador)).join(separador));
+  // Só o texto livre é neutralizado: números negativos formatados aqui continuam números
+  tabela.linhas.forEach((linha) => {
+    linhas.push(
+      linha
+        .map((valor, i) => {
+          const texto = formatarCelula(valor, tabela.tipos[i]);
+          return escaparCsv(tabela.tipos[i] === 'texto' ? neutralizarFormula(texto) : texto, separador);
+        })
+        .join(separador)
+    );
+  });
+
+  return linhas.join('\r\n');
+};
+
+/**
+ * Nome do arquivo: base sem acentos/espaços + data de geração + extensão
+ */
+export const gerarNomeArquivo = (base: string, formato: FormatoExportacao, geradoEm: Date = new Date()): string => {
+  const slug = generateSlug(base);
+  const data = `${geradoEm.getFullYear()}-${String(geradoEm.getMonth() + 1).padStart(2, '0')}-${String(geradoEm.getDate()).padStart(2, '0')}`;
+  return `${slug || 'relatorio'}_${data}.${formato}`;
+};
+
+export default {
+  montarTabela,
+  formatarCelula,
+  montarCabecalho,
+  gerarCsv,
+  gerarNomeArquivo
+};
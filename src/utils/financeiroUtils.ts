@@ -0,0 +1,140 @@
+// Utilitários para o livro-caixa financeiro
+// Criado em: 2025-07-11
+// Descrição: Filtros e totalizadores dos lançamentos da tabela financeiro
+
+import type {
+  ConfiguracoesFinanceiras,
+  EtapaLembrete,
+  FinanceiroItem,
+  FiltrosFinanceiro,
+  ResumoFinanceiro
+} from '@/types/financeiro';
+
+/**
+ * Converter data para o mês de referência (yyyy-MM)
+ */
+export const getMesReferencia = (date: Date = new Date()): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${year}-${month}`;
+};
+
+/**
+ * Converter data para o formato de coluna DATE (yyyy-MM-dd) no fuso local
+ */
+export const toISODate = (date: Date = new Date()): string => {
+  return `${getMesReferencia(date)}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Verificar se um lançamento em aberto já passou do vencimento
+ */
+export const isLancamentoVencido = (item: FinanceiroItem, hoje: string = toISODate()): boolean => {
+  if (item.status === 'pago' || item.status === 'cancelado') return false;
+  return item.data_vencimento < hoje;
+};
+
+/**
+ * Valor devido atualizado: valor original acrescido de multa e juros por atraso
+ */
+export const getValorDevido = (item: FinanceiroItem): number => {
+  return (Number(item.valor) || 0) + (Number(item.valor_multa) || 0) + (Number(item.valor_juros) || 0);
+};
+
+/**
+ * Filtrar lançamentos pelo mês de vencimento e demais filtros da tela
+ */
+export const filtrarLancamentos = (
+  items: FinanceiroItem[],
+  filtros: FiltrosFinanceiro
+): FinanceiroItem[] => {
+  const busca = filtros.busca.trim().toLowerCase();
+
+  return items.filter(item => {
+    if (filtros.mes && !item.data_vencimento.startsWith(filtros.mes)) return false;
+    if (filtros.tipo !== 'todos' && item.tipo !== filtros.tipo) return false;
+    if (filtros.status !== 'todos' && (item.status ?? 'pendente') !== filtros.status) return false;
+    if (filtros.categoria !== 'todas' && item.categoria !== filtros.categoria) return false;
+
+    if (busca) {
+      const alvo = [item.descricao, item.aluno?.nome, item.professor?.nome, item.observacoes]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      if (!alvo.includes(busca)) return false;
+    }
+
+    return true;
+  });
+};
+
+/**
+ * Calcular os totais exibidos nos cards de resumo.
+ * Lançamentos cancelados não entram em nenhum total.
+ */
+export const calcularResumoFinanceiro = (
+  items: FinanceiroItem[],
+  hoje: string = toISODate()
+): ResumoFinanceiro => {
+  const resumo: ResumoFinanceiro = {
+    receitasPrevistas: 0,
+    receitasRecebidas: 0,
+    despesasPrevistas: 0,
+    despesasPagas: 0,
+    saldo: 0,
+    inadimplencia: 0,
+    lancamentosAtrasados: 0,
+  };
+
+  for (const item of items) {
+    if (item.status === 'cancelado') continue;
+
+    const valor = Number(item.valor) || 0;
+    const pago = item.status === 'pago';
+
+    if (item.tipo === 'receita') {
+      resumo.receitasPrevistas += valor;
+      if (pago) resumo.receitasRecebidas += valor;
+      if (isLancamentoVencido(item, hoje)) {
+        resumo.inadimplencia += getValorDevido(item);
+        resumo.lancamentosAtrasados += 1;
+      }
+    } else {
+      resumo.despesasPrevistas += valor;
+      if (pago) resumo.despesasPagas += valor;
+    }
+  }
+
+  resumo.saldo = resumo.receitasRecebidas - resumo.despesasPagas;
+
+  return resumo;
+};
+
+/**
+ * Datas dos lembretes de pagamento de um lançamento, na ordem de envio
+ * (mesmas regras de enviar_lembretes_pagamento)
+ */
+export const calcularAgendaLembretes = (
+  item: Pick<FinanceiroItem, 'data_vencimento'>,
+  regras: Pick<ConfiguracoesFinanceiras, 'lembrete_dias_antes' | 'lembrete_no_vencimento' | 'lembrete_dias_depois'>
+): { etapa: EtapaLembrete; data: string }[] => {
+  const [ano, mes, dia] = item.data_vencimento.slice(0, 10).split('-').map(Number);
+  const deslocar = (dias: number) => toISODate(new Date(ano, mes - 1, dia + dias));
+  const agenda: { etapa: EtapaLembrete; data: string }[] = [];
+
+  if (regras.lembrete_dias_antes > 0) agenda.push({ etapa: 'antes', data: deslocar(-regras.lembrete_dias_antes) });
+  if (regras.lembrete_no_vencimento) agenda.push({ etapa: 'vencimento', data: deslocar(0) });
+  if (regras.lembrete_dias_depois > 0) agenda.push({ etapa: 'atraso', data: deslocar(regras.lembrete_dias_depois) });
+
+  return agenda;
+};
+
+export default {
+  getMesReferencia,
+  toISODate,
+  isLancamentoVencido,
+  getValorDevido,
+  filtrarLancamentos,
+  calcularResumoFinanceiro,
+  calcularAgendaLembretes
+};
@@ -0,0 +1,71 @@
+// Utilitários para a folha de pagamento de professores
+// Criado em: 2025-07-16
+// Descrição: Duração das aulas, totais com ajuste e vencimento padrão da folha
+
+import type { AjusteFolha, CalculoFolhaProfessor } from '@/types/financeiro';
+
+// Dia do mês seguinte sugerido para pagar a folha
+export const DIA_PAGAMENTO_FOLHA = 5;
+
+const arredondar = (valor: number): number => Math.round(valor * 100) / 100;
+
+const paraMinutos = (horario: string): number => {
+  const [horas, minutos] = horario.split(':').map(Number);
+  return horas * 60 + (minutos || 0);
+};
+
+/**
+ * Calcular a duração de uma aula em horas a partir de horario_inicio/horario_fim (HH:mm[:ss])
+ */
+export const calcularHorasAula = (inicio: string, fim: string): number => {
+  const minutos = paraMinutos(fim) - paraMinutos(inicio);
+  return minutos > 0 ? arredondar(minutos / 60) : 0;
+};
+
+/**
+ * Formatar horas decimais como "1h30"
+ */
+export const formatarHoras = (horas: number): string => {
+  const totalMinutos = Math.round(horas * 60);
+  const minutos = totalMinutos % 60;
+  return `${Math.floor(totalMinutos / 60)}h${minutos ? String(minutos).padStart(2, '0') : ''}`;
+};
+
+/**
+ * Calcular o valor a pagar ao professor (nunca negativo, como na aprovação)
+ */
+export const calcularTotalProfessor = (valorAulas: number, ajuste: number = 0): number => {
+  return Math.max(arredondar(valorAulas + ajuste), 0);
+};
+
+/**
+ * Somar a folha aplicando os ajustes manuais de cada professor
+ */
+export const calcularTotalFolha = (
+  calculos: CalculoFolhaProfessor[],
+  ajustes: Record<string, AjusteFolha> = {}
+): number => {
+  return arredondar(
+    calculos.reduce(
+      (total, calculo) => total + calcularTotalProfessor(calculo.valor_aulas, ajustes[calculo.professor_id]?.valor ?? 0),
+      0
+    )
+  );
+};
+
+/**
+ * Vencimento padrão da folha de uma competência (yyyy-MM): dia 5 do mês seguinte
+ */
+export const getVencimentoFolha = (competencia: string): string => {
+  const [ano, mes] = competencia.split('-').map(Number);
+  const proximo = new Date(ano, mes, DIA_PAGAMENTO_FOLHA);
+  return `${proximo.getFullYear()}-${String(proximo.getMonth() + 1).padStart(2, '0')}-${String(DIA_PAGAMENTO_FOLHA).padStart(2, '0')}`;
+};
+
+export default {
+  calcularHorasAula,
+  formatarHoras,
+  calcularTotalProfessor,
+  calcularTotalFolha,
+  getVencimentoFolha
+};
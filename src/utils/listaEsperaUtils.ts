@@ -0,0 +1,92 @@
+// Utilitários para a lista de espera das turmas
+// Criado em: 2025-07-21
+// Descrição: Posição na fila, vagas livres e prazo das ofertas de vaga,
+//            espelhando as regras de processar_lista_espera no banco
+
+import type { EntradaListaEspera } from '@/types/listaEspera';
+
+/**
+ * Oferta ainda no prazo (reserva a vaga para o interessado)
+ * @param entrada - Registro da lista de espera
+ * @param agora - Momento de referência
+ * @returns true se a oferta está pendente e não venceu
+ */
+export const ofertaVigente = (entrada: EntradaListaEspera, agora: Date = new Date()): boolean => {
+  return entrada.status === 'ofertada' && !!entrada.oferta_expira_em && new Date(entrada.oferta_expira_em) > agora;
+};
+
+/**
+ * Posição de cada interessado aguardando, por ordem de chegada
+ * @param entradas - Registros da lista de espera da turma
+ * @returns Mapa id → posição (a partir de 1)
+ */
+export const calcularPosicoes = (entradas: EntradaListaEspera[]): Map<string, number> => {
+  const fila = entradas
+    .filter((entrada) => entrada.status === 'aguardando')
+    .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? '') || a.id.localeCompare(b.id));
+
+  return new Map(fila.map((entrada, index) => [entrada.id, index + 1]));
+};
+
+/**
+ * Vagas livres da turma: total menos matrículas ativas e ofertas no prazo
+ * @param vagasTotal - turmas.vagas_total
+ * @param matriculasAtivas - Quantidade de matrículas ativas
+ * @param entradas - Registros da lista de espera da turma
+ * @param agora - Momento de referência
+ * @returns Vagas livres (nunca negativo)
+ */
+export const calcularVagasLivres = (
+  vagasTotal: number,
+  matriculasAtivas: number,
+  entradas: EntradaListaEspera[] = [],
+  agora: Date = new Date()
+): number => {
+  const reservadas = entradas.filter((entrada) => ofertaVigente(entrada, agora)).length;
+  return Math.max(vagasTotal - matriculasAtivas - reservadas, 0);
+};
+
+/**
+ * Tempo restante de uma oferta em texto curto
+ * @param expiraEm - oferta_expira_em
+ * @param agora - Momento de referência
+ * @returns Ex.: "1d 4h", "3h 20min", "expirada"
+ */
+export const formatarPrazoOferta = (expiraEm: string, agora: Date = new Date()): string => {
+  const minutos = Math.floor((new Date(expiraEm).getTime() - agora.getTime()) / 60000);
+  if (minutos <= 0) return 'expirada';
+
+  const dias = Math.floor(minutos / 1440);
+  const horas = Math.floor((minutos % 1440) / 60);
+  if (dias > 0) return `${dias}d ${horas}h`;
+  if (horas > 0) return `${horas}h ${minutos % 60}min`;
+  return `${minutos}min`;
+};
+
+/**
+ * Mensagem de oferta de vaga para envio ao interessado
+ * @param entrada - Registro com a oferta
+ * @param turmaNome - Nome da turma
+ * @param escolaNome - Nome da escola
+ * @returns Texto da mensagem
+ */
+export const montarMensagemOferta = (entrada: EntradaListaEspera, turmaNome: string, escolaNome?: string): string => {
+  const prazo = entrada.oferta_expira_em
+    ? new Date(entrada.oferta_expira_em).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })
+    : '';
+  const primeiroNome = entrada.nome.split(' ')[0];
+
+  return (
+    `Olá, ${primeiroNome}! Abriu uma vaga na turma ${turmaNome}` +
+    (escolaNome ? ` da ${escolaNome}` : '') +
+    `. A vaga fica reservada para você${prazo ? ` até ${prazo}` : ''}. Responda esta mensagem para confirmar a matrícula.`
+  );
+};
+
+export default {
+  ofertaVigente,
+  calcularPosicoes,
+  calcularVagasLivres,
+  formatarPrazoOferta,
+  montarMensagemOferta
+};
@@ -0,0 +1,35 @@
+// Utilitários da central de notificações
+// Criado em: 2025-07-30
+// Descrição: Regras de entrega das notificações conforme as preferências
+//            do usuário (horário de silêncio)
+
+/**
+ * Converter "HH:mm" em minutos desde a meia-noite
+ * @param horario - Horário no formato HH:mm
+ * @returns Minutos desde 00:00
+ */
+const paraMinutos = (horario: string): number => {
+  const [horas, minutos] = horario.split(':').map(Number);
+  return horas * 60 + (minutos || 0);
+};
+
+/**
+ * Verificar se o momento cai no horário de silêncio, inclusive quando o
+ * intervalo atravessa a meia-noite (ex.: 22:00 às 08:00)
+ * @param agora - Momento da entrega
+ * @param inicio - Início do silêncio (HH:mm)
+ * @param fim - Fim do silêncio (HH:mm, exclusivo)
+ * @returns true se a notificação não deve tocar nem aparecer na tela
+ */
+export const estaEmHorarioSilencioso = (agora: Date, inicio: string, fim: string): boolean => {
+  const atual = agora.getHours() * 60 + agora.getMinutes();
+  const de = paraMinutos(inicio);
+  const ate = paraMinutos(fim);
+
+  if (de === ate) return false;
+  return de < ate ? atual >= de && atual < ate : atual >= de || atual < ate;
+};
+
+export default {
+  estaEmHorarioSilencioso
+};
@@ -0,0 +1,111 @@
+// Utilitários para gravações offline
+// Criado em: 2025-07-29
+// Descrição: Detecção de falha de rede, formato das presenças na fila
+//            offline e mesclagem de alterações feitas sem conexão com as
+//            que chegaram ao servidor nesse meio tempo
+
+export interface PresencaOffline {
+  aluno_id: string;
+  status: string;
+  observacoes: string | null;
+}
+
+// Campos que mudam a cada gravação e não indicam conflito
+const CAMPOS_IGNORADOS = ['updated_at', 'last_modified'];
+
+// Chaves dos dados guardados no aparelho para abrir a chamada sem conexão
+export const CHAVES_OFFLINE = {
+  alunosTurma: (turmaId: string) => `turma:${turmaId}:alunos`,
+  aulasTurma: (turmaId: string) => `turma:${turmaId}:aulas`,
+  chamadaAula: (aulaId: string) => `aula:${aulaId}:chamada`,
+  areaProfessor: (userId: string, schoolId: string) => `area_professor:${userId}:${schoolId}`
+};
+
+/**
+ * Verificar se um erro foi causado pela falta de conexão (e não pelo servidor)
+ * @param error - Erro lançado pelo fetch ou retornado pelo Supabase
+ * @returns true se a gravação pode ser guardada para depois
+ */
+export const isErroDeRede = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const mensagem = error instanceof Error ? error.message : (error as { message?: string } | null)?.message;
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(mensagem ?? '');
+};
+
+/**
+ * Presenças de uma chamada em campos planos ("<aluno_id>.status",
+ * "<aluno_id>.observacoes"), para comparar e mesclar campo a campo
+ * @param presencas - Presenças da chamada
+ * @returns Registro plano com status e observações de cada aluno
+ */
+export const achatarPresencas = (presencas: PresencaOffline[]): Record<string, string> => {
+  return presencas.reduce((acc, presenca) => {
+    acc[`${presenca.aluno_id}.status`] = presenca.status;
+    acc[`${presenca.aluno_id}.observacoes`] = presenca.observacoes?.trim() ?? '';
+    return acc;
+  }, {} as Record<string, string>);
+};
+
+/**
+ * Reverter achatarPresencas (campos sem aluno, como aula_id, são ignorados)
+ * @param campos - Registro plano de presenças
+ * @returns Presenças no formato de salvar_chamada
+ */
+export const desachatarPresencas = (campos: Record<string, unknown>): PresencaOffline[] => {
+  const porAluno = new Map<string, PresencaOffline>();
+  Object.entries(campos).forEach(([chave, valor]) => {
+    const [alunoId, campo] = chave.split('.');
+    if (!campo) return;
+    const presenca = porAluno.get(alunoId) ?? { aluno_id: alunoId, status: 'ausente', observacoes: null };
+    if (campo === 'status') presenca.status = String(valor);
+    if (campo === 'observacoes') presenca.observacoes = valor ? String(valor) : null;
+    porAluno.set(alunoId, presenca);
+  });
+  return Array.from(porAluno.values());
+};
+
+/**
+ * Campos da versão original que foram alterados na outra versão
+ * @param original - Dados como estavam quando a edição começou
+ * @param atual - Dados atuais (no servidor ou no aparelho)
+ * @returns Nomes dos campos alterados
+ */
+export const getCamposAlterados = (
+  original: Record<string, unknown>,
+  atual: Record<string, unknown>
+): string[] => {
+  return Object.keys(original).filter(
+    (campo) => !CAMPOS_IGNORADOS.includes(campo) && campo in atual && original[campo] !== atual[campo]
+  );
+};
+
+/**
+ * Mesclagem em três vias: vale a alteração feita no aparelho; campos que
+ * o aparelho não alterou recebem o valor atual do servidor
+ * @param original - Dados como estavam quando a edição começou
+ * @param local - Dados gravados no aparelho
+ * @param servidor - Dados atuais no servidor
+ * @returns Dados a gravar
+ */
+export const mesclarAlteracoes = (
+  original: Record<string, unknown>,
+  local: Record<string, unknown>,
+  servidor: Record<string, unknown>
+): Record<string, unknown> => {
+  const mesclado = { ...local };
+  getCamposAlterados(original, servidor).forEach((campo) => {
+    if (local[campo] === original[campo]) {
+      mesclado[campo] = servidor[campo];
+    }
+  });
+  return mesclado;
+};
+
+export default {
+  CHAVES_OFFLINE,
+  isErroDeRede,
+  achatarPresencas,
+  desachatarPresencas,
+  getCamposAlterados,
+  mesclarAlteracoes
+};
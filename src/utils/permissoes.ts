@@ -0,0 +1,164 @@
+// Utilitários de permissões por papel
+// Criado em: 2025-07-25
+// Descrição: Matriz única de capacidades por tipo de usuário, usada pelas
+//            rotas protegidas, pelos itens de navegação e pelos botões de
+//            ação. As políticas de RLS continuam sendo a garantia no banco;
+//            esta matriz apenas evita mostrar o que o usuário não pode usar.
+//            PERMISSOES espelha os papéis padrão da tabela papeis; escolas
+//            podem criar papéis próprios com qualquer lista de CAPACIDADES.
+
+export type TipoUsuario = 'admin' | 'diretor' | 'secretario' | 'professor' | 'aluno' | 'responsavel';
+
+export type Capacidade =
+  | 'dashboard.ver'
+  | 'area_professor.ver'
+  | 'portal_aluno.ver'
+  | 'portal_responsavel.ver'
+  | 'turmas.ver'
+  | 'turmas.gerenciar'
+  | 'cursos.gerenciar'
+  | 'alunos.ver'
+  | 'alunos.gerenciar'
+  | 'professores.ver'
+  | 'professores.gerenciar'
+  | 'materiais.gerenciar'
+  | 'financeiro.ver'
+  | 'financeiro.gerenciar'
+  | 'folha.gerenciar'
+  | 'folha.demonstrativo'
+  | 'relatorios.ver'
+  | 'comunicacao.usar'
+  | 'perfil.editar'
+  | 'escola.configurar'
+  | 'usuarios.convidar'
+  | 'papeis.gerenciar'
+  | 'calendario.ver'
+  | 'calendario.gerenciar';
+
+// Papel padrão (tipo_usuario) ou lista de capacidades de um papel da escola
+export type Permissoes = string | readonly string[] | null | undefined;
+
+export const CAPACIDADES: { value: Capacidade; label: string; grupo: string }[] = [
+  { value: 'dashboard.ver', label: 'Ver o resumo da escola', grupo: 'Páginas' },
+  { value: 'area_professor.ver', label: 'Usar a área do professor', grupo: 'Páginas' },
+  { value: 'portal_aluno.ver', label: 'Usar o portal do aluno', grupo: 'Páginas' },
+  { value: 'portal_responsavel.ver', label: 'Usar o portal da família', grupo: 'Páginas' },
+  { value: 'relatorios.ver', label: 'Ver relatórios', grupo: 'Páginas' },
+  { value: 'comunicacao.usar', label: 'Usar a comunicação', grupo: 'Páginas' },
+  { value: 'perfil.editar', label: 'Editar o próprio perfil', grupo: 'Páginas' },
+  { value: 'turmas.ver', label: 'Ver turmas', grupo: 'Acadêmico' },
+  { value: 'turmas.gerenciar', label: 'Criar e editar turmas e aulas', grupo: 'Acadêmico' },
+  { value: 'cursos.gerenciar', label: 'Gerenciar cursos', grupo: 'Acadêmico' },
+  { value: 'alunos.ver', label: 'Ver alunos', grupo: 'Acadêmico' },
+  { value: 'alunos.gerenciar', label: 'Cadastrar alunos e matrículas', grupo: 'Acadêmico' },
+  { value: 'professores.ver', label: 'Ver professores', grupo: 'Acadêmico' },
+  { value: 'professores.gerenciar', label: 'Cadastrar professores', grupo: 'Acadêmico' },
+  { value: 'materiais.gerenciar', label: 'Publicar materiais das próprias turmas', grupo: 'Acadêmico' },
+  { value: 'calendario.ver', label: 'Ver o calendário letivo', grupo: 'Acadêmico' },
+  { value: 'calendario.gerenciar', label: 'Cadastrar feriados, recessos e eventos', grupo: 'Acadêmico' },
+  { value: 'financeiro.ver', label: 'Ver o financeiro', grupo: 'Financeiro' },
+  { value: 'financeiro.gerenciar', label: 'Lançar e cobrar', grupo: 'Financeiro' },
+  { value: 'folha.gerenciar', label: 'Gerenciar a folha de pagamento', grupo: 'Financeiro' },
+  { value: 'folha.demonstrativo', label: 'Ver demonstrativos da folha', grupo: 'Financeiro' },
+  { value: 'escola.configurar', label: 'Configurar a escola', grupo: 'Administração' },
+  { value: 'usuarios.convidar', label: 'Convidar e gerenciar usuários', grupo: 'Administração' },
+  { value: 'papeis.gerenciar', label: 'Criar papéis e atribuí-los', grupo: 'Administração' }
+];
+
+const GESTAO: Capacidade[] = [
+  'dashboard.ver',
+  'turmas.ver',
+  'turmas.gerenciar',
+  'alunos.ver',
+  'alunos.gerenciar',
+  'professores.ver',
+  'professores.gerenciar',
+  'materiais.gerenciar',
+  'financeiro.ver',
+  'financeiro.gerenciar',
+  'folha.gerenciar',
+  'folha.demonstrativo',
+  'comunicacao.usar',
+  'perfil.editar',
+  'calendario.ver',
+  'calendario.gerenciar'
+];
+
+export const PERMISSOES: Record<TipoUsuario, Capacidade[]> = {
+  admin: [...GESTAO, 'cursos.gerenciar', 'relatorios.ver', 'escola.configurar', 'usuarios.convidar', 'papeis.gerenciar'],
+  diretor: [...GESTAO, 'cursos.gerenciar', 'relatorios.ver', 'escola.configurar', 'usuarios.convidar', 'papeis.gerenciar'],
+  secretario: GESTAO,
+  professor: ['area_professor.ver', 'materiais.gerenciar', 'folha.demonstrativo', 'comunicacao.usar', 'perfil.editar', 'calendario.ver'],
+  aluno: ['portal_aluno.ver', 'comunicacao.usar', 'perfil.editar'],
+  responsavel: ['portal_responsavel.ver', 'comunicacao.usar', 'perfil.editar']
+};
+
+// Capacidade exigida por rota protegida (null = qualquer usuário logado)
+export const ROTAS: Record<string, Capacidade | null> = {
+  '/dashboard': null, // redireciona para a página inicial de cada papel
+  '/alunos': 'alunos.ver',
+  '/professores': 'professores.ver',
+  '/turmas': 'turmas.ver',
+  '/calendario': 'calendario.ver',
+  '/cursos': 'cursos.gerenciar',
+  '/financeiro': 'financeiro.ver',
+  '/folha-pagamento': 'folha.gerenciar',
+  '/folha-pagamento/:folhaId/professor/:professorId': 'folha.demonstrativo',
+  '/portal-responsavel': 'portal_responsavel.ver',
+  '/minhas-turmas': 'area_professor.ver',
+  '/portal-aluno': 'portal_aluno.ver',
+  '/comunicacao': 'comunicacao.usar',
+  '/relatorios': 'relatorios.ver',
+  '/profile': 'perfil.editar',
+  '/school-settings': 'escola.configurar'
+};
+
+/**
+ * Verificar se um usuário possui uma capacidade
+ * @param permissoes - tipo_usuario (papel padrão) ou capacidades do papel da escola
+ * @param capacidade - Capacidade exigida
+ * @returns true se o papel inclui a capacidade
+ */
+export const temCapacidade = (permissoes: Permissoes, capacidade: Capacidade): boolean => {
+  if (Array.isArray(permissoes)) return permissoes.includes(capacidade);
+  if (typeof permissoes !== 'string' || !(permissoes in PERMISSOES)) return false;
+  return PERMISSOES[permissoes as TipoUsuario].includes(capacidade);
+};
+
+/**
+ * Verificar se um usuário pode abrir uma rota protegida
+ * @param permissoes - tipo_usuario (papel padrão) ou capacidades do papel da escola
+ * @param rota - Caminho declarado em App.tsx
+ * @returns true se a rota é livre para usuários logados ou o papel tem a capacidade
+ */
+export const podeAcessarRota = (permissoes: Permissoes, rota: string): boolean => {
+  if (!(rota in ROTAS)) return false;
+  const capacidade = ROTAS[rota];
+  return capacidade === null ? !!permissoes : temCapacidade(permissoes, capacidade);
+};
+
+/**
+ * Página inicial de cada papel (destino de /dashboard)
+ * @param permissoes - tipo_usuario (papel padrão) ou capacidades do papel da escola
+ * @returns Caminho da página inicial
+ */
+export const getPaginaInicial = (permissoes: Permissoes): string => {
+  if (temCapacidade(permissoes, 'dashboard.ver')) return '/dashboard';
+  if (temCapacidade(permissoes, 'area_professor.ver')) return '/minhas-turmas';
+  if (temCapacidade(permissoes, 'portal_aluno.ver')) return '/portal-aluno';
+  if (temCapacidade(permissoes, 'portal_responsavel.ver')) return '/portal-responsavel';
+  // Papéis da escola sem resumo: primeira página de gestão liberada
+  const rota = Object.keys(ROTAS).find(
+    (r) => r !== '/dashboard' && !r.includes(':') && ROTAS[r] !== 'perfil.editar' && podeAcessarRota(permissoes, r)
+  );
+  return rota ?? '/profile';
+};
+
+export default {
+  CAPACIDADES,
+  PERMISSOES,
+  ROTAS,
+  temCapacidade,
+  podeAcessarRota,
+  getPaginaInicial
+};
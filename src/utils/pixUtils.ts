@@ -0,0 +1,95 @@
+// Utilitários para cobranças PIX
+// Criado em: 2025-07-14
+// Descrição: Montagem do payload BR Code (EMV "copia e cola") de PIX estático
+
+import { removeAccents } from './formatUtils';
+
+export interface DadosCobrancaPix {
+  chave: string;
+  nomeRecebedor: string;
+  cidade: string;
+  txid: string;
+  valor?: number;
+  descricao?: string;
+}
+
+const GUI_PIX = 'br.gov.bcb.pix';
+
+// Tamanho máximo do valor de um campo EMV (o tamanho tem dois dígitos)
+const TAMANHO_MAXIMO_CAMPO = 99;
+
+/**
+ * Calcular o CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF) exigido pelo campo 63
+ */
+export const crc16 = (payload: string): string => {
+  let crc = 0xffff;
+
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+/**
+ * Montar um campo EMV no formato ID + tamanho (2 dígitos) + valor
+ */
+export const campoEMV = (id: string, valor: string): string => {
+  return `${id}${String(valor.length).padStart(2, '0')}${valor}`;
+};
+
+/**
+ * Normalizar texto livre para o BR Code: sem acentos, maiúsculo e limitado ao tamanho do campo
+ */
+const normalizarTexto = (texto: string, tamanho: number): string => {
+  return removeAccents(texto)
+    .replace(/[^A-Za-z0-9 ]/g, '')
+    .trim()
+    .toUpperCase()
+    .slice(0, tamanho);
+};
+
+/**
+ * Gerar o txid de um lançamento: até 25 caracteres alfanuméricos derivados do id
+ */
+export const gerarTxidPix = (lancamentoId: string): string => {
+  return lancamentoId.replace(/[^A-Za-z0-9]/g, '').slice(0, 25).toUpperCase();
+};
+
+/**
+ * Gerar o payload "copia e cola" de uma cobrança PIX estática.
+ * O banco monta o mesmo payload em payload_pix (lembretes de pagamento por email).
+ */
+export const gerarPayloadPix = ({ chave, nomeRecebedor, cidade, txid, valor, descricao }: DadosCobrancaPix): string => {
+  // A descrição divide o campo 26 com o GUI e a chave: é encurtada (ou
+  // omitida, com chaves longas) para o campo não passar de 99 caracteres
+  const contaSemDescricao = campoEMV('00', GUI_PIX) + campoEMV('01', chave.trim());
+  const espacoDescricao = Math.min(40, TAMANHO_MAXIMO_CAMPO - contaSemDescricao.length - 4);
+  const textoDescricao = descricao && espacoDescricao > 0 ? normalizarTexto(descricao, espacoDescricao) : '';
+  const contaRecebedor = contaSemDescricao + (textoDescricao ? campoEMV('02', textoDescricao) : '');
+
+  const payload =
+    campoEMV('00', '01') +
+    campoEMV('26', contaRecebedor) +
+    campoEMV('52', '0000') +
+    campoEMV('53', '986') +
+    (valor && valor > 0 ? campoEMV('54', valor.toFixed(2)) : '') +
+    campoEMV('58', 'BR') +
+    campoEMV('59', normalizarTexto(nomeRecebedor, 25)) +
+    campoEMV('60', normalizarTexto(cidade, 15)) +
+    campoEMV('62', campoEMV('05', txid || '***')) +
+    '6304';
+
+  return payload + crc16(payload);
+};
+
+export default {
+  crc16,
+  campoEMV,
+  gerarTxidPix,
+  gerarPayloadPix
+};
@@ -0,0 +1,90 @@
+// Utilitários para o portal do responsável
+// Criado em: 2025-07-22
+// Descrição: Frequência por aluno, próximas aulas dos filhos e totais
+//            das cobranças em aberto exibidos no portal
+
+import type { AulaPortal, FilhoPortal, PresencaPortal } from '@/types/responsavel';
+import type { FinanceiroItem } from '@/types/financeiro';
+import { getValorDevido } from './financeiroUtils';
+import { filtrarDiasLetivos } from './calendarioUtils';
+
+export interface ResumoFrequencia {
+  total: number;
+  presentes: number;
+  ausentes: number;
+  justificados: number;
+  percentual: number; // presenças sobre o total de chamadas, como nos relatórios
+}
+
+export interface AulaDoFilho extends AulaPortal {
+  aluno_id: string;
+  aluno_nome: string;
+  turma_nome: string;
+}
+
+/**
+ * Resumo de frequência de um aluno
+ * @param registros - Presenças já filtradas para o aluno
+ * @param diasSemAula - Datas sem aula do calendário, ignoradas na contagem
+ * @returns Contagens por situação e percentual de presença
+ */
+export const resumirFrequencia = (registros: PresencaPortal[], diasSemAula?: ReadonlySet<string>): ResumoFrequencia => {
+  const presencas = filtrarDiasLetivos(registros, diasSemAula);
+  const presentes = presencas.filter((p) => p.status === 'presente').length;
+  const ausentes = presencas.filter((p) => p.status === 'ausente').length;
+  const justificados = presencas.filter((p) => p.status === 'justificado').length;
+  const total = presencas.length;
+
+  return {
+    total,
+    presentes,
+    ausentes,
+    justificados,
+    percentual: total > 0 ? Math.round((presentes / total) * 100) : 0
+  };
+};
+
+/**
+ * Próximas aulas de cada filho, a partir da data de referência
+ * @param filhos - Filhos com as turmas em que estão matriculados
+ * @param aulas - Aulas das turmas dos filhos
+ * @param hoje - Data de referência (yyyy-MM-dd)
+ * @param limite - Quantidade máxima de aulas retornadas
+ * @returns Aulas ordenadas por data e horário, uma linha por filho
+ */
+export const listarProximasAulas = (
+  filhos: FilhoPortal[],
+  aulas: AulaPortal[],
+  hoje: string,
+  limite = 10
+): AulaDoFilho[] => {
+  return filhos
+    .flatMap((filho) =>
+      filho.turmas.flatMap((turma) =>
+        aulas
+          .filter((aula) => aula.turma_id === turma.id && aula.data_aula >= hoje && aula.status !== 'cancelada')
+          .map((aula) => ({ ...aula, aluno_id: filho.id, aluno_nome: filho.nome, turma_nome: turma.nome }))
+      )
+    )
+    .sort((a, b) => a.data_aula.localeCompare(b.data_aula) || a.horario_inicio.localeCompare(b.horario_inicio))
+    .slice(0, limite);
+};
+
+/**
+ * Total em aberto (com multa e juros) e quantidade de cobranças vencidas
+ * @param cobrancas - Cobranças pendentes ou atrasadas
+ * @param hoje - Data de referência (yyyy-MM-dd)
+ * @returns Valor total devido e número de cobranças vencidas
+ */
+export const resumirCobrancas = (cobrancas: FinanceiroItem[], hoje: string) => {
+  return {
+    total: cobrancas.reduce((acc, cobranca) => acc + getValorDevido(cobranca), 0),
+    vencidas: cobrancas.filter((cobranca) => cobranca.status === 'atrasado' || cobranca.data_vencimento < hoje).length
+  };
+};
+
+export default {
+  resumirFrequencia,
+  listarProximasAulas,
+  resumirCobrancas
+};
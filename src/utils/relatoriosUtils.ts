@@ -0,0 +1,237 @@
+// Utilitários para a página de relatórios
+// Criado em: 2025-07-17
+// Descrição: Intervalos de período, indicadores e séries dos gráficos
+//            calculados a partir de alunos, turmas, presenças e financeiro
+
+import { getMesReferencia, toISODate } from './financeiroUtils';
+
+export type PeriodoRelatorio = '1m' | '3m' | '6m' | '1y';
+
+export const MESES_POR_PERIODO: Record<PeriodoRelatorio, number> = {
+  '1m': 1,
+  '3m': 3,
+  '6m': 6,
+  '1y': 12
+};
+
+const NOMES_MESES = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
+
+export interface IntervaloRelatorio {
+  inicio: string;
+  fim: string;
+  inicioAnterior: string;
+  fimAnterior: string;
+  meses: string[]; // yyyy-MM de cada mês do período atual
+}
+
+export interface AlunoRelatorio {
+  id: string;
+  turma_id: string | null;
+  instrumento: string | null;
+  ativo: boolean | null;
+  data_matricula: string | null;
+  data_saida: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface TurmaRelatorio {
+  id: string;
+  nome: string;
+  instrumento: string;
+}
+
+export interface PresencaRelatorio {
+  status: string;
+  data_aula: string;
+  turma_id: string;
+}
+
+export interface LancamentoRelatorio {
+  tipo: string;
+  valor: number;
+  status: string | null;
+  data_pagamento: string | null;
+}
+
+export interface DadosRelatorio {
+  alunos: AlunoRelatorio[];
+  turmas: TurmaRelatorio[];
+  presencas: PresencaRelatorio[];
+  lancamentos: LancamentoRelatorio[];
+}
+
+export interface Indicador {
+  valor: number;
+  anterior: number;
+  variacao: number | null;
+}
+
+export interface Relatorio {
+  totalAlunos: Indicador;
+  retencao: Indicador;
+  presenca: Indicador;
+  novasMatriculas: Indicador;
+  presencaPorMes: { name: string; presenca: number | null }[];
+  instrumentos: { name: string; value: number }[];
+  financeiroPorMes: { name: string; receitas: number; despesas: number; saldo: number }[];
+  presencaPorTurma: { name: string; presenca: number; registros: number }[];
+}
+
+const adicionarMeses = (date: Date, meses: number): Date => new Date(date.getFullYear(), date.getMonth() + meses, 1);
+
+// Mesmo dia do mês, `meses` meses antes (no último dia do mês, quando ele é mais curto)
+const mesmoDiaMesesAntes = (date: Date, meses: number): Date => {
+  const ultimoDia = new Date(date.getFullYear(), date.getMonth() - meses + 1, 0).getDate();
+  return new Date(date.getFullYear(), date.getMonth() - meses, Math.min(date.getDate(), ultimoDia));
+};
+
+const percentual = (parte: number, total: number): number => (total > 0 ? Math.round((parte / total) * 1000) / 10 : 0);
+
+/**
+ * Calcular o período selecionado (meses inteiros até hoje) e o trecho equivalente do período
+ * anterior: do início dele até o mesmo dia do mês, para comparar intervalos de mesma duração
+ */
+export const getIntervaloPeriodo = (periodo: PeriodoRelatorio, hoje: Date = new Date()): IntervaloRelatorio => {
+  const quantidade = MESES_POR_PERIODO[periodo];
+  const inicio = adicionarMeses(hoje, -(quantidade - 1));
+  const inicioAnterior = adicionarMeses(inicio, -quantidade);
+  const fimAnterior = mesmoDiaMesesAntes(hoje, quantidade);
+
+  return {
+    inicio: toISODate(inicio),
+    fim: toISODate(hoje),
+    inicioAnterior: toISODate(inicioAnterior),
+    fimAnterior: toISODate(fimAnterior),
+    meses: Array.from({ length: quantidade }, (_, i) => getMesReferencia(adicionarMeses(inicio, i)))
+  };
+};
+
+/**
+ * Variação percentual entre dois valores (null quando não há base de comparação)
+ */
+export const calcularVariacao = (atual: number, anterior: number): number | null => {
+  if (!anterior) return null;
+  return Math.round(((atual - anterior) / anterior) * 1000) / 10;
+};
+
+// Sem base no período anterior (null) não há variação a exibir
+const indicador = (valor: number, anterior: number | null, emPontos = false): Indicador => ({
+  valor,
+  anterior: anterior ?? 0,
+  // Taxas comparam em pontos percentuais; contagens, em variação relativa
+  variacao:
+    anterior === null ? null : emPontos ? Math.round((valor - anterior) * 10) / 10 : calcularVariacao(valor, anterior)
+});
+
+const dataEntrada = (aluno: AlunoRelatorio): string | null =>
+  aluno.data_matricula ?? aluno.created_at?.slice(0, 10) ?? null;
+
+// Aluno inativo sem data_saida é considerado fora desde a última atualização do cadastro
+const dataSaida = (aluno: AlunoRelatorio): string | null =>
+  aluno.data_saida ?? (aluno.ativo === false ? aluno.updated_at?.slice(0, 10) ?? null : null);
+
+/**
+ * Verificar se o aluno estava matriculado numa data (yyyy-MM-dd)
+ */
+export const isAlunoAtivoEm = (aluno: AlunoRelatorio, data: string): boolean => {
+  const entrada = dataEntrada(aluno);
+  const saida = dataSaida(aluno);
+  if (entrada && entrada > data) return false;
+  return !saida || saida > data;
+};
+
+const contarAtivos = (alunos: AlunoRelatorio[], data: string) => alunos.filter((aluno) => isAlunoAtivoEm(aluno, data)).length;
+
+// Percentual dos alunos ativos no início do intervalo que continuam ativos no fim
+const taxaRetencao = (alunos: AlunoRelatorio[], inicio: string, fim: string): number | null => {
+  const base = alunos.filter((aluno) => isAlunoAtivoEm(aluno, inicio));
+  if (base.length === 0) return null;
+  return percentual(base.filter((aluno) => isAlunoAtivoEm(aluno, fim)).length, base.length);
+};
+
+const novasMatriculas = (alunos: AlunoRelatorio[], inicio: string, fim: string): number =>
+  alunos.filter((aluno) => {
+    const entrada = dataEntrada(aluno);
+    return !!entrada && entrada >= inicio && entrada <= fim;
+  }).length;
+
+// Faltas justificadas contam como ausência na taxa de presença
+const taxaPresenca = (presencas: PresencaRelatorio[]): number =>
+  percentual(presencas.filter((presenca) => presenca.status === 'presente').length, presencas.length);
+
+const entre = (data: string | null, inicio: string, fim: string): boolean => !!data && data >= inicio && data <= fim;
+
+/**
+ * Montar indicadores e séries dos gráficos para o intervalo informado
+ */
+export const montarRelatorio = (dados: DadosRelatorio, intervalo: IntervaloRelatorio): Relatorio => {
+  const { alunos, turmas, presencas, lancamentos } = dados;
+  const { inicio, fim, inicioAnterior, fimAnterior, meses } = intervalo;
+
+  const presencasPeriodo = presencas.filter((presenca) => entre(presenca.data_aula, inicio, fim));
+  const presencasAnteriores = presencas.filter((presenca) => entre(presenca.data_aula, inicioAnterior, fimAnterior));
+
+  const rotuloMes = (mes: string) => {
+    const [ano, numero] = mes.split('-');
+    return meses.length > 6 ? `${NOMES_MESES[Number(numero) - 1]}/${ano.slice(2)}` : NOMES_MESES[Number(numero) - 1];
+  };
+
+  const presencaPorMes = meses.map((mes) => {
+    const doMes = presencasPeriodo.filter((presenca) => presenca.data_aula.startsWith(mes));
+    return { name: rotuloMes(mes), presenca: doMes.length > 0 ? taxaPresenca(doMes) : null };
+  });
+
+  const turmasPorId = new Map(turmas.map((turma) => [turma.id, turma]));
+
+  const contagemInstrumentos = new Map<string, number>();
+  alunos
+    .filter((aluno) => isAlunoAtivoEm(aluno, fim))
+    .forEach((aluno) => {
+      const instrumento = aluno.instrumento || turmasPorId.get(aluno.turma_id ?? '')?.instrumento || 'Não informado';
+      contagemInstrumentos.set(instrumento, (contagemInstrumentos.get(instrumento) ?? 0) + 1);
+    });
+  const instrumentos = [...contagemInstrumentos.entries()]
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value);
+
+  const pagos = lancamentos.filter((lancamento) => lancamento.status === 'pago' && entre(lancamento.data_pagamento, inicio, fim));
+  const financeiroPorMes = meses.map((mes) => {
+    const doMes = pagos.filter((lancamento) => lancamento.data_pagamento!.startsWith(mes));
+    const somar = (tipo: string) =>
+      Math.round(doMes.filter((l) => l.tipo === tipo).reduce((total, l) => total + Number(l.valor), 0) * 100) / 100;
+    const receitas = somar('receita');
+    const despesas = somar('despesa');
+    return { name: rotuloMes(mes), receitas, despesas, saldo: Math.round((receitas - despesas) * 100) / 100 };
+  });
+
+  const presencaPorTurma = turmas
+    .map((turma) => {
+      const daTurma = presencasPeriodo.filter((presenca) => presenca.turma_id === turma.id);
+      return { name: turma.nome, presenca: taxaPresenca(daTurma), registros: daTurma.length };
+    })
+    .filter((turma) => turma.registros > 0)
+    .sort((a, b) => b.presenca - a.presenca);
+
+  return {
+    totalAlunos: indicador(contarAtivos(alunos, fim), contarAtivos(alunos, fimAnterior)),
+    retencao: indicador(taxaRetencao(alunos, inicio, fim) ?? 0, taxaRetencao(alunos, inicioAnterior, fimAnterior), true),
+    presenca: indicador(
+      taxaPresenca(presencasPeriodo),
+      presencasAnteriores.length > 0 ? taxaPresenca(presencasAnteriores) : null,
+      true
+    ),
+    novasMatriculas: indicador(novasMatriculas(alunos, inicio, fim), novasMatriculas(alunos, inicioAnterior, fimAnterior)),
+    presencaPorMes,
+    instrumentos,
+    financeiroPorMes,
+    presencaPorTurma
+  };
+};
+
+export default {
+  getIntervaloPeriodo,
+  calcularVariacao,
+  isAlunoAtivoEm,
+  montarRelatorio
+};
@@ -172,6 +172,15 @@ export const registerSchema = z.object({
   path: ['confirmPassword'],
 });
 
+// Schema para definir a senha ao aceitar um convite
+export const definirSenhaSchema = z.object({
+  password: commonSchemas.password,
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'As senhas não coincidem',
+  path: ['confirmPassword'],
+});
+
 // Schema para aluno
 export const alunoSchema = z.object({
   nome: commonSchemas.name,
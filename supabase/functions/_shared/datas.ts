@@ -0,0 +1,15 @@
+// Datas das execuções agendadas. As escolas estão no horário de Brasília:
+// o "hoje" das regras (vencimentos, lembretes) não pode virar às 21h pelo UTC.
+
+export const FUSO_ESCOLAS = 'America/Sao_Paulo'
+
+// Data (AAAA-MM-DD) de um instante no fuso das escolas
+export const dataEmSaoPaulo = (instante: Date = new Date()): string => {
+  // en-CA formata como AAAA-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: FUSO_ESCOLAS,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(instante)
+}
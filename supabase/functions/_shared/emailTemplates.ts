@@ -0,0 +1,123 @@
+// Layout dos emails enviados pela caixa de saída (edge function enviar-emails).
+// Tabelas com estilos inline (Gmail e Outlook ignoram <style>) e versão em
+// texto puro para clientes sem HTML.
+
+export type PrioridadeEmail = 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT'
+
+export interface ConteudoEmail {
+  titulo: string
+  mensagem: string
+  prioridade?: PrioridadeEmail
+  acao?: { label: string; url: string }
+  escola?: string | null
+}
+
+const COR_PRIORIDADE: Record<PrioridadeEmail, string> = {
+  LOW: '#6c757d',
+  NORMAL: '#2563eb',
+  HIGH: '#ea580c',
+  URGENT: '#dc2626',
+}
+
+const FONTE = "font-family: 'Segoe UI', Helvetica, Arial, sans-serif;"
+
+// Escapa texto livre (títulos, mensagens, nomes) para inserção em HTML
+export const escaparHtml = (texto: string): string => {
+  return texto
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Converte um link do aplicativo (ex.: /portal-responsavel) em endereço
+// absoluto. Só caminhos do próprio aplicativo: links para outro domínio
+// (inclusive //outro.app) ou que não são http(s) viram null
+export const urlAbsoluta = (link: string, baseUrl: string): string | null => {
+  try {
+    const base = new URL(baseUrl)
+    const url = new URL(link, base)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+    return url.origin === base.origin ? url.toString() : null
+  } catch {
+    return null
+  }
+}
+
+const paragrafos = (mensagem: string): string =>
+  mensagem
+    .split(/\n{2,}/)
+    .map((paragrafo) => paragrafo.trim())
+    .filter(Boolean)
+    .map(
+      (paragrafo) =>
+        `<p style="margin: 0 0 16px; ${FONTE} font-size: 15px; line-height: 24px; color: #1f2937;">${escaparHtml(paragrafo).replace(/\n/g, '<br>')}</p>`
+    )
+    .join('')
+
+const botao = (acao: { label: string; url: string }, cor: string): string => `
+<table role="presentation" cellspacing="0" cellpadding="0" border="0" style="margin: 8px 0 0;">
+  <tr>
+    <td style="border-radius: 6px; background: ${cor};">
+      <a href="${escaparHtml(acao.url)}" target="_blank" style="display: inline-block; padding: 12px 24px; ${FONTE} font-size: 15px; font-weight: 600; color: #ffffff; text-decoration: none; border-radius: 6px;">${escaparHtml(acao.label)}</a>
+    </td>
+  </tr>
+</table>`
+
+// Monta o email completo (HTML e texto) a partir do conteúdo
+export const renderizarEmail = (conteudo: ConteudoEmail): { html: string; texto: string } => {
+  const cor = COR_PRIORIDADE[conteudo.prioridade ?? 'NORMAL'] ?? COR_PRIORIDADE.NORMAL
+  const remetente = conteudo.escola ? escaparHtml(conteudo.escola) : 'SmartClass'
+  const resumo = escaparHtml(conteudo.mensagem.replace(/\s+/g, ' ').slice(0, 120))
+
+  const html = `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escaparHtml(conteudo.titulo)}</title>
+</head>
+<body style="margin: 0; padding: 0; background: #f3f4f6;">
+<div style="display: none; max-height: 0; overflow: hidden;">${resumo}</div>
+<table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0" style="background: #f3f4f6;">
+  <tr>
+    <td align="center" style="padding: 24px 12px;">
+      <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0" style="max-width: 600px; background: #ffffff; border-radius: 8px; border-top: 4px solid ${cor};">
+        <tr>
+          <td style="padding: 24px 32px 8px; ${FONTE} font-size: 13px; color: #6b7280;">${remetente}</td>
+        </tr>
+        <tr>
+          <td style="padding: 0 32px 8px;">
+            <h1 style="margin: 0 0 16px; ${FONTE} font-size: 20px; line-height: 28px; color: #111827;">${escaparHtml(conteudo.titulo)}</h1>
+            ${paragrafos(conteudo.mensagem)}
+            ${conteudo.acao ? botao(conteudo.acao, cor) : ''}
+          </td>
+        </tr>
+        <tr>
+          <td style="padding: 24px 32px; ${FONTE} font-size: 12px; line-height: 18px; color: #9ca3af;">
+            Mensagem automática enviada pelo SmartClass. Não responda este email.<br>
+            Para deixar de receber, ajuste as preferências de notificação no seu perfil.
+          </td>
+        </tr>
+      </table>
+    </td>
+  </tr>
+</table>
+</body>
+</html>`
+
+  const texto = [
+    conteudo.escola ?? 'SmartClass',
+    '',
+    conteudo.titulo,
+    '',
+    conteudo.mensagem,
+    ...(conteudo.acao ? ['', `${conteudo.acao.label}: ${conteudo.acao.url}`] : []),
+    '',
+    '--',
+    'Mensagem automática enviada pelo SmartClass. Não responda este email.',
+  ].join('\n')
+
+  return { html, texto }
+}
@@ -0,0 +1,109 @@
+// Novas tentativas com backoff exponencial. Usado pelo app (errorHandler) e
+// pelas Edge Functions, por isso não depende do logger do navegador.
+
+export interface RetryConfig {
+  maxAttempts: number
+  baseDelay: number
+  maxDelay: number
+  backoffMultiplier: number
+  retryableErrors: string[]
+  // Quando informado, substitui a comparação com retryableErrors
+  isRetryable?: (error: unknown) => boolean
+}
+
+export interface RetryLogger {
+  info(message: string, context?: Record<string, unknown>): void
+  warn(message: string, context?: Record<string, unknown>): void
+  error(message: string, context?: Record<string, unknown>, error?: Error): void
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  maxDelay: 10000,
+  backoffMultiplier: 2,
+  retryableErrors: [
+    'NetworkError',
+    'TimeoutError',
+    'DatabaseError',
+    'PGRST301', // Supabase timeout
+    'PGRST116', // Supabase connection error
+  ]
+}
+
+/**
+ * Função de retry com backoff exponencial
+ */
+export async function retryWithBackoff<T>(
+  operation: () => Promise<T>,
+  operationName: string,
+  config: Partial<RetryConfig> = {},
+  context: Record<string, unknown> = {},
+  logger?: RetryLogger
+): Promise<T> {
+  const finalConfig = { ...DEFAULT_RETRY_CONFIG, ...config }
+  let lastError: unknown
+
+  for (let attempt = 1; attempt <= finalConfig.maxAttempts; attempt++) {
+    try {
+      logger?.info(`Tentativa ${attempt} de ${operationName}`, {
+        operation: operationName,
+        attempt,
+        maxAttempts: finalConfig.maxAttempts,
+        ...context
+      })
+
+      const result = await operation()
+
+      if (attempt > 1) {
+        logger?.info(`${operationName} bem-sucedido após ${attempt} tentativas`, {
+          operation: operationName,
+          attempt,
+          ...context
+        })
+      }
+
+      return result
+    } catch (caught) {
+      lastError = caught
+      const error = caught as Error & { code?: string }
+
+      const isRetryable = finalConfig.isRetryable
+        ? finalConfig.isRetryable(error)
+        : finalConfig.retryableErrors.some(errorType =>
+          error.name === errorType ||
+          error.code === errorType ||
+          error.message?.includes(errorType)
+        )
+
+      if (!isRetryable || attempt === finalConfig.maxAttempts) {
+        logger?.error(`${operationName} falhou definitivamente`, {
+          operation: operationName,
+          attempt,
+          maxAttempts: finalConfig.maxAttempts,
+          error: error.message,
+          isRetryable,
+          ...context
+        }, error)
+        break
+      }
+
+      const delay = Math.min(
+        finalConfig.baseDelay * Math.pow(finalConfig.backoffMultiplier, attempt - 1),
+        finalConfig.maxDelay
+      )
+
+      logger?.warn(`${operationName} falhou, tentando novamente em ${delay}ms`, {
+        operation: operationName,
+        attempt,
+        nextDelay: delay,
+        error: error.message,
+        ...context
+      })
+
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+
+  throw lastError
+}
@@ -0,0 +1,183 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-secret',
+}
+
+// Evento no formato do Event Webhook do SendGrid (também aceito de relays compatíveis)
+interface EventoEmail {
+  event: string
+  email: string
+  sg_message_id?: string
+  message_id?: string
+  reason?: string
+}
+
+const EVENTOS_DEVOLUCAO = ['bounce', 'dropped']
+
+// Devoluções (WebhookEvent.EMAIL_BOUNCED) informadas pelo provedor de email.
+// O email é marcado como 'devolvido' pelo id do provedor ou, sem ele, o último
+// enviado ao endereço; o gatilho da caixa de saída suprime os envios seguintes
+// e os pendentes para o endereço são suprimidos aqui.
+// A URL cadastrada no provedor leva ?integracao=<id da integração de email>
+// e ?token=<EMAIL_WEBHOOK_SECRET> (ou o cabeçalho x-webhook-secret).
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const url = new URL(req.url)
+    const webhookSecret = Deno.env.get('EMAIL_WEBHOOK_SECRET')
+    const token = req.headers.get('x-webhook-secret') ?? url.searchParams.get('token')
+    if (!webhookSecret || token !== webhookSecret) {
+      throw new Error('Não autorizado')
+    }
+
+    // Criar cliente Supabase com privilégios de admin
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const { data: integracao, error: integracaoError } = await supabaseAdmin
+      .from('integrations')
+      .select('id, school_id')
+      .eq('id', url.searchParams.get('integracao') ?? '')
+      .eq('type', 'EMAIL')
+      .maybeSingle()
+
+    if (integracaoError || !integracao) {
+      throw new Error('Integração de email não encontrada')
+    }
+
+    const body = req.headers.get('content-type')?.includes('application/json') ? await req.json() : []
+    const eventos: EventoEmail[] = Array.isArray(body) ? body : body.events ?? []
+
+    const resultado = { devolvidos: 0, ignorados: 0 }
+
+    try {
+      for (const evento of eventos) {
+        if (!EVENTOS_DEVOLUCAO.includes(evento.event) || !evento.email) {
+          resultado.ignorados++
+          continue
+        }
+
+        const campos = {
+          status: 'devolvido',
+          devolvido_em: new Date().toISOString(),
+          motivo_devolucao: (evento.reason ?? evento.event).slice(0, 500)
+        }
+
+        // Eventos do SendGrid trazem "<X-Message-Id>.filter..."
+        const messageId = (evento.sg_message_id ?? evento.message_id)?.split('.')[0]
+        let encontrado = false
+
+        if (messageId) {
+          const { data, error } = await supabaseAdmin
+            .from('email_outbox')
+            .update(campos)
+            .eq('school_id', integracao.school_id)
+            .eq('message_id', messageId)
+            .select('id')
+
+          if (error) {
+            throw error
+          }
+          encontrado = data.length > 0
+        }
+
+        if (!encontrado) {
+          const { data: ultimo, error } = await supabaseAdmin
+            .from('email_outbox')
+            .select('id')
+            .eq('school_id', integracao.school_id)
+            .ilike('destinatario', evento.email.trim().replace(/[%_\\]/g, '\\$&'))
+            .eq('status', 'enviado')
+            .order('enviado_em', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+
+          if (error) {
+            throw error
+          }
+
+          if (ultimo) {
+            const { error: updateError } = await supabaseAdmin.from('email_outbox').update(campos).eq('id', ultimo.id)
+            if (updateError) {
+              throw updateError
+            }
+            encontrado = true
+          }
+        }
+
+        if (!encontrado) {
+          console.warn(`Devolução sem email enviado correspondente: ${evento.email}`)
+          resultado.ignorados++
+          continue
+        }
+
+        // Emails já enfileirados para o endereço devolvido não são mais enviados
+        const { error: suprimirError } = await supabaseAdmin
+          .from('email_outbox')
+          .update({ status: 'suprimido', ultimo_erro: 'Endereço com devolução registrada' })
+          .eq('school_id', integracao.school_id)
+          .ilike('destinatario', evento.email.trim().replace(/[%_\\]/g, '\\$&'))
+          .eq('status', 'pendente')
+
+        if (suprimirError) {
+          throw suprimirError
+        }
+
+        resultado.devolvidos++
+      }
+
+      await supabaseAdmin.from('integration_webhook_logs').insert({
+        integration_id: integracao.id,
+        payload: body,
+        success: true
+      })
+    } catch (error) {
+      await supabaseAdmin.from('integration_webhook_logs').insert({
+        integration_id: integracao.id,
+        payload: body,
+        success: false,
+        error: error.message || String(error)
+      })
+      throw error
+    }
+
+    console.log(`Devoluções de email: ${JSON.stringify(resultado)}`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ...resultado
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+  } catch (error) {
+    console.error('Erro na função email-webhook:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Erro interno do servidor'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error.message === 'Não autorizado' ? 401 : 400,
+      },
+    )
+  }
+})
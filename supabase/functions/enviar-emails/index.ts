@@ -0,0 +1,234 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { renderizarEmail, urlAbsoluta, PrioridadeEmail } from '../_shared/emailTemplates.ts'
+import { retryWithBackoff } from '../_shared/retry.ts'
+import { carregarTransporte, ErroEnvioEmail, MensagemEmail, TransporteEmail } from './transportes.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+// Emails reservados por execução (o cron roda a cada minuto)
+const LIMITE_POR_EXECUCAO = 50
+// Novas tentativas na mesma execução para falhas passageiras
+const TENTATIVAS_IMEDIATAS = 3
+// Espera até a próxima reserva: 5, 10, 20, 40... minutos, no máximo 6 horas
+const ESPERA_BASE_MINUTOS = 5
+const ESPERA_MAXIMA_MINUTOS = 6 * 60
+
+interface EmailReservado {
+  id: string
+  school_id: string
+  destinatario: string
+  assunto: string
+  mensagem: string | null
+  link: string | null
+  prioridade: string
+  html: string | null
+  texto: string | null
+  tentativas: number
+  max_tentativas: number
+}
+
+const proximaTentativa = (tentativas: number) => {
+  const minutos = Math.min(ESPERA_BASE_MINUTOS * 2 ** Math.max(tentativas - 1, 0), ESPERA_MAXIMA_MINUTOS)
+  return new Date(Date.now() + minutos * 60 * 1000).toISOString()
+}
+
+// Só falhas passageiras do transporte (rede, 429, 5xx) são repetidas na hora:
+// 2s, depois 4s. As demais voltam para a fila com proximaTentativa
+const enviarComRetentativas = (transporte: TransporteEmail, mensagem: MensagemEmail): Promise<string> =>
+  retryWithBackoff(() => transporte.enviar(mensagem), 'envio de email', {
+    maxAttempts: TENTATIVAS_IMEDIATAS,
+    baseDelay: 2000,
+    isRetryable: (error) => error instanceof ErroEnvioEmail && error.temporario,
+  })
+
+// Conteúdo estruturado (notificações, lembretes) recebe o layout padrão,
+// com o nome da escola e o link do aplicativo em APP_URL
+const montarMensagem = (email: EmailReservado, escola: string | null): MensagemEmail => {
+  if (email.html) {
+    return { para: email.destinatario, assunto: email.assunto, html: email.html, texto: email.texto ?? '' }
+  }
+
+  const appUrl = Deno.env.get('APP_URL')
+  const url = email.link && appUrl ? urlAbsoluta(email.link, appUrl) : null
+  const { html, texto } = renderizarEmail({
+    titulo: email.assunto,
+    mensagem: email.mensagem ?? '',
+    prioridade: email.prioridade as PrioridadeEmail,
+    acao: url ? { label: 'Abrir no SmartClass', url } : undefined,
+    escola,
+  })
+
+  return { para: email.destinatario, assunto: email.assunto, html, texto }
+}
+
+// Esvazia a caixa de saída (email_outbox). Chamada pelo cron (x-cron-secret),
+// para todas as escolas, ou pelo botão Sincronizar da integração de email,
+// só para a escola ativa de quem gerencia as integrações.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Criar cliente Supabase com privilégios de admin
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    let schoolId: string | null = null
+
+    const cronSecret = Deno.env.get('CRON_SECRET')
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      const authHeader = req.headers.get('Authorization')
+      if (!authHeader) {
+        throw new Error('Não autorizado')
+      }
+
+      const supabase = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        {
+          auth: {
+            autoRefreshToken: false,
+            persistSession: false
+          },
+          global: {
+            headers: {
+              Authorization: authHeader,
+            },
+          },
+        }
+      )
+
+      const [{ data: escolaAtiva }, { data: podeGerenciar }] = await Promise.all([
+        supabase.rpc('get_my_school_id'),
+        supabase.rpc('tem_capacidade', { p_capacidade: 'financeiro.gerenciar' }),
+      ])
+
+      if (!escolaAtiva || !podeGerenciar) {
+        throw new Error('Não autorizado')
+      }
+
+      schoolId = escolaAtiva
+    }
+
+    const { data: reservados, error } = await supabaseAdmin.rpc('reservar_emails', {
+      p_limite: LIMITE_POR_EXECUCAO,
+      p_school_id: schoolId
+    })
+
+    if (error) {
+      throw error
+    }
+
+    const porEscola = new Map<string, EmailReservado[]>()
+    for (const email of (reservados ?? []) as EmailReservado[]) {
+      porEscola.set(email.school_id, [...(porEscola.get(email.school_id) ?? []), email])
+    }
+
+    const resultado = { enviados: 0, reenfileirados: 0, falhas: [] as { id: string; destinatario: string; erro: string }[] }
+
+    for (const [escolaId, emails] of porEscola) {
+      const [transporte, { data: escola }] = await Promise.all([
+        carregarTransporte(supabaseAdmin, escolaId),
+        supabaseAdmin.from('schools').select('name').eq('id', escolaId).maybeSingle(),
+      ])
+
+      // Sem transporte configurado os emails aguardam, sem gastar tentativas
+      if (!transporte) {
+        for (const email of emails) {
+          await supabaseAdmin
+            .from('email_outbox')
+            .update({
+              status: 'pendente',
+              tentativas: email.tentativas - 1,
+              proxima_tentativa: proximaTentativa(1),
+              ultimo_erro: 'Escola sem integração de email ativa'
+            })
+            .eq('id', email.id)
+        }
+        resultado.reenfileirados += emails.length
+        continue
+      }
+
+      try {
+        for (const email of emails) {
+          try {
+            const messageId = await enviarComRetentativas(transporte, montarMensagem(email, escola?.name ?? null))
+
+            await supabaseAdmin
+              .from('email_outbox')
+              .update({
+                status: 'enviado',
+                message_id: messageId,
+                transporte: transporte.tipo,
+                enviado_em: new Date().toISOString(),
+                ultimo_erro: null
+              })
+              .eq('id', email.id)
+
+            resultado.enviados++
+          } catch (erroEnvio) {
+            const mensagem = erroEnvio?.message || String(erroEnvio)
+            const temporario = erroEnvio instanceof ErroEnvioEmail && erroEnvio.temporario
+            const esgotado = !temporario || email.tentativas >= email.max_tentativas
+
+            await supabaseAdmin
+              .from('email_outbox')
+              .update({
+                status: esgotado ? 'falhou' : 'pendente',
+                proxima_tentativa: proximaTentativa(email.tentativas),
+                transporte: transporte.tipo,
+                ultimo_erro: mensagem.slice(0, 500)
+              })
+              .eq('id', email.id)
+
+            if (esgotado) {
+              resultado.falhas.push({ id: email.id, destinatario: email.destinatario, erro: mensagem })
+            } else {
+              resultado.reenfileirados++
+            }
+          }
+        }
+      } finally {
+        await transporte.fechar()
+      }
+    }
+
+    console.log(`Emails: ${resultado.enviados} enviados, ${resultado.reenfileirados} na fila, ${resultado.falhas.length} falhas`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ...resultado
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+  } catch (error) {
+    console.error('Erro na função enviar-emails:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Erro interno do servidor'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
@@ -0,0 +1,170 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Transportes da caixa de saída. As credenciais vêm da integração de email da
+// escola (lida com service_role) e nunca passam pelo navegador.
+
+const API_SENDGRID = 'https://api.sendgrid.com/v3/mail/send'
+
+export interface MensagemEmail {
+  para: string
+  assunto: string
+  html: string
+  texto: string
+}
+
+export interface TransporteEmail {
+  tipo: 'smtp' | 'api'
+  remetente: string
+  enviar(mensagem: MensagemEmail): Promise<string>
+  fechar(): Promise<void>
+}
+
+// Campos de integrations.config e integrations.credentials usados aqui
+interface ConfiguracaoEmail {
+  remetente?: string
+  responderPara?: string
+  host?: string
+  porta?: number
+  seguro?: boolean
+  apiUrl?: string
+}
+
+interface CredenciaisEmail {
+  username?: string
+  password?: string
+  apiKey?: string
+}
+
+// temporario: vale tentar de novo (rede, 429, 5xx); senão o email falha na hora
+export class ErroEnvioEmail extends Error {
+  constructor(message: string, public temporario: boolean) {
+    super(message)
+    this.name = 'ErroEnvioEmail'
+  }
+}
+
+const transporteSmtp = (config: ConfiguracaoEmail, credenciais: CredenciaisEmail, remetente: string): TransporteEmail => {
+  const client = new SMTPClient({
+    connection: {
+      hostname: config.host!,
+      port: Number(config.porta ?? (config.seguro ? 465 : 587)),
+      tls: Boolean(config.seguro),
+      ...(credenciais.username
+        ? { auth: { username: credenciais.username, password: credenciais.password ?? '' } }
+        : {}),
+    },
+  })
+
+  return {
+    tipo: 'smtp',
+    remetente,
+    async enviar(mensagem) {
+      // O SMTP não devolve um id: o Message-ID é gerado aqui
+      const messageId = `${crypto.randomUUID()}@${remetente.split('@')[1] ?? 'smartclass'}`
+
+      try {
+        await client.send({
+          from: remetente,
+          to: mensagem.para,
+          replyTo: config.responderPara,
+          subject: mensagem.assunto,
+          content: mensagem.texto,
+          html: mensagem.html,
+          headers: { 'Message-ID': `<${messageId}>` },
+        })
+      } catch (error) {
+        // Códigos 5xx do servidor SMTP são recusas definitivas (endereço inválido etc.)
+        const definitivo = /\b5\d\d\b/.test(String(error?.message))
+        throw new ErroEnvioEmail(error?.message || 'Falha no envio SMTP', !definitivo)
+      }
+
+      return messageId
+    },
+    async fechar() {
+      await client.close().catch(() => {})
+    },
+  }
+}
+
+// API HTTP no formato da v3 do SendGrid (apiUrl permite um serviço compatível)
+const transporteApi = (config: ConfiguracaoEmail, credenciais: CredenciaisEmail, remetente: string): TransporteEmail => ({
+  tipo: 'api',
+  remetente,
+  async enviar(mensagem) {
+    let response: Response
+    try {
+      response = await fetch(config.apiUrl || API_SENDGRID, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${credenciais.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          personalizations: [{ to: [{ email: mensagem.para }] }],
+          from: { email: remetente },
+          ...(config.responderPara ? { reply_to: { email: config.responderPara } } : {}),
+          subject: mensagem.assunto,
+          content: [
+            { type: 'text/plain', value: mensagem.texto },
+            { type: 'text/html', value: mensagem.html },
+          ],
+        }),
+      })
+    } catch (error) {
+      throw new ErroEnvioEmail(error?.message || 'Falha de rede na API de email', true)
+    }
+
+    if (!response.ok) {
+      const detalhe = await response.text().catch(() => '')
+      throw new ErroEnvioEmail(
+        `API de email respondeu ${response.status}${detalhe ? `: ${detalhe.slice(0, 200)}` : ''}`,
+        response.status === 429 || response.status >= 500,
+      )
+    }
+
+    // Os eventos do webhook (devoluções) trazem o mesmo id como prefixo
+    return response.headers.get('X-Message-Id') ?? crypto.randomUUID()
+  },
+  async fechar() {},
+})
+
+// Transporte da integração de email ativa da escola ('smtp' ou 'sendgrid').
+// Sem integração, usa o SMTP do ambiente (EMAIL_SMTP_HOST), se houver: em
+// desenvolvimento, host.docker.internal:54325 entrega no Inbucket local.
+export const carregarTransporte = async (supabaseAdmin: SupabaseClient, schoolId: string): Promise<TransporteEmail | null> => {
+  const { data: integracao, error } = await supabaseAdmin
+    .from('integrations')
+    .select('provider, config, credentials')
+    .eq('school_id', schoolId)
+    .eq('type', 'EMAIL')
+    .eq('is_active', true)
+    .in('provider', ['smtp', 'sendgrid'])
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  if (integracao) {
+    const config: ConfiguracaoEmail = integracao.config ?? {}
+    const credenciais: CredenciaisEmail = integracao.credentials ?? {}
+
+    if (!config.remetente) return null
+    if (integracao.provider === 'smtp') {
+      return config.host ? transporteSmtp(config, credenciais, config.remetente) : null
+    }
+    return credenciais.apiKey ? transporteApi(config, credenciais, config.remetente) : null
+  }
+
+  const host = Deno.env.get('EMAIL_SMTP_HOST')
+  if (!host) return null
+
+  return transporteSmtp(
+    { host, porta: Number(Deno.env.get('EMAIL_SMTP_PORT') ?? 587), seguro: Deno.env.get('EMAIL_SMTP_TLS') === 'true' },
+    { username: Deno.env.get('EMAIL_SMTP_USER'), password: Deno.env.get('EMAIL_SMTP_PASSWORD') },
+    Deno.env.get('EMAIL_REMETENTE') ?? 'nao-responda@smartclass.local',
+  )
+}
@@ -0,0 +1,77 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { dataEmSaoPaulo } from '../_shared/datas.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+// Execução agendada (cron, diária, às 8h de Brasília: '0 11 * * *' em UTC;
+// ver README) dos lembretes de pagamento. A função SQL
+// public.enviar_lembretes_pagamento avisa os responsáveis antes, no dia e
+// depois do vencimento das cobranças em aberto, conforme as regras de cada escola.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Apenas o agendador conhece o segredo do cron
+    const cronSecret = Deno.env.get('CRON_SECRET')
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      throw new Error('Não autorizado')
+    }
+
+    // Criar cliente Supabase com privilégios de admin
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    // Data de referência opcional no corpo; por padrão, hoje no horário de Brasília
+    const body = req.headers.get('content-type')?.includes('application/json') ? await req.json() : {}
+    const dataReferencia: string = body.data_referencia ?? dataEmSaoPaulo()
+
+    const { data: enviados, error } = await supabaseAdmin.rpc('enviar_lembretes_pagamento', {
+      p_school_id: null,
+      p_data_referencia: dataReferencia
+    })
+
+    if (error) {
+      throw error
+    }
+
+    console.log(`Lembretes de pagamento enviados: ${enviados}`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data_referencia: dataReferencia,
+        enviados
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+  } catch (error) {
+    console.error('Erro na função enviar-lembretes-pagamento:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Erro interno do servidor'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
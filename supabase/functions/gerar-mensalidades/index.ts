@@ -0,0 +1,93 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { dataEmSaoPaulo } from '../_shared/datas.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+// Execução agendada (cron) da geração de mensalidades para todas as escolas.
+// A regra de cálculo fica na função SQL public.gerar_mensalidades, a mesma
+// usada pela tela Financeiro, e é idempotente por aluno/turma/competência.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Apenas o agendador conhece o segredo do cron
+    const cronSecret = Deno.env.get('CRON_SECRET')
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      throw new Error('Não autorizado')
+    }
+
+    // Criar cliente Supabase com privilégios de admin
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    // Competência opcional no corpo; por padrão, o mês corrente no horário de Brasília
+    const body = req.headers.get('content-type')?.includes('application/json') ? await req.json() : {}
+    const competencia: string = body.competencia ?? dataEmSaoPaulo().slice(0, 7) + '-01'
+
+    const { data: schools, error: schoolsError } = await supabaseAdmin
+      .from('schools')
+      .select('id, name')
+
+    if (schoolsError) {
+      throw schoolsError
+    }
+
+    const resultados = []
+
+    for (const school of schools ?? []) {
+      const { data, error } = await supabaseAdmin.rpc('gerar_mensalidades', {
+        p_school_id: school.id,
+        p_competencia: competencia,
+        p_simular: false
+      })
+
+      if (error) {
+        console.error(`Erro ao gerar mensalidades da escola ${school.name}:`, error)
+        resultados.push({ school_id: school.id, error: error.message })
+        continue
+      }
+
+      const criadas = (data ?? []).filter((linha: { situacao: string }) => linha.situacao === 'criada').length
+      console.log(`Mensalidades geradas para ${school.name}: ${criadas}`)
+      resultados.push({ school_id: school.id, criadas, total: data?.length ?? 0 })
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        competencia,
+        resultados
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+  } catch (error) {
+    console.error('Erro na função gerar-mensalidades:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Erro interno do servidor'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
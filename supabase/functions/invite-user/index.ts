@@ -6,6 +6,9 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Validade do link de convite; reenviar renova o prazo
+const VALIDADE_CONVITE_DIAS = 7
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -54,10 +57,10 @@ serve(async (req) => {
       throw new Error('Usuário não encontrado')
     }
 
-    // Buscar perfil do usuário para verificar permissões
+    // Buscar a escola do usuário
     const { data: profile, error: profileError } = await supabase
       .from('profiles')
-      .select('tipo_usuario, school_id')
+      .select('school_id')
       .eq('id', user.id)
       .single()
 
@@ -65,13 +68,41 @@ serve(async (req) => {
       throw new Error('Perfil não encontrado')
     }
 
-    // Verificar se o usuário tem permissão para convidar
-    if (!['admin', 'diretor'].includes(profile.tipo_usuario)) {
-      throw new Error('Sem permissão para convidar usuários')
+    // Obter dados do corpo da requisição (convite_id: reenvio de um convite pendente)
+    const body = await req.json()
+
+    let convite = null
+    if (body.convite_id) {
+      const { data } = await supabaseAdmin
+        .from('convites')
+        .select('*')
+        .eq('id', body.convite_id)
+        .eq('school_id', profile.school_id)
+        .maybeSingle()
+
+      if (!data || data.status !== 'pendente') {
+        throw new Error('Convite não encontrado ou já encerrado')
+      }
+      convite = data
+    }
+
+    const { email, nome_completo, tipo_usuario, school_id, aluno_id, parentesco, papel_id, professor_id } = convite ?? body
+
+    // Convites a partir do cadastro de um aluno: a própria conta do aluno ou a de um responsável
+    const conviteDeAluno = ['aluno', 'responsavel'].includes(tipo_usuario)
+
+    // Capacidades do papel de quem convida (mesmas das políticas de RLS)
+    const { data: capacidades, error: capacidadesError } = await supabase.rpc('get_my_capacidades')
+    if (capacidadesError) {
+      throw new Error('Não foi possível verificar as permissões')
     }
 
-    // Obter dados do corpo da requisição
-    const { email, nome_completo, tipo_usuario, school_id } = await req.json()
+    // Alunos e responsáveis: quem gerencia alunos; equipe: quem convida usuários
+    const capacidadeExigida = conviteDeAluno ? 'alunos.gerenciar' : 'usuarios.convidar'
+    const podeConvidar = (capacidades ?? []).includes(capacidadeExigida)
+    if (!podeConvidar) {
+      throw new Error('Sem permissão para convidar usuários')
+    }
 
     // Validar se o school_id corresponde ao do usuário atual
     if (school_id !== profile.school_id) {
@@ -84,34 +115,158 @@ serve(async (req) => {
     }
 
     // Validar tipo de usuário
-    if (!['professor', 'aluno', 'secretario'].includes(tipo_usuario)) {
+    if (!['professor', 'aluno', 'secretario', 'responsavel'].includes(tipo_usuario)) {
       throw new Error('Tipo de usuário inválido')
     }
 
-    console.log('Convidando usuário:', { email, nome_completo, tipo_usuario, school_id })
+    // Alunos e responsáveis são sempre convidados a partir de um aluno da própria escola
+    if (conviteDeAluno) {
+      const { data: aluno } = await supabaseAdmin
+        .from('alunos')
+        .select('id, user_id')
+        .eq('id', aluno_id ?? '')
+        .eq('school_id', school_id)
+        .maybeSingle()
 
-    // Convidar usuário usando a API de admin
-    const { data: inviteData, error: inviteError } = await supabaseAdmin.auth.admin.inviteUserByEmail(email, {
-      data: {
-        nome_completo,
-        tipo_usuario,
-        school_id
-      },
-      redirectTo: `${req.headers.get('origin')}/auth/callback`
-    })
+      if (!aluno) {
+        throw new Error('Aluno não encontrado para vincular o responsável')
+      }
+
+      if (tipo_usuario === 'aluno' && aluno.user_id) {
+        throw new Error('Este aluno já tem acesso ao portal')
+      }
+    }
+
+    // Professor já cadastrado que ainda não tem acesso
+    if (professor_id) {
+      const { data: professor } = await supabaseAdmin
+        .from('professores')
+        .select('id, user_id')
+        .eq('id', professor_id)
+        .eq('school_id', school_id)
+        .maybeSingle()
+
+      if (!professor || tipo_usuario !== 'professor') {
+        throw new Error('Professor não encontrado')
+      }
+
+      if (professor.user_id) {
+        throw new Error('Este professor já tem acesso ao sistema')
+      }
+    }
+
+    // Papel da escola já definido no convite
+    if (papel_id && !convite) {
+      if (!(capacidades ?? []).includes('papeis.gerenciar')) {
+        throw new Error('Sem permissão para atribuir papéis')
+      }
+
+      const { data: papel } = await supabaseAdmin
+        .from('papeis')
+        .select('id')
+        .eq('id', papel_id)
+        .eq('school_id', school_id)
+        .maybeSingle()
+
+      if (!papel) {
+        throw new Error('Papel não encontrado')
+      }
+    }
+
+    // Quem já é membro desta escola não pode ser convidado de novo; membros de
+    // outras escolas recebem o convite e ganham mais um vínculo ao aceitar
+    const { data: contas, error: contaError } = await supabaseAdmin.rpc('conta_por_email', { p_email: email, p_school_id: school_id })
+    if (contaError) {
+      throw contaError
+    }
+
+    const conta = contas?.[0]
+    if (conta?.membro_da_escola) {
+      throw new Error(tipo_usuario === 'responsavel'
+        ? 'Este e-mail já tem conta: vincule o responsável existente ao aluno'
+        : 'Este e-mail já faz parte da escola')
+    }
+
+    // Um pendente por e-mail: convidar de novo o mesmo e-mail vale como reenvio
+    if (!convite) {
+      const { data: pendente } = await supabaseAdmin
+        .from('convites')
+        .select('*')
+        .eq('school_id', school_id)
+        .ilike('email', email)
+        .eq('status', 'pendente')
+        .maybeSingle()
+      convite = pendente
+    }
+
+    // Reenviar gera novo token (o link anterior deixa de valer) e renova a validade
+    const dadosConvite = {
+      school_id,
+      email,
+      nome_completo,
+      tipo_usuario,
+      aluno_id: aluno_id || null,
+      parentesco: parentesco || null,
+      papel_id: papel_id || null,
+      professor_id: professor_id || null,
+      token: crypto.randomUUID(),
+      expira_em: new Date(Date.now() + VALIDADE_CONVITE_DIAS * 24 * 60 * 60 * 1000).toISOString(),
+      enviado_em: new Date().toISOString(),
+      envios: (convite?.envios ?? 0) + 1,
+      convidado_por: user.id,
+    }
+
+    const { data: salvo, error: conviteError } = convite
+      ? await supabaseAdmin.from('convites').update(dadosConvite).eq('id', convite.id).select().single()
+      : await supabaseAdmin.from('convites').insert(dadosConvite).select().single()
+
+    if (conviteError) {
+      console.error('Erro ao registrar convite:', conviteError)
+      throw conviteError
+    }
+
+    console.log('Convidando usuário:', { email, nome_completo, tipo_usuario, school_id, envios: salvo.envios })
+
+    // O link leva à página de aceite, onde o convidado define a própria senha
+    const redirectTo = `${req.headers.get('origin')}/convite/${salvo.token}`
+
+    let userId = conta?.id ?? null
+    if (conta?.confirmada) {
+      // Conta já confirmada (outra escola ou convite anterior não aceito): link de acesso
+      const { error: linkError } = await supabaseAdmin.auth.signInWithOtp({
+        email,
+        options: { shouldCreateUser: false, emailRedirectTo: redirectTo }
+      })
+
+      if (linkError) {
+        console.error('Erro ao reenviar link de acesso:', linkError)
+        throw linkError
+      }
+    } else {
+      // O perfil e os vínculos só são criados quando o convite é aceito (aceitar_convite)
+      const { data: inviteData, error: inviteError } = await supabaseAdmin.auth.admin.inviteUserByEmail(email, {
+        data: { nome_completo },
+        redirectTo
+      })
+
+      if (inviteError) {
+        console.error('Erro ao convidar usuário:', inviteError)
+        throw inviteError
+      }
+      userId = inviteData.user?.id ?? userId
+    }
 
-    if (inviteError) {
-      console.error('Erro ao convidar usuário:', inviteError)
-      throw inviteError
+    if (userId && userId !== salvo.user_id) {
+      await supabaseAdmin.from('convites').update({ user_id: userId }).eq('id', salvo.id)
     }
 
-    console.log('Usuário convidado com sucesso:', inviteData.user?.email)
+    console.log('Convite enviado com sucesso:', email)
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        message: 'Convite enviado com sucesso',
-        user_id: inviteData.user?.id
+        message: salvo.envios > 1 ? 'Convite reenviado com sucesso' : 'Convite enviado com sucesso',
+        convite_id: salvo.id
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,138 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-webhook-secret',
+}
+
+interface RecebimentoPix {
+  endToEndId: string
+  txid: string
+  valor: string
+  horario: string
+}
+
+// Webhook de recebimentos PIX no formato do Bacen ({ pix: [...] }), chamado
+// pelo PSP da escola (que acrescenta /pix ao endereço cadastrado). Cada
+// recebimento é conciliado pelo txid do BR Code: o lançamento em aberto cujo
+// valor devido (com multa e juros) foi coberto passa a 'pago'.
+// O PSP não envia o JWT do Supabase: a URL cadastrada leva ?escola=<school_id>&token=<token>
+// com o token da escola (token_webhook_pix; o token também pode vir no
+// cabeçalho x-webhook-secret). Só são baixados lançamentos dessa escola.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const params = new URL(req.url).searchParams
+    const schoolId = params.get('escola')
+    const token = req.headers.get('x-webhook-secret') ?? params.get('token')
+    if (!schoolId || !token) {
+      throw new Error('Não autorizado')
+    }
+
+    // Criar cliente Supabase com privilégios de admin
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const { data: webhook } = await supabaseAdmin
+      .from('pix_webhook_tokens')
+      .select('token')
+      .eq('school_id', schoolId)
+      .maybeSingle()
+
+    if (!webhook || webhook.token !== token) {
+      throw new Error('Não autorizado')
+    }
+
+    // O PSP valida o endereço com um POST sem recebimentos
+    const body = req.headers.get('content-type')?.includes('application/json') ? await req.json() : {}
+    const recebimentos: RecebimentoPix[] = Array.isArray(body.pix) ? body.pix : []
+
+    const resultado = { conciliados: 0, divergentes: 0, ignorados: 0 }
+
+    for (const recebimento of recebimentos) {
+      if (!recebimento.txid) {
+        resultado.ignorados++
+        continue
+      }
+
+      const { data: lancamento, error } = await supabaseAdmin
+        .from('financeiro')
+        .select('id, status, valor, valor_multa, valor_juros, observacoes')
+        .eq('school_id', schoolId)
+        .eq('pix_txid', recebimento.txid)
+        .maybeSingle()
+
+      if (error) {
+        throw error
+      }
+
+      if (!lancamento || lancamento.status === 'pago' || lancamento.status === 'cancelado') {
+        console.warn(`PIX recebido sem cobrança em aberto: txid ${recebimento.txid}`)
+        resultado.ignorados++
+        continue
+      }
+
+      const valorDevido = Number(lancamento.valor) + Number(lancamento.valor_multa ?? 0) + Number(lancamento.valor_juros ?? 0)
+      if (Number(recebimento.valor) + 0.005 < valorDevido) {
+        console.warn(`PIX recebido com valor menor que o devido: txid ${recebimento.txid}, recebido ${recebimento.valor}`)
+        resultado.divergentes++
+        continue
+      }
+
+      // O filtro de status evita pagar duas vezes quando o PSP reenvia o webhook
+      const { error: updateError } = await supabaseAdmin
+        .from('financeiro')
+        .update({
+          status: 'pago',
+          data_pagamento: recebimento.horario.slice(0, 10),
+          metodo_pagamento: 'pix',
+          observacoes: [lancamento.observacoes, `PIX E2E ${recebimento.endToEndId}`].filter(Boolean).join('\n')
+        })
+        .eq('id', lancamento.id)
+        .in('status', ['pendente', 'atrasado'])
+
+      if (updateError) {
+        throw updateError
+      }
+
+      resultado.conciliados++
+    }
+
+    console.log(`Recebimentos PIX: ${JSON.stringify(resultado)}`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ...resultado
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+  } catch (error) {
+    console.error('Erro na função pix-webhook:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Erro interno do servidor'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error.message === 'Não autorizado' ? 401 : 400,
+      },
+    )
+  }
+})
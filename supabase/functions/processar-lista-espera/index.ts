@@ -0,0 +1,74 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+// Execução agendada (cron, de hora em hora) da lista de espera. A função SQL
+// public.processar_lista_espera expira as ofertas vencidas e oferta as vagas
+// livres de todas as turmas ao próximo da fila.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Apenas o agendador conhece o segredo do cron
+    const cronSecret = Deno.env.get('CRON_SECRET')
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      throw new Error('Não autorizado')
+    }
+
+    // Criar cliente Supabase com privilégios de admin
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    // Prazo das ofertas opcional no corpo; por padrão, 48 horas
+    const body = req.headers.get('content-type')?.includes('application/json') ? await req.json() : {}
+    const prazoHoras: number = body.prazo_horas ?? 48
+
+    const { data: ofertas, error } = await supabaseAdmin.rpc('processar_lista_espera', {
+      p_turma_id: null,
+      p_prazo_horas: prazoHoras
+    })
+
+    if (error) {
+      throw error
+    }
+
+    console.log(`Novas ofertas de vaga: ${ofertas}`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ofertas
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+  } catch (error) {
+    console.error('Erro na função processar-lista-espera:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Erro interno do servidor'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
+})
@@ -0,0 +1,67 @@
+-- =================================================================
+-- MIGRAÇÃO: Chamada real por aula
+-- Data: 2025-07-10
+-- Descrição: Alinha 'chamadas' e 'presencas' ao fluxo de chamada do
+--            ChamadaModal: uma chamada por aula e uma presença por
+--            aluno, com status (presente/ausente/justificado) e
+--            observações.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: CHAMADAS
+-- =================================================================
+
+ALTER TABLE public.chamadas ADD COLUMN IF NOT EXISTS aula_id uuid REFERENCES public.aulas(id) ON DELETE CASCADE;
+ALTER TABLE public.chamadas ADD COLUMN IF NOT EXISTS data_aula DATE;
+ALTER TABLE public.chamadas ADD COLUMN IF NOT EXISTS observacoes TEXT;
+ALTER TABLE public.chamadas ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+ALTER TABLE public.chamadas ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+-- Uma aula possui no máximo uma chamada: editar a chamada atualiza o registro existente
+CREATE UNIQUE INDEX IF NOT EXISTS chamadas_aula_id_key ON public.chamadas(aula_id);
+
+DROP TRIGGER IF EXISTS update_chamadas_updated_at ON public.chamadas;
+CREATE TRIGGER update_chamadas_updated_at BEFORE UPDATE ON public.chamadas FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+
+-- =================================================================
+-- PARTE 2: PRESENÇAS
+-- =================================================================
+
+ALTER TABLE public.presencas ADD COLUMN IF NOT EXISTS status TEXT;
+ALTER TABLE public.presencas ADD COLUMN IF NOT EXISTS observacoes TEXT;
+
+-- Bancos que ainda usam a coluna booleana 'presente' são convertidos para 'status'
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'presencas' AND column_name = 'presente'
+    ) THEN
+        UPDATE public.presencas
+        SET status = CASE WHEN presente THEN 'presente' ELSE 'ausente' END
+        WHERE status IS NULL;
+
+        ALTER TABLE public.presencas DROP COLUMN presente;
+    END IF;
+END $$;
+
+UPDATE public.presencas SET status = 'ausente' WHERE status IS NULL;
+ALTER TABLE public.presencas ALTER COLUMN status SET NOT NULL;
+ALTER TABLE public.presencas DROP CONSTRAINT IF EXISTS presencas_status_check;
+ALTER TABLE public.presencas ADD CONSTRAINT presencas_status_check CHECK (status IN ('presente', 'ausente', 'justificado'));
+
+-- Presenças duplicadas (a mesma chamada gravada de novo) impedem o índice:
+-- fica a mais recente de cada aluno (created_at e, no empate, o id)
+DELETE FROM public.presencas p
+USING (
+    SELECT id, row_number() OVER (
+        PARTITION BY chamada_id, aluno_id
+        ORDER BY created_at DESC NULLS LAST, id DESC
+    ) AS ordem
+    FROM public.presencas
+) d
+WHERE p.id = d.id AND d.ordem > 1;
+
+-- Um aluno possui no máximo uma presença por chamada
+CREATE UNIQUE INDEX IF NOT EXISTS presencas_chamada_aluno_key ON public.presencas(chamada_id, aluno_id);
@@ -0,0 +1,62 @@
+-- =================================================================
+-- MIGRAÇÃO: Livro-caixa do Financeiro
+-- Data: 2025-07-11
+-- Descrição: Alinha a tabela 'financeiro' ao livro-caixa usado pela
+--            página Financeiro: receitas e despesas com categoria,
+--            status, data e método de pagamento, vinculadas a alunos
+--            ou professores.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: COLUNAS
+-- =================================================================
+
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS tipo TEXT NOT NULL DEFAULT 'receita';
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS categoria TEXT NOT NULL DEFAULT 'outros';
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS data_pagamento DATE;
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS metodo_pagamento TEXT;
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS observacoes TEXT;
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS professor_id uuid REFERENCES public.professores(id) ON DELETE SET NULL;
+
+-- Bancos criados pela migração consolidada usam 'status_pagamento'
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'financeiro' AND column_name = 'status_pagamento'
+    ) AND NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'financeiro' AND column_name = 'status'
+    ) THEN
+        ALTER TABLE public.financeiro RENAME COLUMN status_pagamento TO status;
+    END IF;
+END $$;
+
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'pendente';
+
+
+-- =================================================================
+-- PARTE 2: RESTRIÇÕES E ÍNDICES
+-- =================================================================
+
+ALTER TABLE public.financeiro DROP CONSTRAINT IF EXISTS financeiro_status_pagamento_check;
+ALTER TABLE public.financeiro DROP CONSTRAINT IF EXISTS financeiro_status_check;
+ALTER TABLE public.financeiro ADD CONSTRAINT financeiro_status_check CHECK (status IN ('pendente', 'pago', 'atrasado', 'cancelado'));
+
+ALTER TABLE public.financeiro DROP CONSTRAINT IF EXISTS financeiro_tipo_check;
+ALTER TABLE public.financeiro ADD CONSTRAINT financeiro_tipo_check CHECK (tipo IN ('receita', 'despesa'));
+
+ALTER TABLE public.financeiro DROP CONSTRAINT IF EXISTS financeiro_metodo_pagamento_check;
+ALTER TABLE public.financeiro ADD CONSTRAINT financeiro_metodo_pagamento_check CHECK (
+    metodo_pagamento IS NULL OR metodo_pagamento IN ('pix', 'dinheiro', 'cartao_credito', 'cartao_debito', 'boleto', 'transferencia')
+);
+
+-- Um lançamento pago precisa registrar quando e como foi pago
+ALTER TABLE public.financeiro DROP CONSTRAINT IF EXISTS financeiro_pagamento_check;
+ALTER TABLE public.financeiro ADD CONSTRAINT financeiro_pagamento_check CHECK (
+    status <> 'pago' OR (data_pagamento IS NOT NULL AND metodo_pagamento IS NOT NULL)
+) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS financeiro_school_vencimento_idx ON public.financeiro(school_id, data_vencimento);
+CREATE INDEX IF NOT EXISTS financeiro_aluno_idx ON public.financeiro(aluno_id);
+CREATE INDEX IF NOT EXISTS financeiro_professor_idx ON public.financeiro(professor_id);
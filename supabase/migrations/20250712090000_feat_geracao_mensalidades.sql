@@ -0,0 +1,206 @@
+-- =================================================================
+-- MIGRAÇÃO: Geração automática de mensalidades
+-- Data: 2025-07-12
+-- Descrição: Cria uma receita de mensalidade por aluno ativo por mês
+--            a partir de turmas.valor_mensal, com pró-rata para quem
+--            entrou ou saiu no meio do mês e descontos por aluno
+--            (irmãos, bolsa). A geração é idempotente: rodar de novo
+--            para a mesma competência não duplica cobranças.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS E COLUNAS
+-- =================================================================
+
+-- Período de vínculo do aluno, usado no cálculo pró-rata
+ALTER TABLE public.alunos ADD COLUMN IF NOT EXISTS data_matricula DATE;
+ALTER TABLE public.alunos ADD COLUMN IF NOT EXISTS data_saida DATE;
+UPDATE public.alunos SET data_matricula = COALESCE(created_at::date, CURRENT_DATE) WHERE data_matricula IS NULL;
+ALTER TABLE public.alunos ALTER COLUMN data_matricula SET DEFAULT CURRENT_DATE;
+
+-- Competência (primeiro dia do mês cobrado) e turma de origem da mensalidade
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS competencia DATE;
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS turma_id uuid REFERENCES public.turmas(id) ON DELETE SET NULL;
+
+-- Garante a idempotência: uma mensalidade por aluno, turma e competência.
+-- Mensalidades canceladas continuam ocupando a vaga para não serem recriadas.
+CREATE UNIQUE INDEX IF NOT EXISTS financeiro_mensalidade_unica
+    ON public.financeiro(aluno_id, turma_id, competencia)
+    WHERE categoria = 'mensalidade' AND competencia IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.configuracoes_financeiras (
+    school_id uuid PRIMARY KEY REFERENCES public.schools(id) ON DELETE CASCADE,
+    dia_vencimento INT NOT NULL DEFAULT 10 CHECK (dia_vencimento BETWEEN 1 AND 28),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.aluno_descontos (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    aluno_id uuid NOT NULL REFERENCES public.alunos(id) ON DELETE CASCADE,
+    tipo TEXT NOT NULL CHECK (tipo IN ('irmaos', 'bolsa', 'outro')),
+    percentual NUMERIC(5, 2) CHECK (percentual IS NULL OR (percentual > 0 AND percentual <= 100)),
+    valor_fixo NUMERIC(10, 2) CHECK (valor_fixo IS NULL OR valor_fixo > 0),
+    descricao TEXT,
+    vigencia_inicio DATE NOT NULL DEFAULT CURRENT_DATE,
+    vigencia_fim DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    CHECK (percentual IS NOT NULL OR valor_fixo IS NOT NULL),
+    CHECK (vigencia_fim IS NULL OR vigencia_fim >= vigencia_inicio)
+);
+
+CREATE INDEX IF NOT EXISTS aluno_descontos_aluno_idx ON public.aluno_descontos(aluno_id);
+
+DROP TRIGGER IF EXISTS update_configuracoes_financeiras_updated_at ON public.configuracoes_financeiras;
+CREATE TRIGGER update_configuracoes_financeiras_updated_at BEFORE UPDATE ON public.configuracoes_financeiras FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+DROP TRIGGER IF EXISTS update_aluno_descontos_updated_at ON public.aluno_descontos;
+CREATE TRIGGER update_aluno_descontos_updated_at BEFORE UPDATE ON public.aluno_descontos FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÃO DE GERAÇÃO
+-- =================================================================
+
+-- Gera (ou simula, com p_simular = true) as mensalidades de uma escola para
+-- o mês de p_competencia. Retorna uma linha por aluno considerado.
+CREATE OR REPLACE FUNCTION public.gerar_mensalidades(
+    p_school_id uuid,
+    p_competencia DATE,
+    p_simular BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    aluno_id uuid,
+    aluno_nome TEXT,
+    turma_id uuid,
+    turma_nome TEXT,
+    dias_cobrados INT,
+    valor_bruto NUMERIC,
+    valor_desconto NUMERIC,
+    valor NUMERIC,
+    situacao TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_inicio DATE := date_trunc('month', p_competencia)::date;
+    v_fim DATE := (date_trunc('month', p_competencia) + interval '1 month - 1 day')::date;
+    v_dias_mes INT := EXTRACT(DAY FROM (date_trunc('month', p_competencia) + interval '1 month - 1 day'))::int;
+    v_dia_vencimento INT;
+    v_mes_label TEXT := to_char(p_competencia, 'MM/YYYY');
+    v_aplica_fixo BOOLEAN;
+    r RECORD;
+BEGIN
+    IF p_school_id IS DISTINCT FROM public.get_my_school_id() AND COALESCE(auth.role(), '') <> 'service_role' THEN
+        RAISE EXCEPTION 'Sem permissão para gerar mensalidades desta escola';
+    END IF;
+
+    SELECT COALESCE(cf.dia_vencimento, 10) INTO v_dia_vencimento
+    FROM (SELECT 1) dummy
+    LEFT JOIN public.configuracoes_financeiras cf ON cf.school_id = p_school_id;
+
+    FOR r IN
+        SELECT
+            a.id AS aluno_id,
+            a.nome AS aluno_nome,
+            t.id AS turma_id,
+            t.nome AS turma_nome,
+            t.valor_mensal,
+            GREATEST(COALESCE(a.data_matricula, v_inicio), v_inicio) AS periodo_inicio,
+            LEAST(COALESCE(a.data_saida, v_fim), v_fim) AS periodo_fim
+        FROM public.alunos a
+        JOIN public.turmas t ON t.id = a.turma_id
+        WHERE a.school_id = p_school_id
+          AND t.valor_mensal IS NOT NULL AND t.valor_mensal > 0
+          AND (a.ativo IS DISTINCT FROM false OR a.data_saida >= v_inicio)
+          AND COALESCE(a.data_matricula, v_inicio) <= v_fim
+          AND COALESCE(a.data_saida, v_fim) >= v_inicio
+        ORDER BY a.nome
+    LOOP
+        aluno_id := r.aluno_id;
+        aluno_nome := r.aluno_nome;
+        turma_id := r.turma_id;
+        turma_nome := r.turma_nome;
+        dias_cobrados := (r.periodo_fim - r.periodo_inicio) + 1;
+        valor_bruto := round(r.valor_mensal * dias_cobrados / v_dias_mes, 2);
+
+        -- O valor fixo do desconto vale uma vez por aluno no mês: não entra se
+        -- o aluno já tem mensalidade do mês em outra turma (trocou de turma
+        -- depois da geração e ela já levou o desconto)
+        v_aplica_fixo := NOT EXISTS (
+            SELECT 1 FROM public.financeiro f
+            WHERE f.aluno_id = r.aluno_id
+              AND f.turma_id IS DISTINCT FROM r.turma_id
+              AND f.competencia = v_inicio
+              AND f.categoria = 'mensalidade'
+        );
+
+        -- Descontos vigentes em qualquer dia do período cobrado
+        SELECT
+            round(
+                valor_bruto * LEAST(COALESCE(SUM(d.percentual), 0), 100) / 100
+                + CASE WHEN v_aplica_fixo THEN COALESCE(SUM(d.valor_fixo), 0) ELSE 0 END,
+                2
+            )
+        INTO valor_desconto
+        FROM public.aluno_descontos d
+        WHERE d.aluno_id = r.aluno_id
+          AND d.vigencia_inicio <= r.periodo_fim
+          AND (d.vigencia_fim IS NULL OR d.vigencia_fim >= r.periodo_inicio);
+
+        valor_desconto := LEAST(valor_desconto, valor_bruto);
+        valor := valor_bruto - valor_desconto;
+
+        IF valor <= 0 THEN
+            situacao := 'isento';
+        ELSIF EXISTS (
+            SELECT 1 FROM public.financeiro f
+            WHERE f.aluno_id = r.aluno_id
+              AND f.turma_id = r.turma_id
+              AND f.competencia = v_inicio
+              AND f.categoria = 'mensalidade'
+        ) THEN
+            situacao := 'existente';
+        ELSIF p_simular THEN
+            situacao := 'pendente';
+        ELSE
+            INSERT INTO public.financeiro (
+                school_id, aluno_id, turma_id, tipo, categoria, descricao, valor,
+                data_vencimento, status, competencia, observacoes
+            )
+            VALUES (
+                p_school_id, r.aluno_id, r.turma_id, 'receita', 'mensalidade',
+                'Mensalidade ' || r.turma_nome || ' - ' || v_mes_label,
+                valor,
+                make_date(EXTRACT(YEAR FROM v_inicio)::int, EXTRACT(MONTH FROM v_inicio)::int, v_dia_vencimento),
+                'pendente',
+                v_inicio,
+                CASE
+                    WHEN dias_cobrados < v_dias_mes OR valor_desconto > 0 THEN
+                        format('Valor cheio %s; %s de %s dias; desconto %s', r.valor_mensal, dias_cobrados, v_dias_mes, valor_desconto)
+                END
+            )
+            ON CONFLICT DO NOTHING;
+
+            situacao := CASE WHEN FOUND THEN 'criada' ELSE 'existente' END;
+        END IF;
+
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+
+-- =================================================================
+-- PARTE 3: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.configuracoes_financeiras ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.aluno_descontos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Membros podem ver registros de gestão" ON public.configuracoes_financeiras FOR SELECT USING (school_id = public.get_my_school_id());
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.configuracoes_financeiras FOR ALL USING (school_id = public.get_my_school_id() AND public.get_my_role() IN ('admin', 'diretor', 'secretario'));
+
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.aluno_descontos FOR ALL USING (school_id = public.get_my_school_id() AND public.get_my_role() IN ('admin', 'diretor', 'secretario'));
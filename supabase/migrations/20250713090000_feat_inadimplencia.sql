@@ -0,0 +1,76 @@
+-- =================================================================
+-- MIGRAÇÃO: Inadimplência, multa e juros
+-- Data: 2025-07-13
+-- Descrição: Marca como 'atrasado' os lançamentos em aberto após o
+--            vencimento e calcula multa e juros pró-rata das receitas
+--            conforme as regras da escola (padrão: 2% de multa e 1%
+--            de juros ao mês). Executada diariamente pela edge function
+--            atualizar-inadimplencia.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: COLUNAS
+-- =================================================================
+
+-- Regras de cobrança por escola
+ALTER TABLE public.configuracoes_financeiras ADD COLUMN IF NOT EXISTS multa_percentual NUMERIC(5, 2) NOT NULL DEFAULT 2
+    CHECK (multa_percentual >= 0 AND multa_percentual <= 100);
+ALTER TABLE public.configuracoes_financeiras ADD COLUMN IF NOT EXISTS juros_mensal_percentual NUMERIC(5, 2) NOT NULL DEFAULT 1
+    CHECK (juros_mensal_percentual >= 0 AND juros_mensal_percentual <= 100);
+
+-- Encargos calculados sobre o valor original; o valor devido é valor + multa + juros
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS valor_multa NUMERIC(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS valor_juros NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS financeiro_em_aberto_idx
+    ON public.financeiro(data_vencimento)
+    WHERE status IN ('pendente', 'atrasado');
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÃO DE ATUALIZAÇÃO
+-- =================================================================
+
+-- Atualiza status e encargos dos lançamentos vencidos até p_data_referencia.
+-- Com p_school_id nulo processa todas as escolas (apenas service_role).
+-- Multa é aplicada uma vez; juros são proporcionais aos dias de atraso
+-- (mês comercial de 30 dias). Retorna a quantidade de lançamentos atualizados.
+CREATE OR REPLACE FUNCTION public.atualizar_inadimplencia(
+    p_school_id uuid DEFAULT NULL,
+    p_data_referencia DATE DEFAULT CURRENT_DATE
+)
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_atualizados INT;
+BEGIN
+    IF COALESCE(auth.role(), '') <> 'service_role'
+       AND (p_school_id IS NULL OR p_school_id IS DISTINCT FROM public.get_my_school_id()) THEN
+        RAISE EXCEPTION 'Sem permissão para atualizar a inadimplência desta escola';
+    END IF;
+
+    UPDATE public.financeiro f
+    SET
+        status = 'atrasado',
+        valor_multa = CASE
+            WHEN f.tipo = 'receita' THEN round(f.valor * COALESCE(cf.multa_percentual, 2) / 100, 2)
+            ELSE 0
+        END,
+        valor_juros = CASE
+            WHEN f.tipo = 'receita' THEN
+                round(f.valor * COALESCE(cf.juros_mensal_percentual, 1) / 100 * (p_data_referencia - f.data_vencimento) / 30, 2)
+            ELSE 0
+        END
+    FROM public.schools s
+    LEFT JOIN public.configuracoes_financeiras cf ON cf.school_id = s.id
+    WHERE s.id = f.school_id
+      AND (p_school_id IS NULL OR f.school_id = p_school_id)
+      AND f.status IN ('pendente', 'atrasado')
+      AND f.data_vencimento < p_data_referencia;
+
+    GET DIAGNOSTICS v_atualizados = ROW_COUNT;
+    RETURN v_atualizados;
+END;
+$$;
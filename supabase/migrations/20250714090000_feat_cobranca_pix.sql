@@ -0,0 +1,21 @@
+-- =================================================================
+-- MIGRAÇÃO: Cobrança via PIX
+-- Data: 2025-07-14
+-- Descrição: Chave PIX da escola (configurada em Configurações da
+--            Escola) e txid de cada receita, usado no BR Code
+--            "copia e cola" e na conciliação dos recebimentos.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: COLUNAS
+-- =================================================================
+
+ALTER TABLE public.schools ADD COLUMN IF NOT EXISTS chave_pix TEXT;
+
+-- txid do BR Code: até 25 caracteres alfanuméricos, único por lançamento
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS pix_txid TEXT
+    CHECK (pix_txid IS NULL OR pix_txid ~ '^[A-Za-z0-9]{1,25}$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS financeiro_pix_txid_unico
+    ON public.financeiro(pix_txid)
+    WHERE pix_txid IS NOT NULL;
@@ -0,0 +1,141 @@
+-- =================================================================
+-- MIGRAÇÃO: Boletos CNAB 240 e histórico de integrações
+-- Data: 2025-07-15
+-- Descrição: Tabelas usadas pelo IntegrationService (integrações e
+--            logs de sincronização) e identificador do título de
+--            cobrança em cada receita, enviado na remessa CNAB 240
+--            e usado para conciliar o arquivo de retorno do banco,
+--            dados do pagador no cadastro do aluno e numeração
+--            sequencial das remessas.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS DE INTEGRAÇÃO
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.integrations (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    config JSONB NOT NULL DEFAULT '{}'::jsonb,
+    credentials JSONB NOT NULL DEFAULT '{}'::jsonb,
+    webhook_url TEXT,
+    last_sync TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    sync_status TEXT NOT NULL DEFAULT 'IDLE',
+    remessa_sequencial INT NOT NULL DEFAULT 0,
+    created_by uuid DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS integrations_school_provider_idx ON public.integrations(school_id, provider);
+
+-- Cada execução (sincronização, remessa gerada ou retorno importado) gera um log.
+-- operacao e arquivo_nome identificam as execuções baseadas em arquivo.
+CREATE TABLE IF NOT EXISTS public.integration_sync_logs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    integration_id uuid NOT NULL REFERENCES public.integrations(id) ON DELETE CASCADE,
+    operacao TEXT NOT NULL DEFAULT 'sync',
+    arquivo_nome TEXT,
+    success BOOLEAN NOT NULL DEFAULT true,
+    records_processed INT NOT NULL DEFAULT 0,
+    records_created INT NOT NULL DEFAULT 0,
+    records_updated INT NOT NULL DEFAULT 0,
+    records_deleted INT NOT NULL DEFAULT 0,
+    records_skipped INT NOT NULL DEFAULT 0,
+    errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+    warnings JSONB NOT NULL DEFAULT '[]'::jsonb,
+    duration INT NOT NULL DEFAULT 0,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    completed_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS integration_sync_logs_integration_idx
+    ON public.integration_sync_logs(integration_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_integrations_updated_at ON public.integrations;
+CREATE TRIGGER update_integrations_updated_at BEFORE UPDATE ON public.integrations FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+
+-- =================================================================
+-- PARTE 2: IDENTIFICADOR DO BOLETO
+-- =================================================================
+
+-- "Uso da empresa" do segmento P: até 25 caracteres, devolvido no segmento T do retorno
+ALTER TABLE public.financeiro ADD COLUMN IF NOT EXISTS boleto_identificador TEXT
+    CHECK (boleto_identificador IS NULL OR boleto_identificador ~ '^[A-Za-z0-9]{1,25}$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS financeiro_boleto_identificador_unico
+    ON public.financeiro(boleto_identificador)
+    WHERE boleto_identificador IS NOT NULL;
+
+
+-- =================================================================
+-- PARTE 3: DADOS DO PAGADOR
+-- =================================================================
+
+-- O pagador do boleto é o responsável (alunos.responsavel) ou, sem ele, o
+-- próprio aluno. CPF e endereço completo vão no segmento Q da remessa.
+ALTER TABLE public.alunos ADD COLUMN IF NOT EXISTS cpf_pagador TEXT
+    CHECK (cpf_pagador IS NULL OR cpf_pagador ~ '^[0-9]{11}$');
+ALTER TABLE public.alunos ADD COLUMN IF NOT EXISTS bairro TEXT;
+ALTER TABLE public.alunos ADD COLUMN IF NOT EXISTS cidade TEXT;
+ALTER TABLE public.alunos ADD COLUMN IF NOT EXISTS uf TEXT
+    CHECK (uf IS NULL OR uf ~ '^[A-Z]{2}$');
+ALTER TABLE public.alunos ADD COLUMN IF NOT EXISTS cep TEXT
+    CHECK (cep IS NULL OR cep ~ '^[0-9]{8}$');
+
+
+-- =================================================================
+-- PARTE 4: NUMERAÇÃO DAS REMESSAS
+-- =================================================================
+
+-- O banco recusa arquivos com número repetido: o número é reservado no
+-- UPDATE, que trava a linha da integração, e não some se o download falhar.
+-- Roda com as permissões de quem chama: só gestores alteram integrações (RLS).
+CREATE OR REPLACE FUNCTION public.proximo_sequencial_remessa(p_integration_id uuid)
+RETURNS INT
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_sequencial INT;
+BEGIN
+    UPDATE public.integrations
+    SET remessa_sequencial = remessa_sequencial + 1
+    WHERE id = p_integration_id
+      AND school_id = public.get_my_school_id()
+    RETURNING remessa_sequencial INTO v_sequencial;
+
+    IF v_sequencial IS NULL THEN
+        RAISE EXCEPTION 'Integração de boletos não encontrada ou sem permissão';
+    END IF;
+
+    RETURN v_sequencial;
+END;
+$$;
+
+
+-- =================================================================
+-- PARTE 5: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.integrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.integration_sync_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.integrations FOR ALL USING (school_id = public.get_my_school_id() AND public.get_my_role() IN ('admin', 'diretor', 'secretario'));
+
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.integration_sync_logs FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.integrations i
+        WHERE i.id = integration_id
+          AND i.school_id = public.get_my_school_id()
+          AND public.get_my_role() IN ('admin', 'diretor', 'secretario')
+    )
+);
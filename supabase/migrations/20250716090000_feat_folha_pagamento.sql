@@ -0,0 +1,217 @@
+-- =================================================================
+-- MIGRAÇÃO: Folha de pagamento de professores
+-- Data: 2025-07-16
+-- Descrição: Soma as horas das aulas realizadas por professor no mês,
+--            multiplica por professores.valor_hora e permite ajustes
+--            manuais. A aprovação congela a folha e cria uma despesa
+--            de salário no financeiro para cada professor.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.folhas_pagamento (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    competencia DATE NOT NULL,
+    data_vencimento DATE NOT NULL,
+    valor_total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    aprovada_por uuid DEFAULT auth.uid(),
+    aprovada_em TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (school_id, competencia)
+);
+
+-- Itens guardam o cálculo do momento da aprovação; alterar valor_hora depois
+-- não muda folhas já aprovadas.
+CREATE TABLE IF NOT EXISTS public.folha_pagamento_itens (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    folha_id uuid NOT NULL REFERENCES public.folhas_pagamento(id) ON DELETE CASCADE,
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    professor_id uuid NOT NULL REFERENCES public.professores(id) ON DELETE CASCADE,
+    professor_nome TEXT NOT NULL,
+    aulas_realizadas INT NOT NULL DEFAULT 0,
+    horas NUMERIC(8, 2) NOT NULL DEFAULT 0,
+    valor_hora NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    valor_aulas NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    ajuste NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    ajuste_descricao TEXT,
+    valor_total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    financeiro_id uuid REFERENCES public.financeiro(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (folha_id, professor_id)
+);
+
+CREATE INDEX IF NOT EXISTS folha_pagamento_itens_professor_idx ON public.folha_pagamento_itens(professor_id);
+
+-- Um salário por professor e competência gerado pela folha
+CREATE UNIQUE INDEX IF NOT EXISTS financeiro_salario_unico
+    ON public.financeiro(professor_id, competencia)
+    WHERE categoria = 'salario' AND competencia IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_folhas_pagamento_updated_at ON public.folhas_pagamento;
+CREATE TRIGGER update_folhas_pagamento_updated_at BEFORE UPDATE ON public.folhas_pagamento FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+
+-- =================================================================
+-- PARTE 2: CÁLCULO E APROVAÇÃO
+-- =================================================================
+
+-- Horas de aulas realizadas por professor no mês de p_competencia
+CREATE OR REPLACE FUNCTION public.calcular_folha_pagamento(
+    p_school_id uuid,
+    p_competencia DATE
+)
+RETURNS TABLE (
+    professor_id uuid,
+    professor_nome TEXT,
+    aulas_realizadas INT,
+    horas NUMERIC,
+    valor_hora NUMERIC,
+    valor_aulas NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    v_inicio DATE := date_trunc('month', p_competencia)::date;
+    v_fim DATE := (date_trunc('month', p_competencia) + interval '1 month - 1 day')::date;
+BEGIN
+    IF p_school_id IS DISTINCT FROM public.get_my_school_id() AND COALESCE(auth.role(), '') <> 'service_role' THEN
+        RAISE EXCEPTION 'Sem permissão para calcular a folha desta escola';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.nome,
+        COUNT(a.id)::int,
+        round(SUM(EXTRACT(EPOCH FROM (a.horario_fim - a.horario_inicio)) / 3600)::numeric, 2),
+        COALESCE(p.valor_hora, 0)::numeric,
+        round(SUM(EXTRACT(EPOCH FROM (a.horario_fim - a.horario_inicio)) / 3600)::numeric * COALESCE(p.valor_hora, 0), 2)
+    FROM public.aulas a
+    JOIN public.professores p ON p.id = a.professor_id
+    WHERE a.school_id = p_school_id
+      AND a.status = 'realizada'
+      AND a.data_aula BETWEEN v_inicio AND v_fim
+      AND a.horario_fim > a.horario_inicio
+    GROUP BY p.id, p.nome, p.valor_hora
+    ORDER BY p.nome;
+END;
+$$;
+
+-- Aprova a folha do mês: recalcula as horas, aplica os ajustes informados
+-- (p_ajustes = [{ "professor_id": uuid, "valor": numeric, "descricao": text }])
+-- e lança uma despesa de salário por professor com valor positivo.
+CREATE OR REPLACE FUNCTION public.aprovar_folha_pagamento(
+    p_school_id uuid,
+    p_competencia DATE,
+    p_data_vencimento DATE,
+    p_ajustes JSONB DEFAULT '[]'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_inicio DATE := date_trunc('month', p_competencia)::date;
+    v_mes_label TEXT := to_char(p_competencia, 'MM/YYYY');
+    v_folha_id uuid;
+    v_financeiro_id uuid;
+    v_total NUMERIC := 0;
+    r RECORD;
+BEGIN
+    IF p_school_id IS DISTINCT FROM public.get_my_school_id() THEN
+        RAISE EXCEPTION 'Sem permissão para aprovar a folha desta escola';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.folhas_pagamento f WHERE f.school_id = p_school_id AND f.competencia = v_inicio) THEN
+        RAISE EXCEPTION 'A folha de % já foi aprovada', v_mes_label;
+    END IF;
+
+    INSERT INTO public.folhas_pagamento (school_id, competencia, data_vencimento)
+    VALUES (p_school_id, v_inicio, p_data_vencimento)
+    RETURNING id INTO v_folha_id;
+
+    -- Professores sem aulas no mês entram apenas se tiverem ajuste
+    FOR r IN
+        WITH ajustes AS (
+            SELECT
+                (item->>'professor_id')::uuid AS professor_id,
+                COALESCE((item->>'valor')::numeric, 0) AS valor,
+                NULLIF(trim(item->>'descricao'), '') AS descricao
+            FROM jsonb_array_elements(p_ajustes) item
+        )
+        SELECT
+            p.id AS professor_id,
+            p.nome AS professor_nome,
+            COALESCE(c.aulas_realizadas, 0) AS aulas_realizadas,
+            COALESCE(c.horas, 0) AS horas,
+            COALESCE(c.valor_hora, p.valor_hora, 0) AS valor_hora,
+            COALESCE(c.valor_aulas, 0) AS valor_aulas,
+            COALESCE(aj.valor, 0) AS ajuste,
+            aj.descricao AS ajuste_descricao
+        FROM public.professores p
+        LEFT JOIN public.calcular_folha_pagamento(p_school_id, v_inicio) c ON c.professor_id = p.id
+        LEFT JOIN ajustes aj ON aj.professor_id = p.id
+        WHERE p.school_id = p_school_id
+          AND (c.professor_id IS NOT NULL OR COALESCE(aj.valor, 0) <> 0)
+        ORDER BY p.nome
+    LOOP
+        v_financeiro_id := NULL;
+
+        IF r.valor_aulas + r.ajuste > 0 THEN
+            INSERT INTO public.financeiro (
+                school_id, professor_id, tipo, categoria, descricao, valor,
+                data_vencimento, status, competencia, observacoes
+            )
+            VALUES (
+                p_school_id, r.professor_id, 'despesa', 'salario',
+                'Folha de pagamento ' || r.professor_nome || ' - ' || v_mes_label,
+                r.valor_aulas + r.ajuste,
+                p_data_vencimento,
+                'pendente',
+                v_inicio,
+                format('%s aula(s), %s h x %s', r.aulas_realizadas, r.horas, r.valor_hora)
+                    || CASE WHEN r.ajuste <> 0 THEN format('; ajuste %s %s', r.ajuste, COALESCE(r.ajuste_descricao, '')) ELSE '' END
+            )
+            RETURNING id INTO v_financeiro_id;
+        END IF;
+
+        INSERT INTO public.folha_pagamento_itens (
+            folha_id, school_id, professor_id, professor_nome, aulas_realizadas, horas,
+            valor_hora, valor_aulas, ajuste, ajuste_descricao, valor_total, financeiro_id
+        )
+        VALUES (
+            v_folha_id, p_school_id, r.professor_id, r.professor_nome, r.aulas_realizadas, r.horas,
+            r.valor_hora, r.valor_aulas, r.ajuste, r.ajuste_descricao, GREATEST(r.valor_aulas + r.ajuste, 0), v_financeiro_id
+        );
+
+        v_total := v_total + GREATEST(r.valor_aulas + r.ajuste, 0);
+    END LOOP;
+
+    UPDATE public.folhas_pagamento SET valor_total = v_total WHERE id = v_folha_id;
+
+    RETURN v_folha_id;
+END;
+$$;
+
+
+-- =================================================================
+-- PARTE 3: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.folhas_pagamento ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.folha_pagamento_itens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.folhas_pagamento FOR ALL USING (school_id = public.get_my_school_id() AND public.get_my_role() IN ('admin', 'diretor', 'secretario'));
+
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.folha_pagamento_itens FOR ALL USING (school_id = public.get_my_school_id() AND public.get_my_role() IN ('admin', 'diretor', 'secretario'));
+
+-- Cada professor pode consultar o próprio demonstrativo
+CREATE POLICY "Professores podem ver o próprio demonstrativo" ON public.folha_pagamento_itens FOR SELECT USING (
+    professor_id IN (SELECT p.id FROM public.professores p WHERE p.user_id = auth.uid())
+);
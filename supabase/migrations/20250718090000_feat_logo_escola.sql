@@ -0,0 +1,30 @@
+-- =================================================================
+-- MIGRAÇÃO: Logo da escola
+-- Data: 2025-07-18
+-- Descrição: Logo exibido no cabeçalho dos relatórios exportados
+--            (PDF) e enviado em Configurações da Escola.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: COLUNAS
+-- =================================================================
+
+ALTER TABLE public.schools ADD COLUMN IF NOT EXISTS logo_url TEXT;
+
+
+-- =================================================================
+-- PARTE 2: STORAGE
+-- =================================================================
+
+INSERT INTO storage.buckets (id, name, public) VALUES ('escolas-logos', 'escolas-logos', true) ON CONFLICT (id) DO NOTHING;
+
+-- Cada escola grava apenas na própria pasta (<school_id>/arquivo)
+DROP POLICY IF EXISTS "school_logos_read_policy" ON storage.objects;
+DROP POLICY IF EXISTS "school_logos_write_policy" ON storage.objects;
+
+CREATE POLICY "school_logos_read_policy" ON storage.objects FOR SELECT USING (bucket_id = 'escolas-logos');
+CREATE POLICY "school_logos_write_policy" ON storage.objects FOR ALL TO authenticated USING (
+    bucket_id = 'escolas-logos'
+    AND (storage.foldername(name))[1] = public.get_my_school_id()::text
+    AND public.get_my_role() IN ('admin', 'diretor', 'secretario')
+);
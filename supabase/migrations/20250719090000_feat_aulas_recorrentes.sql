@@ -0,0 +1,212 @@
+-- =================================================================
+-- MIGRAÇÃO: Geração recorrente de aulas
+-- Data: 2025-07-19
+-- Descrição: Horários semanais da turma (vários por turma) e geração
+--            das aulas de um período (ex.: semestre) a partir deles,
+--            pulando as datas informadas (feriados). A geração pode ser
+--            refeita após mudança de horário: aulas geradas que não
+--            batem mais com a grade são removidas, exceto as que já
+--            têm chamada registrada.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS E COLUNAS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.turma_horarios (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    turma_id uuid NOT NULL REFERENCES public.turmas(id) ON DELETE CASCADE,
+    dia_semana TEXT NOT NULL CHECK (dia_semana IN ('Domingo', 'Segunda-feira', 'Terça-feira', 'Quarta-feira', 'Quinta-feira', 'Sexta-feira', 'Sábado')),
+    horario_inicio TIME NOT NULL,
+    horario_fim TIME NOT NULL,
+    professor_id uuid REFERENCES public.professores(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    CHECK (horario_fim > horario_inicio)
+);
+
+CREATE INDEX IF NOT EXISTS turma_horarios_turma_idx ON public.turma_horarios(turma_id);
+
+DROP TRIGGER IF EXISTS update_turma_horarios_updated_at ON public.turma_horarios;
+CREATE TRIGGER update_turma_horarios_updated_at BEFORE UPDATE ON public.turma_horarios FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- Grade inicial: o horário único já cadastrado em cada turma
+INSERT INTO public.turma_horarios (school_id, turma_id, dia_semana, horario_inicio, horario_fim)
+SELECT t.school_id, t.id, t.dia_semana, t.horario_inicio::time, t.horario_fim::time
+FROM public.turmas t
+WHERE t.dia_semana IN ('Domingo', 'Segunda-feira', 'Terça-feira', 'Quarta-feira', 'Quinta-feira', 'Sexta-feira', 'Sábado')
+  AND t.horario_fim::time > t.horario_inicio::time
+  AND NOT EXISTS (SELECT 1 FROM public.turma_horarios h WHERE h.turma_id = t.id);
+
+-- Aulas criadas pelo gerador (as avulsas continuam false e nunca são removidas por ele)
+ALTER TABLE public.aulas ADD COLUMN IF NOT EXISTS recorrente BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS aulas_recorrente_unica
+    ON public.aulas(turma_id, data_aula, horario_inicio)
+    WHERE recorrente;
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÃO DE GERAÇÃO
+-- =================================================================
+
+-- Gera (ou simula, com p_simular = true) as aulas da turma entre p_data_inicio
+-- e p_data_fim. Retorna uma linha por aula considerada, com a situação:
+--   criada    - aula nova (ou pendente, na simulação)
+--   existente - já havia aula nesse dia e horário
+--   removida  - aula gerada antes que saiu da grade (ou a remover, na simulação)
+--   mantida   - saiu da grade, mas já tem chamada ou foi realizada
+--   feriado   - data pulada por estar em p_datas_excluidas
+CREATE OR REPLACE FUNCTION public.gerar_aulas_turma(
+    p_turma_id uuid,
+    p_data_inicio DATE,
+    p_data_fim DATE,
+    p_datas_excluidas DATE[] DEFAULT '{}',
+    p_simular BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    aula_id uuid,
+    data_aula DATE,
+    horario_inicio TIME,
+    horario_fim TIME,
+    situacao TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_school_id uuid;
+    v_professor_padrao uuid;
+    v_removidas uuid[] := '{}';
+    r RECORD;
+BEGIN
+    SELECT t.school_id INTO v_school_id FROM public.turmas t WHERE t.id = p_turma_id;
+
+    IF v_school_id IS NULL THEN
+        RAISE EXCEPTION 'Turma não encontrada';
+    END IF;
+
+    IF v_school_id IS DISTINCT FROM public.get_my_school_id() AND COALESCE(auth.role(), '') <> 'service_role' THEN
+        RAISE EXCEPTION 'Sem permissão para gerar aulas desta turma';
+    END IF;
+
+    IF p_data_fim < p_data_inicio THEN
+        RAISE EXCEPTION 'A data final deve ser posterior à inicial';
+    END IF;
+
+    IF p_data_fim - p_data_inicio > 366 THEN
+        RAISE EXCEPTION 'O período de geração deve ter no máximo um ano';
+    END IF;
+
+    -- Horário sem professor definido usa o primeiro professor vinculado à turma
+    SELECT tp.professor_id INTO v_professor_padrao
+    FROM public.turma_professores tp
+    WHERE tp.turma_id = p_turma_id
+    ORDER BY tp.created_at
+    LIMIT 1;
+
+    CREATE TEMP TABLE IF NOT EXISTS _grade_aulas (
+        data_aula DATE,
+        horario_inicio TIME,
+        horario_fim TIME,
+        professor_id uuid,
+        feriado BOOLEAN
+    ) ON COMMIT DROP;
+    TRUNCATE _grade_aulas;
+
+    INSERT INTO _grade_aulas
+    SELECT
+        d::date,
+        h.horario_inicio,
+        h.horario_fim,
+        COALESCE(h.professor_id, v_professor_padrao),
+        d::date = ANY(COALESCE(p_datas_excluidas, '{}'))
+    FROM generate_series(p_data_inicio, p_data_fim, interval '1 day') d
+    JOIN public.turma_horarios h
+      ON h.turma_id = p_turma_id
+     AND h.dia_semana = (ARRAY['Domingo', 'Segunda-feira', 'Terça-feira', 'Quarta-feira', 'Quinta-feira', 'Sexta-feira', 'Sábado'])[EXTRACT(DOW FROM d)::int + 1];
+
+    -- Aulas geradas anteriormente que não pertencem mais à grade (ou caíram em feriado)
+    FOR r IN
+        SELECT
+            a.id,
+            a.data_aula,
+            a.horario_inicio,
+            a.horario_fim,
+            (a.status = 'realizada' OR EXISTS (SELECT 1 FROM public.chamadas c WHERE c.aula_id = a.id)) AS tem_chamada
+        FROM public.aulas a
+        WHERE a.turma_id = p_turma_id
+          AND a.recorrente
+          AND a.data_aula BETWEEN p_data_inicio AND p_data_fim
+          AND NOT EXISTS (
+              SELECT 1 FROM _grade_aulas g
+              WHERE g.data_aula = a.data_aula
+                AND g.horario_inicio = a.horario_inicio::time
+                AND g.horario_fim = a.horario_fim::time
+                AND NOT g.feriado
+          )
+        ORDER BY a.data_aula, a.horario_inicio
+    LOOP
+        aula_id := r.id;
+        data_aula := r.data_aula;
+        horario_inicio := r.horario_inicio::time;
+        horario_fim := r.horario_fim::time;
+
+        IF r.tem_chamada THEN
+            situacao := 'mantida';
+        ELSE
+            IF NOT p_simular THEN
+                DELETE FROM public.aulas WHERE id = r.id;
+            END IF;
+            v_removidas := v_removidas || r.id;
+            situacao := 'removida';
+        END IF;
+
+        RETURN NEXT;
+    END LOOP;
+
+    FOR r IN SELECT * FROM _grade_aulas ORDER BY 1, 2 LOOP
+        data_aula := r.data_aula;
+        horario_inicio := r.horario_inicio;
+        horario_fim := r.horario_fim;
+
+        -- Qualquer aula da turma no mesmo dia e início conta, inclusive as avulsas,
+        -- menos as geradas que o laço anterior removeu (ou removeria, na simulação)
+        SELECT a.id INTO aula_id
+        FROM public.aulas a
+        WHERE a.turma_id = p_turma_id
+          AND a.data_aula = r.data_aula
+          AND a.horario_inicio::time = r.horario_inicio
+          AND (NOT p_simular OR a.id <> ALL(v_removidas))
+        LIMIT 1;
+
+        IF r.feriado THEN
+            -- Aula que permaneceu no feriado (avulsa ou com chamada) não é pulada
+            CONTINUE WHEN aula_id IS NOT NULL;
+            situacao := 'feriado';
+        ELSIF aula_id IS NOT NULL THEN
+            situacao := 'existente';
+        ELSIF p_simular THEN
+            situacao := 'criada';
+        ELSE
+            INSERT INTO public.aulas (school_id, turma_id, professor_id, data_aula, horario_inicio, horario_fim, status, recorrente)
+            VALUES (v_school_id, p_turma_id, r.professor_id, r.data_aula, r.horario_inicio, r.horario_fim, 'agendada', true)
+            RETURNING id INTO aula_id;
+            situacao := 'criada';
+        END IF;
+
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+
+-- =================================================================
+-- PARTE 3: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.turma_horarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Membros podem ver registros de gestão" ON public.turma_horarios FOR SELECT USING (school_id = public.get_my_school_id());
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.turma_horarios FOR ALL USING (school_id = public.get_my_school_id() AND public.get_my_role() IN ('admin', 'diretor', 'secretario'));
@@ -0,0 +1,261 @@
+-- =================================================================
+-- MIGRAÇÃO: Matrículas (aluno x turma)
+-- Data: 2025-07-20
+-- Descrição: Substitui alunos.turma_id por matrículas, permitindo que
+--            um aluno curse várias turmas ao mesmo tempo (ex.: piano e
+--            teoria). Cada matrícula tem início, fim, situação e valor
+--            próprio, e o histórico é preservado. turmas.vagas_ocupadas
+--            passa a ser recalculado pelo banco a partir das matrículas
+--            ativas, e a geração de mensalidades passa a usá-las.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.matriculas (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    aluno_id uuid NOT NULL REFERENCES public.alunos(id) ON DELETE CASCADE,
+    turma_id uuid NOT NULL REFERENCES public.turmas(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'ativa' CHECK (status IN ('ativa', 'trancada', 'cancelada', 'concluida')),
+    data_inicio DATE NOT NULL DEFAULT CURRENT_DATE,
+    data_fim DATE,
+    valor_mensal NUMERIC(10, 2) CHECK (valor_mensal IS NULL OR valor_mensal >= 0), -- NULL = valor da turma
+    observacoes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    CHECK (data_fim IS NULL OR data_fim >= data_inicio)
+);
+
+-- Uma matrícula em andamento (ativa ou trancada) por aluno e turma; o histórico fica livre
+CREATE UNIQUE INDEX IF NOT EXISTS matriculas_em_andamento_unica
+    ON public.matriculas(aluno_id, turma_id)
+    WHERE status IN ('ativa', 'trancada');
+
+CREATE INDEX IF NOT EXISTS matriculas_turma_idx ON public.matriculas(turma_id, status);
+CREATE INDEX IF NOT EXISTS matriculas_aluno_idx ON public.matriculas(aluno_id);
+
+DROP TRIGGER IF EXISTS update_matriculas_updated_at ON public.matriculas;
+CREATE TRIGGER update_matriculas_updated_at BEFORE UPDATE ON public.matriculas FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+
+-- =================================================================
+-- PARTE 2: MIGRAÇÃO DE alunos.turma_id
+-- =================================================================
+
+INSERT INTO public.matriculas (school_id, aluno_id, turma_id, status, data_inicio, data_fim)
+SELECT
+    a.school_id,
+    a.id,
+    a.turma_id,
+    CASE WHEN a.ativo IS DISTINCT FROM false AND a.data_saida IS NULL THEN 'ativa' ELSE 'cancelada' END,
+    COALESCE(a.data_matricula, a.created_at::date, CURRENT_DATE),
+    CASE
+        WHEN a.ativo IS DISTINCT FROM false AND a.data_saida IS NULL THEN NULL
+        ELSE GREATEST(COALESCE(a.data_saida, a.updated_at::date, CURRENT_DATE), COALESCE(a.data_matricula, a.created_at::date, CURRENT_DATE))
+    END
+FROM public.alunos a
+WHERE a.turma_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.matriculas m WHERE m.aluno_id = a.id AND m.turma_id = a.turma_id);
+
+ALTER TABLE public.alunos DROP COLUMN IF EXISTS turma_id;
+
+
+-- =================================================================
+-- PARTE 3: FUNÇÕES E TRIGGERS
+-- =================================================================
+
+-- Encerrar a matrícula registra a data de fim, se não informada
+CREATE OR REPLACE FUNCTION public.matriculas_definir_data_fim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.status IN ('cancelada', 'concluida') AND NEW.data_fim IS NULL THEN
+        NEW.data_fim := GREATEST(CURRENT_DATE, NEW.data_inicio);
+    ELSIF NEW.status IN ('ativa', 'trancada') AND TG_OP = 'UPDATE' AND OLD.status IN ('cancelada', 'concluida') THEN
+        NEW.data_fim := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS matriculas_data_fim ON public.matriculas;
+CREATE TRIGGER matriculas_data_fim BEFORE INSERT OR UPDATE OF status ON public.matriculas FOR EACH ROW EXECUTE PROCEDURE public.matriculas_definir_data_fim();
+
+-- vagas_ocupadas = matrículas ativas da turma
+CREATE OR REPLACE FUNCTION public.atualizar_vagas_ocupadas(p_turma_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.turmas t
+    SET vagas_ocupadas = (SELECT count(*) FROM public.matriculas m WHERE m.turma_id = t.id AND m.status = 'ativa')
+    WHERE t.id = p_turma_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.matriculas_atualizar_vagas()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM public.atualizar_vagas_ocupadas(OLD.turma_id);
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.turma_id IS DISTINCT FROM OLD.turma_id OR NEW.status IS DISTINCT FROM OLD.status) THEN
+        PERFORM public.atualizar_vagas_ocupadas(NEW.turma_id);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS matriculas_vagas ON public.matriculas;
+CREATE TRIGGER matriculas_vagas AFTER INSERT OR UPDATE OR DELETE ON public.matriculas FOR EACH ROW EXECUTE PROCEDURE public.matriculas_atualizar_vagas();
+
+UPDATE public.turmas t
+SET vagas_ocupadas = (SELECT count(*) FROM public.matriculas m WHERE m.turma_id = t.id AND m.status = 'ativa');
+
+-- Mensalidades: uma por matrícula vigente no mês, com o valor da matrícula
+-- (ou o da turma) e pró-rata pelos dias de vigência. Matrículas trancadas não são cobradas.
+CREATE OR REPLACE FUNCTION public.gerar_mensalidades(
+    p_school_id uuid,
+    p_competencia DATE,
+    p_simular BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    aluno_id uuid,
+    aluno_nome TEXT,
+    turma_id uuid,
+    turma_nome TEXT,
+    dias_cobrados INT,
+    valor_bruto NUMERIC,
+    valor_desconto NUMERIC,
+    valor NUMERIC,
+    situacao TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_inicio DATE := date_trunc('month', p_competencia)::date;
+    v_fim DATE := (date_trunc('month', p_competencia) + interval '1 month - 1 day')::date;
+    v_dias_mes INT := EXTRACT(DAY FROM (date_trunc('month', p_competencia) + interval '1 month - 1 day'))::int;
+    v_dia_vencimento INT;
+    v_mes_label TEXT := to_char(p_competencia, 'MM/YYYY');
+    v_aplica_fixo BOOLEAN;
+    r RECORD;
+BEGIN
+    IF p_school_id IS DISTINCT FROM public.get_my_school_id() AND COALESCE(auth.role(), '') <> 'service_role' THEN
+        RAISE EXCEPTION 'Sem permissão para gerar mensalidades desta escola';
+    END IF;
+
+    SELECT COALESCE(cf.dia_vencimento, 10) INTO v_dia_vencimento
+    FROM (SELECT 1) dummy
+    LEFT JOIN public.configuracoes_financeiras cf ON cf.school_id = p_school_id;
+
+    FOR r IN
+        SELECT
+            a.id AS aluno_id,
+            a.nome AS aluno_nome,
+            t.id AS turma_id,
+            t.nome AS turma_nome,
+            COALESCE(m.valor_mensal, t.valor_mensal) AS valor_mensal,
+            GREATEST(m.data_inicio, v_inicio) AS periodo_inicio,
+            LEAST(COALESCE(m.data_fim, v_fim), v_fim) AS periodo_fim,
+            row_number() OVER (PARTITION BY a.id ORDER BY m.data_inicio, m.created_at, m.id) AS ordem
+        FROM public.matriculas m
+        JOIN public.alunos a ON a.id = m.aluno_id
+        JOIN public.turmas t ON t.id = m.turma_id
+        WHERE m.school_id = p_school_id
+          AND m.status IN ('ativa', 'cancelada', 'concluida')
+          AND COALESCE(m.valor_mensal, t.valor_mensal, 0) > 0
+          AND m.data_inicio <= v_fim
+          AND COALESCE(m.data_fim, v_fim) >= v_inicio
+        ORDER BY a.nome, t.nome
+    LOOP
+        aluno_id := r.aluno_id;
+        aluno_nome := r.aluno_nome;
+        turma_id := r.turma_id;
+        turma_nome := r.turma_nome;
+        dias_cobrados := (r.periodo_fim - r.periodo_inicio) + 1;
+        valor_bruto := round(r.valor_mensal * dias_cobrados / v_dias_mes, 2);
+
+        -- O valor fixo do desconto vale uma vez por aluno no mês: entra só na
+        -- primeira matrícula dele e só se nenhuma outra mensalidade do mês já
+        -- foi gerada (ela já levou o desconto)
+        v_aplica_fixo := r.ordem = 1 AND NOT EXISTS (
+            SELECT 1 FROM public.financeiro f
+            WHERE f.aluno_id = r.aluno_id
+              AND f.turma_id IS DISTINCT FROM r.turma_id
+              AND f.competencia = v_inicio
+              AND f.categoria = 'mensalidade'
+        );
+
+        -- Descontos vigentes em qualquer dia do período cobrado
+        SELECT
+            round(
+                valor_bruto * LEAST(COALESCE(SUM(d.percentual), 0), 100) / 100
+                + CASE WHEN v_aplica_fixo THEN COALESCE(SUM(d.valor_fixo), 0) ELSE 0 END,
+                2
+            )
+        INTO valor_desconto
+        FROM public.aluno_descontos d
+        WHERE d.aluno_id = r.aluno_id
+          AND d.vigencia_inicio <= r.periodo_fim
+          AND (d.vigencia_fim IS NULL OR d.vigencia_fim >= r.periodo_inicio);
+
+        valor_desconto := LEAST(valor_desconto, valor_bruto);
+        valor := valor_bruto - valor_desconto;
+
+        IF valor <= 0 THEN
+            situacao := 'isento';
+        ELSIF EXISTS (
+            SELECT 1 FROM public.financeiro f
+            WHERE f.aluno_id = r.aluno_id
+              AND f.turma_id = r.turma_id
+              AND f.competencia = v_inicio
+              AND f.categoria = 'mensalidade'
+        ) THEN
+            situacao := 'existente';
+        ELSIF p_simular THEN
+            situacao := 'pendente';
+        ELSE
+            INSERT INTO public.financeiro (
+                school_id, aluno_id, turma_id, tipo, categoria, descricao, valor,
+                data_vencimento, status, competencia, observacoes
+            )
+            VALUES (
+                p_school_id, r.aluno_id, r.turma_id, 'receita', 'mensalidade',
+                'Mensalidade ' || r.turma_nome || ' - ' || v_mes_label,
+                valor,
+                make_date(EXTRACT(YEAR FROM v_inicio)::int, EXTRACT(MONTH FROM v_inicio)::int, v_dia_vencimento),
+                'pendente',
+                v_inicio,
+                CASE
+                    WHEN dias_cobrados < v_dias_mes OR valor_desconto > 0 THEN
+                        format('Valor cheio %s; %s de %s dias; desconto %s', r.valor_mensal, dias_cobrados, v_dias_mes, valor_desconto)
+                END
+            )
+            ON CONFLICT DO NOTHING;
+
+            situacao := CASE WHEN FOUND THEN 'criada' ELSE 'existente' END;
+        END IF;
+
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+
+-- =================================================================
+-- PARTE 4: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.matriculas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Membros podem ver registros de gestão" ON public.matriculas FOR SELECT USING (school_id = public.get_my_school_id());
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.matriculas FOR ALL USING (school_id = public.get_my_school_id() AND public.get_my_role() IN ('admin', 'diretor', 'secretario'));
@@ -0,0 +1,285 @@
+-- =================================================================
+-- MIGRAÇÃO: Lista de espera e controle de vagas das turmas
+-- Data: 2025-07-21
+-- Descrição: Impede matrículas ativas além de turmas.vagas_total e cria
+--            a lista de espera por turma (alunos ou interessados ainda
+--            sem cadastro). Quando uma vaga é liberada, o próximo da fila
+--            recebe uma oferta com prazo; ofertas vencidas passam a vez.
+--            vagas_ocupadas continua sendo mantido pelo banco.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.lista_espera (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    turma_id uuid NOT NULL REFERENCES public.turmas(id) ON DELETE CASCADE,
+    aluno_id uuid REFERENCES public.alunos(id) ON DELETE CASCADE, -- NULL = interessado sem cadastro
+    nome TEXT NOT NULL,
+    telefone TEXT,
+    email TEXT,
+    observacoes TEXT,
+    status TEXT NOT NULL DEFAULT 'aguardando' CHECK (status IN ('aguardando', 'ofertada', 'matriculado', 'recusada', 'expirada', 'cancelada')),
+    oferta_em TIMESTAMP WITH TIME ZONE,
+    oferta_expira_em TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    CHECK (status <> 'ofertada' OR oferta_expira_em IS NOT NULL)
+);
+
+-- Um aluno aparece uma única vez na fila de cada turma
+CREATE UNIQUE INDEX IF NOT EXISTS lista_espera_aluno_unico
+    ON public.lista_espera(turma_id, aluno_id)
+    WHERE aluno_id IS NOT NULL AND status IN ('aguardando', 'ofertada');
+
+CREATE INDEX IF NOT EXISTS lista_espera_fila_idx ON public.lista_espera(turma_id, status, created_at);
+
+DROP TRIGGER IF EXISTS update_lista_espera_updated_at ON public.lista_espera;
+CREATE TRIGGER update_lista_espera_updated_at BEFORE UPDATE ON public.lista_espera FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÕES
+-- =================================================================
+
+-- Vagas livres = total - matrículas ativas - ofertas ainda no prazo.
+-- p_aluno_id desconsidera a oferta do próprio aluno (ele está ocupando a vaga reservada).
+CREATE OR REPLACE FUNCTION public.vagas_livres_turma(p_turma_id uuid, p_aluno_id uuid DEFAULT NULL)
+RETURNS INT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT t.vagas_total
+        - (SELECT count(*) FROM public.matriculas m WHERE m.turma_id = t.id AND m.status = 'ativa')::int
+        - (
+            SELECT count(*) FROM public.lista_espera e
+            WHERE e.turma_id = t.id
+              AND e.status = 'ofertada'
+              AND e.oferta_expira_em > now()
+              AND e.aluno_id IS DISTINCT FROM p_aluno_id
+          )::int
+    FROM public.turmas t
+    WHERE t.id = p_turma_id;
+$$;
+
+-- Expira ofertas vencidas e oferta as vagas livres aos próximos da fila.
+-- Sem p_turma_id, processa todas as turmas da escola do usuário (ou de todas as
+-- escolas, na execução agendada). Retorna a quantidade de novas ofertas.
+CREATE OR REPLACE FUNCTION public.processar_lista_espera(
+    p_turma_id uuid DEFAULT NULL,
+    p_prazo_horas INT DEFAULT 48
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_servico BOOLEAN := COALESCE(auth.role(), '') = 'service_role';
+    v_school_id uuid := public.get_my_school_id();
+    v_ofertas INT := 0;
+    v_livres INT;
+    v_count INT;
+    t RECORD;
+BEGIN
+    IF p_turma_id IS NOT NULL AND NOT v_servico AND NOT EXISTS (
+        SELECT 1 FROM public.turmas WHERE id = p_turma_id AND school_id = v_school_id
+    ) THEN
+        RAISE EXCEPTION 'Turma não encontrada';
+    END IF;
+
+    UPDATE public.lista_espera e
+    SET status = 'expirada'
+    WHERE e.status = 'ofertada'
+      AND e.oferta_expira_em <= now()
+      AND (p_turma_id IS NULL OR e.turma_id = p_turma_id)
+      AND (v_servico OR e.school_id = v_school_id);
+
+    FOR t IN
+        SELECT tu.id
+        FROM public.turmas tu
+        WHERE (p_turma_id IS NULL OR tu.id = p_turma_id)
+          AND (v_servico OR tu.school_id = v_school_id)
+          AND tu.ativa IS DISTINCT FROM false
+          AND EXISTS (SELECT 1 FROM public.lista_espera e WHERE e.turma_id = tu.id AND e.status = 'aguardando')
+        FOR UPDATE
+    LOOP
+        v_livres := public.vagas_livres_turma(t.id);
+        CONTINUE WHEN COALESCE(v_livres, 0) <= 0;
+
+        UPDATE public.lista_espera e
+        SET status = 'ofertada',
+            oferta_em = now(),
+            oferta_expira_em = now() + make_interval(hours => p_prazo_horas)
+        WHERE e.id IN (
+            SELECT id FROM public.lista_espera
+            WHERE turma_id = t.id AND status = 'aguardando'
+            ORDER BY created_at, id
+            LIMIT v_livres
+        );
+
+        GET DIAGNOSTICS v_count = ROW_COUNT;
+        v_ofertas := v_ofertas + v_count;
+    END LOOP;
+
+    RETURN v_ofertas;
+END;
+$$;
+
+-- Matricula quem está na fila; interessados sem cadastro viram alunos.
+-- A vaga só é garantida a quem tem oferta no prazo; da fila, só se houver vaga livre.
+CREATE OR REPLACE FUNCTION public.matricular_da_lista_espera(
+    p_entrada_id uuid,
+    p_data_inicio DATE DEFAULT CURRENT_DATE
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_entrada public.lista_espera%ROWTYPE;
+    v_aluno_id uuid;
+    v_matricula_id uuid;
+BEGIN
+    SELECT * INTO v_entrada FROM public.lista_espera WHERE id = p_entrada_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Registro da lista de espera não encontrado';
+    END IF;
+
+    IF v_entrada.status NOT IN ('aguardando', 'ofertada') THEN
+        RAISE EXCEPTION 'Este registro da lista de espera já foi encerrado';
+    END IF;
+
+    v_aluno_id := v_entrada.aluno_id;
+
+    IF v_aluno_id IS NULL THEN
+        INSERT INTO public.alunos (school_id, nome, telefone, email, data_matricula)
+        VALUES (v_entrada.school_id, v_entrada.nome, v_entrada.telefone, v_entrada.email, p_data_inicio)
+        RETURNING id INTO v_aluno_id;
+
+        UPDATE public.lista_espera SET aluno_id = v_aluno_id WHERE id = p_entrada_id;
+    END IF;
+
+    INSERT INTO public.matriculas (school_id, aluno_id, turma_id, data_inicio)
+    VALUES (v_entrada.school_id, v_aluno_id, v_entrada.turma_id, p_data_inicio)
+    RETURNING id INTO v_matricula_id;
+
+    RETURN v_matricula_id;
+END;
+$$;
+
+
+-- =================================================================
+-- PARTE 3: TRIGGERS
+-- =================================================================
+
+-- Bloqueia matrícula ativa sem vaga. A turma é travada para serializar matrículas concorrentes.
+CREATE OR REPLACE FUNCTION public.matriculas_verificar_vagas()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status <> 'ativa' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.status = 'ativa' AND OLD.turma_id = NEW.turma_id THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM 1 FROM public.turmas WHERE id = NEW.turma_id FOR UPDATE;
+
+    IF public.vagas_livres_turma(NEW.turma_id, NEW.aluno_id) <= 0 THEN
+        RAISE EXCEPTION 'Turma sem vagas disponíveis'
+            USING ERRCODE = 'check_violation', HINT = 'Adicione o aluno à lista de espera da turma.';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS matriculas_vagas_disponiveis ON public.matriculas;
+CREATE TRIGGER matriculas_vagas_disponiveis BEFORE INSERT OR UPDATE OF status, turma_id ON public.matriculas FOR EACH ROW EXECUTE PROCEDURE public.matriculas_verificar_vagas();
+
+-- Matrícula ativa encerra a entrada do aluno na fila; vaga liberada gera oferta ao próximo
+CREATE OR REPLACE FUNCTION public.matriculas_lista_espera()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status = 'ativa' THEN
+        UPDATE public.lista_espera
+        SET status = 'matriculado'
+        WHERE turma_id = NEW.turma_id
+          AND aluno_id = NEW.aluno_id
+          AND status IN ('aguardando', 'ofertada');
+    END IF;
+
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status = 'ativa'
+       AND (TG_OP = 'DELETE' OR NEW.status <> 'ativa' OR NEW.turma_id <> OLD.turma_id) THEN
+        PERFORM public.processar_lista_espera(OLD.turma_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS matriculas_lista_espera ON public.matriculas;
+CREATE TRIGGER matriculas_lista_espera AFTER INSERT OR UPDATE OR DELETE ON public.matriculas FOR EACH ROW EXECUTE PROCEDURE public.matriculas_lista_espera();
+
+-- Oferta recusada ou retirada passa a vez ao próximo da fila
+CREATE OR REPLACE FUNCTION public.lista_espera_oferta_encerrada()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.processar_lista_espera(NEW.turma_id);
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lista_espera_oferta_encerrada ON public.lista_espera;
+CREATE TRIGGER lista_espera_oferta_encerrada AFTER UPDATE OF status ON public.lista_espera
+    FOR EACH ROW
+    WHEN (OLD.status = 'ofertada' AND NEW.status IN ('recusada', 'cancelada'))
+    EXECUTE PROCEDURE public.lista_espera_oferta_encerrada();
+
+-- Aumentar vagas_total oferta as novas vagas
+CREATE OR REPLACE FUNCTION public.turmas_vagas_alteradas()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.processar_lista_espera(NEW.id);
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS turmas_vagas_alteradas ON public.turmas;
+CREATE TRIGGER turmas_vagas_alteradas AFTER UPDATE OF vagas_total, ativa ON public.turmas
+    FOR EACH ROW
+    WHEN (NEW.vagas_total > OLD.vagas_total OR (NEW.ativa AND OLD.ativa IS DISTINCT FROM true))
+    EXECUTE PROCEDURE public.turmas_vagas_alteradas();
+
+
+-- =================================================================
+-- PARTE 4: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.lista_espera ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Membros podem ver registros de gestão" ON public.lista_espera FOR SELECT USING (school_id = public.get_my_school_id());
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.lista_espera FOR ALL USING (school_id = public.get_my_school_id() AND public.get_my_role() IN ('admin', 'diretor', 'secretario'));
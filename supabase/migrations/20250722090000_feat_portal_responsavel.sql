@@ -0,0 +1,245 @@
+-- =================================================================
+-- MIGRAÇÃO: Portal do responsável
+-- Data: 2025-07-22
+-- Descrição: Contas de responsáveis vinculadas a um ou mais alunos.
+--            Responsáveis enxergam apenas os dados dos próprios filhos
+--            (matrículas, horários, frequência e cobranças em aberto) e
+--            conversam só com os professores das turmas deles. O acesso
+--            é garantido pelas políticas de RLS: as políticas de
+--            "membros" passam a excluir o papel 'responsavel'.
+--            Usuários convidados (invite-user) recebem perfil e papel
+--            a partir dos metadados do convite.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.aluno_responsaveis (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    aluno_id uuid NOT NULL REFERENCES public.alunos(id) ON DELETE CASCADE,
+    responsavel_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    parentesco TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (aluno_id, responsavel_id)
+);
+
+CREATE INDEX IF NOT EXISTS aluno_responsaveis_responsavel_idx ON public.aluno_responsaveis(responsavel_id);
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÕES AUXILIARES DE ACESSO
+-- =================================================================
+-- SECURITY DEFINER para que as políticas possam consultá-las sem recursão de RLS.
+
+CREATE OR REPLACE FUNCTION public.is_responsavel() RETURNS boolean LANGUAGE sql STABLE AS $$
+  select coalesce(public.get_my_role() = 'responsavel', false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.alunos_do_responsavel()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT aluno_id FROM public.aluno_responsaveis WHERE responsavel_id = auth.uid();
+$$;
+
+-- Turmas com matrícula em andamento de algum filho
+CREATE OR REPLACE FUNCTION public.turmas_do_responsavel()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT DISTINCT m.turma_id
+    FROM public.matriculas m
+    JOIN public.aluno_responsaveis ar ON ar.aluno_id = m.aluno_id
+    WHERE ar.responsavel_id = auth.uid()
+      AND m.status IN ('ativa', 'trancada');
+$$;
+
+-- Perfis (profiles.id) dos professores dessas turmas: os únicos com quem o responsável pode conversar
+CREATE OR REPLACE FUNCTION public.professores_do_responsavel()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT DISTINCT p.user_id
+    FROM public.turma_professores tp
+    JOIN public.professores p ON p.id = tp.professor_id
+    WHERE tp.turma_id IN (SELECT public.turmas_do_responsavel())
+      AND p.user_id IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.participa_da_conversa(p_conversation_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.conversation_participants
+        WHERE conversation_id = p_conversation_id AND profile_id = auth.uid()
+    );
+$$;
+
+-- Abre (ou reaproveita) a conversa individual do responsável com um professor dos filhos
+CREATE OR REPLACE FUNCTION public.iniciar_conversa_responsavel(p_professor_profile_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_conversation_id uuid;
+BEGIN
+    IF NOT public.is_responsavel() THEN
+        RAISE EXCEPTION 'Disponível apenas para responsáveis';
+    END IF;
+
+    IF p_professor_profile_id NOT IN (SELECT public.professores_do_responsavel()) THEN
+        RAISE EXCEPTION 'Este professor não leciona para seus filhos';
+    END IF;
+
+    SELECT c.id INTO v_conversation_id
+    FROM public.conversations c
+    JOIN public.conversation_participants eu ON eu.conversation_id = c.id AND eu.profile_id = auth.uid()
+    JOIN public.conversation_participants prof ON prof.conversation_id = c.id AND prof.profile_id = p_professor_profile_id
+    WHERE c.is_group_chat IS NOT TRUE
+    LIMIT 1;
+
+    IF v_conversation_id IS NULL THEN
+        INSERT INTO public.conversations (school_id, is_group_chat)
+        VALUES (public.get_my_school_id(), false)
+        RETURNING id INTO v_conversation_id;
+
+        INSERT INTO public.conversation_participants (conversation_id, profile_id)
+        VALUES (v_conversation_id, auth.uid()), (v_conversation_id, p_professor_profile_id);
+    END IF;
+
+    RETURN v_conversation_id;
+END;
+$$;
+
+-- Convidados via invite-user (auth.users.invited_at preenchido pelo serviço) entram
+-- na escola e no papel do convite; cadastros públicos continuam criando escola e diretor.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_school_id uuid;
+    v_tipo_usuario TEXT := 'diretor';
+    v_user_name TEXT := COALESCE(NEW.raw_user_meta_data->>'nome_completo', NEW.email);
+BEGIN
+    IF NEW.invited_at IS NOT NULL AND NEW.raw_user_meta_data->>'school_id' IS NOT NULL THEN
+        v_school_id := (NEW.raw_user_meta_data->>'school_id')::uuid;
+        v_tipo_usuario := NEW.raw_user_meta_data->>'tipo_usuario';
+
+        IF v_tipo_usuario NOT IN ('professor', 'aluno', 'secretario', 'responsavel') THEN
+            RAISE EXCEPTION 'Tipo de usuário inválido para convite: %', v_tipo_usuario;
+        END IF;
+
+        INSERT INTO public.profiles (id, school_id, tipo_usuario, nome_completo)
+        VALUES (NEW.id, v_school_id, v_tipo_usuario, v_user_name)
+        ON CONFLICT (id) DO NOTHING;
+    ELSE
+        IF NEW.raw_user_meta_data->>'nome_escola' IS NULL THEN
+            RAISE EXCEPTION 'O campo "nome_escola" é obrigatório para o cadastro de um novo diretor.';
+        END IF;
+
+        INSERT INTO public.schools (name, owner_id)
+        VALUES (NEW.raw_user_meta_data->>'nome_escola', NEW.id)
+        RETURNING id INTO v_school_id;
+
+        INSERT INTO public.profiles (id, school_id, tipo_usuario, nome_completo)
+        VALUES (NEW.id, v_school_id, 'diretor', v_user_name);
+    END IF;
+
+    UPDATE auth.users
+    SET raw_app_meta_data = raw_app_meta_data || jsonb_build_object('school_id', v_school_id, 'tipo_usuario', v_tipo_usuario)
+    WHERE id = NEW.id;
+
+    RETURN NEW;
+END;
+$$;
+
+
+-- =================================================================
+-- PARTE 3: POLÍTICAS DE MEMBROS SEM O PAPEL 'responsavel'
+-- =================================================================
+
+DROP POLICY IF EXISTS "Membros podem ver registros de gestão" ON public.alunos;
+CREATE POLICY "Membros podem ver registros de gestão" ON public.alunos FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel());
+
+DROP POLICY IF EXISTS "Membros podem ver registros de gestão" ON public.financeiro;
+CREATE POLICY "Membros podem ver registros de gestão" ON public.financeiro FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel());
+
+DROP POLICY IF EXISTS "Membros podem ver registros de gestão" ON public.matriculas;
+CREATE POLICY "Membros podem ver registros de gestão" ON public.matriculas FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel());
+
+DROP POLICY IF EXISTS "Membros podem ver registros de gestão" ON public.lista_espera;
+CREATE POLICY "Membros podem ver registros de gestão" ON public.lista_espera FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel());
+
+DROP POLICY IF EXISTS "Membros da escola podem gerenciar chamadas e presenças" ON public.chamadas;
+CREATE POLICY "Membros da escola podem gerenciar chamadas e presenças" ON public.chamadas FOR ALL USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel());
+
+DROP POLICY IF EXISTS "Membros da escola podem gerenciar chamadas e presenças" ON public.presencas;
+CREATE POLICY "Membros da escola podem gerenciar chamadas e presenças" ON public.presencas FOR ALL USING (EXISTS (SELECT 1 FROM public.chamadas c WHERE c.id = presencas.chamada_id AND c.school_id = public.get_my_school_id()) AND NOT public.is_responsavel());
+
+DROP POLICY IF EXISTS "Usuários podem ver perfis da sua escola" ON public.profiles;
+CREATE POLICY "Usuários podem ver perfis da sua escola" ON public.profiles FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel());
+
+DROP POLICY IF EXISTS "Membros podem gerenciar conversas da escola" ON public.conversations;
+CREATE POLICY "Membros podem gerenciar conversas da escola" ON public.conversations FOR ALL USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel());
+
+DROP POLICY IF EXISTS "Membros podem gerenciar participantes de suas conversas" ON public.conversation_participants;
+CREATE POLICY "Membros podem gerenciar participantes de suas conversas" ON public.conversation_participants FOR ALL USING (EXISTS (SELECT 1 FROM public.conversations c WHERE c.id = conversation_participants.conversation_id AND c.school_id = public.get_my_school_id()) AND NOT public.is_responsavel());
+
+DROP POLICY IF EXISTS "Membros podem gerenciar mensagens de suas conversas" ON public.messages;
+CREATE POLICY "Membros podem gerenciar mensagens de suas conversas" ON public.messages FOR ALL USING (EXISTS (SELECT 1 FROM public.conversations c WHERE c.id = messages.conversation_id AND c.school_id = public.get_my_school_id()) AND NOT public.is_responsavel());
+
+
+-- =================================================================
+-- PARTE 4: POLÍTICAS DO RESPONSÁVEL
+-- =================================================================
+
+ALTER TABLE public.aluno_responsaveis ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Membros podem ver registros de gestão" ON public.aluno_responsaveis FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel());
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.aluno_responsaveis FOR ALL USING (school_id = public.get_my_school_id() AND public.get_my_role() IN ('admin', 'diretor', 'secretario'));
+CREATE POLICY "Responsáveis podem ver seus vínculos" ON public.aluno_responsaveis FOR SELECT USING (responsavel_id = auth.uid());
+
+CREATE POLICY "Responsáveis podem ver seus filhos" ON public.alunos FOR SELECT USING (public.is_responsavel() AND id IN (SELECT public.alunos_do_responsavel()));
+CREATE POLICY "Responsáveis podem ver matrículas dos filhos" ON public.matriculas FOR SELECT USING (public.is_responsavel() AND aluno_id IN (SELECT public.alunos_do_responsavel()));
+CREATE POLICY "Responsáveis podem ver cobranças dos filhos" ON public.financeiro FOR SELECT USING (public.is_responsavel() AND tipo = 'receita' AND aluno_id IN (SELECT public.alunos_do_responsavel()));
+CREATE POLICY "Responsáveis podem ver chamadas das turmas dos filhos" ON public.chamadas FOR SELECT USING (public.is_responsavel() AND turma_id IN (SELECT public.turmas_do_responsavel()));
+CREATE POLICY "Responsáveis podem ver presenças dos filhos" ON public.presencas FOR SELECT USING (public.is_responsavel() AND aluno_id IN (SELECT public.alunos_do_responsavel()));
+
+-- Perfis: o próprio e os da equipe da escola (nomes nas conversas)
+CREATE POLICY "Responsáveis podem ver perfis da equipe" ON public.profiles FOR SELECT USING (
+    public.is_responsavel()
+    AND school_id = public.get_my_school_id()
+    AND (id = auth.uid() OR tipo_usuario IN ('admin', 'diretor', 'secretario', 'professor'))
+);
+
+-- Conversas: apenas as que participa; novas conversas só via iniciar_conversa_responsavel
+CREATE POLICY "Responsáveis podem ver suas conversas" ON public.conversations FOR SELECT USING (public.is_responsavel() AND public.participa_da_conversa(id));
+CREATE POLICY "Responsáveis podem ver participantes de suas conversas" ON public.conversation_participants FOR SELECT USING (
+    public.is_responsavel() AND public.participa_da_conversa(conversation_id)
+);
+CREATE POLICY "Responsáveis podem ver mensagens de suas conversas" ON public.messages FOR SELECT USING (
+    public.is_responsavel() AND public.participa_da_conversa(conversation_id)
+);
+CREATE POLICY "Responsáveis podem enviar mensagens em suas conversas" ON public.messages FOR INSERT WITH CHECK (
+    public.is_responsavel() AND sender_profile_id = auth.uid() AND public.participa_da_conversa(conversation_id)
+);
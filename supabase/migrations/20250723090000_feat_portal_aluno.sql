@@ -0,0 +1,127 @@
+-- =================================================================
+-- MIGRAÇÃO: Portal do aluno
+-- Data: 2025-07-23
+-- Descrição: Conta do aluno vinculada ao cadastro (alunos.user_id) e
+--            materiais de aula por turma. O aluno enxerga apenas o
+--            próprio cadastro, matrículas, frequência e cobranças, e os
+--            materiais das turmas em que está matriculado. Assim como no
+--            portal do responsável, as políticas de "membros" passam a
+--            excluir o papel 'aluno'.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS
+-- =================================================================
+
+-- Já prevista na criação de alunos; garantida aqui para bancos anteriores
+ALTER TABLE public.alunos ADD COLUMN IF NOT EXISTS user_id uuid UNIQUE REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS public.materiais_turma (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    turma_id uuid NOT NULL REFERENCES public.turmas(id) ON DELETE CASCADE,
+    titulo TEXT NOT NULL,
+    descricao TEXT,
+    url TEXT NOT NULL,
+    created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS materiais_turma_turma_idx ON public.materiais_turma(turma_id);
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÕES AUXILIARES DE ACESSO
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION public.is_aluno() RETURNS boolean LANGUAGE sql STABLE AS $$
+  select coalesce(public.get_my_role() = 'aluno', false);
+$$;
+
+-- Cadastro (alunos.id) do aluno logado
+CREATE OR REPLACE FUNCTION public.meu_aluno_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT id FROM public.alunos WHERE user_id = auth.uid();
+$$;
+
+-- Turmas com matrícula em andamento do aluno logado
+CREATE OR REPLACE FUNCTION public.turmas_do_aluno()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT DISTINCT turma_id
+    FROM public.matriculas
+    WHERE aluno_id = public.meu_aluno_id()
+      AND status IN ('ativa', 'trancada');
+$$;
+
+-- Turmas em que o professor logado leciona
+CREATE OR REPLACE FUNCTION public.turmas_do_professor()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT tp.turma_id
+    FROM public.turma_professores tp
+    JOIN public.professores p ON p.id = tp.professor_id
+    WHERE p.user_id = auth.uid();
+$$;
+
+
+-- =================================================================
+-- PARTE 3: POLÍTICAS DE MEMBROS SEM O PAPEL 'aluno'
+-- =================================================================
+
+DROP POLICY IF EXISTS "Membros podem ver registros de gestão" ON public.alunos;
+CREATE POLICY "Membros podem ver registros de gestão" ON public.alunos FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel() AND NOT public.is_aluno());
+
+DROP POLICY IF EXISTS "Membros podem ver registros de gestão" ON public.financeiro;
+CREATE POLICY "Membros podem ver registros de gestão" ON public.financeiro FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel() AND NOT public.is_aluno());
+
+DROP POLICY IF EXISTS "Membros podem ver registros de gestão" ON public.matriculas;
+CREATE POLICY "Membros podem ver registros de gestão" ON public.matriculas FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel() AND NOT public.is_aluno());
+
+DROP POLICY IF EXISTS "Membros podem ver registros de gestão" ON public.lista_espera;
+CREATE POLICY "Membros podem ver registros de gestão" ON public.lista_espera FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel() AND NOT public.is_aluno());
+
+DROP POLICY IF EXISTS "Membros podem ver registros de gestão" ON public.aluno_responsaveis;
+CREATE POLICY "Membros podem ver registros de gestão" ON public.aluno_responsaveis FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel() AND NOT public.is_aluno());
+
+DROP POLICY IF EXISTS "Membros podem ver registros de gestão" ON public.configuracoes_financeiras;
+CREATE POLICY "Membros podem ver registros de gestão" ON public.configuracoes_financeiras FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel() AND NOT public.is_aluno());
+
+DROP POLICY IF EXISTS "Membros da escola podem gerenciar chamadas e presenças" ON public.chamadas;
+CREATE POLICY "Membros da escola podem gerenciar chamadas e presenças" ON public.chamadas FOR ALL USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel() AND NOT public.is_aluno());
+
+DROP POLICY IF EXISTS "Membros da escola podem gerenciar chamadas e presenças" ON public.presencas;
+CREATE POLICY "Membros da escola podem gerenciar chamadas e presenças" ON public.presencas FOR ALL USING (EXISTS (SELECT 1 FROM public.chamadas c WHERE c.id = presencas.chamada_id AND c.school_id = public.get_my_school_id()) AND NOT public.is_responsavel() AND NOT public.is_aluno());
+
+
+-- =================================================================
+-- PARTE 4: POLÍTICAS DO ALUNO E DOS MATERIAIS
+-- =================================================================
+
+CREATE POLICY "Alunos podem ver o próprio cadastro" ON public.alunos FOR SELECT USING (public.is_aluno() AND user_id = auth.uid());
+CREATE POLICY "Alunos podem ver as próprias matrículas" ON public.matriculas FOR SELECT USING (public.is_aluno() AND aluno_id = public.meu_aluno_id());
+CREATE POLICY "Alunos podem ver as próprias cobranças" ON public.financeiro FOR SELECT USING (public.is_aluno() AND tipo = 'receita' AND aluno_id = public.meu_aluno_id());
+CREATE POLICY "Alunos podem ver chamadas das suas turmas" ON public.chamadas FOR SELECT USING (public.is_aluno() AND turma_id IN (SELECT public.turmas_do_aluno()));
+CREATE POLICY "Alunos podem ver as próprias presenças" ON public.presencas FOR SELECT USING (public.is_aluno() AND aluno_id = public.meu_aluno_id());
+
+ALTER TABLE public.materiais_turma ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Membros podem ver registros de gestão" ON public.materiais_turma FOR SELECT USING (school_id = public.get_my_school_id() AND NOT public.is_responsavel() AND NOT public.is_aluno());
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.materiais_turma FOR ALL USING (school_id = public.get_my_school_id() AND public.get_my_role() IN ('admin', 'diretor', 'secretario'));
+CREATE POLICY "Professores podem gerenciar materiais das suas turmas" ON public.materiais_turma FOR ALL USING (
+    school_id = public.get_my_school_id() AND turma_id IN (SELECT public.turmas_do_professor())
+);
+CREATE POLICY "Alunos podem ver materiais das suas turmas" ON public.materiais_turma FOR SELECT USING (public.is_aluno() AND turma_id IN (SELECT public.turmas_do_aluno()));
@@ -0,0 +1,64 @@
+-- =================================================================
+-- MIGRAÇÃO: Área do professor
+-- Data: 2025-07-24
+-- Descrição: Registro do conteúdo ministrado em cada aula. O professor
+--            não gerencia aulas (datas e horários seguem com a
+--            secretaria), então o registro é feito por uma função que
+--            altera apenas conteúdo e observações das aulas dele.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: COLUNAS
+-- =================================================================
+
+ALTER TABLE public.aulas ADD COLUMN IF NOT EXISTS conteudo TEXT;
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÕES
+-- =================================================================
+
+-- Cadastro (professores.id) do professor logado
+CREATE OR REPLACE FUNCTION public.meu_professor_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT id FROM public.professores WHERE user_id = auth.uid() LIMIT 1;
+$$;
+
+-- Registra conteúdo e observações de uma aula do professor (ou de uma turma em que leciona)
+CREATE OR REPLACE FUNCTION public.registrar_conteudo_aula(
+    p_aula_id uuid,
+    p_conteudo TEXT,
+    p_observacoes TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_aula public.aulas%ROWTYPE;
+BEGIN
+    SELECT * INTO v_aula FROM public.aulas WHERE id = p_aula_id;
+
+    IF NOT FOUND OR v_aula.school_id <> public.get_my_school_id() THEN
+        RAISE EXCEPTION 'Aula não encontrada';
+    END IF;
+
+    IF public.get_my_role() NOT IN ('admin', 'diretor', 'secretario')
+       AND v_aula.professor_id IS DISTINCT FROM public.meu_professor_id()
+       AND v_aula.turma_id NOT IN (SELECT public.turmas_do_professor()) THEN
+        RAISE EXCEPTION 'Sem permissão para registrar esta aula';
+    END IF;
+
+    UPDATE public.aulas
+    SET conteudo = NULLIF(trim(p_conteudo), ''),
+        observacoes = NULLIF(trim(p_observacoes), ''),
+        updated_at = now()
+    WHERE id = p_aula_id;
+END;
+$$;
@@ -0,0 +1,319 @@
+-- =================================================================
+-- MIGRAÇÃO: Papéis personalizados por escola
+-- Data: 2025-07-25
+-- Descrição: O que cada usuário pode fazer deixa de depender do nome do
+--            papel. Cada papel é uma lista de capacidades (as mesmas de
+--            src/utils/permissoes.ts); os seis papéis padrão são globais e
+--            cada escola pode criar os seus (ex.: "Coordenador pedagógico",
+--            que edita turmas mas não vê o financeiro). profiles.tipo_usuario
+--            continua indicando o tipo de conta (equipe, professor, aluno,
+--            responsável) e o portal usado; profiles.papel_id, quando
+--            preenchido, substitui as capacidades do papel padrão.
+--            As capacidades chegam às políticas pelo JWT
+--            (app_metadata.capacidades), preenchido pelo hook
+--            custom_access_token_hook junto com school_id e tipo_usuario.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.papeis (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- NULL = papel padrão, disponível para todas as escolas
+    school_id uuid REFERENCES public.schools(id) ON DELETE CASCADE,
+    codigo TEXT NOT NULL,
+    nome TEXT NOT NULL,
+    descricao TEXT,
+    capacidades TEXT[] NOT NULL DEFAULT '{}' CHECK (capacidades <@ ARRAY[
+        'dashboard.ver', 'area_professor.ver', 'portal_aluno.ver', 'portal_responsavel.ver',
+        'turmas.ver', 'turmas.gerenciar', 'cursos.gerenciar', 'alunos.ver', 'alunos.gerenciar',
+        'professores.ver', 'professores.gerenciar', 'materiais.gerenciar',
+        'financeiro.ver', 'financeiro.gerenciar', 'folha.gerenciar', 'folha.demonstrativo',
+        'relatorios.ver', 'comunicacao.usar', 'perfil.editar', 'escola.configurar',
+        'usuarios.convidar', 'papeis.gerenciar'
+    ]::text[]),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS papeis_escola_codigo_idx
+    ON public.papeis (COALESCE(school_id, '00000000-0000-0000-0000-000000000000'::uuid), codigo);
+
+CREATE TRIGGER update_papeis_updated_at BEFORE UPDATE ON public.papeis FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS papel_id uuid REFERENCES public.papeis(id) ON DELETE SET NULL;
+
+-- Papéis padrão: espelham PERMISSOES em src/utils/permissoes.ts
+INSERT INTO public.papeis (school_id, codigo, nome, capacidades) VALUES
+    (NULL, 'admin', 'Administrador', ARRAY['dashboard.ver', 'turmas.ver', 'turmas.gerenciar', 'alunos.ver', 'alunos.gerenciar', 'professores.ver', 'professores.gerenciar', 'materiais.gerenciar', 'financeiro.ver', 'financeiro.gerenciar', 'folha.gerenciar', 'folha.demonstrativo', 'comunicacao.usar', 'perfil.editar', 'cursos.gerenciar', 'relatorios.ver', 'escola.configurar', 'usuarios.convidar', 'papeis.gerenciar']),
+    (NULL, 'diretor', 'Diretor', ARRAY['dashboard.ver', 'turmas.ver', 'turmas.gerenciar', 'alunos.ver', 'alunos.gerenciar', 'professores.ver', 'professores.gerenciar', 'materiais.gerenciar', 'financeiro.ver', 'financeiro.gerenciar', 'folha.gerenciar', 'folha.demonstrativo', 'comunicacao.usar', 'perfil.editar', 'cursos.gerenciar', 'relatorios.ver', 'escola.configurar', 'usuarios.convidar', 'papeis.gerenciar']),
+    (NULL, 'secretario', 'Secretário', ARRAY['dashboard.ver', 'turmas.ver', 'turmas.gerenciar', 'alunos.ver', 'alunos.gerenciar', 'professores.ver', 'professores.gerenciar', 'materiais.gerenciar', 'financeiro.ver', 'financeiro.gerenciar', 'folha.gerenciar', 'folha.demonstrativo', 'comunicacao.usar', 'perfil.editar']),
+    (NULL, 'professor', 'Professor', ARRAY['area_professor.ver', 'materiais.gerenciar', 'folha.demonstrativo', 'comunicacao.usar', 'perfil.editar']),
+    (NULL, 'aluno', 'Aluno', ARRAY['portal_aluno.ver', 'comunicacao.usar', 'perfil.editar']),
+    (NULL, 'responsavel', 'Responsável', ARRAY['portal_responsavel.ver', 'comunicacao.usar', 'perfil.editar'])
+ON CONFLICT DO NOTHING;
+
+
+-- =================================================================
+-- PARTE 2: CAPACIDADES NO JWT
+-- =================================================================
+
+-- Capacidades efetivas de um usuário: papel da escola ou papel padrão do tipo de conta
+CREATE OR REPLACE FUNCTION public.capacidades_do_usuario(p_user_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(personalizado.capacidades, padrao.capacidades, '{}')
+    FROM public.profiles p
+    LEFT JOIN public.papeis personalizado ON personalizado.id = p.papel_id
+    LEFT JOIN public.papeis padrao ON padrao.school_id IS NULL AND padrao.codigo = p.tipo_usuario
+    WHERE p.id = p_user_id;
+$$;
+
+-- Hook de token do Supabase Auth (ver [auth.hook.custom_access_token] em config.toml).
+-- Mudanças de papel valem a partir da próxima renovação do token.
+CREATE OR REPLACE FUNCTION public.custom_access_token_hook(event jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_perfil RECORD;
+    v_claims jsonb := event -> 'claims';
+BEGIN
+    SELECT school_id, tipo_usuario INTO v_perfil
+    FROM public.profiles
+    WHERE id = (event ->> 'user_id')::uuid;
+
+    IF FOUND THEN
+        v_claims := jsonb_set(
+            v_claims,
+            '{app_metadata}',
+            COALESCE(v_claims -> 'app_metadata', '{}'::jsonb) || jsonb_build_object(
+                'school_id', v_perfil.school_id,
+                'tipo_usuario', v_perfil.tipo_usuario,
+                'capacidades', to_jsonb(public.capacidades_do_usuario((event ->> 'user_id')::uuid))
+            )
+        );
+    END IF;
+
+    RETURN jsonb_set(event, '{claims}', v_claims);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.custom_access_token_hook(jsonb) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.custom_access_token_hook(jsonb) FROM authenticated, anon, public;
+
+-- Capacidades do usuário logado. Tokens emitidos antes do hook não trazem a
+-- lista: nesse caso vale o papel padrão do tipo de conta.
+CREATE OR REPLACE FUNCTION public.get_my_capacidades()
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (SELECT array_agg(c) FROM jsonb_array_elements_text(
+            current_setting('request.jwt.claims', true)::jsonb -> 'app_metadata' -> 'capacidades'
+        ) AS c),
+        (SELECT capacidades FROM public.papeis WHERE school_id IS NULL AND codigo = public.get_my_role()),
+        '{}'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.tem_capacidade(p_capacidade text) RETURNS boolean LANGUAGE sql STABLE AS $$
+  select p_capacidade = ANY(public.get_my_capacidades());
+$$;
+
+-- Agora que o JWT é montado a partir de profiles, editar o próprio perfil não pode
+-- elevar acesso: tipo de conta e papel só mudam por quem gerencia papéis (ou pelo
+-- service role), e a escola nunca muda pelo cliente, o que levaria as capacidades
+-- de quem gerencia papéis para outra escola.
+CREATE OR REPLACE FUNCTION public.proteger_papel_do_perfil()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL AND NEW.school_id IS DISTINCT FROM OLD.school_id THEN
+        RAISE EXCEPTION 'A escola do usuário não pode ser alterada';
+    END IF;
+
+    IF auth.uid() IS NOT NULL
+       AND (NEW.tipo_usuario, NEW.papel_id) IS DISTINCT FROM (OLD.tipo_usuario, OLD.papel_id)
+       AND NOT public.tem_capacidade('papeis.gerenciar') THEN
+        RAISE EXCEPTION 'Sem permissão para alterar o papel do usuário';
+    END IF;
+
+    IF NEW.papel_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.papeis
+        WHERE id = NEW.papel_id AND (school_id IS NULL OR school_id = NEW.school_id)
+    ) THEN
+        RAISE EXCEPTION 'Papel não pertence à escola do usuário';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS proteger_papel_do_perfil ON public.profiles;
+CREATE TRIGGER proteger_papel_do_perfil BEFORE UPDATE ON public.profiles FOR EACH ROW EXECUTE PROCEDURE public.proteger_papel_do_perfil();
+
+-- Registro de conteúdo: quem gerencia turmas ou o professor da aula
+CREATE OR REPLACE FUNCTION public.registrar_conteudo_aula(
+    p_aula_id uuid,
+    p_conteudo TEXT,
+    p_observacoes TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_aula public.aulas%ROWTYPE;
+BEGIN
+    SELECT * INTO v_aula FROM public.aulas WHERE id = p_aula_id;
+
+    IF NOT FOUND OR v_aula.school_id <> public.get_my_school_id() THEN
+        RAISE EXCEPTION 'Aula não encontrada';
+    END IF;
+
+    IF NOT public.tem_capacidade('turmas.gerenciar')
+       AND v_aula.professor_id IS DISTINCT FROM public.meu_professor_id()
+       AND v_aula.turma_id NOT IN (SELECT public.turmas_do_professor()) THEN
+        RAISE EXCEPTION 'Sem permissão para registrar esta aula';
+    END IF;
+
+    UPDATE public.aulas
+    SET conteudo = NULLIF(trim(p_conteudo), ''),
+        observacoes = NULLIF(trim(p_observacoes), ''),
+        updated_at = now()
+    WHERE id = p_aula_id;
+END;
+$$;
+
+
+-- =================================================================
+-- PARTE 3: POLÍTICAS POR CAPACIDADE
+-- =================================================================
+
+ALTER TABLE public.papeis ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Membros podem ver os papéis da escola" ON public.papeis FOR SELECT USING (school_id IS NULL OR school_id = public.get_my_school_id());
+CREATE POLICY "Gestores podem gerenciar os papéis da escola" ON public.papeis FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('papeis.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar perfis da escola" ON public.profiles;
+CREATE POLICY "Admins podem gerenciar perfis da escola" ON public.profiles FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('usuarios.convidar'));
+
+-- Escola, tipo de conta e papel gravados no perfil do usuário logado. Lido na
+-- política de atualização, enxerga o perfil de antes da alteração em curso.
+CREATE OR REPLACE FUNCTION public.acesso_do_meu_perfil(p_school_id uuid, p_tipo_usuario text, p_papel_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid()
+          AND (school_id, tipo_usuario, papel_id) IS NOT DISTINCT FROM (p_school_id, p_tipo_usuario, p_papel_id)
+    );
+$$;
+
+-- O próprio usuário edita seus dados, mas não a escola, o tipo de conta ou o papel
+DROP POLICY IF EXISTS "Usuários podem atualizar seu próprio perfil" ON public.profiles;
+CREATE POLICY "Usuários podem atualizar seu próprio perfil" ON public.profiles FOR UPDATE
+    USING (id = auth.uid())
+    WITH CHECK (id = auth.uid() AND public.acesso_do_meu_perfil(school_id, tipo_usuario, papel_id));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.cursos;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.cursos FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('cursos.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.turmas;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.turmas FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('turmas.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.turma_horarios;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.turma_horarios FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('turmas.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.aulas;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.aulas FOR ALL USING (EXISTS (SELECT 1 FROM public.turmas t WHERE t.id = aulas.turma_id AND t.school_id = public.get_my_school_id() AND public.tem_capacidade('turmas.gerenciar')));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.materiais_turma;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.materiais_turma FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('turmas.gerenciar'));
+
+DROP POLICY IF EXISTS "Professores podem gerenciar materiais das suas turmas" ON public.materiais_turma;
+CREATE POLICY "Professores podem gerenciar materiais das suas turmas" ON public.materiais_turma FOR ALL USING (
+    school_id = public.get_my_school_id() AND public.tem_capacidade('materiais.gerenciar') AND turma_id IN (SELECT public.turmas_do_professor())
+);
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.professores;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.professores FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('professores.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.alunos;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.alunos FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('alunos.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.matriculas;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.matriculas FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('alunos.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.lista_espera;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.lista_espera FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('alunos.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.aluno_responsaveis;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.aluno_responsaveis FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('alunos.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.aluno_descontos;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.aluno_descontos FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('financeiro.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.financeiro;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.financeiro FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('financeiro.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.configuracoes_financeiras;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.configuracoes_financeiras FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('financeiro.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.integrations;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.integrations FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('financeiro.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.integration_sync_logs;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.integration_sync_logs FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.integrations i
+        WHERE i.id = integration_id
+          AND i.school_id = public.get_my_school_id()
+          AND public.tem_capacidade('financeiro.gerenciar')
+    )
+);
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.folhas_pagamento;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.folhas_pagamento FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('folha.gerenciar'));
+
+DROP POLICY IF EXISTS "Admins podem gerenciar registros de gestão" ON public.folha_pagamento_itens;
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.folha_pagamento_itens FOR ALL USING (school_id = public.get_my_school_id() AND public.tem_capacidade('folha.gerenciar'));
+
+-- Leitura do financeiro exige a capacidade (portais continuam com as políticas próprias)
+DROP POLICY IF EXISTS "Membros podem ver registros de gestão" ON public.financeiro;
+CREATE POLICY "Membros podem ver registros de gestão" ON public.financeiro FOR SELECT USING (school_id = public.get_my_school_id() AND public.tem_capacidade('financeiro.ver'));
+
+DROP POLICY IF EXISTS "Membros podem ver registros de gestão" ON public.configuracoes_financeiras;
+CREATE POLICY "Membros podem ver registros de gestão" ON public.configuracoes_financeiras FOR SELECT USING (school_id = public.get_my_school_id() AND public.tem_capacidade('financeiro.ver'));
+
+
+-- =================================================================
+-- PARTE 4: STORAGE
+-- =================================================================
+
+DROP POLICY IF EXISTS "school_logos_write_policy" ON storage.objects;
+CREATE POLICY "school_logos_write_policy" ON storage.objects FOR ALL TO authenticated USING (
+    bucket_id = 'escolas-logos'
+    AND (storage.foldername(name))[1] = public.get_my_school_id()::text
+    AND public.tem_capacidade('escola.configurar')
+);
@@ -0,0 +1,206 @@
+-- =================================================================
+-- MIGRAÇÃO: Convites por token
+-- Data: 2025-07-26
+-- Descrição: Ninguém mais recebe senha definida pela escola. O invite-user
+--            registra um convite (e-mail, tipo de conta, papel e vínculos)
+--            com token e validade; o convidado abre o link do e-mail, define
+--            a própria senha na página /convite/<token> e só então
+--            aceitar_convite cria o perfil e liga a conta ao cadastro de
+--            professor, aluno ou responsável. Convites pendentes podem ser
+--            reenviados (novo token e nova validade) ou revogados.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.convites (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    nome_completo TEXT NOT NULL,
+    tipo_usuario TEXT NOT NULL CHECK (tipo_usuario IN ('professor', 'secretario', 'aluno', 'responsavel')),
+    papel_id uuid REFERENCES public.papeis(id) ON DELETE SET NULL,
+    -- Vínculos aplicados no aceite
+    professor_id uuid REFERENCES public.professores(id) ON DELETE SET NULL,
+    aluno_id uuid REFERENCES public.alunos(id) ON DELETE CASCADE,
+    parentesco TEXT,
+    token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+    status TEXT NOT NULL DEFAULT 'pendente' CHECK (status IN ('pendente', 'aceito', 'revogado')),
+    expira_em TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+    enviado_em TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    envios INTEGER NOT NULL DEFAULT 1,
+    -- Conta criada pelo Supabase Auth ao enviar o e-mail (ainda sem perfil)
+    user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    convidado_por uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    aceito_em TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    CHECK (tipo_usuario NOT IN ('aluno', 'responsavel') OR aluno_id IS NOT NULL)
+);
+
+-- Um convite pendente por e-mail em cada escola
+CREATE UNIQUE INDEX IF NOT EXISTS convites_pendente_email_idx
+    ON public.convites (school_id, lower(email))
+    WHERE status = 'pendente';
+
+CREATE TRIGGER update_convites_updated_at BEFORE UPDATE ON public.convites FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÕES
+-- =================================================================
+
+-- Convidados não ganham perfil na criação da conta: o perfil nasce no aceite.
+-- Cadastros públicos continuam criando escola e diretor.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_school_id uuid;
+    v_user_name TEXT := COALESCE(NEW.raw_user_meta_data->>'nome_completo', NEW.email);
+BEGIN
+    IF NEW.invited_at IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.raw_user_meta_data->>'nome_escola' IS NULL THEN
+        RAISE EXCEPTION 'O campo "nome_escola" é obrigatório para o cadastro de um novo diretor.';
+    END IF;
+
+    INSERT INTO public.schools (name, owner_id)
+    VALUES (NEW.raw_user_meta_data->>'nome_escola', NEW.id)
+    RETURNING id INTO v_school_id;
+
+    INSERT INTO public.profiles (id, school_id, tipo_usuario, nome_completo)
+    VALUES (NEW.id, v_school_id, 'diretor', v_user_name);
+
+    UPDATE auth.users
+    SET raw_app_meta_data = raw_app_meta_data || jsonb_build_object('school_id', v_school_id, 'tipo_usuario', 'diretor')
+    WHERE id = NEW.id;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Dados públicos do convite para a página de aceite (sem login)
+CREATE OR REPLACE FUNCTION public.consultar_convite(p_token uuid)
+RETURNS TABLE (email TEXT, nome_completo TEXT, escola TEXT, tipo_usuario TEXT, status TEXT, expira_em TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        c.email,
+        c.nome_completo,
+        s.name,
+        c.tipo_usuario,
+        CASE WHEN c.status = 'pendente' AND c.expira_em < now() THEN 'expirado' ELSE c.status END,
+        c.expira_em
+    FROM public.convites c
+    JOIN public.schools s ON s.id = c.school_id
+    WHERE c.token = p_token;
+$$;
+
+-- Aceite pelo convidado já autenticado pelo link do e-mail (a senha é
+-- definida antes, via supabase.auth.updateUser). Cria o perfil e os vínculos.
+CREATE OR REPLACE FUNCTION public.aceitar_convite(p_token uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_convite public.convites%ROWTYPE;
+BEGIN
+    SELECT * INTO v_convite FROM public.convites WHERE token = p_token FOR UPDATE;
+
+    IF NOT FOUND OR v_convite.status = 'revogado' THEN
+        RAISE EXCEPTION 'Convite não encontrado';
+    END IF;
+
+    IF v_convite.status = 'aceito' THEN
+        RAISE EXCEPTION 'Este convite já foi aceito';
+    END IF;
+
+    IF v_convite.expira_em < now() THEN
+        RAISE EXCEPTION 'Convite expirado: peça um novo à escola';
+    END IF;
+
+    IF lower(v_convite.email) <> lower(auth.jwt() ->> 'email') THEN
+        RAISE EXCEPTION 'Este convite foi enviado para outro e-mail';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid()) THEN
+        RAISE EXCEPTION 'Esta conta já está ligada a uma escola';
+    END IF;
+
+    INSERT INTO public.profiles (id, school_id, tipo_usuario, nome_completo, papel_id)
+    VALUES (auth.uid(), v_convite.school_id, v_convite.tipo_usuario, v_convite.nome_completo, v_convite.papel_id);
+
+    IF v_convite.tipo_usuario = 'professor' THEN
+        IF v_convite.professor_id IS NOT NULL THEN
+            UPDATE public.professores SET user_id = auth.uid()
+            WHERE id = v_convite.professor_id AND user_id IS NULL;
+        ELSE
+            INSERT INTO public.professores (school_id, user_id, nome, email, ativo)
+            VALUES (v_convite.school_id, auth.uid(), v_convite.nome_completo, v_convite.email, true);
+        END IF;
+    ELSIF v_convite.tipo_usuario = 'aluno' THEN
+        UPDATE public.alunos SET user_id = auth.uid()
+        WHERE id = v_convite.aluno_id AND user_id IS NULL;
+    ELSIF v_convite.tipo_usuario = 'responsavel' THEN
+        INSERT INTO public.aluno_responsaveis (school_id, aluno_id, responsavel_id, parentesco)
+        VALUES (v_convite.school_id, v_convite.aluno_id, auth.uid(), v_convite.parentesco)
+        ON CONFLICT (aluno_id, responsavel_id) DO NOTHING;
+    END IF;
+
+    UPDATE auth.users
+    SET raw_app_meta_data = raw_app_meta_data || jsonb_build_object('school_id', v_convite.school_id, 'tipo_usuario', v_convite.tipo_usuario)
+    WHERE id = auth.uid();
+
+    UPDATE public.convites
+    SET status = 'aceito', aceito_em = now(), user_id = auth.uid()
+    WHERE id = v_convite.id;
+END;
+$$;
+
+-- Conta do Supabase Auth por e-mail, para o invite-user decidir entre convite e novo link
+CREATE OR REPLACE FUNCTION public.conta_por_email(p_email TEXT)
+RETURNS TABLE (id uuid, confirmada boolean, tem_perfil boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT u.id, u.email_confirmed_at IS NOT NULL, EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = u.id)
+    FROM auth.users u
+    WHERE lower(u.email) = lower(p_email);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.consultar_convite(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.aceitar_convite(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.aceitar_convite(uuid) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.conta_por_email(TEXT) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.conta_por_email(TEXT) TO service_role;
+
+
+-- =================================================================
+-- PARTE 3: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.convites ENABLE ROW LEVEL SECURITY;
+
+-- Criação e reenvio passam pelo invite-user; pela API, a equipe consulta e revoga
+CREATE POLICY "Gestores podem ver convites da escola" ON public.convites FOR SELECT USING (
+    school_id = public.get_my_school_id()
+    AND (public.tem_capacidade('usuarios.convidar') OR (tipo_usuario IN ('aluno', 'responsavel') AND public.tem_capacidade('alunos.gerenciar')))
+);
+CREATE POLICY "Gestores podem revogar convites da escola" ON public.convites FOR UPDATE USING (
+    school_id = public.get_my_school_id()
+    AND (public.tem_capacidade('usuarios.convidar') OR (tipo_usuario IN ('aluno', 'responsavel') AND public.tem_capacidade('alunos.gerenciar')))
+) WITH CHECK (status = 'revogado');
@@ -0,0 +1,444 @@
+-- =================================================================
+-- MIGRAÇÃO: Usuários em várias escolas
+-- Data: 2025-07-27
+-- Descrição: Professores que atuam em escolas parceiras passam a ter um
+--            vínculo por escola (membros_escola), cada um com seu tipo de
+--            conta e papel. profiles.school_id, tipo_usuario e papel_id
+--            continuam valendo como a escola ativa (e o JWT segue montado a
+--            partir deles); trocar_escola muda a escola ativa e o cliente
+--            renova o token, sem novo login. As funções auxiliares de acesso
+--            que partiam de auth.uid() agora se limitam à escola ativa.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.membros_escola (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    tipo_usuario TEXT NOT NULL CHECK (tipo_usuario IN ('admin', 'diretor', 'secretario', 'professor', 'aluno', 'responsavel')),
+    papel_id uuid REFERENCES public.papeis(id) ON DELETE SET NULL,
+    ativo BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (user_id, school_id)
+);
+
+CREATE INDEX IF NOT EXISTS membros_escola_school_idx ON public.membros_escola(school_id);
+
+CREATE TRIGGER update_membros_escola_updated_at BEFORE UPDATE ON public.membros_escola FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- Cada perfil existente vira o vínculo com a escola atual
+INSERT INTO public.membros_escola (user_id, school_id, tipo_usuario, papel_id)
+SELECT id, school_id, tipo_usuario, papel_id
+FROM public.profiles
+WHERE school_id IS NOT NULL
+ON CONFLICT (user_id, school_id) DO NOTHING;
+
+
+-- =================================================================
+-- PARTE 2: SINCRONIA ENTRE PERFIL E VÍNCULOS
+-- =================================================================
+-- O perfil espelha o vínculo da escola ativa. Perfis criados (cadastro de
+-- diretor, aceite de convite) ganham o vínculo; papel alterado no vínculo da
+-- escola ativa chega ao perfil, e vice-versa. Trocar de escola não altera vínculos.
+
+CREATE OR REPLACE FUNCTION public.sincronizar_vinculo_do_perfil()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.school_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO public.membros_escola (user_id, school_id, tipo_usuario, papel_id)
+        VALUES (NEW.id, NEW.school_id, NEW.tipo_usuario, NEW.papel_id)
+        ON CONFLICT (user_id, school_id) DO UPDATE
+        SET tipo_usuario = EXCLUDED.tipo_usuario, papel_id = EXCLUDED.papel_id, ativo = true;
+    ELSIF NEW.school_id IS NOT DISTINCT FROM OLD.school_id THEN
+        UPDATE public.membros_escola
+        SET tipo_usuario = NEW.tipo_usuario, papel_id = NEW.papel_id
+        WHERE user_id = NEW.id AND school_id = NEW.school_id
+          AND (tipo_usuario, papel_id) IS DISTINCT FROM (NEW.tipo_usuario, NEW.papel_id);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sincronizar_vinculo_do_perfil ON public.profiles;
+CREATE TRIGGER sincronizar_vinculo_do_perfil
+    AFTER INSERT OR UPDATE OF school_id, tipo_usuario, papel_id ON public.profiles
+    FOR EACH ROW EXECUTE PROCEDURE public.sincronizar_vinculo_do_perfil();
+
+CREATE OR REPLACE FUNCTION public.sincronizar_perfil_do_vinculo()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.profiles
+    SET tipo_usuario = NEW.tipo_usuario, papel_id = NEW.papel_id
+    WHERE id = NEW.user_id AND school_id = NEW.school_id
+      AND (tipo_usuario, papel_id) IS DISTINCT FROM (NEW.tipo_usuario, NEW.papel_id);
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sincronizar_perfil_do_vinculo ON public.membros_escola;
+CREATE TRIGGER sincronizar_perfil_do_vinculo
+    AFTER UPDATE OF tipo_usuario, papel_id ON public.membros_escola
+    FOR EACH ROW EXECUTE PROCEDURE public.sincronizar_perfil_do_vinculo();
+
+-- Vínculo só muda por quem gerencia papéis na escola, e o papel tem que ser dela
+CREATE OR REPLACE FUNCTION public.proteger_vinculo()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL
+       AND (NEW.user_id, NEW.school_id) IS DISTINCT FROM (OLD.user_id, OLD.school_id) THEN
+        RAISE EXCEPTION 'O vínculo não pode mudar de usuário ou de escola';
+    END IF;
+
+    IF NEW.papel_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.papeis
+        WHERE id = NEW.papel_id AND (school_id IS NULL OR school_id = NEW.school_id)
+    ) THEN
+        RAISE EXCEPTION 'Papel não pertence à escola do usuário';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS proteger_vinculo ON public.membros_escola;
+CREATE TRIGGER proteger_vinculo BEFORE UPDATE ON public.membros_escola FOR EACH ROW EXECUTE PROCEDURE public.proteger_vinculo();
+
+-- Perfil: a escola ativa só muda por trocar_escola e aceitar_convite, que
+-- marcam a transação (app.troca_escola), e sempre para o tipo e o papel do
+-- vínculo com a nova escola. As capacidades do JWT são da escola anterior e
+-- não valem para a nova. Na mesma escola, quem não gerencia papéis só assume
+-- o tipo e o papel do próprio vínculo.
+CREATE OR REPLACE FUNCTION public.proteger_papel_do_perfil()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_vinculo public.membros_escola%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL
+       OR (NEW.tipo_usuario, NEW.school_id, NEW.papel_id) IS NOT DISTINCT FROM (OLD.tipo_usuario, OLD.school_id, OLD.papel_id) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_vinculo
+    FROM public.membros_escola
+    WHERE user_id = NEW.id AND school_id = NEW.school_id AND ativo;
+
+    IF NEW.school_id IS DISTINCT FROM OLD.school_id THEN
+        IF COALESCE(current_setting('app.troca_escola', true), '') <> 'sim' THEN
+            RAISE EXCEPTION 'A escola ativa só muda pela troca de escola';
+        END IF;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Usuário não é membro desta escola';
+        END IF;
+
+        IF (v_vinculo.tipo_usuario, v_vinculo.papel_id) IS DISTINCT FROM (NEW.tipo_usuario, NEW.papel_id) THEN
+            RAISE EXCEPTION 'O papel na nova escola tem que ser o do vínculo';
+        END IF;
+    ELSIF (v_vinculo.tipo_usuario, v_vinculo.papel_id) IS DISTINCT FROM (NEW.tipo_usuario, NEW.papel_id)
+          AND NOT public.tem_capacidade('papeis.gerenciar') THEN
+        RAISE EXCEPTION 'Sem permissão para alterar o papel do usuário';
+    END IF;
+
+    IF NEW.papel_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.papeis
+        WHERE id = NEW.papel_id AND (school_id IS NULL OR school_id = NEW.school_id)
+    ) THEN
+        RAISE EXCEPTION 'Papel não pertence à escola do usuário';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+
+-- =================================================================
+-- PARTE 3: ESCOLAS DO USUÁRIO E TROCA DE ESCOLA
+-- =================================================================
+
+-- Escolas em que o usuário logado tem vínculo ativo (o seletor do menu)
+CREATE OR REPLACE FUNCTION public.minhas_escolas()
+RETURNS TABLE (school_id uuid, nome TEXT, logo_url TEXT, tipo_usuario TEXT, papel TEXT, atual boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        s.id,
+        s.name,
+        s.logo_url,
+        m.tipo_usuario,
+        COALESCE(personalizado.nome, padrao.nome),
+        s.id = p.school_id
+    FROM public.membros_escola m
+    JOIN public.schools s ON s.id = m.school_id
+    JOIN public.profiles p ON p.id = m.user_id
+    LEFT JOIN public.papeis personalizado ON personalizado.id = m.papel_id
+    LEFT JOIN public.papeis padrao ON padrao.school_id IS NULL AND padrao.codigo = m.tipo_usuario
+    WHERE m.user_id = auth.uid() AND m.ativo
+    ORDER BY s.name;
+$$;
+
+-- Torna ativa outra escola do usuário. O cliente deve renovar a sessão em
+-- seguida: o novo JWT (custom_access_token_hook) traz escola e capacidades.
+CREATE OR REPLACE FUNCTION public.trocar_escola(p_school_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_vinculo public.membros_escola%ROWTYPE;
+BEGIN
+    SELECT * INTO v_vinculo
+    FROM public.membros_escola
+    WHERE user_id = auth.uid() AND school_id = p_school_id AND ativo;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Você não faz parte desta escola';
+    END IF;
+
+    PERFORM set_config('app.troca_escola', 'sim', true);
+
+    UPDATE public.profiles
+    SET school_id = v_vinculo.school_id, tipo_usuario = v_vinculo.tipo_usuario, papel_id = v_vinculo.papel_id
+    WHERE id = auth.uid();
+
+    UPDATE auth.users
+    SET raw_app_meta_data = raw_app_meta_data || jsonb_build_object('school_id', v_vinculo.school_id, 'tipo_usuario', v_vinculo.tipo_usuario)
+    WHERE id = auth.uid();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.minhas_escolas() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.trocar_escola(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.trocar_escola(uuid) FROM anon;
+
+-- Membros da escola ativa (para a equipe ver perfis de quem está ativo em outra escola)
+CREATE OR REPLACE FUNCTION public.membros_da_minha_escola()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT user_id FROM public.membros_escola WHERE school_id = public.get_my_school_id() AND ativo;
+$$;
+
+
+-- =================================================================
+-- PARTE 4: FUNÇÕES AUXILIARES DE ACESSO LIMITADAS À ESCOLA ATIVA
+-- =================================================================
+-- Um mesmo usuário pode ter cadastro de professor, aluno ou responsável em
+-- mais de uma escola; só contam os da escola ativa.
+
+CREATE OR REPLACE FUNCTION public.meu_aluno_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT id FROM public.alunos WHERE user_id = auth.uid() AND school_id = public.get_my_school_id();
+$$;
+
+CREATE OR REPLACE FUNCTION public.meu_professor_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT id FROM public.professores WHERE user_id = auth.uid() AND school_id = public.get_my_school_id() LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.turmas_do_professor()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT tp.turma_id
+    FROM public.turma_professores tp
+    JOIN public.professores p ON p.id = tp.professor_id
+    WHERE p.user_id = auth.uid() AND p.school_id = public.get_my_school_id();
+$$;
+
+CREATE OR REPLACE FUNCTION public.alunos_do_responsavel()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT aluno_id FROM public.aluno_responsaveis
+    WHERE responsavel_id = auth.uid() AND school_id = public.get_my_school_id();
+$$;
+
+CREATE OR REPLACE FUNCTION public.turmas_do_responsavel()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT DISTINCT m.turma_id
+    FROM public.matriculas m
+    JOIN public.aluno_responsaveis ar ON ar.aluno_id = m.aluno_id
+    WHERE ar.responsavel_id = auth.uid()
+      AND ar.school_id = public.get_my_school_id()
+      AND m.status IN ('ativa', 'trancada');
+$$;
+
+
+-- =================================================================
+-- PARTE 5: CONVITES PARA QUEM JÁ TEM CONTA
+-- =================================================================
+
+-- Quem já é membro de outra escola pode ser convidado; só o vínculo com a
+-- própria escola impede um novo convite
+DROP FUNCTION IF EXISTS public.conta_por_email(TEXT);
+CREATE OR REPLACE FUNCTION public.conta_por_email(p_email TEXT, p_school_id uuid)
+RETURNS TABLE (id uuid, confirmada boolean, tem_perfil boolean, membro_da_escola boolean)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        u.id,
+        u.email_confirmed_at IS NOT NULL,
+        EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = u.id),
+        EXISTS (SELECT 1 FROM public.membros_escola m WHERE m.user_id = u.id AND m.school_id = p_school_id AND m.ativo)
+    FROM auth.users u
+    WHERE lower(u.email) = lower(p_email);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.conta_por_email(TEXT, uuid) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.conta_por_email(TEXT, uuid) TO service_role;
+
+-- Aceite: cria o perfil (primeira escola) ou só o vínculo com a nova escola,
+-- que passa a ser a escola ativa
+CREATE OR REPLACE FUNCTION public.aceitar_convite(p_token uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_convite public.convites%ROWTYPE;
+BEGIN
+    SELECT * INTO v_convite FROM public.convites WHERE token = p_token FOR UPDATE;
+
+    IF NOT FOUND OR v_convite.status = 'revogado' THEN
+        RAISE EXCEPTION 'Convite não encontrado';
+    END IF;
+
+    IF v_convite.status = 'aceito' THEN
+        RAISE EXCEPTION 'Este convite já foi aceito';
+    END IF;
+
+    IF v_convite.expira_em < now() THEN
+        RAISE EXCEPTION 'Convite expirado: peça um novo à escola';
+    END IF;
+
+    IF lower(v_convite.email) <> lower(auth.jwt() ->> 'email') THEN
+        RAISE EXCEPTION 'Este convite foi enviado para outro e-mail';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.membros_escola WHERE user_id = auth.uid() AND school_id = v_convite.school_id AND ativo) THEN
+        RAISE EXCEPTION 'Você já faz parte desta escola';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid()) THEN
+        INSERT INTO public.membros_escola (user_id, school_id, tipo_usuario, papel_id)
+        VALUES (auth.uid(), v_convite.school_id, v_convite.tipo_usuario, v_convite.papel_id)
+        ON CONFLICT (user_id, school_id) DO UPDATE
+        SET tipo_usuario = EXCLUDED.tipo_usuario, papel_id = EXCLUDED.papel_id, ativo = true;
+
+        PERFORM set_config('app.troca_escola', 'sim', true);
+
+        UPDATE public.profiles
+        SET school_id = v_convite.school_id, tipo_usuario = v_convite.tipo_usuario, papel_id = v_convite.papel_id
+        WHERE id = auth.uid();
+    ELSE
+        INSERT INTO public.profiles (id, school_id, tipo_usuario, nome_completo, papel_id)
+        VALUES (auth.uid(), v_convite.school_id, v_convite.tipo_usuario, v_convite.nome_completo, v_convite.papel_id);
+    END IF;
+
+    IF v_convite.tipo_usuario = 'professor' THEN
+        IF v_convite.professor_id IS NOT NULL THEN
+            UPDATE public.professores SET user_id = auth.uid()
+            WHERE id = v_convite.professor_id AND user_id IS NULL;
+        ELSE
+            INSERT INTO public.professores (school_id, user_id, nome, email, ativo)
+            VALUES (v_convite.school_id, auth.uid(), v_convite.nome_completo, v_convite.email, true);
+        END IF;
+    ELSIF v_convite.tipo_usuario = 'aluno' THEN
+        UPDATE public.alunos SET user_id = auth.uid()
+        WHERE id = v_convite.aluno_id AND user_id IS NULL;
+    ELSIF v_convite.tipo_usuario = 'responsavel' THEN
+        INSERT INTO public.aluno_responsaveis (school_id, aluno_id, responsavel_id, parentesco)
+        VALUES (v_convite.school_id, v_convite.aluno_id, auth.uid(), v_convite.parentesco)
+        ON CONFLICT (aluno_id, responsavel_id) DO NOTHING;
+    END IF;
+
+    UPDATE auth.users
+    SET raw_app_meta_data = raw_app_meta_data || jsonb_build_object('school_id', v_convite.school_id, 'tipo_usuario', v_convite.tipo_usuario)
+    WHERE id = auth.uid();
+
+    UPDATE public.convites
+    SET status = 'aceito', aceito_em = now(), user_id = auth.uid()
+    WHERE id = v_convite.id;
+END;
+$$;
+
+
+-- =================================================================
+-- PARTE 6: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.membros_escola ENABLE ROW LEVEL SECURITY;
+
+-- Vínculos: o usuário vê os seus; a escola vê e ajusta os da equipe.
+-- Novos vínculos só nascem pelo aceite de convite ou pelo cadastro.
+CREATE POLICY "Usuários podem ver seus vínculos" ON public.membros_escola FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Gestores podem ver vínculos da escola" ON public.membros_escola FOR SELECT USING (
+    school_id = public.get_my_school_id()
+    AND (public.tem_capacidade('usuarios.convidar') OR public.tem_capacidade('papeis.gerenciar'))
+);
+CREATE POLICY "Gestores podem alterar vínculos da escola" ON public.membros_escola FOR UPDATE USING (
+    school_id = public.get_my_school_id() AND public.tem_capacidade('papeis.gerenciar')
+);
+
+-- Perfis de quem é membro da escola, mesmo que esteja com outra escola ativa
+CREATE POLICY "Usuários podem ver perfis dos membros da escola" ON public.profiles FOR SELECT USING (
+    NOT public.is_responsavel() AND id IN (SELECT public.membros_da_minha_escola())
+);
@@ -0,0 +1,210 @@
+-- =================================================================
+-- MIGRAÇÃO: Calendário letivo
+-- Data: 2025-07-28
+-- Descrição: Calendário por escola com feriados, recessos e eventos
+--            (recitais, apresentações). Os feriados nacionais são
+--            carregados automaticamente para o ano corrente e o seguinte,
+--            e a escola pode editá-los ou removê-los (ex.: dar aula no
+--            Carnaval). dias_sem_aula expande o calendário em datas sem
+--            aula, usadas pelo gerador de aulas e pelos resumos de frequência.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.calendario_eventos (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    titulo TEXT NOT NULL,
+    descricao TEXT,
+    tipo TEXT NOT NULL CHECK (tipo IN ('feriado', 'recesso', 'evento')),
+    data_inicio DATE NOT NULL,
+    data_fim DATE NOT NULL,
+    -- Feriados e recessos suspendem as aulas; eventos, só se marcado
+    sem_aula BOOLEAN NOT NULL DEFAULT true,
+    -- Carregado de feriados_nacionais (não é recriado se a escola editar a data)
+    nacional BOOLEAN NOT NULL DEFAULT false,
+    created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    CHECK (data_fim >= data_inicio)
+);
+
+CREATE INDEX IF NOT EXISTS calendario_eventos_periodo_idx ON public.calendario_eventos(school_id, data_inicio, data_fim);
+
+-- Um feriado nacional por nome e ano em cada escola
+CREATE UNIQUE INDEX IF NOT EXISTS calendario_eventos_nacional_idx
+    ON public.calendario_eventos (school_id, titulo, EXTRACT(YEAR FROM data_inicio))
+    WHERE nacional;
+
+CREATE TRIGGER update_calendario_eventos_updated_at BEFORE UPDATE ON public.calendario_eventos FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+
+-- =================================================================
+-- PARTE 2: FERIADOS NACIONAIS
+-- =================================================================
+
+-- Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher), como calcularPascoa
+-- em src/utils/aulasRecorrentesUtils.ts
+CREATE OR REPLACE FUNCTION public.calcular_pascoa(p_ano INTEGER)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    a INTEGER := p_ano % 19;
+    b INTEGER := p_ano / 100;
+    c INTEGER := p_ano % 100;
+    d INTEGER := b / 4;
+    e INTEGER := b % 4;
+    f INTEGER := (b + 8) / 25;
+    g INTEGER := (b - f + 1) / 3;
+    h INTEGER := (19 * a + b - d - g + 15) % 30;
+    i INTEGER := c / 4;
+    k INTEGER := c % 4;
+    l INTEGER := (32 + 2 * e + 2 * i - h - k) % 7;
+    m INTEGER := (a + 11 * h + 22 * l) / 451;
+BEGIN
+    RETURN make_date(p_ano, (h + l - 7 * m + 114) / 31, ((h + l - 7 * m + 114) % 31) + 1);
+END;
+$$;
+
+-- Mesma lista de getFeriadosNacionais (fixos, Carnaval, Sexta-feira Santa e Corpus Christi)
+CREATE OR REPLACE FUNCTION public.feriados_nacionais(p_ano INTEGER)
+RETURNS TABLE (data DATE, nome TEXT)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT make_date(p_ano, f.mes, f.dia), f.nome
+    FROM (VALUES
+        (1, 1, 'Confraternização Universal'),
+        (4, 21, 'Tiradentes'),
+        (5, 1, 'Dia do Trabalho'),
+        (9, 7, 'Independência do Brasil'),
+        (10, 12, 'Nossa Senhora Aparecida'),
+        (11, 2, 'Finados'),
+        (11, 15, 'Proclamação da República'),
+        (11, 20, 'Dia Nacional de Zumbi e da Consciência Negra'),
+        (12, 25, 'Natal')
+    ) AS f(mes, dia, nome)
+    UNION ALL
+    SELECT public.calcular_pascoa(p_ano) + m.dias, m.nome
+    FROM (VALUES
+        (-48, 'Carnaval (segunda-feira)'),
+        (-47, 'Carnaval (terça-feira)'),
+        (-2, 'Sexta-feira Santa'),
+        (60, 'Corpus Christi')
+    ) AS m(dias, nome)
+    ORDER BY 1;
+$$;
+
+-- Carrega os feriados nacionais do ano no calendário da escola; os que a
+-- escola já tem (mesmo com a data alterada) não são duplicados
+CREATE OR REPLACE FUNCTION public.carregar_feriados_nacionais(p_ano INTEGER, p_school_id uuid DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_school_id uuid := COALESCE(p_school_id, public.get_my_school_id());
+    v_inseridos INTEGER;
+BEGIN
+    IF auth.uid() IS NOT NULL
+       AND (v_school_id IS DISTINCT FROM public.get_my_school_id() OR NOT public.tem_capacidade('calendario.gerenciar')) THEN
+        RAISE EXCEPTION 'Sem permissão para alterar o calendário';
+    END IF;
+
+    INSERT INTO public.calendario_eventos (school_id, titulo, tipo, data_inicio, data_fim, sem_aula, nacional)
+    SELECT v_school_id, f.nome, 'feriado', f.data, f.data, true, true
+    FROM public.feriados_nacionais(p_ano) f
+    ON CONFLICT (school_id, titulo, EXTRACT(YEAR FROM data_inicio)) WHERE nacional DO NOTHING;
+
+    GET DIAGNOSTICS v_inseridos = ROW_COUNT;
+    RETURN v_inseridos;
+END;
+$$;
+
+-- Escolas novas já começam com os feriados do ano corrente e do seguinte
+CREATE OR REPLACE FUNCTION public.carregar_feriados_escola_nova()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.calendario_eventos (school_id, titulo, tipo, data_inicio, data_fim, sem_aula, nacional)
+    SELECT NEW.id, f.nome, 'feriado', f.data, f.data, true, true
+    FROM generate_series(EXTRACT(YEAR FROM now())::int, EXTRACT(YEAR FROM now())::int + 1) AS ano,
+         LATERAL public.feriados_nacionais(ano) f;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS carregar_feriados_escola_nova ON public.schools;
+CREATE TRIGGER carregar_feriados_escola_nova AFTER INSERT ON public.schools FOR EACH ROW EXECUTE PROCEDURE public.carregar_feriados_escola_nova();
+
+-- Escolas existentes: 2025 e 2026
+SELECT public.carregar_feriados_nacionais(ano, s.id)
+FROM public.schools s, generate_series(2025, 2026) AS ano;
+
+-- Datas sem aula da escola ativa no período (um registro por dia). A geração
+-- de aulas e os resumos de frequência ignoram essas datas.
+CREATE OR REPLACE FUNCTION public.dias_sem_aula(p_data_inicio DATE, p_data_fim DATE)
+RETURNS TABLE (data DATE, titulo TEXT, tipo TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT DISTINCT ON (d::date) d::date, e.titulo, e.tipo
+    FROM public.calendario_eventos e,
+         generate_series(GREATEST(e.data_inicio, p_data_inicio), LEAST(e.data_fim, p_data_fim), interval '1 day') AS d
+    WHERE e.school_id = public.get_my_school_id()
+      AND e.sem_aula
+      AND e.data_inicio <= p_data_fim
+      AND e.data_fim >= p_data_inicio
+    ORDER BY d::date, e.tipo, e.titulo;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.dias_sem_aula(DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.carregar_feriados_nacionais(INTEGER, uuid) TO authenticated;
+
+
+-- =================================================================
+-- PARTE 3: CAPACIDADES DO CALENDÁRIO
+-- =================================================================
+
+ALTER TABLE public.papeis DROP CONSTRAINT IF EXISTS papeis_capacidades_check;
+ALTER TABLE public.papeis ADD CONSTRAINT papeis_capacidades_check CHECK (capacidades <@ ARRAY[
+    'dashboard.ver', 'area_professor.ver', 'portal_aluno.ver', 'portal_responsavel.ver',
+    'turmas.ver', 'turmas.gerenciar', 'cursos.gerenciar', 'alunos.ver', 'alunos.gerenciar',
+    'professores.ver', 'professores.gerenciar', 'materiais.gerenciar',
+    'financeiro.ver', 'financeiro.gerenciar', 'folha.gerenciar', 'folha.demonstrativo',
+    'relatorios.ver', 'comunicacao.usar', 'perfil.editar', 'escola.configurar',
+    'usuarios.convidar', 'papeis.gerenciar', 'calendario.ver', 'calendario.gerenciar'
+]::text[]);
+
+-- Papéis padrão: espelham PERMISSOES em src/utils/permissoes.ts
+INSERT INTO public.papeis (school_id, codigo, nome, capacidades) VALUES
+    (NULL, 'admin', 'Administrador', ARRAY['dashboard.ver', 'turmas.ver', 'turmas.gerenciar', 'alunos.ver', 'alunos.gerenciar', 'professores.ver', 'professores.gerenciar', 'materiais.gerenciar', 'financeiro.ver', 'financeiro.gerenciar', 'folha.gerenciar', 'folha.demonstrativo', 'comunicacao.usar', 'perfil.editar', 'calendario.ver', 'calendario.gerenciar', 'cursos.gerenciar', 'relatorios.ver', 'escola.configurar', 'usuarios.convidar', 'papeis.gerenciar']),
+    (NULL, 'diretor', 'Diretor', ARRAY['dashboard.ver', 'turmas.ver', 'turmas.gerenciar', 'alunos.ver', 'alunos.gerenciar', 'professores.ver', 'professores.gerenciar', 'materiais.gerenciar', 'financeiro.ver', 'financeiro.gerenciar', 'folha.gerenciar', 'folha.demonstrativo', 'comunicacao.usar', 'perfil.editar', 'calendario.ver', 'calendario.gerenciar', 'cursos.gerenciar', 'relatorios.ver', 'escola.configurar', 'usuarios.convidar', 'papeis.gerenciar']),
+    (NULL, 'secretario', 'Secretário', ARRAY['dashboard.ver', 'turmas.ver', 'turmas.gerenciar', 'alunos.ver', 'alunos.gerenciar', 'professores.ver', 'professores.gerenciar', 'materiais.gerenciar', 'financeiro.ver', 'financeiro.gerenciar', 'folha.gerenciar', 'folha.demonstrativo', 'comunicacao.usar', 'perfil.editar', 'calendario.ver', 'calendario.gerenciar']),
+    (NULL, 'professor', 'Professor', ARRAY['area_professor.ver', 'materiais.gerenciar', 'folha.demonstrativo', 'comunicacao.usar', 'perfil.editar', 'calendario.ver']),
+    (NULL, 'aluno', 'Aluno', ARRAY['portal_aluno.ver', 'comunicacao.usar', 'perfil.editar']),
+    (NULL, 'responsavel', 'Responsável', ARRAY['portal_responsavel.ver', 'comunicacao.usar', 'perfil.editar'])
+ON CONFLICT (COALESCE(school_id, '00000000-0000-0000-0000-000000000000'::uuid), codigo) DO UPDATE SET capacidades = EXCLUDED.capacidades;
+
+
+-- =================================================================
+-- PARTE 4: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.calendario_eventos ENABLE ROW LEVEL SECURITY;
+
+-- Todos os membros da escola consultam o calendário (dias_sem_aula roda com as permissões de quem chama)
+CREATE POLICY "Membros podem ver o calendário da escola" ON public.calendario_eventos FOR SELECT USING (school_id = public.get_my_school_id());
+CREATE POLICY "Gestores podem gerenciar o calendário" ON public.calendario_eventos FOR ALL USING (
+    school_id = public.get_my_school_id() AND public.tem_capacidade('calendario.gerenciar')
+);
@@ -0,0 +1,64 @@
+-- =================================================================
+-- MIGRAÇÃO: Chamada offline
+-- Data: 2025-07-29
+-- Descrição: A chamada passa a ser gravada por uma única função
+--            (salvar_chamada), atômica e segura para repetir: é o que o
+--            aplicativo reenvia quando a chamada foi feita sem internet.
+--            presencas ganha updated_at para a resolução de conflitos por
+--            data de alteração.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: PRESENÇAS
+-- =================================================================
+
+ALTER TABLE public.presencas ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+DROP TRIGGER IF EXISTS update_presencas_updated_at ON public.presencas;
+CREATE TRIGGER update_presencas_updated_at BEFORE UPDATE ON public.presencas FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÕES
+-- =================================================================
+
+-- Cria ou atualiza a chamada da aula com as presenças informadas
+-- ([{ aluno_id, status, observacoes }]) e marca a aula como realizada.
+-- Roda com as permissões de quem chama: as políticas de chamadas e
+-- presencas continuam valendo.
+CREATE OR REPLACE FUNCTION public.salvar_chamada(p_aula_id uuid, p_presencas jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_aula public.aulas%ROWTYPE;
+    v_chamada_id uuid;
+BEGIN
+    SELECT * INTO v_aula FROM public.aulas WHERE id = p_aula_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Aula não encontrada';
+    END IF;
+
+    INSERT INTO public.chamadas (aula_id, turma_id, professor_id, data_aula, school_id)
+    VALUES (v_aula.id, v_aula.turma_id, v_aula.professor_id, v_aula.data_aula, v_aula.school_id)
+    ON CONFLICT (aula_id) DO UPDATE SET updated_at = now()
+    RETURNING id INTO v_chamada_id;
+
+    INSERT INTO public.presencas (chamada_id, aluno_id, status, observacoes)
+    SELECT v_chamada_id, (p ->> 'aluno_id')::uuid, p ->> 'status', NULLIF(trim(p ->> 'observacoes'), '')
+    FROM jsonb_array_elements(p_presencas) AS p
+    ON CONFLICT (chamada_id, aluno_id) DO UPDATE
+    SET status = EXCLUDED.status, observacoes = EXCLUDED.observacoes;
+
+    -- Aula com chamada conta como realizada (base da folha de pagamento)
+    UPDATE public.aulas
+    SET status = 'realizada'
+    WHERE id = p_aula_id AND (status IS NULL OR status = 'agendada');
+
+    RETURN v_chamada_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.salvar_chamada(uuid, jsonb) TO authenticated;
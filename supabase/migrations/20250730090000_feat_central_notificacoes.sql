@@ -0,0 +1,127 @@
+-- =================================================================
+-- MIGRAÇÃO: Central de notificações
+-- Data: 2025-07-30
+-- Descrição: Caixa de entrada de notificações por usuário (sino na barra
+--            superior, atualizado em tempo real) e preferências de cada
+--            usuário: tipos desativados deixam de ser gravados, e canais e
+--            horário de silêncio são aplicados na entrega. As tabelas
+--            seguem os nomes usados pelo notificationService.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    school_id uuid REFERENCES public.schools(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN (
+        'INFO', 'SUCCESS', 'WARNING', 'ERROR', 'PAYMENT', 'ATTENDANCE', 'GRADE',
+        'SCHEDULE', 'SYSTEM', 'SECURITY', 'REMINDER', 'ANNOUNCEMENT'
+    )),
+    priority TEXT NOT NULL DEFAULT 'NORMAL' CHECK (priority IN ('LOW', 'NORMAL', 'HIGH', 'URGENT')),
+    -- Dados livres da origem (ex.: { "link": "/financeiro" } abre a página ao clicar)
+    data JSONB,
+    actions JSONB,
+    read BOOLEAN NOT NULL DEFAULT false,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    -- O link abre uma página do próprio aplicativo: só caminhos relativos (/pagina)
+    CONSTRAINT notifications_link_relativo CHECK (
+        data IS NULL OR NOT (data ? 'link') OR (data ->> 'link') ~ '^/([^/\\]|$)'
+    )
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_idx ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS notifications_nao_lidas_idx ON public.notifications(user_id) WHERE NOT read;
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+    user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    email BOOLEAN NOT NULL DEFAULT true,
+    push BOOLEAN NOT NULL DEFAULT true,
+    in_app BOOLEAN NOT NULL DEFAULT true,
+    sms BOOLEAN NOT NULL DEFAULT false,
+    -- { "PAYMENT": false } desativa o tipo; tipos ausentes ficam ativos
+    types JSONB NOT NULL DEFAULT '{}'::jsonb,
+    quiet_hours JSONB NOT NULL DEFAULT '{"enabled": false, "start": "22:00", "end": "08:00"}'::jsonb,
+    frequency TEXT NOT NULL DEFAULT 'IMMEDIATE' CHECK (frequency IN ('IMMEDIATE', 'HOURLY', 'DAILY', 'WEEKLY')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TRIGGER update_notification_preferences_updated_at BEFORE UPDATE ON public.notification_preferences FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+
+-- =================================================================
+-- PARTE 2: PREFERÊNCIAS NA GRAVAÇÃO
+-- =================================================================
+
+-- Quem desativou um tipo não recebe notificações dele (urgentes sempre chegam).
+-- Roda como definidor: quem envia não pode ler as preferências do destinatário.
+CREATE OR REPLACE FUNCTION public.filtrar_notificacao_por_preferencias()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.priority <> 'URGENT' AND EXISTS (
+        SELECT 1 FROM public.notification_preferences
+        WHERE user_id = NEW.user_id AND types ->> NEW.type = 'false'
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS filtrar_notificacao_por_preferencias ON public.notifications;
+CREATE TRIGGER filtrar_notificacao_por_preferencias
+    BEFORE INSERT ON public.notifications
+    FOR EACH ROW EXECUTE PROCEDURE public.filtrar_notificacao_por_preferencias();
+
+
+-- =================================================================
+-- PARTE 3: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Usuários veem as próprias notificações" ON public.notifications FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "Usuários atualizam as próprias notificações" ON public.notifications FOR UPDATE USING (user_id = auth.uid());
+CREATE POLICY "Usuários excluem as próprias notificações" ON public.notifications FOR DELETE USING (user_id = auth.uid());
+
+-- Pelo navegador, cada um só notifica a si mesmo. Notificações para outros
+-- membros (lista de espera, lembretes, alertas de falta) são gravadas pelas
+-- funções do servidor, com texto montado no banco.
+CREATE POLICY "Usuários criam as próprias notificações" ON public.notifications FOR INSERT WITH CHECK (user_id = auth.uid());
+
+-- Ao marcar como lida, o destinatário altera apenas o campo read
+REVOKE UPDATE ON public.notifications FROM authenticated;
+GRANT UPDATE (read) ON public.notifications TO authenticated;
+
+CREATE POLICY "Usuários gerenciam as próprias preferências" ON public.notification_preferences FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+
+-- =================================================================
+-- PARTE 4: TEMPO REAL
+-- =================================================================
+
+-- O sino escuta inserções e leituras das notificações do usuário
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+    END IF;
+END;
+$$;
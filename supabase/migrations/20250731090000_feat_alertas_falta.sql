@@ -0,0 +1,196 @@
+-- =================================================================
+-- MIGRAÇÃO: Alertas de falta
+-- Data: 2025-07-31
+-- Descrição: Depois de cada chamada, o aplicativo avalia as regras da
+--            escola (cada falta, faltas seguidas e frequência mínima no
+--            mês) e avisa os responsáveis e a coordenação pela central
+--            de notificações. registrar_alerta_falta evita alertas
+--            repetidos (a mesma chamada pode ser salva de novo) e devolve
+--            os destinatários. Responsáveis saem dos alertas pelo vínculo
+--            com o aluno ou desativando o assunto "Frequência" nas
+--            preferências de notificação.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS
+-- =================================================================
+
+-- Sem linha para a escola, valem os padrões das colunas
+CREATE TABLE IF NOT EXISTS public.configuracoes_alerta_falta (
+    school_id uuid PRIMARY KEY REFERENCES public.schools(id) ON DELETE CASCADE,
+    ativo BOOLEAN NOT NULL DEFAULT true,
+    alertar_cada_falta BOOLEAN NOT NULL DEFAULT true,
+    faltas_consecutivas INT NOT NULL DEFAULT 3 CHECK (faltas_consecutivas BETWEEN 2 AND 20),
+    frequencia_minima INT NOT NULL DEFAULT 75 CHECK (frequencia_minima BETWEEN 1 AND 100),
+    -- Com poucas aulas no mês uma única falta derruba a frequência
+    aulas_minimas_mes INT NOT NULL DEFAULT 4 CHECK (aulas_minimas_mes >= 1),
+    notificar_coordenacao BOOLEAN NOT NULL DEFAULT true,
+    canal_email BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TRIGGER update_configuracoes_alerta_falta_updated_at BEFORE UPDATE ON public.configuracoes_alerta_falta FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- Um alerta por aluno, regra e referência: a data da falta, o início da
+-- sequência de faltas ou o mês (yyyy-MM) da frequência baixa
+CREATE TABLE IF NOT EXISTS public.alertas_falta (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    aluno_id uuid NOT NULL REFERENCES public.alunos(id) ON DELETE CASCADE,
+    chamada_id uuid REFERENCES public.chamadas(id) ON DELETE SET NULL,
+    regra TEXT NOT NULL CHECK (regra IN ('falta', 'faltas_consecutivas', 'frequencia_baixa')),
+    referencia TEXT NOT NULL,
+    detalhes JSONB,
+    destinatarios uuid[] NOT NULL DEFAULT '{}',
+    created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (aluno_id, regra, referencia)
+);
+
+CREATE INDEX IF NOT EXISTS alertas_falta_school_idx ON public.alertas_falta(school_id, created_at DESC);
+
+-- Opt-out por vínculo (ex.: o responsável pediu à secretaria para não receber)
+ALTER TABLE public.aluno_responsaveis ADD COLUMN IF NOT EXISTS receber_alertas_falta BOOLEAN NOT NULL DEFAULT true;
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÕES
+-- =================================================================
+
+-- Registra o alerta (uma vez) e devolve quem deve recebê-lo:
+-- { alerta_id, aluno_nome, turma_nome, responsaveis: [{ user_id, nome, email }], coordenacao: [user_id] }.
+-- email vem nulo quando o canal está desligado na escola ou nas preferências.
+-- Retorna NULL se o alerta já foi enviado, se os alertas estão desligados ou se o aluno não faltou.
+CREATE OR REPLACE FUNCTION public.registrar_alerta_falta(
+    p_chamada_id uuid,
+    p_aluno_id uuid,
+    p_regra text,
+    p_referencia text,
+    p_detalhes jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_chamada public.chamadas%ROWTYPE;
+    v_config public.configuracoes_alerta_falta%ROWTYPE;
+    v_responsaveis jsonb;
+    v_coordenacao uuid[] := '{}';
+    v_alerta_id uuid;
+BEGIN
+    SELECT * INTO v_chamada FROM public.chamadas WHERE id = p_chamada_id;
+
+    IF NOT FOUND OR v_chamada.school_id IS DISTINCT FROM public.get_my_school_id() THEN
+        RAISE EXCEPTION 'Chamada não encontrada';
+    END IF;
+
+    -- Quem pode fazer a chamada da turma
+    IF NOT (
+        public.tem_capacidade('turmas.gerenciar')
+        OR v_chamada.turma_id IN (SELECT public.turmas_do_professor())
+        OR v_chamada.professor_id = public.meu_professor_id()
+    ) THEN
+        RAISE EXCEPTION 'Sem permissão para registrar alertas desta turma';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.presencas
+        WHERE chamada_id = p_chamada_id AND aluno_id = p_aluno_id AND status = 'ausente'
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO v_config FROM public.configuracoes_alerta_falta WHERE school_id = v_chamada.school_id;
+    IF FOUND AND NOT v_config.ativo THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'user_id', ar.responsavel_id,
+        'nome', p.nome_completo,
+        'email', CASE WHEN COALESCE(v_config.canal_email, true) AND COALESCE(np.email, true) THEN u.email END
+    )), '[]'::jsonb)
+    INTO v_responsaveis
+    FROM public.aluno_responsaveis ar
+    JOIN public.profiles p ON p.id = ar.responsavel_id
+    LEFT JOIN auth.users u ON u.id = ar.responsavel_id
+    LEFT JOIN public.notification_preferences np ON np.user_id = ar.responsavel_id
+    WHERE ar.aluno_id = p_aluno_id
+      AND ar.receber_alertas_falta
+      AND COALESCE(np.types ->> 'ATTENDANCE', 'true') <> 'false';
+
+    -- Coordenação: membros da escola que gerenciam alunos (papel próprio ou padrão)
+    IF COALESCE(v_config.notificar_coordenacao, true) THEN
+        SELECT COALESCE(array_agg(DISTINCT m.user_id), '{}')
+        INTO v_coordenacao
+        FROM public.membros_escola m
+        LEFT JOIN public.papeis pp ON pp.id = m.papel_id
+        LEFT JOIN public.papeis padrao ON padrao.school_id IS NULL AND padrao.codigo = m.tipo_usuario
+        WHERE m.school_id = v_chamada.school_id
+          AND m.ativo
+          AND 'alunos.gerenciar' = ANY(COALESCE(pp.capacidades, padrao.capacidades));
+    END IF;
+
+    INSERT INTO public.alertas_falta (school_id, aluno_id, chamada_id, regra, referencia, detalhes, destinatarios, created_by)
+    VALUES (
+        v_chamada.school_id,
+        p_aluno_id,
+        p_chamada_id,
+        p_regra,
+        p_referencia,
+        p_detalhes,
+        ARRAY(SELECT (r ->> 'user_id')::uuid FROM jsonb_array_elements(v_responsaveis) AS r) || v_coordenacao,
+        auth.uid()
+    )
+    ON CONFLICT (aluno_id, regra, referencia) DO NOTHING
+    RETURNING id INTO v_alerta_id;
+
+    IF v_alerta_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'alerta_id', v_alerta_id,
+        'aluno_nome', (SELECT nome FROM public.alunos WHERE id = p_aluno_id),
+        'turma_nome', (SELECT nome FROM public.turmas WHERE id = v_chamada.turma_id),
+        'responsaveis', v_responsaveis,
+        'coordenacao', to_jsonb(v_coordenacao)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.registrar_alerta_falta(uuid, uuid, text, text, jsonb) TO authenticated;
+
+
+-- =================================================================
+-- PARTE 3: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.configuracoes_alerta_falta ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alertas_falta ENABLE ROW LEVEL SECURITY;
+
+-- Professores leem as regras para avaliar as chamadas que fazem
+CREATE POLICY "Membros podem ver as regras de alerta de falta" ON public.configuracoes_alerta_falta FOR SELECT USING (school_id = public.get_my_school_id());
+CREATE POLICY "Gestores podem configurar alertas de falta" ON public.configuracoes_alerta_falta FOR ALL USING (
+    school_id = public.get_my_school_id() AND public.tem_capacidade('escola.configurar')
+);
+
+-- Gravados só por registrar_alerta_falta
+CREATE POLICY "Equipe pode ver os alertas de falta" ON public.alertas_falta FOR SELECT USING (
+    school_id = public.get_my_school_id() AND (public.tem_capacidade('alunos.ver') OR created_by = auth.uid())
+);
+
+-- Quem registrou o alerta entrega as notificações aos destinatários dele
+CREATE POLICY "Autor do alerta de falta notifica os destinatários" ON public.notifications FOR INSERT WITH CHECK (
+    type = 'ATTENDANCE'
+    AND data ? 'alerta_falta_id'
+    AND EXISTS (
+        SELECT 1 FROM public.alertas_falta a
+        WHERE a.id = (notifications.data ->> 'alerta_falta_id')::uuid
+          AND a.created_by = auth.uid()
+          AND notifications.user_id = ANY(a.destinatarios)
+    )
+);
@@ -0,0 +1,188 @@
+-- =================================================================
+-- MIGRAÇÃO: Lembretes de pagamento
+-- Data: 2025-08-01
+-- Descrição: Lembra os responsáveis das cobranças em aberto antes do
+--            vencimento (D-3), no dia (D) e depois dele (D+5), com o valor
+--            devido e o link da cobrança no portal, onde está o PIX.
+--            O envio por email, com o PIX "copia e cola", vem em
+--            20250806, depois da caixa de saída de emails.
+--            Executada diariamente pela edge function
+--            enviar-lembretes-pagamento. Cada etapa é enviada uma vez por
+--            lançamento e fica registrada para a secretaria; lançamentos
+--            pagos ou cancelados deixam de ser lembrados.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: REGRAS E HISTÓRICO
+-- =================================================================
+
+-- Dias antes e depois do vencimento; 0 desativa a etapa
+ALTER TABLE public.configuracoes_financeiras ADD COLUMN IF NOT EXISTS lembrete_dias_antes INT NOT NULL DEFAULT 3
+    CHECK (lembrete_dias_antes BETWEEN 0 AND 15);
+ALTER TABLE public.configuracoes_financeiras ADD COLUMN IF NOT EXISTS lembrete_no_vencimento BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE public.configuracoes_financeiras ADD COLUMN IF NOT EXISTS lembrete_dias_depois INT NOT NULL DEFAULT 5
+    CHECK (lembrete_dias_depois BETWEEN 0 AND 30);
+
+-- Um registro por lançamento e etapa, mesmo sem destinatário (a secretaria
+-- vê que ninguém foi avisado e pode vincular um responsável ao aluno)
+CREATE TABLE IF NOT EXISTS public.lembretes_pagamento (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL REFERENCES public.schools(id) ON DELETE CASCADE,
+    financeiro_id uuid NOT NULL REFERENCES public.financeiro(id) ON DELETE CASCADE,
+    etapa TEXT NOT NULL CHECK (etapa IN ('antes', 'vencimento', 'atraso')),
+    valor NUMERIC(10, 2) NOT NULL,
+    -- [{ "user_id": ..., "nome": ... }] de quem recebeu a notificação; sem
+    -- conta no portal, { "user_id": null, "nome": ..., "email": ... } (só email)
+    destinatarios JSONB NOT NULL DEFAULT '[]'::jsonb,
+    enviado_em TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (financeiro_id, etapa)
+);
+
+CREATE INDEX IF NOT EXISTS lembretes_pagamento_school_idx ON public.lembretes_pagamento(school_id, enviado_em DESC);
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÃO DE ENVIO
+-- =================================================================
+
+-- Envia as etapas devidas em p_data_referencia para as receitas em aberto
+-- de alunos. Uma etapa perdida (agendador parado) ainda é enviada enquanto
+-- fizer sentido: a de antes até a véspera e a de atraso por 7 dias.
+-- Destinatários: os responsáveis do aluno ou, sem eles, a conta do próprio
+-- aluno. Com p_school_id nulo processa todas as escolas (apenas service_role).
+-- Retorna a quantidade de lembretes registrados.
+CREATE OR REPLACE FUNCTION public.enviar_lembretes_pagamento(
+    p_school_id uuid DEFAULT NULL,
+    p_data_referencia DATE DEFAULT CURRENT_DATE
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_lembrete RECORD;
+    v_destinatarios jsonb;
+    v_lembrete_id uuid;
+    v_link text;
+    v_titulo text;
+    v_mensagem text;
+    v_valor_texto text;
+    v_enviados INT := 0;
+BEGIN
+    IF COALESCE(auth.role(), '') <> 'service_role'
+       AND (p_school_id IS NULL OR p_school_id IS DISTINCT FROM public.get_my_school_id()
+            OR NOT public.tem_capacidade('financeiro.gerenciar')) THEN
+        RAISE EXCEPTION 'Sem permissão para enviar lembretes desta escola';
+    END IF;
+
+    FOR v_lembrete IN
+        SELECT
+            f.id,
+            f.school_id,
+            f.aluno_id,
+            f.descricao,
+            f.data_vencimento,
+            f.pix_txid,
+            s.chave_pix,
+            f.valor + f.valor_multa + f.valor_juros AS valor_devido,
+            e.etapa
+        FROM public.financeiro f
+        JOIN public.schools s ON s.id = f.school_id
+        LEFT JOIN public.configuracoes_financeiras cf ON cf.school_id = f.school_id
+        CROSS JOIN LATERAL (VALUES
+            ('antes', f.data_vencimento - COALESCE(cf.lembrete_dias_antes, 3), f.data_vencimento - 1,
+                COALESCE(cf.lembrete_dias_antes, 3) > 0),
+            ('vencimento', f.data_vencimento, f.data_vencimento,
+                COALESCE(cf.lembrete_no_vencimento, true)),
+            ('atraso', f.data_vencimento + COALESCE(cf.lembrete_dias_depois, 5), f.data_vencimento + COALESCE(cf.lembrete_dias_depois, 5) + 6,
+                COALESCE(cf.lembrete_dias_depois, 5) > 0)
+        ) AS e(etapa, inicio, fim, ativa)
+        WHERE (p_school_id IS NULL OR f.school_id = p_school_id)
+          AND f.tipo = 'receita'
+          AND f.aluno_id IS NOT NULL
+          AND f.status IN ('pendente', 'atrasado')
+          AND e.ativa
+          AND p_data_referencia BETWEEN e.inicio AND e.fim
+          AND NOT EXISTS (
+              SELECT 1 FROM public.lembretes_pagamento l
+              WHERE l.financeiro_id = f.id AND l.etapa = e.etapa
+          )
+    LOOP
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('user_id', p.id, 'nome', p.nome_completo)), '[]'::jsonb)
+        INTO v_destinatarios
+        FROM public.aluno_responsaveis ar
+        JOIN public.profiles p ON p.id = ar.responsavel_id
+        WHERE ar.aluno_id = v_lembrete.aluno_id;
+
+        v_link := '/portal-responsavel?cobranca=' || v_lembrete.id;
+
+        IF v_destinatarios = '[]'::jsonb THEN
+            SELECT COALESCE(jsonb_agg(jsonb_build_object('user_id', a.user_id, 'nome', a.nome)), '[]'::jsonb)
+            INTO v_destinatarios
+            FROM public.alunos a
+            WHERE a.id = v_lembrete.aluno_id AND a.user_id IS NOT NULL;
+
+            v_link := '/portal-aluno?cobranca=' || v_lembrete.id;
+        END IF;
+
+        INSERT INTO public.lembretes_pagamento (school_id, financeiro_id, etapa, valor, destinatarios)
+        VALUES (v_lembrete.school_id, v_lembrete.id, v_lembrete.etapa, v_lembrete.valor_devido, v_destinatarios)
+        ON CONFLICT (financeiro_id, etapa) DO NOTHING
+        RETURNING id INTO v_lembrete_id;
+
+        CONTINUE WHEN v_lembrete_id IS NULL;
+        v_enviados := v_enviados + 1;
+
+        -- Com chave PIX na escola, o portal mostra o "copia e cola" (mesmo txid de gerarTxidPix)
+        IF v_lembrete.pix_txid IS NULL AND v_lembrete.chave_pix IS NOT NULL THEN
+            UPDATE public.financeiro
+            SET pix_txid = upper(left(replace(v_lembrete.id::text, '-', ''), 25))
+            WHERE id = v_lembrete.id;
+        END IF;
+
+        v_valor_texto := 'R$ ' || translate(to_char(v_lembrete.valor_devido, 'FM999,999,990.00'), ',.', '.,');
+
+        IF v_lembrete.etapa = 'antes' THEN
+            v_titulo := 'Cobrança vence em ' || to_char(v_lembrete.data_vencimento, 'DD/MM');
+            v_mensagem := v_lembrete.descricao || ' vence em ' || (v_lembrete.data_vencimento - p_data_referencia)
+                || ' dia(s), em ' || to_char(v_lembrete.data_vencimento, 'DD/MM/YYYY') || '. Valor: ' || v_valor_texto;
+        ELSIF v_lembrete.etapa = 'vencimento' THEN
+            v_titulo := 'Cobrança vence hoje';
+            v_mensagem := v_lembrete.descricao || ' vence hoje. Valor: ' || v_valor_texto;
+        ELSE
+            v_titulo := 'Pagamento em Atraso';
+            v_mensagem := v_lembrete.descricao || ' está em atraso há ' || (p_data_referencia - v_lembrete.data_vencimento)
+                || ' dias. Valor atualizado: ' || v_valor_texto;
+        END IF;
+
+        INSERT INTO public.notifications (user_id, school_id, title, message, type, priority, data, created_by)
+        SELECT
+            (d ->> 'user_id')::uuid,
+            v_lembrete.school_id,
+            v_titulo,
+            v_mensagem || '. Pague pelo portal.',
+            'PAYMENT',
+            CASE WHEN v_lembrete.etapa = 'atraso' THEN 'HIGH' ELSE 'NORMAL' END,
+            jsonb_build_object('financeiro_id', v_lembrete.id, 'lembrete_id', v_lembrete_id, 'link', v_link),
+            NULL
+        FROM jsonb_array_elements(v_destinatarios) AS d;
+    END LOOP;
+
+    RETURN v_enviados;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.enviar_lembretes_pagamento(uuid, DATE) TO authenticated;
+
+
+-- =================================================================
+-- PARTE 3: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.lembretes_pagamento ENABLE ROW LEVEL SECURITY;
+
+-- Gravados só por enviar_lembretes_pagamento
+CREATE POLICY "Financeiro pode ver os lembretes de pagamento" ON public.lembretes_pagamento FOR SELECT USING (
+    school_id = public.get_my_school_id() AND public.tem_capacidade('financeiro.ver')
+);
@@ -0,0 +1,272 @@
+-- =================================================================
+-- MIGRAÇÃO: Caixa de saída de emails
+-- Data: 2025-08-02
+-- Descrição: Emails do aplicativo (notificações, lembretes, integrações)
+--            são gravados em email_outbox e enviados no servidor pela
+--            edge function enviar-emails (cron), com o transporte da
+--            integração de email da escola (SMTP ou API) e novas
+--            tentativas espaçadas em caso de falha. Membros não gravam
+--            emails diretamente: enfileirar_email_notificacao monta o
+--            email a partir da notificação e o envia ao email da conta
+--            do destinatário. Endereços devolvidos (bounce) ficam
+--            suprimidos nos envios seguintes. As credenciais das
+--            integrações deixam de ser lidas pelo navegador.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELAS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    school_id uuid NOT NULL DEFAULT public.get_my_school_id() REFERENCES public.schools(id) ON DELETE CASCADE,
+    destinatario TEXT NOT NULL,
+    -- Conta do destinatário, quando o email vem de uma notificação
+    user_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    assunto TEXT NOT NULL,
+    -- Conteúdo estruturado, renderizado no envio com o layout padrão...
+    mensagem TEXT,
+    -- Caminho do aplicativo (/pagina); o envio o completa com APP_URL
+    link TEXT CHECK (link ~ '^/([^/\\]|$)'),
+    prioridade TEXT NOT NULL DEFAULT 'NORMAL' CHECK (prioridade IN ('LOW', 'NORMAL', 'HIGH', 'URGENT')),
+    -- ...ou HTML pronto (envios diretos das integrações)
+    html TEXT,
+    texto TEXT,
+    status TEXT NOT NULL DEFAULT 'pendente' CHECK (status IN ('pendente', 'enviando', 'enviado', 'falhou', 'devolvido', 'suprimido')),
+    -- Origem do email (ex.: 'notificacao', 'integracao') e registro relacionado
+    origem TEXT NOT NULL DEFAULT 'notificacao',
+    referencia_id uuid,
+    tentativas INT NOT NULL DEFAULT 0,
+    max_tentativas INT NOT NULL DEFAULT 5 CHECK (max_tentativas BETWEEN 1 AND 20),
+    proxima_tentativa TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    ultimo_erro TEXT,
+    -- Transporte usado ('smtp' ou 'api') e identificador devolvido por ele
+    transporte TEXT,
+    message_id TEXT,
+    enviado_em TIMESTAMP WITH TIME ZONE,
+    devolvido_em TIMESTAMP WITH TIME ZONE,
+    motivo_devolucao TEXT,
+    created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    CHECK (html IS NOT NULL OR mensagem IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS email_outbox_fila_idx ON public.email_outbox(proxima_tentativa) WHERE status = 'pendente';
+CREATE INDEX IF NOT EXISTS email_outbox_message_idx ON public.email_outbox(message_id) WHERE message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS email_outbox_devolvidos_idx ON public.email_outbox(school_id, lower(destinatario)) WHERE status = 'devolvido';
+CREATE INDEX IF NOT EXISTS email_outbox_referencia_idx ON public.email_outbox(origem, referencia_id) WHERE referencia_id IS NOT NULL;
+
+CREATE TRIGGER update_email_outbox_updated_at BEFORE UPDATE ON public.email_outbox FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+-- Webhooks recebidos pelas integrações (ex.: devoluções de email)
+CREATE TABLE IF NOT EXISTS public.integration_webhook_logs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    integration_id uuid NOT NULL REFERENCES public.integrations(id) ON DELETE CASCADE,
+    payload JSONB,
+    success BOOLEAN NOT NULL DEFAULT true,
+    error TEXT,
+    processed_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS integration_webhook_logs_integration_idx
+    ON public.integration_webhook_logs(integration_id, created_at DESC);
+
+
+-- =================================================================
+-- PARTE 2: SUPRESSÃO E RESERVA
+-- =================================================================
+
+-- Endereço que já devolveu um email da escola não recebe novos envios
+CREATE OR REPLACE FUNCTION public.suprimir_email_devolvido()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.email_outbox
+        WHERE school_id = NEW.school_id
+          AND lower(destinatario) = lower(NEW.destinatario)
+          AND status = 'devolvido'
+    ) THEN
+        NEW.status := 'suprimido';
+        NEW.ultimo_erro := 'Endereço com devolução registrada';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS suprimir_email_devolvido ON public.email_outbox;
+CREATE TRIGGER suprimir_email_devolvido
+    BEFORE INSERT ON public.email_outbox
+    FOR EACH ROW EXECUTE PROCEDURE public.suprimir_email_devolvido();
+
+-- Reserva os próximos emails para envio (status 'enviando'), de todas as
+-- escolas ou só de p_school_id. Reservas de um envio interrompido voltam à
+-- fila após 10 minutos. Apenas service_role (edge function enviar-emails).
+CREATE OR REPLACE FUNCTION public.reservar_emails(p_limite INT DEFAULT 50, p_school_id uuid DEFAULT NULL)
+RETURNS SETOF public.email_outbox
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF COALESCE(auth.role(), '') <> 'service_role' THEN
+        RAISE EXCEPTION 'Sem permissão para enviar emails';
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.email_outbox e
+    SET status = 'enviando', tentativas = e.tentativas + 1
+    WHERE e.id IN (
+        SELECT id FROM public.email_outbox
+        WHERE (p_school_id IS NULL OR school_id = p_school_id)
+          AND (
+              (status = 'pendente' AND proxima_tentativa <= now())
+              OR (status = 'enviando' AND updated_at < now() - INTERVAL '10 minutes')
+          )
+        ORDER BY proxima_tentativa
+        LIMIT p_limite
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING e.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reservar_emails(INT, uuid) FROM PUBLIC, anon, authenticated;
+
+
+-- =================================================================
+-- PARTE 3: ENFILEIRAMENTO
+-- =================================================================
+
+-- Enfileira um email para a conta p_user_id, no email do login, salvo se o
+-- usuário desligou os emails nas preferências (urgentes sempre vão).
+-- Uso interno: chamada por funções definidoras, nunca pelo navegador.
+CREATE OR REPLACE FUNCTION public.enfileirar_email_usuario(
+    p_user_id uuid,
+    p_school_id uuid,
+    p_assunto text,
+    p_mensagem text,
+    p_link text DEFAULT NULL,
+    p_prioridade text DEFAULT 'NORMAL',
+    p_origem text DEFAULT 'notificacao',
+    p_referencia_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_email text;
+    v_id uuid;
+BEGIN
+    SELECT u.email INTO v_email
+    FROM auth.users u
+    LEFT JOIN public.notification_preferences np ON np.user_id = u.id
+    WHERE u.id = p_user_id
+      AND (COALESCE(np.email, true) OR p_prioridade = 'URGENT');
+
+    IF v_email IS NULL OR p_school_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- A mesma origem não gera dois emails para o mesmo destinatário
+    IF p_referencia_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.email_outbox
+        WHERE origem = p_origem AND referencia_id = p_referencia_id AND user_id = p_user_id
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.email_outbox (school_id, destinatario, user_id, assunto, mensagem, link, prioridade, origem, referencia_id, created_by)
+    VALUES (p_school_id, v_email, p_user_id, p_assunto, p_mensagem, p_link, COALESCE(p_prioridade, 'NORMAL'), p_origem, p_referencia_id, auth.uid())
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enfileirar_email_usuario(uuid, uuid, text, text, text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Envia por email uma notificação que o usuário atual criou para si mesmo.
+-- Título, mensagem e link vêm da notificação gravada e o endereço, da conta.
+-- Notificações para outros membros são enviadas pelas funções do servidor
+-- com enfileirar_email_usuario. Retorna o id do email ou NULL.
+CREATE OR REPLACE FUNCTION public.enfileirar_email_notificacao(p_notification_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_notificacao public.notifications%ROWTYPE;
+BEGIN
+    SELECT * INTO v_notificacao FROM public.notifications WHERE id = p_notification_id;
+
+    -- Inexistente também quando o destinatário desativou o tipo (a gravação foi descartada)
+    IF NOT FOUND
+       OR v_notificacao.created_by IS DISTINCT FROM auth.uid()
+       OR v_notificacao.user_id IS DISTINCT FROM auth.uid() THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN public.enfileirar_email_usuario(
+        v_notificacao.user_id,
+        v_notificacao.school_id,
+        v_notificacao.title,
+        v_notificacao.message,
+        v_notificacao.data ->> 'link',
+        v_notificacao.priority,
+        'notificacao',
+        v_notificacao.id
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.enfileirar_email_notificacao(uuid) TO authenticated;
+
+
+-- =================================================================
+-- PARTE 4: SEGURANÇA (RLS)
+-- =================================================================
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.integration_webhook_logs ENABLE ROW LEVEL SECURITY;
+
+-- Quem administra as integrações envia emails avulsos e acompanha a fila.
+-- 'suprimido' vem do gatilho de devoluções, que roda antes desta verificação.
+CREATE POLICY "Gestores podem enfileirar emails" ON public.email_outbox FOR INSERT WITH CHECK (
+    school_id = public.get_my_school_id()
+    AND public.tem_capacidade('financeiro.gerenciar')
+    AND status IN ('pendente', 'suprimido')
+    AND created_by = auth.uid()
+);
+CREATE POLICY "Gestores podem ver a caixa de saída" ON public.email_outbox FOR SELECT USING (
+    school_id = public.get_my_school_id() AND public.tem_capacidade('financeiro.gerenciar')
+);
+CREATE POLICY "Gestores podem atualizar a caixa de saída" ON public.email_outbox FOR UPDATE USING (
+    school_id = public.get_my_school_id() AND public.tem_capacidade('financeiro.gerenciar')
+);
+
+CREATE POLICY "Admins podem gerenciar registros de gestão" ON public.integration_webhook_logs FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.integrations i
+        WHERE i.id = integration_id
+          AND i.school_id = public.get_my_school_id()
+          AND public.tem_capacidade('financeiro.gerenciar')
+    )
+);
+
+-- Credenciais (senha SMTP, chave de API) são gravadas pelo navegador, mas só
+-- as edge functions, com service_role, as leem. remessa_sequencial é lido no
+-- incremento e no RETURNING de proximo_sequencial_remessa.
+REVOKE SELECT ON public.integrations FROM anon, authenticated;
+GRANT SELECT (
+    id, school_id, name, type, provider, description, is_active, config, webhook_url,
+    last_sync, last_error, sync_status, remessa_sequencial, created_by, created_at, updated_at
+) ON public.integrations TO authenticated;
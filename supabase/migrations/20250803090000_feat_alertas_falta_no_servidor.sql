@@ -0,0 +1,266 @@
+-- =================================================================
+-- MIGRAÇÃO: Alertas de falta avaliados no servidor
+-- Data: 2025-08-03
+-- Descrição: As regras de alerta de falta passam a ser avaliadas pelo
+--            banco, dentro de salvar_chamada: o registro do alerta, as
+--            notificações e os emails aos responsáveis são gravados na
+--            mesma transação. Antes o aplicativo avaliava as regras depois
+--            de salvar a chamada e o alerta ficava registrado mesmo quando
+--            a entrega falhava ou a aba era fechada. Vem depois da caixa de
+--            saída de emails (20250802), usada na entrega.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: AVALIAÇÃO E ENTREGA
+-- =================================================================
+
+-- Avalia as regras da escola para os ausentes da chamada (cada falta,
+-- faltas seguidas e frequência abaixo do mínimo no mês, sem contar os dias
+-- sem aula do calendário) e entrega cada alerta novo. Alertas já
+-- registrados (a chamada pode ser salva de novo) não são repetidos.
+-- Retorna quantos alertas foram registrados.
+CREATE OR REPLACE FUNCTION public.processar_alertas_falta(p_chamada_id uuid)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_chamada public.chamadas%ROWTYPE;
+    v_regras RECORD;
+    v_turma_nome TEXT;
+    v_aluno RECORD;
+    v_historico RECORD;
+    v_responsaveis uuid[];
+    v_coordenacao uuid[] := '{}';
+    v_alerta RECORD;
+    v_alerta_id uuid;
+    v_titulo TEXT;
+    v_mensagem TEXT;
+    v_prioridade TEXT;
+    v_user_id uuid;
+    v_alertas INT := 0;
+BEGIN
+    SELECT * INTO v_chamada FROM public.chamadas WHERE id = p_chamada_id;
+
+    IF NOT FOUND OR (
+        v_chamada.school_id IS DISTINCT FROM public.get_my_school_id()
+        AND COALESCE(auth.role(), '') <> 'service_role'
+    ) THEN
+        RAISE EXCEPTION 'Chamada não encontrada';
+    END IF;
+
+    -- Sem linha para a escola, valem os padrões das colunas
+    SELECT
+        COALESCE(c.ativo, true) AS ativo,
+        COALESCE(c.alertar_cada_falta, true) AS alertar_cada_falta,
+        COALESCE(c.faltas_consecutivas, 3) AS faltas_consecutivas,
+        COALESCE(c.frequencia_minima, 75) AS frequencia_minima,
+        COALESCE(c.aulas_minimas_mes, 4) AS aulas_minimas_mes,
+        COALESCE(c.notificar_coordenacao, true) AS notificar_coordenacao,
+        COALESCE(c.canal_email, true) AS canal_email
+    INTO v_regras
+    FROM (SELECT 1) AS padrao
+    LEFT JOIN public.configuracoes_alerta_falta c ON c.school_id = v_chamada.school_id;
+
+    IF NOT v_regras.ativo OR EXISTS (
+        SELECT 1 FROM public.calendario_eventos e
+        WHERE e.school_id = v_chamada.school_id
+          AND e.sem_aula
+          AND v_chamada.data_aula BETWEEN e.data_inicio AND e.data_fim
+    ) THEN
+        RETURN 0;
+    END IF;
+
+    SELECT nome INTO v_turma_nome FROM public.turmas WHERE id = v_chamada.turma_id;
+
+    -- Coordenação: membros da escola que gerenciam alunos (papel próprio ou padrão)
+    IF v_regras.notificar_coordenacao THEN
+        SELECT COALESCE(array_agg(DISTINCT m.user_id), '{}')
+        INTO v_coordenacao
+        FROM public.membros_escola m
+        LEFT JOIN public.papeis pp ON pp.id = m.papel_id
+        LEFT JOIN public.papeis padrao ON padrao.school_id IS NULL AND padrao.codigo = m.tipo_usuario
+        WHERE m.school_id = v_chamada.school_id
+          AND m.ativo
+          AND 'alunos.gerenciar' = ANY(COALESCE(pp.capacidades, padrao.capacidades));
+    END IF;
+
+    FOR v_aluno IN
+        SELECT p.aluno_id, a.nome
+        FROM public.presencas p
+        JOIN public.alunos a ON a.id = p.aluno_id
+        WHERE p.chamada_id = p_chamada_id AND p.status = 'ausente'
+    LOOP
+        -- Presenças do aluno na turma nos últimos 60 dias e no mês da chamada.
+        -- A sequência de faltas vai da última aula sem falta até a chamada.
+        WITH registros AS (
+            SELECT c.data_aula, p.status
+            FROM public.chamadas c
+            JOIN public.presencas p ON p.chamada_id = c.id
+            WHERE c.turma_id = v_chamada.turma_id
+              AND p.aluno_id = v_aluno.aluno_id
+              AND c.data_aula <= v_chamada.data_aula
+              AND c.data_aula >= LEAST(date_trunc('month', v_chamada.data_aula)::date, v_chamada.data_aula - 60)
+              AND NOT EXISTS (
+                  SELECT 1 FROM public.calendario_eventos e
+                  WHERE e.school_id = v_chamada.school_id
+                    AND e.sem_aula
+                    AND c.data_aula BETWEEN e.data_inicio AND e.data_fim
+              )
+        ),
+        ultima_sem_falta AS (
+            SELECT max(data_aula) AS data_aula FROM registros WHERE status <> 'ausente'
+        )
+        SELECT
+            count(*) FILTER (WHERE r.status = 'ausente' AND r.data_aula > COALESCE(u.data_aula, '-infinity'::date)) AS seguidas,
+            min(r.data_aula) FILTER (WHERE r.status = 'ausente' AND r.data_aula > COALESCE(u.data_aula, '-infinity'::date)) AS inicio,
+            count(*) FILTER (WHERE r.data_aula >= date_trunc('month', v_chamada.data_aula)::date) AS aulas_mes,
+            count(*) FILTER (WHERE r.data_aula >= date_trunc('month', v_chamada.data_aula)::date AND r.status = 'presente') AS presentes_mes
+        INTO v_historico
+        FROM registros r, ultima_sem_falta u;
+
+        -- Responsáveis que não saíram dos alertas pelo vínculo nem pelas preferências
+        SELECT COALESCE(array_agg(ar.responsavel_id), '{}')
+        INTO v_responsaveis
+        FROM public.aluno_responsaveis ar
+        LEFT JOIN public.notification_preferences np ON np.user_id = ar.responsavel_id
+        WHERE ar.aluno_id = v_aluno.aluno_id
+          AND ar.receber_alertas_falta
+          AND COALESCE(np.types ->> 'ATTENDANCE', 'true') <> 'false';
+
+        FOR v_alerta IN
+            SELECT regra, referencia
+            FROM (VALUES
+                ('falta', v_chamada.data_aula::text, v_regras.alertar_cada_falta),
+                ('faltas_consecutivas', v_historico.inicio::text,
+                    v_historico.seguidas >= v_regras.faltas_consecutivas AND v_historico.inicio IS NOT NULL),
+                ('frequencia_baixa', to_char(v_chamada.data_aula, 'YYYY-MM'),
+                    v_historico.aulas_mes >= v_regras.aulas_minimas_mes
+                    AND round(v_historico.presentes_mes * 100.0 / NULLIF(v_historico.aulas_mes, 0)) < v_regras.frequencia_minima)
+            ) AS regras (regra, referencia, disparou)
+            WHERE disparou
+        LOOP
+            INSERT INTO public.alertas_falta (school_id, aluno_id, chamada_id, regra, referencia, detalhes, destinatarios, created_by)
+            VALUES (
+                v_chamada.school_id,
+                v_aluno.aluno_id,
+                p_chamada_id,
+                v_alerta.regra,
+                v_alerta.referencia,
+                jsonb_build_object(
+                    'faltas_consecutivas', v_historico.seguidas,
+                    'frequencia', COALESCE(round(v_historico.presentes_mes * 100.0 / NULLIF(v_historico.aulas_mes, 0))::int, 0),
+                    'aulas_no_mes', v_historico.aulas_mes
+                ),
+                v_responsaveis || ARRAY(SELECT unnest(v_coordenacao) EXCEPT SELECT unnest(v_responsaveis)),
+                auth.uid()
+            )
+            ON CONFLICT (aluno_id, regra, referencia) DO NOTHING
+            RETURNING id INTO v_alerta_id;
+
+            CONTINUE WHEN v_alerta_id IS NULL;
+            v_alertas := v_alertas + 1;
+
+            v_prioridade := CASE WHEN v_alerta.regra = 'falta' THEN 'NORMAL' ELSE 'HIGH' END;
+            CASE v_alerta.regra
+                WHEN 'falta' THEN
+                    v_titulo := 'Falta de ' || v_aluno.nome;
+                    v_mensagem := format('%s faltou à aula de %s em %s.',
+                        v_aluno.nome, COALESCE(v_turma_nome, 'turma'), to_char(v_chamada.data_aula, 'DD/MM/YYYY'));
+                WHEN 'faltas_consecutivas' THEN
+                    v_titulo := format('%s faltou %s aulas seguidas', v_aluno.nome, v_historico.seguidas);
+                    v_mensagem := format('%s faltou às últimas %s aulas de %s (desde %s).',
+                        v_aluno.nome, v_historico.seguidas, COALESCE(v_turma_nome, 'turma'), to_char(v_historico.inicio, 'DD/MM/YYYY'));
+                ELSE
+                    v_titulo := 'Alerta de Frequência';
+                    v_mensagem := format('Frequência de %s em %s: %s%%. Mínimo exigido: %s%%',
+                        v_aluno.nome, COALESCE(v_turma_nome, 'turma'),
+                        round(v_historico.presentes_mes * 100.0 / NULLIF(v_historico.aulas_mes, 0))::int, v_regras.frequencia_minima);
+            END CASE;
+
+            FOREACH v_user_id IN ARRAY v_responsaveis LOOP
+                INSERT INTO public.notifications (user_id, school_id, title, message, type, priority, data, created_by)
+                VALUES (
+                    v_user_id, v_chamada.school_id, v_titulo, v_mensagem, 'ATTENDANCE', v_prioridade,
+                    jsonb_build_object('alerta_falta_id', v_alerta_id, 'link', '/portal-responsavel'), auth.uid()
+                );
+
+                IF v_regras.canal_email THEN
+                    PERFORM public.enfileirar_email_usuario(
+                        v_user_id, v_chamada.school_id, v_titulo, v_mensagem, '/portal-responsavel',
+                        v_prioridade, 'alerta_falta', v_alerta_id
+                    );
+                END IF;
+            END LOOP;
+
+            FOREACH v_user_id IN ARRAY v_coordenacao LOOP
+                CONTINUE WHEN v_user_id = ANY(v_responsaveis);
+
+                INSERT INTO public.notifications (user_id, school_id, title, message, type, priority, data, created_by)
+                VALUES (
+                    v_user_id, v_chamada.school_id, v_titulo, v_mensagem, 'ATTENDANCE', v_prioridade,
+                    jsonb_build_object('alerta_falta_id', v_alerta_id, 'link', '/alunos'), auth.uid()
+                );
+            END LOOP;
+        END LOOP;
+    END LOOP;
+
+    RETURN v_alertas;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.processar_alertas_falta(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.processar_alertas_falta(uuid) TO authenticated;
+
+-- Mesma gravação de 20250729, agora com os alertas da chamada. Uma falha nos
+-- alertas desfaz só os alertas (registro e entrega juntos), não a chamada:
+-- como nada fica registrado, o próximo salvamento tenta de novo.
+CREATE OR REPLACE FUNCTION public.salvar_chamada(p_aula_id uuid, p_presencas jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_aula public.aulas%ROWTYPE;
+    v_chamada_id uuid;
+BEGIN
+    SELECT * INTO v_aula FROM public.aulas WHERE id = p_aula_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Aula não encontrada';
+    END IF;
+
+    INSERT INTO public.chamadas (aula_id, turma_id, professor_id, data_aula, school_id)
+    VALUES (v_aula.id, v_aula.turma_id, v_aula.professor_id, v_aula.data_aula, v_aula.school_id)
+    ON CONFLICT (aula_id) DO UPDATE SET updated_at = now()
+    RETURNING id INTO v_chamada_id;
+
+    INSERT INTO public.presencas (chamada_id, aluno_id, status, observacoes)
+    SELECT v_chamada_id, (p ->> 'aluno_id')::uuid, p ->> 'status', NULLIF(trim(p ->> 'observacoes'), '')
+    FROM jsonb_array_elements(p_presencas) AS p
+    ON CONFLICT (chamada_id, aluno_id) DO UPDATE
+    SET status = EXCLUDED.status, observacoes = EXCLUDED.observacoes;
+
+    -- Aula com chamada conta como realizada (base da folha de pagamento)
+    UPDATE public.aulas
+    SET status = 'realizada'
+    WHERE id = p_aula_id AND (status IS NULL OR status = 'agendada');
+
+    BEGIN
+        PERFORM public.processar_alertas_falta(v_chamada_id);
+    EXCEPTION WHEN OTHERS THEN
+        RAISE WARNING 'Alertas de falta da chamada % não processados: %', v_chamada_id, SQLERRM;
+    END;
+
+    RETURN v_chamada_id;
+END;
+$$;
+
+
+-- =================================================================
+-- PARTE 2: REMOÇÃO DO FLUXO PELO APLICATIVO
+-- =================================================================
+
+DROP POLICY IF EXISTS "Autor do alerta de falta notifica os destinatários" ON public.notifications;
+DROP FUNCTION IF EXISTS public.registrar_alerta_falta(uuid, uuid, text, text, jsonb);
@@ -0,0 +1,158 @@
+-- =================================================================
+-- MIGRAÇÃO: Aviso das ofertas da lista de espera
+-- Data: 2025-08-04
+-- Descrição: Quando a lista de espera (20250721) oferta uma vaga, o
+--            próximo da fila é avisado na central de notificações e por
+--            email, com o prazo da reserva. Vem depois da central de
+--            notificações (20250730) e da caixa de saída de emails
+--            (20250802), usadas no aviso.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: FUNÇÕES
+-- =================================================================
+
+-- Avisa a oferta de vaga com o prazo (oferta_expira_em): aluno com cadastro
+-- recebe na central de notificações (responsáveis ou a conta do próprio
+-- aluno) e por email; interessado sem conta, só no email informado na fila.
+CREATE OR REPLACE FUNCTION public.notificar_oferta_lista_espera(p_entrada_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_entrada RECORD;
+    v_destinatarios uuid[] := '{}';
+    v_titulo text;
+    v_mensagem text;
+    v_link text;
+    v_user_id uuid;
+BEGIN
+    SELECT e.*, t.nome AS turma_nome, s.name AS escola_nome
+    INTO v_entrada
+    FROM public.lista_espera e
+    JOIN public.turmas t ON t.id = e.turma_id
+    JOIN public.schools s ON s.id = e.school_id
+    WHERE e.id = p_entrada_id AND e.status = 'ofertada';
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    v_titulo := 'Vaga disponível na turma ' || v_entrada.turma_nome;
+    v_mensagem := 'Abriu uma vaga na turma ' || v_entrada.turma_nome || ' da ' || v_entrada.escola_nome
+        || ' para ' || v_entrada.nome || '. A vaga fica reservada até '
+        || to_char(v_entrada.oferta_expira_em AT TIME ZONE 'America/Sao_Paulo', 'DD/MM/YYYY "às" HH24:MI')
+        || '. Fale com a secretaria para confirmar a matrícula.';
+
+    IF v_entrada.aluno_id IS NOT NULL THEN
+        SELECT COALESCE(array_agg(ar.responsavel_id), '{}')
+        INTO v_destinatarios
+        FROM public.aluno_responsaveis ar
+        WHERE ar.aluno_id = v_entrada.aluno_id;
+        v_link := '/portal-responsavel';
+
+        IF v_destinatarios = '{}' THEN
+            SELECT COALESCE(array_agg(a.user_id), '{}')
+            INTO v_destinatarios
+            FROM public.alunos a
+            WHERE a.id = v_entrada.aluno_id AND a.user_id IS NOT NULL;
+            v_link := '/portal-aluno';
+        END IF;
+    END IF;
+
+    FOREACH v_user_id IN ARRAY v_destinatarios LOOP
+        INSERT INTO public.notifications (user_id, school_id, title, message, type, priority, data, expires_at, created_by)
+        VALUES (
+            v_user_id,
+            v_entrada.school_id,
+            v_titulo,
+            v_mensagem,
+            'ANNOUNCEMENT',
+            'HIGH',
+            jsonb_build_object('lista_espera_id', v_entrada.id, 'turma_id', v_entrada.turma_id, 'link', v_link),
+            v_entrada.oferta_expira_em,
+            NULL
+        );
+
+        PERFORM public.enfileirar_email_usuario(
+            v_user_id, v_entrada.school_id, v_titulo, v_mensagem, v_link, 'HIGH', 'lista_espera', v_entrada.id
+        );
+    END LOOP;
+
+    -- Sem conta no portal, o aviso vai para o email da fila
+    IF v_destinatarios = '{}' AND NULLIF(trim(v_entrada.email), '') IS NOT NULL THEN
+        INSERT INTO public.email_outbox (school_id, destinatario, assunto, mensagem, prioridade, origem, referencia_id, created_by)
+        VALUES (v_entrada.school_id, trim(v_entrada.email), v_titulo, v_mensagem, 'HIGH', 'lista_espera', v_entrada.id, NULL);
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notificar_oferta_lista_espera(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Mesma regra de 20250721 (expira ofertas vencidas e oferta as vagas livres
+-- aos próximos da fila), agora avisando cada nova oferta.
+CREATE OR REPLACE FUNCTION public.processar_lista_espera(
+    p_turma_id uuid DEFAULT NULL,
+    p_prazo_horas INT DEFAULT 48
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_servico BOOLEAN := COALESCE(auth.role(), '') = 'service_role';
+    v_school_id uuid := public.get_my_school_id();
+    v_ofertas INT := 0;
+    v_livres INT;
+    v_oferta RECORD;
+    t RECORD;
+BEGIN
+    IF p_turma_id IS NOT NULL AND NOT v_servico AND NOT EXISTS (
+        SELECT 1 FROM public.turmas WHERE id = p_turma_id AND school_id = v_school_id
+    ) THEN
+        RAISE EXCEPTION 'Turma não encontrada';
+    END IF;
+
+    UPDATE public.lista_espera e
+    SET status = 'expirada'
+    WHERE e.status = 'ofertada'
+      AND e.oferta_expira_em <= now()
+      AND (p_turma_id IS NULL OR e.turma_id = p_turma_id)
+      AND (v_servico OR e.school_id = v_school_id);
+
+    FOR t IN
+        SELECT tu.id
+        FROM public.turmas tu
+        WHERE (p_turma_id IS NULL OR tu.id = p_turma_id)
+          AND (v_servico OR tu.school_id = v_school_id)
+          AND tu.ativa IS DISTINCT FROM false
+          AND EXISTS (SELECT 1 FROM public.lista_espera e WHERE e.turma_id = tu.id AND e.status = 'aguardando')
+        FOR UPDATE
+    LOOP
+        v_livres := public.vagas_livres_turma(t.id);
+        CONTINUE WHEN COALESCE(v_livres, 0) <= 0;
+
+        FOR v_oferta IN
+            UPDATE public.lista_espera e
+            SET status = 'ofertada',
+                oferta_em = now(),
+                oferta_expira_em = now() + make_interval(hours => p_prazo_horas)
+            WHERE e.id IN (
+                SELECT id FROM public.lista_espera
+                WHERE turma_id = t.id AND status = 'aguardando'
+                ORDER BY created_at, id
+                LIMIT v_livres
+            )
+            RETURNING e.id
+        LOOP
+            PERFORM public.notificar_oferta_lista_espera(v_oferta.id);
+            v_ofertas := v_ofertas + 1;
+        END LOOP;
+    END LOOP;
+
+    RETURN v_ofertas;
+END;
+$$;
@@ -0,0 +1,68 @@
+-- =================================================================
+-- MIGRAÇÃO: Token do webhook PIX por escola
+-- Data: 2025-08-05
+-- Descrição: O webhook de recebimentos PIX (edge function pix-webhook)
+--            deixa de usar um segredo único para todas as escolas. Cada
+--            escola tem o seu token e o endereço cadastrado no PSP leva
+--            a escola e o token; a conciliação só baixa lançamentos da
+--            escola do token, então o PSP de uma escola não consegue
+--            baixar cobranças de outra.
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: TABELA
+-- =================================================================
+
+-- Lido só pela edge function (service_role) e por token_webhook_pix
+CREATE TABLE IF NOT EXISTS public.pix_webhook_tokens (
+    school_id uuid PRIMARY KEY REFERENCES public.schools(id) ON DELETE CASCADE,
+    token TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_pix_webhook_tokens_updated_at ON public.pix_webhook_tokens;
+CREATE TRIGGER update_pix_webhook_tokens_updated_at BEFORE UPDATE ON public.pix_webhook_tokens FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÕES
+-- =================================================================
+
+-- Token do webhook PIX da escola ativa, criado na primeira consulta.
+-- p_renovar troca o token (o endereço antigo para de funcionar no PSP).
+CREATE OR REPLACE FUNCTION public.token_webhook_pix(p_renovar BOOLEAN DEFAULT false)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_school_id uuid := public.get_my_school_id();
+    v_novo TEXT := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+    v_token TEXT;
+BEGIN
+    IF v_school_id IS NULL OR NOT public.tem_capacidade('financeiro.gerenciar') THEN
+        RAISE EXCEPTION 'Sem permissão para ver o webhook PIX desta escola';
+    END IF;
+
+    INSERT INTO public.pix_webhook_tokens (school_id, token)
+    VALUES (v_school_id, v_novo)
+    ON CONFLICT (school_id) DO UPDATE
+        SET token = CASE WHEN p_renovar THEN EXCLUDED.token ELSE pix_webhook_tokens.token END
+    RETURNING token INTO v_token;
+
+    RETURN v_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.token_webhook_pix(BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.token_webhook_pix(BOOLEAN) TO authenticated;
+
+
+-- =================================================================
+-- PARTE 3: SEGURANÇA (RLS)
+-- =================================================================
+
+-- Sem políticas: o navegador só chega ao token por token_webhook_pix
+ALTER TABLE public.pix_webhook_tokens ENABLE ROW LEVEL SECURITY;
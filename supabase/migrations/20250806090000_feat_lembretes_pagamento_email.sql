@@ -0,0 +1,306 @@
+-- =================================================================
+-- MIGRAÇÃO: Lembretes de pagamento por email, com PIX "copia e cola"
+-- Data: 2025-08-06
+-- Descrição: Os lembretes de pagamento (20250801) passam a ir também por
+--            email (caixa de saída, 20250802), inclusive para alunos sem
+--            conta no portal que tenham email no cadastro. Com chave PIX
+--            na escola, o email leva o BR Code "copia e cola" da cobrança,
+--            montado no banco como no portal (pixUtils.gerarPayloadPix).
+-- =================================================================
+
+-- =================================================================
+-- PARTE 1: BR CODE
+-- =================================================================
+
+-- Texto livre no BR Code: sem acentos, só letras, números e espaços,
+-- maiúsculo e limitado ao tamanho do campo
+CREATE OR REPLACE FUNCTION public.texto_pix(p_texto TEXT, p_tamanho INT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT left(
+        upper(trim(regexp_replace(
+            translate(
+                p_texto,
+                'áàâãäéèêëíìîïóòôõöúùûüçñÁÀÂÃÄÉÈÊËÍÌÎÏÓÒÔÕÖÚÙÛÜÇÑ',
+                'aaaaaeeeeiiiiooooouuuucnAAAAAEEEEIIIIOOOOOUUUUCN'
+            ),
+            '[^A-Za-z0-9 ]', '', 'g'
+        ))),
+        p_tamanho
+    );
+$$;
+
+-- Campo EMV: id + tamanho (2 dígitos) + valor
+CREATE OR REPLACE FUNCTION public.campo_emv(p_id TEXT, p_valor TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT p_id || lpad(length(p_valor)::text, 2, '0') || p_valor;
+$$;
+
+-- CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF) do campo 63
+CREATE OR REPLACE FUNCTION public.crc16_pix(p_payload TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_bytes bytea := convert_to(p_payload, 'UTF8');
+    v_crc INT := 65535;
+BEGIN
+    FOR i IN 0 .. length(v_bytes) - 1 LOOP
+        v_crc := v_crc # (get_byte(v_bytes, i) << 8);
+        FOR j IN 1 .. 8 LOOP
+            IF v_crc & 32768 <> 0 THEN
+                v_crc := ((v_crc << 1) # 4129) & 65535;
+            ELSE
+                v_crc := (v_crc << 1) & 65535;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    RETURN lpad(upper(to_hex(v_crc)), 4, '0');
+END;
+$$;
+
+-- Payload "copia e cola" de uma cobrança PIX estática, igual ao de
+-- gerarPayloadPix: a descrição é encurtada (ou omitida) para o campo 26
+-- não passar de 99 caracteres
+CREATE OR REPLACE FUNCTION public.payload_pix(
+    p_chave TEXT,
+    p_nome_recebedor TEXT,
+    p_cidade TEXT,
+    p_txid TEXT,
+    p_valor NUMERIC DEFAULT NULL,
+    p_descricao TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_conta TEXT := public.campo_emv('00', 'br.gov.bcb.pix') || public.campo_emv('01', trim(p_chave));
+    v_espaco INT;
+    v_descricao TEXT;
+    v_payload TEXT;
+BEGIN
+    v_espaco := LEAST(40, 99 - length(v_conta) - 4);
+    IF p_descricao IS NOT NULL AND v_espaco > 0 THEN
+        v_descricao := public.texto_pix(p_descricao, v_espaco);
+        IF v_descricao <> '' THEN
+            v_conta := v_conta || public.campo_emv('02', v_descricao);
+        END IF;
+    END IF;
+
+    v_payload :=
+        public.campo_emv('00', '01')
+        || public.campo_emv('26', v_conta)
+        || public.campo_emv('52', '0000')
+        || public.campo_emv('53', '986')
+        || CASE WHEN p_valor > 0 THEN public.campo_emv('54', to_char(p_valor, 'FM9999999990.00')) ELSE '' END
+        || public.campo_emv('58', 'BR')
+        || public.campo_emv('59', public.texto_pix(p_nome_recebedor, 25))
+        || public.campo_emv('60', public.texto_pix(p_cidade, 15))
+        || public.campo_emv('62', public.campo_emv('05', COALESCE(NULLIF(p_txid, ''), '***')))
+        || '6304';
+
+    RETURN v_payload || public.crc16_pix(v_payload);
+END;
+$$;
+
+
+-- =================================================================
+-- PARTE 2: FUNÇÃO DE ENVIO
+-- =================================================================
+
+-- Mesmas etapas e destinatários de 20250801, com o email do cadastro do
+-- aluno como último destinatário. Cada destinatário com conta recebe a
+-- notificação e o email (enfileirar_email_usuario); sem conta, só o email.
+CREATE OR REPLACE FUNCTION public.enviar_lembretes_pagamento(
+    p_school_id uuid DEFAULT NULL,
+    p_data_referencia DATE DEFAULT CURRENT_DATE
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_lembrete RECORD;
+    v_destinatarios jsonb;
+    v_lembrete_id uuid;
+    v_link text;
+    v_txid text;
+    v_pix text;
+    v_aluno RECORD;
+    v_titulo text;
+    v_mensagem text;
+    v_valor_texto text;
+    v_enviados INT := 0;
+BEGIN
+    IF COALESCE(auth.role(), '') <> 'service_role'
+       AND (p_school_id IS NULL OR p_school_id IS DISTINCT FROM public.get_my_school_id()
+            OR NOT public.tem_capacidade('financeiro.gerenciar')) THEN
+        RAISE EXCEPTION 'Sem permissão para enviar lembretes desta escola';
+    END IF;
+
+    FOR v_lembrete IN
+        SELECT
+            f.id,
+            f.school_id,
+            f.aluno_id,
+            f.descricao,
+            f.data_vencimento,
+            f.pix_txid,
+            s.chave_pix,
+            s.name AS escola_nome,
+            s.cidade AS escola_cidade,
+            f.valor + f.valor_multa + f.valor_juros AS valor_devido,
+            e.etapa
+        FROM public.financeiro f
+        JOIN public.schools s ON s.id = f.school_id
+        LEFT JOIN public.configuracoes_financeiras cf ON cf.school_id = f.school_id
+        CROSS JOIN LATERAL (VALUES
+            ('antes', f.data_vencimento - COALESCE(cf.lembrete_dias_antes, 3), f.data_vencimento - 1,
+                COALESCE(cf.lembrete_dias_antes, 3) > 0),
+            ('vencimento', f.data_vencimento, f.data_vencimento,
+                COALESCE(cf.lembrete_no_vencimento, true)),
+            ('atraso', f.data_vencimento + COALESCE(cf.lembrete_dias_depois, 5), f.data_vencimento + COALESCE(cf.lembrete_dias_depois, 5) + 6,
+                COALESCE(cf.lembrete_dias_depois, 5) > 0)
+        ) AS e(etapa, inicio, fim, ativa)
+        WHERE (p_school_id IS NULL OR f.school_id = p_school_id)
+          AND f.tipo = 'receita'
+          AND f.aluno_id IS NOT NULL
+          AND f.status IN ('pendente', 'atrasado')
+          AND e.ativa
+          AND p_data_referencia BETWEEN e.inicio AND e.fim
+          AND NOT EXISTS (
+              SELECT 1 FROM public.lembretes_pagamento l
+              WHERE l.financeiro_id = f.id AND l.etapa = e.etapa
+          )
+    LOOP
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('user_id', p.id, 'nome', p.nome_completo)), '[]'::jsonb)
+        INTO v_destinatarios
+        FROM public.aluno_responsaveis ar
+        JOIN public.profiles p ON p.id = ar.responsavel_id
+        WHERE ar.aluno_id = v_lembrete.aluno_id;
+
+        v_link := '/portal-responsavel?cobranca=' || v_lembrete.id;
+
+        IF v_destinatarios = '[]'::jsonb THEN
+            SELECT COALESCE(jsonb_agg(jsonb_build_object('user_id', a.user_id, 'nome', a.nome)), '[]'::jsonb)
+            INTO v_destinatarios
+            FROM public.alunos a
+            WHERE a.id = v_lembrete.aluno_id AND a.user_id IS NOT NULL;
+
+            v_link := '/portal-aluno?cobranca=' || v_lembrete.id;
+        END IF;
+
+        IF v_destinatarios = '[]'::jsonb THEN
+            SELECT a.nome, a.email INTO v_aluno
+            FROM public.alunos a
+            WHERE a.id = v_lembrete.aluno_id AND NULLIF(trim(a.email), '') IS NOT NULL;
+
+            IF FOUND THEN
+                v_destinatarios := jsonb_build_array(jsonb_build_object('user_id', NULL, 'nome', v_aluno.nome, 'email', trim(v_aluno.email)));
+                v_link := NULL;
+            END IF;
+        END IF;
+
+        INSERT INTO public.lembretes_pagamento (school_id, financeiro_id, etapa, valor, destinatarios)
+        VALUES (v_lembrete.school_id, v_lembrete.id, v_lembrete.etapa, v_lembrete.valor_devido, v_destinatarios)
+        ON CONFLICT (financeiro_id, etapa) DO NOTHING
+        RETURNING id INTO v_lembrete_id;
+
+        CONTINUE WHEN v_lembrete_id IS NULL;
+        v_enviados := v_enviados + 1;
+
+        -- Com chave PIX na escola, o portal mostra o "copia e cola" (mesmo txid de gerarTxidPix)
+        v_txid := COALESCE(v_lembrete.pix_txid, upper(left(replace(v_lembrete.id::text, '-', ''), 25)));
+        IF v_lembrete.pix_txid IS NULL AND v_lembrete.chave_pix IS NOT NULL THEN
+            UPDATE public.financeiro
+            SET pix_txid = v_txid
+            WHERE id = v_lembrete.id;
+        END IF;
+
+        v_valor_texto := 'R$ ' || translate(to_char(v_lembrete.valor_devido, 'FM999,999,990.00'), ',.', '.,');
+
+        IF v_lembrete.etapa = 'antes' THEN
+            v_titulo := 'Cobrança vence em ' || to_char(v_lembrete.data_vencimento, 'DD/MM');
+            v_mensagem := v_lembrete.descricao || ' vence em ' || (v_lembrete.data_vencimento - p_data_referencia)
+                || ' dia(s), em ' || to_char(v_lembrete.data_vencimento, 'DD/MM/YYYY') || '. Valor: ' || v_valor_texto;
+        ELSIF v_lembrete.etapa = 'vencimento' THEN
+            v_titulo := 'Cobrança vence hoje';
+            v_mensagem := v_lembrete.descricao || ' vence hoje. Valor: ' || v_valor_texto;
+        ELSE
+            v_titulo := 'Pagamento em Atraso';
+            v_mensagem := v_lembrete.descricao || ' está em atraso há ' || (p_data_referencia - v_lembrete.data_vencimento)
+                || ' dias. Valor atualizado: ' || v_valor_texto;
+        END IF;
+
+        INSERT INTO public.notifications (user_id, school_id, title, message, type, priority, data, created_by)
+        SELECT
+            (d ->> 'user_id')::uuid,
+            v_lembrete.school_id,
+            v_titulo,
+            v_mensagem || '. Pague pelo portal.',
+            'PAYMENT',
+            CASE WHEN v_lembrete.etapa = 'atraso' THEN 'HIGH' ELSE 'NORMAL' END,
+            jsonb_build_object('financeiro_id', v_lembrete.id, 'lembrete_id', v_lembrete_id, 'link', v_link),
+            NULL
+        FROM jsonb_array_elements(v_destinatarios) AS d
+        WHERE d ->> 'user_id' IS NOT NULL;
+
+        -- Por email, com o PIX "copia e cola" da cobrança (o mesmo do portal)
+        -- para pagar sem entrar no portal
+        IF v_lembrete.chave_pix IS NOT NULL THEN
+            v_pix := public.payload_pix(
+                v_lembrete.chave_pix,
+                v_lembrete.escola_nome,
+                COALESCE(NULLIF(v_lembrete.escola_cidade, ''), 'BRASIL'),
+                v_txid,
+                v_lembrete.valor_devido,
+                v_lembrete.descricao
+            );
+            v_mensagem := v_mensagem || '.' || E'\n\nPague por PIX com o código "copia e cola":\n' || v_pix
+                || CASE WHEN v_link IS NOT NULL THEN E'\n\nOu pague pelo portal.' ELSE '' END;
+        ELSE
+            v_mensagem := v_mensagem || '.'
+                || CASE WHEN v_link IS NOT NULL THEN ' Pague pelo portal.' ELSE ' Procure a secretaria da escola para pagar.' END;
+        END IF;
+
+        PERFORM public.enfileirar_email_usuario(
+            (d ->> 'user_id')::uuid,
+            v_lembrete.school_id,
+            v_titulo,
+            v_mensagem,
+            v_link,
+            CASE WHEN v_lembrete.etapa = 'atraso' THEN 'HIGH' ELSE 'NORMAL' END,
+            'lembrete_pagamento',
+            v_lembrete_id
+        )
+        FROM jsonb_array_elements(v_destinatarios) AS d
+        WHERE d ->> 'user_id' IS NOT NULL;
+
+        INSERT INTO public.email_outbox (school_id, destinatario, assunto, mensagem, prioridade, origem, referencia_id, created_by)
+        SELECT
+            v_lembrete.school_id,
+            d ->> 'email',
+            v_titulo,
+            v_mensagem,
+            CASE WHEN v_lembrete.etapa = 'atraso' THEN 'HIGH' ELSE 'NORMAL' END,
+            'lembrete_pagamento',
+            v_lembrete_id,
+            NULL
+        FROM jsonb_array_elements(v_destinatarios) AS d
+        WHERE d ->> 'user_id' IS NULL;
+    END LOOP;
+
+    RETURN v_enviados;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.enviar_lembretes_pagamento(uuid, DATE) TO authenticated;